@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const SECTORS_TABLE = 'sectors';
+const FRAGMENTS_FTS_INDEX = 'IDX_fragments_content_fts';
+
+/**
+ * Migration: Hybrid (full-text + vector) retrieval support
+ *
+ * - Adds a GIN index over to_tsvector('simple', content) on fragments so the
+ *   RAG flow can run keyword search alongside Pinecone. The 'simple' config
+ *   (no stemming, no stop words) is used because sectors mix Spanish and
+ *   English documents and exact terms such as policy codes must match as-is.
+ *   The expression must stay in sync with KnowledgeRepository.searchFragmentsByText.
+ * - Adds per-sector toggle and reciprocal rank fusion weights.
+ */
+export class AddHybridSearchSupport1741500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "${FRAGMENTS_FTS_INDEX}"
+       ON "fragments" USING GIN (to_tsvector('simple', "content"))`,
+    );
+
+    await queryRunner.addColumns(SECTORS_TABLE, [
+      new TableColumn({
+        name: 'hybrid_search_enabled',
+        type: 'boolean',
+        default: false,
+        comment: 'Run full-text search alongside vector search in the RAG flow',
+      }),
+      new TableColumn({
+        name: 'hybrid_vector_weight',
+        type: 'real',
+        default: 1,
+        comment: 'Reciprocal rank fusion weight of the vector ranking (0-1)',
+      }),
+      new TableColumn({
+        name: 'hybrid_lexical_weight',
+        type: 'real',
+        default: 1,
+        comment: 'Reciprocal rank fusion weight of the full-text ranking (0-1)',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(SECTORS_TABLE, 'hybrid_lexical_weight');
+    await queryRunner.dropColumn(SECTORS_TABLE, 'hybrid_vector_weight');
+    await queryRunner.dropColumn(SECTORS_TABLE, 'hybrid_search_enabled');
+    await queryRunner.query(`DROP INDEX IF EXISTS "${FRAGMENTS_FTS_INDEX}"`);
+  }
+}
@@ -0,0 +1,359 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+const GLOSSARY_TABLE = 'glossary_entries';
+
+const YOU_ARE_WELCOME_EN = "You're welcome!";
+const HOLA_AYUDARTE_ES = '¡Hola! ¿En qué puedo ayudarte?';
+
+/**
+ * Global conversational phrases and replies (formerly hard-coded in the RAG flow)
+ */
+const DEFAULT_CONVERSATIONAL_RESPONSES: Record<
+  string,
+  Record<string, string>
+> = {
+  gracias: {
+    es: '¡Con gusto! ¿Hay algo más en lo que pueda ayudarte?',
+    en: "You're welcome! Anything else I can help with?",
+  },
+  'muchas gracias': {
+    es: '¡De nada! Estoy aquí para lo que necesites.',
+    en: "My pleasure! I'm here whenever you need me.",
+  },
+  thanks: { es: '¡Con gusto!', en: YOU_ARE_WELCOME_EN },
+  'thank you': {
+    es: '¡De nada!',
+    en: "You're welcome! Let me know if you need anything else.",
+  },
+  ok: {
+    es: '¡Perfecto! ¿Tienes alguna otra pregunta?',
+    en: 'Got it! Any other questions?',
+  },
+  okay: {
+    es: '¡Entendido! ¿En qué más puedo ayudarte?',
+    en: 'Got it! How else can I help?',
+  },
+  perfecto: {
+    es: '¡Me alegra que haya sido útil! ¿Necesitas algo más?',
+    en: 'Great! Need anything else?',
+  },
+  genial: {
+    es: '¡Genial! ¿Puedo ayudarte con algo más?',
+    en: 'Awesome! Can I help with anything else?',
+  },
+  entendido: {
+    es: 'Perfecto, si tienes más dudas aquí estaré.',
+    en: "Got it! I'm here if you have more questions.",
+  },
+  'de acuerdo': {
+    es: '¡De acuerdo! ¿Hay algo más que necesites saber?',
+    en: 'Alright! Anything else you need to know?',
+  },
+  claro: {
+    es: '¡Claro que sí! ¿Puedo ayudarte con algo más?',
+    en: 'Of course! Can I help with anything else?',
+  },
+  bien: {
+    es: '¡Me alegra! ¿En qué más puedo ayudarte?',
+    en: 'Good! Is there anything else I can help with?',
+  },
+  super: {
+    es: '¡Súper! ¿Necesitas algo más?',
+    en: 'Super! Need anything else?',
+  },
+  great: {
+    es: '¡Estupendo!',
+    en: 'Great! Let me know if you need anything else.',
+  },
+  'got it': {
+    es: 'Perfecto.',
+    en: "Got it! I'm here if you need more help.",
+  },
+  noted: {
+    es: 'Anotado.',
+    en: 'Noted! Let me know if you have more questions.',
+  },
+  vale: {
+    es: '¡Vale! ¿En qué más puedo ayudarte?',
+    en: 'Alright! How else can I help?',
+  },
+  'de nada': {
+    es: '¡Con mucho gusto! ¿En qué más te puedo ayudar?',
+    en: YOU_ARE_WELCOME_EN,
+  },
+  "you're welcome": {
+    es: '¡De nada!',
+    en: "You're welcome! Glad I could help.",
+  },
+  'you are welcome': { es: '¡De nada!', en: YOU_ARE_WELCOME_EN },
+  hola: {
+    es: '¡Hola! ¿En qué puedo ayudarte hoy?',
+    en: 'Hello! How can I help you today?',
+  },
+  hello: {
+    es: HOLA_AYUDARTE_ES,
+    en: 'Hello! How can I help you today?',
+  },
+  hi: {
+    es: HOLA_AYUDARTE_ES,
+    en: 'Hi there! How can I help you?',
+  },
+  hey: {
+    es: HOLA_AYUDARTE_ES,
+    en: 'Hey! What can I help you with?',
+  },
+  'buenos días': {
+    es: '¡Buenos días! ¿En qué puedo ayudarte hoy?',
+    en: 'Good morning! How can I help you today?',
+  },
+  'buenas tardes': {
+    es: '¡Buenas tardes! ¿En qué puedo ayudarte?',
+    en: 'Good afternoon! How can I help you?',
+  },
+  'buenas noches': {
+    es: '¡Buenas noches! ¿En qué puedo ayudarte?',
+    en: 'Good evening! How can I help you?',
+  },
+  'good morning': {
+    es: '¡Buenos días! ¿Cómo puedo ayudarte?',
+    en: 'Good morning! How can I help you today?',
+  },
+  'good afternoon': {
+    es: '¡Buenas tardes! ¿Cómo puedo ayudarte?',
+    en: 'Good afternoon! How can I help you?',
+  },
+  'good evening': {
+    es: '¡Buenas noches! ¿Cómo puedo ayudarte?',
+    en: 'Good evening! How can I help you?',
+  },
+  adiós: {
+    es: '¡Hasta luego! No dudes en volver si necesitas algo.',
+    en: 'Goodbye! Feel free to come back if you need anything.',
+  },
+  bye: { es: '¡Hasta pronto!', en: 'Goodbye! Have a great day!' },
+  goodbye: { es: '¡Hasta luego!', en: 'Goodbye! Have a great day!' },
+  'hasta luego': {
+    es: '¡Hasta luego! Vuelve cuando necesites.',
+    en: 'Goodbye! Come back whenever you need help.',
+  },
+};
+
+/**
+ * Global HR / onboarding synonyms (formerly hard-coded in the RAG flow)
+ */
+const DEFAULT_SYNONYMS: Record<string, string[]> = {
+  vacaciones: [
+    'días libres',
+    'días de descanso',
+    'permisos retribuidos',
+    'días de vacaciones',
+    'vacation',
+    'PTO',
+  ],
+  festivos: [
+    'días festivos',
+    'días no laborables',
+    'días no hábiles',
+    'feriados',
+    'días de fiesta',
+    'bank holiday',
+  ],
+  baja: [
+    'baja médica',
+    'incapacidad temporal',
+    'IT',
+    'baja por enfermedad',
+    'sick leave',
+    'ausencia',
+  ],
+  nómina: [
+    'salario',
+    'sueldo',
+    'remuneración',
+    'payroll',
+    'retribución',
+    'pago mensual',
+  ],
+  contrato: [
+    'contrato laboral',
+    'tipo de contrato',
+    'modalidad contractual',
+    'employment contract',
+  ],
+  horario: [
+    'jornada laboral',
+    'horario de trabajo',
+    'turno',
+    'schedule',
+    'work hours',
+  ],
+  formación: [
+    'capacitación',
+    'cursos',
+    'training',
+    'aprendizaje',
+    'desarrollo profesional',
+  ],
+  incorporación: ['onboarding', 'primer día', 'alta', 'ingreso', 'entrada'],
+  seguridad: ['seguridad social', 'SS', 'cotización', 'afiliación'],
+  permiso: [
+    'permiso laboral',
+    'licencia',
+    'ausencia justificada',
+    'leave of absence',
+  ],
+  reembolso: ['gastos', 'dietas', 'expenses', 'reimbursement'],
+  teletrabajo: [
+    'trabajo en remoto',
+    'trabajo desde casa',
+    'remote work',
+    'home office',
+    'WFH',
+  ],
+  bonus: [
+    'incentivo',
+    'complemento',
+    'variable',
+    'paga extra',
+    'gratificación',
+  ],
+  beneficios: [
+    'beneficios sociales',
+    'ventajas',
+    'perks',
+    'benefits',
+    'retribución flexible',
+  ],
+  despido: ['despido', 'baja voluntaria', 'finiquito', 'offboarding', 'cese'],
+};
+
+/**
+ * Migration: Create Glossary Entries Table
+ *
+ * Moves the RAG synonym dictionary and conversational phrases out of the code
+ * into admin-editable rows. Rows with a NULL sector_id are global defaults;
+ * sector rows override a global row with the same type and term.
+ *
+ * Features:
+ * - UUID primary key, FK to sectors (entries are deleted with their sector)
+ * - One term per glossary and type (unique index, NULL sector = global)
+ * - Seeds the previous built-in values as global defaults
+ */
+export class CreateGlossaryEntriesTable1741600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: GLOSSARY_TABLE,
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'sector_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Owning sector; NULL for global defaults',
+          },
+          {
+            name: 'type',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'term',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Lowercased term or conversational phrase',
+          },
+          {
+            name: 'synonyms',
+            type: 'jsonb',
+            isNullable: false,
+            default: "'[]'",
+          },
+          {
+            name: 'responses',
+            type: 'jsonb',
+            isNullable: false,
+            default: "'{}'",
+            comment: 'Conversational replies keyed by language code',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['sector_id'],
+            referencedTableName: 'sectors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      GLOSSARY_TABLE,
+      new TableIndex({
+        name: 'idx_glossary_entries_sector_type',
+        columnNames: ['sector_id', 'type'],
+      }),
+    );
+
+    // NULLs are distinct in unique indexes, so global rows need their own index
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX idx_glossary_entries_sector_term
+      ON ${GLOSSARY_TABLE} (sector_id, type, term)
+      WHERE sector_id IS NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX idx_glossary_entries_global_term
+      ON ${GLOSSARY_TABLE} (type, term)
+      WHERE sector_id IS NULL
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE ${GLOSSARY_TABLE}
+      ADD CONSTRAINT chk_glossary_entries_type
+      CHECK (type IN ('synonym', 'conversational'))
+    `);
+
+    // Seed global defaults
+    for (const [term, synonyms] of Object.entries(DEFAULT_SYNONYMS)) {
+      await queryRunner.query(
+        `INSERT INTO ${GLOSSARY_TABLE} (sector_id, type, term, synonyms)
+         VALUES (NULL, 'synonym', $1, $2::jsonb)`,
+        [term, JSON.stringify(synonyms)],
+      );
+    }
+    for (const [term, responses] of Object.entries(
+      DEFAULT_CONVERSATIONAL_RESPONSES,
+    )) {
+      await queryRunner.query(
+        `INSERT INTO ${GLOSSARY_TABLE} (sector_id, type, term, responses)
+         VALUES (NULL, 'conversational', $1, $2::jsonb)`,
+        [term, JSON.stringify(responses)],
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable(GLOSSARY_TABLE, true);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+
+/**
+ * Migration: Add ingestion progress columns to knowledge_sources
+ *
+ * Documents are now ingested by a background job. These columns let
+ * clients poll the current step and percentage while the source is
+ * PROCESSING. Nullable to preserve existing rows.
+ */
+export class AddIngestionProgressToKnowledgeSources1741700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns(KNOWLEDGE_SOURCES_TABLE, [
+      new TableColumn({
+        name: 'processing_step',
+        type: 'varchar',
+        length: '30',
+        isNullable: true,
+        comment: 'Current background ingestion step (e.g. "EMBEDDING")',
+      }),
+      new TableColumn({
+        name: 'processing_progress',
+        type: 'smallint',
+        isNullable: true,
+        comment: 'Background ingestion progress percentage (0-100)',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(
+      KNOWLEDGE_SOURCES_TABLE,
+      'processing_progress',
+    );
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'processing_step');
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+const REVISIONS_TABLE = 'knowledge_source_revisions';
+const NEXT_REFRESH_INDEX = 'idx_knowledge_sources_next_refresh_at';
+
+/**
+ * Migration: Add re-crawl support for URL knowledge sources
+ *
+ * - knowledge_sources.content_hash: SHA-256 of the content (change detection)
+ * - knowledge_sources.refresh_interval_minutes / next_refresh_at: re-crawl schedule
+ * - knowledge_source_revisions: superseded content kept for diffing
+ *
+ * Existing rows keep NULLs (no hash, never re-crawled).
+ */
+export class AddUrlSourceRefresh1741800000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns(KNOWLEDGE_SOURCES_TABLE, [
+      new TableColumn({
+        name: 'content_hash',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+        comment: 'SHA-256 (hex) of the content',
+      }),
+      new TableColumn({
+        name: 'refresh_interval_minutes',
+        type: 'int',
+        isNullable: true,
+        comment: 'URL sources: minutes between re-crawls (NULL = never)',
+      }),
+      new TableColumn({
+        name: 'next_refresh_at',
+        type: 'timestamptz',
+        isNullable: true,
+        comment: 'URL sources: when the next re-crawl is due',
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      KNOWLEDGE_SOURCES_TABLE,
+      new TableIndex({
+        name: NEXT_REFRESH_INDEX,
+        columnNames: ['next_refresh_at'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: REVISIONS_TABLE,
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'source_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'content',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'content_hash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'fetched_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'When the superseded content was fetched',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['source_id'],
+            referencedTableName: KNOWLEDGE_SOURCES_TABLE,
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      REVISIONS_TABLE,
+      new TableIndex({
+        name: 'idx_knowledge_source_revisions_source_created',
+        columnNames: ['source_id', 'created_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable(REVISIONS_TABLE, true);
+    await queryRunner.dropIndex(KNOWLEDGE_SOURCES_TABLE, NEXT_REFRESH_INDEX);
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'next_refresh_at');
+    await queryRunner.dropColumn(
+      KNOWLEDGE_SOURCES_TABLE,
+      'refresh_interval_minutes',
+    );
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'content_hash');
+  }
+}
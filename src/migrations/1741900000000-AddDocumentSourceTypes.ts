@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migration: Allow DOCX, HTML, TEXT and CSV knowledge sources.
+ *
+ * Widens chk_knowledge_sources_source_type, which only allowed
+ * 'PDF', 'MARKDOWN' and 'URL'.
+ */
+export class AddDocumentSourceTypes1741900000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources" DROP CONSTRAINT IF EXISTS "chk_knowledge_sources_source_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources"
+       ADD CONSTRAINT "chk_knowledge_sources_source_type"
+       CHECK (source_type IN ('PDF', 'MARKDOWN', 'DOCX', 'HTML', 'TEXT', 'CSV', 'URL'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources" DROP CONSTRAINT IF EXISTS "chk_knowledge_sources_source_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources"
+       ADD CONSTRAINT "chk_knowledge_sources_source_type"
+       CHECK (source_type IN ('PDF', 'MARKDOWN', 'URL'))`,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+
+/**
+ * Migration: Add a per-source chunking strategy
+ *
+ * - knowledge_sources.chunking_strategy: FIXED_WINDOW (previous behaviour,
+ *   the default for existing rows) or STRUCTURED (heading/paragraph aware)
+ */
+export class AddSourceChunkingStrategy1742000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      KNOWLEDGE_SOURCES_TABLE,
+      new TableColumn({
+        name: 'chunking_strategy',
+        type: 'varchar',
+        length: '20',
+        default: "'FIXED_WINDOW'",
+        comment: 'How the source is split into fragments',
+      }),
+    );
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources"
+       ADD CONSTRAINT "chk_knowledge_sources_chunking_strategy"
+       CHECK (chunking_strategy IN ('FIXED_WINDOW', 'STRUCTURED'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_sources" DROP CONSTRAINT IF EXISTS "chk_knowledge_sources_chunking_strategy"`,
+    );
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'chunking_strategy');
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+const FRAGMENTS_TABLE = 'fragments';
+const REVISIONS_TABLE = 'knowledge_source_revisions';
+const FRAGMENTS_VERSION_INDEX = 'idx_fragments_source_version';
+const REVISIONS_VERSION_INDEX = 'uq_knowledge_source_revisions_source_version';
+
+/**
+ * Migration: Version the content of knowledge sources
+ *
+ * - knowledge_sources.version: content version (incremented on replacement)
+ * - knowledge_sources.indexed_version: version whose fragments are served
+ * - fragments.source_version: version a fragment was cut from, so a new
+ *   version can be indexed next to the served one and swapped in afterwards
+ * - knowledge_source_revisions.version: version of the superseded content
+ *
+ * Existing revisions are numbered by creation order, and each source's
+ * version follows its last revision. Existing fragments belong to the
+ * current version, which counts as indexed for COMPLETED sources.
+ */
+export class AddKnowledgeSourceVersions1742100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns(KNOWLEDGE_SOURCES_TABLE, [
+      new TableColumn({
+        name: 'version',
+        type: 'int',
+        default: 1,
+        comment: 'Content version, incremented when the content is replaced',
+      }),
+      new TableColumn({
+        name: 'indexed_version',
+        type: 'int',
+        isNullable: true,
+        comment: 'Version whose fragments are served to search',
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      FRAGMENTS_TABLE,
+      new TableColumn({
+        name: 'source_version',
+        type: 'int',
+        default: 1,
+        comment: 'Version of the source content the fragment was cut from',
+      }),
+    );
+
+    await queryRunner.addColumn(
+      REVISIONS_TABLE,
+      new TableColumn({
+        name: 'version',
+        type: 'int',
+        isNullable: true,
+        comment: 'Version of the superseded content',
+      }),
+    );
+
+    await queryRunner.query(
+      `UPDATE "knowledge_source_revisions" AS r
+       SET version = numbered.version
+       FROM (
+         SELECT id, ROW_NUMBER() OVER (PARTITION BY source_id ORDER BY created_at, id) AS version
+         FROM "knowledge_source_revisions"
+       ) AS numbered
+       WHERE r.id = numbered.id`,
+    );
+    await queryRunner.query(
+      `UPDATE "knowledge_sources" AS s
+       SET version = counts.revisions + 1
+       FROM (
+         SELECT source_id, COUNT(*) AS revisions
+         FROM "knowledge_source_revisions"
+         GROUP BY source_id
+       ) AS counts
+       WHERE s.id = counts.source_id`,
+    );
+    await queryRunner.query(
+      `UPDATE "knowledge_sources" SET indexed_version = version WHERE status = 'COMPLETED'`,
+    );
+    await queryRunner.query(
+      `UPDATE "fragments" AS f
+       SET source_version = s.version
+       FROM "knowledge_sources" AS s
+       WHERE f.source_id = s.id`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "knowledge_source_revisions" ALTER COLUMN version SET NOT NULL`,
+    );
+
+    await queryRunner.createIndex(
+      FRAGMENTS_TABLE,
+      new TableIndex({
+        name: FRAGMENTS_VERSION_INDEX,
+        columnNames: ['source_id', 'source_version'],
+      }),
+    );
+    await queryRunner.createIndex(
+      REVISIONS_TABLE,
+      new TableIndex({
+        name: REVISIONS_VERSION_INDEX,
+        columnNames: ['source_id', 'version'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(REVISIONS_TABLE, REVISIONS_VERSION_INDEX);
+    await queryRunner.dropIndex(FRAGMENTS_TABLE, FRAGMENTS_VERSION_INDEX);
+    await queryRunner.dropColumn(REVISIONS_TABLE, 'version');
+    await queryRunner.dropColumn(FRAGMENTS_TABLE, 'source_version');
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'indexed_version');
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'version');
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+const TAGS_INDEX = 'idx_knowledge_sources_tags';
+const CATEGORY_INDEX = 'idx_knowledge_sources_sector_category';
+
+/**
+ * Migration: Add tags and a category to knowledge sources
+ *
+ * - knowledge_sources.tags: normalized tags (lowercase, unique), with a GIN
+ *   index for overlap (&&) filters
+ * - knowledge_sources.category: optional category, indexed per sector
+ *
+ * Tags previously kept in metadata.tags are moved to the new column.
+ */
+export class AddKnowledgeSourceTags1742200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns(KNOWLEDGE_SOURCES_TABLE, [
+      new TableColumn({
+        name: 'tags',
+        type: 'text',
+        isArray: true,
+        default: "'{}'",
+        comment: 'Normalized tags (lowercase, unique)',
+      }),
+      new TableColumn({
+        name: 'category',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+        comment: 'Optional category of the source',
+      }),
+    ]);
+
+    await queryRunner.query(
+      `CREATE INDEX "${TAGS_INDEX}" ON "knowledge_sources" USING GIN (tags)`,
+    );
+    await queryRunner.createIndex(
+      KNOWLEDGE_SOURCES_TABLE,
+      new TableIndex({
+        name: CATEGORY_INDEX,
+        columnNames: ['sector_id', 'category'],
+      }),
+    );
+
+    await queryRunner.query(
+      `UPDATE "knowledge_sources"
+       SET tags = ARRAY(
+             SELECT DISTINCT lower(regexp_replace(btrim(tag), '\\s+', ' ', 'g'))
+             FROM jsonb_array_elements_text(metadata->'tags') AS tag
+             WHERE btrim(tag) <> ''
+           ),
+           metadata = metadata - 'tags'
+       WHERE jsonb_typeof(metadata->'tags') = 'array'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "knowledge_sources"
+       SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('tags', to_jsonb(tags))
+       WHERE cardinality(tags) > 0`,
+    );
+
+    await queryRunner.dropIndex(KNOWLEDGE_SOURCES_TABLE, CATEGORY_INDEX);
+    await queryRunner.query(`DROP INDEX IF EXISTS "${TAGS_INDEX}"`);
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'category');
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'tags');
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const FRAGMENTS_TABLE = 'fragments';
+
+/**
+ * Migration: Let curators exclude fragments from retrieval
+ *
+ * - fragments.excluded: excluded fragments have no vector and are left out
+ *   of full-text searches (false for existing rows)
+ */
+export class AddFragmentExclusion1742300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      FRAGMENTS_TABLE,
+      new TableColumn({
+        name: 'excluded',
+        type: 'boolean',
+        default: false,
+        comment: 'Whether a curator excluded the fragment from retrieval',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(FRAGMENTS_TABLE, 'excluded');
+  }
+}
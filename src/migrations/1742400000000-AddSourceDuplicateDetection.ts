@@ -0,0 +1,53 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const KNOWLEDGE_SOURCES_TABLE = 'knowledge_sources';
+const CONTENT_HASH_INDEX = 'idx_knowledge_sources_sector_content_hash';
+
+/**
+ * Migration: Detect duplicate knowledge sources on ingestion
+ *
+ * - knowledge_sources.content_signature: MinHash signature of the content,
+ *   compared to flag near duplicates (NULL for existing rows, which are
+ *   only matched as exact duplicates)
+ * - (sector_id, content_hash) index for the exact-duplicate lookup
+ *
+ * Existing rows without a content hash get one, so exact duplicates of
+ * them are rejected too.
+ */
+export class AddSourceDuplicateDetection1742400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      KNOWLEDGE_SOURCES_TABLE,
+      new TableColumn({
+        name: 'content_signature',
+        type: 'jsonb',
+        isNullable: true,
+        comment: 'MinHash signature of the content (near-duplicate detection)',
+      }),
+    );
+
+    await queryRunner.query(
+      `UPDATE "knowledge_sources"
+       SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+       WHERE content_hash IS NULL`,
+    );
+
+    await queryRunner.createIndex(
+      KNOWLEDGE_SOURCES_TABLE,
+      new TableIndex({
+        name: CONTENT_HASH_INDEX,
+        columnNames: ['sector_id', 'content_hash'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(KNOWLEDGE_SOURCES_TABLE, CONTENT_HASH_INDEX);
+    await queryRunner.dropColumn(KNOWLEDGE_SOURCES_TABLE, 'content_signature');
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+const FRAGMENTS_TABLE = 'fragments';
+const EMBEDDING_INDEXES_TABLE = 'embedding_indexes';
+const ACTIVE_INDEX = 'uq_embedding_indexes_sector_active';
+const BUILDING_INDEX = 'uq_embedding_indexes_sector_building';
+
+/** Profile every vector was embedded with before this migration */
+const PREVIOUS_EMBEDDING_MODEL = 'vertexai/gemini-embedding-001';
+const PREVIOUS_EMBEDDING_DIMENSIONS = 3072;
+
+/**
+ * Migration: Record embedding profiles and support re-indexing
+ *
+ * - fragments.embedding_model / embedding_dimensions: profile the fragment
+ *   is embedded with for search. Existing fragments were embedded with the
+ *   previous built-in profile.
+ * - embedding_indexes: vector store namespaces of a sector, with the
+ *   profile of their vectors and the progress of re-index builds. Sectors
+ *   without rows keep reading from the namespace named after the sector.
+ */
+export class AddEmbeddingIndexes1742500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns(FRAGMENTS_TABLE, [
+      new TableColumn({
+        name: 'embedding_model',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+        comment: 'Embedding model the fragment is embedded with',
+      }),
+      new TableColumn({
+        name: 'embedding_dimensions',
+        type: 'int',
+        isNullable: true,
+        comment: 'Dimension of the fragment embedding',
+      }),
+    ]);
+    await queryRunner.query(
+      `UPDATE "fragments"
+       SET embedding_model = $1, embedding_dimensions = $2`,
+      [PREVIOUS_EMBEDDING_MODEL, PREVIOUS_EMBEDDING_DIMENSIONS],
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: EMBEDDING_INDEXES_TABLE,
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+          },
+          { name: 'sector_id', type: 'uuid', isNullable: false },
+          {
+            name: 'generation',
+            type: 'int',
+            isNullable: false,
+            comment: '1 for the initial index, incremented by each re-index',
+          },
+          {
+            name: 'namespace',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Vector store namespace holding the vectors',
+          },
+          {
+            name: 'embedding_model',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          { name: 'embedding_dimensions', type: 'int', isNullable: false },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'total_fragments',
+            type: 'int',
+            isNullable: true,
+            comment: 'Fragments to embed, counted when the build starts',
+          },
+          {
+            name: 'processed_fragments',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'cursor',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Last source embedded by the build',
+          },
+          { name: 'error_message', type: 'text', isNullable: true },
+          { name: 'activated_at', type: 'timestamptz', isNullable: true },
+          { name: 'retired_at', type: 'timestamptz', isNullable: true },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['sector_id'],
+            referencedTableName: 'sectors',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      EMBEDDING_INDEXES_TABLE,
+      new TableIndex({
+        name: 'uq_embedding_indexes_sector_generation',
+        columnNames: ['sector_id', 'generation'],
+        isUnique: true,
+      }),
+    );
+    await queryRunner.createIndex(
+      EMBEDDING_INDEXES_TABLE,
+      new TableIndex({
+        name: 'idx_embedding_indexes_sector_status',
+        columnNames: ['sector_id', 'status'],
+      }),
+    );
+    // One index serves the reads of a sector, and one is built at a time
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX ${ACTIVE_INDEX}
+      ON ${EMBEDDING_INDEXES_TABLE} (sector_id)
+      WHERE status = 'ACTIVE'
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX ${BUILDING_INDEX}
+      ON ${EMBEDDING_INDEXES_TABLE} (sector_id)
+      WHERE status = 'BUILDING'
+    `);
+    await queryRunner.query(`
+      ALTER TABLE ${EMBEDDING_INDEXES_TABLE}
+      ADD CONSTRAINT chk_embedding_indexes_status
+      CHECK (status IN ('BUILDING', 'ACTIVE', 'RETIRED', 'FAILED', 'CANCELLED'))
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable(EMBEDDING_INDEXES_TABLE, true);
+    await queryRunner.dropColumn(FRAGMENTS_TABLE, 'embedding_dimensions');
+    await queryRunner.dropColumn(FRAGMENTS_TABLE, 'embedding_model');
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const FRAGMENTS_TABLE = 'fragments';
+
+/**
+ * Migration: Record the language of each fragment
+ *
+ * - fragments.language: ISO 639-1 code detected at ingestion, used to
+ *   translate questions into the languages of a sector's corpus (NULL for
+ *   existing rows until their source is ingested again)
+ */
+export class AddFragmentLanguage1742600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      FRAGMENTS_TABLE,
+      new TableColumn({
+        name: 'language',
+        type: 'varchar',
+        length: '8',
+        isNullable: true,
+        comment: 'ISO 639-1 code of the content language',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(FRAGMENTS_TABLE, 'language');
+  }
+}
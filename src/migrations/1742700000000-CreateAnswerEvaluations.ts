@@ -0,0 +1,145 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumnOptions,
+  TableIndex,
+} from 'typeorm';
+
+const EVALUATIONS_TABLE = 'answer_evaluations';
+
+/**
+ * Metric columns (score, PASS/FAIL/UNKNOWN status, judge reasoning)
+ */
+function metricColumns(metric: string): TableColumnOptions[] {
+  return [
+    {
+      name: `${metric}_score`,
+      type: 'double precision',
+      isNullable: false,
+      comment: '0 (worst) to 1 (best)',
+    },
+    {
+      name: `${metric}_status`,
+      type: 'varchar',
+      length: '10',
+      isNullable: false,
+      comment: 'PASS, FAIL or UNKNOWN (judge failed)',
+    },
+    {
+      name: `${metric}_reasoning`,
+      type: 'text',
+      isNullable: false,
+    },
+  ];
+}
+
+/**
+ * Migration: Create Answer Evaluations Table
+ *
+ * - answer_evaluations: faithfulness and relevancy scores the LLM judge gave
+ *   to an assistant answer, with the question, the model and the fragments
+ *   it was generated from (one row per message, deleted with the message)
+ * - (sector_id, created_at) index for the quality dashboard aggregations
+ */
+export class CreateAnswerEvaluations1742700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: EVALUATIONS_TABLE,
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'message_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Evaluated assistant message',
+          },
+          {
+            name: 'conversation_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'sector_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'query',
+            type: 'text',
+            isNullable: false,
+            comment: 'Question the answer was generated for',
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'LLM that generated the answer',
+          },
+          {
+            name: 'fragment_ids',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+            isNullable: false,
+            comment: 'Fragments the answer was generated from',
+          },
+          ...metricColumns('faithfulness'),
+          ...metricColumns('relevancy'),
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE ${EVALUATIONS_TABLE}
+      ADD CONSTRAINT fk_answer_evaluations_message_id
+      FOREIGN KEY (message_id)
+      REFERENCES messages(id)
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.createIndex(
+      EVALUATIONS_TABLE,
+      new TableIndex({
+        name: 'idx_answer_evaluations_message_id',
+        columnNames: ['message_id'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      EVALUATIONS_TABLE,
+      new TableIndex({
+        name: 'idx_answer_evaluations_sector_created',
+        columnNames: ['sector_id', 'created_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      EVALUATIONS_TABLE,
+      new TableIndex({
+        name: 'idx_answer_evaluations_created_at',
+        columnNames: ['created_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drops the foreign key and indexes with the table
+    await queryRunner.dropTable(EVALUATIONS_TABLE, true);
+  }
+}
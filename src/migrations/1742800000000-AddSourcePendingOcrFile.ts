@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const SOURCES_TABLE = 'knowledge_sources';
+
+/**
+ * Migration: Keep uploaded PDFs until their scanned pages are recognized
+ *
+ * - knowledge_sources.pending_ocr_file: the uploaded file, read by the
+ *   background ingestion job that runs OCR, and cleared once the source is
+ *   indexed (NULL for every other source)
+ */
+export class AddSourcePendingOcrFile1742800000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      SOURCES_TABLE,
+      new TableColumn({
+        name: 'pending_ocr_file',
+        type: 'bytea',
+        isNullable: true,
+        comment: 'Uploaded PDF whose scanned pages are yet to be recognized',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(SOURCES_TABLE, 'pending_ocr_file');
+  }
+}
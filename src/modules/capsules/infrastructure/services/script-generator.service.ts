@@ -9,6 +9,7 @@ import {
 import type { IVectorStore } from '../../../knowledge/domain/services/vector-store.interface';
 import { EmbeddingService } from '../../../knowledge/infrastructure/services/embedding.service';
 import { EmbeddingTaskType } from '../../../knowledge/infrastructure/services/embedding.service';
+import { EmbeddingIndexService } from '../../../knowledge/application/services/embedding-index.service';
 
 const SCRIPT_TEMPERATURE = 0.4;
 const SCRIPT_MAX_OUTPUT_TOKENS = 4096;
@@ -64,6 +65,7 @@ export class ScriptGeneratorService {
     @Inject('IVectorStore')
     private readonly vectorStore: IVectorStore,
     private readonly embeddingService: EmbeddingService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
   ) {}
 
   /**
@@ -222,14 +224,19 @@ export class ScriptGeneratorService {
         : // eslint-disable-next-line security/detect-object-injection
           (FALLBACK_QUERIES[langKey] ?? FALLBACK_QUERIES['es']);
 
+      // Embedded and searched like the sector's active embedding index
+      const index = await this.embeddingIndexService.getActiveIndex(
+        input.sectorId,
+      );
       const embedding = await this.embeddingService.generateEmbedding(
         queryText,
         EmbeddingTaskType.RETRIEVAL_QUERY,
+        index.getProfile(),
       );
 
       const results = await this.vectorStore.vectorSearch(
         embedding,
-        input.sectorId,
+        index.namespace,
         RAG_TOP_K,
         RAG_MIN_SCORE,
       );
@@ -0,0 +1,70 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { IAnswerCache } from '../../domain/services/answer-cache.interface';
+import type {
+  KnowledgeSourceDeletedEvent,
+  KnowledgeSourceIngestedEvent,
+  KnowledgeFragmentsCuratedEvent,
+  EmbeddingIndexSwitchedEvent,
+} from '@modules/knowledge/domain/events/knowledge.events';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * Answer Cache Invalidation Listener
+ *
+ * Drops a sector's cached answers whenever its knowledge base changes,
+ * so cached responses never outlive the documents they were built from.
+ *
+ * Events:
+ * - knowledge.source.ingested → invalidate the source's sector
+ * - knowledge.source.deleted  → invalidate the source's sector
+ * - knowledge.fragments.curated → invalidate the source's sector (a
+ *   curator edited, split, merged or excluded fragments)
+ * - knowledge.embedding_index.switched → invalidate the sector (cached
+ *   query embeddings no longer match its index)
+ */
+@Injectable()
+export class AnswerCacheInvalidationListener {
+  private readonly logger = new Logger(AnswerCacheInvalidationListener.name);
+
+  constructor(
+    @Inject('IAnswerCache')
+    private readonly answerCache: IAnswerCache,
+  ) {}
+
+  @OnEvent('knowledge.source.ingested')
+  async handleSourceIngested(
+    event: KnowledgeSourceIngestedEvent,
+  ): Promise<void> {
+    await this.invalidate(event.sectorId, 'knowledge.source.ingested');
+  }
+
+  @OnEvent('knowledge.source.deleted')
+  async handleSourceDeleted(event: KnowledgeSourceDeletedEvent): Promise<void> {
+    await this.invalidate(event.sectorId, 'knowledge.source.deleted');
+  }
+
+  @OnEvent('knowledge.fragments.curated')
+  async handleFragmentsCurated(
+    event: KnowledgeFragmentsCuratedEvent,
+  ): Promise<void> {
+    await this.invalidate(event.sectorId, 'knowledge.fragments.curated');
+  }
+
+  @OnEvent('knowledge.embedding_index.switched')
+  async handleEmbeddingIndexSwitched(
+    event: EmbeddingIndexSwitchedEvent,
+  ): Promise<void> {
+    await this.invalidate(event.sectorId, 'knowledge.embedding_index.switched');
+  }
+
+  private async invalidate(sectorId: string, eventName: string): Promise<void> {
+    try {
+      await this.answerCache.invalidateSector(sectorId);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to handle ${eventName} event: ${extractErrorMessage(error)}`,
+      );
+    }
+  }
+}
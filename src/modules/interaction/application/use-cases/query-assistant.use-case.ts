@@ -5,20 +5,30 @@
  * Manages conversation history and integrates with the RAG query flow.
  */
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import type { IConversationRepository } from '../../domain/repositories/conversation.repository.interface';
+import type { IAnswerEvaluationRepository } from '../../domain/repositories/answer-evaluation.repository.interface';
 import { Conversation } from '../../domain/entities/conversation.entity';
 import { Message } from '../../domain/entities/message.entity';
+import { AnswerEvaluation } from '../../domain/entities/answer-evaluation.entity';
 import type { UserContext } from '../../domain/value-objects/user-context.vo';
 import type {
+  RagAnswerEvaluation,
   RagQueryInput,
   RagQueryOutput,
+  RagQueryStreamHandlers,
+  RetrievalFilter,
 } from '@shared/genkit/flows/rag-query.flow';
+import type { ConversationTurn } from '@shared/genkit/retrieval';
 import { ragQueryOutputSchema } from '@shared/genkit/flows/rag-query.flow';
 import { requireNonEmpty } from '@shared/validators';
+import { extractErrorMessage, normalizeTags } from '@shared/utils';
 
 // Constants
 const DEFAULT_CONTEXT_MESSAGE_LIMIT = 10;
+/** Previous messages used to rewrite follow-up questions into standalone queries */
+const QUERY_REWRITE_HISTORY_LIMIT = 6;
 const HTTP_TOO_MANY_REQUESTS = 429;
 
 /**
@@ -61,21 +71,75 @@ const RETRY_CONFIG = {
   backoffFactor: 2,
 } as const;
 
+/**
+ * Stream handlers of one attempt, recording whether anything was streamed
+ */
+function trackStreaming(handlers: RagQueryStreamHandlers): {
+  handlers: RagQueryStreamHandlers;
+  streamed: () => boolean;
+} {
+  let streamed = false;
+  const { onRetrieval, onToken } = handlers;
+  return {
+    handlers: {
+      ...handlers,
+      ...(onRetrieval && {
+        onRetrieval: (fragments) => {
+          streamed = true;
+          onRetrieval(fragments);
+        },
+      }),
+      ...(onToken && {
+        onToken: (delta) => {
+          streamed = true;
+          onToken(delta);
+        },
+      }),
+    },
+    streamed: () => streamed,
+  };
+}
+
+/**
+ * Whether a failed attempt can be retried without duplicating what the
+ * consumer already received: the consumer is reset when the attempt
+ * streamed anything, and without an `onReset` handler it is not retried.
+ */
+function prepareRetry(
+  handlers: RagQueryStreamHandlers | undefined,
+  streamed: boolean,
+): boolean {
+  if (!streamed) {
+    return true;
+  }
+  if (!handlers?.onReset) {
+    return false;
+  }
+  handlers.onReset();
+  return true;
+}
+
 async function safeExecuteRagQuery(
   ragQueryFn: RagQueryFlowFunction,
   input: RagQueryInput,
+  handlers?: RagQueryStreamHandlers,
 ): Promise<RagQueryOutput> {
   let lastError: unknown;
   let waitMs = RETRY_CONFIG.initialDelayMs;
 
   for (let attempt = 1; attempt <= RETRY_CONFIG.maxAttempts; attempt++) {
+    const attempted = handlers ? trackStreaming(handlers) : undefined;
     try {
-      const result: unknown = await ragQueryFn(input);
+      const result: unknown = await ragQueryFn(input, attempted?.handlers);
       // Validate core result structure using Zod schema — fall through to existing logic
       return parseRagResult(result);
     } catch (error: unknown) {
       lastError = error;
-      if (isRateLimitError(error) && attempt < RETRY_CONFIG.maxAttempts) {
+      if (
+        isRateLimitError(error) &&
+        attempt < RETRY_CONFIG.maxAttempts &&
+        prepareRetry(handlers, attempted?.streamed() ?? false)
+      ) {
         await delay(waitMs);
         waitMs *= RETRY_CONFIG.backoffFactor;
         continue;
@@ -113,6 +177,19 @@ function parseRagResult(result: unknown): RagQueryOutput {
 export interface SearchOptions {
   maxResults?: number;
   minSimilarity?: number;
+  /** Only retrieve fragments of these knowledge sources */
+  sourceIds?: string[];
+  /** Only retrieve fragments of sources with at least one of these tags */
+  tags?: string[];
+}
+
+/**
+ * Per-sector hybrid retrieval settings (full-text + vector, fused with RRF)
+ */
+export interface HybridSearchOptions {
+  enabled: boolean;
+  vectorWeight: number;
+  lexicalWeight: number;
 }
 
 export interface QueryAssistantInput {
@@ -127,6 +204,8 @@ export interface QueryAssistantInput {
   };
   /** UI language so the assistant replies in the user's selected language */
   language?: string;
+  /** Sector hybrid retrieval settings; vector-only search when omitted */
+  hybridSearch?: HybridSearchOptions;
 }
 
 /**
@@ -146,6 +225,20 @@ export interface EvaluationOutput {
   relevancy: EvaluationScoreOutput;
 }
 
+/**
+ * A section citation resolved to the fragment it points at
+ */
+export interface CitationOutput {
+  /** 1-based fragment number as referenced in the prompt ([1]..[n]) */
+  index: number;
+  fragmentId: string;
+  sourceId: string;
+  /** Title of the source document; null when the source can't be found */
+  title: string | null;
+  /** Section of the document the fragment comes from (structured chunking) */
+  headingPath?: string[];
+}
+
 /**
  * Structured response section
  */
@@ -153,6 +246,8 @@ export interface StructuredSectionOutput {
   title: string;
   content: string;
   type: 'info' | 'steps' | 'warning' | 'tip';
+  /** Fragments backing this section */
+  citations?: CitationOutput[];
 }
 
 /**
@@ -167,7 +262,7 @@ export interface StructuredResponseOutput {
 
 export interface QueryAssistantOutput {
   response: string;
-  responseType: 'answer' | 'no_context' | 'conversational' | 'error';
+  responseType: 'answer' | 'no_context' | 'conversational' | 'error' | 'cached';
   structured?: StructuredResponseOutput;
   conversationId: string;
   sources: Array<{
@@ -179,30 +274,74 @@ export interface QueryAssistantOutput {
   }>;
   timestamp: Date;
   evaluation?: EvaluationOutput;
+  /** ID of the persisted user message */
+  userMessageId?: string;
+  /** ID of the persisted assistant message */
+  assistantMessageId?: string;
 }
 
 export type RagQueryFlowFunction = (
   input: RagQueryInput,
+  handlers?: RagQueryStreamHandlers,
 ) => Promise<RagQueryOutput>;
 
+/**
+ * Resolves knowledge source titles (sourceId → title) for citations.
+ * Missing IDs are simply absent from the returned map.
+ */
+export type SourceTitleResolver = (
+  sourceIds: string[],
+) => Promise<Map<string, string>>;
+
+/**
+ * Assistant message an answer evaluation is recorded for
+ */
+interface EvaluatedAnswer {
+  messageId: string;
+  conversationId: string;
+  sectorId: string;
+  query: string;
+}
+
+/**
+ * Records the background evaluation of an answer
+ */
+interface EvaluationRecorder {
+  onEvaluation: (result: RagAnswerEvaluation) => void;
+  /** Called once the evaluated message is saved */
+  answerSaved: () => void;
+}
+
 @Injectable()
 export class QueryAssistantUseCase {
+  private readonly logger = new Logger(QueryAssistantUseCase.name);
+
   constructor(
     private readonly conversationRepository: IConversationRepository,
     private readonly ragQueryFlow: RagQueryFlowFunction,
+    private readonly resolveSourceTitles?: SourceTitleResolver,
+    private readonly evaluationRepository?: IAnswerEvaluationRepository,
   ) {}
 
   /**
    * Execute the query assistant use case
    * @param input - Query parameters
+   * @param handlers - Optional stream callbacks (retrieval results, token deltas).
+   *   The full assistant message is still persisted once generation completes.
    * @returns Assistant response with metadata
    */
-  async execute(input: QueryAssistantInput): Promise<QueryAssistantOutput> {
+  async execute(
+    input: QueryAssistantInput,
+    handlers?: RagQueryStreamHandlers,
+  ): Promise<QueryAssistantOutput> {
     // Validate input
     this.validateInput(input);
 
-    // 1. Get or create conversation
+    // 1. Get or create conversation (and its recent turns for follow-up rewriting)
     const conversation = await this.getOrCreateConversation(input);
+    const conversationHistory = conversation.hasMessages()
+      ? await this.loadRecentTurns(conversation.id)
+      : [];
 
     // 2. Add user message to conversation
     const userMessage = new Message({
@@ -221,6 +360,17 @@ export class QueryAssistantUseCase {
     );
 
     // 4. Execute RAG query flow with type-safe wrapper
+    const assistantMessageId = randomUUID();
+    const evaluationRecorder = this.createEvaluationRecorder(
+      {
+        messageId: assistantMessageId,
+        conversationId: conversation.id,
+        sectorId: input.userContext.sectorId,
+        query: input.query,
+      },
+      handlers?.onEvaluation,
+    );
+    const retrievalFilter = this.buildRetrievalFilter(input.searchOptions);
     const ragQueryInput = {
       // Use raw user query for embedding — keeps the vector semantically focused
       query: input.query,
@@ -231,6 +381,7 @@ export class QueryAssistantUseCase {
       ...(conversationContext !== input.query && {
         conversationContext,
       }),
+      ...(conversationHistory.length > 0 && { conversationHistory }),
       ...(input.searchOptions?.maxResults !== undefined && {
         maxResults: input.searchOptions.maxResults,
       }),
@@ -244,14 +395,24 @@ export class QueryAssistantUseCase {
       ...(input.language !== undefined && {
         language: input.language,
       }),
+      ...(input.hybridSearch !== undefined && {
+        hybridSearch: input.hybridSearch,
+      }),
+      ...(retrievalFilter && { retrievalFilter }),
     } as RagQueryInput;
 
     const ragResult = await safeExecuteRagQuery(
       this.ragQueryFlow,
       ragQueryInput,
+      evaluationRecorder
+        ? { ...handlers, onEvaluation: evaluationRecorder.onEvaluation }
+        : handlers,
     );
 
-    // 5. Add assistant message to conversation with evaluation scores
+    // 5. Resolve section citations ([n] → fragment/source) for the UI
+    const structured = await this.buildStructuredOutput(ragResult);
+
+    // 6. Add assistant message to conversation with evaluation scores
     const sourceFragmentIds = ragResult.sources.map((s) => s.id);
 
     const messageMetadata: Record<string, unknown> = {
@@ -259,6 +420,27 @@ export class QueryAssistantUseCase {
       sourcesCount: ragResult.sources.length,
     };
 
+    // Standalone query actually used for retrieval when the question was a follow-up
+    if (ragResult.metadata?.rewrittenQuery) {
+      messageMetadata.rewrittenQuery = ragResult.metadata.rewrittenQuery;
+    }
+
+    // Translations searched in the other languages of the sector's corpus
+    if (ragResult.metadata?.translatedQueries) {
+      messageMetadata.translatedQueries = ragResult.metadata.translatedQueries;
+    }
+
+    // Store citations so the history view can render them like the live answer
+    if (structured) {
+      messageMetadata.citations = structured.sections.flatMap(
+        (section, sectionIndex) =>
+          (section.citations ?? []).map((citation) => ({
+            sectionIndex,
+            ...citation,
+          })),
+      );
+    }
+
     // Store evaluation scores in message metadata if available
     if (ragResult.evaluation) {
       messageMetadata.evaluation = {
@@ -276,6 +458,7 @@ export class QueryAssistantUseCase {
     }
 
     const assistantMessage = new Message({
+      id: assistantMessageId,
       conversationId: conversation.id,
       role: 'assistant',
       content: ragResult.response,
@@ -283,30 +466,187 @@ export class QueryAssistantUseCase {
     });
     conversation.addMessage(assistantMessage);
 
-    // 6. Save conversation with messages
+    // 7. Save conversation with messages
     await this.conversationRepository.save(conversation);
+    evaluationRecorder?.answerSaved();
 
-    // 7. Return formatted response with evaluation
+    // 8. Return formatted response with evaluation
     const response: QueryAssistantOutput = {
       response: ragResult.response,
       responseType: ragResult.responseType ?? 'answer',
-      structured: ragResult.structured
-        ? {
-            summary: ragResult.structured.summary,
-            sections: ragResult.structured.sections,
-            keyPoints: ragResult.structured.keyPoints,
-            relatedTopics: ragResult.structured.relatedTopics,
-          }
-        : undefined,
+      structured,
       conversationId: conversation.id,
       sources: ragResult.sources,
       timestamp: ragResult.timestamp,
       evaluation: ragResult.evaluation,
+      userMessageId: userMessage.id,
+      assistantMessageId: assistantMessage.id,
     };
 
     return response;
   }
 
+  /**
+   * Persists the evaluation the RAG flow runs in the background after an
+   * answer, when an evaluation repository is configured. The evaluation
+   * references the assistant message, so a result arriving before the
+   * conversation is saved is held until then (and dropped if the save
+   * fails). Persistence failures are logged, never surfaced to the user.
+   */
+  private createEvaluationRecorder(
+    answer: EvaluatedAnswer,
+    forward?: (result: RagAnswerEvaluation) => void,
+  ): EvaluationRecorder | undefined {
+    const repository = this.evaluationRepository;
+    if (!repository) {
+      return undefined;
+    }
+
+    let saved = false;
+    let pending: RagAnswerEvaluation | undefined;
+
+    const persist = (result: RagAnswerEvaluation): void => {
+      Promise.resolve()
+        .then(() =>
+          repository.save(
+            new AnswerEvaluation({
+              ...answer,
+              model: result.model,
+              fragmentIds: result.fragmentIds,
+              faithfulness: result.evaluation.faithfulness,
+              relevancy: result.evaluation.relevancy,
+            }),
+          ),
+        )
+        .catch((error: unknown) => {
+          this.logger.warn(
+            `Failed to persist the evaluation of message ${answer.messageId}: ${extractErrorMessage(error)}`,
+          );
+        });
+    };
+
+    return {
+      onEvaluation: (result) => {
+        forward?.(result);
+        if (saved) {
+          persist(result);
+        } else {
+          pending = result;
+        }
+      },
+      answerSaved: () => {
+        saved = true;
+        if (pending) {
+          persist(pending);
+          pending = undefined;
+        }
+      },
+    };
+  }
+
+  /**
+   * Maps the structured RAG response to the output shape, resolving each
+   * section's citation indices to the cited fragment and its source title.
+   * Indices that don't match a returned source are dropped.
+   */
+  private async buildStructuredOutput(
+    ragResult: RagQueryOutput,
+  ): Promise<StructuredResponseOutput | undefined> {
+    const { structured, sources } = ragResult;
+    if (!structured) {
+      return undefined;
+    }
+
+    const citedIndices = new Set(
+      structured.sections.flatMap((section) => section.citations ?? []),
+    );
+    const citedSourceIds = [
+      ...new Set(
+        sources
+          .filter((_source, i) => citedIndices.has(i + 1))
+          .map((source) => source.sourceId),
+      ),
+    ];
+    const titles = await this.findSourceTitles(citedSourceIds);
+
+    return {
+      summary: structured.summary,
+      sections: structured.sections.map((section) => ({
+        title: section.title,
+        content: section.content,
+        type: section.type,
+        citations: (section.citations ?? []).flatMap((index) => {
+          const fragment = sources[index - 1] as
+            | RagQueryOutput['sources'][number]
+            | undefined;
+          if (!fragment) {
+            return [];
+          }
+          const headingPath = this.headingPathOf(fragment.metadata);
+          return [
+            {
+              index,
+              fragmentId: fragment.id,
+              sourceId: fragment.sourceId,
+              title: titles.get(fragment.sourceId) ?? null,
+              ...(headingPath && { headingPath }),
+            },
+          ];
+        }),
+      })),
+      keyPoints: structured.keyPoints,
+      relatedTopics: structured.relatedTopics,
+    };
+  }
+
+  /**
+   * Reads the heading path recorded on a retrieved fragment, if any
+   */
+  private headingPathOf(
+    metadata?: Record<string, unknown>,
+  ): string[] | undefined {
+    const headingPath = metadata?.headingPath;
+    return Array.isArray(headingPath) && headingPath.length > 0
+      ? headingPath.map(String)
+      : undefined;
+  }
+
+  /**
+   * Builds the retrieval scope from the search options. Tags are
+   * normalized the way source tags are stored.
+   * @returns undefined when neither sources nor tags are given
+   */
+  private buildRetrievalFilter(
+    searchOptions?: SearchOptions,
+  ): RetrievalFilter | undefined {
+    const sourceIds = searchOptions?.sourceIds ?? [];
+    const tags = normalizeTags(searchOptions?.tags ?? []);
+    if (sourceIds.length === 0 && tags.length === 0) {
+      return undefined;
+    }
+    return {
+      ...(sourceIds.length > 0 && { sourceIds }),
+      ...(tags.length > 0 && { tags }),
+    };
+  }
+
+  /**
+   * Looks up source titles for citations. Title lookup is best-effort:
+   * citations are still returned (with a null title) if it fails.
+   */
+  private async findSourceTitles(
+    sourceIds: string[],
+  ): Promise<Map<string, string>> {
+    if (!this.resolveSourceTitles || sourceIds.length === 0) {
+      return new Map();
+    }
+    try {
+      return await this.resolveSourceTitles(sourceIds);
+    } catch {
+      return new Map();
+    }
+  }
+
   /**
    * Validate input parameters
    */
@@ -353,6 +693,30 @@ export class QueryAssistantUseCase {
     });
   }
 
+  /**
+   * Loads the last messages of the conversation (oldest first) for follow-up
+   * rewriting. Best-effort: the query proceeds without history on failure.
+   */
+  private async loadRecentTurns(
+    conversationId: string,
+  ): Promise<ConversationTurn[]> {
+    try {
+      const messages = await this.conversationRepository.getMessages(
+        conversationId,
+        { limit: QUERY_REWRITE_HISTORY_LIMIT, order: 'DESC' },
+      );
+      return messages
+        .filter((msg) => msg.role !== 'system')
+        .reverse()
+        .map((msg) => ({
+          role: msg.role as ConversationTurn['role'],
+          content: msg.content,
+        }));
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Build query with conversation context
    * Combines current query with recent conversation history
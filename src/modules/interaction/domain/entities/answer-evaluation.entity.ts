@@ -0,0 +1,152 @@
+/**
+ * Answer Evaluation Entity
+ *
+ * Quality scores an LLM judge gave to one assistant answer: faithfulness
+ * (grounded in the retrieved fragments) and relevancy (answers the
+ * question). Kept per assistant message so curators can follow answer
+ * quality per sector and find the questions the documentation covers badly.
+ */
+
+import { randomUUID } from 'crypto';
+
+/**
+ * Outcome of one evaluation metric. UNKNOWN means the judge failed; its
+ * score carries no information.
+ */
+export type EvaluationStatus = 'PASS' | 'FAIL' | 'UNKNOWN';
+
+export interface EvaluationScoreProps {
+  /** 0 (worst) to 1 (best) */
+  score: number;
+  status: EvaluationStatus;
+  reasoning: string;
+}
+
+export interface AnswerEvaluationProps {
+  id?: string;
+  /** Assistant message the evaluation belongs to */
+  messageId: string;
+  conversationId: string;
+  sectorId: string;
+  /** Question the answer was generated for */
+  query: string;
+  /** LLM that generated the answer */
+  model: string;
+  /** Fragments the answer was generated from, in prompt order */
+  fragmentIds: string[];
+  faithfulness: EvaluationScoreProps;
+  relevancy: EvaluationScoreProps;
+  createdAt?: Date;
+}
+
+export class AnswerEvaluation {
+  private readonly _id: string;
+  private readonly _messageId: string;
+  private readonly _conversationId: string;
+  private readonly _sectorId: string;
+  private readonly _query: string;
+  private readonly _model: string;
+  private readonly _fragmentIds: string[];
+  private readonly _faithfulness: EvaluationScoreProps;
+  private readonly _relevancy: EvaluationScoreProps;
+  private readonly _createdAt: Date;
+
+  constructor(props: AnswerEvaluationProps) {
+    this.validateProps(props);
+
+    this._id = props.id ?? randomUUID();
+    this._messageId = props.messageId;
+    this._conversationId = props.conversationId;
+    this._sectorId = props.sectorId;
+    this._query = props.query.trim();
+    this._model = props.model;
+    this._fragmentIds = [...props.fragmentIds];
+    this._faithfulness = { ...props.faithfulness };
+    this._relevancy = { ...props.relevancy };
+    this._createdAt = props.createdAt ?? new Date();
+  }
+
+  /**
+   * Validate evaluation properties
+   */
+  private validateProps(props: AnswerEvaluationProps): void {
+    if (!props.messageId || props.messageId.trim() === '') {
+      throw new Error('Message ID is required');
+    }
+
+    if (!props.conversationId || props.conversationId.trim() === '') {
+      throw new Error('Conversation ID is required');
+    }
+
+    if (!props.sectorId || props.sectorId.trim() === '') {
+      throw new Error('Sector ID is required');
+    }
+
+    if (!props.query || props.query.trim() === '') {
+      throw new Error('Query is required');
+    }
+
+    for (const [metric, value] of [
+      ['Faithfulness', props.faithfulness],
+      ['Relevancy', props.relevancy],
+    ] as const) {
+      if (!(value.score >= 0 && value.score <= 1)) {
+        throw new Error(`${metric} score must be between 0 and 1`);
+      }
+    }
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  get messageId(): string {
+    return this._messageId;
+  }
+
+  get conversationId(): string {
+    return this._conversationId;
+  }
+
+  get sectorId(): string {
+    return this._sectorId;
+  }
+
+  get query(): string {
+    return this._query;
+  }
+
+  get model(): string {
+    return this._model;
+  }
+
+  get fragmentIds(): string[] {
+    return [...this._fragmentIds];
+  }
+
+  get faithfulness(): EvaluationScoreProps {
+    return { ...this._faithfulness };
+  }
+
+  get relevancy(): EvaluationScoreProps {
+    return { ...this._relevancy };
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  /**
+   * Lowest score among the metrics the judge could evaluate
+   * @returns The score, or undefined when every metric is UNKNOWN
+   */
+  public lowestScore(): number | undefined {
+    const scores = [this._faithfulness, this._relevancy]
+      .filter((metric) => metric.status !== 'UNKNOWN')
+      .map((metric) => metric.score);
+    return scores.length > 0 ? Math.min(...scores) : undefined;
+  }
+}
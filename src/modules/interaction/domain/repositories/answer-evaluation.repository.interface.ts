@@ -0,0 +1,105 @@
+/**
+ * Answer Evaluation Repository Interface
+ *
+ * Defines the contract for persisting answer evaluations and aggregating
+ * them for the quality dashboard.
+ * This is a Domain layer interface - implementations live in Infrastructure layer.
+ */
+
+import { AnswerEvaluation } from '../entities/answer-evaluation.entity';
+
+/**
+ * Evaluations to aggregate: all sectors unless one is given, optionally
+ * within a creation date range (from inclusive, to exclusive)
+ */
+export interface EvaluationFilter {
+  sectorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Number of scores within [min, max) — the last bucket includes 1
+ */
+export interface ScoreBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * How the scores of one metric are spread. UNKNOWN results (the judge
+ * failed) are counted apart and left out of the buckets and the average.
+ */
+export interface MetricDistribution {
+  buckets: ScoreBucket[];
+  pass: number;
+  fail: number;
+  unknown: number;
+  /** Mean score, or null without evaluated answers */
+  average: number | null;
+}
+
+export interface EvaluationScoreDistribution {
+  evaluations: number;
+  faithfulness: MetricDistribution;
+  relevancy: MetricDistribution;
+}
+
+export type FailRateInterval = 'day' | 'week';
+
+/**
+ * Evaluations of one period and how many failed
+ */
+export interface FailRatePoint {
+  /** Start of the day, or of the week (Monday) */
+  periodStart: Date;
+  evaluations: number;
+  /** Answers failed on at least one metric */
+  failures: number;
+  faithfulnessFailures: number;
+  relevancyFailures: number;
+  /** failures / evaluations */
+  failRate: number;
+}
+
+export interface IAnswerEvaluationRepository {
+  /**
+   * Save an evaluation
+   * @param evaluation - The evaluation to save
+   * @returns The saved evaluation
+   */
+  save(evaluation: AnswerEvaluation): Promise<AnswerEvaluation>;
+
+  /**
+   * Spread of the faithfulness and relevancy scores, in ten buckets of 0.1
+   * @param filter - Evaluations to aggregate
+   * @returns Score distribution per metric
+   */
+  getScoreDistribution(
+    filter: EvaluationFilter,
+  ): Promise<EvaluationScoreDistribution>;
+
+  /**
+   * Failed answers per day or week
+   * @param filter - Evaluations to aggregate
+   * @param interval - Length of each period
+   * @returns One point per period with evaluations, oldest first
+   */
+  getFailRates(
+    filter: EvaluationFilter,
+    interval: FailRateInterval,
+  ): Promise<FailRatePoint[]>;
+
+  /**
+   * Evaluations of a sector with the lowest scores (the lowest of the
+   * evaluated metrics of each answer); all-UNKNOWN evaluations are left out
+   * @param filter - Sector and optional date range
+   * @param limit - Maximum number of evaluations
+   * @returns Worst first, the most recent first among equal scores
+   */
+  findWorstScoring(
+    filter: EvaluationFilter & { sectorId: string },
+    limit: number,
+  ): Promise<AnswerEvaluation[]>;
+}
@@ -75,7 +75,8 @@ export interface IConversationRepository {
   /**
    * Get messages for a conversation
    * @param conversationId - The conversation ID
-   * @param options - Optional pagination
+   * @param options - Optional pagination and sort direction by creation
+   *   date (ASC by default; DESC returns the most recent messages first)
    * @returns Array of messages
    */
   getMessages(
@@ -83,6 +84,7 @@ export interface IConversationRepository {
     options?: {
       limit?: number;
       offset?: number;
+      order?: 'ASC' | 'DESC';
     },
   ): Promise<Message[]>;
 
@@ -5,3 +5,4 @@
  */
 
 export type { IConversationRepository } from './conversation.repository.interface';
+export type { IAnswerEvaluationRepository } from './answer-evaluation.repository.interface';
@@ -0,0 +1,76 @@
+/**
+ * Answer Cache Interface
+ *
+ * Semantic cache of previously generated RAG answers, scoped per sector.
+ * A lookup matches a prior answer when its query embedding is similar
+ * enough to the new query embedding, so repeated questions skip retrieval
+ * and generation.
+ *
+ * Entries for a sector must be dropped whenever its knowledge base
+ * changes (see AnswerCacheInvalidationListener). Each invalidation starts a
+ * new epoch of the sector: an answer generated from the knowledge of an
+ * earlier epoch is not stored.
+ */
+
+/**
+ * Answer payload stored in the cache.
+ * `structured` is kept opaque: it is produced and consumed by the RAG flow.
+ */
+export interface CachedAnswer {
+  /** Query that produced the answer (as used for retrieval) */
+  query: string;
+  response: string;
+  structured?: unknown;
+  sources: Array<{
+    id: string;
+    content: string;
+    sourceId: string;
+    similarity: number;
+    metadata?: Record<string, unknown>;
+  }>;
+}
+
+/**
+ * Lookup key: answers only match within the same sector and language
+ */
+export interface AnswerCacheKey {
+  sectorId: string;
+  embedding: number[];
+  /** Reply language; answers in another language never match */
+  language?: string;
+}
+
+/**
+ * Result of a lookup
+ */
+export interface AnswerCacheLookup {
+  /** Most similar cached answer, or null on a miss */
+  answer: CachedAnswer | null;
+  /** Invalidation epoch of the sector at lookup time */
+  epoch: number;
+}
+
+export interface IAnswerCache {
+  /**
+   * Returns the most similar cached answer above the configured
+   * similarity threshold (null on a miss), and the current epoch of the
+   * sector.
+   */
+  lookup(key: AnswerCacheKey): Promise<AnswerCacheLookup>;
+
+  /**
+   * Stores an answer for future lookups, unless the sector was invalidated
+   * since the given epoch
+   * @param epoch - Epoch returned by the lookup that preceded the answer
+   */
+  store(
+    key: AnswerCacheKey,
+    answer: CachedAnswer,
+    epoch: number,
+  ): Promise<void>;
+
+  /**
+   * Drops every cached answer of a sector
+   */
+  invalidateSector(sectorId: string): Promise<void>;
+}
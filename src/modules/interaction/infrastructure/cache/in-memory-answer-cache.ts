@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { cosineSimilarity, readNumberEnv } from '@shared/utils';
+import type {
+  AnswerCacheKey,
+  AnswerCacheLookup,
+  CachedAnswer,
+  IAnswerCache,
+} from '../../domain/services/answer-cache.interface';
+
+const DEFAULT_MIN_SIMILARITY = 0.95;
+const DEFAULT_TTL_SECONDS = 86_400;
+const MS_PER_SECOND = 1000;
+/** Oldest entries are evicted first once a sector reaches this size */
+const MAX_ENTRIES_PER_SECTOR = 500;
+
+interface CacheEntry {
+  embedding: number[];
+  language?: string;
+  answer: CachedAnswer;
+  expiresAt: number;
+}
+
+/**
+ * In-memory semantic answer cache
+ *
+ * Keeps answers per sector in process memory and matches them by cosine
+ * similarity of the query embeddings. Each instance has its own cache, so
+ * entries also expire after a TTL to bound staleness across instances.
+ * Answers generated while their sector was invalidated are not stored (see
+ * IAnswerCache).
+ *
+ * Configuration:
+ * - RAG_ANSWER_CACHE_MIN_SIMILARITY: minimum cosine similarity for a hit (default 0.95)
+ * - RAG_ANSWER_CACHE_TTL_SECONDS: entry lifetime (default 24h)
+ */
+@Injectable()
+export class InMemoryAnswerCache implements IAnswerCache {
+  private readonly logger = new Logger(InMemoryAnswerCache.name);
+  private readonly entriesBySector = new Map<string, CacheEntry[]>();
+  private readonly epochBySector = new Map<string, number>();
+  private readonly minSimilarity: number;
+  private readonly ttlMs: number;
+
+  constructor() {
+    this.minSimilarity = readNumberEnv(
+      'RAG_ANSWER_CACHE_MIN_SIMILARITY',
+      DEFAULT_MIN_SIMILARITY,
+    );
+    this.ttlMs =
+      readNumberEnv('RAG_ANSWER_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) *
+      MS_PER_SECOND;
+  }
+
+  lookup(key: AnswerCacheKey): Promise<AnswerCacheLookup> {
+    const entries = this.liveEntries(key.sectorId);
+
+    let best: { entry: CacheEntry; similarity: number } | undefined;
+    for (const entry of entries) {
+      if (
+        entry.language !== key.language ||
+        entry.embedding.length !== key.embedding.length
+      ) {
+        continue;
+      }
+      const similarity = cosineSimilarity(entry.embedding, key.embedding);
+      if (
+        similarity >= this.minSimilarity &&
+        (!best || similarity > best.similarity)
+      ) {
+        best = { entry, similarity };
+      }
+    }
+
+    return Promise.resolve({
+      answer: best?.entry.answer ?? null,
+      epoch: this.epochOf(key.sectorId),
+    });
+  }
+
+  store(
+    key: AnswerCacheKey,
+    answer: CachedAnswer,
+    epoch: number,
+  ): Promise<void> {
+    if (epoch !== this.epochOf(key.sectorId)) {
+      // Generated from knowledge that changed in the meantime
+      return Promise.resolve();
+    }
+
+    const entries = this.liveEntries(key.sectorId);
+    entries.push({
+      embedding: key.embedding,
+      language: key.language,
+      answer,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    if (entries.length > MAX_ENTRIES_PER_SECTOR) {
+      entries.splice(0, entries.length - MAX_ENTRIES_PER_SECTOR);
+    }
+    this.entriesBySector.set(key.sectorId, entries);
+    return Promise.resolve();
+  }
+
+  invalidateSector(sectorId: string): Promise<void> {
+    this.epochBySector.set(sectorId, this.epochOf(sectorId) + 1);
+    if (this.entriesBySector.delete(sectorId)) {
+      this.logger.log(`Answer cache invalidated for sector ${sectorId}`);
+    }
+    return Promise.resolve();
+  }
+
+  private epochOf(sectorId: string): number {
+    return this.epochBySector.get(sectorId) ?? 0;
+  }
+
+  /**
+   * Returns the non-expired entries of a sector, pruning expired ones
+   */
+  private liveEntries(sectorId: string): CacheEntry[] {
+    const now = Date.now();
+    const entries = (this.entriesBySector.get(sectorId) ?? []).filter(
+      (entry) => entry.expiresAt > now,
+    );
+    this.entriesBySector.set(sectorId, entries);
+    return entries;
+  }
+}
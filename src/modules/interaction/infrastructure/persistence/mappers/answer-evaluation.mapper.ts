@@ -0,0 +1,102 @@
+import {
+  AnswerEvaluation,
+  EvaluationScoreProps,
+  EvaluationStatus,
+} from '@modules/interaction/domain/entities/answer-evaluation.entity';
+import { AnswerEvaluationModel } from '../models/answer-evaluation.model';
+
+const EVALUATION_STATUSES: ReadonlySet<string> = new Set<EvaluationStatus>([
+  'PASS',
+  'FAIL',
+  'UNKNOWN',
+]);
+
+function isEvaluationStatus(value: string): value is EvaluationStatus {
+  return EVALUATION_STATUSES.has(value);
+}
+
+/**
+ * Answer Evaluation Mapper
+ *
+ * Converts between domain AnswerEvaluation entities and TypeORM
+ * AnswerEvaluationModels (each metric flattened into score, status and
+ * reasoning columns).
+ */
+export class AnswerEvaluationMapper {
+  /**
+   * Converts TypeORM model to domain entity
+   * @param model - The TypeORM model
+   * @returns Domain entity
+   */
+  static toDomain(model: AnswerEvaluationModel): AnswerEvaluation {
+    return new AnswerEvaluation({
+      id: model.id,
+      messageId: model.messageId,
+      conversationId: model.conversationId,
+      sectorId: model.sectorId,
+      query: model.query,
+      model: model.model,
+      fragmentIds: model.fragmentIds ?? [],
+      faithfulness: AnswerEvaluationMapper.toScore(
+        model.faithfulnessScore,
+        model.faithfulnessStatus,
+        model.faithfulnessReasoning,
+      ),
+      relevancy: AnswerEvaluationMapper.toScore(
+        model.relevancyScore,
+        model.relevancyStatus,
+        model.relevancyReasoning,
+      ),
+      createdAt: model.createdAt,
+    });
+  }
+
+  /**
+   * Converts domain entity to TypeORM model
+   * @param entity - The domain entity
+   * @returns TypeORM model
+   */
+  static toModel(entity: AnswerEvaluation): AnswerEvaluationModel {
+    const model = new AnswerEvaluationModel();
+    const { faithfulness, relevancy } = entity;
+
+    model.id = entity.id;
+    model.messageId = entity.messageId;
+    model.conversationId = entity.conversationId;
+    model.sectorId = entity.sectorId;
+    model.query = entity.query;
+    model.model = entity.model;
+    model.fragmentIds = entity.fragmentIds;
+    model.faithfulnessScore = faithfulness.score;
+    model.faithfulnessStatus = faithfulness.status;
+    model.faithfulnessReasoning = faithfulness.reasoning;
+    model.relevancyScore = relevancy.score;
+    model.relevancyStatus = relevancy.status;
+    model.relevancyReasoning = relevancy.reasoning;
+    model.createdAt = entity.createdAt;
+
+    return model;
+  }
+
+  /**
+   * Converts array of models to array of domain entities
+   * @param models - Array of TypeORM models
+   * @returns Array of domain entities
+   */
+  static toDomainList(models: AnswerEvaluationModel[]): AnswerEvaluation[] {
+    return models.map((model) => AnswerEvaluationMapper.toDomain(model));
+  }
+
+  private static toScore(
+    score: number,
+    status: string,
+    reasoning: string,
+  ): EvaluationScoreProps {
+    if (!isEvaluationStatus(status)) {
+      throw new Error(
+        `Invalid evaluation status in database: "${status}". Expected: PASS, FAIL, or UNKNOWN`,
+      );
+    }
+    return { score, status, reasoning };
+  }
+}
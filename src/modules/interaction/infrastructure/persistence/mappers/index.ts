@@ -6,3 +6,4 @@
 
 export { ConversationMapper } from './conversation.mapper';
 export { MessageMapper } from './message.mapper';
+export { AnswerEvaluationMapper } from './answer-evaluation.mapper';
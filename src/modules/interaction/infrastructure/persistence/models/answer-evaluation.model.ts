@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * TypeORM Model for AnswerEvaluation
+ *
+ * Maps the domain AnswerEvaluation entity to database table.
+ * Uses snake_case for column names (PostgreSQL convention).
+ *
+ * Features:
+ * - One row per evaluated assistant message (unique message_id, deleted
+ *   with the message)
+ * - Scores flattened into columns so the dashboard aggregates them in SQL
+ * - (sector_id, created_at) index for per-sector, time-ranged queries
+ */
+@Entity('answer_evaluations')
+@Index(['messageId'], { unique: true })
+@Index(['sectorId', 'createdAt'])
+@Index(['createdAt'])
+export class AnswerEvaluationModel {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'message_id', type: 'uuid' })
+  messageId!: string;
+
+  @Column({ name: 'conversation_id', type: 'uuid' })
+  conversationId!: string;
+
+  @Column({ name: 'sector_id', type: 'uuid' })
+  sectorId!: string;
+
+  @Column({ type: 'text' })
+  query!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  model!: string;
+
+  @Column({
+    name: 'fragment_ids',
+    type: 'text',
+    array: true,
+    default: () => "'{}'",
+  })
+  fragmentIds: string[] = [];
+
+  @Column({ name: 'faithfulness_score', type: 'double precision' })
+  faithfulnessScore!: number;
+
+  @Column({ name: 'faithfulness_status', type: 'varchar', length: 10 })
+  faithfulnessStatus!: string;
+
+  @Column({ name: 'faithfulness_reasoning', type: 'text' })
+  faithfulnessReasoning!: string;
+
+  @Column({ name: 'relevancy_score', type: 'double precision' })
+  relevancyScore!: number;
+
+  @Column({ name: 'relevancy_status', type: 'varchar', length: 10 })
+  relevancyStatus!: string;
+
+  @Column({ name: 'relevancy_reasoning', type: 'text' })
+  relevancyReasoning!: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date = new Date();
+}
@@ -6,3 +6,4 @@
 
 export { ConversationModel } from './conversation.model';
 export { MessageModel } from './message.model';
+export { AnswerEvaluationModel } from './answer-evaluation.model';
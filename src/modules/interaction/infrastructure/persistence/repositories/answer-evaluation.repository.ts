@@ -0,0 +1,254 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import type {
+  IAnswerEvaluationRepository,
+  EvaluationFilter,
+  EvaluationScoreDistribution,
+  FailRateInterval,
+  FailRatePoint,
+  MetricDistribution,
+  ScoreBucket,
+} from '../../../domain/repositories/answer-evaluation.repository.interface';
+import { AnswerEvaluation } from '../../../domain/entities/answer-evaluation.entity';
+import { AnswerEvaluationModel } from '../models/answer-evaluation.model';
+import { AnswerEvaluationMapper } from '../mappers/answer-evaluation.mapper';
+
+// Score distribution (OWASP: Magic Numbers)
+const SCORE_BUCKETS = 10;
+
+interface MetricColumns {
+  score: string;
+  status: string;
+}
+
+const FAITHFULNESS: MetricColumns = {
+  score: 'evaluation.faithfulness_score',
+  status: 'evaluation.faithfulness_status',
+};
+const RELEVANCY: MetricColumns = {
+  score: 'evaluation.relevancy_score',
+  status: 'evaluation.relevancy_status',
+};
+
+function failed(metric: MetricColumns): string {
+  return `${metric.status} = 'FAIL'`;
+}
+
+/** The judge could score the metric */
+function evaluated(metric: MetricColumns): string {
+  return `${metric.status} <> 'UNKNOWN'`;
+}
+
+/** Lowest score among the evaluated metrics (LEAST skips NULLs) */
+const LOWEST_SCORE = `LEAST(${[FAITHFULNESS, RELEVANCY]
+  .map((metric) => `CASE WHEN ${evaluated(metric)} THEN ${metric.score} END`)
+  .join(', ')})`;
+
+/** date_trunc units, never interpolated from user input */
+const INTERVAL_UNITS: ReadonlyMap<FailRateInterval, string> = new Map([
+  ['day', 'day'],
+  ['week', 'week'],
+]);
+
+type MetricCountsRow = Record<string, string | number | null>;
+
+/**
+ * TypeORM Answer Evaluation Repository Implementation
+ *
+ * Implements the IAnswerEvaluationRepository interface using TypeORM.
+ * Aggregations run in PostgreSQL (width_bucket, date_trunc, FILTER) so the
+ * dashboard never loads the evaluations themselves.
+ *
+ * Performance:
+ * - Indexed queries (sector_id + created_at, created_at)
+ */
+@Injectable()
+export class AnswerEvaluationRepository implements IAnswerEvaluationRepository {
+  constructor(
+    @InjectRepository(AnswerEvaluationModel)
+    private readonly repository: Repository<AnswerEvaluationModel>,
+  ) {}
+
+  async save(evaluation: AnswerEvaluation): Promise<AnswerEvaluation> {
+    const saved = await this.repository.save(
+      AnswerEvaluationMapper.toModel(evaluation),
+    );
+    return AnswerEvaluationMapper.toDomain(saved);
+  }
+
+  async getScoreDistribution(
+    filter: EvaluationFilter,
+  ): Promise<EvaluationScoreDistribution> {
+    const query = this.filtered(filter).select('COUNT(*)', 'evaluations');
+    this.selectMetricCounts(query, FAITHFULNESS, 'faithfulness');
+    this.selectMetricCounts(query, RELEVANCY, 'relevancy');
+    const counts: MetricCountsRow | undefined = await query.getRawOne();
+
+    const [faithfulnessBuckets, relevancyBuckets] = await Promise.all([
+      this.getScoreBuckets(filter, FAITHFULNESS),
+      this.getScoreBuckets(filter, RELEVANCY),
+    ]);
+
+    return {
+      evaluations: toCount(counts?.evaluations),
+      faithfulness: {
+        buckets: faithfulnessBuckets,
+        pass: toCount(counts?.faithfulness_pass),
+        fail: toCount(counts?.faithfulness_fail),
+        unknown: toCount(counts?.faithfulness_unknown),
+        average: toAverage(counts?.faithfulness_average),
+      },
+      relevancy: {
+        buckets: relevancyBuckets,
+        pass: toCount(counts?.relevancy_pass),
+        fail: toCount(counts?.relevancy_fail),
+        unknown: toCount(counts?.relevancy_unknown),
+        average: toAverage(counts?.relevancy_average),
+      },
+    };
+  }
+
+  async getFailRates(
+    filter: EvaluationFilter,
+    interval: FailRateInterval,
+  ): Promise<FailRatePoint[]> {
+    const unit = INTERVAL_UNITS.get(interval) ?? 'day';
+    const results: Array<{
+      period_start: Date;
+      evaluations: string;
+      failures: string;
+      faithfulness_failures: string;
+      relevancy_failures: string;
+    }> = await this.filtered(filter)
+      .select(`date_trunc('${unit}', evaluation.created_at)`, 'period_start')
+      .addSelect('COUNT(*)', 'evaluations')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${failed(FAITHFULNESS)} OR ${failed(RELEVANCY)})`,
+        'failures',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${failed(FAITHFULNESS)})`,
+        'faithfulness_failures',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${failed(RELEVANCY)})`,
+        'relevancy_failures',
+      )
+      .groupBy('period_start')
+      .orderBy('period_start', 'ASC')
+      .getRawMany();
+
+    return results.map((row) => {
+      const evaluations = toCount(row.evaluations);
+      const failures = toCount(row.failures);
+      return {
+        periodStart: new Date(row.period_start),
+        evaluations,
+        failures,
+        faithfulnessFailures: toCount(row.faithfulness_failures),
+        relevancyFailures: toCount(row.relevancy_failures),
+        failRate: evaluations > 0 ? failures / evaluations : 0,
+      };
+    });
+  }
+
+  async findWorstScoring(
+    filter: EvaluationFilter & { sectorId: string },
+    limit: number,
+  ): Promise<AnswerEvaluation[]> {
+    const models = await this.filtered(filter)
+      .andWhere(`(${evaluated(FAITHFULNESS)} OR ${evaluated(RELEVANCY)})`)
+      .orderBy(LOWEST_SCORE, 'ASC')
+      .addOrderBy('evaluation.created_at', 'DESC')
+      .limit(limit)
+      .getMany();
+
+    return AnswerEvaluationMapper.toDomainList(models);
+  }
+
+  /**
+   * Evaluations of the sector and date range of the filter
+   */
+  private filtered(
+    filter: EvaluationFilter,
+  ): SelectQueryBuilder<AnswerEvaluationModel> {
+    const query = this.repository.createQueryBuilder('evaluation');
+
+    if (filter.sectorId) {
+      query.andWhere('evaluation.sector_id = :sectorId', {
+        sectorId: filter.sectorId,
+      });
+    }
+    if (filter.from) {
+      query.andWhere('evaluation.created_at >= :from', { from: filter.from });
+    }
+    if (filter.to) {
+      query.andWhere('evaluation.created_at < :to', { to: filter.to });
+    }
+
+    return query;
+  }
+
+  /**
+   * Selects the status counts and average score of a metric, as
+   * <prefix>_pass, <prefix>_fail, <prefix>_unknown and <prefix>_average
+   */
+  private selectMetricCounts(
+    query: SelectQueryBuilder<AnswerEvaluationModel>,
+    metric: MetricColumns,
+    prefix: string,
+  ): void {
+    query
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${metric.status} = 'PASS')`,
+        `${prefix}_pass`,
+      )
+      .addSelect(`COUNT(*) FILTER (WHERE ${failed(metric)})`, `${prefix}_fail`)
+      .addSelect(
+        `COUNT(*) FILTER (WHERE NOT ${evaluated(metric)})`,
+        `${prefix}_unknown`,
+      )
+      .addSelect(
+        `AVG(${metric.score}) FILTER (WHERE ${evaluated(metric)})`,
+        `${prefix}_average`,
+      );
+  }
+
+  /**
+   * Evaluated scores of a metric per 0.1 bucket (score 1 falls in the last)
+   */
+  private async getScoreBuckets(
+    filter: EvaluationFilter,
+    metric: MetricColumns,
+  ): Promise<ScoreBucket[]> {
+    const bucket = `LEAST(width_bucket(${metric.score}, 0, 1, ${SCORE_BUCKETS}), ${SCORE_BUCKETS})`;
+    const results: Array<{ bucket: number; count: string }> =
+      await this.filtered(filter)
+        .select(bucket, 'bucket')
+        .addSelect('COUNT(*)', 'count')
+        .andWhere(evaluated(metric))
+        .groupBy('bucket')
+        .getRawMany();
+
+    const counts = new Map(
+      results.map((row) => [Number(row.bucket), toCount(row.count)]),
+    );
+    return Array.from({ length: SCORE_BUCKETS }, (_, index) => ({
+      min: index / SCORE_BUCKETS,
+      max: (index + 1) / SCORE_BUCKETS,
+      count: counts.get(index + 1) ?? 0,
+    }));
+  }
+}
+
+// COUNT comes back as a string (bigint), AVG as NULL without rows
+function toCount(value: string | number | null | undefined): number {
+  return value == null ? 0 : parseInt(String(value), 10);
+}
+
+function toAverage(
+  value: string | number | null | undefined,
+): MetricDistribution['average'] {
+  return value == null ? null : parseFloat(String(value));
+}
@@ -198,6 +198,7 @@ export class ConversationRepository implements IConversationRepository {
     options?: {
       limit?: number;
       offset?: number;
+      order?: 'ASC' | 'DESC';
     },
   ): Promise<Message[]> {
     const models = await this.messageRepository.find({
@@ -205,7 +206,7 @@ export class ConversationRepository implements IConversationRepository {
         conversationId,
       },
       order: {
-        createdAt: 'ASC',
+        createdAt: options?.order ?? 'ASC',
       },
       take: options?.limit,
       skip: options?.offset ?? 0,
@@ -5,3 +5,4 @@
  */
 
 export { ConversationRepository } from './conversation.repository';
+export { AnswerEvaluationRepository } from './answer-evaluation.repository';
@@ -3,13 +3,74 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { InteractionController } from './presentation/interaction.controller';
 import { QueryAssistantUseCase } from './application/use-cases/query-assistant.use-case';
 import { ConversationRepository } from './infrastructure/persistence/repositories/conversation.repository';
+import { AnswerEvaluationRepository } from './infrastructure/persistence/repositories/answer-evaluation.repository';
+import { InMemoryAnswerCache } from './infrastructure/cache/in-memory-answer-cache';
+import { AnswerCacheInvalidationListener } from './application/listeners/answer-cache-invalidation.listener';
 import { ConversationModel } from './infrastructure/persistence/models/conversation.model';
 import { MessageModel } from './infrastructure/persistence/models/message.model';
-import { createRagQueryService } from '@shared/genkit/flows/rag-query.flow';
+import { AnswerEvaluationModel } from './infrastructure/persistence/models/answer-evaluation.model';
+import {
+  createRagQueryService,
+  type RetrievalFilter,
+} from '@shared/genkit/flows/rag-query.flow';
+import { getGenkitInstance } from '@shared/genkit/genkit.config';
+import {
+  createLexicalOverlapReranker,
+  createLlmQueryRewriter,
+  createLlmQueryTranslator,
+  createLlmReranker,
+  type IQueryRewriter,
+  type IQueryTranslator,
+  type IReranker,
+} from '@shared/genkit/retrieval';
 import { KnowledgeModule } from '@modules/knowledge/knowledge.module';
 import { SectorsModule } from '@modules/sectors/sectors.module';
 import { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { CorpusLanguageService } from '@modules/knowledge/application/services/corpus-language.service';
+import { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
 import { IConversationRepository } from './domain/repositories/conversation.repository.interface';
+import { IAnswerEvaluationRepository } from './domain/repositories/answer-evaluation.repository.interface';
+import { IAnswerCache } from './domain/services/answer-cache.interface';
+import { IGlossaryProvider } from '@modules/sectors/domain/services/glossary-provider.interface';
+
+/**
+ * Selects the RAG reranking stage from RAG_RERANKER.
+ * - 'llm':     Gemini scores every candidate (one extra LLM call per query)
+ * - 'lexical': deterministic query-term overlap (no network calls)
+ * - 'none' / unset: keep the retrieval order
+ */
+function createConfiguredReranker(): IReranker | undefined {
+  switch (process.env.RAG_RERANKER?.toLowerCase()) {
+    case 'llm':
+      return createLlmReranker(getGenkitInstance());
+    case 'lexical':
+      return createLexicalOverlapReranker();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Enables follow-up rewriting when RAG_QUERY_REWRITE_ENABLED=true.
+ * Costs one extra LLM call per follow-up question (messages with history).
+ */
+function createConfiguredQueryRewriter(): IQueryRewriter | undefined {
+  return process.env.RAG_QUERY_REWRITE_ENABLED?.toLowerCase() === 'true'
+    ? createLlmQueryRewriter(getGenkitInstance())
+    : undefined;
+}
+
+/**
+ * Enables multilingual retrieval when RAG_QUERY_TRANSLATION_ENABLED=true:
+ * questions are also searched in the other dominant languages of the
+ * sector's corpus. Costs one extra LLM call and embed per language.
+ */
+function createConfiguredQueryTranslator(): IQueryTranslator | undefined {
+  return process.env.RAG_QUERY_TRANSLATION_ENABLED?.toLowerCase() === 'true'
+    ? createLlmQueryTranslator(getGenkitInstance())
+    : undefined;
+}
 
 /**
  * Interaction Module
@@ -21,6 +82,15 @@ import { IConversationRepository } from './domain/repositories/conversation.repo
  * - Conversation management
  * - Integration with RAG flow
  * - Integration with knowledge base via Pinecone vector search
+ * - Optional hybrid retrieval (Postgres full-text search, per-sector toggle)
+ * - Optional reranking of retrieved fragments (RAG_RERANKER)
+ * - Optional follow-up query rewriting (RAG_QUERY_REWRITE_ENABLED)
+ * - Optional multilingual retrieval (RAG_QUERY_TRANSLATION_ENABLED)
+ * - Optional semantic answer cache (RAG_ANSWER_CACHE_ENABLED), invalidated
+ *   on knowledge.source.ingested / knowledge.source.deleted events
+ * - Per-sector glossary (synonyms, conversational phrases) from SectorsModule
+ * - Answer evaluations (RAG_EVALUATION_ENABLED) persisted per assistant
+ *   message for the admin quality dashboard (StatsModule)
  *
  * Architecture:
  * - Presentation: Controller, DTOs
@@ -29,43 +99,72 @@ import { IConversationRepository } from './domain/repositories/conversation.repo
  * - Infrastructure: TypeORM models, repositories (implementations)
  *
  * Dependencies:
- * - KnowledgeModule: For IVectorStore (Pinecone vector search)
+ * - KnowledgeModule: For IVectorStore (Pinecone vector search),
+ *   IKnowledgeRepository (full-text fragment search) and
+ *   EmbeddingIndexService (namespace and query embedding profile per sector)
+ *   and CorpusLanguageService (languages to translate queries into)
  * - TypeORM: For persistence
  * - Genkit: For RAG flow
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ConversationModel, MessageModel]),
+    TypeOrmModule.forFeature([
+      ConversationModel,
+      MessageModel,
+      AnswerEvaluationModel,
+    ]),
     KnowledgeModule, // Import to access IVectorStore
-    SectorsModule, // Import to access ISectorRepository (sector contact info)
+    SectorsModule, // Import to access ISectorRepository (sector contact info) and IGlossaryProvider
   ],
   controllers: [InteractionController],
   providers: [
-    // Repository implementation
+    // Repository implementations
     {
       provide: 'IConversationRepository',
       useClass: ConversationRepository,
     },
+    {
+      provide: 'IAnswerEvaluationRepository',
+      useClass: AnswerEvaluationRepository,
+    },
+    // Semantic answer cache and its invalidation on knowledge changes
+    {
+      provide: 'IAnswerCache',
+      useClass: InMemoryAnswerCache,
+    },
+    AnswerCacheInvalidationListener,
     // Use case
     {
       provide: QueryAssistantUseCase,
       useFactory: (
         conversationRepository: IConversationRepository,
         vectorStore: IVectorStore,
+        knowledgeRepository: IKnowledgeRepository,
+        answerCache: IAnswerCache,
+        glossaryProvider: IGlossaryProvider,
+        embeddingIndexService: EmbeddingIndexService,
+        corpusLanguageService: CorpusLanguageService,
+        evaluationRepository: IAnswerEvaluationRepository,
       ) => {
         // Create type-safe wrapper for vectorSearch using IVectorStore (Pinecone)
-        // Passes minScore through so the RAG flow's minSimilarity reaches Pinecone
+        // Passes minScore through so the RAG flow's minSimilarity reaches Pinecone,
+        // and the retrieval filter so source/tag scoping happens in the store.
+        // Searches the namespace of the sector's active embedding index.
         const vectorSearchFn = async (
           embedding: number[],
           sectorId: string,
           limit: number,
           minScore?: number,
+          filter?: RetrievalFilter,
         ) => {
+          const { namespace } =
+            await embeddingIndexService.getActiveIndex(sectorId);
           const results = await vectorStore.vectorSearch(
             embedding,
-            sectorId,
+            namespace,
             limit,
             minScore,
+            filter,
           );
 
           // Map VectorSearchResult to the format expected by the RAG flow
@@ -78,17 +177,73 @@ import { IConversationRepository } from './domain/repositories/conversation.repo
           }));
         };
 
+        // Full-text search over fragments — only used when the sector enables hybrid search
+        const lexicalSearchFn = async (
+          query: string,
+          sectorId: string,
+          limit: number,
+          filter?: RetrievalFilter,
+        ) => {
+          const results = await knowledgeRepository.searchFragmentsByText(
+            query,
+            sectorId,
+            limit,
+            filter,
+          );
+
+          return results.map(({ fragment, score }) => ({
+            id: fragment.id ?? '',
+            content: fragment.content,
+            similarity: score,
+            sourceId: fragment.sourceId,
+            metadata: fragment.metadata,
+          }));
+        };
+
         // Create RAG query flow service with dependency injection
-        const ragQueryService = createRagQueryService(vectorSearchFn);
+        const ragQueryService = createRagQueryService(vectorSearchFn, {
+          lexicalSearch: lexicalSearchFn,
+          reranker: createConfiguredReranker(),
+          queryRewriter: createConfiguredQueryRewriter(),
+          ...(process.env.RAG_ANSWER_CACHE_ENABLED?.toLowerCase() ===
+            'true' && { answerCache }),
+          glossaryProvider,
+          embeddingProfileResolver: embeddingIndexService,
+          queryTranslator: createConfiguredQueryTranslator(),
+          corpusLanguageResolver: corpusLanguageService,
+        });
+
+        // Source titles for citations, resolved in one batch query per answer
+        const resolveSourceTitles = async (sourceIds: string[]) => {
+          const sources = await knowledgeRepository.findSourcesByIds(sourceIds);
+          const titles = new Map<string, string>();
+          for (const source of sources) {
+            if (source.id) {
+              titles.set(source.id, source.title);
+            }
+          }
+          return titles;
+        };
 
         return new QueryAssistantUseCase(
           conversationRepository,
           ragQueryService.executeQuery,
+          resolveSourceTitles,
+          evaluationRepository,
         );
       },
-      inject: ['IConversationRepository', 'IVectorStore'],
+      inject: [
+        'IConversationRepository',
+        'IVectorStore',
+        'IKnowledgeRepository',
+        'IAnswerCache',
+        'IGlossaryProvider',
+        EmbeddingIndexService,
+        CorpusLanguageService,
+        'IAnswerEvaluationRepository',
+      ],
     },
   ],
-  exports: ['IConversationRepository'],
+  exports: ['IConversationRepository', 'IAnswerEvaluationRepository'],
 })
 export class InteractionModule {}
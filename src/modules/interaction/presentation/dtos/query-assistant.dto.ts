@@ -5,6 +5,8 @@ import {
   IsUUID,
   IsOptional,
   IsNumber,
+  IsArray,
+  ArrayMaxSize,
   Min,
   Max,
   MinLength,
@@ -25,6 +27,7 @@ const MIN_RESULTS = 1;
 const MAX_RESULTS = 20;
 const MIN_SIMILARITY = 0;
 const MAX_SIMILARITY = 1;
+const MAX_FILTER_VALUES = 50;
 
 // Example UUIDs for documentation
 const EXAMPLE_SECTOR_UUID = '660e8400-e29b-41d4-a716-446655440001';
@@ -46,6 +49,8 @@ const EXAMPLE_TIMESTAMP = '2024-01-15T10:30:00Z';
  * - conversationId: Optional UUID
  * - maxResults: Optional, 1-20
  * - minSimilarity: Optional, 0-1
+ * - sourceIds: Optional, up to 50 UUIDs
+ * - tags: Optional, up to 50 strings
  */
 export class QueryAssistantDto {
   // userId is extracted from the JWT session via @CurrentUser('userId')
@@ -108,6 +113,34 @@ export class QueryAssistantDto {
   @IsOptional()
   minSimilarity?: number;
 
+  @ApiProperty({
+    description:
+      'Only retrieve knowledge from these sources (sources of other sectors match nothing)',
+    type: [String],
+    example: ['550e8400-e29b-41d4-a716-446655440000'],
+    required: false,
+    maxItems: MAX_FILTER_VALUES,
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  sourceIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Only retrieve knowledge from sources with at least one of these tags',
+    type: [String],
+    example: ['onboarding', 'hr'],
+    required: false,
+    maxItems: MAX_FILTER_VALUES,
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
   @ApiProperty({
     description:
       'UI language (BCP-47 code) so the assistant replies in the correct language',
@@ -224,6 +257,48 @@ export enum RagResponseType {
   CONVERSATIONAL = 'conversational',
   /** Error during processing */
   ERROR = 'error',
+  /** Answer served from the semantic answer cache */
+  CACHED = 'cached',
+}
+
+/**
+ * DTO for a citation linking a section to a retrieved fragment
+ */
+export class CitationDto {
+  @ApiProperty({
+    description: 'Fragment number as referenced in the answer ([1]..[n])',
+    example: 1,
+  })
+  index!: number;
+
+  @ApiProperty({
+    description: 'Cited fragment ID (matches an entry in sources)',
+    example: '880e8400-e29b-41d4-a716-446655440003',
+  })
+  fragmentId!: string;
+
+  @ApiProperty({
+    description: 'Source document ID of the cited fragment',
+    example: '990e8400-e29b-41d4-a716-446655440004',
+  })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: 'Source document title (null if the source no longer exists)',
+    example: 'Employee Handbook',
+    nullable: true,
+    type: String,
+  })
+  title!: string | null;
+
+  @ApiProperty({
+    description:
+      'Headings of the cited section, from the top level down (documents chunked by structure)',
+    example: ['Leave Policy', 'Vacations'],
+    required: false,
+    type: [String],
+  })
+  headingPath?: string[];
 }
 
 /**
@@ -246,6 +321,13 @@ export class ResponseSectionDto {
     example: 'info',
   })
   type!: SectionType;
+
+  @ApiProperty({
+    description: 'Fragments that back the claims in this section',
+    type: [CitationDto],
+    isArray: true,
+  })
+  citations!: CitationDto[];
 }
 
 /**
@@ -300,7 +382,7 @@ export class QueryAssistantResponseDto {
 
   @ApiProperty({
     description:
-      'Type of response: "answer" (with context), "no_context" (no docs found), "error"',
+      'Type of response: "answer" (with context), "cached" (answer reused from a similar earlier question), "no_context" (no docs found), "error"',
     enum: RagResponseType,
     example: RagResponseType.ANSWER,
   })
@@ -308,7 +390,7 @@ export class QueryAssistantResponseDto {
 
   @ApiProperty({
     description:
-      'Structured response with sections, key points, and related topics. Present only when responseType is "answer" and structured output succeeded.',
+      'Structured response with sections, key points, and related topics. Present only when responseType is "answer" or "cached" and structured output succeeded.',
     type: StructuredResponseDto,
     required: false,
   })
@@ -340,4 +422,36 @@ export class QueryAssistantResponseDto {
     required: false,
   })
   evaluation?: EvaluationResultDto;
+
+  @ApiProperty({
+    description: 'ID of the persisted user message',
+    example: 'aa0e8400-e29b-41d4-a716-446655440005',
+    required: false,
+  })
+  userMessageId?: string;
+
+  @ApiProperty({
+    description: 'ID of the persisted assistant message',
+    example: 'bb0e8400-e29b-41d4-a716-446655440006',
+    required: false,
+  })
+  assistantMessageId?: string;
+}
+
+/**
+ * Server-Sent Event names emitted by POST /interaction/query/stream
+ *
+ * - retrieval: source fragments selected for the answer (before generation)
+ * - token: delta of answer text produced by the LLM
+ * - reset: discard the answer text received so far, it is streamed again
+ *   (a new retrieval event, if any, replaces the previous sources)
+ * - done: final QueryAssistantResponseDto (structured response, sources, message IDs)
+ * - error: terminal error; the stream is closed afterwards
+ */
+export enum QueryStreamEvent {
+  RETRIEVAL = 'retrieval',
+  TOKEN = 'token',
+  RESET = 'reset',
+  DONE = 'done',
+  ERROR = 'error',
 }
@@ -15,7 +15,9 @@ import {
   ParseIntPipe,
   DefaultValuePipe,
   ParseBoolPipe,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -29,9 +31,13 @@ import {
   ApiForbiddenResponse,
   ApiUnauthorizedResponse,
   ApiTooManyRequestsResponse,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
-import { QueryAssistantUseCase } from '../application/use-cases/query-assistant.use-case';
+import {
+  QueryAssistantUseCase,
+  type QueryAssistantInput,
+} from '../application/use-cases/query-assistant.use-case';
 import type { IConversationRepository } from '../domain/repositories/conversation.repository.interface';
 import type { ISectorRepository } from '../../sectors/domain/repositories/sector.repository.interface';
 import {
@@ -39,6 +45,7 @@ import {
   QueryAssistantResponseDto,
   ConversationsListDto,
   ConversationDetailDto,
+  QueryStreamEvent,
 } from './dtos/query-assistant.dto';
 import { InteractionDtoMapper } from './mappers/interaction-dto.mapper';
 import { RequirePermissions } from '../../auth/decorators/require-permissions.decorator';
@@ -51,6 +58,7 @@ import { CurrentUser } from '../../auth/decorators/current-user.decorator';
  *
  * Endpoints:
  * - POST /interaction/query: Query the assistant
+ * - POST /interaction/query/stream: Query the assistant (Server-Sent Events)
  * - GET /interaction/conversations: List conversations
  * - GET /interaction/conversations/:id: Get conversation details
  * - DELETE /interaction/conversations/:id: Delete conversation
@@ -79,6 +87,7 @@ import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 // Constants for error messages
 const ERROR_NOT_FOUND = 'Conversation not found';
 const ERROR_UNKNOWN = 'Unknown error';
+const ERROR_QUERY_FAILED = 'Query failed';
 
 // Constants for pagination defaults
 const DEFAULT_PAGE_LIMIT = 10;
@@ -131,6 +140,50 @@ export class InteractionController {
     throw error;
   }
 
+  /**
+   * Look up per-sector query settings: contact info for fallback messages and
+   * hybrid retrieval configuration.
+   * Non-blocking: returns an empty object if the sector is missing or the lookup fails.
+   */
+  private async findSectorSettings(
+    sectorId: string,
+  ): Promise<Pick<QueryAssistantInput, 'sectorContact' | 'hybridSearch'>> {
+    try {
+      const sector = await this.sectorRepository.findById(sectorId);
+      if (sector) {
+        const cName: string | null = sector.contactName ?? null;
+
+        const cPhone: string | null = sector.contactPhone ?? null;
+        return {
+          sectorContact: { name: cName, phone: cPhone },
+          hybridSearch: {
+            enabled: sector.hybridSearchEnabled,
+            vectorWeight: sector.hybridVectorWeight,
+            lexicalWeight: sector.hybridLexicalWeight,
+          },
+        };
+      }
+    } catch {
+      // Sector settings are optional — silently skip if lookup fails
+    }
+    return {};
+  }
+
+  /**
+   * Write a single Server-Sent Event frame.
+   * Frames written after the client disconnected are dropped.
+   */
+  private writeSseEvent(
+    res: Response,
+    event: QueryStreamEvent,
+    data: unknown,
+  ): void {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
   /**
    * Query the assistant
    *
@@ -218,21 +271,7 @@ export class InteractionController {
     );
 
     try {
-      // Look up sector contact info for fallback messages (non-blocking: undefined if not found)
-      let sectorContact:
-        | { name: string | null; phone: string | null }
-        | undefined;
-      try {
-        const sector = await this.sectorRepository.findById(dto.sectorId);
-        if (sector) {
-          const cName: string | null = sector.contactName ?? null;
-
-          const cPhone: string | null = sector.contactPhone ?? null;
-          sectorContact = { name: cName, phone: cPhone };
-        }
-      } catch {
-        // Contact info is optional — silently skip if lookup fails
-      }
+      const sectorSettings = await this.findSectorSettings(dto.sectorId);
 
       const result = await this.queryAssistantUseCase.execute({
         userContext: { userId, sectorId: dto.sectorId },
@@ -241,8 +280,10 @@ export class InteractionController {
         searchOptions: {
           maxResults: dto.maxResults,
           minSimilarity: dto.minSimilarity,
+          sourceIds: dto.sourceIds,
+          tags: dto.tags,
         },
-        sectorContact,
+        ...sectorSettings,
         language: dto.language,
       });
 
@@ -254,7 +295,133 @@ export class InteractionController {
 
       return response;
     } catch (err: unknown) {
-      this.handleControllerError(err, 'Query failed');
+      this.handleControllerError(err, ERROR_QUERY_FAILED);
+    }
+  }
+
+  /**
+   * Query the assistant (streaming)
+   *
+   * POST /interaction/query/stream
+   *
+   * Same semantics as POST /interaction/query, but the response is delivered
+   * as Server-Sent Events so the UI can render progressively:
+   * 1. `retrieval` — source fragments selected for the answer
+   * 2. `token` — answer text deltas from the LLM (zero or more)
+   *    (`reset` — discard the text so far, the answer is streamed again)
+   * 3. `done` — final response (structured output, sources, persisted message IDs)
+   *
+   * On failure a single `error` event is sent and the stream is closed.
+   * The assistant message is persisted before `done` is emitted.
+   *
+   * **Rate Limit**: 30 queries per minute (shared budget with /query)
+   *
+   * @param dto - Query parameters
+   * @param userId - User ID (from JWT session)
+   * @param res - Express response used as the event stream
+   */
+  @Post('query/stream')
+  @RequirePermissions(['chat:read'])
+  @Throttle({ medium: { limit: RATE_LIMIT_QUERY, ttl: RATE_LIMIT_TTL_MS } })
+  @ApiOperation({
+    summary: 'Query the assistant (Server-Sent Events)',
+    description:
+      'Streaming variant of POST /interaction/query. Emits `retrieval`, `token` and `done` events ' +
+      '(or a terminal `error` event) using the text/event-stream format. ' +
+      'A `reset` event means the answer text received so far must be discarded: it is streamed again. ' +
+      'The `done` payload has the same shape as the non-streaming response, plus the persisted message IDs. ' +
+      '\n\n**Rate Limit**: 30 requests per minute' +
+      '\n\n' +
+      API_REQUIRED_PERMISSION_CHAT_READ,
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Event stream: retrieval → token* → done (or error), reset restarts the tokens',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input (validation failed)',
+  })
+  @ApiUnauthorizedResponse({
+    description: API_UNAUTHORIZED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_FORBIDDEN_DESC,
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many requests. Rate limit: 30 requests per minute',
+  })
+  async queryStream(
+    @Body() dto: QueryAssistantDto,
+    @CurrentUser('userId') userId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.logger.log(
+      `Streaming query from user ${userId} in sector ${dto.sectorId}: "${dto.query.substring(0, LOG_QUERY_MAX_LENGTH)}"`,
+    );
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx / Cloud Run front-ends) so events flush immediately
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    try {
+      const sectorSettings = await this.findSectorSettings(dto.sectorId);
+
+      const result = await this.queryAssistantUseCase.execute(
+        {
+          userContext: { userId, sectorId: dto.sectorId },
+          query: dto.query,
+          conversationId: dto.conversationId,
+          searchOptions: {
+            maxResults: dto.maxResults,
+            minSimilarity: dto.minSimilarity,
+            sourceIds: dto.sourceIds,
+            tags: dto.tags,
+          },
+          ...sectorSettings,
+          language: dto.language,
+        },
+        {
+          onRetrieval: (fragments) => {
+            this.writeSseEvent(res, QueryStreamEvent.RETRIEVAL, {
+              sources: fragments.map((fragment) =>
+                InteractionDtoMapper.toSourceFragment(fragment),
+              ),
+            });
+          },
+          onToken: (delta) => {
+            this.writeSseEvent(res, QueryStreamEvent.TOKEN, { delta });
+          },
+          onReset: () => {
+            this.writeSseEvent(res, QueryStreamEvent.RESET, {});
+          },
+        },
+      );
+
+      const response = InteractionDtoMapper.toQueryResponse(result);
+      this.writeSseEvent(res, QueryStreamEvent.DONE, response);
+
+      this.logger.log(
+        `Streaming query completed: conversation ${response.conversationId}, ${response.sources.length} sources`,
+      );
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(ERROR_UNKNOWN);
+      this.logger.error(
+        `Streaming query failed: ${error.message}`,
+        error.stack,
+      );
+      // Only HTTP exceptions carry client-safe messages; hide internals otherwise
+      this.writeSseEvent(res, QueryStreamEvent.ERROR, {
+        message:
+          err instanceof HttpException ? err.message : ERROR_QUERY_FAILED,
+      });
+    } finally {
+      res.end();
     }
   }
 
@@ -47,6 +47,13 @@ export class InteractionDtoMapper {
             title: s.title,
             content: s.content,
             type: s.type,
+            citations: (s.citations ?? []).map((c) => ({
+              index: c.index,
+              fragmentId: c.fragmentId,
+              sourceId: c.sourceId,
+              title: c.title,
+              ...(c.headingPath && { headingPath: c.headingPath }),
+            })),
           })),
           keyPoints: result.structured.keyPoints,
           relatedTopics: result.structured.relatedTopics,
@@ -58,6 +65,7 @@ export class InteractionDtoMapper {
       no_context: RagResponseType.NO_CONTEXT,
       conversational: RagResponseType.CONVERSATIONAL,
       error: RagResponseType.ERROR,
+      cached: RagResponseType.CACHED,
     };
     const responseType =
       responseTypeMap[result.responseType] ?? RagResponseType.ANSWER;
@@ -67,17 +75,26 @@ export class InteractionDtoMapper {
       responseType,
       structured: structuredDto,
       conversationId: result.conversationId,
-      sources: result.sources.map(
-        (source): SourceFragmentDto => ({
-          id: source.id,
-          content: source.content,
-          sourceId: source.sourceId,
-          similarity: source.similarity,
-          metadata: source.metadata,
-        }),
+      sources: result.sources.map((source) =>
+        InteractionDtoMapper.toSourceFragment(source),
       ),
       timestamp: result.timestamp,
       evaluation: evaluationDto,
+      userMessageId: result.userMessageId,
+      assistantMessageId: result.assistantMessageId,
+    };
+  }
+
+  /** Map a retrieved fragment → source DTO */
+  static toSourceFragment(
+    source: QueryAssistantOutput['sources'][number],
+  ): SourceFragmentDto {
+    return {
+      id: source.id,
+      content: source.content,
+      sourceId: source.sourceId,
+      similarity: source.similarity,
+      metadata: source.metadata,
     };
   }
 
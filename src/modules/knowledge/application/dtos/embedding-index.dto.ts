@@ -0,0 +1,48 @@
+import type { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+
+/**
+ * DTO for a sector re-index request
+ *
+ * Omitted profile fields default to the configured embedding profile.
+ */
+export interface StartEmbeddingReindexDto {
+  /**
+   * Sector to re-embed
+   * @example "660e8400-e29b-41d4-a716-446655440001"
+   */
+  sectorId: string;
+
+  /**
+   * Embedding model of the new index
+   * @example "vertexai/gemini-embedding-001"
+   */
+  model?: string;
+
+  /**
+   * Embedding dimension of the new index
+   * @example 1536
+   */
+  dimensions?: number;
+}
+
+/**
+ * Embedding indexes of a sector
+ */
+export interface SectorEmbeddingIndexes {
+  sectorId: string;
+
+  /**
+   * The index serving the sector's reads (stored or initial)
+   */
+  active: EmbeddingIndex;
+
+  /**
+   * The index being built by a re-index, if any
+   */
+  building?: EmbeddingIndex;
+
+  /**
+   * Every stored index of the sector, latest generation first
+   */
+  indexes: EmbeddingIndex[];
+}
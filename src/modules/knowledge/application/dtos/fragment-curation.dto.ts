@@ -0,0 +1,100 @@
+import type { Fragment } from '../../domain/entities/fragment.entity';
+
+/**
+ * DTO for listing the fragments of a knowledge source
+ */
+export interface ListFragmentsDto {
+  sourceId: string;
+
+  /**
+   * Maximum number of fragments (1-100, default: 20)
+   */
+  limit?: number;
+
+  /**
+   * Number of fragments to skip (default: 0)
+   */
+  offset?: number;
+}
+
+/**
+ * A page of the fragments served for a knowledge source
+ */
+export interface ListFragmentsResult {
+  sourceId: string;
+  /** Version the fragments were cut from (undefined if never indexed) */
+  indexedVersion?: number;
+  /** Fragments of the page, by position */
+  fragments: Fragment[];
+  /** Number of fragments of the version */
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * DTO for correcting a fragment or excluding it from retrieval
+ */
+export interface UpdateFragmentDto {
+  sourceId: string;
+  fragmentId: string;
+
+  /**
+   * Corrected content
+   */
+  content?: string;
+
+  /**
+   * true excludes the fragment from retrieval, false includes it again
+   */
+  excluded?: boolean;
+}
+
+/**
+ * DTO for cutting a fragment in two
+ */
+export interface SplitFragmentDto {
+  sourceId: string;
+  fragmentId: string;
+
+  /**
+   * Character offset of the cut within the fragment content
+   * @example 480
+   */
+  splitAt: number;
+}
+
+/**
+ * DTO for merging adjacent fragments
+ */
+export interface MergeFragmentsDto {
+  sourceId: string;
+
+  /**
+   * IDs of adjacent fragments (2-10), in any order. The first by position
+   * is kept with the merged content; the others are deleted.
+   */
+  fragmentIds: string[];
+}
+
+/**
+ * Result of a fragment edit, split or merge
+ */
+export interface FragmentCurationResult {
+  /**
+   * Fragments whose content or exclusion changed, by position
+   */
+  fragments: Fragment[];
+
+  /**
+   * IDs of the fragments deleted by a merge
+   */
+  deletedFragmentIds: string[];
+
+  /**
+   * Whether the vectors of the changed fragments were re-embedded or
+   * deleted. When false, retrieval uses the previous content until the
+   * change is submitted again.
+   */
+  vectorsUpdated: boolean;
+}
@@ -1,4 +1,4 @@
-import { SourceType, SourceStatus } from '@shared/types';
+import { SourceType, SourceStatus, ChunkingStrategy } from '@shared/types';
 
 /**
  * DTO for document ingestion request
@@ -29,6 +29,22 @@ export interface IngestDocumentDto {
    */
   buffer: Buffer;
 
+  /**
+   * URL sources: the address the page was fetched from (after redirects)
+   */
+  pageUrl?: string;
+
+  /**
+   * URL sources: minutes between scheduled re-crawls (omit to never re-crawl)
+   * @example 1440
+   */
+  refreshIntervalMinutes?: number;
+
+  /**
+   * How the content is split into fragments (default: FIXED_WINDOW)
+   */
+  chunkingStrategy?: ChunkingStrategy;
+
   /**
    * Optional metadata for the document
    */
@@ -36,10 +52,33 @@ export interface IngestDocumentDto {
 }
 
 /**
- * Result of document ingestion
+ * Line-level differences between an existing source and a new document
+ */
+export interface ContentDiffSummary {
+  /** Lines of the new document missing from the existing source */
+  addedLines: number;
+  /** Lines of the existing source missing from the new document */
+  removedLines: number;
+  /** Lines found in both */
+  unchangedLines: number;
+}
+
+/**
+ * An existing source of the sector whose content is close to the new document
+ */
+export interface NearDuplicateSource {
+  sourceId: string;
+  title: string;
+  /** Estimated share of content in common, from 0 to 1 */
+  similarity: number;
+  diff: ContentDiffSummary;
+}
+
+/**
+ * Result of accepting a document for ingestion
  *
- * Contains the created knowledge source ID and statistics
- * about the ingestion process.
+ * Contains the created knowledge source ID. Chunking, embedding and
+ * indexing continue in the background; the source status reports progress.
  */
 export interface IngestDocumentResult {
   /**
@@ -48,27 +87,33 @@ export interface IngestDocumentResult {
   sourceId: string;
 
   /**
-   * Title of the processed document
+   * Title of the accepted document
    */
   title: string;
 
   /**
-   * Number of fragments created
+   * Total size of parsed content in bytes
    */
-  fragmentCount: number;
+  contentSize: number;
 
   /**
-   * Total size of processed content in bytes
+   * Processing status (always PENDING when accepted)
    */
-  contentSize: number;
+  status: SourceStatus.PENDING;
+
+  /**
+   * Warning set when near duplicates were found, or scanned pages are left
+   * to OCR (the document is accepted)
+   */
+  warning?: string;
 
   /**
-   * Processing status
+   * Existing sources of the sector close to the document, most similar first
    */
-  status: SourceStatus.COMPLETED | SourceStatus.FAILED;
+  nearDuplicates?: NearDuplicateSource[];
 
   /**
-   * Optional error message if processing failed
+   * Scanned PDF pages recognized by the background ingestion job (1-based)
    */
-  errorMessage?: string;
+  scannedPages?: number[];
 }
@@ -0,0 +1,43 @@
+import type { ChunkingStrategy } from '@shared/types';
+
+/**
+ * DTO for registering a web page as a knowledge source
+ *
+ * The page is fetched, its main content extracted from the HTML and then
+ * ingested like an uploaded document.
+ */
+export interface IngestUrlDto {
+  /**
+   * Address of the web page (http or https)
+   * @example "https://example.com/handbook/vacations"
+   */
+  url: string;
+
+  /**
+   * Source title
+   * @example "Vacation Policy"
+   */
+  title: string;
+
+  /**
+   * Sector/context identifier this page belongs to
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  sectorId: string;
+
+  /**
+   * Minutes between scheduled re-crawls (omit to never re-crawl)
+   * @example 1440
+   */
+  refreshIntervalMinutes?: number;
+
+  /**
+   * How the content is split into fragments (default: FIXED_WINDOW)
+   */
+  chunkingStrategy?: ChunkingStrategy;
+
+  /**
+   * Optional metadata for the source
+   */
+  metadata?: Record<string, unknown>;
+}
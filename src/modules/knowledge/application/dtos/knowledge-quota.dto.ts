@@ -0,0 +1,51 @@
+import type { SourceType } from '@shared/types';
+
+/**
+ * Limits applied to one sector
+ */
+export interface SectorQuotaLimits {
+  /**
+   * Maximum active sources
+   */
+  maxSources: number;
+
+  /**
+   * Maximum fragments served to search
+   */
+  maxFragments: number;
+
+  /**
+   * Maximum tokens across the fragments served to search
+   */
+  maxTokens: number;
+}
+
+/**
+ * Consumption of one limit
+ */
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+/**
+ * Ingestion quota of a sector, as reported by GET /knowledge/quota
+ */
+export interface SectorKnowledgeQuota {
+  /**
+   * Sector ID
+   */
+  sectorId: string;
+
+  sources: QuotaUsage;
+
+  fragments: QuotaUsage;
+
+  tokens: QuotaUsage;
+
+  /**
+   * Maximum upload size in bytes, per source type
+   */
+  maxFileSizeBytes: Record<SourceType, number>;
+}
@@ -0,0 +1,56 @@
+import type { KnowledgeSource } from '../../domain/entities/knowledge-source.entity';
+
+/**
+ * DTO for a knowledge source listing
+ */
+export interface ListSourcesDto {
+  /**
+   * Only sources of this sector (default: all sectors)
+   */
+  sectorId?: string;
+
+  /**
+   * Only sources with at least one of these tags (normalized before matching)
+   */
+  tags?: string[];
+
+  /**
+   * Only sources of this category (case-insensitive)
+   */
+  category?: string;
+}
+
+/**
+ * Number of listed sources with a given tag or category
+ */
+export interface SourceFacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Faceted counts of a listing, most frequent first.
+ *
+ * Each facet ignores its own filter, so the counts show how many sources
+ * selecting another value would add: tag counts honour the category filter
+ * only, category counts the tag filter only.
+ */
+export interface SourceFacets {
+  tags: SourceFacetCount[];
+  categories: SourceFacetCount[];
+}
+
+/**
+ * Result of a knowledge source listing
+ */
+export interface ListSourcesResult {
+  /**
+   * Matching sources
+   */
+  sources: KnowledgeSource[];
+
+  /**
+   * Tag and category counts
+   */
+  facets: SourceFacets;
+}
@@ -0,0 +1,105 @@
+/**
+ * DTO for a vector store reconciliation run
+ */
+export interface ReconcileVectorStoreDto {
+  /**
+   * Only report the drift, without re-embedding or deleting anything
+   */
+  dryRun: boolean;
+
+  /**
+   * Sector to reconcile (default: every sector with sources or vectors)
+   * @example "660e8400-e29b-41d4-a716-446655440001"
+   */
+  sectorId?: string;
+}
+
+/**
+ * Drift found (and repaired, unless dry run) in one sector
+ */
+export interface SectorReconciliationReport {
+  /**
+   * Sector ID (Pinecone namespace)
+   */
+  sectorId: string;
+
+  /**
+   * Fragments of active sources in PostgreSQL
+   */
+  fragmentCount: number;
+
+  /**
+   * Vectors in the sector's namespace
+   */
+  vectorCount: number;
+
+  /**
+   * Served fragments without a vector
+   */
+  missingVectorCount: number;
+
+  /**
+   * Vectors without a fragment
+   */
+  orphanVectorCount: number;
+
+  /**
+   * First IDs of the fragments without a vector (capped)
+   */
+  missingVectorIds: string[];
+
+  /**
+   * First IDs of the vectors without a fragment (capped)
+   */
+  orphanVectorIds: string[];
+
+  /**
+   * Fragments re-embedded and upserted (0 on dry runs)
+   */
+  vectorsRestored: number;
+
+  /**
+   * Orphan vectors deleted (0 on dry runs)
+   */
+  vectorsDeleted: number;
+
+  /**
+   * Why the sector could not be reconciled, if it failed
+   */
+  error?: string;
+}
+
+/**
+ * Result of a vector store reconciliation run
+ */
+export interface VectorReconciliationReport {
+  /**
+   * Whether the run only reported the drift
+   */
+  dryRun: boolean;
+
+  /**
+   * When the run started
+   */
+  startedAt: Date;
+
+  /**
+   * When the run finished
+   */
+  completedAt: Date;
+
+  /**
+   * Served fragments without a vector, across all sectors
+   */
+  missingVectorCount: number;
+
+  /**
+   * Vectors without a fragment, across all sectors
+   */
+  orphanVectorCount: number;
+
+  /**
+   * Per-sector details
+   */
+  sectors: SectorReconciliationReport[];
+}
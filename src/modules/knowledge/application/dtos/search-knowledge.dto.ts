@@ -0,0 +1,45 @@
+import type { FragmentSearchHit } from '../../domain/repositories/knowledge.repository.interface';
+
+/**
+ * DTO for a full-text search over the knowledge base
+ */
+export interface SearchKnowledgeDto {
+  /**
+   * Search text: all terms must match; "quoted phrases" and -exclusions
+   * are supported
+   * @example "remote work allowance"
+   */
+  query: string;
+
+  /**
+   * Internal ID of the user searching (limits the sectors searched)
+   */
+  userId: string;
+
+  /**
+   * Only this sector (default: every sector the user can access)
+   */
+  sectorId?: string;
+
+  /**
+   * Maximum number of results (1-50, default: 20)
+   */
+  limit?: number;
+
+  /**
+   * Number of results to skip (default: 0)
+   */
+  offset?: number;
+}
+
+/**
+ * Result of a full-text search over the knowledge base
+ */
+export interface SearchKnowledgeResult {
+  query: string;
+  results: FragmentSearchHit[];
+  limit: number;
+  offset: number;
+  /** Whether more results follow this page */
+  hasMore: boolean;
+}
@@ -0,0 +1,80 @@
+import { SourceStatus } from '@shared/types';
+
+/**
+ * DTO for uploading a new version of a knowledge source
+ *
+ * The file is parsed with the source's type; title, sector and chunking
+ * strategy are kept.
+ */
+export interface IngestSourceVersionDto {
+  /**
+   * ID of the knowledge source to replace the content of
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  sourceId: string;
+
+  /**
+   * Raw document buffer (file contents)
+   */
+  buffer: Buffer;
+
+  /**
+   * Optional metadata merged into the source metadata
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * DTO for restoring a previous version of a knowledge source
+ */
+export interface RestoreSourceVersionDto {
+  /**
+   * ID of the knowledge source
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  sourceId: string;
+
+  /**
+   * Superseded version to restore
+   * @example 2
+   */
+  version: number;
+}
+
+/**
+ * Result of accepting a new version of a knowledge source
+ *
+ * The new version is indexed in the background; the previous version keeps
+ * being served until it completes.
+ */
+export interface SourceVersionResult {
+  /**
+   * ID of the knowledge source (unchanged)
+   */
+  sourceId: string;
+
+  /**
+   * Title of the knowledge source
+   */
+  title: string;
+
+  /**
+   * Number of the new version
+   */
+  version: number;
+
+  /**
+   * Total size of the new content in bytes
+   */
+  contentSize: number;
+
+  /**
+   * Processing status (always PENDING when accepted)
+   */
+  status: SourceStatus.PENDING;
+
+  /**
+   * Scanned PDF pages, recognized with OCR by the background ingestion job
+   */
+  scannedPages?: number[];
+}
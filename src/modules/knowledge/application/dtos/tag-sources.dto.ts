@@ -0,0 +1,62 @@
+/**
+ * DTO for a tagging request on one or more knowledge sources
+ *
+ * Changes are applied in order: `tags` replaces the tags, then `addTags`
+ * and `removeTags` are applied. Tags are normalized (trimmed, lowercased).
+ */
+export interface TagSourcesDto {
+  /**
+   * IDs of the knowledge sources to change (at most 100)
+   * @example ["550e8400-e29b-41d4-a716-446655440000"]
+   */
+  sourceIds: string[];
+
+  /**
+   * Replaces the tags of every source
+   */
+  tags?: string[];
+
+  /**
+   * Tags added to every source
+   * @example ["onboarding"]
+   */
+  addTags?: string[];
+
+  /**
+   * Tags removed from every source
+   */
+  removeTags?: string[];
+
+  /**
+   * Category set on every source: a name sets it, null clears it,
+   * undefined leaves it unchanged
+   * @example "Policies"
+   */
+  category?: string | null;
+}
+
+/**
+ * Tags and category of a source after a tagging request
+ */
+export interface SourceTagsResult {
+  sourceId: string;
+  tags: string[];
+  category: string | null;
+}
+
+/**
+ * Result of a tagging request
+ */
+export interface TagSourcesResult {
+  /**
+   * Tags and category of each requested source
+   */
+  sources: SourceTagsResult[];
+
+  /**
+   * Whether the new tags were written to the vectors of every retagged
+   * source. When false, scoped retrieval uses the previous tags for some
+   * sources until they are re-indexed.
+   */
+  vectorsUpdated: boolean;
+}
@@ -0,0 +1,76 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+
+// Dominant language selection (OWASP: Magic Numbers)
+const CORPUS_LANGUAGES_CACHE_TTL_MS = 300_000;
+/** Share of a sector's fragments a language needs to count as dominant */
+const MIN_LANGUAGE_SHARE = 0.1;
+/** Upper bound on dominant languages, each one costs a translation */
+const MAX_CORPUS_LANGUAGES = 3;
+
+interface CacheEntry {
+  languages: Promise<string[]>;
+  expiresAt: number;
+}
+
+/**
+ * Corpus Language Service
+ *
+ * Tells which languages the knowledge of a sector is written in, from the
+ * language detected on each fragment at ingestion. The RAG flow translates
+ * questions into these languages so they match fragments written in
+ * another language than the question.
+ *
+ * Dominant languages are those of at least 10% of the searchable
+ * fragments (at most 3, most fragments first). Results are cached per
+ * instance for 5 minutes: a newly ingested language is searched once the
+ * entry expires.
+ */
+@Injectable()
+export class CorpusLanguageService {
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+  ) {}
+
+  /**
+   * The dominant languages of a sector's corpus (cached)
+   *
+   * @param sectorId - The sector ID
+   * @returns ISO 639-1 codes, most fragments first (empty for a sector
+   *   without detected languages)
+   */
+  getCorpusLanguages(sectorId: string): Promise<string[]> {
+    const cached = this.cache.get(sectorId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.languages;
+    }
+
+    // Cache the pending load so concurrent queries share one DB round-trip
+    const languages = this.loadCorpusLanguages(sectorId);
+    const entry: CacheEntry = {
+      languages,
+      expiresAt: Date.now() + CORPUS_LANGUAGES_CACHE_TTL_MS,
+    };
+    this.cache.set(sectorId, entry);
+    languages.catch(() => {
+      // Failed loads are retried on the next query
+      if (this.cache.get(sectorId) === entry) {
+        this.cache.delete(sectorId);
+      }
+    });
+    return languages;
+  }
+
+  private async loadCorpusLanguages(sectorId: string): Promise<string[]> {
+    const counts = await this.repository.countFragmentsByLanguage(sectorId);
+    const total = counts.reduce((sum, count) => sum + count.fragments, 0);
+
+    return counts
+      .filter((count) => count.fragments / total >= MIN_LANGUAGE_SHARE)
+      .slice(0, MAX_CORPUS_LANGUAGES)
+      .map((count) => count.language);
+  }
+}
@@ -0,0 +1,175 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IEmbeddingIndexRepository } from '@modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import {
+  EmbeddingIndex,
+  type EmbeddingProfile,
+} from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingIndexSwitchedEvent } from '@modules/knowledge/domain/events/knowledge.events';
+import { EmbeddingService } from '@modules/knowledge/infrastructure/services/embedding.service';
+
+// How long the read path of a sector is cached (OWASP: Magic Numbers)
+const ACTIVE_INDEX_CACHE_TTL_MS = 30_000;
+
+interface CacheEntry {
+  index: Promise<EmbeddingIndex>;
+  expiresAt: number;
+}
+
+/**
+ * Embedding Index Service
+ *
+ * Tells where the vectors of a sector live and how they were embedded:
+ * - Reads (RAG retrieval, capsule scripts) use the ACTIVE index: its
+ *   namespace, and its profile to embed the query
+ * - Writes (ingestion, curation, reconciliation) go to the ACTIVE index and
+ *   to the index being built by a re-index, if any
+ * - Deletions and metadata updates also reach the latest RETIRED index, so
+ *   a rollback does not serve deleted content
+ *
+ * A sector never re-indexed has no stored index and reads from its
+ * initial index (the namespace named after the sector, configured profile).
+ *
+ * The read path is cached briefly per instance. Other instances may keep
+ * reading the previous index for up to 30 seconds after a switch, which
+ * stays valid: the retired index keeps its vectors.
+ */
+@Injectable()
+export class EmbeddingIndexService {
+  private readonly logger = new Logger(EmbeddingIndexService.name);
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(
+    @Inject('IEmbeddingIndexRepository')
+    private readonly indexRepository: IEmbeddingIndexRepository,
+    private readonly embeddingService: EmbeddingService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * The index serving the reads of a sector (cached)
+   *
+   * @param sectorId - The sector ID
+   * @returns The ACTIVE index, or the sector's initial index
+   */
+  getActiveIndex(sectorId: string): Promise<EmbeddingIndex> {
+    const cached = this.cache.get(sectorId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.index;
+    }
+
+    // Cache the pending load so concurrent queries share one DB round-trip
+    const index = this.loadActiveIndex(sectorId);
+    const entry: CacheEntry = {
+      index,
+      expiresAt: Date.now() + ACTIVE_INDEX_CACHE_TTL_MS,
+    };
+    this.cache.set(sectorId, entry);
+    index.catch(() => {
+      // Failed loads are retried on the next query
+      if (this.cache.get(sectorId) === entry) {
+        this.cache.delete(sectorId);
+      }
+    });
+    return index;
+  }
+
+  /**
+   * The profile queries of a sector must be embedded with
+   *
+   * @param sectorId - The sector ID
+   * @returns Model and dimension of the ACTIVE index
+   */
+  async getEmbeddingProfile(sectorId: string): Promise<EmbeddingProfile> {
+    return (await this.getActiveIndex(sectorId)).getProfile();
+  }
+
+  /**
+   * The indexes new vectors of a sector are written to (not cached, so a
+   * build starts receiving writes as soon as it is created)
+   *
+   * @param sectorId - The sector ID
+   * @returns The ACTIVE index first, then the index being built, if any
+   */
+  async getWriteIndexes(sectorId: string): Promise<EmbeddingIndex[]> {
+    const indexes = await this.indexRepository.findBySector(sectorId);
+    return [
+      this.activeOf(sectorId, indexes),
+      ...indexes.filter((index) => index.isBuilding()),
+    ];
+  }
+
+  /**
+   * The namespaces vector deletions and metadata updates of a sector
+   * apply to: the write indexes and the latest retired index
+   *
+   * @param sectorId - The sector ID
+   * @returns Namespaces, without duplicates
+   */
+  async getVectorNamespaces(sectorId: string): Promise<string[]> {
+    const indexes = await this.indexRepository.findBySector(sectorId);
+    const retired = EmbeddingIndex.lastRetired(indexes);
+    return [
+      ...new Set([
+        this.activeOf(sectorId, indexes).namespace,
+        ...indexes
+          .filter((index) => index.isBuilding())
+          .map((index) => index.namespace),
+        ...(retired ? [retired.namespace] : []),
+      ]),
+    ];
+  }
+
+  /**
+   * Switches the read path of a sector to another index, retiring the
+   * active one, and emits `knowledge.embedding_index.switched`
+   *
+   * @param next - A built or retired index of the sector
+   * @param current - The sector's active index (stored or initial)
+   * @returns The saved, now active, index
+   * @throws {Error} If the indexes cannot change status
+   */
+  async switchTo(
+    next: EmbeddingIndex,
+    current: EmbeddingIndex,
+  ): Promise<EmbeddingIndex> {
+    next.activate();
+    current.retire();
+    const activated = await this.indexRepository.switchActive(next, current);
+    this.cache.delete(activated.sectorId);
+
+    this.eventEmitter.emit(
+      'knowledge.embedding_index.switched',
+      new EmbeddingIndexSwitchedEvent(
+        activated.sectorId,
+        activated.id!,
+        activated.namespace,
+        activated.embeddingModel,
+        activated.embeddingDimensions,
+        new Date(),
+      ),
+    );
+    this.logger.log(
+      `Sector ${activated.sectorId} now reads from ${activated.namespace} ` +
+        `(${activated.embeddingModel}, ${activated.embeddingDimensions} dimensions)`,
+    );
+    return activated;
+  }
+
+  private async loadActiveIndex(sectorId: string): Promise<EmbeddingIndex> {
+    return (
+      (await this.indexRepository.findActiveBySector(sectorId)) ??
+      EmbeddingIndex.initial(sectorId, this.embeddingService.getProfile())
+    );
+  }
+
+  private activeOf(
+    sectorId: string,
+    indexes: EmbeddingIndex[],
+  ): EmbeddingIndex {
+    return (
+      indexes.find((index) => index.isActive()) ??
+      EmbeddingIndex.initial(sectorId, this.embeddingService.getProfile())
+    );
+  }
+}
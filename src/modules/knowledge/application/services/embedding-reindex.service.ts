@@ -0,0 +1,194 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IEmbeddingIndexRepository } from '@modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import type { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import type { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import type { KnowledgeSource } from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import type { Fragment } from '@modules/knowledge/domain/entities/fragment.entity';
+import { IngestionPipelineService } from '@modules/knowledge/application/services/ingestion-pipeline.service';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { extractErrorMessage } from '@shared/utils';
+
+// Sources embedded per batch, to keep each background task short (OWASP: Magic Numbers)
+const SOURCES_PER_BATCH = 20;
+
+/**
+ * Embedding Reindex Service
+ *
+ * Builds an embedding index in the background, one batch of sources per
+ * task, while the sector keeps reading from its active index:
+ * 1. Counts the fragments to embed (first batch only)
+ * 2. Embeds the served fragments of the next sources, after the cursor,
+ *    into the namespace of the index, recording progress after each source
+ * 3. Once every source is embedded, catches up with the changes made during
+ *    the build (missing vectors, deleted fragments) and switches the
+ *    sector's reads to the new index
+ *
+ * New ingestions already write to the index being built
+ * (see EmbeddingIndexService), so the catch-up stays small.
+ * A failed batch marks the build as FAILED and clears its namespace; the
+ * active index is left untouched.
+ */
+@Injectable()
+export class EmbeddingReindexService {
+  private readonly logger = new Logger(EmbeddingReindexService.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IEmbeddingIndexRepository')
+    private readonly indexRepository: IEmbeddingIndexRepository,
+    @Inject('IVectorStore')
+    private readonly vectorStore: IVectorStore,
+    private readonly ingestionPipeline: IngestionPipelineService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+  ) {}
+
+  /**
+   * Runs the next batch of an index build
+   *
+   * @param indexId - The index being built
+   * @returns Whether batches remain to be run
+   */
+  async runBatch(indexId: string): Promise<boolean> {
+    const index = await this.indexRepository.findById(indexId);
+    if (!index?.isBuilding()) {
+      this.logger.warn(`Embedding index ${indexId} is not being built`);
+      return false;
+    }
+
+    try {
+      return await this.buildBatch(index);
+    } catch (error: unknown) {
+      await this.fail(indexId, extractErrorMessage(error));
+      return false;
+    }
+  }
+
+  /**
+   * Brings the vectors of an index in line with the sector's fragments:
+   * embeds missing fragments and deletes vectors of deleted fragments
+   *
+   * @param index - The index to sync
+   * @param changedSince - Also re-embeds fragments changed after this date
+   *   (while the index was not written to)
+   */
+  async syncIndex(index: EmbeddingIndex, changedSince?: Date): Promise<void> {
+    const vectorIds = await this.vectorStore.listVectorIds(index.namespace);
+    const entries = await this.repository.findFragmentIndexEntries(
+      index.sectorId,
+    );
+
+    const storedVectorIds = new Set(vectorIds);
+    const fragmentIds = new Set(entries.map((entry) => entry.id));
+    const stale = entries.filter(
+      (entry) =>
+        entry.indexed &&
+        (!storedVectorIds.has(entry.id) ||
+          (changedSince !== undefined && entry.updatedAt > changedSince)),
+    );
+    const staleIds = new Set(stale.map((entry) => entry.id));
+
+    const sources = await this.repository.findSourcesByIds([
+      ...new Set(stale.map((entry) => entry.sourceId)),
+    ]);
+    for (const source of sources) {
+      const fragments = (await this.findServedFragments(source)).filter(
+        (fragment) => staleIds.has(fragment.id!),
+      );
+      await this.ingestionPipeline.indexFragments(source, fragments, [index]);
+    }
+
+    await this.vectorStore.deleteByIds(
+      vectorIds.filter((id) => !fragmentIds.has(id)),
+      index.namespace,
+    );
+  }
+
+  /**
+   * Deletes the vectors of an index that is no longer read from or built.
+   * Best effort: a failure is logged, and leaves unused vectors behind.
+   *
+   * @param index - A failed or cancelled index
+   */
+  async clearIndex(index: EmbeddingIndex): Promise<void> {
+    try {
+      const vectorIds = await this.vectorStore.listVectorIds(index.namespace);
+      await this.vectorStore.deleteByIds(vectorIds, index.namespace);
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to clear ${index.namespace}: ${extractErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private async buildBatch(index: EmbeddingIndex): Promise<boolean> {
+    if (index.totalFragments === undefined) {
+      const entries = await this.repository.findFragmentIndexEntries(
+        index.sectorId,
+      );
+      index.startBuild(entries.filter((entry) => entry.indexed).length);
+      await this.indexRepository.save(index);
+    }
+
+    const sources = await this.repository.findIndexedSourcePage(
+      index.sectorId,
+      index.cursor,
+      SOURCES_PER_BATCH,
+    );
+    for (const source of sources) {
+      if (!(await this.isStillBuilding(index))) {
+        this.logger.log(`Build of ${index.namespace} stopped`);
+        return false;
+      }
+      const fragments = await this.findServedFragments(source);
+      await this.ingestionPipeline.indexFragments(source, fragments, [index]);
+      index.recordProgress(source.id!, fragments.length);
+      await this.indexRepository.save(index);
+    }
+
+    if (sources.length === SOURCES_PER_BATCH) {
+      return true;
+    }
+
+    await this.syncIndex(index);
+    const [active] = await this.embeddingIndexService.getWriteIndexes(
+      index.sectorId,
+    );
+    await this.embeddingIndexService.switchTo(index, active);
+    return false;
+  }
+
+  /**
+   * Fragments of the indexed version of a source, minus excluded ones
+   */
+  private async findServedFragments(
+    source: KnowledgeSource,
+  ): Promise<Fragment[]> {
+    const fragments = await this.repository.findFragmentsBySource(source.id!);
+    return fragments.filter(
+      (fragment) =>
+        fragment.sourceVersion === source.indexedVersion && !fragment.excluded,
+    );
+  }
+
+  /**
+   * Whether the build was not rolled back since the batch started
+   */
+  private async isStillBuilding(index: EmbeddingIndex): Promise<boolean> {
+    const current = await this.indexRepository.findById(index.id!);
+    return current?.isBuilding() ?? false;
+  }
+
+  private async fail(indexId: string, message: string): Promise<void> {
+    // Reloaded: the failed step may have left the entity half-updated
+    const index = await this.indexRepository.findById(indexId);
+    if (!index?.isBuilding()) {
+      return;
+    }
+    this.logger.error(`Build of ${index.namespace} failed: ${message}`);
+    index.markAsFailed(message);
+    await this.indexRepository.save(index);
+    await this.clearIndex(index);
+  }
+}
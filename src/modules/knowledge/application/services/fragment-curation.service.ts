@@ -0,0 +1,171 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import type { KnowledgeSource } from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import type { Fragment } from '@modules/knowledge/domain/entities/fragment.entity';
+import type { FragmentCurationResult } from '@modules/knowledge/application/dtos/fragment-curation.dto';
+import { IngestionPipelineService } from '@modules/knowledge/application/services/ingestion-pipeline.service';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { KnowledgeFragmentsCuratedEvent } from '@modules/knowledge/domain/events/knowledge.events';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * A completed source with the fragments served for it, by position
+ */
+export interface ServedFragments {
+  source: KnowledgeSource;
+  fragments: Fragment[];
+}
+
+/**
+ * Changes made by a curator to the served fragments of a source
+ */
+export interface FragmentChanges {
+  /** Fragments whose content or exclusion changed (re-embedded) */
+  edited: Fragment[];
+  /** Fragments that only moved to another position (not re-embedded) */
+  moved?: Fragment[];
+  /** Fragments to delete, with their vectors */
+  deletedIds?: string[];
+}
+
+/**
+ * Fragment Curation Service
+ *
+ * Shared by the fragment edit, split and merge use cases:
+ * - Loads the fragments served for a source, refusing sources that are
+ *   being (re-)indexed, whose fragments are about to be replaced
+ * - Saves the changes in one transaction, then re-embeds the edited
+ *   fragments and deletes the vectors of deleted and excluded ones
+ * - Emits `knowledge.fragments.curated` once the changes are saved, so
+ *   answers cached from the previous fragments are dropped
+ *
+ * Only the vectors of the changed fragments are touched. Moved fragments
+ * keep their vectors, with the previous position in the vector metadata.
+ * The vector update is best-effort: the fragments are saved either way, and
+ * resubmitting the change repairs the vectors.
+ */
+@Injectable()
+export class FragmentCurationService {
+  private readonly logger = new Logger(FragmentCurationService.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IVectorStore')
+    private readonly vectorStore: IVectorStore,
+    private readonly ingestionPipeline: IngestionPipelineService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Loads a source and the fragments served for it
+   *
+   * @param sourceId - The source ID
+   * @returns The source and its served fragments, by position
+   * @throws {Error} If the source is not found or is not indexed
+   */
+  async loadServedFragments(sourceId: string): Promise<ServedFragments> {
+    const source = await this.repository.findSourceById(sourceId);
+    if (!source || source.isDeleted()) {
+      throw new Error(`Knowledge source not found: ${sourceId}`);
+    }
+    if (!source.isCompleted() || source.indexedVersion === undefined) {
+      throw new Error(
+        `Fragments can only be edited once the source is indexed (status: ${source.status})`,
+      );
+    }
+
+    const fragments = (
+      await this.repository.findFragmentsBySource(sourceId)
+    ).filter((fragment) => fragment.sourceVersion === source.indexedVersion);
+    return { source, fragments };
+  }
+
+  /**
+   * Finds fragments among the served ones
+   *
+   * @param served - The served fragments of the source
+   * @param fragmentIds - IDs of the fragments to find
+   * @returns The fragments, by position
+   * @throws {Error} If a fragment is not served for the source
+   */
+  findFragments(served: ServedFragments, fragmentIds: string[]): Fragment[] {
+    const ids = new Set(fragmentIds);
+    const found = served.fragments.filter((fragment) => ids.has(fragment.id!));
+    if (found.length < ids.size) {
+      const foundIds = new Set(found.map((fragment) => fragment.id));
+      throw new Error(
+        `Fragment not found: ${[...ids].filter((id) => !foundIds.has(id)).join(', ')}`,
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Saves the changes and updates the vectors of the affected fragments
+   *
+   * @param source - The source the fragments belong to
+   * @param changes - Edited, moved and deleted fragments
+   * @returns The saved edited fragments and whether the vectors were updated
+   */
+  async applyChanges(
+    source: KnowledgeSource,
+    changes: FragmentChanges,
+  ): Promise<FragmentCurationResult> {
+    const deletedIds = changes.deletedIds ?? [];
+    const saved = await this.repository.updateFragments(
+      [...changes.edited, ...(changes.moved ?? [])],
+      deletedIds,
+    );
+    const edited = saved.slice(0, changes.edited.length);
+
+    let vectorsUpdated = true;
+    try {
+      const removedIds = [
+        ...deletedIds,
+        ...edited
+          .filter((fragment) => fragment.excluded)
+          .map((fragment) => fragment.id!),
+      ];
+      const namespaces = await this.embeddingIndexService.getVectorNamespaces(
+        source.sectorId,
+      );
+      for (const namespace of namespaces) {
+        await this.vectorStore.deleteByIds(removedIds, namespace);
+      }
+      await this.ingestionPipeline.indexFragments(
+        source,
+        edited.filter((fragment) => !fragment.excluded),
+      );
+    } catch (error: unknown) {
+      vectorsUpdated = false;
+      this.logger.warn(
+        `Failed to update vectors of edited fragments for source ${source.id}: ${extractErrorMessage(error)}`,
+      );
+    }
+
+    this.eventEmitter.emit(
+      'knowledge.fragments.curated',
+      new KnowledgeFragmentsCuratedEvent(
+        source.id!,
+        source.sectorId,
+        edited.length,
+        deletedIds.length,
+        new Date(),
+      ),
+    );
+
+    this.logger.log(
+      `Curated source ${source.id}: ${edited.length} fragments edited, ${deletedIds.length} deleted`,
+    );
+
+    return {
+      fragments: [...edited].sort((a, b) => a.position - b.position),
+      deletedFragmentIds: deletedIds,
+      vectorsUpdated,
+    };
+  }
+}
@@ -0,0 +1,476 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type {
+  IVectorStore,
+  VectorUpsertInput,
+} from '@modules/knowledge/domain/services/vector-store.interface';
+import { DocumentParserService } from '@modules/knowledge/infrastructure/services/document-parser.service';
+import {
+  ChunkingService,
+  withHeadingPath,
+  type TextChunk,
+} from '@modules/knowledge/infrastructure/services/chunking.service';
+import { EmbeddingService } from '@modules/knowledge/infrastructure/services/embedding.service';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import type { KnowledgeSource } from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '@modules/knowledge/domain/entities/fragment.entity';
+import type { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { KnowledgeSourceIngestedEvent } from '@modules/knowledge/domain/events/knowledge.events';
+import { ChunkingStrategy } from '@shared/types';
+import {
+  extractErrorMessage,
+  minHashSignature,
+  sha256Hex,
+} from '@shared/utils';
+
+/**
+ * Progress percentage reported when each step starts
+ */
+const PROGRESS = {
+  RECOGNIZING: 0,
+  CHUNKING: 10,
+  EMBEDDING: 30,
+  STORING: 70,
+  INDEXING: 85,
+} as const;
+
+/**
+ * Parameter object for vector store upsert operation.
+ * Groups related parameters that always travel together.
+ */
+interface VectorIndexPayload {
+  fragments: Fragment[];
+  embeddings: number[][];
+  source: KnowledgeSource;
+  index: EmbeddingIndex;
+}
+
+/**
+ * Ingestion Pipeline Service
+ *
+ * Background half of document ingestion, dispatched by IngestDocumentUseCase
+ * once the source has been parsed and persisted as PENDING:
+ * 1. Marks the source as PROCESSING. A PDF uploaded with scanned pages
+ *    is parsed again with OCR: the recognized content replaces its text
+ *    layer, and the confidence of each page is stored in `metadata.ocr`.
+ *    A new version identical to the indexed one once recognized fails
+ * 2. Chunks the stored content into fragments, using the source's
+ *    chunking strategy
+ * 3. Generates embeddings for each fragment (structured chunks are embedded
+ *    with their heading path prepended), once per embedding index written
+ *    to: the sector's active index, and the index being built by a
+ *    re-index, if any
+ * 4. Persists fragments to PostgreSQL, tagged with the source version and
+ *    the embedding profile of the active index
+ * 5. Upserts embeddings to the namespace of each index
+ * 6. Swaps versions: deletes the vectors of the previously indexed version,
+ *    then marks the source as COMPLETED and deletes the old fragments in one
+ *    transaction, discards the uploaded PDF kept for OCR, and emits
+ *    `knowledge.source.ingested`
+ *
+ * When a new version of the content is indexed, the fragments of the
+ * previous version keep being served until step 6, so the source is never
+ * left without answers.
+ * Progress (step + percentage) is saved on the source after every step so
+ * clients can poll `GET /knowledge/documents/:sourceId/status`.
+ * Failures mark the source as FAILED instead of propagating, so a failed
+ * job is not retried indefinitely by the task queue.
+ */
+@Injectable()
+export class IngestionPipelineService {
+  private readonly logger = new Logger(IngestionPipelineService.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IVectorStore')
+    private readonly vectorStore: IVectorStore,
+    private readonly parserService: DocumentParserService,
+    private readonly chunkingService: ChunkingService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Runs the ingestion job for a persisted source
+   *
+   * @param sourceId - ID of the PENDING knowledge source
+   * @throws {Error} If the source does not exist
+   */
+  async processSource(sourceId: string): Promise<void> {
+    this.logger.log(`Starting ingestion pipeline for source ${sourceId}`);
+
+    const source = await this.repository.findSourceById(sourceId);
+    if (!source) {
+      throw new Error(`Knowledge source ${sourceId} not found`);
+    }
+
+    // Task queues deliver at least once — ignore redeliveries
+    if (source.isCompleted() || source.isDeleted()) {
+      this.logger.warn(
+        `Skipping ingestion for source ${sourceId} (status: ${source.status})`,
+      );
+      return;
+    }
+
+    try {
+      source.markAsProcessing();
+      const recognized = await this.recognizeScannedPages(source);
+      await this.updateProgress(source, PROGRESS.CHUNKING, 'CHUNKING');
+      const supersededIds = await this.removePartialResults(source);
+
+      const chunks = this.createChunks(source);
+      this.logger.debug(
+        `Created ${chunks.length} chunks (${source.chunkingStrategy})`,
+      );
+
+      await this.updateProgress(source, PROGRESS.EMBEDDING, 'EMBEDDING');
+      const indexes = await this.embeddingIndexService.getWriteIndexes(
+        source.sectorId,
+      );
+      const inputs = chunks.map((chunk: TextChunk) =>
+        this.toEmbeddingInput(chunk.content, chunk.headingPath, source),
+      );
+      const embedded: Array<{ index: EmbeddingIndex; embeddings: number[][] }> =
+        [];
+      for (const index of indexes) {
+        embedded.push({
+          index,
+          embeddings: await this.embeddingService.generateDocumentEmbeddings(
+            inputs,
+            index.getProfile(),
+          ),
+        });
+      }
+
+      await this.updateProgress(source, PROGRESS.STORING, 'STORING');
+      const savedFragments = await this.persistFragments(
+        chunks,
+        source,
+        indexes[0],
+      );
+
+      await this.updateProgress(source, PROGRESS.INDEXING, 'INDEXING');
+      for (const { index, embeddings } of embedded) {
+        await this.upsertToVectorStore({
+          fragments: savedFragments,
+          embeddings,
+          source,
+          index,
+        });
+      }
+
+      await this.deleteVectors(supersededIds, source.sectorId);
+      source.markAsCompleted();
+      await this.repository.activateSourceVersion(source);
+      if (recognized) {
+        await this.repository.clearPendingOcrFile(sourceId);
+      }
+
+      this.eventEmitter.emit(
+        'knowledge.source.ingested',
+        new KnowledgeSourceIngestedEvent(
+          sourceId,
+          source.sectorId,
+          source.title,
+          savedFragments.length,
+          new Date(),
+        ),
+      );
+
+      this.logger.log(
+        `Ingestion pipeline completed for source ${sourceId} (${savedFragments.length} fragments)`,
+      );
+    } catch (error: unknown) {
+      await this.handleFailure(source, error);
+    }
+  }
+
+  /**
+   * Re-embeds stored fragments of a source and upserts their vectors,
+   * e.g. to restore vectors missing from the vector store. Fragments are
+   * embedded the same way as during ingestion.
+   *
+   * @param source - The source the fragments belong to
+   * @param fragments - Persisted fragments of the source
+   * @param indexes - Embedding indexes to write to (default: the sector's
+   *   active index and the index being built, if any)
+   */
+  async indexFragments(
+    source: KnowledgeSource,
+    fragments: Fragment[],
+    indexes?: EmbeddingIndex[],
+  ): Promise<void> {
+    if (fragments.length === 0) {
+      return;
+    }
+
+    const ordered = [...fragments].sort((a, b) => a.position - b.position);
+    const inputs = ordered.map((fragment) =>
+      this.toEmbeddingInput(
+        fragment.content,
+        fragment.getHeadingPath(),
+        source,
+      ),
+    );
+    for (const index of indexes ??
+      (await this.embeddingIndexService.getWriteIndexes(source.sectorId))) {
+      const embeddings = await this.embeddingService.generateDocumentEmbeddings(
+        inputs,
+        index.getProfile(),
+      );
+      await this.upsertToVectorStore({
+        fragments: ordered,
+        embeddings,
+        source,
+        index,
+      });
+    }
+  }
+
+  /**
+   * Runs the OCR deferred at upload: parses the kept PDF again, with its
+   * scanned pages recognized, and replaces the content with the result
+   * @returns Whether the source had a PDF awaiting OCR
+   */
+  private async recognizeScannedPages(
+    source: KnowledgeSource,
+  ): Promise<boolean> {
+    const file = await this.repository.findPendingOcrFile(source.id!);
+    if (!file) {
+      return false;
+    }
+
+    await this.updateProgress(source, PROGRESS.RECOGNIZING, 'RECOGNIZING');
+    const parsed = await this.parserService.parse(file, source.sourceType);
+    source.applyRecognizedContent(
+      parsed.content,
+      sha256Hex(parsed.content),
+      minHashSignature(parsed.content),
+    );
+    if (parsed.metadata.ocr) {
+      source.updateMetadata({ ocr: parsed.metadata.ocr });
+    }
+
+    await this.assertChangedFromIndexedVersion(source);
+
+    const lowConfidencePages = source.getLowConfidencePages();
+    if (lowConfidencePages.length > 0) {
+      this.logger.warn(
+        `Source ${source.id} has low-confidence OCR pages: ${lowConfidencePages.join(', ')}`,
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Rejects a new version whose recognized content equals the version
+   * still served (the upload could not compare them before OCR)
+   */
+  private async assertChangedFromIndexedVersion(
+    source: KnowledgeSource,
+  ): Promise<void> {
+    if (
+      source.indexedVersion === undefined ||
+      source.indexedVersion === source.version
+    ) {
+      return;
+    }
+
+    const indexed = await this.repository.findRevisionBySourceAndVersion(
+      source.id!,
+      source.indexedVersion,
+    );
+    if (indexed?.contentHash === source.contentHash) {
+      throw new Error('Content is identical to the current version');
+    }
+  }
+
+  private async updateProgress(
+    source: KnowledgeSource,
+    progress: number,
+    step: string,
+  ): Promise<void> {
+    source.updateProcessingProgress(progress, step);
+    await this.repository.saveSource(source);
+  }
+
+  /**
+   * Splits the source with its chunking strategy. Fixed windows are cut from
+   * the embedding text; structured chunks keep the stored Markdown so lists
+   * and tables stay readable in the answer context.
+   */
+  private createChunks(source: KnowledgeSource): TextChunk[] {
+    if (source.chunkingStrategy === ChunkingStrategy.STRUCTURED) {
+      return this.chunkingService.chunkByStructure(source.content);
+    }
+    return this.chunkingService.chunk(
+      this.parserService.toEmbeddingText(source.content, source.sourceType),
+    );
+  }
+
+  /**
+   * Text sent to the embedding model for a chunk or fragment
+   */
+  private toEmbeddingInput(
+    content: string,
+    headingPath: string[] | undefined,
+    source: KnowledgeSource,
+  ): string {
+    if (headingPath === undefined) {
+      return content;
+    }
+    return withHeadingPath(
+      this.parserService.toEmbeddingText(content, source.sourceType),
+      headingPath,
+    );
+  }
+
+  /**
+   * Removes fragments and vectors left behind by an interrupted attempt.
+   * Fragments of the indexed version are kept: they are served until the
+   * new version is indexed.
+   * @returns IDs of the indexed version's fragments, superseded by this run
+   */
+  private async removePartialResults(
+    source: KnowledgeSource,
+  ): Promise<string[]> {
+    const existing = await this.repository.findFragmentsBySource(source.id!);
+    const partialIds: string[] = [];
+    const supersededIds: string[] = [];
+    for (const fragment of existing) {
+      const ids =
+        fragment.sourceVersion === source.indexedVersion
+          ? supersededIds
+          : partialIds;
+      ids.push(fragment.id!);
+    }
+
+    if (partialIds.length > 0) {
+      this.logger.warn(
+        `Removing ${partialIds.length} fragments from a previous attempt for source ${source.id}`,
+      );
+      await this.deleteVectors(partialIds, source.sectorId);
+      await this.repository.deleteFragmentsByIds(partialIds);
+    }
+    return supersededIds;
+  }
+
+  /**
+   * Deletes vectors from every namespace of the sector
+   */
+  private async deleteVectors(ids: string[], sectorId: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const namespaces =
+      await this.embeddingIndexService.getVectorNamespaces(sectorId);
+    for (const namespace of namespaces) {
+      await this.vectorStore.deleteByIds(ids, namespace);
+    }
+  }
+
+  /**
+   * Creates Fragment entities and saves them to PostgreSQL, with the
+   * embedding profile of the sector's active index
+   */
+  private async persistFragments(
+    chunks: TextChunk[],
+    source: KnowledgeSource,
+    activeIndex: EmbeddingIndex,
+  ): Promise<Fragment[]> {
+    const fragments: Fragment[] = chunks.map((chunk: TextChunk) => {
+      const fragment = new Fragment({
+        sourceId: source.id!,
+        sourceVersion: source.version,
+        content: chunk.content,
+        position: chunk.position,
+        tokenCount: chunk.tokens,
+        metadata: {
+          startIndex: chunk.startIndex,
+          endIndex: chunk.endIndex,
+          tokens: chunk.tokens,
+          ...(chunk.headingPath && { headingPath: chunk.headingPath }),
+        },
+      });
+      fragment.recordEmbedding(activeIndex.getProfile());
+      return fragment;
+    });
+    return this.repository.saveFragments(fragments);
+  }
+
+  /**
+   * Upserts fragment embeddings to the namespace of an embedding index,
+   * with the source attributes searches can filter on (type, tags,
+   * creation date) and the embedding profile.
+   * Uses fragment.position as a stable key to align embeddings with fragments,
+   * ensuring correct mapping even if the repository reorders fragments.
+   */
+  private async upsertToVectorStore(
+    payload: VectorIndexPayload,
+  ): Promise<void> {
+    const { fragments, embeddings, source, index: embeddingIndex } = payload;
+
+    if (embeddings.length !== fragments.length) {
+      throw new Error(
+        `Embedding/fragment count mismatch: got ${embeddings.length} embeddings for ${fragments.length} fragments`,
+      );
+    }
+
+    // Build map keyed by position (stable across reordering) instead of index
+    const embeddingsMap = new Map(embeddings.map((e, i) => [i, e]));
+
+    // Sort fragments by position to align with original embedding order
+    const orderedFragments = [...fragments].sort(
+      (a, b) => a.position - b.position,
+    );
+
+    const vectorInputs: VectorUpsertInput[] = orderedFragments.map(
+      (fragment: Fragment, index: number) => {
+        const headingPath = fragment.getHeadingPath();
+        return {
+          id: fragment.id!,
+          embedding: embeddingsMap.get(index)!,
+          metadata: {
+            sourceId: source.id!,
+            sectorId: source.sectorId,
+            content: fragment.content,
+            position: fragment.position,
+            tokenCount: fragment.tokenCount,
+            ...(headingPath && { headingPath }),
+            sourceType: source.sourceType,
+            ...(source.tags.length > 0 && { tags: source.tags }),
+            createdAt: source.createdAt.getTime(),
+            embeddingModel: embeddingIndex.embeddingModel,
+            embeddingDimensions: embeddingIndex.embeddingDimensions,
+          },
+        };
+      },
+    );
+    await this.vectorStore.upsertVectors(
+      vectorInputs,
+      embeddingIndex.namespace,
+    );
+  }
+
+  private async handleFailure(
+    source: KnowledgeSource,
+    error: unknown,
+  ): Promise<void> {
+    const message = extractErrorMessage(error);
+    this.logger.error(
+      `Ingestion pipeline failed for source ${source.id}: ${message}`,
+    );
+
+    try {
+      source.markAsFailed(message);
+      await this.repository.saveSource(source);
+    } catch (saveError: unknown) {
+      this.logger.error(
+        `Failed to mark source ${source.id} as FAILED: ${extractErrorMessage(saveError)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Logger } from '@nestjs/common';
+import { extractErrorMessage, readNumberEnv } from '@shared/utils';
+
+// Interval conversion (OWASP: Magic Numbers)
+const SECONDS_PER_MINUTE = 60;
+const MS_PER_SECOND = 1_000;
+const MS_PER_MINUTE = SECONDS_PER_MINUTE * MS_PER_SECOND;
+
+/**
+ * What an IntervalScheduler runs, and how it is configured
+ */
+export interface IntervalSchedulerOptions {
+  /** Name of the job in log messages, e.g. "URL source refresh" */
+  name: string;
+  /** Environment variable with the minutes between runs */
+  intervalEnvVar: string;
+  /** Internal endpoint Cloud Scheduler calls to run the job instead */
+  internalEndpoint: string;
+  /** One run of the job; errors are logged, not thrown */
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Interval Scheduler
+ *
+ * Runs a maintenance job in-process at a fixed interval, for deployments
+ * without Cloud Scheduler (e.g. local development). Off unless its
+ * interval variable is set to a positive number of minutes: with several
+ * instances, every instance would run the job, so production relies on
+ * Cloud Scheduler calling the job's internal endpoint instead.
+ *
+ * Runs never overlap: a tick is skipped while the previous run is active.
+ * The timer does not keep the process alive.
+ */
+export class IntervalScheduler {
+  private readonly logger: Logger;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly options: IntervalSchedulerOptions,
+    context: string,
+  ) {
+    this.logger = new Logger(context);
+  }
+
+  /**
+   * Starts the timer if the interval variable enables the scheduler
+   */
+  start(): void {
+    const intervalMinutes = this.resolveIntervalMinutes();
+    if (intervalMinutes === 0) {
+      this.logger.log(
+        `${this.options.name} scheduler disabled (set ${this.options.intervalEnvVar} to run it in-process, ` +
+          `or have Cloud Scheduler call POST ${this.options.internalEndpoint})`,
+      );
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMinutes * MS_PER_MINUTE);
+    this.timer.unref();
+
+    this.logger.log(`${this.options.name} scheduler started`, {
+      intervalMinutes,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Runs the job unless a run is already in progress
+   * @returns True if a run was performed
+   */
+  async runOnce(): Promise<boolean> {
+    if (this.running) {
+      this.logger.debug(
+        `Previous ${this.options.name} run still active, skipping`,
+      );
+      return false;
+    }
+
+    this.running = true;
+    try {
+      await this.options.run();
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(
+        `${this.options.name} run failed: ${extractErrorMessage(error)}`,
+      );
+      return true;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Minutes between runs (0: disabled, the default)
+   */
+  private resolveIntervalMinutes(): number {
+    const name = this.options.intervalEnvVar;
+    return readNumberEnv(name, 0, {
+      isValid: (minutes) => minutes >= 0,
+      onInvalid: (raw) =>
+        this.logger.warn(`Invalid ${name} "${raw}", scheduler disabled`),
+    });
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type {
+  QuotaUsage,
+  SectorKnowledgeQuota,
+  SectorQuotaLimits,
+} from '@modules/knowledge/application/dtos/knowledge-quota.dto';
+import { SourceType } from '@shared/types';
+import { extractErrorMessage, readNumberEnv } from '@shared/utils';
+
+// Default limits (OWASP: Magic Numbers)
+const DEFAULT_MAX_SOURCES = 500;
+const DEFAULT_MAX_FRAGMENTS = 50_000;
+const DEFAULT_MAX_TOKENS = 10_000_000;
+const DEFAULT_MAX_FILE_SIZE_MB = 10;
+const BYTES_IN_KB = 1024;
+const KB_IN_MB = 1024;
+const BYTES_IN_MB = KB_IN_MB * BYTES_IN_KB;
+
+/** Prefix of the errors raised when a sector has no room left */
+const SECTOR_QUOTA_ERROR_PREFIX = 'Sector quota exceeded';
+/** Prefix of the errors raised when an upload is over its size limit */
+const FILE_SIZE_ERROR_PREFIX = 'File too large';
+
+/**
+ * Knowledge Quota Service
+ *
+ * Caps what each sector can ingest, since every fragment costs embedding
+ * calls:
+ * - Active sources, fragments and tokens (of the versions served to search)
+ * - Upload size, per source type
+ *
+ * Configuration:
+ * - KNOWLEDGE_MAX_SOURCES_PER_SECTOR (default: 500)
+ * - KNOWLEDGE_MAX_FRAGMENTS_PER_SECTOR (default: 50000)
+ * - KNOWLEDGE_MAX_TOKENS_PER_SECTOR (default: 10000000)
+ * - KNOWLEDGE_SECTOR_QUOTAS: JSON overrides per sector ID, e.g.
+ *   {"<sectorId>": {"maxSources": 1000}}
+ * - KNOWLEDGE_MAX_FILE_SIZE_MB (default: 10), and
+ *   KNOWLEDGE_MAX_FILE_SIZE_MB_<SOURCE_TYPE> to override it for one type.
+ *   Uploads above 10MB are rejected by the upload endpoint anyway.
+ *
+ * Fragments of a source are only known once it is chunked: the token limit
+ * is checked against an estimate of the parsed content. New versions of a
+ * source are checked against the tokens they add to it.
+ */
+@Injectable()
+export class KnowledgeQuotaService {
+  private readonly logger = new Logger(KnowledgeQuotaService.name);
+  private readonly defaultLimits: SectorQuotaLimits;
+  private readonly sectorLimits: Map<string, Partial<SectorQuotaLimits>>;
+  private readonly maxFileSizeBytes: Map<SourceType, number>;
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+  ) {
+    this.defaultLimits = {
+      maxSources: this.readLimit(
+        'KNOWLEDGE_MAX_SOURCES_PER_SECTOR',
+        DEFAULT_MAX_SOURCES,
+      ),
+      maxFragments: this.readLimit(
+        'KNOWLEDGE_MAX_FRAGMENTS_PER_SECTOR',
+        DEFAULT_MAX_FRAGMENTS,
+      ),
+      maxTokens: this.readLimit(
+        'KNOWLEDGE_MAX_TOKENS_PER_SECTOR',
+        DEFAULT_MAX_TOKENS,
+      ),
+    };
+    this.sectorLimits = this.readSectorLimits();
+
+    const defaultFileSizeMb = this.readLimit(
+      'KNOWLEDGE_MAX_FILE_SIZE_MB',
+      DEFAULT_MAX_FILE_SIZE_MB,
+    );
+    this.maxFileSizeBytes = new Map(
+      Object.values(SourceType).map((type) => [
+        type,
+        this.readLimit(
+          `KNOWLEDGE_MAX_FILE_SIZE_MB_${type}`,
+          defaultFileSizeMb,
+        ) * BYTES_IN_MB,
+      ]),
+    );
+  }
+
+  /**
+   * Returns the limits of a sector: its overrides, or the defaults
+   */
+  getLimits(sectorId: string): SectorQuotaLimits {
+    return { ...this.defaultLimits, ...this.sectorLimits.get(sectorId) };
+  }
+
+  /**
+   * Reports what a sector uses of each limit
+   */
+  async getQuota(sectorId: string): Promise<SectorKnowledgeQuota> {
+    const limits = this.getLimits(sectorId);
+    const [sources, usage] = await Promise.all([
+      this.repository.countSourcesBySector(sectorId),
+      this.repository.getFragmentUsageBySector(sectorId),
+    ]);
+
+    return {
+      sectorId,
+      sources: toUsage(sources, limits.maxSources),
+      fragments: toUsage(usage.fragments, limits.maxFragments),
+      tokens: toUsage(usage.tokens, limits.maxTokens),
+      maxFileSizeBytes: Object.fromEntries(this.maxFileSizeBytes) as Record<
+        SourceType,
+        number
+      >,
+    };
+  }
+
+  /**
+   * Rejects an upload over the size limit of its source type
+   *
+   * @throws {Error} If the upload is too large
+   */
+  assertFileSize(sourceType: SourceType, sizeBytes: number): void {
+    const limit = this.maxFileSizeBytes.get(sourceType) ?? 0;
+    if (sizeBytes > limit) {
+      throw new Error(
+        `${FILE_SIZE_ERROR_PREFIX} for ${sourceType} sources. Maximum size is ${limit / BYTES_IN_MB}MB`,
+      );
+    }
+  }
+
+  /**
+   * Rejects a new source when the sector has no room left for it
+   *
+   * @param sectorId - The sector ID
+   * @param estimatedTokens - Estimated tokens of the new source's content
+   * @throws {Error} If a source, fragment or token limit would be exceeded
+   */
+  async assertCapacity(
+    sectorId: string,
+    estimatedTokens: number,
+  ): Promise<void> {
+    const quota = await this.getQuota(sectorId);
+
+    if (quota.sources.remaining < 1) {
+      throw quotaError('sources', quota.sources);
+    }
+    if (quota.fragments.remaining < 1) {
+      throw quotaError('fragments', quota.fragments);
+    }
+    if (estimatedTokens > quota.tokens.remaining) {
+      throw new Error(
+        `${SECTOR_QUOTA_ERROR_PREFIX}: the document has about ${estimatedTokens} tokens, ` +
+          `${quota.tokens.remaining} of ${quota.tokens.limit} remain`,
+      );
+    }
+  }
+
+  /**
+   * Rejects a new version of a source when the sector has no room for the
+   * tokens it adds (the source itself is already counted)
+   *
+   * @param sectorId - The sector ID
+   * @param addedTokens - Estimated tokens of the new version, minus those
+   *   of the version it replaces
+   * @throws {Error} If the fragment or token limit would be exceeded
+   */
+  async assertVersionCapacity(
+    sectorId: string,
+    addedTokens: number,
+  ): Promise<void> {
+    if (addedTokens <= 0) {
+      return;
+    }
+    const quota = await this.getQuota(sectorId);
+
+    if (quota.fragments.remaining < 1) {
+      throw quotaError('fragments', quota.fragments);
+    }
+    if (addedTokens > quota.tokens.remaining) {
+      throw new Error(
+        `${SECTOR_QUOTA_ERROR_PREFIX}: the new version adds about ${addedTokens} tokens, ` +
+          `${quota.tokens.remaining} of ${quota.tokens.limit} remain`,
+      );
+    }
+  }
+
+  private readLimit(name: string, defaultValue: number): number {
+    return readNumberEnv(name, defaultValue, {
+      isValid: (value) => Number.isInteger(value) && value >= 1,
+      onInvalid: (raw) =>
+        this.logger.warn(`Invalid ${name} "${raw}", using ${defaultValue}`),
+    });
+  }
+
+  private readSectorLimits(): Map<string, Partial<SectorQuotaLimits>> {
+    const raw = process.env.KNOWLEDGE_SECTOR_QUOTAS;
+    if (raw === undefined || raw.trim() === '') {
+      return new Map();
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Record<
+        string,
+        Partial<SectorQuotaLimits>
+      >;
+      return new Map(
+        Object.entries(parsed).map(([sectorId, overrides]) => [
+          sectorId,
+          pickValidLimits(overrides),
+        ]),
+      );
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Invalid KNOWLEDGE_SECTOR_QUOTAS, using the defaults: ${extractErrorMessage(error)}`,
+      );
+      return new Map();
+    }
+  }
+}
+
+function toUsage(used: number, limit: number): QuotaUsage {
+  return { used, limit, remaining: Math.max(0, limit - used) };
+}
+
+function quotaError(name: string, usage: QuotaUsage): Error {
+  return new Error(
+    `${SECTOR_QUOTA_ERROR_PREFIX}: ${usage.used}/${usage.limit} ${name}`,
+  );
+}
+
+/**
+ * Keeps the positive integer limits of a sector's overrides
+ */
+function pickValidLimits(
+  overrides: Partial<SectorQuotaLimits>,
+): Partial<SectorQuotaLimits> {
+  const valid: Partial<SectorQuotaLimits> = {};
+  for (const key of ['maxSources', 'maxFragments', 'maxTokens'] as const) {
+    // eslint-disable-next-line security/detect-object-injection
+    const value = overrides[key];
+    if (Number.isInteger(value) && value! > 0) {
+      // eslint-disable-next-line security/detect-object-injection
+      valid[key] = value;
+    }
+  }
+  return valid;
+}
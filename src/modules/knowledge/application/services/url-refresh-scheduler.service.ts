@@ -0,0 +1,53 @@
+import {
+  Injectable,
+  type OnModuleInit,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import { RefreshUrlSourcesUseCase } from '@modules/knowledge/application/use-cases/refresh-url-sources.use-case';
+import { IntervalScheduler } from '@modules/knowledge/application/services/interval-scheduler';
+
+/**
+ * URL Refresh Scheduler
+ *
+ * Runs RefreshUrlSourcesUseCase in-process, so URL sources are re-crawled
+ * when their refresh interval elapses. Off by default: in production,
+ * Cloud Scheduler calls POST /internal/knowledge/refresh-url-sources.
+ *
+ * Configuration:
+ * - URL_REFRESH_INTERVAL_MINUTES: how often due sources are checked
+ *   (default: unset, the in-process scheduler is disabled)
+ *
+ * See IntervalScheduler.
+ */
+@Injectable()
+export class UrlRefreshScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly scheduler: IntervalScheduler;
+
+  constructor(private readonly refreshUrlSources: RefreshUrlSourcesUseCase) {
+    this.scheduler = new IntervalScheduler(
+      {
+        name: 'URL source refresh',
+        intervalEnvVar: 'URL_REFRESH_INTERVAL_MINUTES',
+        internalEndpoint: '/internal/knowledge/refresh-url-sources',
+        run: () => this.refreshUrlSources.execute(),
+      },
+      UrlRefreshScheduler.name,
+    );
+  }
+
+  onModuleInit(): void {
+    this.scheduler.start();
+  }
+
+  onModuleDestroy(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * Re-crawls due sources unless a run is already in progress
+   * @returns True if a run was performed
+   */
+  runOnce(): Promise<boolean> {
+    return this.scheduler.runOnce();
+  }
+}
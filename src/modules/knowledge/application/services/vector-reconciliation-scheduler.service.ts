@@ -0,0 +1,58 @@
+import {
+  Injectable,
+  type OnModuleInit,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import { ReconcileVectorStoreUseCase } from '@modules/knowledge/application/use-cases/reconcile-vector-store.use-case';
+import { IntervalScheduler } from '@modules/knowledge/application/services/interval-scheduler';
+
+/**
+ * Vector Reconciliation Scheduler
+ *
+ * Runs ReconcileVectorStoreUseCase in-process (not a dry run), so vectors
+ * missing from the vector store are restored and orphan vectors deleted.
+ * Off by default: in production, Cloud Scheduler calls
+ * POST /internal/knowledge/reconcile-vectors.
+ *
+ * Configuration:
+ * - VECTOR_RECONCILIATION_INTERVAL_MINUTES: minutes between runs
+ *   (default: unset, the in-process scheduler is disabled)
+ *
+ * See IntervalScheduler.
+ */
+@Injectable()
+export class VectorReconciliationScheduler
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly scheduler: IntervalScheduler;
+
+  constructor(
+    private readonly reconcileVectorStore: ReconcileVectorStoreUseCase,
+  ) {
+    this.scheduler = new IntervalScheduler(
+      {
+        name: 'Vector reconciliation',
+        intervalEnvVar: 'VECTOR_RECONCILIATION_INTERVAL_MINUTES',
+        internalEndpoint: '/internal/knowledge/reconcile-vectors',
+        run: () => this.reconcileVectorStore.execute({ dryRun: false }),
+      },
+      VectorReconciliationScheduler.name,
+    );
+  }
+
+  onModuleInit(): void {
+    this.scheduler.start();
+  }
+
+  onModuleDestroy(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * Reconciles every sector unless a run is already in progress
+   * @returns True if a run was performed
+   */
+  runOnce(): Promise<boolean> {
+    return this.scheduler.runOnce();
+  }
+}
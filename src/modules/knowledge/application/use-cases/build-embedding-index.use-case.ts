@@ -0,0 +1,39 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IIngestionTaskDispatcher } from '@modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+import { EmbeddingReindexService } from '@modules/knowledge/application/services/embedding-reindex.service';
+
+/**
+ * Use Case: Build Embedding Index
+ *
+ * Runs one batch of an index build (see EmbeddingReindexService), then
+ * dispatches the next batch while sources remain. Invoked by the internal
+ * webhook, so each background task stays short.
+ *
+ * @example
+ * ```typescript
+ * const hasMore = await buildEmbeddingIndexUseCase.execute('index-uuid-789');
+ * ```
+ */
+@Injectable()
+export class BuildEmbeddingIndexUseCase {
+  constructor(
+    @Inject('IIngestionTaskDispatcher')
+    private readonly taskDispatcher: IIngestionTaskDispatcher,
+    private readonly reindexService: EmbeddingReindexService,
+  ) {}
+
+  /**
+   * Executes the next batch
+   *
+   * @param indexId - The index being built
+   * @returns Whether another batch was dispatched
+   * @throws {Error} If the next batch cannot be dispatched
+   */
+  async execute(indexId: string): Promise<boolean> {
+    const hasMore = await this.reindexService.runBatch(indexId);
+    if (hasMore) {
+      await this.taskDispatcher.dispatchReindex({ indexId });
+    }
+    return hasMore;
+  }
+}
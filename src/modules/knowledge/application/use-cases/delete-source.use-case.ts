@@ -1,6 +1,9 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
 import type { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { KnowledgeSourceDeletedEvent } from '@modules/knowledge/domain/events/knowledge.events';
 import type {
   DeleteSourceDto,
   DeleteSourceResult,
@@ -13,14 +16,17 @@ import { extractErrorMessage } from '@shared/utils';
  *
  * Orchestrates the complete deletion of a knowledge source:
  * 1. Validates input and finds the source
- * 2. Deletes vectors from Pinecone (via IVectorStore)
+ * 2. Deletes vectors from Pinecone (via IVectorStore), in every namespace
+ *    of the sector (see EmbeddingIndexService)
  * 3. Deletes fragments from PostgreSQL
  * 4. Soft-deletes the source from PostgreSQL
+ * 5. Emits `knowledge.source.deleted`
  *
  * Deletion Order (critical for data consistency):
  * - Vectors (Pinecone) → Fragments (PostgreSQL) → Source (PostgreSQL)
  * - If Pinecone deletion fails, PostgreSQL cleanup still proceeds
- *   (orphaned vectors in Pinecone are acceptable; orphaned fragments are not)
+ *   (orphaned vectors in Pinecone are acceptable — the vector store
+ *   reconciliation removes them; orphaned fragments are not)
  *
  * @example
  * ```typescript
@@ -39,6 +45,8 @@ export class DeleteSourceUseCase {
     private readonly repository: IKnowledgeRepository,
     @Inject('IVectorStore')
     private readonly vectorStore: IVectorStore,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   /**
@@ -73,7 +81,12 @@ export class DeleteSourceUseCase {
     // Step 4: Delete vectors from Pinecone (best-effort)
     let vectorsDeleted = false;
     try {
-      await this.vectorStore.deleteBySourceId(dto.sourceId, dto.sectorId);
+      const namespaces = await this.embeddingIndexService.getVectorNamespaces(
+        dto.sectorId,
+      );
+      for (const namespace of namespaces) {
+        await this.vectorStore.deleteBySourceId(dto.sourceId, namespace);
+      }
       vectorsDeleted = true;
       this.logger.debug(
         `Vectors deleted from Pinecone for source ${dto.sourceId}`,
@@ -98,6 +111,15 @@ export class DeleteSourceUseCase {
       );
     });
 
+    this.eventEmitter.emit(
+      'knowledge.source.deleted',
+      new KnowledgeSourceDeletedEvent(
+        dto.sourceId,
+        source.sectorId,
+        new Date(),
+      ),
+    );
+
     return {
       sourceId: dto.sourceId,
       fragmentsDeleted: fragmentCount,
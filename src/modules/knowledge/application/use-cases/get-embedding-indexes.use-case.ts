@@ -0,0 +1,51 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IEmbeddingIndexRepository } from '@modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingService } from '@modules/knowledge/infrastructure/services/embedding.service';
+import type { SectorEmbeddingIndexes } from '@modules/knowledge/application/dtos/embedding-index.dto';
+import { isValidUUID } from '@shared/validators';
+
+/**
+ * Use Case: Get Embedding Indexes
+ *
+ * Reports how a sector is embedded: the index serving its reads, the
+ * progress of a running re-index, and the indexes it can roll back to.
+ *
+ * @example
+ * ```typescript
+ * const { active, building } = await getEmbeddingIndexesUseCase.execute(
+ *   'sector-uuid-456',
+ * );
+ * ```
+ */
+@Injectable()
+export class GetEmbeddingIndexesUseCase {
+  constructor(
+    @Inject('IEmbeddingIndexRepository')
+    private readonly indexRepository: IEmbeddingIndexRepository,
+    private readonly embeddingService: EmbeddingService,
+  ) {}
+
+  /**
+   * Executes the query
+   *
+   * @param sectorId - The sector ID
+   * @returns The active index, the build (if any) and every stored index
+   * @throws {Error} If the sector ID is not a valid UUID
+   */
+  async execute(sectorId: string): Promise<SectorEmbeddingIndexes> {
+    if (!isValidUUID(sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    const indexes = await this.indexRepository.findBySector(sectorId);
+    return {
+      sectorId,
+      active:
+        indexes.find((index) => index.isActive()) ??
+        EmbeddingIndex.initial(sectorId, this.embeddingService.getProfile()),
+      building: indexes.find((index) => index.isBuilding()),
+      indexes,
+    };
+  }
+}
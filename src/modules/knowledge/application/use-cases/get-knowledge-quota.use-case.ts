@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { KnowledgeQuotaService } from '@modules/knowledge/application/services/knowledge-quota.service';
+import type { SectorKnowledgeQuota } from '@modules/knowledge/application/dtos/knowledge-quota.dto';
+import { isValidUUID } from '@shared/validators';
+
+/**
+ * Use Case: Get Knowledge Quota
+ *
+ * Reports what a sector uses of its ingestion limits (sources, fragments,
+ * tokens) and the upload size limit of each source type, so clients can
+ * warn before an upload is rejected.
+ *
+ * @example
+ * ```typescript
+ * const { sources, tokens } = await getKnowledgeQuotaUseCase.execute(
+ *   'sector-uuid-456',
+ * );
+ * ```
+ */
+@Injectable()
+export class GetKnowledgeQuotaUseCase {
+  constructor(private readonly quotaService: KnowledgeQuotaService) {}
+
+  /**
+   * Executes the query
+   *
+   * @param sectorId - The sector ID
+   * @returns Usage and limits of the sector
+   * @throws {Error} If the sector ID is not a valid UUID
+   */
+  async execute(sectorId: string): Promise<SectorKnowledgeQuota> {
+    if (!isValidUUID(sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    return this.quotaService.getQuota(sectorId);
+  }
+}
@@ -1,54 +1,107 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
-import type {
-  IVectorStore,
-  VectorUpsertInput,
-} from '@modules/knowledge/domain/services/vector-store.interface';
-import { DocumentParserService } from '@modules/knowledge/infrastructure/services/document-parser.service';
+import type { IIngestionTaskDispatcher } from '@modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
 import {
-  ChunkingService,
-  type TextChunk,
-} from '@modules/knowledge/infrastructure/services/chunking.service';
-import { EmbeddingService } from '@modules/knowledge/infrastructure/services/embedding.service';
+  DocumentParserService,
+  type ParsedDocument,
+} from '@modules/knowledge/infrastructure/services/document-parser.service';
+import { KnowledgeQuotaService } from '@modules/knowledge/application/services/knowledge-quota.service';
 import {
   KnowledgeSource,
   type SourceMetadata,
 } from '@modules/knowledge/domain/entities/knowledge-source.entity';
-import { Fragment } from '@modules/knowledge/domain/entities/fragment.entity';
 import type {
+  ContentDiffSummary,
   IngestDocumentDto,
   IngestDocumentResult,
+  NearDuplicateSource,
 } from '@modules/knowledge/application/dtos/ingest-document.dto';
-import { SourceStatus } from '@shared/types';
-import { extractErrorMessage, extractErrorStack } from '@shared/utils';
+import { SourceStatus, SourceType } from '@shared/types';
+import {
+  extractErrorMessage,
+  extractErrorStack,
+  minHashSignature,
+  minHashSimilarity,
+  sha256Hex,
+} from '@shared/utils';
 import { requireNonEmpty } from '@shared/validators';
+import { CHARS_PER_TOKEN_ESTIMATE } from '@shared/constants';
 
 // Constants for validation (OWASP: Magic Numbers)
 const MIN_BUFFER_SIZE = 1;
+/** Estimated share of content in common from which a source is flagged */
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+const MAX_NEAR_DUPLICATES = 5;
+const PERCENT = 100;
 
 /**
- * Parameter object for vector store upsert operation.
- * Groups related parameters that always travel together.
+ * Hashes identifying the content of a document
  */
-interface VectorIndexPayload {
-  fragments: Fragment[];
-  embeddings: number[][];
-  sourceId: string;
-  sectorId: string;
+interface ContentFingerprint {
+  contentHash: string;
+  contentSignature: number[];
+}
+
+/**
+ * Counts the lines added to and removed from a content, ignoring blank
+ * lines, surrounding whitespace and line order
+ */
+function summarizeLineDiff(
+  existing: string,
+  incoming: string,
+): ContentDiffSummary {
+  const toLines = (content: string): string[] =>
+    content
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+  const remaining = new Map<string, number>();
+  for (const line of toLines(existing)) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+
+  let addedLines = 0;
+  let unchangedLines = 0;
+  for (const line of toLines(incoming)) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      unchangedLines++;
+    } else {
+      addedLines++;
+    }
+  }
+
+  let removedLines = 0;
+  for (const count of remaining.values()) {
+    removedLines += count;
+  }
+  return { addedLines, removedLines, unchangedLines };
 }
 
 /**
  * Use Case: Ingest Document
  *
- * Orchestrates the complete document ingestion process:
- * 1. Validates input
- * 2. Parses document content
- * 3. Creates KnowledgeSource entity
- * 4. Chunks content into fragments
- * 5. Generates embeddings for each fragment
- * 6. Persists source and fragments to PostgreSQL
- * 7. Upserts embeddings to Pinecone vector store
- * 8. Updates source status
+ * Accepts a document for ingestion. Only the fast steps run in the request:
+ * 1. Validates input, and the file size limit of its source type
+ * 2. Parses document content (OCR of scanned PDF pages is deferred)
+ * 3. Rejects content the sector already has (same SHA-256), and flags
+ *    sources whose MinHash signature is close to the content's
+ * 4. Rejects the document when the sector's quota has no room for it
+ *    (see KnowledgeQuotaService)
+ * 5. Persists the KnowledgeSource with PENDING status, and the PDF file
+ *    when it has scanned pages
+ * 6. Dispatches the background ingestion job (IngestionPipelineService),
+ *    which recognizes the scanned pages, then chunks, embeds and indexes
+ *    the content
+ *
+ * Clients poll the source status to follow the background job.
+ * Near duplicates are accepted: the result lists them with a diff summary,
+ * since a revised handbook is expected to be close to the previous one.
+ * The content of a PDF with scanned pages is only known once they are
+ * recognized, so it skips the duplicate checks; pages recognized with low
+ * OCR confidence are listed in the source status for review.
  *
  * @example
  * ```typescript
@@ -58,6 +111,7 @@ interface VectorIndexPayload {
  *   sourceType: SourceType.PDF,
  *   buffer: pdfBuffer,
  * });
+ * // result.status === SourceStatus.PENDING
  * ```
  */
 @Injectable()
@@ -67,49 +121,58 @@ export class IngestDocumentUseCase {
   constructor(
     @Inject('IKnowledgeRepository')
     private readonly repository: IKnowledgeRepository,
-    @Inject('IVectorStore')
-    private readonly vectorStore: IVectorStore,
     private readonly parserService: DocumentParserService,
-    private readonly chunkingService: ChunkingService,
-    private readonly embeddingService: EmbeddingService,
+    @Inject('IIngestionTaskDispatcher')
+    private readonly taskDispatcher: IIngestionTaskDispatcher,
+    private readonly quotaService: KnowledgeQuotaService,
   ) {}
 
   /**
-   * Executes the document ingestion process
+   * Accepts a document and dispatches its background ingestion
    *
    * @param dto - Document ingestion data
-   * @returns Ingestion result with source ID and statistics
-   * @throws {Error} If validation fails or any processing step fails
+   * @returns The PENDING source ID and content size, with near duplicates
+   * @throws {Error} If validation, parsing or dispatching fails, the
+   *   sector already has the same content, or a quota would be exceeded
    */
   async execute(dto: IngestDocumentDto): Promise<IngestDocumentResult> {
-    this.logger.log(`Starting document ingestion: ${dto.title}`);
+    this.logger.log(`Accepting document for ingestion: ${dto.title}`);
     let savedSource: KnowledgeSource | undefined;
 
     try {
       this.validateInput(dto);
+      this.quotaService.assertFileSize(dto.sourceType, dto.buffer.length);
 
       const parsed = await this.parseDocument(dto);
-      savedSource = await this.createAndPersistSource(dto, parsed);
-      const { chunks, embeddings } = await this.chunkAndEmbed(
-        parsed.contentForEmbedding,
-      );
-      const savedFragments = await this.persistFragments(
-        chunks,
-        savedSource.id!,
+      const awaitingOcr = (parsed.metadata.scannedPages ?? []).length > 0;
+      let fingerprint: ContentFingerprint | undefined;
+      let nearDuplicates: NearDuplicateSource[] = [];
+      if (!awaitingOcr) {
+        fingerprint = {
+          contentHash: sha256Hex(parsed.content),
+          contentSignature: minHashSignature(parsed.content),
+        };
+        nearDuplicates = await this.checkDuplicates(
+          dto.sectorId,
+          parsed.content,
+          fingerprint,
+        );
+      }
+      await this.quotaService.assertCapacity(
+        dto.sectorId,
+        Math.ceil(parsed.content.length / CHARS_PER_TOKEN_ESTIMATE),
       );
-      await this.upsertToVectorStore({
-        fragments: savedFragments,
-        embeddings,
+
+      savedSource = await this.createAndPersistSource(dto, parsed, fingerprint);
+      if (awaitingOcr) {
+        await this.repository.savePendingOcrFile(savedSource.id!, dto.buffer);
+      }
+
+      await this.taskDispatcher.dispatchIngestion({
         sourceId: savedSource.id!,
-        sectorId: dto.sectorId,
       });
-      await this.markSourceCompleted(savedSource);
 
-      return this.buildResult(
-        savedSource,
-        savedFragments.length,
-        parsed.content,
-      );
+      return this.buildResult(savedSource, parsed, nearDuplicates);
     } catch (error: unknown) {
       // Mark the source as FAILED if it was already persisted
       if (savedSource) {
@@ -138,21 +201,69 @@ export class IngestDocumentUseCase {
   /**
    * Parses the raw document buffer into structured content
    */
-  private async parseDocument(dto: IngestDocumentDto): Promise<{
-    content: string;
-    contentForEmbedding: string;
-    metadata: Record<string, unknown>;
-  }> {
+  private async parseDocument(dto: IngestDocumentDto): Promise<ParsedDocument> {
     this.logger.debug('Parsing document...');
-    return this.parserService.parse(dto.buffer, dto.sourceType);
+    return this.parserService.parse(dto.buffer, dto.sourceType, {
+      pageUrl: dto.pageUrl,
+      deferOcr: true,
+    });
   }
 
   /**
-   * Creates a KnowledgeSource entity and persists it with PROCESSING status
+   * Rejects content the sector already has and finds the sources close to it
+   *
+   * @returns The near duplicates, most similar first
+   * @throws {Error} If an active source of the sector has the same content
+   */
+  private async checkDuplicates(
+    sectorId: string,
+    content: string,
+    { contentHash, contentSignature }: ContentFingerprint,
+  ): Promise<NearDuplicateSource[]> {
+    const duplicate = await this.repository.findSourceByContentHash(
+      sectorId,
+      contentHash,
+    );
+    if (duplicate) {
+      throw new Error(
+        `Duplicate of knowledge source ${duplicate.id} ("${duplicate.title}"): the sector already has this content`,
+      );
+    }
+
+    const similar = (await this.repository.findSourceSignatures(sectorId))
+      .map((candidate) => ({
+        ...candidate,
+        similarity: minHashSimilarity(contentSignature, candidate.signature),
+      }))
+      .filter((candidate) => candidate.similarity >= NEAR_DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_NEAR_DUPLICATES);
+    if (similar.length === 0) {
+      return [];
+    }
+
+    const sources = await this.repository.findSourcesByIds(
+      similar.map((candidate) => candidate.sourceId),
+    );
+    const contents = new Map(
+      sources.map((source) => [source.id, source.content]),
+    );
+    return similar.map((candidate) => ({
+      sourceId: candidate.sourceId,
+      title: candidate.title,
+      similarity: candidate.similarity,
+      diff: summarizeLineDiff(contents.get(candidate.sourceId) ?? '', content),
+    }));
+  }
+
+  /**
+   * Creates a KnowledgeSource entity and persists it with PENDING status.
+   * Without a fingerprint, the content awaits the OCR of its scanned pages.
    */
   private async createAndPersistSource(
     dto: IngestDocumentDto,
-    parsed: { content: string; metadata: Record<string, unknown> },
+    parsed: ParsedDocument,
+    fingerprint: ContentFingerprint | undefined,
   ): Promise<KnowledgeSource> {
     this.logger.debug('Creating and saving knowledge source...');
     const source = new KnowledgeSource({
@@ -164,8 +275,14 @@ export class IngestDocumentUseCase {
         ...dto.metadata,
         ...parsed.metadata,
       } as SourceMetadata,
+      contentHash: fingerprint?.contentHash,
+      contentSignature: fingerprint?.contentSignature,
+      chunkingStrategy: dto.chunkingStrategy,
+      awaitingOcr: fingerprint === undefined,
     });
-    source.markAsProcessing();
+    if (dto.refreshIntervalMinutes !== undefined) {
+      source.scheduleRefresh(dto.refreshIntervalMinutes);
+    }
 
     const savedSource = await this.repository.saveSource(source);
     if (!savedSource.id) {
@@ -175,126 +292,48 @@ export class IngestDocumentUseCase {
   }
 
   /**
-   * Chunks the content and generates embeddings in parallel-ready steps
-   */
-  private async chunkAndEmbed(
-    content: string,
-  ): Promise<{ chunks: TextChunk[]; embeddings: number[][] }> {
-    this.logger.debug('Chunking content...');
-    const chunks: TextChunk[] = this.chunkingService.chunk(content);
-    this.logger.debug(`Created ${chunks.length} chunks`);
-
-    this.logger.debug('Generating embeddings...');
-    const chunkTexts: string[] = chunks.map(
-      (chunk: TextChunk) => chunk.content,
-    );
-    const embeddings: number[][] =
-      await this.embeddingService.generateDocumentEmbeddings(chunkTexts);
-
-    return { chunks, embeddings };
-  }
-
-  /**
-   * Creates Fragment entities and saves them to PostgreSQL
-   */
-  private async persistFragments(
-    chunks: TextChunk[],
-    sourceId: string,
-  ): Promise<Fragment[]> {
-    this.logger.debug('Creating and saving fragment entities...');
-    const fragments: Fragment[] = chunks.map(
-      (chunk: TextChunk) =>
-        new Fragment({
-          sourceId,
-          content: chunk.content,
-          position: chunk.position,
-          tokenCount: chunk.tokens,
-          metadata: {
-            startIndex: chunk.startIndex,
-            endIndex: chunk.endIndex,
-            tokens: chunk.tokens,
-          },
-        }),
-    );
-    return this.repository.saveFragments(fragments);
-  }
-
-  /**
-   * Upserts fragment embeddings to Pinecone vector store.
-   * Uses fragment.position as a stable key to align embeddings with fragments,
-   * ensuring correct mapping even if the repository reorders fragments.
-   */
-  private async upsertToVectorStore(
-    payload: VectorIndexPayload,
-  ): Promise<void> {
-    this.logger.debug('Upserting embeddings to Pinecone...');
-
-    const { fragments, embeddings, sourceId, sectorId } = payload;
-
-    if (embeddings.length !== fragments.length) {
-      throw new Error(
-        `Embedding/fragment count mismatch: got ${embeddings.length} embeddings for ${fragments.length} fragments`,
-      );
-    }
-
-    // Build map keyed by position (stable across reordering) instead of index
-    const embeddingsMap = new Map(embeddings.map((e, i) => [i, e]));
-
-    // Sort fragments by position to align with original embedding order
-    const orderedFragments = [...fragments].sort(
-      (a, b) => a.position - b.position,
-    );
-
-    const vectorInputs: VectorUpsertInput[] = orderedFragments.map(
-      (fragment: Fragment, index: number) => ({
-        id: fragment.id!,
-        embedding: embeddingsMap.get(index)!,
-        metadata: {
-          sourceId,
-          sectorId,
-          content: fragment.content,
-          position: fragment.position,
-          tokenCount: fragment.tokenCount,
-        },
-      }),
-    );
-    await this.vectorStore.upsertVectors(vectorInputs);
-  }
-
-  /**
-   * Marks source as COMPLETED and rethrows on failure so the execute-level
-   * error handler can mark the source as FAILED.
-   */
-  private async markSourceCompleted(
-    savedSource: KnowledgeSource,
-  ): Promise<void> {
-    this.logger.debug('Updating source status to COMPLETED...');
-    savedSource.markAsCompleted();
-    await this.repository.saveSource(savedSource);
-  }
-
-  /**
-   * Builds the final ingestion result DTO.
-   * Derives status from the actual saved source entity rather than hardcoding.
+   * Builds the ingestion result DTO for an accepted document
    */
   private buildResult(
     savedSource: KnowledgeSource,
-    fragmentCount: number,
-    content: string,
+    parsed: ParsedDocument,
+    nearDuplicates: NearDuplicateSource[],
   ): IngestDocumentResult {
     const result: IngestDocumentResult = {
       sourceId: savedSource.id!,
       title: savedSource.title,
-      fragmentCount,
-      contentSize: Buffer.byteLength(content, 'utf8'),
-      status:
-        (savedSource.status as SourceStatus.COMPLETED | SourceStatus.FAILED) ??
-        SourceStatus.COMPLETED,
+      contentSize: Buffer.byteLength(parsed.content, 'utf8'),
+      status: SourceStatus.PENDING,
     };
+    const warnings: string[] = [];
 
-    this.logger.log(
-      `Document ingestion completed: ${result.sourceId} (${result.fragmentCount} fragments)`,
-    );
+    if (nearDuplicates.length > 0) {
+      const titles = nearDuplicates
+        .map(
+          (source) =>
+            `"${source.title}" (${Math.round(source.similarity * PERCENT)}%)`,
+        )
+        .join(', ');
+      warnings.push(
+        `Similar to ${nearDuplicates.length} existing source(s) in this sector: ${titles}`,
+      );
+      result.nearDuplicates = nearDuplicates;
+      this.logger.warn(`Document ${result.sourceId} is similar to ${titles}`);
+    }
+
+    const scannedPages = parsed.metadata.scannedPages ?? [];
+    if (scannedPages.length > 0) {
+      warnings.push(
+        `Scanned page(s) ${scannedPages.join(', ')} will be recognized with OCR during ingestion; duplicate detection was skipped`,
+      );
+      result.scannedPages = scannedPages;
+    }
+
+    if (warnings.length > 0) {
+      result.warning = warnings.join('. ');
+    }
+
+    this.logger.log(`Document accepted for ingestion: ${result.sourceId}`);
 
     return result;
   }
@@ -320,5 +359,12 @@ export class IngestDocumentUseCase {
     if (!dto.sourceType) {
       throw new Error('SourceType is required');
     }
+
+    if (
+      dto.refreshIntervalMinutes !== undefined &&
+      dto.sourceType !== SourceType.URL
+    ) {
+      throw new Error('Only URL sources can be refreshed');
+    }
   }
 }
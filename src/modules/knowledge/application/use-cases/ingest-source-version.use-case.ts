@@ -0,0 +1,185 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IIngestionTaskDispatcher } from '@modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+import { DocumentParserService } from '@modules/knowledge/infrastructure/services/document-parser.service';
+import { KnowledgeQuotaService } from '@modules/knowledge/application/services/knowledge-quota.service';
+import type {
+  KnowledgeSource,
+  SourceMetadata,
+} from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '@modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import type {
+  IngestSourceVersionDto,
+  SourceVersionResult,
+} from '@modules/knowledge/application/dtos/source-version.dto';
+import { SourceStatus, SourceType } from '@shared/types';
+import {
+  extractErrorMessage,
+  minHashSignature,
+  sha256Hex,
+} from '@shared/utils';
+import { requireNonEmpty } from '@shared/validators';
+import { CHARS_PER_TOKEN_ESTIMATE } from '@shared/constants';
+
+// Constants for validation (OWASP: Magic Numbers)
+const MIN_BUFFER_SIZE = 1;
+
+function estimateTokens(content: string): number {
+  return Math.ceil(content.length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Use Case: Ingest Source Version
+ *
+ * Replaces the content of an existing knowledge source with a new version,
+ * keeping its ID so links to the source (e.g. capsule sources) stay valid:
+ * 1. Validates input and finds the source, and the file size limit of
+ *    its source type
+ * 2. Parses the new document with the source's type. OCR of scanned PDF
+ *    pages is deferred to the ingestion job, as for new documents: the
+ *    file is kept for it, and the identical-content check runs once the
+ *    pages are recognized
+ * 3. Rejects the version when the sector's quota has no room for the
+ *    tokens it adds (see KnowledgeQuotaService)
+ * 4. Keeps the current content as a KnowledgeSourceRevision
+ * 5. Replaces the content (version + 1) and resets the source to PENDING
+ * 6. Dispatches the background ingestion job (IngestionPipelineService),
+ *    which swaps out the old fragments and vectors only once the new ones
+ *    are indexed
+ *
+ * URL sources get new versions from re-crawls instead.
+ */
+@Injectable()
+export class IngestSourceVersionUseCase {
+  private readonly logger = new Logger(IngestSourceVersionUseCase.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    private readonly parserService: DocumentParserService,
+    @Inject('IIngestionTaskDispatcher')
+    private readonly taskDispatcher: IIngestionTaskDispatcher,
+    private readonly quotaService: KnowledgeQuotaService,
+  ) {}
+
+  /**
+   * Accepts a new version of a source and dispatches its indexing
+   *
+   * @param dto - Source ID and the new document
+   * @returns The new version number and PENDING status
+   * @throws {Error} If the source is not found, is a URL source, the file
+   *   is too large, or the content cannot be replaced (see publishVersion)
+   */
+  async execute(dto: IngestSourceVersionDto): Promise<SourceVersionResult> {
+    requireNonEmpty(dto.sourceId, 'SourceId');
+    if (!dto.buffer || dto.buffer.length < MIN_BUFFER_SIZE) {
+      throw new Error('Buffer cannot be empty');
+    }
+
+    const source = await this.repository.findSourceById(dto.sourceId);
+    if (!source) {
+      throw new Error(`Knowledge source not found: ${dto.sourceId}`);
+    }
+    if (source.sourceType === SourceType.URL) {
+      throw new Error('URL sources are versioned by re-crawling');
+    }
+    this.quotaService.assertFileSize(source.sourceType, dto.buffer.length);
+
+    const parsed = await this.parserService.parse(
+      dto.buffer,
+      source.sourceType,
+      { deferOcr: true },
+    );
+    const scannedPages = parsed.metadata.scannedPages ?? [];
+
+    const result = await this.publishVersion(
+      source,
+      parsed.content,
+      { ...dto.metadata, ...parsed.metadata } as SourceMetadata,
+      scannedPages.length > 0 ? dto.buffer : undefined,
+    );
+    return scannedPages.length > 0 ? { ...result, scannedPages } : result;
+  }
+
+  /**
+   * Makes `content` the next version of a source and dispatches its
+   * indexing. The current content is kept as a revision.
+   *
+   * @param source - The source to update
+   * @param content - The new content
+   * @param metadata - Metadata merged into the source metadata
+   * @param pendingOcrFile - The uploaded PDF, when it has scanned pages to
+   *   recognize during ingestion (the content is compared with the current
+   *   version only then)
+   * @returns The new version number and PENDING status
+   * @throws {Error} If the content equals the current version, the source
+   *   is being processed, or the sector quota has no room for the version
+   */
+  async publishVersion(
+    source: KnowledgeSource,
+    content: string,
+    metadata?: SourceMetadata,
+    pendingOcrFile?: Buffer,
+  ): Promise<SourceVersionResult> {
+    const sourceId = source.id!;
+    const contentHash = sha256Hex(content);
+    const currentHash = source.contentHash ?? sha256Hex(source.content);
+    if (!pendingOcrFile && contentHash === currentHash) {
+      throw new Error('Content is identical to the current version');
+    }
+    if (source.isProcessing()) {
+      throw new Error('Cannot replace content while the source is processing');
+    }
+    await this.quotaService.assertVersionCapacity(
+      source.sectorId,
+      estimateTokens(content) - estimateTokens(source.content),
+    );
+
+    await this.repository.saveRevision(
+      new KnowledgeSourceRevision({
+        sourceId,
+        version: source.version,
+        content: source.content,
+        contentHash: currentHash,
+      }),
+    );
+
+    source.replaceContent(
+      content,
+      contentHash,
+      minHashSignature(content),
+      pendingOcrFile !== undefined,
+    );
+    if (metadata) {
+      source.updateMetadata(metadata);
+    }
+    await this.repository.saveSource(source);
+    if (pendingOcrFile) {
+      await this.repository.savePendingOcrFile(sourceId, pendingOcrFile);
+    } else {
+      // A file left by an earlier version that failed must not be recognized
+      await this.repository.clearPendingOcrFile(sourceId);
+    }
+
+    try {
+      await this.taskDispatcher.dispatchIngestion({ sourceId });
+    } catch (error: unknown) {
+      // The previous version keeps being served; the new one can be retried
+      source.markAsFailed(extractErrorMessage(error));
+      await this.repository.saveSource(source);
+      throw error;
+    }
+
+    this.logger.log(
+      `Version ${source.version} of source ${sourceId} accepted for ingestion`,
+    );
+
+    return {
+      sourceId,
+      title: source.title,
+      version: source.version,
+      contentSize: Buffer.byteLength(content, 'utf8'),
+      status: SourceStatus.PENDING,
+    };
+  }
+}
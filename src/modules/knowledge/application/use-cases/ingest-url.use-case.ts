@@ -0,0 +1,84 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IWebPageFetcher } from '@modules/knowledge/domain/services/web-page-fetcher.interface';
+import { IngestDocumentUseCase } from '@modules/knowledge/application/use-cases/ingest-document.use-case';
+import type { IngestUrlDto } from '@modules/knowledge/application/dtos/ingest-url.dto';
+import type { IngestDocumentResult } from '@modules/knowledge/application/dtos/ingest-document.dto';
+import { SourceType } from '@shared/types';
+import { requireNonEmpty } from '@shared/validators';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Use Case: Ingest URL
+ *
+ * Registers a web page as a knowledge source:
+ * 1. Validates input
+ * 2. Fetches the page through the IWebPageFetcher port
+ * 3. Hands the HTML to IngestDocumentUseCase as a URL source, which extracts
+ *    the main content, persists the source and dispatches background ingestion
+ *
+ * The source metadata records the requested URL (`sourceUrl`), the page's
+ * canonical URL (`canonicalUrl`) and when it was fetched (`fetchedAt`).
+ * With `refreshIntervalMinutes` the page is re-crawled on that schedule
+ * (see RefreshUrlSourcesUseCase).
+ */
+@Injectable()
+export class IngestUrlUseCase {
+  private readonly logger = new Logger(IngestUrlUseCase.name);
+
+  constructor(
+    @Inject('IWebPageFetcher')
+    private readonly webPageFetcher: IWebPageFetcher,
+    private readonly ingestDocumentUseCase: IngestDocumentUseCase,
+  ) {}
+
+  /**
+   * Fetches a web page and accepts it for ingestion
+   *
+   * @param dto - URL ingestion data
+   * @returns The PENDING source ID and content size
+   * @throws {Error} If validation, fetching, parsing or dispatching fails
+   */
+  async execute(dto: IngestUrlDto): Promise<IngestDocumentResult> {
+    this.validateInput(dto);
+    this.logger.log(`Fetching web page for ingestion: ${dto.url}`);
+
+    const page = await this.webPageFetcher.fetch(dto.url);
+
+    return this.ingestDocumentUseCase.execute({
+      title: dto.title,
+      sectorId: dto.sectorId,
+      sourceType: SourceType.URL,
+      buffer: Buffer.from(page.html, 'utf-8'),
+      pageUrl: page.url,
+      refreshIntervalMinutes: dto.refreshIntervalMinutes,
+      chunkingStrategy: dto.chunkingStrategy,
+      metadata: {
+        ...dto.metadata,
+        sourceUrl: dto.url,
+        fetchedAt: page.fetchedAt.toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * Security: only absolute http(s) URLs are accepted
+   */
+  private validateInput(dto: IngestUrlDto): void {
+    requireNonEmpty(dto.url, 'URL');
+    requireNonEmpty(dto.title, 'Title');
+    requireNonEmpty(dto.sectorId, 'SectorId');
+
+    let url: URL;
+    try {
+      url = new URL(dto.url);
+    } catch {
+      throw new Error(`Invalid URL: ${dto.url}`);
+    }
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+      throw new Error('URL must use http or https');
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type {
+  ListFragmentsDto,
+  ListFragmentsResult,
+} from '@modules/knowledge/application/dtos/fragment-curation.dto';
+import { isValidUUID } from '@shared/validators';
+
+// Constants (OWASP: Magic Numbers)
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Use Case: List Fragments
+ *
+ * Lists, page by page, the fragments served for a knowledge source (those
+ * of its indexed version), excluded ones included, so curators can inspect
+ * how the source was chunked.
+ */
+@Injectable()
+export class ListFragmentsUseCase {
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+  ) {}
+
+  /**
+   * Lists a page of the fragments of a source
+   *
+   * @param dto - Source ID and page
+   * @returns The fragments of the page, by position, and their total count
+   * @throws {Error} If validation fails or the source is not found
+   */
+  async execute(dto: ListFragmentsDto): Promise<ListFragmentsResult> {
+    const limit = dto.limit ?? DEFAULT_LIMIT;
+    const offset = dto.offset ?? 0;
+    this.validateInput(dto.sourceId, limit, offset);
+
+    const source = await this.repository.findSourceById(dto.sourceId);
+    if (!source || source.isDeleted()) {
+      throw new Error(`Knowledge source not found: ${dto.sourceId}`);
+    }
+
+    const { indexedVersion } = source;
+    const page =
+      indexedVersion === undefined
+        ? { fragments: [], total: 0 }
+        : await this.repository.findFragmentPage(
+            dto.sourceId,
+            indexedVersion,
+            limit,
+            offset,
+          );
+
+    return { sourceId: dto.sourceId, indexedVersion, ...page, limit, offset };
+  }
+
+  /**
+   * Validates the source ID and page
+   *
+   * @throws {Error} If validation fails
+   */
+  private validateInput(sourceId: string, limit: number, offset: number): void {
+    if (!isValidUUID(sourceId)) {
+      throw new Error('SourceId must be a valid UUID');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('Offset must be a non-negative integer');
+    }
+  }
+}
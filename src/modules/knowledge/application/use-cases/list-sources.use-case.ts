@@ -0,0 +1,80 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { KnowledgeSource } from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import type {
+  ListSourcesDto,
+  ListSourcesResult,
+  SourceFacetCount,
+} from '@modules/knowledge/application/dtos/list-sources.dto';
+import { normalizeTags } from '@shared/utils';
+import { isValidUUID } from '@shared/validators';
+
+/**
+ * Use Case: List Knowledge Sources
+ *
+ * Lists the active sources of a sector (or of every sector), filtered by
+ * tags and category, with tag and category counts for faceted navigation.
+ *
+ * Filtering and counting happen in memory: the listing is not paginated,
+ * so every source of the sector is loaded anyway.
+ */
+@Injectable()
+export class ListSourcesUseCase {
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+  ) {}
+
+  /**
+   * Lists the sources matching the filters
+   *
+   * @param dto - Optional sector, tags and category
+   * @returns The matching sources and the facet counts
+   * @throws {Error} If the sector ID is invalid
+   */
+  async execute(dto: ListSourcesDto): Promise<ListSourcesResult> {
+    if (dto.sectorId !== undefined && !isValidUUID(dto.sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    const all = dto.sectorId
+      ? await this.repository.findSourcesBySector(dto.sectorId)
+      : await this.repository.findAllSources();
+
+    const tags = new Set(normalizeTags(dto.tags ?? []));
+    const category = dto.category?.trim().toLowerCase();
+    const matchesTags = (source: KnowledgeSource): boolean =>
+      tags.size === 0 || source.tags.some((tag) => tags.has(tag));
+    const matchesCategory = (source: KnowledgeSource): boolean =>
+      !category || source.category?.toLowerCase() === category;
+
+    return {
+      sources: all.filter(
+        (source) => matchesTags(source) && matchesCategory(source),
+      ),
+      facets: {
+        tags: countValues(
+          all.filter(matchesCategory).flatMap((source) => source.tags),
+        ),
+        categories: countValues(
+          all
+            .filter(matchesTags)
+            .flatMap((source) => (source.category ? [source.category] : [])),
+        ),
+      },
+    };
+  }
+}
+
+/**
+ * Counts the occurrences of each value, most frequent first
+ */
+function countValues(values: string[]): SourceFacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { FragmentCurationService } from '@modules/knowledge/application/services/fragment-curation.service';
+import type {
+  MergeFragmentsDto,
+  FragmentCurationResult,
+} from '@modules/knowledge/application/dtos/fragment-curation.dto';
+import { isValidUUID } from '@shared/validators';
+
+// Fragments merged per request (OWASP: Magic Numbers)
+const MIN_MERGED_FRAGMENTS = 2;
+const MAX_MERGED_FRAGMENTS = 10;
+
+/**
+ * Use Case: Merge Fragments
+ *
+ * Joins adjacent fragments, e.g. a table the chunker cut across several
+ * fragments:
+ * 1. Validates input and finds the fragments among those served for the
+ *    source; they must follow each other with no fragment in between
+ * 2. Appends the content of the others to the first one, by position
+ * 3. Saves the merged fragment and deletes the others in one transaction,
+ *    then embeds the merged fragment and deletes the vectors of the others
+ *
+ * The positions of the deleted fragments are left unused.
+ *
+ * @example
+ * ```typescript
+ * const result = await mergeFragmentsUseCase.execute({
+ *   sourceId: 'source-uuid-123',
+ *   fragmentIds: ['fragment-uuid-456', 'fragment-uuid-789'],
+ * });
+ * // result.deletedFragmentIds: ['fragment-uuid-789']
+ * ```
+ */
+@Injectable()
+export class MergeFragmentsUseCase {
+  constructor(private readonly curation: FragmentCurationService) {}
+
+  /**
+   * Executes the merge
+   *
+   * @param dto - Source and the fragments to merge
+   * @returns The merged fragment, the deleted fragment IDs and whether the
+   *   vectors were updated
+   * @throws {Error} If validation fails, a fragment is not found, the
+   *   fragments are not adjacent or the source is not indexed
+   */
+  async execute(dto: MergeFragmentsDto): Promise<FragmentCurationResult> {
+    // Step 1: Validate input and find the fragments
+    this.validateInput(dto);
+
+    const served = await this.curation.loadServedFragments(dto.sourceId);
+    const [first, ...following] = this.curation.findFragments(
+      served,
+      dto.fragmentIds,
+    );
+
+    const start = served.fragments.indexOf(first);
+    const adjacent = following.every(
+      (fragment, index) => served.fragments[start + index + 1] === fragment,
+    );
+    if (!adjacent) {
+      throw new Error('Only adjacent fragments can be merged');
+    }
+
+    // Step 2: Merge into the first fragment
+    first.mergeWith(following);
+
+    // Step 3: Save the merged fragment and delete the others
+    return this.curation.applyChanges(served.source, {
+      edited: [first],
+      deletedIds: following.map((fragment) => fragment.id!),
+    });
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * @param dto - Merge request to validate
+   * @throws {Error} If validation fails
+   */
+  private validateInput(dto: MergeFragmentsDto): void {
+    if (!isValidUUID(dto.sourceId)) {
+      throw new Error('SourceId must be a valid UUID');
+    }
+
+    const fragmentIds = new Set(dto.fragmentIds ?? []);
+    if (
+      fragmentIds.size < MIN_MERGED_FRAGMENTS ||
+      fragmentIds.size > MAX_MERGED_FRAGMENTS
+    ) {
+      throw new Error(
+        `Between ${MIN_MERGED_FRAGMENTS} and ${MAX_MERGED_FRAGMENTS} distinct fragments must be merged`,
+      );
+    }
+
+    const invalid = [...fragmentIds].find((id) => !isValidUUID(id));
+    if (invalid !== undefined) {
+      throw new Error(`FragmentId must be a valid UUID: ${invalid}`);
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type {
+  IKnowledgeRepository,
+  FragmentIndexEntry,
+} from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import { IngestionPipelineService } from '@modules/knowledge/application/services/ingestion-pipeline.service';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import type {
+  ReconcileVectorStoreDto,
+  SectorReconciliationReport,
+  VectorReconciliationReport,
+} from '@modules/knowledge/application/dtos/reconcile-vector-store.dto';
+import { extractErrorMessage } from '@shared/utils';
+import { isValidUUID } from '@shared/validators';
+
+// IDs listed per sector in the report (OWASP: Magic Numbers)
+const MAX_REPORTED_IDS = 100;
+
+/**
+ * Use Case: Reconcile Vector Store
+ *
+ * Fragments are saved to PostgreSQL and their vectors upserted to the
+ * vector store in separate steps, so a crash in between (or a failed
+ * vector cleanup) leaves the two out of sync. For each sector this:
+ * 1. Lists the vector IDs in the namespace of the sector's active
+ *    embedding index (see EmbeddingIndexService)
+ * 2. Lists the fragments of the sector's active sources
+ * 3. Reports served fragments without a vector (missing) and vectors
+ *    without a served fragment (orphans): deleted, excluded or superseded
+ *    ones
+ * 4. Unless dry run: re-embeds the missing fragments and deletes the
+ *    orphan vectors
+ *
+ * Vectors are listed before fragments: fragments are always saved before
+ * their vectors, so a vector written during the run never looks orphaned.
+ * Sources being processed are skipped, since their vectors are in flux.
+ * A sector that fails is reported with its error; the others still run.
+ */
+@Injectable()
+export class ReconcileVectorStoreUseCase {
+  private readonly logger = new Logger(ReconcileVectorStoreUseCase.name);
+  private repairing = false;
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IVectorStore')
+    private readonly vectorStore: IVectorStore,
+    private readonly ingestionPipeline: IngestionPipelineService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+  ) {}
+
+  /**
+   * Compares fragments with vectors and repairs the drift
+   *
+   * @param dto - Dry-run flag and optional sector
+   * @returns The drift found per sector, and what was repaired
+   * @throws {Error} If the sector ID is invalid or a repair run is already
+   *   in progress
+   */
+  async execute(
+    dto: ReconcileVectorStoreDto,
+  ): Promise<VectorReconciliationReport> {
+    if (dto.sectorId !== undefined && !isValidUUID(dto.sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+    if (dto.dryRun) {
+      return this.run(dto);
+    }
+
+    if (this.repairing) {
+      throw new Error('A vector store reconciliation is already running');
+    }
+    this.repairing = true;
+    try {
+      return await this.run(dto);
+    } finally {
+      this.repairing = false;
+    }
+  }
+
+  private async run(
+    dto: ReconcileVectorStoreDto,
+  ): Promise<VectorReconciliationReport> {
+    const startedAt = new Date();
+    const sectorIds = dto.sectorId
+      ? [dto.sectorId]
+      : await this.findSectorIds();
+
+    const sectors: SectorReconciliationReport[] = [];
+    for (const sectorId of sectorIds) {
+      sectors.push(await this.reconcileSector(sectorId, dto.dryRun));
+    }
+
+    const report: VectorReconciliationReport = {
+      dryRun: dto.dryRun,
+      startedAt,
+      completedAt: new Date(),
+      missingVectorCount: sum(sectors.map((s) => s.missingVectorCount)),
+      orphanVectorCount: sum(sectors.map((s) => s.orphanVectorCount)),
+      sectors,
+    };
+
+    this.logger.log(
+      `Vector reconciliation${dto.dryRun ? ' (dry run)' : ''}: ${sectors.length} sectors, ` +
+        `${report.missingVectorCount} missing vectors, ${report.orphanVectorCount} orphan vectors`,
+    );
+    return report;
+  }
+
+  /**
+   * Sectors with sources, plus sectors whose namespaces are left with
+   * vectors only
+   */
+  private async findSectorIds(): Promise<string[]> {
+    const [withSources, namespaces] = await Promise.all([
+      this.repository.findSectorIdsWithSources(),
+      this.vectorStore.listNamespaces(),
+    ]);
+    return [
+      ...new Set([
+        ...withSources,
+        ...namespaces.map((namespace) => EmbeddingIndex.sectorIdOf(namespace)),
+      ]),
+    ].sort((a, b) => a.localeCompare(b));
+  }
+
+  private async reconcileSector(
+    sectorId: string,
+    dryRun: boolean,
+  ): Promise<SectorReconciliationReport> {
+    const report: SectorReconciliationReport = {
+      sectorId,
+      fragmentCount: 0,
+      vectorCount: 0,
+      missingVectorCount: 0,
+      orphanVectorCount: 0,
+      missingVectorIds: [],
+      orphanVectorIds: [],
+      vectorsRestored: 0,
+      vectorsDeleted: 0,
+    };
+
+    try {
+      const [activeIndex] =
+        await this.embeddingIndexService.getWriteIndexes(sectorId);
+
+      // Vectors first — see the class comment
+      const vectorIds = await this.vectorStore.listVectorIds(
+        activeIndex.namespace,
+      );
+      const entries = await this.repository.findFragmentIndexEntries(sectorId);
+
+      const keptIds = new Set(
+        entries
+          .filter((entry) => entry.indexed || entry.processing)
+          .map((entry) => entry.id),
+      );
+      const storedVectorIds = new Set(vectorIds);
+      const missing = entries.filter(
+        (entry) =>
+          entry.indexed && !entry.processing && !storedVectorIds.has(entry.id),
+      );
+      const orphanIds = vectorIds.filter((id) => !keptIds.has(id));
+
+      report.fragmentCount = entries.length;
+      report.vectorCount = vectorIds.length;
+      report.missingVectorCount = missing.length;
+      report.orphanVectorCount = orphanIds.length;
+      report.missingVectorIds = missing
+        .slice(0, MAX_REPORTED_IDS)
+        .map((entry) => entry.id);
+      report.orphanVectorIds = orphanIds.slice(0, MAX_REPORTED_IDS);
+
+      if (!dryRun) {
+        report.vectorsRestored = await this.restoreVectors(
+          missing,
+          activeIndex,
+        );
+        await this.vectorStore.deleteByIds(orphanIds, activeIndex.namespace);
+        report.vectorsDeleted = orphanIds.length;
+      }
+    } catch (error: unknown) {
+      report.error = extractErrorMessage(error);
+      this.logger.error(
+        `Vector reconciliation failed for sector ${sectorId}: ${report.error}`,
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Re-embeds the given fragments into an index, source by source
+   * @returns Number of fragments re-embedded
+   */
+  private async restoreVectors(
+    missing: FragmentIndexEntry[],
+    index: EmbeddingIndex,
+  ): Promise<number> {
+    if (missing.length === 0) {
+      return 0;
+    }
+
+    const missingIds = new Set(missing.map((entry) => entry.id));
+    const sources = await this.repository.findSourcesByIds([
+      ...new Set(missing.map((entry) => entry.sourceId)),
+    ]);
+
+    let restored = 0;
+    for (const source of sources) {
+      const fragments = (
+        await this.repository.findFragmentsBySource(source.id!)
+      ).filter((fragment) => missingIds.has(fragment.id!));
+      await this.ingestionPipeline.indexFragments(source, fragments, [index]);
+      restored += fragments.length;
+    }
+    return restored;
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
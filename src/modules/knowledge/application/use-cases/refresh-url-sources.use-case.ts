@@ -0,0 +1,268 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IWebPageFetcher } from '@modules/knowledge/domain/services/web-page-fetcher.interface';
+import { DocumentParserService } from '@modules/knowledge/infrastructure/services/document-parser.service';
+import { IngestionPipelineService } from '@modules/knowledge/application/services/ingestion-pipeline.service';
+import { KnowledgeQuotaService } from '@modules/knowledge/application/services/knowledge-quota.service';
+import type {
+  KnowledgeSource,
+  SourceMetadata,
+} from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '@modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { KnowledgeSourceRefreshedEvent } from '@modules/knowledge/domain/events/knowledge.events';
+import { SourceType } from '@shared/types';
+import {
+  extractErrorMessage,
+  minHashSignature,
+  sha256Hex,
+} from '@shared/utils';
+import { CHARS_PER_TOKEN_ESTIMATE } from '@shared/constants';
+
+// Sources checked per repository query (OWASP: Magic Numbers)
+const DUE_BATCH_SIZE = 20;
+
+/**
+ * Outcome of a re-crawl run
+ */
+export interface RefreshUrlSourcesResult {
+  /** Sources that were due and re-fetched */
+  checked: number;
+  /** Sources whose content changed and were re-indexed */
+  changed: number;
+  /** Sources whose content was unchanged */
+  unchanged: number;
+  /** Sources that could not be fetched, parsed or re-indexed */
+  failed: number;
+}
+
+type RefreshOutcome = 'changed' | 'unchanged' | 'failed';
+
+/**
+ * Use Case: Refresh URL Sources
+ *
+ * Re-crawls URL sources whose `nextRefreshAt` is due:
+ * 1. Re-fetches the page and extracts its main content
+ * 2. Compares the SHA-256 of the content with the stored `contentHash`
+ * 3. Unchanged: only schedules the next check
+ * 4. Changed: rejects the new version when the sector's quota has no room
+ *    for the tokens it adds (see KnowledgeQuotaService), like an uploaded
+ *    version; the current version keeps being served and the page is
+ *    checked again at the next interval
+ * 5. Otherwise keeps the previous content as a KnowledgeSourceRevision,
+ *    replaces the content (a new version) and re-runs the ingestion
+ *    pipeline for this source only, which swaps out the old fragments and
+ *    vectors once the new ones are indexed, then emits
+ *    `knowledge.source.refreshed`
+ *
+ * A page that cannot be fetched keeps its current content and is retried
+ * at the next interval. So is a re-index that fails: the source is left
+ * FAILED while its previous version is still served, and stays due, so the
+ * next run indexes the page again even if it has not changed since.
+ * Sources are processed one at a time.
+ */
+@Injectable()
+export class RefreshUrlSourcesUseCase {
+  private readonly logger = new Logger(RefreshUrlSourcesUseCase.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IWebPageFetcher')
+    private readonly webPageFetcher: IWebPageFetcher,
+    private readonly parserService: DocumentParserService,
+    private readonly ingestionPipeline: IngestionPipelineService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly quotaService: KnowledgeQuotaService,
+  ) {}
+
+  /**
+   * Re-crawls every URL source that is due
+   *
+   * @param now - Reference time (default: now)
+   * @returns Counts of checked, changed, unchanged and failed sources
+   */
+  async execute(now: Date = new Date()): Promise<RefreshUrlSourcesResult> {
+    const result: RefreshUrlSourcesResult = {
+      checked: 0,
+      changed: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+
+    // Every processed source moves its nextRefreshAt past `now`,
+    // so each query returns the next batch until none are due
+    let due = await this.repository.findSourcesDueForRefresh(
+      now,
+      DUE_BATCH_SIZE,
+    );
+    while (due.length > 0) {
+      for (const source of due) {
+        const outcome = await this.refreshSource(source, now);
+        this.count(result, outcome);
+      }
+      due = await this.repository.findSourcesDueForRefresh(now, DUE_BATCH_SIZE);
+    }
+
+    if (result.checked > 0) {
+      this.logger.log(
+        `URL refresh run: ${result.checked} checked, ${result.changed} changed, ${result.unchanged} unchanged, ${result.failed} failed`,
+      );
+    }
+    return result;
+  }
+
+  private async refreshSource(
+    source: KnowledgeSource,
+    now: Date,
+  ): Promise<RefreshOutcome> {
+    const sourceId = source.id!;
+
+    let parsed: { content: string; metadata: Record<string, unknown> };
+    let fetchedAt: Date;
+    try {
+      const page = await this.webPageFetcher.fetch(this.resolveUrl(source));
+      fetchedAt = page.fetchedAt;
+      parsed = await this.parserService.parse(
+        Buffer.from(page.html, 'utf-8'),
+        SourceType.URL,
+        { pageUrl: page.url },
+      );
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Re-crawl of source ${sourceId} failed: ${extractErrorMessage(error)}`,
+      );
+      source.recordRefreshCheck(now);
+      await this.repository.saveSource(source);
+      return 'failed';
+    }
+
+    const contentHash = sha256Hex(parsed.content);
+    const previousHash = source.contentHash ?? sha256Hex(source.content);
+    if (contentHash === previousHash) {
+      source.recordRefreshCheck(now);
+      await this.repository.saveSource(source);
+      if (!source.hasFailed()) {
+        return 'unchanged';
+      }
+
+      this.logger.log(`Retrying the failed re-index of source ${sourceId}`);
+      const revision = await this.repository.findRevisionBySourceAndVersion(
+        sourceId,
+        source.version - 1,
+      );
+      return this.reindex(sourceId, revision?.id);
+    }
+
+    try {
+      await this.quotaService.assertVersionCapacity(
+        source.sectorId,
+        Math.ceil(parsed.content.length / CHARS_PER_TOKEN_ESTIMATE) -
+          Math.ceil(source.content.length / CHARS_PER_TOKEN_ESTIMATE),
+      );
+    } catch (error: unknown) {
+      this.logger.warn(
+        `New version of source ${sourceId} rejected: ${extractErrorMessage(error)}`,
+      );
+      source.recordRefreshCheck(now);
+      await this.repository.saveSource(source);
+      return 'failed';
+    }
+
+    this.logger.log(`Content of source ${sourceId} changed, re-indexing`);
+
+    const revision = await this.repository.saveRevision(
+      new KnowledgeSourceRevision({
+        sourceId,
+        version: source.version,
+        content: source.content,
+        contentHash: previousHash,
+        fetchedAt: this.previousFetchedAt(source),
+      }),
+    );
+
+    source.replaceContent(
+      parsed.content,
+      contentHash,
+      minHashSignature(parsed.content),
+    );
+    source.updateMetadata({
+      ...parsed.metadata,
+      fetchedAt: fetchedAt.toISOString(),
+    } as SourceMetadata);
+    source.recordRefreshCheck(now);
+    await this.repository.saveSource(source);
+
+    return this.reindex(sourceId, revision.id);
+  }
+
+  /**
+   * Runs the ingestion pipeline for the new version of a source, and emits
+   * `knowledge.source.refreshed` once it is indexed
+   * @param revisionId - The revision holding the version it replaces
+   */
+  private async reindex(
+    sourceId: string,
+    revisionId: string | undefined,
+  ): Promise<RefreshOutcome> {
+    await this.ingestionPipeline.processSource(sourceId);
+
+    const reindexed = await this.repository.findSourceById(sourceId);
+    if (!reindexed?.isCompleted()) {
+      this.logger.warn(
+        `Re-indexing of source ${sourceId} did not complete: ${reindexed?.errorMessage ?? 'source not found'}`,
+      );
+      return 'failed';
+    }
+
+    if (revisionId) {
+      const fragmentCount =
+        await this.repository.countFragmentsBySource(sourceId);
+      this.eventEmitter.emit(
+        'knowledge.source.refreshed',
+        new KnowledgeSourceRefreshedEvent(
+          sourceId,
+          reindexed.sectorId,
+          reindexed.title,
+          revisionId,
+          fragmentCount,
+          new Date(),
+        ),
+      );
+    }
+    return 'changed';
+  }
+
+  private count(
+    result: RefreshUrlSourcesResult,
+    outcome: RefreshOutcome,
+  ): void {
+    result.checked++;
+    switch (outcome) {
+      case 'changed':
+        result.changed++;
+        break;
+      case 'unchanged':
+        result.unchanged++;
+        break;
+      default:
+        result.failed++;
+    }
+  }
+
+  /**
+   * The URL the source was registered with, falling back to its canonical URL
+   */
+  private resolveUrl(source: KnowledgeSource): string {
+    const url = source.metadata?.sourceUrl ?? source.metadata?.canonicalUrl;
+    if (typeof url !== 'string' || url.length === 0) {
+      throw new Error('Source has no URL in its metadata');
+    }
+    return url;
+  }
+
+  private previousFetchedAt(source: KnowledgeSource): Date | undefined {
+    const fetchedAt = source.metadata?.fetchedAt;
+    return typeof fetchedAt === 'string' ? new Date(fetchedAt) : undefined;
+  }
+}
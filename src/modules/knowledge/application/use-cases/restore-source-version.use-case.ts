@@ -0,0 +1,75 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IngestSourceVersionUseCase } from '@modules/knowledge/application/use-cases/ingest-source-version.use-case';
+import type {
+  RestoreSourceVersionDto,
+  SourceVersionResult,
+} from '@modules/knowledge/application/dtos/source-version.dto';
+import { requireNonEmpty } from '@shared/validators';
+
+/**
+ * Use Case: Restore Source Version
+ *
+ * Restores the content of a superseded version by publishing it as a new
+ * version (history is never rewritten): the current content is kept as a
+ * revision and the restored content is indexed in the background, like an
+ * uploaded version.
+ *
+ * @example
+ * ```typescript
+ * // Source at version 3; version 2 was the good one
+ * const result = await restoreSourceVersionUseCase.execute({
+ *   sourceId: 'source-uuid-123',
+ *   version: 2,
+ * });
+ * // result.version === 4, with the content of version 2
+ * ```
+ */
+@Injectable()
+export class RestoreSourceVersionUseCase {
+  private readonly logger = new Logger(RestoreSourceVersionUseCase.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    private readonly ingestSourceVersion: IngestSourceVersionUseCase,
+  ) {}
+
+  /**
+   * Publishes the content of a previous version as the next version
+   *
+   * @param dto - Source ID and the version to restore
+   * @returns The new version number and PENDING status
+   * @throws {Error} If the source or version is not found, the version is
+   *   the current one, or the content cannot be replaced
+   */
+  async execute(dto: RestoreSourceVersionDto): Promise<SourceVersionResult> {
+    requireNonEmpty(dto.sourceId, 'SourceId');
+    if (!Number.isInteger(dto.version) || dto.version < 1) {
+      throw new Error('Version must be a positive integer');
+    }
+
+    const source = await this.repository.findSourceById(dto.sourceId);
+    if (!source) {
+      throw new Error(`Knowledge source not found: ${dto.sourceId}`);
+    }
+    if (dto.version === source.version) {
+      throw new Error(`Version ${dto.version} is already the current version`);
+    }
+
+    const revision = await this.repository.findRevisionBySourceAndVersion(
+      dto.sourceId,
+      dto.version,
+    );
+    if (!revision) {
+      throw new Error(
+        `Version ${dto.version} not found for knowledge source ${dto.sourceId}`,
+      );
+    }
+
+    this.logger.log(
+      `Restoring version ${dto.version} of source ${dto.sourceId}`,
+    );
+    return this.ingestSourceVersion.publishVersion(source, revision.content);
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IEmbeddingIndexRepository } from '@modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import { EmbeddingReindexService } from '@modules/knowledge/application/services/embedding-reindex.service';
+import { isValidUUID } from '@shared/validators';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * Use Case: Roll Back Embedding Index
+ *
+ * Undoes the latest re-index of a sector:
+ * - While a build runs: cancels it and clears its namespace. The sector
+ *   never stopped reading from its active index.
+ * - Otherwise: re-embeds into the sector's latest retired index the
+ *   fragments added or changed since it was retired (deletions already
+ *   reached it, see EmbeddingIndexService), then switches the sector's
+ *   reads back to it. If the catch-up fails, the sector keeps reading from
+ *   its active index.
+ *
+ * @example
+ * ```typescript
+ * const index = await rollbackEmbeddingIndexUseCase.execute('sector-uuid-456');
+ * ```
+ */
+@Injectable()
+export class RollbackEmbeddingIndexUseCase {
+  private readonly logger = new Logger(RollbackEmbeddingIndexUseCase.name);
+
+  constructor(
+    @Inject('IEmbeddingIndexRepository')
+    private readonly indexRepository: IEmbeddingIndexRepository,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+    private readonly reindexService: EmbeddingReindexService,
+  ) {}
+
+  /**
+   * Executes the rollback
+   *
+   * @param sectorId - The sector ID
+   * @returns The cancelled build, or the index now serving the sector
+   * @throws {Error} If validation fails, there is nothing to roll back, or
+   *   the retired index cannot be caught up
+   */
+  async execute(sectorId: string): Promise<EmbeddingIndex> {
+    if (!isValidUUID(sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    const indexes = await this.indexRepository.findBySector(sectorId);
+    const building = indexes.find((index) => index.isBuilding());
+    if (building) {
+      return this.cancelBuild(building);
+    }
+
+    const active = indexes.find((index) => index.isActive());
+    const retired = EmbeddingIndex.lastRetired(indexes);
+    if (!active || !retired) {
+      throw new Error('No embedding index to roll back to');
+    }
+
+    // Serving a stale index would answer from outdated fragments
+    try {
+      await this.reindexService.syncIndex(retired, retired.retiredAt);
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      this.logger.error(
+        `Failed to catch up ${retired.namespace}, rollback aborted: ${errorMessage}`,
+      );
+      throw new Error(`Failed to catch up the retired index: ${errorMessage}`);
+    }
+    return this.embeddingIndexService.switchTo(retired, active);
+  }
+
+  private async cancelBuild(index: EmbeddingIndex): Promise<EmbeddingIndex> {
+    index.cancel();
+    const cancelled = await this.indexRepository.save(index);
+    this.logger.log(`Cancelled the build of ${cancelled.namespace}`);
+    await this.reindexService.clearIndex(cancelled);
+    return cancelled;
+  }
+}
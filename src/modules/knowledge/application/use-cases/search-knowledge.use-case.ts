@@ -0,0 +1,141 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type {
+  SearchKnowledgeDto,
+  SearchKnowledgeResult,
+} from '@modules/knowledge/application/dtos/search-knowledge.dto';
+import { UserRepository } from '@modules/users/infrastructure/persistence/repositories/user.repository';
+import { PermissionService } from '@modules/auth/application/services/permission.service';
+import { isValidUUID } from '@shared/validators';
+
+// Constants (OWASP: Magic Numbers)
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_OFFSET = 1000;
+
+/** Permission granting search over every sector */
+const ALL_SECTORS_PERMISSION = 'system:admin';
+
+/**
+ * Use Case: Search Knowledge
+ *
+ * Full-text search over the content of the served fragments, for people
+ * looking for where something is written (the assistant answers questions;
+ * this finds passages):
+ * 1. Validates input
+ * 2. Resolves the sectors the user may search: admins (system:admin) search
+ *    every sector, other users the sectors they are assigned to
+ * 3. Searches the fragments, returning highlighted snippets with their
+ *    source title, position and sector
+ *
+ * @example
+ * ```typescript
+ * const result = await searchKnowledgeUseCase.execute({
+ *   query: 'remote work allowance',
+ *   userId: 'user-uuid-123',
+ * });
+ * ```
+ */
+@Injectable()
+export class SearchKnowledgeUseCase {
+  private readonly logger = new Logger(SearchKnowledgeUseCase.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    private readonly userRepository: UserRepository,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  /**
+   * Executes the search
+   *
+   * @param dto - Search text, user, optional sector and page
+   * @returns A page of matching fragments, best first
+   * @throws {Error} If validation fails or the user cannot access the sector
+   */
+  async execute(dto: SearchKnowledgeDto): Promise<SearchKnowledgeResult> {
+    const query = dto.query?.trim() ?? '';
+    const limit = dto.limit ?? DEFAULT_LIMIT;
+    const offset = dto.offset ?? 0;
+    this.validateInput(dto, query, limit, offset);
+
+    const sectorIds = await this.resolveSectorIds(dto.userId, dto.sectorId);
+
+    // One extra row tells whether another page follows
+    const hits = await this.repository.searchFragmentContent(query, {
+      sectorIds,
+      limit: limit + 1,
+      offset,
+    });
+
+    this.logger.log(
+      `Knowledge search by user ${dto.userId}: ${Math.min(hits.length, limit)} results`,
+    );
+
+    return {
+      query,
+      results: hits.slice(0, limit),
+      limit,
+      offset,
+      hasMore: hits.length > limit,
+    };
+  }
+
+  /**
+   * Sectors the search is limited to (undefined: every sector)
+   *
+   * @throws {Error} If the user cannot access the requested sector
+   */
+  private async resolveSectorIds(
+    userId: string,
+    sectorId?: string,
+  ): Promise<string[] | undefined> {
+    if (
+      await this.permissionService.hasPermission(userId, ALL_SECTORS_PERMISSION)
+    ) {
+      return sectorId ? [sectorId] : undefined;
+    }
+
+    const userSectorIds = await this.userRepository.findSectorIds(userId);
+    if (!sectorId) {
+      return userSectorIds;
+    }
+    if (!userSectorIds.includes(sectorId)) {
+      throw new Error(`Access denied to sector ${sectorId}`);
+    }
+    return [sectorId];
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * @throws {Error} If validation fails
+   */
+  private validateInput(
+    dto: SearchKnowledgeDto,
+    query: string,
+    limit: number,
+    offset: number,
+  ): void {
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      throw new Error(
+        `Query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+      );
+    }
+
+    if (dto.sectorId !== undefined && !isValidUUID(dto.sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    if (!Number.isInteger(offset) || offset < 0 || offset > MAX_OFFSET) {
+      throw new Error(`Offset must be between 0 and ${MAX_OFFSET}`);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { FragmentCurationService } from '@modules/knowledge/application/services/fragment-curation.service';
+import type {
+  SplitFragmentDto,
+  FragmentCurationResult,
+} from '@modules/knowledge/application/dtos/fragment-curation.dto';
+import { isValidUUID } from '@shared/validators';
+
+/**
+ * Use Case: Split Fragment
+ *
+ * Cuts a fragment in two, e.g. when a chunk runs two unrelated sections
+ * together:
+ * 1. Validates input and finds the fragment among those served for the
+ *    source
+ * 2. Keeps the text before the offset in the fragment and moves the rest
+ *    to a new fragment at the next position
+ * 3. Shifts the following fragments one position down
+ * 4. Saves everything in one transaction, then embeds the two parts
+ *
+ * @example
+ * ```typescript
+ * const result = await splitFragmentUseCase.execute({
+ *   sourceId: 'source-uuid-123',
+ *   fragmentId: 'fragment-uuid-456',
+ *   splitAt: 480,
+ * });
+ * // result.fragments: the two parts, by position
+ * ```
+ */
+@Injectable()
+export class SplitFragmentUseCase {
+  constructor(private readonly curation: FragmentCurationService) {}
+
+  /**
+   * Executes the split
+   *
+   * @param dto - Fragment and the character offset of the cut
+   * @returns The two parts and whether their vectors were updated
+   * @throws {Error} If validation fails, the fragment is not found, the
+   *   source is not indexed or a part would be too short
+   */
+  async execute(dto: SplitFragmentDto): Promise<FragmentCurationResult> {
+    // Step 1: Validate input and find the fragment
+    this.validateInput(dto);
+
+    const served = await this.curation.loadServedFragments(dto.sourceId);
+    const [fragment] = this.curation.findFragments(served, [dto.fragmentId]);
+
+    // Step 2: Cut the fragment
+    const rest = fragment.splitAt(dto.splitAt);
+
+    // Step 3: Make room for the new fragment
+    const moved = served.fragments.filter(
+      (other) => other.position > fragment.position,
+    );
+    for (const other of moved) {
+      other.position += 1;
+    }
+
+    // Step 4: Save and embed the two parts
+    return this.curation.applyChanges(served.source, {
+      edited: [fragment, rest],
+      moved,
+    });
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * @param dto - Split request to validate
+   * @throws {Error} If validation fails
+   */
+  private validateInput(dto: SplitFragmentDto): void {
+    if (!isValidUUID(dto.sourceId)) {
+      throw new Error('SourceId must be a valid UUID');
+    }
+
+    if (!isValidUUID(dto.fragmentId)) {
+      throw new Error('FragmentId must be a valid UUID');
+    }
+
+    if (!Number.isInteger(dto.splitAt) || dto.splitAt < 1) {
+      throw new Error('Split offset must be a positive integer');
+    }
+  }
+}
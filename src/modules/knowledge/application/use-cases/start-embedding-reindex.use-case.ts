@@ -0,0 +1,138 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IEmbeddingIndexRepository } from '@modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import type { IIngestionTaskDispatcher } from '@modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+import {
+  EmbeddingIndex,
+  type EmbeddingProfile,
+} from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingService } from '@modules/knowledge/infrastructure/services/embedding.service';
+import type { StartEmbeddingReindexDto } from '@modules/knowledge/application/dtos/embedding-index.dto';
+import { isValidUUID } from '@shared/validators';
+import { extractErrorMessage } from '@shared/utils';
+
+const REINDEX_RUNNING_ERROR =
+  'An embedding re-index is already running for this sector';
+const INDEX_CONFLICT_ERROR_PREFIX = 'Embedding index conflict';
+
+/**
+ * Use Case: Start Embedding Re-index
+ *
+ * Re-embeds a sector into a new namespace, in the background:
+ * 1. Validates input and the requested embedding profile
+ * 2. Rejects the request if the sector already has a build running. Two
+ *    concurrent requests can both pass this check: the database allows one
+ *    BUILDING index per sector, and the request losing the race is
+ *    rejected the same way
+ * 3. Stores the sector's initial index on its first re-index, so it can be
+ *    retired and rolled back to
+ * 4. Creates the next generation of index (BUILDING) and dispatches its
+ *    first batch (see EmbeddingReindexService)
+ *
+ * The sector keeps reading from its active index until the build switches
+ * it. On Pinecone, every namespace of the index shares its dimension: a
+ * build with another dimension fails, and needs a store that supports it
+ * (pgvector).
+ *
+ * @example
+ * ```typescript
+ * const index = await startEmbeddingReindexUseCase.execute({
+ *   sectorId: 'sector-uuid-456',
+ *   dimensions: 1536,
+ * });
+ * ```
+ */
+@Injectable()
+export class StartEmbeddingReindexUseCase {
+  private readonly logger = new Logger(StartEmbeddingReindexUseCase.name);
+
+  constructor(
+    @Inject('IEmbeddingIndexRepository')
+    private readonly indexRepository: IEmbeddingIndexRepository,
+    @Inject('IIngestionTaskDispatcher')
+    private readonly taskDispatcher: IIngestionTaskDispatcher,
+    private readonly embeddingService: EmbeddingService,
+  ) {}
+
+  /**
+   * Executes the re-index request
+   *
+   * @param dto - Sector and embedding profile of the new index
+   * @returns The index being built
+   * @throws {Error} If validation fails or a re-index is already running
+   */
+  async execute(dto: StartEmbeddingReindexDto): Promise<EmbeddingIndex> {
+    // Step 1: Validate input and the profile
+    const profile = this.validateInput(dto);
+
+    // Step 2: One build per sector
+    const indexes = await this.indexRepository.findBySector(dto.sectorId);
+    if (indexes.some((index) => index.isBuilding())) {
+      throw new Error(REINDEX_RUNNING_ERROR);
+    }
+
+    // Steps 3-4: Store the initial index and the next generation
+    const index = await this.createBuild(dto.sectorId, indexes, profile);
+
+    // Dispatch the build
+    try {
+      await this.taskDispatcher.dispatchReindex({ indexId: index.id! });
+    } catch (error: unknown) {
+      // A build never dispatched would block the next re-index
+      index.markAsFailed(extractErrorMessage(error));
+      await this.indexRepository.save(index);
+      throw error;
+    }
+
+    this.logger.log(
+      `Re-indexing sector ${dto.sectorId} into ${index.namespace} ` +
+        `(${profile.model}, ${profile.dimensions} dimensions)`,
+    );
+    return index;
+  }
+
+  /**
+   * Stores the initial index on the first re-index, then the next
+   * generation of index (BUILDING)
+   * @throws {Error} If a concurrent request started a build first
+   */
+  private async createBuild(
+    sectorId: string,
+    indexes: EmbeddingIndex[],
+    profile: EmbeddingProfile,
+  ): Promise<EmbeddingIndex> {
+    try {
+      const active =
+        indexes.find((index) => index.isActive()) ??
+        (await this.indexRepository.save(
+          EmbeddingIndex.initial(sectorId, this.embeddingService.getProfile()),
+        ));
+
+      const generation = Math.max(
+        active.generation,
+        ...indexes.map((index) => index.generation),
+      );
+      return await this.indexRepository.save(
+        EmbeddingIndex.build(active, generation + 1, profile),
+      );
+    } catch (error: unknown) {
+      if (extractErrorMessage(error).startsWith(INDEX_CONFLICT_ERROR_PREFIX)) {
+        throw new Error(REINDEX_RUNNING_ERROR);
+      }
+      throw error;
+    }
+  }
+
+  private validateInput(dto: StartEmbeddingReindexDto): EmbeddingProfile {
+    if (!isValidUUID(dto.sectorId)) {
+      throw new Error('sectorId must be a valid UUID');
+    }
+
+    const configured = this.embeddingService.getProfile();
+    const profile: EmbeddingProfile = {
+      model: dto.model?.trim() ?? configured.model,
+      dimensions: dto.dimensions ?? configured.dimensions,
+    };
+    this.embeddingService.validateProfile(profile);
+    return profile;
+  }
+}
@@ -0,0 +1,166 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type { IKnowledgeRepository } from '@modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IVectorStore } from '@modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '@modules/knowledge/application/services/embedding-index.service';
+import type { KnowledgeSource } from '@modules/knowledge/domain/entities/knowledge-source.entity';
+import type {
+  TagSourcesDto,
+  TagSourcesResult,
+} from '@modules/knowledge/application/dtos/tag-sources.dto';
+import { isValidUUID } from '@shared/validators';
+import { extractErrorMessage } from '@shared/utils';
+
+// Sources changed per request (OWASP: Magic Numbers)
+const MAX_SOURCES_PER_REQUEST = 100;
+
+/**
+ * Use Case: Tag Knowledge Sources
+ *
+ * Sets the tags and category of one or more knowledge sources:
+ * 1. Validates input and finds the sources (all must exist)
+ * 2. Applies the changes to every source, so a tag or category that fails
+ *    validation changes nothing
+ * 3. Saves the sources in one transaction
+ * 4. Writes the new tags to the vectors of the retagged sources, in every
+ *    namespace of their sector (see EmbeddingIndexService)
+ *
+ * Vectors carry the tags for scoped retrieval. Their update is best-effort:
+ * the sources are saved either way, and the next re-index writes the tags.
+ *
+ * @example
+ * ```typescript
+ * const result = await tagSourcesUseCase.execute({
+ *   sourceIds: ['source-uuid-123'],
+ *   addTags: ['onboarding'],
+ *   category: 'Policies',
+ * });
+ * ```
+ */
+@Injectable()
+export class TagSourcesUseCase {
+  private readonly logger = new Logger(TagSourcesUseCase.name);
+
+  constructor(
+    @Inject('IKnowledgeRepository')
+    private readonly repository: IKnowledgeRepository,
+    @Inject('IVectorStore')
+    private readonly vectorStore: IVectorStore,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+  ) {}
+
+  /**
+   * Executes the tagging request
+   *
+   * @param dto - Sources and the tag and category changes
+   * @returns The resulting tags and category of each source
+   * @throws {Error} If validation fails or a source is not found
+   */
+  async execute(dto: TagSourcesDto): Promise<TagSourcesResult> {
+    // Step 1: Validate input and find the sources
+    this.validateInput(dto);
+
+    const sourceIds = [...new Set(dto.sourceIds)];
+    const sources = await this.repository.findSourcesByIds(sourceIds);
+    const found = new Set(sources.map((source) => source.id));
+    const missing = sourceIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Knowledge source not found: ${missing.join(', ')}`);
+    }
+
+    // Step 2: Apply the changes before saving anything
+    const retagged = sources.filter((source) => this.applyChanges(source, dto));
+
+    // Step 3: Save the sources
+    await this.repository.saveSources(sources);
+
+    // Step 4: Write the tags to the vectors (best-effort)
+    let vectorsUpdated = true;
+    for (const source of retagged) {
+      try {
+        const namespaces = await this.embeddingIndexService.getVectorNamespaces(
+          source.sectorId,
+        );
+        for (const namespace of namespaces) {
+          await this.vectorStore.updateMetadataBySourceId(
+            source.id!,
+            namespace,
+            { tags: source.tags },
+          );
+        }
+      } catch (error: unknown) {
+        vectorsUpdated = false;
+        this.logger.warn(
+          `Failed to update vector tags for source ${source.id}: ${extractErrorMessage(error)}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Tagged ${sources.length} sources (${retagged.length} retagged, vectors: ${vectorsUpdated ? 'updated' : 'failed'})`,
+    );
+
+    return {
+      sources: sources.map((source) => ({
+        sourceId: source.id!,
+        tags: source.tags,
+        category: source.category ?? null,
+      })),
+      vectorsUpdated,
+    };
+  }
+
+  /**
+   * Applies the requested changes to a source
+   * @returns Whether the tags of the source changed
+   */
+  private applyChanges(source: KnowledgeSource, dto: TagSourcesDto): boolean {
+    const previousTags = source.tags.join('\n');
+
+    if (dto.tags) {
+      source.setTags(dto.tags);
+    }
+    if (dto.addTags) {
+      source.addTags(dto.addTags);
+    }
+    if (dto.removeTags) {
+      source.removeTags(dto.removeTags);
+    }
+    if (dto.category !== undefined) {
+      source.setCategory(dto.category ?? undefined);
+    }
+
+    return source.tags.join('\n') !== previousTags;
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * @param dto - Tagging request to validate
+   * @throws {Error} If validation fails
+   */
+  private validateInput(dto: TagSourcesDto): void {
+    if (!dto.sourceIds || dto.sourceIds.length === 0) {
+      throw new Error('SourceIds cannot be empty');
+    }
+
+    if (dto.sourceIds.length > MAX_SOURCES_PER_REQUEST) {
+      throw new Error(
+        `Cannot tag more than ${MAX_SOURCES_PER_REQUEST} sources at once`,
+      );
+    }
+
+    const invalid = dto.sourceIds.find((id) => !isValidUUID(id));
+    if (invalid !== undefined) {
+      throw new Error(`SourceId must be a valid UUID: ${invalid}`);
+    }
+
+    if (
+      !dto.tags &&
+      !dto.addTags &&
+      !dto.removeTags &&
+      dto.category === undefined
+    ) {
+      throw new Error('No tag or category change requested');
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { FragmentCurationService } from '@modules/knowledge/application/services/fragment-curation.service';
+import type {
+  UpdateFragmentDto,
+  FragmentCurationResult,
+} from '@modules/knowledge/application/dtos/fragment-curation.dto';
+import { isValidUUID } from '@shared/validators';
+
+/**
+ * Use Case: Update Fragment
+ *
+ * Lets a curator fix a fragment the parser garbled, or exclude it from
+ * retrieval:
+ * 1. Validates input and finds the fragment among those served for the
+ *    source
+ * 2. Applies the corrected content and/or the exclusion
+ * 3. Saves the fragment, then re-embeds it, or deletes its vector when it
+ *    is excluded
+ *
+ * The correction lasts until the next version of the source is indexed,
+ * which cuts new fragments from the source content.
+ *
+ * @example
+ * ```typescript
+ * const result = await updateFragmentUseCase.execute({
+ *   sourceId: 'source-uuid-123',
+ *   fragmentId: 'fragment-uuid-456',
+ *   content: '| Plan | Monthly allowance |\n| --- | --- |\n| Remote | 30 EUR |',
+ * });
+ * ```
+ */
+@Injectable()
+export class UpdateFragmentUseCase {
+  constructor(private readonly curation: FragmentCurationService) {}
+
+  /**
+   * Executes the fragment update
+   *
+   * @param dto - Fragment and the changes to apply
+   * @returns The updated fragment and whether its vector was updated
+   * @throws {Error} If validation fails, the fragment is not found or the
+   *   source is not indexed
+   */
+  async execute(dto: UpdateFragmentDto): Promise<FragmentCurationResult> {
+    // Step 1: Validate input and find the fragment
+    this.validateInput(dto);
+
+    const served = await this.curation.loadServedFragments(dto.sourceId);
+    const [fragment] = this.curation.findFragments(served, [dto.fragmentId]);
+
+    // Step 2: Apply the changes
+    if (dto.content !== undefined) {
+      fragment.editContent(dto.content);
+    }
+    if (dto.excluded !== undefined) {
+      fragment.setExcluded(dto.excluded);
+    }
+
+    // Step 3: Save the fragment and update its vector
+    return this.curation.applyChanges(served.source, { edited: [fragment] });
+  }
+
+  /**
+   * Validates the input DTO
+   *
+   * @param dto - Update request to validate
+   * @throws {Error} If validation fails
+   */
+  private validateInput(dto: UpdateFragmentDto): void {
+    if (!isValidUUID(dto.sourceId)) {
+      throw new Error('SourceId must be a valid UUID');
+    }
+
+    if (!isValidUUID(dto.fragmentId)) {
+      throw new Error('FragmentId must be a valid UUID');
+    }
+
+    if (dto.content === undefined && dto.excluded === undefined) {
+      throw new Error('No content or exclusion change requested');
+    }
+  }
+}
@@ -0,0 +1,340 @@
+import { requireNonEmpty } from '@shared/validators';
+
+/**
+ * Embedding model and output dimension that produced a set of vectors.
+ * Vectors of different profiles cannot be compared.
+ */
+export interface EmbeddingProfile {
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Lifecycle of a sector's embedding index
+ */
+export enum EmbeddingIndexStatus {
+  /** Being filled by a re-index; receives writes but serves no reads */
+  BUILDING = 'BUILDING',
+  /** Serves the sector's reads (one per sector) */
+  ACTIVE = 'ACTIVE',
+  /** Superseded by a re-index; kept as the rollback target */
+  RETIRED = 'RETIRED',
+  /** The re-index failed; the read path was not switched */
+  FAILED = 'FAILED',
+  /** The re-index was rolled back before it completed */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Persistence data for hydrating an EmbeddingIndex from the database
+ */
+export interface EmbeddingIndexPersistenceData {
+  id: string;
+  sectorId: string;
+  generation: number;
+  namespace: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  status: EmbeddingIndexStatus;
+  totalFragments?: number;
+  processedFragments: number;
+  cursor?: string;
+  errorMessage?: string;
+  activatedAt?: Date;
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * EmbeddingIndex Entity
+ *
+ * The vectors of a sector's fragments, embedded with one profile and stored
+ * in one vector store namespace. A sector reads from its ACTIVE index; a
+ * re-index fills a BUILDING index in a new namespace, then swaps the two.
+ *
+ * Sectors indexed before re-indexing existed have no stored index: they
+ * read from the namespace named after the sector, with the configured
+ * profile (generation 1, see `initial`).
+ */
+export class EmbeddingIndex {
+  public id?: string;
+  public sectorId: string;
+  /** 1 for the sector's initial index, incremented by each re-index */
+  public generation: number;
+  /** Vector store namespace holding the vectors */
+  public namespace: string;
+  public embeddingModel: string;
+  public embeddingDimensions: number;
+  public status: EmbeddingIndexStatus;
+  /** BUILDING: served fragments to embed, counted when the build starts */
+  public totalFragments?: number;
+  /** BUILDING: fragments embedded so far */
+  public processedFragments: number;
+  /** BUILDING: ID of the last source embedded (sources go by ID) */
+  public cursor?: string;
+  public errorMessage?: string;
+  public activatedAt?: Date;
+  public retiredAt?: Date;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  private static readonly INITIAL_GENERATION = 1;
+  private static readonly MAX_PROGRESS = 100;
+
+  constructor(data: {
+    sectorId: string;
+    generation: number;
+    profile: EmbeddingProfile;
+    status: EmbeddingIndexStatus;
+  }) {
+    requireNonEmpty(data.sectorId, 'SectorId');
+    requireNonEmpty(data.profile.model, 'Embedding model');
+
+    if (!Number.isInteger(data.generation) || data.generation < 1) {
+      throw new Error('Generation must be a positive integer');
+    }
+    if (
+      !Number.isInteger(data.profile.dimensions) ||
+      data.profile.dimensions < 1
+    ) {
+      throw new Error('Embedding dimensions must be a positive integer');
+    }
+
+    this.sectorId = data.sectorId;
+    this.generation = data.generation;
+    this.namespace = EmbeddingIndex.namespaceFor(
+      data.sectorId,
+      data.generation,
+    );
+    this.embeddingModel = data.profile.model;
+    this.embeddingDimensions = data.profile.dimensions;
+    this.status = data.status;
+    this.processedFragments = 0;
+    this.createdAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * The index a sector reads from until its first re-index
+   * @param sectorId - The sector ID
+   * @param profile - The configured embedding profile
+   */
+  static initial(sectorId: string, profile: EmbeddingProfile): EmbeddingIndex {
+    return new EmbeddingIndex({
+      sectorId,
+      generation: EmbeddingIndex.INITIAL_GENERATION,
+      profile,
+      status: EmbeddingIndexStatus.ACTIVE,
+    });
+  }
+
+  /**
+   * Starts building the next index of a sector
+   * @param current - The sector's active index
+   * @param generation - Generation of the new index (above every existing one)
+   * @param profile - The embedding profile to build with
+   */
+  static build(
+    current: EmbeddingIndex,
+    generation: number,
+    profile: EmbeddingProfile,
+  ): EmbeddingIndex {
+    if (generation <= current.generation) {
+      throw new Error(
+        `Generation must be above the active index (${current.generation})`,
+      );
+    }
+    return new EmbeddingIndex({
+      sectorId: current.sectorId,
+      generation,
+      profile,
+      status: EmbeddingIndexStatus.BUILDING,
+    });
+  }
+
+  /**
+   * Namespace of a sector's index. The initial index keeps the sector ID,
+   * where vectors were stored before re-indexing existed.
+   */
+  static namespaceFor(sectorId: string, generation: number): string {
+    return generation === EmbeddingIndex.INITIAL_GENERATION
+      ? sectorId
+      : `${sectorId}--g${generation}`;
+  }
+
+  /**
+   * Sector of a namespace produced by `namespaceFor`
+   */
+  static sectorIdOf(namespace: string): string {
+    return namespace.split('--g')[0];
+  }
+
+  /**
+   * The index a rollback restores: the one retired last
+   * @param indexes - The indexes of a sector
+   */
+  static lastRetired(indexes: EmbeddingIndex[]): EmbeddingIndex | undefined {
+    return indexes
+      .filter((index) => index.isRetired())
+      .sort(
+        (a, b) => (b.retiredAt?.getTime() ?? 0) - (a.retiredAt?.getTime() ?? 0),
+      )[0];
+  }
+
+  /**
+   * Factory method to hydrate an index from persistence data.
+   * @param data - Persistence data including id and timestamps
+   * @returns Hydrated EmbeddingIndex entity
+   */
+  static fromPersistence(data: EmbeddingIndexPersistenceData): EmbeddingIndex {
+    const index = new EmbeddingIndex({
+      sectorId: data.sectorId,
+      generation: data.generation,
+      profile: {
+        model: data.embeddingModel,
+        dimensions: data.embeddingDimensions,
+      },
+      status: data.status,
+    });
+    index.id = data.id;
+    index.namespace = data.namespace;
+    index.totalFragments = data.totalFragments;
+    index.processedFragments = data.processedFragments;
+    index.cursor = data.cursor;
+    index.errorMessage = data.errorMessage;
+    index.activatedAt = data.activatedAt;
+    index.retiredAt = data.retiredAt;
+    index.createdAt = data.createdAt;
+    index.updatedAt = data.updatedAt;
+    return index;
+  }
+
+  // ==================== Build Progress ====================
+
+  /**
+   * Records the number of fragments the build has to embed
+   * @throws Error if the index is not being built
+   */
+  public startBuild(totalFragments: number): void {
+    this.ensureBuilding();
+    this.totalFragments = totalFragments;
+    this.processedFragments = 0;
+    this.cursor = undefined;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Records that the fragments of a source were embedded
+   * @param sourceId - The source embedded (the next batch starts after it)
+   * @param fragmentCount - Number of fragments embedded
+   * @throws Error if the index is not being built
+   */
+  public recordProgress(sourceId: string, fragmentCount: number): void {
+    this.ensureBuilding();
+    this.cursor = sourceId;
+    this.processedFragments += fragmentCount;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Build progress (0-100), undefined before the build starts.
+   * Fragments ingested during the build can take it past the count made at
+   * the start, so it is capped at 100.
+   */
+  public getProgress(): number | undefined {
+    if (this.totalFragments === undefined) {
+      return undefined;
+    }
+    if (this.totalFragments === 0) {
+      return EmbeddingIndex.MAX_PROGRESS;
+    }
+    return Math.min(
+      Math.floor(
+        (this.processedFragments / this.totalFragments) *
+          EmbeddingIndex.MAX_PROGRESS,
+      ),
+      EmbeddingIndex.MAX_PROGRESS,
+    );
+  }
+
+  // ==================== Status Management ====================
+
+  /**
+   * Makes the index serve the sector's reads
+   * @throws Error if the index is neither built nor retired
+   */
+  public activate(): void {
+    if (
+      this.status !== EmbeddingIndexStatus.BUILDING &&
+      this.status !== EmbeddingIndexStatus.RETIRED
+    ) {
+      throw new Error(`Cannot activate an index with status ${this.status}`);
+    }
+    this.status = EmbeddingIndexStatus.ACTIVE;
+    this.activatedAt = new Date();
+    this.retiredAt = undefined;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Stops serving reads, keeping the vectors for a rollback
+   * @throws Error if the index is not active
+   */
+  public retire(): void {
+    if (this.status !== EmbeddingIndexStatus.ACTIVE) {
+      throw new Error(`Cannot retire an index with status ${this.status}`);
+    }
+    this.status = EmbeddingIndexStatus.RETIRED;
+    this.retiredAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Marks the build as failed
+   * @throws Error if the index is not being built
+   */
+  public markAsFailed(errorMessage: string): void {
+    this.ensureBuilding();
+    this.status = EmbeddingIndexStatus.FAILED;
+    this.errorMessage = errorMessage;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Marks the build as rolled back
+   * @throws Error if the index is not being built
+   */
+  public cancel(): void {
+    this.ensureBuilding();
+    this.status = EmbeddingIndexStatus.CANCELLED;
+    this.updatedAt = new Date();
+  }
+
+  // ==================== Status Checks ====================
+
+  public isActive(): boolean {
+    return this.status === EmbeddingIndexStatus.ACTIVE;
+  }
+
+  public isBuilding(): boolean {
+    return this.status === EmbeddingIndexStatus.BUILDING;
+  }
+
+  public isRetired(): boolean {
+    return this.status === EmbeddingIndexStatus.RETIRED;
+  }
+
+  /**
+   * The embedding profile of the index's vectors
+   */
+  public getProfile(): EmbeddingProfile {
+    return { model: this.embeddingModel, dimensions: this.embeddingDimensions };
+  }
+
+  private ensureBuilding(): void {
+    if (!this.isBuilding()) {
+      throw new Error(`Index is not being built (status: ${this.status})`);
+    }
+  }
+}
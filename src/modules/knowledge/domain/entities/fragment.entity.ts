@@ -1,5 +1,7 @@
 import { type Metadata } from '@shared/types';
 import { CHARS_PER_TOKEN_ESTIMATE } from '@shared/constants';
+import { detectLanguage } from '@shared/utils';
+import type { EmbeddingProfile } from './embedding-index.entity';
 
 /**
  * Fragment metadata type
@@ -13,10 +15,15 @@ export type FragmentMetadata = Metadata;
 export interface FragmentPersistenceData {
   id: string;
   sourceId: string;
+  sourceVersion: number;
   content: string;
   position: number;
   tokenCount: number;
   metadata?: FragmentMetadata;
+  excluded?: boolean;
+  language?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,36 +42,58 @@ export interface FragmentPersistenceData {
  *
  * Note: Vector embeddings are managed externally by IVectorStore (Pinecone).
  * The fragment ID is used as the vector ID in the vector store.
+ * Fragments excluded by a curator have no vector and are left out of
+ * searches. The embedding model and dimension the fragment is embedded with
+ * for search are recorded with it.
+ * The language of the content is detected when the fragment is created or
+ * its content changes, so searches can target every language of a corpus.
  */
 export class Fragment {
   public id?: string;
   public sourceId: string;
+  /** Version of the source content the fragment was cut from */
+  public sourceVersion: number;
   public content: string;
   public position: number;
   public tokenCount: number;
   public metadata?: FragmentMetadata;
+  /** Whether a curator excluded the fragment from retrieval */
+  public excluded: boolean;
+  /** ISO 639-1 code of the content language (unset when not detected) */
+  public language?: string;
+  /** Embedding model of the fragment's vector (unset until embedded) */
+  public embeddingModel?: string;
+  /** Dimension of the fragment's vector (unset until embedded) */
+  public embeddingDimensions?: number;
   public createdAt: Date;
   public updatedAt: Date;
 
   // Content validation constants
   private static readonly MIN_CONTENT_LENGTH = 10;
+  private static readonly DEFAULT_SOURCE_VERSION = 1;
 
   constructor(data: {
     sourceId: string;
+    sourceVersion?: number;
     content: string;
     position: number;
     tokenCount?: number;
     metadata?: FragmentMetadata;
+    excluded?: boolean;
+    language?: string;
   }) {
     this.validate(data);
 
     this.sourceId = data.sourceId;
+    this.sourceVersion = data.sourceVersion ?? Fragment.DEFAULT_SOURCE_VERSION;
     this.content = data.content;
     this.position = data.position;
     this.tokenCount =
       data.tokenCount ??
       Math.ceil(data.content.length / CHARS_PER_TOKEN_ESTIMATE);
     this.metadata = data.metadata;
+    this.excluded = data.excluded ?? false;
+    this.language = data.language ?? detectLanguage(data.content);
     this.createdAt = new Date();
     this.updatedAt = new Date();
   }
@@ -78,12 +107,17 @@ export class Fragment {
   static fromPersistence(data: FragmentPersistenceData): Fragment {
     const fragment = new Fragment({
       sourceId: data.sourceId,
+      sourceVersion: data.sourceVersion,
       content: data.content,
       position: data.position,
       tokenCount: data.tokenCount,
       metadata: data.metadata,
+      excluded: data.excluded,
     });
     fragment.id = data.id;
+    fragment.language = data.language;
+    fragment.embeddingModel = data.embeddingModel;
+    fragment.embeddingDimensions = data.embeddingDimensions;
     fragment.createdAt = data.createdAt;
     fragment.updatedAt = data.updatedAt;
     return fragment;
@@ -143,6 +177,120 @@ export class Fragment {
     };
   }
 
+  /**
+   * Headings the fragment sits under (structured chunking)
+   * @returns The heading path, or undefined if none was recorded
+   */
+  public getHeadingPath(): string[] | undefined {
+    const headingPath = this.metadata?.headingPath;
+    return Array.isArray(headingPath) &&
+      headingPath.every((heading) => typeof heading === 'string')
+      ? headingPath
+      : undefined;
+  }
+
+  // ==================== Curation ====================
+
+  /**
+   * Replaces the content with a curator's correction. The offsets into the
+   * source content no longer apply and are dropped; the fragment is marked
+   * as edited and its language detected again.
+   * @param content - The corrected content
+   * @throws {Error} If the content is empty or too short
+   */
+  public editContent(content: string): void {
+    this.validate({
+      sourceId: this.sourceId,
+      content,
+      position: this.position,
+    });
+
+    this.content = content;
+    this.tokenCount = this.estimateTokenCount();
+    this.language = detectLanguage(content);
+    const metadata: FragmentMetadata = {
+      ...this.metadata,
+      tokens: this.tokenCount,
+      edited: true,
+    };
+    delete metadata.startIndex;
+    delete metadata.endIndex;
+    this.metadata = metadata;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Cuts the fragment in two at a character offset. This fragment keeps the
+   * text before the offset; the returned fragment (unsaved, at the next
+   * position) holds the rest, under the same headings and exclusion.
+   * @param offset - Character offset of the cut
+   * @returns The fragment holding the text after the offset
+   * @throws {Error} If the offset is outside the content or a part would be
+   *   too short
+   */
+  public splitAt(offset: number): Fragment {
+    if (
+      !Number.isInteger(offset) ||
+      offset <= 0 ||
+      offset >= this.content.length
+    ) {
+      throw new Error(
+        `Split offset must be between 1 and ${this.content.length - 1}`,
+      );
+    }
+
+    const headingPath = this.getHeadingPath();
+    const rest = new Fragment({
+      sourceId: this.sourceId,
+      sourceVersion: this.sourceVersion,
+      content: this.content.slice(offset).trim(),
+      position: this.position + 1,
+      metadata: headingPath && { headingPath },
+      excluded: this.excluded,
+    });
+    rest.embeddingModel = this.embeddingModel;
+    rest.embeddingDimensions = this.embeddingDimensions;
+    this.editContent(this.content.slice(0, offset).trim());
+    rest.editContent(rest.content);
+    return rest;
+  }
+
+  /**
+   * Appends the content of the fragments that follow this one, which are
+   * to be deleted. The merged fragment stays excluded only if all of them
+   * were.
+   * @param following - The next fragments, in order
+   */
+  public mergeWith(following: Fragment[]): void {
+    this.editContent(
+      [this.content, ...following.map((fragment) => fragment.content)].join(
+        '\n\n',
+      ),
+    );
+    this.excluded =
+      this.excluded && following.every((fragment) => fragment.excluded);
+  }
+
+  /**
+   * Excludes the fragment from retrieval, or includes it again
+   * @param excluded - Whether the fragment is excluded
+   */
+  public setExcluded(excluded: boolean): void {
+    this.excluded = excluded;
+    this.updatedAt = new Date();
+  }
+
+  // ==================== Embedding ====================
+
+  /**
+   * Records the embedding profile the fragment is embedded with for search
+   * @param profile - Embedding model and dimension
+   */
+  public recordEmbedding(profile: EmbeddingProfile): void {
+    this.embeddingModel = profile.model;
+    this.embeddingDimensions = profile.dimensions;
+  }
+
   // ==================== Business Rules ====================
 
   /**
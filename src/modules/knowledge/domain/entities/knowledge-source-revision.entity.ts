@@ -0,0 +1,76 @@
+import { requireNonEmpty } from '@shared/validators';
+
+/**
+ * Persistence data for hydrating a KnowledgeSourceRevision from the database
+ */
+export interface KnowledgeSourceRevisionPersistenceData {
+  id: string;
+  sourceId: string;
+  version: number;
+  content: string;
+  contentHash?: string;
+  fetchedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * KnowledgeSourceRevision Entity
+ *
+ * A superseded version of a knowledge source's content, kept when a new
+ * version is uploaded or a re-crawl replaces the content, so the change can
+ * be diffed and the version restored.
+ * Revisions are immutable once created.
+ */
+export class KnowledgeSourceRevision {
+  public id?: string;
+  public sourceId: string;
+  /** Version number the content had on the source */
+  public version: number;
+  public content: string;
+  public contentHash?: string;
+  /** When the superseded content was fetched (URL sources) */
+  public fetchedAt?: Date;
+  public createdAt: Date;
+
+  constructor(data: {
+    sourceId: string;
+    version: number;
+    content: string;
+    contentHash?: string;
+    fetchedAt?: Date;
+  }) {
+    requireNonEmpty(data.sourceId, 'SourceId');
+    requireNonEmpty(data.content, 'Content');
+
+    if (!Number.isInteger(data.version) || data.version < 1) {
+      throw new Error('Version must be a positive integer');
+    }
+
+    this.sourceId = data.sourceId;
+    this.version = data.version;
+    this.content = data.content;
+    this.contentHash = data.contentHash;
+    this.fetchedAt = data.fetchedAt;
+    this.createdAt = new Date();
+  }
+
+  /**
+   * Factory method to hydrate a revision from persistence data.
+   * @param data - Persistence data including id and timestamp
+   * @returns Hydrated KnowledgeSourceRevision entity
+   */
+  static fromPersistence(
+    data: KnowledgeSourceRevisionPersistenceData,
+  ): KnowledgeSourceRevision {
+    const revision = new KnowledgeSourceRevision({
+      sourceId: data.sourceId,
+      version: data.version,
+      content: data.content,
+      contentHash: data.contentHash,
+      fetchedAt: data.fetchedAt,
+    });
+    revision.id = data.id;
+    revision.createdAt = data.createdAt;
+    return revision;
+  }
+}
@@ -1,5 +1,11 @@
-import { SourceType, SourceStatus, type Metadata } from '@shared/types';
+import {
+  SourceType,
+  SourceStatus,
+  ChunkingStrategy,
+  type Metadata,
+} from '@shared/types';
 import { requireNonEmpty } from '@shared/validators';
+import { normalizeTags } from '@shared/utils';
 
 /**
  * Knowledge source metadata type
@@ -10,7 +16,8 @@ export type SourceMetadata = Metadata;
 /**
  * KnowledgeSource Entity (Aggregate Root)
  *
- * Represents a source of knowledge in the system (PDF, Markdown, URL).
+ * Represents a source of knowledge in the system (PDF, Markdown, Word,
+ * HTML, plain text, CSV, URL).
  * Follows Domain-Driven Design principles.
  */
 export class KnowledgeSource {
@@ -19,15 +26,51 @@ export class KnowledgeSource {
   public sectorId: string;
   public sourceType: SourceType;
   public content: string;
+  /** Content version, incremented each time the content is replaced */
+  public version: number;
+  /**
+   * Version whose fragments are served to search (undefined until the first
+   * ingestion completes). Lags behind `version` while a new version is indexed.
+   */
+  public indexedVersion?: number;
+  /** How the content is split into fragments */
+  public chunkingStrategy: ChunkingStrategy;
   public metadata?: SourceMetadata;
+  /** Normalized tags (lowercase, unique), also indexed in vector metadata */
+  public tags: string[];
+  /** Optional category, one per source */
+  public category?: string;
   public status: SourceStatus;
   public errorMessage?: string;
+  /** Current background ingestion step (e.g. CHUNKING, EMBEDDING) */
+  public processingStep?: string;
+  /** Background ingestion progress (0-100) */
+  public processingProgress?: number;
+  /** SHA-256 of `content`, used to detect changes on re-crawl */
+  public contentHash?: string;
+  /**
+   * MinHash signature of `content`, used to flag near-duplicate sources in
+   * a sector (undefined for sources ingested before it was introduced)
+   */
+  public contentSignature?: number[];
+  /** URL sources: minutes between re-crawls (undefined = never re-crawled) */
+  public refreshIntervalMinutes?: number;
+  /** URL sources: when the next re-crawl is due */
+  public nextRefreshAt?: Date;
   public createdAt: Date;
   public updatedAt: Date;
   public deletedAt?: Date;
 
   // Business rule constants
   private static readonly MAX_TITLE_LENGTH = 255;
+  private static readonly MAX_PROGRESS = 100;
+  private static readonly MIN_REFRESH_INTERVAL_MINUTES = 15;
+  private static readonly MAX_REFRESH_INTERVAL_MINUTES = 43200; // 30 days
+  private static readonly MS_PER_MINUTE = 60000;
+  private static readonly INITIAL_VERSION = 1;
+  private static readonly MAX_TAGS = 20;
+  private static readonly MAX_TAG_LENGTH = 50;
+  private static readonly MAX_CATEGORY_LENGTH = 100;
 
   constructor(data: {
     title: string;
@@ -35,6 +78,14 @@ export class KnowledgeSource {
     sourceType: SourceType;
     content: string;
     metadata?: SourceMetadata;
+    contentHash?: string;
+    contentSignature?: number[];
+    chunkingStrategy?: ChunkingStrategy;
+    /**
+     * Scanned pages are recognized by the ingestion job: the content may
+     * be empty until then (see applyRecognizedContent)
+     */
+    awaitingOcr?: boolean;
   }) {
     this.validate(data);
 
@@ -42,7 +93,13 @@ export class KnowledgeSource {
     this.sectorId = data.sectorId;
     this.sourceType = data.sourceType;
     this.content = data.content;
+    this.version = KnowledgeSource.INITIAL_VERSION;
     this.metadata = data.metadata;
+    this.tags = [];
+    this.contentHash = data.contentHash;
+    this.contentSignature = data.contentSignature;
+    this.chunkingStrategy =
+      data.chunkingStrategy ?? ChunkingStrategy.FIXED_WINDOW;
     this.status = SourceStatus.PENDING;
     this.createdAt = new Date();
     this.updatedAt = new Date();
@@ -56,6 +113,7 @@ export class KnowledgeSource {
     sectorId: string;
     sourceType: SourceType;
     content: string;
+    awaitingOcr?: boolean;
   }): void {
     requireNonEmpty(data.title, 'Title');
 
@@ -73,7 +131,9 @@ export class KnowledgeSource {
       throw new Error('Invalid source type');
     }
 
-    requireNonEmpty(data.content, 'Content');
+    if (!data.awaitingOcr) {
+      requireNonEmpty(data.content, 'Content');
+    }
   }
 
   // ==================== Status Management ====================
@@ -89,7 +149,8 @@ export class KnowledgeSource {
   }
 
   /**
-   * Marks the source as completed
+   * Marks the source as completed. The current version becomes the
+   * indexed version.
    * @throws Error if source is not being processed or is deleted
    */
   public markAsCompleted(): void {
@@ -102,6 +163,8 @@ export class KnowledgeSource {
     }
 
     this.status = SourceStatus.COMPLETED;
+    this.indexedVersion = this.version;
+    this.processingProgress = KnowledgeSource.MAX_PROGRESS;
     this.updatedAt = new Date();
   }
 
@@ -126,6 +189,143 @@ export class KnowledgeSource {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Records the progress of the background ingestion job
+   * @param progress - Percentage completed (clamped to 0-100)
+   * @param step - Name of the step being executed
+   * @throws Error if source is not being processed or is deleted
+   */
+  public updateProcessingProgress(progress: number, step: string): void {
+    this.ensureNotDeleted();
+
+    if (this.status !== SourceStatus.PROCESSING) {
+      throw new Error('Cannot update progress: source is not being processed');
+    }
+
+    this.processingProgress = Math.min(
+      Math.max(Math.round(progress), 0),
+      KnowledgeSource.MAX_PROGRESS,
+    );
+    this.processingStep = step;
+    this.updatedAt = new Date();
+  }
+
+  // ==================== Content Refresh ====================
+
+  /**
+   * Enables periodic re-crawling of a URL source
+   * @param intervalMinutes - Minutes between re-crawls
+   * @param from - Reference time for the first re-crawl (default: now)
+   * @throws Error if the source is not a URL source, is deleted, or the interval is out of range
+   */
+  public scheduleRefresh(
+    intervalMinutes: number,
+    from: Date = new Date(),
+  ): void {
+    this.ensureNotDeleted();
+
+    if (this.sourceType !== SourceType.URL) {
+      throw new Error('Only URL sources can be refreshed');
+    }
+
+    if (
+      !Number.isInteger(intervalMinutes) ||
+      intervalMinutes < KnowledgeSource.MIN_REFRESH_INTERVAL_MINUTES ||
+      intervalMinutes > KnowledgeSource.MAX_REFRESH_INTERVAL_MINUTES
+    ) {
+      throw new Error(
+        `Refresh interval must be between ${KnowledgeSource.MIN_REFRESH_INTERVAL_MINUTES} and ${KnowledgeSource.MAX_REFRESH_INTERVAL_MINUTES} minutes`,
+      );
+    }
+
+    this.refreshIntervalMinutes = intervalMinutes;
+    this.recordRefreshCheck(from);
+  }
+
+  /**
+   * Records a re-crawl attempt and schedules the next one
+   * @param checkedAt - When the source was checked (default: now)
+   */
+  public recordRefreshCheck(checkedAt: Date = new Date()): void {
+    if (this.refreshIntervalMinutes === undefined) {
+      return;
+    }
+
+    this.nextRefreshAt = new Date(
+      checkedAt.getTime() +
+        this.refreshIntervalMinutes * KnowledgeSource.MS_PER_MINUTE,
+    );
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Replaces the content with a new version and resets the source to
+   * PENDING so it is chunked and embedded again. The fragments of the
+   * indexed version keep being served until the new version is indexed.
+   * @param content - The new content
+   * @param contentHash - SHA-256 of the new content
+   * @param contentSignature - MinHash signature of the new content
+   * @param awaitingOcr - The new version has scanned pages, recognized by
+   *   the ingestion job: content may be empty until then
+   *   (see applyRecognizedContent)
+   * @throws Error if the source is deleted, being processed, or content is empty
+   */
+  public replaceContent(
+    content: string,
+    contentHash: string,
+    contentSignature?: number[],
+    awaitingOcr = false,
+  ): void {
+    this.ensureNotDeleted();
+
+    if (this.status === SourceStatus.PROCESSING) {
+      throw new Error('Cannot replace content while the source is processing');
+    }
+
+    if (!awaitingOcr) {
+      requireNonEmpty(content, 'Content');
+    }
+
+    this.content = content;
+    this.contentHash = contentHash;
+    this.contentSignature = contentSignature;
+    this.version++;
+    this.status = SourceStatus.PENDING;
+    this.errorMessage = undefined;
+    this.processingStep = undefined;
+    this.processingProgress = undefined;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Replaces the content of the current version with the text recognized
+   * by OCR, during the ingestion job (the version is unchanged)
+   * @param content - The content with its scanned pages recognized
+   * @param contentHash - SHA-256 of the content
+   * @param contentSignature - MinHash signature of the content
+   * @throws Error if the source is not being processed or content is empty
+   */
+  public applyRecognizedContent(
+    content: string,
+    contentHash: string,
+    contentSignature?: number[],
+  ): void {
+    this.ensureNotDeleted();
+
+    if (this.status !== SourceStatus.PROCESSING) {
+      throw new Error(
+        'Cannot apply recognized content: source is not being processed',
+      );
+    }
+
+    requireNonEmpty(content, 'Content');
+
+    this.content = content;
+    this.contentHash = contentHash;
+    this.contentSignature = contentSignature;
+    this.updatedAt = new Date();
+  }
+
   // ==================== Status Checks ====================
 
   /**
@@ -168,6 +368,17 @@ export class KnowledgeSource {
     return this.status === SourceStatus.DELETED;
   }
 
+  /**
+   * Checks if the source is re-crawled periodically
+   * @returns True for URL sources with a refresh interval
+   */
+  public isRefreshable(): boolean {
+    return (
+      this.sourceType === SourceType.URL &&
+      this.refreshIntervalMinutes !== undefined
+    );
+  }
+
   // ==================== Metadata Management ====================
 
   /**
@@ -184,6 +395,89 @@ export class KnowledgeSource {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Scanned PDF pages whose OCR text should be reviewed
+   * @returns 1-based page numbers (empty until the pages are recognized)
+   */
+  public getLowConfidencePages(): number[] {
+    const ocr = this.metadata?.ocr;
+    const pages =
+      ocr && typeof ocr === 'object' && !Array.isArray(ocr)
+        ? ocr.lowConfidencePages
+        : undefined;
+    return Array.isArray(pages)
+      ? pages.filter((page) => typeof page === 'number')
+      : [];
+  }
+
+  // ==================== Tags and Category ====================
+
+  /**
+   * Replaces the tags. Tags are normalized (trimmed, lowercased) and
+   * blanks and duplicates dropped.
+   * @param tags - The new tags
+   * @throws Error if source is deleted, a tag is too long or there are too many tags
+   */
+  public setTags(tags: string[]): void {
+    this.ensureNotDeleted();
+
+    const normalized = normalizeTags(tags);
+    if (normalized.length > KnowledgeSource.MAX_TAGS) {
+      throw new Error(
+        `A source cannot have more than ${KnowledgeSource.MAX_TAGS} tags`,
+      );
+    }
+    const tooLong = normalized.find(
+      (tag) => tag.length > KnowledgeSource.MAX_TAG_LENGTH,
+    );
+    if (tooLong) {
+      throw new Error(
+        `Tag cannot exceed ${KnowledgeSource.MAX_TAG_LENGTH} characters: ${tooLong}`,
+      );
+    }
+
+    this.tags = normalized;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Adds tags, keeping the existing ones
+   * @param tags - Tags to add
+   * @throws Error under the same conditions as setTags
+   */
+  public addTags(tags: string[]): void {
+    this.setTags([...this.tags, ...tags]);
+  }
+
+  /**
+   * Removes tags (tags the source does not have are ignored)
+   * @param tags - Tags to remove
+   * @throws Error if source is deleted
+   */
+  public removeTags(tags: string[]): void {
+    const removed = new Set(normalizeTags(tags));
+    this.setTags(this.tags.filter((tag) => !removed.has(tag)));
+  }
+
+  /**
+   * Sets or clears the category
+   * @param category - Category name (undefined or blank clears it)
+   * @throws Error if source is deleted or the category is too long
+   */
+  public setCategory(category?: string): void {
+    this.ensureNotDeleted();
+
+    const trimmed = category?.trim().replace(/\s+/g, ' ');
+    if (trimmed && trimmed.length > KnowledgeSource.MAX_CATEGORY_LENGTH) {
+      throw new Error(
+        `Category cannot exceed ${KnowledgeSource.MAX_CATEGORY_LENGTH} characters`,
+      );
+    }
+
+    this.category = trimmed || undefined;
+    this.updatedAt = new Date();
+  }
+
   // ==================== Private Helpers ====================
 
   /**
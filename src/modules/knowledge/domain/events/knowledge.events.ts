@@ -0,0 +1,58 @@
+/**
+ * Knowledge Domain Events
+ *
+ * Events emitted when the content of a sector's knowledge base changes,
+ * or when its vectors move to another embedding index.
+ * Consumed by the interaction module to invalidate cached answers and by
+ * the notifications module to inform sector managers of re-crawled pages.
+ */
+
+export class KnowledgeSourceIngestedEvent {
+  constructor(
+    public readonly sourceId: string,
+    public readonly sectorId: string,
+    public readonly title: string,
+    public readonly fragmentCount: number,
+    public readonly ingestedAt: Date,
+  ) {}
+}
+
+export class KnowledgeSourceDeletedEvent {
+  constructor(
+    public readonly sourceId: string,
+    public readonly sectorId: string,
+    public readonly deletedAt: Date,
+  ) {}
+}
+
+export class KnowledgeSourceRefreshedEvent {
+  constructor(
+    public readonly sourceId: string,
+    public readonly sectorId: string,
+    public readonly title: string,
+    public readonly revisionId: string,
+    public readonly fragmentCount: number,
+    public readonly refreshedAt: Date,
+  ) {}
+}
+
+export class KnowledgeFragmentsCuratedEvent {
+  constructor(
+    public readonly sourceId: string,
+    public readonly sectorId: string,
+    public readonly editedCount: number,
+    public readonly deletedCount: number,
+    public readonly curatedAt: Date,
+  ) {}
+}
+
+export class EmbeddingIndexSwitchedEvent {
+  constructor(
+    public readonly sectorId: string,
+    public readonly indexId: string,
+    public readonly namespace: string,
+    public readonly embeddingModel: string,
+    public readonly embeddingDimensions: number,
+    public readonly switchedAt: Date,
+  ) {}
+}
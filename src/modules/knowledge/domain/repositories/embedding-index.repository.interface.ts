@@ -0,0 +1,53 @@
+import { EmbeddingIndex } from '../entities/embedding-index.entity';
+
+/**
+ * IEmbeddingIndexRepository Interface
+ *
+ * Persistence of the embedding indexes of sectors.
+ * A sector without stored indexes reads from its initial index
+ * (see EmbeddingIndex.initial), which is stored on its first re-index.
+ */
+export interface IEmbeddingIndexRepository {
+  /**
+   * Saves an index (create or update)
+   * @param index - The index to save
+   * @returns The saved index with assigned ID
+   * @throws {Error} "Embedding index conflict" if another request changed
+   *   the indexes of the sector concurrently (e.g. started a build)
+   */
+  save(index: EmbeddingIndex): Promise<EmbeddingIndex>;
+
+  /**
+   * Finds an index by ID
+   * @param id - The index ID
+   * @returns The index or null if not found
+   */
+  findById(id: string): Promise<EmbeddingIndex | null>;
+
+  /**
+   * Finds the indexes of a sector
+   * @param sectorId - The sector ID
+   * @returns The indexes, newest generation first
+   */
+  findBySector(sectorId: string): Promise<EmbeddingIndex[]>;
+
+  /**
+   * Finds the index serving the reads of a sector
+   * @param sectorId - The sector ID
+   * @returns The ACTIVE index, or null if the sector was never re-indexed
+   */
+  findActiveBySector(sectorId: string): Promise<EmbeddingIndex | null>;
+
+  /**
+   * Switches the read path of a sector in one transaction: saves the
+   * retired index, saves the activated one, and records the activated
+   * index's embedding profile on the fragments of the sector.
+   * @param activated - The index now serving reads (status ACTIVE)
+   * @param retired - The index it replaces (status RETIRED)
+   * @returns The saved activated index
+   */
+  switchActive(
+    activated: EmbeddingIndex,
+    retired: EmbeddingIndex,
+  ): Promise<EmbeddingIndex>;
+}
@@ -1,5 +1,108 @@
 import { KnowledgeSource } from '../entities/knowledge-source.entity';
 import { Fragment } from '../entities/fragment.entity';
+import { KnowledgeSourceRevision } from '../entities/knowledge-source-revision.entity';
+
+/**
+ * Result of a full-text fragment search
+ */
+export interface FragmentTextSearchResult {
+  fragment: Fragment;
+  /** Normalised full-text rank in [0, 1) — higher is better */
+  score: number;
+}
+
+/**
+ * Scope of a full-text fragment search. Conditions are AND-ed; the values
+ * of one condition are OR-ed.
+ */
+export interface FragmentTextSearchFilter {
+  /** Only fragments of these sources */
+  sourceIds?: string[];
+  /** Only fragments of sources with at least one of these tags */
+  tags?: string[];
+}
+
+/**
+ * A fragment matching a full-text content search, with its source
+ */
+export interface FragmentSearchHit {
+  fragmentId: string;
+  sourceId: string;
+  sourceTitle: string;
+  sectorId: string;
+  /** Position of the fragment within its source */
+  position: number;
+  /**
+   * Excerpts of the fragment around the matches, HTML-escaped, with the
+   * matched terms wrapped in <mark></mark>
+   */
+  snippet: string;
+  /** Normalised full-text rank in [0, 1) — higher is better */
+  score: number;
+}
+
+/**
+ * Scope and page of a full-text content search
+ */
+export interface FragmentSearchOptions {
+  /** Sectors to search; undefined searches every sector */
+  sectorIds?: string[];
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A page of the fragments of a source version
+ */
+export interface FragmentPage {
+  /** Fragments of the page, by position */
+  fragments: Fragment[];
+  /** Number of fragments of the version */
+  total: number;
+}
+
+/**
+ * A fragment ID with what is needed to tell whether it should have a vector
+ */
+export interface FragmentIndexEntry {
+  id: string;
+  sourceId: string;
+  /**
+   * Whether the fragment belongs to the version served to search and is
+   * not excluded from retrieval
+   */
+  indexed: boolean;
+  /** Whether its source is being processed (its vectors are in flux) */
+  processing: boolean;
+  /** Last change to the fragment (content, position or exclusion) */
+  updatedAt: Date;
+}
+
+/**
+ * Fragments served to search in a sector, counted against its quota
+ */
+export interface FragmentUsage {
+  fragments: number;
+  tokens: number;
+}
+
+/**
+ * How many searchable fragments of a sector are written in a language
+ */
+export interface FragmentLanguageCount {
+  /** ISO 639-1 code */
+  language: string;
+  fragments: number;
+}
+
+/**
+ * The MinHash signature of a source, compared to flag near duplicates
+ */
+export interface SourceSignature {
+  sourceId: string;
+  title: string;
+  signature: number[];
+}
 
 /**
  * IKnowledgeRepository Interface
@@ -22,6 +125,14 @@ export interface IKnowledgeRepository {
    */
   saveSource(source: KnowledgeSource): Promise<KnowledgeSource>;
 
+  /**
+   * Saves knowledge sources in one transaction, so a batch change is never
+   * half applied
+   * @param sources - The knowledge sources to save
+   * @returns The saved knowledge sources, in the given order
+   */
+  saveSources(sources: KnowledgeSource[]): Promise<KnowledgeSource[]>;
+
   /**
    * Finds a knowledge source by ID
    * @param id - The source ID
@@ -29,6 +140,13 @@ export interface IKnowledgeRepository {
    */
   findSourceById(id: string): Promise<KnowledgeSource | null>;
 
+  /**
+   * Finds active (non-deleted) knowledge sources by ID (batch query)
+   * @param ids - The source IDs
+   * @returns The sources found, in no particular order
+   */
+  findSourcesByIds(ids: string[]): Promise<KnowledgeSource[]>;
+
   /**
    * Finds all knowledge sources for a sector
    * @param sectorId - The sector ID
@@ -86,6 +204,110 @@ export interface IKnowledgeRepository {
    */
   countAllSources(): Promise<number>;
 
+  /**
+   * Finds URL sources whose next re-crawl is due: completed sources, and
+   * sources whose re-index failed while a previous version is served
+   * @param now - Reference time
+   * @param limit - Maximum number of sources to return
+   * @returns Due sources, most overdue first
+   */
+  findSourcesDueForRefresh(
+    now: Date,
+    limit: number,
+  ): Promise<KnowledgeSource[]>;
+
+  /**
+   * Finds the sectors that have active (non-deleted) knowledge sources
+   * @returns Distinct sector IDs
+   */
+  findSectorIdsWithSources(): Promise<string[]>;
+
+  /**
+   * Finds an active source of a sector with the given content, ignoring
+   * failed sources
+   * @param sectorId - The sector ID
+   * @param contentHash - SHA-256 of the content
+   * @returns The oldest matching source, or null
+   */
+  findSourceByContentHash(
+    sectorId: string,
+    contentHash: string,
+  ): Promise<KnowledgeSource | null>;
+
+  /**
+   * Finds the content signatures of the active sources of a sector,
+   * ignoring failed sources and sources without a signature
+   * @param sectorId - The sector ID
+   * @returns The signatures, in no particular order
+   */
+  findSourceSignatures(sectorId: string): Promise<SourceSignature[]>;
+
+  /**
+   * Finds a page of the active sources of a sector that have an indexed
+   * version, by ID, so the sector can be walked in batches
+   * @param sectorId - The sector ID
+   * @param afterId - Only sources with an ID after this one (first page: undefined)
+   * @param limit - Maximum number of sources
+   * @returns The sources, by ID
+   */
+  findIndexedSourcePage(
+    sectorId: string,
+    afterId: string | undefined,
+    limit: number,
+  ): Promise<KnowledgeSource[]>;
+
+  /**
+   * Keeps the uploaded file of a source until the ingestion job has
+   * recognized its scanned pages
+   * @param sourceId - The source ID
+   * @param file - The uploaded file
+   */
+  savePendingOcrFile(sourceId: string, file: Buffer): Promise<void>;
+
+  /**
+   * Finds the uploaded file of a source whose scanned pages are yet to be
+   * recognized
+   * @param sourceId - The source ID
+   * @returns The file, or null if the source has none pending
+   */
+  findPendingOcrFile(sourceId: string): Promise<Buffer | null>;
+
+  /**
+   * Discards the uploaded file of a source once its scanned pages are
+   * recognized and indexed
+   * @param sourceId - The source ID
+   */
+  clearPendingOcrFile(sourceId: string): Promise<void>;
+
+  // ==================== Revision Operations ====================
+
+  /**
+   * Saves a superseded revision of a source's content
+   * @param revision - The revision to save
+   * @returns The saved revision with assigned ID
+   */
+  saveRevision(
+    revision: KnowledgeSourceRevision,
+  ): Promise<KnowledgeSourceRevision>;
+
+  /**
+   * Finds the superseded revisions of a source
+   * @param sourceId - The source ID
+   * @returns Revisions, newest first
+   */
+  findRevisionsBySource(sourceId: string): Promise<KnowledgeSourceRevision[]>;
+
+  /**
+   * Finds the revision holding a given version of a source's content
+   * @param sourceId - The source ID
+   * @param version - The superseded version number
+   * @returns The revision or null if not found
+   */
+  findRevisionBySourceAndVersion(
+    sourceId: string,
+    version: number,
+  ): Promise<KnowledgeSourceRevision | null>;
+
   // ==================== Fragment Operations ====================
 
   /**
@@ -113,12 +335,54 @@ export interface IKnowledgeRepository {
     orderBy?: 'position' | 'createdAt',
   ): Promise<Fragment[]>;
 
+  /**
+   * Finds a page of the fragments of a source version
+   * @param sourceId - The source ID
+   * @param sourceVersion - The version the fragments were cut from
+   * @param limit - Maximum number of fragments
+   * @param offset - Number of fragments to skip
+   * @returns The fragments ordered by position, and their total count
+   */
+  findFragmentPage(
+    sourceId: string,
+    sourceVersion: number,
+    limit: number,
+    offset: number,
+  ): Promise<FragmentPage>;
+
+  /**
+   * Saves edited fragments and deletes others in one transaction, so a
+   * split or merge is never half applied
+   * @param fragments - Fragments to save (create or update)
+   * @param deletedIds - IDs of the fragments to delete
+   * @returns The saved fragments, in the given order
+   */
+  updateFragments(
+    fragments: Fragment[],
+    deletedIds: string[],
+  ): Promise<Fragment[]>;
+
   /**
    * Deletes all fragments for a knowledge source
    * @param sourceId - The source ID
    */
   deleteFragmentsBySource(sourceId: string): Promise<void>;
 
+  /**
+   * Deletes fragments by ID
+   * @param ids - The fragment IDs
+   */
+  deleteFragmentsByIds(ids: string[]): Promise<void>;
+
+  /**
+   * Saves a source whose current version has been indexed and deletes the
+   * fragments of its other versions, in one transaction, so searches switch
+   * from the old fragments to the new ones at once
+   * @param source - The completed source (indexedVersion === version)
+   * @returns The saved source
+   */
+  activateSourceVersion(source: KnowledgeSource): Promise<KnowledgeSource>;
+
   /**
    * Counts total fragments in a source
    * @param sourceId - The source ID
@@ -126,6 +390,62 @@ export interface IKnowledgeRepository {
    */
   countFragmentsBySource(sourceId: string): Promise<number>;
 
+  /**
+   * Counts the fragments, and sums their tokens, of the versions served to
+   * search in a sector's active sources
+   * @param sectorId - The sector ID
+   * @returns Fragment and token totals
+   */
+  getFragmentUsageBySector(sectorId: string): Promise<FragmentUsage>;
+
+  /**
+   * Counts the searchable fragments (served versions of active sources, not
+   * excluded) of a sector per detected language
+   * @param sectorId - The sector ID
+   * @returns One entry per language, most fragments first (fragments with
+   *   no detected language are left out)
+   */
+  countFragmentsByLanguage(sectorId: string): Promise<FragmentLanguageCount[]>;
+
+  /**
+   * Lists the fragments of a sector's active sources, without their content
+   * @param sectorId - The sector ID
+   * @returns One entry per fragment
+   */
+  findFragmentIndexEntries(sectorId: string): Promise<FragmentIndexEntry[]>;
+
+  /**
+   * Full-text (keyword) search over fragment content within a sector.
+   * Only fragments of the indexed version of non-deleted sources are
+   * returned, leaving out excluded fragments.
+   * @param query - Raw query text (terms are OR-ed, ranked by coverage)
+   * @param sectorId - The sector to search in
+   * @param limit - Maximum number of results
+   * @param filter - Optional source/tag scope
+   * @returns Matching fragments ordered by descending score
+   */
+  searchFragmentsByText(
+    query: string,
+    sectorId: string,
+    limit: number,
+    filter?: FragmentTextSearchFilter,
+  ): Promise<FragmentTextSearchResult[]>;
+
+  /**
+   * Full-text search over fragment content for people, with highlighted
+   * snippets. Unlike searchFragmentsByText, all terms must match, and
+   * quoted phrases and -exclusions are supported (websearch syntax).
+   * Only fragments of the indexed version of non-deleted sources are
+   * returned, leaving out excluded fragments.
+   * @param query - Raw search text
+   * @param options - Sectors to search and page
+   * @returns Matching fragments ordered by descending score
+   */
+  searchFragmentContent(
+    query: string,
+    options: FragmentSearchOptions,
+  ): Promise<FragmentSearchHit[]>;
+
   // ==================== Transaction Support ====================
 
   /**
@@ -0,0 +1,24 @@
+/**
+ * Payload for dispatching an async document ingestion task.
+ */
+export interface IngestionTaskPayload {
+  sourceId: string;
+}
+
+/**
+ * Payload for dispatching the next batch of an embedding index build.
+ */
+export interface ReindexTaskPayload {
+  indexId: string;
+}
+
+/**
+ * Port for dispatching background document ingestion and re-indexing.
+ *
+ * Production: Google Cloud Tasks (HTTP webhook)
+ * Development: Local in-process execution
+ */
+export interface IIngestionTaskDispatcher {
+  dispatchIngestion(payload: IngestionTaskPayload): Promise<void>;
+  dispatchReindex(payload: ReindexTaskPayload): Promise<void>;
+}
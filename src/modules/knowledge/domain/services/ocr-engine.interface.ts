@@ -0,0 +1,28 @@
+/**
+ * Text recognized on one page of a document.
+ */
+export interface OcrPageResult {
+  /** 1-based page number */
+  page: number;
+  /** Recognized text, with line and paragraph breaks */
+  text: string;
+  /** Mean word confidence, from 0 to 1 (0 when no word was recognized) */
+  confidence: number;
+}
+
+/**
+ * Port for recognizing the text of scanned (image-only) PDF pages.
+ *
+ * Production: Tesseract, run locally on rendered pages
+ * Tests: StubOcrEngine (OCR_ENGINE=stub) or any stub implementation
+ */
+export interface IOcrEngine {
+  /**
+   * Recognizes the text of some pages of a PDF
+   *
+   * @param pdf - The PDF document
+   * @param pages - 1-based numbers of the pages to recognize
+   * @returns One result per requested page, in the same order
+   */
+  recognizePdfPages(pdf: Buffer, pages: number[]): Promise<OcrPageResult[]>;
+}
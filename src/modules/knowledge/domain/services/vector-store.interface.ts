@@ -27,9 +27,16 @@
  * const results = await vectorStore.vectorSearch(
  *   queryEmbedding, 'sector-uuid', 5, 0.7
  * );
+ *
+ * // Only search the 2025 handbook
+ * const handbookResults = await vectorStore.vectorSearch(
+ *   queryEmbedding, 'sector-uuid', 5, 0.7, { sourceIds: ['source-uuid'] }
+ * );
  * ```
  */
 
+import type { SourceType } from '@shared/types';
+
 /**
  * Metadata associated with each vector in the store.
  * Contains all necessary context for RAG retrieval.
@@ -45,6 +52,46 @@ export interface VectorMetadata {
   position: number;
   /** Estimated token count of the fragment content */
   tokenCount: number;
+  /** Headings the fragment sits under (structured chunking only) */
+  headingPath?: string[];
+  /** Type of the knowledge source (PDF, URL, ...) */
+  sourceType?: SourceType;
+  /** Tags of the knowledge source */
+  tags?: string[];
+  /** Creation time of the knowledge source, in epoch milliseconds */
+  createdAt?: number;
+  /** Embedding model that produced the vector */
+  embeddingModel?: string;
+  /** Dimension of the vector */
+  embeddingDimensions?: number;
+}
+
+/**
+ * Metadata filter for vector similarity search.
+ * Conditions on different fields are AND-ed; the values listed for one
+ * field are OR-ed (e.g. a vector matches `tags` if it has any of them).
+ * Vectors missing a filtered field do not match.
+ */
+export interface VectorSearchFilter {
+  /** Only vectors of these knowledge sources */
+  sourceIds?: string[];
+  /** Only vectors of sources of these types */
+  sourceTypes?: SourceType[];
+  /** Only vectors of sources with at least one of these tags */
+  tags?: string[];
+  /** Only vectors of sources created at or after this time */
+  createdFrom?: Date;
+  /** Only vectors of sources created at or before this time */
+  createdTo?: Date;
+}
+
+/**
+ * Source attributes that can be changed on stored vectors without
+ * re-embedding them.
+ */
+export interface VectorMetadataPatch {
+  /** New tags of the knowledge source (empty clears them) */
+  tags: string[];
 }
 
 /**
@@ -81,11 +128,16 @@ export interface VectorSearchResult {
  *
  * Responsibilities:
  * - Upserting vectors with metadata (batch support)
- * - Similarity search with filtering
+ * - Similarity search with metadata filtering (source, type, tags, date)
+ * - Updating source attributes (tags) on the vectors of a source
  * - Deleting vectors by source ID
+ * - Listing vector IDs (reconciliation with the fragments table)
  *
  * Design Decisions:
- * - Uses sectorId as namespace for multi-tenant isolation
+ * - Uses sectorId as namespace for multi-tenant isolation. A re-indexed
+ *   sector keeps its vectors in the namespace of its embedding index
+ *   (see EmbeddingIndex.namespaceFor); the `sectorId` parameters below
+ *   take that namespace.
  * - Supports batch operations for efficient ingestion
  * - Returns similarity scores for result ranking
  * - Allows minimum score filtering for quality control
@@ -97,19 +149,21 @@ export interface IVectorStore {
    * Handles batching internally for large datasets.
    *
    * @param inputs - Array of vectors with embeddings and metadata
+   * @param namespace - Namespace to write to (default: the inputs' sectorId)
    * @throws Error if the upsert operation fails
    */
-  upsertVectors(inputs: VectorUpsertInput[]): Promise<void>;
+  upsertVectors(inputs: VectorUpsertInput[], namespace?: string): Promise<void>;
 
   /**
    * Performs vector similarity search.
    * Returns vectors most similar to the query embedding,
-   * filtered by sector (namespace) and minimum score.
+   * filtered by sector (namespace), metadata and minimum score.
    *
    * @param embedding - Query embedding vector
    * @param sectorId - Sector ID to scope the search (namespace)
    * @param limit - Maximum number of results (default: 5)
    * @param minScore - Minimum similarity score threshold (default: 0.7)
+   * @param filter - Optional metadata filter, applied before the limit
    * @returns Array of search results ordered by similarity (highest first)
    */
   vectorSearch(
@@ -117,8 +171,25 @@ export interface IVectorStore {
     sectorId: string,
     limit?: number,
     minScore?: number,
+    filter?: VectorSearchFilter,
   ): Promise<VectorSearchResult[]>;
 
+  /**
+   * Updates the metadata of all vectors of a knowledge source, keeping
+   * their embeddings. Fields not in the patch are left unchanged.
+   * Used when the tags of a source change.
+   *
+   * @param sourceId - ID of the knowledge source whose vectors are updated
+   * @param sectorId - Sector ID (namespace) where the vectors are stored
+   * @param patch - Metadata fields to overwrite
+   * @throws Error if the update operation fails
+   */
+  updateMetadataBySourceId(
+    sourceId: string,
+    sectorId: string,
+    patch: VectorMetadataPatch,
+  ): Promise<void>;
+
   /**
    * Deletes all vectors associated with a specific knowledge source.
    * Used when a knowledge source is deleted to clean up vector data.
@@ -128,4 +199,32 @@ export interface IVectorStore {
    * @throws Error if the deletion operation fails
    */
   deleteBySourceId(sourceId: string, sectorId: string): Promise<void>;
+
+  /**
+   * Deletes vectors by ID (the IDs of their fragments).
+   * Used to remove the vectors of a superseded source version.
+   *
+   * @param ids - Vector IDs to delete
+   * @param sectorId - Sector ID (namespace) where the vectors are stored
+   * @throws Error if the deletion operation fails
+   */
+  deleteByIds(ids: string[], sectorId: string): Promise<void>;
+
+  /**
+   * Lists the namespaces (sector IDs) that hold vectors.
+   *
+   * @returns Sector IDs, in no particular order
+   * @throws Error if the operation fails
+   */
+  listNamespaces(): Promise<string[]>;
+
+  /**
+   * Lists the IDs of all vectors stored for a sector.
+   * Used to reconcile the vector store with the fragments table.
+   *
+   * @param sectorId - Sector ID (namespace) to list
+   * @returns Vector IDs, in no particular order
+   * @throws Error if the operation fails
+   */
+  listVectorIds(sectorId: string): Promise<string[]>;
 }
@@ -0,0 +1,23 @@
+/**
+ * A web page retrieved for ingestion.
+ */
+export interface FetchedWebPage {
+  /** Final URL after redirects */
+  url: string;
+  /** Page HTML */
+  html: string;
+  /** Response content type (e.g. "text/html; charset=utf-8") */
+  contentType: string;
+  /** When the page was fetched */
+  fetchedAt: Date;
+}
+
+/**
+ * Port for retrieving web pages registered as URL knowledge sources.
+ *
+ * Production: HTTP fetch with SSRF protection
+ * Tests: Any stub implementation (or the HTTP fetcher against a local server)
+ */
+export interface IWebPageFetcher {
+  fetch(url: string): Promise<FetchedWebPage>;
+}
@@ -0,0 +1,66 @@
+import { EmbeddingIndex } from '@modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingIndexModel } from '@modules/knowledge/infrastructure/persistence/models/embedding-index.model';
+
+/**
+ * Embedding Index Mapper
+ *
+ * Converts between domain entities and TypeORM models.
+ */
+export class EmbeddingIndexMapper {
+  /**
+   * Converts TypeORM model to domain entity
+   */
+  static toDomain(model: EmbeddingIndexModel): EmbeddingIndex {
+    return EmbeddingIndex.fromPersistence({
+      id: model.id,
+      sectorId: model.sectorId,
+      generation: model.generation,
+      namespace: model.namespace,
+      embeddingModel: model.embeddingModel,
+      embeddingDimensions: model.embeddingDimensions,
+      status: model.status,
+      totalFragments: model.totalFragments ?? undefined,
+      processedFragments: model.processedFragments,
+      cursor: model.cursor ?? undefined,
+      errorMessage: model.errorMessage ?? undefined,
+      activatedAt: model.activatedAt ?? undefined,
+      retiredAt: model.retiredAt ?? undefined,
+      createdAt: model.createdAt,
+      updatedAt: model.updatedAt,
+    });
+  }
+
+  /**
+   * Converts domain entity to TypeORM model
+   */
+  static toModel(entity: EmbeddingIndex): EmbeddingIndexModel {
+    const model = new EmbeddingIndexModel();
+
+    if (entity.id) {
+      model.id = entity.id;
+    }
+    model.sectorId = entity.sectorId;
+    model.generation = entity.generation;
+    model.namespace = entity.namespace;
+    model.embeddingModel = entity.embeddingModel;
+    model.embeddingDimensions = entity.embeddingDimensions;
+    model.status = entity.status;
+    model.totalFragments = entity.totalFragments ?? null;
+    model.processedFragments = entity.processedFragments;
+    model.cursor = entity.cursor ?? null;
+    model.errorMessage = entity.errorMessage ?? null;
+    model.activatedAt = entity.activatedAt ?? null;
+    model.retiredAt = entity.retiredAt ?? null;
+    model.createdAt = entity.createdAt;
+    model.updatedAt = entity.updatedAt;
+
+    return model;
+  }
+
+  /**
+   * Converts array of TypeORM models to domain entities
+   */
+  static toDomainArray(models: EmbeddingIndexModel[]): EmbeddingIndex[] {
+    return models.map((model) => this.toDomain(model));
+  }
+}
@@ -30,10 +30,15 @@ export class FragmentMapper {
     return Fragment.fromPersistence({
       id: model.id,
       sourceId: model.sourceId,
+      sourceVersion: model.sourceVersion,
       content: model.content,
       position: model.position,
       tokenCount: model.tokenCount,
       metadata: model.metadata as FragmentMetadata | undefined,
+      excluded: model.excluded,
+      language: model.language ?? undefined,
+      embeddingModel: model.embeddingModel ?? undefined,
+      embeddingDimensions: model.embeddingDimensions ?? undefined,
       createdAt: model.createdAt,
       updatedAt: model.updatedAt,
     });
@@ -52,6 +57,7 @@ export class FragmentMapper {
       model.id = entity.id;
     }
     model.sourceId = entity.sourceId;
+    model.sourceVersion = entity.sourceVersion;
     model.content = entity.content;
     model.position = entity.position;
 
@@ -61,6 +67,10 @@ export class FragmentMapper {
       Math.ceil(entity.content.length / CHARS_PER_TOKEN_ESTIMATE);
 
     model.metadata = (entity.metadata as Record<string, unknown>) ?? null;
+    model.excluded = entity.excluded;
+    model.language = entity.language ?? null;
+    model.embeddingModel = entity.embeddingModel ?? null;
+    model.embeddingDimensions = entity.embeddingDimensions ?? null;
     model.createdAt = entity.createdAt;
     model.updatedAt = entity.updatedAt;
 
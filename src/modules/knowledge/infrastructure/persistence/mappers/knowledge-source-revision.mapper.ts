@@ -0,0 +1,56 @@
+import { KnowledgeSourceRevision } from '@modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { KnowledgeSourceRevisionModel } from '@modules/knowledge/infrastructure/persistence/models/knowledge-source-revision.model';
+
+/**
+ * Knowledge Source Revision Mapper
+ *
+ * Converts between domain entities and TypeORM models.
+ */
+export class KnowledgeSourceRevisionMapper {
+  /**
+   * Converts TypeORM model to domain entity
+   */
+  static toDomain(
+    model: KnowledgeSourceRevisionModel,
+  ): KnowledgeSourceRevision {
+    return KnowledgeSourceRevision.fromPersistence({
+      id: model.id,
+      sourceId: model.sourceId,
+      version: model.version,
+      content: model.content,
+      contentHash: model.contentHash ?? undefined,
+      fetchedAt: model.fetchedAt ?? undefined,
+      createdAt: model.createdAt,
+    });
+  }
+
+  /**
+   * Converts domain entity to TypeORM model
+   */
+  static toModel(
+    entity: KnowledgeSourceRevision,
+  ): KnowledgeSourceRevisionModel {
+    const model = new KnowledgeSourceRevisionModel();
+
+    if (entity.id) {
+      model.id = entity.id;
+    }
+    model.sourceId = entity.sourceId;
+    model.version = entity.version;
+    model.content = entity.content;
+    model.contentHash = entity.contentHash ?? null;
+    model.fetchedAt = entity.fetchedAt ?? null;
+    model.createdAt = entity.createdAt;
+
+    return model;
+  }
+
+  /**
+   * Converts array of TypeORM models to domain entities
+   */
+  static toDomainArray(
+    models: KnowledgeSourceRevisionModel[],
+  ): KnowledgeSourceRevision[] {
+    return models.map((model) => this.toDomain(model));
+  }
+}
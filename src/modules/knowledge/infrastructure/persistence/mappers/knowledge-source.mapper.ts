@@ -35,20 +35,42 @@ export class KnowledgeSourceMapper {
       sourceType,
       content: model.content,
       metadata,
+      contentHash: model.contentHash ?? undefined,
+      contentSignature: model.contentSignature ?? undefined,
+      chunkingStrategy: model.chunkingStrategy,
     });
 
     // Set persisted fields using direct assignment with type assertions
     // These fields are readonly in the entity but can be set during hydration
     const mutableSource = source as {
       id?: string;
+      version: number;
+      indexedVersion?: number;
       status: string;
+      tags: string[];
+      category?: string;
+      errorMessage?: string;
+      processingStep?: string;
+      processingProgress?: number;
+      refreshIntervalMinutes?: number;
+      nextRefreshAt?: Date;
       createdAt: Date;
       updatedAt: Date;
       deletedAt?: Date;
     };
 
     mutableSource.id = model.id;
+    mutableSource.version = model.version;
+    mutableSource.indexedVersion = model.indexedVersion ?? undefined;
     mutableSource.status = model.status as string;
+    mutableSource.tags = model.tags ?? [];
+    mutableSource.category = model.category ?? undefined;
+    mutableSource.errorMessage = model.errorMessage ?? undefined;
+    mutableSource.processingStep = model.processingStep ?? undefined;
+    mutableSource.processingProgress = model.processingProgress ?? undefined;
+    mutableSource.refreshIntervalMinutes =
+      model.refreshIntervalMinutes ?? undefined;
+    mutableSource.nextRefreshAt = model.nextRefreshAt ?? undefined;
     mutableSource.createdAt = model.createdAt;
     mutableSource.updatedAt = model.updatedAt;
     mutableSource.deletedAt = model.deletedAt ?? undefined;
@@ -72,11 +94,22 @@ export class KnowledgeSourceMapper {
     model.sectorId = entity.sectorId;
     model.sourceType = entity.sourceType;
     model.content = entity.content;
+    model.version = entity.version;
+    model.indexedVersion = entity.indexedVersion ?? null;
+    model.chunkingStrategy = entity.chunkingStrategy;
     model.status = entity.status;
-    model.errorMessage = null;
+    model.errorMessage = entity.errorMessage ?? null;
+    model.processingStep = entity.processingStep ?? null;
+    model.processingProgress = entity.processingProgress ?? null;
+    model.contentHash = entity.contentHash ?? null;
+    model.contentSignature = entity.contentSignature ?? null;
+    model.refreshIntervalMinutes = entity.refreshIntervalMinutes ?? null;
+    model.nextRefreshAt = entity.nextRefreshAt ?? null;
     model.metadata = entity.metadata
       ? (entity.metadata as Record<string, unknown>)
       : null;
+    model.tags = entity.tags;
+    model.category = entity.category ?? null;
     model.createdAt = entity.createdAt;
     model.updatedAt = entity.updatedAt;
     model.deletedAt = entity.deletedAt ?? null;
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { EmbeddingIndexStatus } from '../../../domain/entities/embedding-index.entity';
+
+/**
+ * TypeORM Model for EmbeddingIndex
+ *
+ * The vector store namespaces of a sector and the embedding profile of
+ * their vectors. At most one ACTIVE and one BUILDING index per sector
+ * (partial unique indexes created by the migration).
+ */
+@Entity('embedding_indexes')
+@Index(['sectorId', 'generation'], { unique: true })
+@Index(['sectorId', 'status'])
+export class EmbeddingIndexModel {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'sector_id', type: 'uuid' })
+  sectorId!: string;
+
+  @Column({ type: 'int' })
+  generation!: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  namespace!: string;
+
+  @Column({ name: 'embedding_model', type: 'varchar', length: 255 })
+  embeddingModel!: string;
+
+  @Column({ name: 'embedding_dimensions', type: 'int' })
+  embeddingDimensions!: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  status!: EmbeddingIndexStatus;
+
+  @Column({ name: 'total_fragments', type: 'int', nullable: true })
+  totalFragments: number | null = null;
+
+  @Column({ name: 'processed_fragments', type: 'int', default: 0 })
+  processedFragments: number = 0;
+
+  @Column({ type: 'uuid', nullable: true })
+  cursor: string | null = null;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string | null = null;
+
+  @Column({ name: 'activated_at', type: 'timestamptz', nullable: true })
+  activatedAt: Date | null = null;
+
+  @Column({ name: 'retired_at', type: 'timestamptz', nullable: true })
+  retiredAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -28,6 +28,7 @@ import {
  */
 @Entity('fragments')
 @Index(['sourceId'])
+@Index(['sourceId', 'sourceVersion'])
 @Index(['position'])
 export class FragmentModel {
   @PrimaryGeneratedColumn('uuid')
@@ -36,6 +37,9 @@ export class FragmentModel {
   @Column({ name: 'source_id', type: 'uuid' })
   sourceId!: string;
 
+  @Column({ name: 'source_version', type: 'int', default: 1 })
+  sourceVersion: number = 1;
+
   @Column({ type: 'text' })
   content!: string;
 
@@ -48,6 +52,23 @@ export class FragmentModel {
   @Column({ type: 'jsonb', nullable: true })
   metadata!: Record<string, unknown> | null;
 
+  @Column({ type: 'boolean', default: false })
+  excluded: boolean = false;
+
+  @Column({ type: 'varchar', length: 8, nullable: true })
+  language: string | null = null;
+
+  @Column({
+    name: 'embedding_model',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  embeddingModel: string | null = null;
+
+  @Column({ name: 'embedding_dimensions', type: 'int', nullable: true })
+  embeddingDimensions: number | null = null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * TypeORM Model for KnowledgeSourceRevision
+ *
+ * Superseded content of a knowledge source, kept for diffing and restoring
+ * after a new version or a re-crawl. Rows are deleted with their source
+ * (FK ON DELETE CASCADE).
+ */
+@Entity('knowledge_source_revisions')
+@Index(['sourceId', 'createdAt'])
+@Index(['sourceId', 'version'], { unique: true })
+export class KnowledgeSourceRevisionModel {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'source_id', type: 'uuid' })
+  sourceId!: string;
+
+  @Column({ type: 'int' })
+  version!: number;
+
+  @Column({ type: 'text' })
+  content!: string;
+
+  @Column({ name: 'content_hash', type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null = null;
+
+  @Column({ name: 'fetched_at', type: 'timestamptz', nullable: true })
+  fetchedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date = new Date();
+}
@@ -7,7 +7,7 @@ import {
   DeleteDateColumn,
   Index,
 } from 'typeorm';
-import { SourceType, SourceStatus } from '@shared/types';
+import { SourceType, SourceStatus, ChunkingStrategy } from '@shared/types';
 
 /**
  * TypeORM Model for KnowledgeSource
@@ -28,6 +28,8 @@ import { SourceType, SourceStatus } from '@shared/types';
 @Entity('knowledge_sources')
 @Index(['sectorId', 'status'])
 @Index(['status'])
+@Index(['nextRefreshAt'])
+@Index(['sectorId', 'category'])
 export class KnowledgeSourceModel {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -41,13 +43,27 @@ export class KnowledgeSourceModel {
   @Column({
     name: 'source_type',
     type: 'enum',
-    enum: ['PDF', 'MARKDOWN', 'TEXT', 'URL'],
+    enum: ['PDF', 'MARKDOWN', 'DOCX', 'HTML', 'TEXT', 'CSV', 'URL'],
   })
   sourceType!: SourceType;
 
   @Column({ type: 'text' })
   content!: string;
 
+  @Column({ type: 'int', default: 1 })
+  version: number = 1;
+
+  @Column({ name: 'indexed_version', type: 'int', nullable: true })
+  indexedVersion: number | null = null;
+
+  @Column({
+    name: 'chunking_strategy',
+    type: 'varchar',
+    length: 20,
+    default: ChunkingStrategy.FIXED_WINDOW,
+  })
+  chunkingStrategy: ChunkingStrategy = ChunkingStrategy.FIXED_WINDOW;
+
   @Column({
     type: 'enum',
     enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
@@ -58,9 +74,52 @@ export class KnowledgeSourceModel {
   @Column({ name: 'error_message', type: 'text', nullable: true })
   errorMessage: string | null = null;
 
+  @Column({
+    name: 'processing_step',
+    type: 'varchar',
+    length: 30,
+    nullable: true,
+  })
+  processingStep: string | null = null;
+
+  @Column({ name: 'processing_progress', type: 'smallint', nullable: true })
+  processingProgress: number | null = null;
+
+  @Column({ name: 'content_hash', type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null = null;
+
+  /** MinHash signature (unsigned 32-bit integers, too large for int[]) */
+  @Column({ name: 'content_signature', type: 'jsonb', nullable: true })
+  contentSignature: number[] | null = null;
+
+  @Column({ name: 'refresh_interval_minutes', type: 'int', nullable: true })
+  refreshIntervalMinutes: number | null = null;
+
+  @Column({ name: 'next_refresh_at', type: 'timestamptz', nullable: true })
+  nextRefreshAt: Date | null = null;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata: Record<string, unknown> | null = null;
 
+  /**
+   * Uploaded PDF kept until the ingestion job has recognized its scanned
+   * pages (not loaded with the source)
+   */
+  @Column({
+    name: 'pending_ocr_file',
+    type: 'bytea',
+    nullable: true,
+    select: false,
+  })
+  pendingOcrFile?: Buffer | null;
+
+  /** GIN-indexed (idx_knowledge_sources_tags, created by migration) */
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  tags: string[] = [];
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  category: string | null = null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date = new Date();
 
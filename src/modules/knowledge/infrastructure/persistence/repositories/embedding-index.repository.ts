@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, QueryFailedError } from 'typeorm';
+import { IEmbeddingIndexRepository } from '../../../domain/repositories/embedding-index.repository.interface';
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../domain/entities/embedding-index.entity';
+import { EmbeddingIndexModel } from '../models/embedding-index.model';
+import { FragmentModel } from '../models/fragment.model';
+import { EmbeddingIndexMapper } from '../mappers/embedding-index.mapper';
+
+// PostgreSQL error codes (OWASP: Magic Numbers)
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Embedding Index Repository Implementation
+ *
+ * Implements IEmbeddingIndexRepository using TypeORM.
+ * The read path of a sector is switched in one transaction, so the ACTIVE
+ * index and the profile recorded on the fragments never disagree.
+ * Saves breaking the uniqueness of a sector's indexes (one ACTIVE, one
+ * BUILDING, one per generation) are reported as conflicts: another
+ * request changed the indexes of the sector concurrently.
+ */
+@Injectable()
+export class EmbeddingIndexRepository implements IEmbeddingIndexRepository {
+  constructor(
+    @InjectRepository(EmbeddingIndexModel)
+    private readonly indexRepository: Repository<EmbeddingIndexModel>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async save(index: EmbeddingIndex): Promise<EmbeddingIndex> {
+    const model = EmbeddingIndexMapper.toModel(index);
+    try {
+      const saved = await this.indexRepository.save(model);
+      return EmbeddingIndexMapper.toDomain(saved);
+    } catch (error: unknown) {
+      if (isUniqueViolation(error)) {
+        throw new Error(
+          `Embedding index conflict: the indexes of sector ${index.sectorId} were changed concurrently`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<EmbeddingIndex | null> {
+    const model = await this.indexRepository.findOne({ where: { id } });
+    return model ? EmbeddingIndexMapper.toDomain(model) : null;
+  }
+
+  async findBySector(sectorId: string): Promise<EmbeddingIndex[]> {
+    const models = await this.indexRepository.find({
+      where: { sectorId },
+      order: { generation: 'DESC' },
+    });
+    return EmbeddingIndexMapper.toDomainArray(models);
+  }
+
+  async findActiveBySector(sectorId: string): Promise<EmbeddingIndex | null> {
+    const model = await this.indexRepository.findOne({
+      where: { sectorId, status: EmbeddingIndexStatus.ACTIVE },
+    });
+    return model ? EmbeddingIndexMapper.toDomain(model) : null;
+  }
+
+  async switchActive(
+    activated: EmbeddingIndex,
+    retired: EmbeddingIndex,
+  ): Promise<EmbeddingIndex> {
+    const activatedModel = EmbeddingIndexMapper.toModel(activated);
+    const retiredModel = EmbeddingIndexMapper.toModel(retired);
+    const saved = await this.dataSource.transaction(async (manager) => {
+      // Retire first: one ACTIVE index per sector (partial unique index)
+      await manager.save(EmbeddingIndexModel, retiredModel);
+      const savedModel = await manager.save(
+        EmbeddingIndexModel,
+        activatedModel,
+      );
+      await manager
+        .createQueryBuilder()
+        .update(FragmentModel)
+        .set({
+          embeddingModel: savedModel.embeddingModel,
+          embeddingDimensions: savedModel.embeddingDimensions,
+        })
+        .where(
+          'source_id IN (SELECT id FROM knowledge_sources WHERE sector_id = :sectorId)',
+          { sectorId: savedModel.sectorId },
+        )
+        .execute();
+      return savedModel;
+    });
+    return EmbeddingIndexMapper.toDomain(saved);
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof QueryFailedError &&
+    (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+  );
+}
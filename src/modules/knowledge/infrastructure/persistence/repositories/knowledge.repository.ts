@@ -1,14 +1,112 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, IsNull } from 'typeorm';
-import { IKnowledgeRepository } from '../../../domain/repositories/knowledge.repository.interface';
+import {
+  Repository,
+  DataSource,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  MoreThan,
+  Not,
+  SelectQueryBuilder,
+} from 'typeorm';
+import {
+  IKnowledgeRepository,
+  FragmentTextSearchResult,
+  FragmentTextSearchFilter,
+  FragmentIndexEntry,
+  FragmentSearchHit,
+  FragmentSearchOptions,
+  FragmentPage,
+  FragmentUsage,
+  FragmentLanguageCount,
+  SourceSignature,
+} from '../../../domain/repositories/knowledge.repository.interface';
 import { KnowledgeSource } from '../../../domain/entities/knowledge-source.entity';
 import { Fragment } from '../../../domain/entities/fragment.entity';
+import { KnowledgeSourceRevision } from '../../../domain/entities/knowledge-source-revision.entity';
 import { KnowledgeSourceModel } from '../models/knowledge-source.model';
 import { FragmentModel } from '../models/fragment.model';
+import { KnowledgeSourceRevisionModel } from '../models/knowledge-source-revision.model';
 import { KnowledgeSourceMapper } from '../mappers/knowledge-source.mapper';
 import { FragmentMapper } from '../mappers/fragment.mapper';
-import { SourceStatus } from '@shared/types';
+import { KnowledgeSourceRevisionMapper } from '../mappers/knowledge-source-revision.mapper';
+import { SourceStatus, SourceType } from '@shared/types';
+
+/** Query-builder condition excluding soft-deleted sources (alias `source`) */
+const SOURCE_NOT_DELETED = 'source.deleted_at IS NULL';
+/** Sector column of a source (alias `source`) */
+const SOURCE_SECTOR_ID = 'source.sector_id';
+/** Query-builder condition on the sector of a source (alias `source`) */
+const SOURCE_IN_SECTOR = 'source.sector_id = :sectorId';
+/** Fragment ID column (alias `fragment`) */
+const FRAGMENT_ID = 'fragment.id';
+/** Detected content language column (alias `fragment`) */
+const FRAGMENT_LANGUAGE = 'fragment.language';
+/** Condition keeping fragments of the version served to search */
+const FRAGMENT_SERVED = 'fragment.source_version = source.indexed_version';
+/** Condition leaving out fragments excluded from retrieval by a curator */
+const FRAGMENT_NOT_EXCLUDED = 'NOT fragment.excluded';
+
+/**
+ * Full-text search settings.
+ * The tsvector expression must match the GIN index created in
+ * 1741500000000-AddHybridSearchSupport, otherwise Postgres falls back to a seq scan.
+ */
+const FTS_VECTOR = "to_tsvector('simple', fragment.content)";
+const FTS_QUERY = "to_tsquery('simple', :tsQuery)";
+/** ts_rank_cd normalisation flag 32: rank / (rank + 1), maps scores into [0, 1) */
+const FTS_RANK_NORMALIZATION = 32;
+/** Upper bound on OR-ed terms to keep the tsquery cheap for long questions */
+const FTS_MAX_TERMS = 20;
+const FTS_MIN_TERM_LENGTH = 2;
+
+/** Content search: all terms must match; quotes and -exclusions supported */
+const FTS_WEB_QUERY = "websearch_to_tsquery('simple', :query)";
+/**
+ * ts_headline markers around matched terms. Private-use characters cannot
+ * occur in parsed documents, so they survive HTML escaping unambiguously.
+ */
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+  'MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+interface FragmentSearchRow {
+  fragment_id: string;
+  source_id: string;
+  source_title: string;
+  sector_id: string;
+  position: number;
+  headline: string;
+  fts_score: string;
+}
+
+/**
+ * HTML-escapes a ts_headline result and turns its markers into <mark> tags
+ */
+function toHighlightedSnippet(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_STOP, '</mark>');
+}
+
+/**
+ * Builds an OR tsquery from free text: "POL-12 vacation?" → "pol | 12 | vacation".
+ * Only letters and digits survive, so user input cannot inject tsquery operators.
+ */
+function buildOrTsQuery(text: string): string {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const unique = [
+    ...new Set(terms.filter((t) => t.length >= FTS_MIN_TERM_LENGTH)),
+  ];
+  return unique.slice(0, FTS_MAX_TERMS).join(' | ');
+}
 
 /**
  * TypeORM Knowledge Repository Implementation
@@ -41,6 +139,8 @@ export class KnowledgeRepository implements IKnowledgeRepository {
     private readonly sourceRepository: Repository<KnowledgeSourceModel>,
     @InjectRepository(FragmentModel)
     private readonly fragmentRepository: Repository<FragmentModel>,
+    @InjectRepository(KnowledgeSourceRevisionModel)
+    private readonly revisionRepository: Repository<KnowledgeSourceRevisionModel>,
     private readonly dataSource: DataSource,
   ) {}
 
@@ -52,11 +152,30 @@ export class KnowledgeRepository implements IKnowledgeRepository {
     return KnowledgeSourceMapper.toDomain(saved);
   }
 
+  async saveSources(sources: KnowledgeSource[]): Promise<KnowledgeSource[]> {
+    const models = sources.map((s) => KnowledgeSourceMapper.toModel(s));
+    const saved = await this.dataSource.transaction((manager) =>
+      manager.save(KnowledgeSourceModel, models),
+    );
+    return KnowledgeSourceMapper.toDomainArray(saved);
+  }
+
   async findSourceById(id: string): Promise<KnowledgeSource | null> {
     const model = await this.sourceRepository.findOne({ where: { id } });
     return model ? KnowledgeSourceMapper.toDomain(model) : null;
   }
 
+  async findSourcesByIds(ids: string[]): Promise<KnowledgeSource[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const models = await this.sourceRepository.find({
+      where: { id: In(ids), deletedAt: IsNull() },
+    });
+    return KnowledgeSourceMapper.toDomainArray(models);
+  }
+
   async findSourcesBySector(
     sectorId: string,
     includeDeleted = false,
@@ -114,11 +233,11 @@ export class KnowledgeRepository implements IKnowledgeRepository {
     const results: Array<{ sector_id: string; count: string }> =
       await this.sourceRepository
         .createQueryBuilder('source')
-        .select('source.sector_id', 'sector_id')
+        .select(SOURCE_SECTOR_ID, 'sector_id')
         .addSelect('COUNT(*)', 'count')
         .where('source.sector_id IN (:...sectorIds)', { sectorIds })
-        .andWhere('source.deleted_at IS NULL')
-        .groupBy('source.sector_id')
+        .andWhere(SOURCE_NOT_DELETED)
+        .groupBy(SOURCE_SECTOR_ID)
         .getRawMany();
 
     const countsMap = new Map<string, number>();
@@ -134,6 +253,136 @@ export class KnowledgeRepository implements IKnowledgeRepository {
     });
   }
 
+  async findSourcesDueForRefresh(
+    now: Date,
+    limit: number,
+  ): Promise<KnowledgeSource[]> {
+    const due = {
+      sourceType: SourceType.URL,
+      nextRefreshAt: LessThanOrEqual(now),
+      deletedAt: IsNull(),
+    };
+    const models = await this.sourceRepository.find({
+      where: [
+        { ...due, status: SourceStatus.COMPLETED },
+        // A failed re-index is retried; the indexed version is still served
+        { ...due, status: SourceStatus.FAILED, indexedVersion: Not(IsNull()) },
+      ],
+      order: { nextRefreshAt: 'ASC' },
+      take: limit,
+    });
+    return KnowledgeSourceMapper.toDomainArray(models);
+  }
+
+  async findSectorIdsWithSources(): Promise<string[]> {
+    const results: Array<{ sector_id: string }> = await this.sourceRepository
+      .createQueryBuilder('source')
+      .select('DISTINCT source.sector_id', 'sector_id')
+      .where(SOURCE_NOT_DELETED)
+      .getRawMany();
+
+    return results.map((row) => row.sector_id);
+  }
+
+  async findSourceByContentHash(
+    sectorId: string,
+    contentHash: string,
+  ): Promise<KnowledgeSource | null> {
+    const model = await this.sourceRepository.findOne({
+      where: {
+        sectorId,
+        contentHash,
+        status: Not(SourceStatus.FAILED),
+        deletedAt: IsNull(),
+      },
+      order: { createdAt: 'ASC' },
+    });
+    return model ? KnowledgeSourceMapper.toDomain(model) : null;
+  }
+
+  async findSourceSignatures(sectorId: string): Promise<SourceSignature[]> {
+    const models = await this.sourceRepository.find({
+      select: { id: true, title: true, contentSignature: true },
+      where: {
+        sectorId,
+        contentSignature: Not(IsNull()),
+        status: Not(SourceStatus.FAILED),
+        deletedAt: IsNull(),
+      },
+    });
+    return models.map((model) => ({
+      sourceId: model.id,
+      title: model.title,
+      signature: model.contentSignature ?? [],
+    }));
+  }
+
+  async findIndexedSourcePage(
+    sectorId: string,
+    afterId: string | undefined,
+    limit: number,
+  ): Promise<KnowledgeSource[]> {
+    const models = await this.sourceRepository.find({
+      where: {
+        sectorId,
+        indexedVersion: Not(IsNull()),
+        deletedAt: IsNull(),
+        ...(afterId !== undefined && { id: MoreThan(afterId) }),
+      },
+      order: { id: 'ASC' },
+      take: limit,
+    });
+    return KnowledgeSourceMapper.toDomainArray(models);
+  }
+
+  async savePendingOcrFile(sourceId: string, file: Buffer): Promise<void> {
+    await this.sourceRepository.update(sourceId, { pendingOcrFile: file });
+  }
+
+  async findPendingOcrFile(sourceId: string): Promise<Buffer | null> {
+    const model = await this.sourceRepository
+      .createQueryBuilder('source')
+      .select('source.id')
+      .addSelect('source.pendingOcrFile')
+      .where('source.id = :sourceId', { sourceId })
+      .getOne();
+    return model?.pendingOcrFile ?? null;
+  }
+
+  async clearPendingOcrFile(sourceId: string): Promise<void> {
+    await this.sourceRepository.update(sourceId, { pendingOcrFile: null });
+  }
+
+  // ==================== Revision Operations ====================
+
+  async saveRevision(
+    revision: KnowledgeSourceRevision,
+  ): Promise<KnowledgeSourceRevision> {
+    const model = KnowledgeSourceRevisionMapper.toModel(revision);
+    const saved = await this.revisionRepository.save(model);
+    return KnowledgeSourceRevisionMapper.toDomain(saved);
+  }
+
+  async findRevisionsBySource(
+    sourceId: string,
+  ): Promise<KnowledgeSourceRevision[]> {
+    const models = await this.revisionRepository.find({
+      where: { sourceId },
+      order: { createdAt: 'DESC' },
+    });
+    return KnowledgeSourceRevisionMapper.toDomainArray(models);
+  }
+
+  async findRevisionBySourceAndVersion(
+    sourceId: string,
+    version: number,
+  ): Promise<KnowledgeSourceRevision | null> {
+    const model = await this.revisionRepository.findOne({
+      where: { sourceId, version },
+    });
+    return model ? KnowledgeSourceRevisionMapper.toDomain(model) : null;
+  }
+
   // ==================== Fragment Operations ====================
 
   async saveFragments(fragments: Fragment[]): Promise<Fragment[]> {
@@ -158,14 +407,249 @@ export class KnowledgeRepository implements IKnowledgeRepository {
     return FragmentMapper.toDomainArray(models);
   }
 
+  async findFragmentPage(
+    sourceId: string,
+    sourceVersion: number,
+    limit: number,
+    offset: number,
+  ): Promise<FragmentPage> {
+    const [models, total] = await this.fragmentRepository.findAndCount({
+      where: { sourceId, sourceVersion },
+      order: { position: 'ASC' },
+      skip: offset,
+      take: limit,
+    });
+    return { fragments: FragmentMapper.toDomainArray(models), total };
+  }
+
+  async updateFragments(
+    fragments: Fragment[],
+    deletedIds: string[],
+  ): Promise<Fragment[]> {
+    const models = fragments.map((f) => FragmentMapper.toModel(f));
+    const saved = await this.dataSource.transaction(async (manager) => {
+      if (deletedIds.length > 0) {
+        await manager.delete(FragmentModel, { id: In(deletedIds) });
+      }
+      return manager.save(FragmentModel, models);
+    });
+    return FragmentMapper.toDomainArray(saved);
+  }
+
   async deleteFragmentsBySource(sourceId: string): Promise<void> {
     await this.fragmentRepository.delete({ sourceId });
   }
 
+  async deleteFragmentsByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.fragmentRepository.delete({ id: In(ids) });
+  }
+
+  async activateSourceVersion(
+    source: KnowledgeSource,
+  ): Promise<KnowledgeSource> {
+    const model = KnowledgeSourceMapper.toModel(source);
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const savedModel = await manager.save(KnowledgeSourceModel, model);
+      await manager.delete(FragmentModel, {
+        sourceId: savedModel.id,
+        sourceVersion: Not(savedModel.version),
+      });
+      return savedModel;
+    });
+    return KnowledgeSourceMapper.toDomain(saved);
+  }
+
   async countFragmentsBySource(sourceId: string): Promise<number> {
     return this.fragmentRepository.count({ where: { sourceId } });
   }
 
+  async getFragmentUsageBySector(sectorId: string): Promise<FragmentUsage> {
+    const result:
+      | { fragments: string | null; tokens: string | null }
+      | undefined = await this.fragmentsWithSource()
+      .select('COUNT(*)', 'fragments')
+      .addSelect('SUM(fragment.token_count)', 'tokens')
+      .where(SOURCE_IN_SECTOR, { sectorId })
+      .andWhere(FRAGMENT_SERVED)
+      .andWhere(SOURCE_NOT_DELETED)
+      .getRawOne();
+
+    // COUNT and SUM come back as strings (bigint), SUM as NULL without rows
+    return {
+      fragments: parseInt(result?.fragments ?? '0', 10),
+      tokens: parseInt(result?.tokens ?? '0', 10),
+    };
+  }
+
+  async countFragmentsByLanguage(
+    sectorId: string,
+  ): Promise<FragmentLanguageCount[]> {
+    const results: Array<{ language: string; fragments: string }> =
+      await this.fragmentsWithSource()
+        .select(FRAGMENT_LANGUAGE, 'language')
+        .addSelect('COUNT(*)', 'fragments')
+        .where(SOURCE_IN_SECTOR, { sectorId })
+        .andWhere(FRAGMENT_SERVED)
+        .andWhere(FRAGMENT_NOT_EXCLUDED)
+        .andWhere(SOURCE_NOT_DELETED)
+        .andWhere(`${FRAGMENT_LANGUAGE} IS NOT NULL`)
+        .groupBy(FRAGMENT_LANGUAGE)
+        .orderBy('COUNT(*)', 'DESC')
+        .addOrderBy(FRAGMENT_LANGUAGE)
+        .getRawMany();
+
+    return results.map((row) => ({
+      language: row.language,
+      fragments: parseInt(row.fragments, 10),
+    }));
+  }
+
+  async findFragmentIndexEntries(
+    sectorId: string,
+  ): Promise<FragmentIndexEntry[]> {
+    const results: Array<{
+      id: string;
+      source_id: string;
+      indexed: boolean | null;
+      status: SourceStatus;
+      updated_at: Date;
+    }> = await this.fragmentsWithSource()
+      .select(FRAGMENT_ID, 'id')
+      .addSelect('fragment.source_id', 'source_id')
+      .addSelect(`${FRAGMENT_SERVED} AND ${FRAGMENT_NOT_EXCLUDED}`, 'indexed')
+      .addSelect('source.status', 'status')
+      .addSelect('fragment.updated_at', 'updated_at')
+      .where(SOURCE_IN_SECTOR, { sectorId })
+      .andWhere(SOURCE_NOT_DELETED)
+      .getRawMany();
+
+    return results.map((row) => ({
+      id: row.id,
+      sourceId: row.source_id,
+      // NULL when the source has never been indexed
+      indexed: row.indexed === true,
+      processing: row.status === SourceStatus.PROCESSING,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async searchFragmentsByText(
+    query: string,
+    sectorId: string,
+    limit: number,
+    filter: FragmentTextSearchFilter = {},
+  ): Promise<FragmentTextSearchResult[]> {
+    const tsQuery = buildOrTsQuery(query);
+    if (!tsQuery) {
+      return [];
+    }
+
+    const queryBuilder = this.fragmentsWithSource()
+      .addSelect(
+        `ts_rank_cd(${FTS_VECTOR}, ${FTS_QUERY}, ${FTS_RANK_NORMALIZATION})`,
+        'fts_score',
+      )
+      .where(`${FTS_VECTOR} @@ ${FTS_QUERY}`, { tsQuery })
+      .andWhere(SOURCE_IN_SECTOR, { sectorId })
+      .andWhere(FRAGMENT_SERVED)
+      .andWhere(FRAGMENT_NOT_EXCLUDED)
+      .andWhere(SOURCE_NOT_DELETED);
+    if (filter.sourceIds?.length) {
+      queryBuilder.andWhere('source.id IN (:...sourceIds)', {
+        sourceIds: filter.sourceIds,
+      });
+    }
+    if (filter.tags?.length) {
+      queryBuilder.andWhere('source.tags && ARRAY[:...tags]::text[]', {
+        tags: filter.tags,
+      });
+    }
+
+    const { entities, raw } = await queryBuilder
+      .orderBy('fts_score', 'DESC')
+      .limit(limit)
+      .getRawAndEntities<{ fragment_id: string; fts_score: string }>();
+
+    const scores = new Map(
+      raw.map((row) => [row.fragment_id, parseFloat(row.fts_score)]),
+    );
+
+    return entities.map((model) => ({
+      fragment: FragmentMapper.toDomain(model),
+      score: scores.get(model.id) ?? 0,
+    }));
+  }
+
+  async searchFragmentContent(
+    query: string,
+    options: FragmentSearchOptions,
+  ): Promise<FragmentSearchHit[]> {
+    if (options.sectorIds?.length === 0) {
+      return [];
+    }
+
+    const queryBuilder = this.fragmentsWithSource()
+      .select(FRAGMENT_ID, 'fragment_id')
+      .addSelect('fragment.source_id', 'source_id')
+      .addSelect('source.title', 'source_title')
+      .addSelect(SOURCE_SECTOR_ID, 'sector_id')
+      .addSelect('fragment.position', 'position')
+      .addSelect(
+        `ts_headline('simple', fragment.content, ${FTS_WEB_QUERY}, :headlineOptions)`,
+        'headline',
+      )
+      .addSelect(
+        `ts_rank_cd(${FTS_VECTOR}, ${FTS_WEB_QUERY}, ${FTS_RANK_NORMALIZATION})`,
+        'fts_score',
+      )
+      .where(`${FTS_VECTOR} @@ ${FTS_WEB_QUERY}`, {
+        query,
+        headlineOptions: HEADLINE_OPTIONS,
+      })
+      .andWhere(FRAGMENT_SERVED)
+      .andWhere(FRAGMENT_NOT_EXCLUDED)
+      .andWhere(SOURCE_NOT_DELETED);
+    if (options.sectorIds) {
+      queryBuilder.andWhere('source.sector_id IN (:...sectorIds)', {
+        sectorIds: options.sectorIds,
+      });
+    }
+
+    const rows = await queryBuilder
+      .orderBy('fts_score', 'DESC')
+      .addOrderBy(FRAGMENT_ID)
+      .offset(options.offset)
+      .limit(options.limit)
+      .getRawMany<FragmentSearchRow>();
+
+    return rows.map((row) => ({
+      fragmentId: row.fragment_id,
+      sourceId: row.source_id,
+      sourceTitle: row.source_title,
+      sectorId: row.sector_id,
+      position: Number(row.position),
+      snippet: toHighlightedSnippet(row.headline),
+      score: parseFloat(row.fts_score),
+    }));
+  }
+
+  /**
+   * Query over fragments (alias `fragment`) joined to their source
+   * (alias `source`)
+   */
+  private fragmentsWithSource(): SelectQueryBuilder<FragmentModel> {
+    return this.fragmentRepository
+      .createQueryBuilder('fragment')
+      .innerJoin(
+        KnowledgeSourceModel,
+        'source',
+        'source.id = fragment.source_id',
+      );
+  }
+
   // ==================== Transaction Support ====================
 
   /**
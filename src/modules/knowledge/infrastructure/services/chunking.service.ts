@@ -1,22 +1,88 @@
 import { Injectable, Optional } from '@nestjs/common';
+import {
+  MarkdownBlockParser,
+  type MarkdownBlock,
+} from './markdown-block.parser';
 
 // Constants for chunking configuration (OWASP: Magic Numbers)
 const DEFAULT_CHUNK_SIZE = 500;
 const DEFAULT_OVERLAP = 50;
 const DEFAULT_MIN_CHUNK_SIZE = 100;
 const TOKENS_PER_WORD_ESTIMATE = 1.3; // Average: 1.3 tokens per word (accounts for punctuation, subwords)
+const HEADING_PATH_SEPARATOR = ' > ';
+const TABLE_HEADER_LINES = 2;
+const BLOCK_SEPARATOR = '\n\n';
+const WORD = /\S+/g;
+const TABLE_DELIMITER_LINE = /^\s{0,10}\|?\s{0,10}:?-{3,100}:?\s{0,10}\|/;
+const TOP_LEVEL_LIST_ITEM = /^(?:[-*+]|\d{1,9}[.)])[ \t]/;
+
+/**
+ * Formats a heading path for display and embedding ("Policies > Vacations")
+ * @param headingPath - Heading titles from the top level down
+ */
+export function formatHeadingPath(headingPath: ReadonlyArray<string>): string {
+  return headingPath.join(HEADING_PATH_SEPARATOR);
+}
+
+/**
+ * Prepends the heading path to a fragment's embedding text, so sections
+ * whose body never names the topic still match queries about it
+ * @param text - Embedding text of the fragment
+ * @param headingPath - Headings the fragment sits under (may be empty)
+ */
+export function withHeadingPath(
+  text: string,
+  headingPath?: ReadonlyArray<string>,
+): string {
+  return headingPath && headingPath.length > 0
+    ? `${formatHeadingPath(headingPath)}\n\n${text}`
+    : text;
+}
+
+/**
+ * A piece of the document that is kept whole when possible
+ */
+interface ChunkUnit {
+  text: string;
+  start: number;
+  end: number;
+  words: number;
+}
+
+interface Heading {
+  level: number;
+  title: string;
+}
+
+/**
+ * Consecutive units under the same headings
+ */
+interface Section {
+  /** Enclosing headings, top level first (shared objects across sections) */
+  headings: Heading[];
+  units: ChunkUnit[];
+}
 
 /**
  * Chunking Service
  *
- * Implements sliding window algorithm to split text into overlapping chunks.
- * Used for preparing documents for vector embedding and RAG retrieval.
+ * Splits documents into chunks for vector embedding and RAG retrieval.
+ * Two strategies (see ChunkingStrategy):
  *
- * Algorithm:
+ * Fixed window (`chunk`):
  * - Splits text into chunks of ~500 tokens
  * - Maintains 50 token overlap between consecutive chunks
  * - Ensures chunks meet minimum size requirements
  *
+ * Structured (`chunkByStructure`), for the Markdown stored on sources:
+ * - Starts a new chunk at every heading and records the heading path
+ * - Packs whole paragraphs, lists, tables and code blocks up to ~500 tokens
+ * - Only splits a block that is larger than a chunk on its own: tables
+ *   between rows (repeating the header), lists between top-level items,
+ *   anything else with the sliding window
+ * - Merges sections under ~100 tokens with a neighbour; the chunk then keeps
+ *   the shared heading path and the sub-headings as Markdown lines
+ *
  * Security:
  * - Input validation (OWASP)
  * - Bounded operations (no ReDoS)
@@ -25,6 +91,7 @@ const TOKENS_PER_WORD_ESTIMATE = 1.3; // Average: 1.3 tokens per word (accounts
 @Injectable()
 export class ChunkingService {
   private readonly config: ChunkingConfig;
+  private readonly blockParser = new MarkdownBlockParser();
 
   constructor(@Optional() config?: Partial<ChunkingConfig>) {
     this.config = {
@@ -127,6 +194,60 @@ export class ChunkingService {
     return chunks;
   }
 
+  /**
+   * Chunks Markdown along its structure (headings, paragraphs, lists,
+   * tables and code blocks)
+   * @param markdown - The Markdown text to chunk
+   * @returns Array of chunks with their heading paths
+   */
+  public chunkByStructure(markdown: string): TextChunk[] {
+    this.validateInput(markdown);
+
+    const text = markdown.replace(/\r\n?/g, '\n');
+    const sections: Section[] = [];
+    const headings: Heading[] = [];
+    let pending: ChunkUnit[] = [];
+
+    const flush = (): void => {
+      if (pending.length > 0) {
+        sections.push({ headings: [...headings], units: pending });
+        pending = [];
+      }
+    };
+
+    for (const block of this.blockParser.parse(text)) {
+      if (block.kind === 'heading') {
+        flush();
+        const level = block.level ?? 1;
+        while ((headings.at(-1)?.level ?? 0) >= level) {
+          headings.pop();
+        }
+        headings.push({ level, title: block.text });
+        continue;
+      }
+
+      const unit = this.toUnit(block.text, block.start, block.end);
+      if (unit.words > this.config.chunkSize) {
+        flush();
+        for (const piece of this.splitBlock(block)) {
+          pending = [piece];
+          flush();
+        }
+        continue;
+      }
+
+      if (this.countWords(pending) + unit.words > this.config.chunkSize) {
+        flush();
+      }
+      pending.push(unit);
+    }
+    flush();
+
+    return this.groupSections(sections).map((group, position) =>
+      this.toChunk(group, position),
+    );
+  }
+
   /**
    * Estimates token count for text
    * Uses approximation: ~1.3 tokens per word (accounts for punctuation, subwords)
@@ -151,6 +272,264 @@ export class ChunkingService {
     return { ...this.config };
   }
 
+  /**
+   * Merges sections smaller than the minimum chunk size with their
+   * neighbours (e.g. a one-line section between two headings), as long as
+   * the result still fits in one chunk. Groups that are still too small are
+   * then merged into the previous (or next) group regardless of size, like
+   * the small remainder of the fixed window.
+   */
+  private groupSections(sections: Section[]): Section[][] {
+    const groups: Section[][] = [];
+    for (const section of sections) {
+      const group = groups.at(-1);
+      const groupWords = group ? this.countGroupWords(group) : 0;
+      const sectionWords = this.countWords(section.units);
+      const isSmall =
+        groupWords < this.config.minChunkSize ||
+        sectionWords < this.config.minChunkSize;
+
+      if (
+        group &&
+        isSmall &&
+        groupWords + sectionWords <= this.config.chunkSize
+      ) {
+        group.push(section);
+      } else {
+        groups.push([section]);
+      }
+    }
+
+    const merged: Section[][] = [];
+    for (const group of groups) {
+      const previous = merged.at(-1);
+      if (
+        previous &&
+        (this.countGroupWords(previous) < this.config.minChunkSize ||
+          this.countGroupWords(group) < this.config.minChunkSize)
+      ) {
+        previous.push(...group);
+      } else {
+        merged.push(group);
+      }
+    }
+    return merged;
+  }
+
+  private countGroupWords(group: ReadonlyArray<Section>): number {
+    return group.reduce(
+      (sum, section) => sum + this.countWords(section.units),
+      0,
+    );
+  }
+
+  /**
+   * Builds a chunk from grouped sections. The heading path is the part all
+   * sections share; deeper headings are kept as Markdown lines in the content.
+   */
+  private toChunk(group: Section[], position: number): TextChunk {
+    const shared = this.sharedHeadingCount(group);
+    const parts: string[] = [];
+    let previous = group[0].headings.slice(0, shared);
+
+    for (const section of group) {
+      let depth = shared;
+      while (
+        depth < section.headings.length &&
+        section.headings.at(depth) === previous.at(depth)
+      ) {
+        depth++;
+      }
+      for (const heading of section.headings.slice(depth)) {
+        parts.push(`${'#'.repeat(heading.level)} ${heading.title}`);
+      }
+      parts.push(...section.units.map((unit) => unit.text));
+      previous = section.headings;
+    }
+
+    const units = group.flatMap((section) => section.units);
+    const content = parts.join(BLOCK_SEPARATOR);
+    return {
+      content,
+      position,
+      tokens: this.tokenize(content).length,
+      startIndex: units[0].start,
+      endIndex: units[units.length - 1].end,
+      headingPath: group[0].headings
+        .slice(0, shared)
+        .map((heading) => heading.title),
+    };
+  }
+
+  /**
+   * Number of leading headings all sections of a group have in common
+   */
+  private sharedHeadingCount(group: Section[]): number {
+    const [first, ...rest] = group;
+    let count = 0;
+    while (
+      count < first.headings.length &&
+      rest.every(
+        (section) => section.headings.at(count) === first.headings.at(count),
+      )
+    ) {
+      count++;
+    }
+    return count;
+  }
+
+  private countWords(units: ReadonlyArray<ChunkUnit>): number {
+    return units.reduce((sum, unit) => sum + unit.words, 0);
+  }
+
+  private toUnit(text: string, start: number, end: number): ChunkUnit {
+    return { text, start, end, words: this.tokenize(text).length };
+  }
+
+  /**
+   * Splits a block that does not fit in one chunk
+   */
+  private splitBlock(block: MarkdownBlock): ChunkUnit[] {
+    switch (block.kind) {
+      case 'table':
+        return this.splitTable(block);
+      case 'list':
+        return this.groupUnits(
+          this.splitLines(block, (line) => TOP_LEVEL_LIST_ITEM.test(line)),
+        );
+      default:
+        return this.splitByWords(block.text, block.start);
+    }
+  }
+
+  /**
+   * Splits a table between rows, repeating the header in every piece
+   */
+  private splitTable(block: MarkdownBlock): ChunkUnit[] {
+    const lines = this.splitLines(block, () => true);
+    const hasHeader =
+      lines.length > TABLE_HEADER_LINES &&
+      TABLE_DELIMITER_LINE.test(lines[1].text);
+    if (!hasHeader) {
+      return this.groupUnits(lines);
+    }
+
+    const header = lines.slice(0, TABLE_HEADER_LINES);
+    const headerText = header.map((line) => line.text).join('\n');
+    const headerWords = header.reduce((sum, line) => sum + line.words, 0);
+    return this.groupUnits(
+      lines.slice(TABLE_HEADER_LINES),
+      headerWords,
+      '\n',
+    ).map((piece) => ({
+      ...piece,
+      text: `${headerText}\n${piece.text}`,
+      words: piece.words + headerWords,
+    }));
+  }
+
+  /**
+   * Cuts a block into units, starting a new unit at every line that
+   * matches `startsUnit` (continuation lines stay with their unit)
+   */
+  private splitLines(
+    block: MarkdownBlock,
+    startsUnit: (line: string) => boolean,
+  ): ChunkUnit[] {
+    const units: Array<{ start: number; end: number }> = [];
+    let offset = block.start;
+    for (const line of block.text.split('\n')) {
+      const end = offset + line.length;
+      const last = units.at(-1);
+      if (last === undefined || startsUnit(line)) {
+        units.push({ start: offset, end });
+      } else {
+        last.end = end;
+      }
+      offset = end + 1;
+    }
+    return units.map(({ start, end }) =>
+      this.toUnit(
+        block.text.slice(start - block.start, end - block.start).trimEnd(),
+        start,
+        end,
+      ),
+    );
+  }
+
+  /**
+   * Packs consecutive units into pieces of at most one chunk; units larger
+   * than that are split by words
+   * @param reserved - Words already taken in every piece (e.g. a table header)
+   * @param separator - Text placed between units of a piece
+   */
+  private groupUnits(
+    units: ChunkUnit[],
+    reserved = 0,
+    separator = '\n',
+  ): ChunkUnit[] {
+    const limit = this.config.chunkSize - reserved;
+    const pieces: ChunkUnit[] = [];
+    let current: ChunkUnit | undefined;
+
+    for (const unit of units) {
+      if (unit.words > limit) {
+        if (current) {
+          pieces.push(current);
+          current = undefined;
+        }
+        pieces.push(...this.splitByWords(unit.text, unit.start, limit));
+      } else if (current && current.words + unit.words <= limit) {
+        current = {
+          text: `${current.text}${separator}${unit.text}`,
+          start: current.start,
+          end: unit.end,
+          words: current.words + unit.words,
+        };
+      } else {
+        if (current) {
+          pieces.push(current);
+        }
+        current = unit;
+      }
+    }
+    if (current) {
+      pieces.push(current);
+    }
+    return pieces;
+  }
+
+  /**
+   * Sliding window over the words of a block, keeping character offsets
+   */
+  private splitByWords(
+    text: string,
+    offset: number,
+    size = this.config.chunkSize,
+  ): ChunkUnit[] {
+    const words = Array.from(text.matchAll(WORD), (match) => ({
+      text: match[0],
+      start: offset + match.index,
+    }));
+    const overlap = Math.min(this.config.overlap, size - 1);
+    const pieces: ChunkUnit[] = [];
+
+    for (let first = 0; first < words.length; first += size - overlap) {
+      const window = words.slice(first, first + size);
+      const last = window[window.length - 1];
+      pieces.push({
+        text: window.map((word) => word.text).join(' '),
+        start: window[0].start,
+        end: last.start + last.text.length,
+        words: window.length,
+      });
+      if (first + size >= words.length) {
+        break;
+      }
+    }
+    return pieces;
+  }
+
   /**
    * Validates input text
    */
@@ -249,4 +628,10 @@ export interface TextChunk {
    * End character index in original text
    */
   endIndex: number;
+
+  /**
+   * Headings the chunk sits under, from the top level down
+   * (structured chunking only; empty before the first heading)
+   */
+  headingPath?: string[];
 }
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CloudTasksClient } from '@google-cloud/tasks';
+import { extractErrorMessage } from '@shared/utils';
+import type {
+  IIngestionTaskDispatcher,
+  IngestionTaskPayload,
+  ReindexTaskPayload,
+} from '../../domain/services/ingestion-task-dispatcher.interface';
+
+@Injectable()
+export class CloudTasksIngestionDispatcher implements IIngestionTaskDispatcher {
+  private readonly logger = new Logger(CloudTasksIngestionDispatcher.name);
+  private readonly client: CloudTasksClient;
+  private readonly queuePath: string;
+  private readonly serviceUrl: string;
+  private readonly internalApiKey: string;
+
+  constructor() {
+    this.client = new CloudTasksClient();
+
+    const project = process.env.GCS_PROJECT_ID ?? '';
+    const location =
+      process.env.CLOUD_TASKS_LOCATION ??
+      process.env.GCP_LOCATION ??
+      'us-central1';
+    const queue =
+      process.env.CLOUD_TASKS_INGESTION_QUEUE ?? 'knowledge-ingestion';
+    this.serviceUrl = process.env.CLOUD_RUN_SERVICE_URL ?? '';
+    this.internalApiKey = process.env.INTERNAL_API_KEY ?? '';
+
+    this.queuePath = this.client.queuePath(project, location, queue);
+  }
+
+  async dispatchIngestion(payload: IngestionTaskPayload): Promise<void> {
+    const url = `${this.serviceUrl}/api/v1/internal/knowledge/sources/${payload.sourceId}/process`;
+
+    this.logger.log(
+      `Dispatching Cloud Task for source ${payload.sourceId} → ${url}`,
+    );
+
+    try {
+      await this.createTask(url);
+
+      this.logger.log(`Cloud Task dispatched for source ${payload.sourceId}`);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(error);
+      this.logger.error(`Failed to dispatch Cloud Task: ${message}`);
+      throw new Error(`Failed to dispatch ingestion task: ${message}`);
+    }
+  }
+
+  async dispatchReindex(payload: ReindexTaskPayload): Promise<void> {
+    const url = `${this.serviceUrl}/api/v1/internal/knowledge/embedding-indexes/${payload.indexId}/build`;
+
+    this.logger.log(
+      `Dispatching Cloud Task for embedding index ${payload.indexId} → ${url}`,
+    );
+
+    try {
+      await this.createTask(url);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(error);
+      this.logger.error(`Failed to dispatch Cloud Task: ${message}`);
+      throw new Error(`Failed to dispatch re-index task: ${message}`);
+    }
+  }
+
+  private async createTask(url: string): Promise<void> {
+    await this.client.createTask({
+      parent: this.queuePath,
+      task: {
+        httpRequest: {
+          httpMethod: 'POST' as const,
+          url,
+          headers: {
+            'Content-Type': 'application/json',
+            'x-internal-api-key': this.internalApiKey,
+          },
+          body: Buffer.from('{}').toString('base64'),
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,127 @@
+const QUOTE = '"';
+const ESCAPED_QUOTE = '""';
+const CANDIDATE_DELIMITERS: ReadonlyArray<string> = [',', ';', '\t'];
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Result of parsing a CSV file
+ */
+export interface ParsedCsv {
+  /** Rows of cells; the first row is the header */
+  rows: string[][];
+  /** Detected field delimiter */
+  delimiter: string;
+}
+
+/**
+ * CSV Table Parser
+ *
+ * RFC 4180 style parser: quoted fields may contain delimiters, line breaks
+ * and doubled quotes. The delimiter (comma, semicolon or tab) is detected
+ * from the first line, since spreadsheets exported with a Spanish locale
+ * use semicolons.
+ */
+export class CsvTableParser {
+  /**
+   * Parses CSV text into rows of cells
+   * @param text - The CSV text
+   * @returns Non-empty rows and the detected delimiter
+   */
+  parse(text: string): ParsedCsv {
+    const input = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+    const delimiter = this.detectDelimiter(input);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let index = 0;
+
+    while (index < input.length) {
+      const char = input.charAt(index);
+      if (char === QUOTE) {
+        const quoted = this.readQuoted(input, index + 1);
+        field += quoted.value;
+        index = quoted.end;
+        continue;
+      }
+
+      if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input.charAt(index + 1) === '\n') {
+          index++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+      index++;
+    }
+    row.push(field);
+    rows.push(row);
+
+    return {
+      rows: rows
+        .map((cells) => cells.map((cell) => cell.trim()))
+        .filter((cells) => cells.some((cell) => cell.length > 0)),
+      delimiter,
+    };
+  }
+
+  /**
+   * Reads a quoted field starting after its opening quote; a doubled quote
+   * is a literal quote
+   * @returns The field text and the index after the closing quote
+   */
+  private readQuoted(
+    input: string,
+    start: number,
+  ): { value: string; end: number } {
+    let value = '';
+    let index = start;
+    while (index < input.length) {
+      const char = input.charAt(index);
+      if (char !== QUOTE) {
+        value += char;
+        index++;
+      } else if (input.charAt(index + 1) === QUOTE) {
+        value += QUOTE;
+        index += ESCAPED_QUOTE.length;
+      } else {
+        return { value, end: index + 1 };
+      }
+    }
+    return { value, end: index };
+  }
+
+  /**
+   * Picks the candidate delimiter that occurs most often (outside quotes)
+   * in the first line; defaults to comma
+   */
+  private detectDelimiter(text: string): string {
+    const counts = new Map<string, number>();
+    let inQuotes = false;
+
+    for (const char of text) {
+      if (char === QUOTE) {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && (char === '\n' || char === '\r')) {
+        break;
+      } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+      }
+    }
+
+    let best = CANDIDATE_DELIMITERS[0];
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+      if ((counts.get(delimiter) ?? 0) > (counts.get(best) ?? 0)) {
+        best = delimiter;
+      }
+    }
+    return best;
+  }
+}
@@ -1,18 +1,51 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { SourceType } from '@shared/types';
 import { extractErrorMessage } from '@shared/utils';
 import pdf from 'pdf-parse';
+import type { IOcrEngine } from '../../domain/services/ocr-engine.interface';
+import { HtmlContentExtractor } from './html-content-extractor';
+import { DocxContentExtractor } from './docx-content-extractor';
+import { CsvTableParser } from './csv-table.parser';
+import { flattenMarkdownTables, toMarkdownTable } from './markup-text.utils';
 
 // Type definition for pdf-parse result (based on @types/pdf-parse)
 interface PdfParseResult {
   text: string;
   numpages: number;
+  numrender: number;
   info: Record<string, unknown>;
 }
 
+// Page passed to pdf-parse's `pagerender` (a pdf.js page proxy)
+interface PdfPageData {
+  pageNumber: number;
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+}
+
 // Constants for buffer validation and parsing
 const PDF_SIGNATURE_LENGTH = 4;
 const PDF_SIGNATURE = '%PDF';
+const BYTE_ORDER_MARK = /^\uFEFF/;
+
+// OCR of scanned pages (OWASP: Magic Numbers)
+/** Pages with less text than this (whitespace excluded) are image-only */
+const MIN_PAGE_TEXT_CHARS = 20;
+const DEFAULT_OCR_LOW_CONFIDENCE = 0.6;
+const CONFIDENCE_DECIMALS = 2;
+
+/**
+ * Source types whose stored content is Markdown (headings, lists, tables)
+ */
+const MARKDOWN_CONTENT_TYPES: ReadonlySet<SourceType> = new Set([
+  SourceType.MARKDOWN,
+  SourceType.URL,
+  SourceType.HTML,
+  SourceType.DOCX,
+  SourceType.CSV,
+]);
 
 /**
  * Named regex patterns for Markdown syntax stripping.
@@ -40,48 +73,121 @@ const MARKDOWN_PATTERNS: ReadonlyArray<{
 /**
  * Document Parser Service
  *
- * Responsible for parsing different document formats (PDF, Markdown)
- * and extracting plain text content.
+ * Responsible for parsing different document formats (PDF, Markdown,
+ * Word, HTML, plain text, CSV, web pages) and extracting text content.
  *
  * Supported formats:
- * - PDF: Uses pdf-parse library
- * - Markdown: Uses marked library to strip syntax
+ * - PDF: Uses pdf-parse library; image-only (scanned) pages go through
+ *   the IOcrEngine, and their confidence is reported in `metadata.ocr`
+ *   (with `deferOcr`, they are only listed in `metadata.scannedPages`)
+ * - Markdown: Stored as written; syntax stripped for embedding
+ * - DOCX: Word document converted to Markdown (headings, lists, tables)
+ * - HTML: Uploaded HTML file; main content extracted as Markdown
+ * - TEXT: Plain text, paragraph structure preserved
+ * - CSV: Converted to a Markdown table (header = first row)
+ * - URL: HTML of a fetched web page; main content is extracted with
+ *   headings kept as Markdown, so it is stored like a Markdown source
+ *
+ * Markdown content keeps its heading lines in `contentForEmbedding` (as
+ * plain text) and table rows become "Header: value" sentences, so every
+ * format flows through chunking and embedding the same way.
+ *
+ * Configuration:
+ * - OCR_LOW_CONFIDENCE_THRESHOLD: OCR pages below this confidence (0-1)
+ *   are flagged for review (default: 0.6)
  */
 @Injectable()
 export class DocumentParserService {
+  private readonly logger = new Logger(DocumentParserService.name);
+  private readonly htmlExtractor = new HtmlContentExtractor();
+  private readonly docxExtractor = new DocxContentExtractor();
+  private readonly csvParser = new CsvTableParser();
+  private readonly lowConfidenceThreshold: number;
+
+  constructor(
+    @Inject('IOcrEngine')
+    private readonly ocrEngine: IOcrEngine,
+  ) {
+    const raw = process.env.OCR_LOW_CONFIDENCE_THRESHOLD;
+    const threshold = Number(raw);
+    this.lowConfidenceThreshold =
+      raw && threshold >= 0 && threshold <= 1
+        ? threshold
+        : DEFAULT_OCR_LOW_CONFIDENCE;
+  }
+
   /**
    * Parses a document buffer and extracts text content
    * @param buffer - The document buffer
-   * @param sourceType - The type of document (PDF, MARKDOWN)
+   * @param sourceType - The type of document
+   * @param options - Parsing options (page URL for web pages, deferred OCR)
    * @returns Parsed content and metadata
    */
-  async parse(buffer: Buffer, sourceType: SourceType): Promise<ParsedDocument> {
+  async parse(
+    buffer: Buffer,
+    sourceType: SourceType,
+    options: ParseOptions = {},
+  ): Promise<ParsedDocument> {
     this.validateBuffer(buffer);
 
-    const sourceTypeStr = String(sourceType);
-    const PDF = 'PDF';
-    const MARKDOWN = 'MARKDOWN';
-
-    if (sourceTypeStr === PDF) {
-      return this.parsePdf(buffer);
-    } else if (sourceTypeStr === MARKDOWN) {
-      return this.parseMarkdown(buffer);
-    } else {
-      throw new Error(`Unsupported source type: ${sourceTypeStr}`);
+    switch (sourceType) {
+      case SourceType.PDF:
+        return this.parsePdf(buffer, options.deferOcr ?? false);
+      case SourceType.MARKDOWN:
+        return this.parseMarkdown(buffer);
+      case SourceType.DOCX:
+        return this.parseDocx(buffer);
+      case SourceType.HTML:
+        return this.parseHtml(buffer, SourceType.HTML);
+      case SourceType.TEXT:
+        return this.parseText(buffer);
+      case SourceType.CSV:
+        return this.parseCsv(buffer);
+      case SourceType.URL:
+        return this.parseHtml(buffer, SourceType.URL, options.pageUrl);
+      default:
+        throw new Error(`Unsupported source type: ${String(sourceType)}`);
     }
   }
 
   /**
-   * Parses a PDF document
+   * Parses a PDF document. Pages without a text layer (scans) are
+   * recognized by the OCR engine, unless OCR is deferred.
    * @param buffer - The PDF buffer
+   * @param deferOcr - List the scanned pages instead of recognizing them
    * @returns Parsed PDF content
    */
-  private async parsePdf(buffer: Buffer): Promise<ParsedDocument> {
+  private async parsePdf(
+    buffer: Buffer,
+    deferOcr: boolean,
+  ): Promise<ParsedDocument> {
     try {
-      const data = (await pdf(buffer)) as PdfParseResult;
+      const renderedPages = new Map<number, string>();
+      const data = (await pdf(buffer, {
+        pagerender: async (pageData: PdfPageData) => {
+          const text = await this.extractPageText(pageData);
+          renderedPages.set(pageData.pageNumber, text);
+          return text;
+        },
+      })) as PdfParseResult;
 
-      const rawText = this.preserveStructure(data.text);
-      const embeddingText = this.normalizeForEmbedding(data.text);
+      const pageTexts = Array.from(
+        { length: data.numrender },
+        (_, index) => renderedPages.get(index + 1) ?? '',
+      );
+      const imagePages = this.findImagePages(pageTexts);
+      const scannedPages = deferOcr ? imagePages : [];
+      const ocr = deferOcr
+        ? undefined
+        : await this.recognizeImagePages(buffer, pageTexts, imagePages);
+
+      const text = pageTexts.join('\n\n');
+      const rawText = this.preserveStructure(text);
+      // Scanned pages get their text from the OCR run deferred by the caller
+      if (rawText.length === 0 && scannedPages.length === 0) {
+        throw new Error('No readable content found in document');
+      }
+      const embeddingText = this.normalizeForEmbedding(text);
 
       const info: Record<string, unknown> =
         data.info && typeof data.info === 'object' ? data.info : {};
@@ -117,6 +223,8 @@ export class DocumentParserService {
           originalSize: buffer.length,
           pages,
           info: pdfInfo,
+          ...(ocr && { ocr }),
+          ...(scannedPages.length > 0 && { scannedPages }),
         },
       };
     } catch (error) {
@@ -124,6 +232,97 @@ export class DocumentParserService {
     }
   }
 
+  /**
+   * Extracts the text layer of a PDF page (as pdf-parse does by default:
+   * items on the same line are joined, a new line starts on a new y)
+   */
+  private async extractPageText(pageData: PdfPageData): Promise<string> {
+    const { items } = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+
+    let text = '';
+    let lastY: number | undefined;
+    for (const item of items) {
+      // pdf.js transform matrix: [scaleX, skewY, skewX, scaleY, x, y]
+      const [, , , , , y] = item.transform;
+      text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+      lastY = y;
+    }
+    return text;
+  }
+
+  /**
+   * Finds the image-only pages of a PDF (too little text in their layer)
+   * @param pages - Text of each page (index 0 = page 1)
+   * @returns 1-based page numbers
+   */
+  private findImagePages(pages: string[]): number[] {
+    return pages
+      .map((text, index) => ({ page: index + 1, text }))
+      .filter(
+        ({ text }) => text.replace(/\s/g, '').length < MIN_PAGE_TEXT_CHARS,
+      )
+      .map(({ page }) => page);
+  }
+
+  /**
+   * Replaces the text of image-only pages with their OCR text, in place.
+   * When the OCR engine fails, the pages keep their text layer and are all
+   * flagged for review.
+   * @param buffer - The PDF buffer
+   * @param pages - Text of each page (index 0 = page 1)
+   * @param imagePages - Pages to recognize (1-based)
+   * @returns OCR confidence per page, or undefined when no page needed OCR
+   */
+  private async recognizeImagePages(
+    buffer: Buffer,
+    pages: string[],
+    imagePages: number[],
+  ): Promise<PdfOcrMetadata | undefined> {
+    if (imagePages.length === 0) {
+      return undefined;
+    }
+
+    this.logger.log(`Running OCR on ${imagePages.length} image-only page(s)`);
+    try {
+      const results = await this.ocrEngine.recognizePdfPages(
+        buffer,
+        imagePages,
+      );
+
+      const ocrPages: OcrPageMetadata[] = results.map((result) => {
+        if (result.text.trim().length > 0) {
+          pages[result.page - 1] = result.text;
+        }
+        return {
+          page: result.page,
+          confidence: Number(result.confidence.toFixed(CONFIDENCE_DECIMALS)),
+          lowConfidence: result.confidence < this.lowConfidenceThreshold,
+        };
+      });
+      return {
+        pages: ocrPages,
+        lowConfidencePages: ocrPages
+          .filter((page) => page.lowConfidence)
+          .map((page) => page.page),
+      };
+    } catch (error) {
+      const message = extractErrorMessage(error);
+      this.logger.warn(`OCR failed, keeping the PDF text layer: ${message}`);
+      return {
+        pages: imagePages.map((page) => ({
+          page,
+          confidence: 0,
+          lowConfidence: true,
+        })),
+        lowConfidencePages: imagePages,
+        error: message,
+      };
+    }
+  }
+
   /**
    * Parses a Markdown document
    * @param buffer - The Markdown buffer
@@ -131,14 +330,14 @@ export class DocumentParserService {
    */
   private parseMarkdown(buffer: Buffer): Promise<ParsedDocument> {
     try {
-      const markdownText = buffer.toString('utf-8').trim();
-
-      const plainText = this.stripMarkdownSyntax(markdownText);
-      const embeddingText = this.normalizeForEmbedding(plainText);
+      const markdownText = this.decodeText(buffer).trim();
 
       return Promise.resolve({
         content: markdownText,
-        contentForEmbedding: embeddingText,
+        contentForEmbedding: this.toEmbeddingText(
+          markdownText,
+          SourceType.MARKDOWN,
+        ),
         metadata: {
           sourceType: SourceType.MARKDOWN,
           parsedAt: new Date().toISOString(),
@@ -152,6 +351,176 @@ export class DocumentParserService {
     }
   }
 
+  /**
+   * Parses a Word (.docx) document
+   * @param buffer - The DOCX buffer
+   * @returns Document body as Markdown
+   */
+  private async parseDocx(buffer: Buffer): Promise<ParsedDocument> {
+    try {
+      const extracted = await this.docxExtractor.extract(buffer);
+      if (extracted.text.length === 0) {
+        throw new Error('No readable content found in document');
+      }
+
+      return {
+        content: extracted.text,
+        contentForEmbedding: this.toEmbeddingText(
+          extracted.text,
+          SourceType.DOCX,
+        ),
+        metadata: {
+          sourceType: SourceType.DOCX,
+          parsedAt: new Date().toISOString(),
+          originalSize: buffer.length,
+          info: extracted.info,
+        },
+      };
+    } catch (error) {
+      throw new Error(`Failed to parse DOCX: ${extractErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Parses a plain text document
+   * @param buffer - The text buffer
+   * @returns Text with paragraph structure preserved
+   */
+  private parseText(buffer: Buffer): Promise<ParsedDocument> {
+    const text = this.preserveStructure(this.decodeText(buffer));
+    if (text.length === 0) {
+      return Promise.reject(
+        new Error('Failed to parse text: Document contains only whitespace'),
+      );
+    }
+
+    return Promise.resolve({
+      content: text,
+      contentForEmbedding: this.toEmbeddingText(text, SourceType.TEXT),
+      metadata: {
+        sourceType: SourceType.TEXT,
+        parsedAt: new Date().toISOString(),
+        originalSize: buffer.length,
+      },
+    });
+  }
+
+  /**
+   * Parses a CSV file into a Markdown table
+   * @param buffer - The CSV buffer
+   * @returns The table as Markdown, with row and column counts
+   */
+  private parseCsv(buffer: Buffer): Promise<ParsedDocument> {
+    try {
+      const { rows } = this.csvParser.parse(this.decodeText(buffer));
+      if (rows.length === 0) {
+        throw new Error('No rows found');
+      }
+
+      const table = toMarkdownTable(rows);
+      return Promise.resolve({
+        content: table,
+        contentForEmbedding: this.toEmbeddingText(table, SourceType.CSV),
+        metadata: {
+          sourceType: SourceType.CSV,
+          parsedAt: new Date().toISOString(),
+          originalSize: buffer.length,
+          rows: rows.length - 1,
+          columns: Math.max(...rows.map((row) => row.length)),
+        },
+      });
+    } catch (error) {
+      return Promise.reject(
+        new Error(`Failed to parse CSV: ${extractErrorMessage(error)}`),
+      );
+    }
+  }
+
+  /**
+   * Parses an HTML document (uploaded file or fetched web page)
+   * @param buffer - The HTML buffer
+   * @param sourceType - HTML for uploads, URL for fetched pages
+   * @param pageUrl - URL the page was fetched from, used to resolve a relative canonical link
+   * @returns Main content of the page as Markdown-style text
+   */
+  private parseHtml(
+    buffer: Buffer,
+    sourceType: SourceType.HTML | SourceType.URL,
+    pageUrl?: string,
+  ): Promise<ParsedDocument> {
+    try {
+      const extracted = this.htmlExtractor.extract(this.decodeText(buffer));
+
+      if (extracted.text.length === 0) {
+        throw new Error('No readable content found in page');
+      }
+
+      const canonicalUrl = this.resolveCanonicalUrl(
+        extracted.canonicalHref,
+        pageUrl,
+      );
+
+      return Promise.resolve({
+        content: extracted.text,
+        contentForEmbedding: this.toEmbeddingText(extracted.text, sourceType),
+        metadata: {
+          sourceType,
+          parsedAt: new Date().toISOString(),
+          originalSize: buffer.length,
+          ...(extracted.title && { pageTitle: extracted.title }),
+          ...(canonicalUrl && { canonicalUrl }),
+        },
+      });
+    } catch (error) {
+      return Promise.reject(
+        new Error(`Failed to parse HTML: ${extractErrorMessage(error)}`),
+      );
+    }
+  }
+
+  /**
+   * Resolves the page's canonical link against the page URL.
+   * Falls back to the page URL when no usable canonical link is declared.
+   */
+  private resolveCanonicalUrl(
+    canonicalHref: string | undefined,
+    pageUrl: string | undefined,
+  ): string | undefined {
+    if (canonicalHref) {
+      try {
+        const resolved = new URL(canonicalHref, pageUrl);
+        if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+          return resolved.toString();
+        }
+      } catch {
+        // Relative link without a page URL, or malformed href
+      }
+    }
+    return pageUrl;
+  }
+
+  /**
+   * Derives the chunking/embedding text from stored source content.
+   * Produces the same `contentForEmbedding` that `parse` returned, so the
+   * background ingestion job can work from the persisted content alone.
+   * @param content - The stored `content` of a parsed document
+   * @param sourceType - The type of the original document
+   * @returns Normalized text for chunking and embedding
+   */
+  public toEmbeddingText(content: string, sourceType: SourceType): string {
+    const text = MARKDOWN_CONTENT_TYPES.has(sourceType)
+      ? this.stripMarkdownSyntax(flattenMarkdownTables(content))
+      : content;
+    return this.normalizeForEmbedding(text);
+  }
+
+  /**
+   * Decodes a text file as UTF-8, dropping a leading byte order mark
+   */
+  private decodeText(buffer: Buffer): string {
+    return buffer.toString('utf-8').replace(BYTE_ORDER_MARK, '');
+  }
+
   /**
    * Validates the input buffer
    * @param buffer - The buffer to validate
@@ -215,6 +584,43 @@ export class DocumentParserService {
   }
 }
 
+/**
+ * Options for parsing a document
+ */
+export interface ParseOptions {
+  /** URL a web page was fetched from (after redirects) */
+  pageUrl?: string;
+  /**
+   * PDF: list the image-only pages in `metadata.scannedPages` instead of
+   * recognizing them, for a background job to run the (slow) OCR. The
+   * content may then be empty.
+   */
+  deferOcr?: boolean;
+}
+
+/**
+ * OCR confidence of a PDF page (a type, to be stored as source metadata)
+ */
+export type OcrPageMetadata = {
+  /** 1-based page number */
+  page: number;
+  /** Mean word confidence, from 0 to 1 */
+  confidence: number;
+  /** Below OCR_LOW_CONFIDENCE_THRESHOLD: the page text should be reviewed */
+  lowConfidence: boolean;
+};
+
+/**
+ * OCR of the image-only pages of a PDF
+ */
+export type PdfOcrMetadata = {
+  pages: OcrPageMetadata[];
+  /** Pages flagged for review (low confidence, or OCR failed) */
+  lowConfidencePages: number[];
+  /** Set when the OCR engine failed (pages keep their text layer) */
+  error?: string;
+};
+
 /**
  * Parsed document result
  */
@@ -229,5 +635,17 @@ export interface ParsedDocument {
     originalSize: number;
     pages?: number;
     info?: Record<string, string>;
+    /** PDF: OCR of the image-only pages, when there were any */
+    ocr?: PdfOcrMetadata;
+    /** PDF parsed with `deferOcr`: image-only pages left to recognize */
+    scannedPages?: number[];
+    /** CSV: number of data rows (excluding the header) */
+    rows?: number;
+    /** CSV: number of columns */
+    columns?: number;
+    /** Web pages and HTML files: the `<title>` of the page */
+    pageTitle?: string;
+    /** Web pages: canonical URL of the page (absolute) */
+    canonicalUrl?: string;
   };
 }
@@ -0,0 +1,268 @@
+import { ZipArchiveReader } from './zip-archive.reader';
+import { decodeEntities, toMarkdownTable } from './markup-text.utils';
+
+const DOCUMENT_ENTRY = 'word/document.xml';
+const STYLES_ENTRY = 'word/styles.xml';
+const CORE_PROPERTIES_ENTRY = 'docProps/core.xml';
+
+const BODY_ELEMENT = /<w:body\b[^>]*>([\s\S]*)<\/w:body>/;
+const TABLE_ELEMENT = /<w:tbl\b[^>]*>[\s\S]*?<\/w:tbl>/g;
+const TABLE_ROW = /<w:tr\b[^>]*>([\s\S]*?)<\/w:tr>/g;
+const TABLE_CELL = /<w:tc\b[^>]*>([\s\S]*?)<\/w:tc>/g;
+const EMPTY_PARAGRAPH = /<w:p\b[^>]*\/>/g;
+const PARAGRAPH = /<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g;
+const PARAGRAPH_PROPERTIES = /<w:pPr\b[^>]*>[\s\S]*?<\/w:pPr>/;
+const PARAGRAPH_STYLE = /<w:pStyle\b[^>]*w:val="([^"]{1,200})"/;
+const OUTLINE_LEVEL = /<w:outlineLvl\b[^>]*w:val="(\d)"/;
+const LIST_LEVEL = /<w:numPr\b[^>]*>[\s\S]*?<w:ilvl\b[^>]*w:val="(\d)"/;
+const LIST_PROPERTIES = /<w:numPr\b/;
+const TEXT_RUN = /<w:t\b[^>]{0,200}>([^<]*)<\/w:t>/g;
+const TAB_OR_BREAK = /<w:(?:tab|br|cr)\b[^>]*\/>/g;
+
+const STYLE_ELEMENT = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+const STYLE_ID = /w:styleId="([^"]{1,200})"/;
+const STYLE_NAME = /<w:name\b[^>]*w:val="([^"]{1,200})"/;
+const HEADING_STYLE_NAME = /^heading ([1-6])$/i;
+const HEADING_STYLE_ID = /^heading([1-6])$/i;
+const TITLE_STYLE_NAME = 'title';
+
+const CORE_TITLE = /<dc:title>([^<]{1,1000})<\/dc:title>/;
+const CORE_CREATOR = /<dc:creator>([^<]{1,1000})<\/dc:creator>/;
+
+const MAX_HEADING_LEVEL = 6;
+// w:outlineLvl 9 means "body text"
+const BODY_TEXT_OUTLINE_LEVEL = 9;
+const LIST_INDENT = '  ';
+
+/**
+ * Result of extracting readable content from a DOCX document
+ */
+export interface ExtractedDocx {
+  /** Document body as Markdown (headings, list items and tables) */
+  text: string;
+  /** Title and author from the document properties, when set */
+  info: Record<string, string>;
+}
+
+/**
+ * DOCX Content Extractor
+ *
+ * Converts a Word (Office Open XML) document to Markdown:
+ * - Heading styles (Heading 1-6, Title, or an outline level) become `#` lines
+ * - Numbered and bulleted paragraphs become `- ` items (indented per level)
+ * - Tables become Markdown tables
+ *
+ * Images, comments, headers/footers and tracked-change metadata are ignored.
+ */
+export class DocxContentExtractor {
+  /**
+   * Extracts the body text and document properties
+   * @param buffer - The .docx file
+   * @returns Markdown text and document info
+   * @throws {Error} If the buffer is not a Word document
+   */
+  async extract(buffer: Buffer): Promise<ExtractedDocx> {
+    const archive = await ZipArchiveReader.open(buffer);
+    const documentXml = await archive.readText(DOCUMENT_ENTRY);
+    if (documentXml === undefined) {
+      throw new Error('Not a Word document (word/document.xml missing)');
+    }
+
+    const headingStyles = this.readHeadingStyles(
+      await archive.readText(STYLES_ENTRY),
+    );
+    const body = BODY_ELEMENT.exec(documentXml)?.[1] ?? '';
+
+    return {
+      text: this.convertBody(body, headingStyles),
+      info: this.readCoreProperties(
+        await archive.readText(CORE_PROPERTIES_ENTRY),
+      ),
+    };
+  }
+
+  /**
+   * Converts the body to Markdown, keeping tables where they appear
+   */
+  private convertBody(
+    body: string,
+    headingStyles: ReadonlyMap<string, number>,
+  ): string {
+    const blocks: string[] = [];
+    let position = 0;
+
+    for (const match of body.matchAll(TABLE_ELEMENT)) {
+      blocks.push(
+        ...this.convertParagraphs(
+          body.slice(position, match.index),
+          headingStyles,
+        ),
+      );
+      const table = this.convertTable(match[0]);
+      if (table) {
+        blocks.push(table);
+      }
+      position = match.index + match[0].length;
+    }
+    blocks.push(...this.convertParagraphs(body.slice(position), headingStyles));
+
+    return blocks.join('\n\n');
+  }
+
+  private convertParagraphs(
+    xml: string,
+    headingStyles: ReadonlyMap<string, number>,
+  ): string[] {
+    const paragraphs: string[] = [];
+    for (const inner of this.paragraphBodies(xml)) {
+      const properties = PARAGRAPH_PROPERTIES.exec(inner)?.[0] ?? '';
+      const text = this.paragraphText(inner.replace(properties, ''));
+      if (text.length === 0) {
+        continue;
+      }
+
+      const level = this.headingLevel(properties, headingStyles);
+      if (level !== undefined) {
+        paragraphs.push(`${'#'.repeat(level)} ${text}`);
+      } else if (LIST_PROPERTIES.test(properties)) {
+        const depth = Number(LIST_LEVEL.exec(properties)?.[1] ?? 0);
+        paragraphs.push(`${LIST_INDENT.repeat(depth)}- ${text}`);
+      } else {
+        paragraphs.push(text);
+      }
+    }
+    return this.joinListItems(paragraphs);
+  }
+
+  /**
+   * Keeps consecutive list items in one block (single line breaks)
+   */
+  private joinListItems(paragraphs: string[]): string[] {
+    const blocks: string[] = [];
+    for (const paragraph of paragraphs) {
+      const previous = blocks.at(-1);
+      if (
+        previous !== undefined &&
+        this.isListItem(paragraph) &&
+        this.isListItem(previous)
+      ) {
+        blocks[blocks.length - 1] = `${previous}\n${paragraph}`;
+      } else {
+        blocks.push(paragraph);
+      }
+    }
+    return blocks;
+  }
+
+  private isListItem(block: string): boolean {
+    return block.trimStart().startsWith('- ');
+  }
+
+  private convertTable(xml: string): string {
+    const rows = Array.from(xml.matchAll(TABLE_ROW), (row) =>
+      Array.from(row[1].matchAll(TABLE_CELL), (cell) =>
+        this.paragraphBodies(cell[1])
+          .map((paragraph) =>
+            this.paragraphText(paragraph.replace(PARAGRAPH_PROPERTIES, '')),
+          )
+          .filter((text) => text.length > 0)
+          .join(' '),
+      ),
+    ).filter((cells) => cells.length > 0);
+    return toMarkdownTable(rows);
+  }
+
+  /**
+   * Inner XML of every non-empty paragraph, in document order
+   */
+  private paragraphBodies(xml: string): string[] {
+    return Array.from(
+      xml.replace(EMPTY_PARAGRAPH, '').matchAll(PARAGRAPH),
+      (match) => match[1],
+    );
+  }
+
+  /**
+   * Concatenates the text runs of a paragraph; tabs and breaks become spaces
+   */
+  private paragraphText(xml: string): string {
+    const text = Array.from(
+      xml.replace(TAB_OR_BREAK, '<w:t> </w:t>').matchAll(TEXT_RUN),
+      (match) => match[1],
+    ).join('');
+    return decodeEntities(text).replace(/\s+/g, ' ').trim();
+  }
+
+  private headingLevel(
+    properties: string,
+    headingStyles: ReadonlyMap<string, number>,
+  ): number | undefined {
+    const styleId = PARAGRAPH_STYLE.exec(properties)?.[1];
+    if (styleId) {
+      const level =
+        headingStyles.get(styleId) ??
+        Number(HEADING_STYLE_ID.exec(styleId)?.[1] ?? NaN);
+      if (!Number.isNaN(level)) {
+        return level;
+      }
+    }
+    return this.outlineHeadingLevel(properties);
+  }
+
+  /**
+   * Heading level from an explicit outline level (0-5 → 1-6)
+   */
+  private outlineHeadingLevel(xml: string): number | undefined {
+    const outline = OUTLINE_LEVEL.exec(xml)?.[1];
+    if (outline === undefined) {
+      return undefined;
+    }
+    const level = Number(outline);
+    return level < BODY_TEXT_OUTLINE_LEVEL
+      ? Math.min(level + 1, MAX_HEADING_LEVEL)
+      : undefined;
+  }
+
+  /**
+   * Maps paragraph style IDs to heading levels. Built-in style names are
+   * always English ("heading 1") even when the style ID is localized.
+   */
+  private readHeadingStyles(stylesXml?: string): Map<string, number> {
+    const headingStyles = new Map<string, number>();
+    if (!stylesXml) {
+      return headingStyles;
+    }
+
+    for (const [, attributes, inner] of stylesXml.matchAll(STYLE_ELEMENT)) {
+      const styleId = STYLE_ID.exec(attributes)?.[1];
+      if (!styleId) {
+        continue;
+      }
+      const name = STYLE_NAME.exec(inner)?.[1] ?? '';
+      const level =
+        name.toLowerCase() === TITLE_STYLE_NAME
+          ? 1
+          : Number(HEADING_STYLE_NAME.exec(name)?.[1] ?? NaN);
+      const resolved = Number.isNaN(level)
+        ? this.outlineHeadingLevel(inner)
+        : level;
+      if (resolved !== undefined) {
+        headingStyles.set(styleId, resolved);
+      }
+    }
+    return headingStyles;
+  }
+
+  private readCoreProperties(coreXml?: string): Record<string, string> {
+    const info: Record<string, string> = {};
+    const title = coreXml && CORE_TITLE.exec(coreXml)?.[1];
+    const author = coreXml && CORE_CREATOR.exec(coreXml)?.[1];
+    if (title) {
+      info.Title = decodeEntities(title).trim();
+    }
+    if (author) {
+      info.Author = decodeEntities(author).trim();
+    }
+    return info;
+  }
+}
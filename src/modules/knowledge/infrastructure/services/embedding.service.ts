@@ -3,6 +3,7 @@ import { type Genkit } from 'genkit';
 import { getGenkitInstance } from '@shared/genkit/genkit.config';
 import { extractErrorMessage, extractErrorStack } from '@shared/utils';
 import { CHARS_PER_TOKEN_ESTIMATE } from '@shared/constants';
+import type { EmbeddingProfile } from '../../domain/entities/embedding-index.entity';
 
 // Constants for embedding configuration (OWASP: Magic Numbers)
 const DEFAULT_EMBEDDING_MODEL = 'vertexai/gemini-embedding-001';
@@ -63,6 +64,8 @@ export enum EmbeddingTaskType {
  * - Gemini gemini-embedding-001 (3072 dimensions by default)
  * - Flexible output dimensionality (768, 1536, or 3072)
  * - Task-specific optimization (RETRIEVAL_DOCUMENT, RETRIEVAL_QUERY, etc.)
+ * - Per-call embedding profile (model + dimension), so a sector being
+ *   re-indexed can be embedded with another profile than the configured one
  * - Batch processing with configurable batch size
  * - Automatic text truncation for token limits
  * - Error handling and recovery
@@ -115,8 +118,21 @@ export class EmbeddingService {
       throw new Error('Batch size must be a positive number');
     }
 
+    this.validateProfile(this.config);
+  }
+
+  /**
+   * Validates an embedding profile
+   * @param profile - Embedding model and dimension
+   * @throws Error if the model is empty or the dimension is not supported
+   */
+  public validateProfile(profile: EmbeddingProfile): void {
+    if (!profile.model || profile.model.trim() === '') {
+      throw new Error('Embedding model cannot be empty');
+    }
+
     // Validate supported dimensions for Gemini embedding models
-    if (!SUPPORTED_DIMENSIONS.includes(this.config.dimensions)) {
+    if (!SUPPORTED_DIMENSIONS.includes(profile.dimensions)) {
       throw new Error(
         `Invalid dimensions. Supported dimensions: ${SUPPORTED_DIMENSIONS.join(', ')}`,
       );
@@ -134,11 +150,13 @@ export class EmbeddingService {
    * Generates embedding for a single text with optional task type
    * @param text - The text to embed
    * @param taskType - Optional task type for optimization
+   * @param profile - Model and dimension to use (default: the configured ones)
    * @returns Vector embedding as number array
    */
   public async generateEmbedding(
     text: string,
     taskType?: EmbeddingTaskType,
+    profile?: EmbeddingProfile,
   ): Promise<number[]> {
     this.validateInput(text);
 
@@ -149,7 +167,7 @@ export class EmbeddingService {
       // Use modern Genkit API with string references
       const ai = this.getAI();
       const options: Record<string, unknown> = {
-        outputDimensionality: this.config.dimensions,
+        outputDimensionality: profile?.dimensions ?? this.config.dimensions,
       };
 
       // Add taskType if provided
@@ -158,7 +176,7 @@ export class EmbeddingService {
       }
 
       const result = await ai.embed({
-        embedder: this.config.model,
+        embedder: profile?.model ?? this.config.model,
         content: truncatedText,
         options,
       });
@@ -194,21 +212,31 @@ export class EmbeddingService {
    * Generates embedding optimized for search queries
    * Use this method when generating embeddings for user queries
    * @param text - The search query to embed
+   * @param profile - Model and dimension to use (default: the configured ones)
    * @returns Vector embedding as number array
    */
-  public async generateQueryEmbedding(text: string): Promise<number[]> {
-    return this.generateEmbedding(text, EmbeddingTaskType.RETRIEVAL_QUERY);
+  public async generateQueryEmbedding(
+    text: string,
+    profile?: EmbeddingProfile,
+  ): Promise<number[]> {
+    return this.generateEmbedding(
+      text,
+      EmbeddingTaskType.RETRIEVAL_QUERY,
+      profile,
+    );
   }
 
   /**
    * Generates embeddings for multiple texts in batches
    * @param texts - Array of texts to embed
    * @param taskType - Optional task type for optimization
+   * @param profile - Model and dimension to use (default: the configured ones)
    * @returns Array of vector embeddings
    */
   public async generateEmbeddings(
     texts: string[],
     taskType?: EmbeddingTaskType,
+    profile?: EmbeddingProfile,
   ): Promise<number[][]> {
     if (texts.length === 0) {
       return [];
@@ -223,7 +251,7 @@ export class EmbeddingService {
     for (let i = 0; i < texts.length; i += this.config.batchSize) {
       const batch = texts.slice(i, i + this.config.batchSize);
       const batchEmbeddings = await Promise.all(
-        batch.map((text) => this.generateEmbedding(text, taskType)),
+        batch.map((text) => this.generateEmbedding(text, taskType, profile)),
       );
       embeddings.push(...batchEmbeddings);
     }
@@ -234,12 +262,18 @@ export class EmbeddingService {
   /**
    * Generates embeddings for multiple documents optimized for indexing
    * @param texts - Array of document texts to embed
+   * @param profile - Model and dimension to use (default: the configured ones)
    * @returns Array of vector embeddings
    */
   public async generateDocumentEmbeddings(
     texts: string[],
+    profile?: EmbeddingProfile,
   ): Promise<number[][]> {
-    return this.generateEmbeddings(texts, EmbeddingTaskType.RETRIEVAL_DOCUMENT);
+    return this.generateEmbeddings(
+      texts,
+      EmbeddingTaskType.RETRIEVAL_DOCUMENT,
+      profile,
+    );
   }
 
   /**
@@ -249,6 +283,13 @@ export class EmbeddingService {
     return this.config.dimensions;
   }
 
+  /**
+   * Returns the configured model and dimension
+   */
+  public getProfile(): EmbeddingProfile {
+    return { model: this.config.model, dimensions: this.config.dimensions };
+  }
+
   /**
    * Returns the current configuration
    */
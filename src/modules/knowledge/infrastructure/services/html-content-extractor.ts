@@ -0,0 +1,249 @@
+import { decodeEntities, toMarkdownTable } from './markup-text.utils';
+
+/**
+ * Elements whose content is never readable text (removed with their content)
+ */
+const NON_CONTENT_ELEMENTS =
+  /<\/?(script|style|noscript|template|svg|iframe|canvas|object)\b[^>]*>/gi;
+
+/**
+ * Page chrome removed with its content (navigation, sidebars, footers, forms)
+ */
+const BOILERPLATE_ELEMENTS = /<\/?(nav|aside|footer|form|button)\b[^>]*>/gi;
+
+/**
+ * Page-level headers are chrome when the main content region is unknown
+ */
+const HEADER_ELEMENTS = /<\/?header\b[^>]*>/gi;
+
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+const TITLE_ELEMENT = /<title\b[^>]*>([^<]{0,1000})<\/title>/i;
+const LINK_TAG = /<link\b[^>]*>/gi;
+const TAG_ATTRIBUTE =
+  /([a-zA-Z:-]{1,50})\s{0,10}=\s{0,10}(?:"([^"]{0,2000})"|'([^']{0,2000})'|([^\s"'>]{1,2000}))/g;
+const HEADING_ELEMENT = /<h([1-6])\b[^>]*>([\s\S]{0,5000}?)<\/h\1\s*>/gi;
+const LIST_ITEM_OPEN = /<li\b[^>]*>/gi;
+const LINE_BREAK = /<br\s*\/?>/gi;
+const NAMED_TAG = /<\/?([a-z][a-z0-9]{0,15})\b[^>]*>/gi;
+const ANY_TAG = /<[^<>]*>/g;
+
+/**
+ * Elements that start a new block of text
+ */
+const BLOCK_ELEMENTS: ReadonlySet<string> = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'main',
+  'header',
+  'ul',
+  'ol',
+  'li',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'blockquote',
+  'pre',
+  'figure',
+  'figcaption',
+  'dl',
+  'dt',
+  'dd',
+  'hr',
+]);
+
+const TABLE_ELEMENT = /<table\b[^>]*>([\s\S]{0,200000}?)<\/table\s*>/gi;
+const TABLE_ROW = /<tr\b[^>]*>([\s\S]{0,50000}?)<\/tr\s*>/gi;
+const TABLE_CELL = /<t[hd]\b[^>]*>([\s\S]{0,10000}?)<\/t[hd]\s*>/gi;
+
+/**
+ * Content regions in order of preference
+ */
+const MAIN_REGIONS: ReadonlyArray<{ open: RegExp; close: string }> = [
+  { open: /<main\b[^>]*>/i, close: '</main>' },
+  { open: /<article\b[^>]*>/i, close: '</article>' },
+  { open: /<body\b[^>]*>/i, close: '</body>' },
+];
+
+/**
+ * Result of extracting readable content from an HTML page
+ */
+export interface ExtractedHtml {
+  /** Page title from the `<title>` element */
+  title?: string;
+  /** `href` of `<link rel="canonical">` as written in the page (may be relative) */
+  canonicalHref?: string;
+  /** Main content as Markdown-style text (headings kept as `#` lines) */
+  text: string;
+}
+
+/**
+ * HTML Content Extractor
+ *
+ * Extracts the readable main content of a web page without a DOM:
+ * - Prefers `<main>`, then `<article>`, then `<body>`
+ * - Drops scripts, styles, navigation, sidebars, footers and forms
+ * - Keeps headings as Markdown `#` lines, list items as `- ` lines and
+ *   tables as Markdown tables, so the result can be handled like a
+ *   Markdown source downstream
+ */
+export class HtmlContentExtractor {
+  /**
+   * Extracts title, canonical link and main content text from an HTML page
+   * @param html - The raw HTML
+   * @returns Extracted page content
+   */
+  extract(html: string): ExtractedHtml {
+    const withoutComments = html.replace(HTML_COMMENT, '');
+
+    return {
+      title: this.extractTitle(withoutComments),
+      canonicalHref: this.extractCanonicalHref(withoutComments),
+      text: this.extractText(withoutComments),
+    };
+  }
+
+  private extractTitle(html: string): string | undefined {
+    const match = TITLE_ELEMENT.exec(html);
+    const title = match
+      ? this.collapseWhitespace(decodeEntities(match[1]))
+      : '';
+    return title.length > 0 ? title : undefined;
+  }
+
+  private extractCanonicalHref(html: string): string | undefined {
+    for (const tag of html.match(LINK_TAG) ?? []) {
+      const attributes = this.parseAttributes(tag);
+      const rel = (attributes.get('rel') ?? '').toLowerCase().split(/\s+/);
+      const href = attributes.get('href')?.trim();
+      if (rel.includes('canonical') && href) {
+        return decodeEntities(href);
+      }
+    }
+    return undefined;
+  }
+
+  private extractText(html: string): string {
+    let content = this.removeElements(html, NON_CONTENT_ELEMENTS);
+    const region = this.selectMainRegion(content);
+    content = this.removeElements(region.html, BOILERPLATE_ELEMENTS);
+    if (!region.isContentRegion) {
+      content = this.removeElements(content, HEADER_ELEMENTS);
+    }
+
+    const text = content
+      .replace(TABLE_ELEMENT, (_match: string, inner: string) =>
+        this.convertTable(inner),
+      )
+      .replace(
+        HEADING_ELEMENT,
+        (_match: string, level: string, inner: string) =>
+          `\n\n${'#'.repeat(Number(level))} ${this.collapseWhitespace(inner.replace(ANY_TAG, ' '))}\n\n`,
+      )
+      .replace(LIST_ITEM_OPEN, '\n- ')
+      .replace(LINE_BREAK, '\n')
+      .replace(NAMED_TAG, (tag: string, name: string) =>
+        BLOCK_ELEMENTS.has(name.toLowerCase()) ? '\n\n' : tag,
+      )
+      .replace(ANY_TAG, '');
+
+    return this.tidyLines(decodeEntities(text));
+  }
+
+  /**
+   * Converts the rows of an HTML table to a Markdown table block.
+   * Cell text is reduced to plain text; nested tables are not supported.
+   */
+  private convertTable(inner: string): string {
+    const rows = Array.from(inner.matchAll(TABLE_ROW), (row) =>
+      Array.from(row[1].matchAll(TABLE_CELL), (cell) =>
+        cell[1].replace(ANY_TAG, ' '),
+      ),
+    ).filter((cells) => cells.length > 0);
+
+    const table = toMarkdownTable(rows);
+    return table ? `\n\n${table}\n\n` : '\n\n';
+  }
+
+  /**
+   * Narrows the page to its main content region when one is marked up
+   */
+  private selectMainRegion(html: string): {
+    html: string;
+    isContentRegion: boolean;
+  } {
+    for (const [index, { open, close }] of MAIN_REGIONS.entries()) {
+      const openMatch = open.exec(html);
+      if (!openMatch) {
+        continue;
+      }
+      const start = openMatch.index + openMatch[0].length;
+      const end = html.toLowerCase().lastIndexOf(close);
+      return {
+        html: html.slice(start, end > start ? end : html.length),
+        isContentRegion: index < MAIN_REGIONS.length - 1,
+      };
+    }
+    return { html, isContentRegion: false };
+  }
+
+  /**
+   * Removes elements matched by the open/close tag pattern, including
+   * their content. Nesting is tracked so nested elements are removed whole.
+   */
+  private removeElements(html: string, pattern: RegExp): string {
+    pattern.lastIndex = 0;
+    let result = '';
+    let depth = 0;
+    let keptFrom = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(html)) !== null) {
+      const isClosing = match[0].startsWith('</');
+      const isSelfClosing = match[0].endsWith('/>');
+
+      if (!isClosing && depth === 0) {
+        result += html.slice(keptFrom, match.index);
+      }
+      if (!isClosing && !isSelfClosing) {
+        depth++;
+      } else if (isClosing && depth > 0) {
+        depth--;
+      }
+      if (depth === 0) {
+        keptFrom = match.index + match[0].length;
+      }
+    }
+
+    return depth === 0 ? result + html.slice(keptFrom) : result;
+  }
+
+  private parseAttributes(tag: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const match of tag.matchAll(TAG_ATTRIBUTE)) {
+      attributes.set(
+        match[1].toLowerCase(),
+        match[2] ?? match[3] ?? match[4] ?? '',
+      );
+    }
+    return attributes;
+  }
+
+  private collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Trims every line and keeps at most one blank line between blocks
+   */
+  private tidyLines(text: string): string {
+    return text
+      .split('\n')
+      .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
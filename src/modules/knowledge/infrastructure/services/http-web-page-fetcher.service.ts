@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { extractErrorMessage } from '@shared/utils';
+import type {
+  FetchedWebPage,
+  IWebPageFetcher,
+} from '../../domain/services/web-page-fetcher.interface';
+
+// Fetch limits (OWASP: Magic Numbers)
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const BYTES_IN_KB = 1024;
+const KB_IN_MB = 1024;
+const MAX_PAGE_SIZE_MB = 5;
+const MAX_PAGE_SIZE = MAX_PAGE_SIZE_MB * KB_IN_MB * BYTES_IN_KB;
+
+const HTTP_REDIRECT_MIN = 300;
+const HTTP_REDIRECT_MAX = 399;
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+const USER_AGENT = 'ContextAI-KnowledgeFetcher/1.0';
+
+/**
+ * IPv4 ranges that must not be reachable from user-supplied URLs
+ * (loopback, private, link-local/cloud metadata, unspecified)
+ */
+const PRIVATE_IPV4_PATTERNS: ReadonlyArray<RegExp> = [
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+];
+
+/**
+ * IPv6 loopback, unspecified, unique-local and link-local addresses
+ */
+const PRIVATE_IPV6_PATTERNS: ReadonlyArray<RegExp> = [
+  /^::1?$/,
+  /^f[cd][0-9a-f]{2}:/i,
+  /^fe[89ab][0-9a-f]:/i,
+];
+const IPV4_MAPPED_IPV6_PREFIX = '::ffff:';
+const IPV4_FAMILY = 4;
+const HEX_RADIX = 16;
+const BYTE_BITS = 8;
+const BYTE_MASK = 0xff;
+const MAPPED_IPV4_GROUPS = 2;
+
+/**
+ * HTTP Web Page Fetcher
+ *
+ * Fetches web pages for URL knowledge sources using the built-in fetch API.
+ *
+ * Safeguards (URLs are user-supplied):
+ * - Only http/https URLs
+ * - Hosts resolving to loopback, private or link-local addresses are refused
+ *   (unless URL_FETCH_ALLOW_PRIVATE_HOSTS=true, e.g. for local stub servers)
+ * - Redirects are followed manually so every hop is checked
+ * - Timeout, maximum page size and HTML-only content types
+ */
+@Injectable()
+export class HttpWebPageFetcher implements IWebPageFetcher {
+  private readonly logger = new Logger(HttpWebPageFetcher.name);
+  private readonly allowPrivateHosts: boolean;
+
+  constructor() {
+    this.allowPrivateHosts =
+      process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS === 'true';
+  }
+
+  async fetch(url: string): Promise<FetchedWebPage> {
+    try {
+      let currentUrl = this.parseUrl(url);
+
+      for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+        await this.assertPublicHost(currentUrl);
+
+        const response = await fetch(currentUrl, {
+          redirect: 'manual',
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+          headers: {
+            Accept: 'text/html,application/xhtml+xml',
+            'User-Agent': USER_AGENT,
+          },
+        });
+
+        if (this.isRedirect(response.status)) {
+          const location = response.headers.get('location');
+          if (!location) {
+            throw new Error(
+              `Redirect (${response.status}) without Location header`,
+            );
+          }
+          currentUrl = this.parseUrl(new URL(location, currentUrl).toString());
+          continue;
+        }
+
+        return await this.readPage(currentUrl, response);
+      }
+
+      throw new Error(`Too many redirects (max ${MAX_REDIRECTS})`);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(error);
+      this.logger.warn(`Failed to fetch ${url}: ${message}`);
+      throw new Error(`Failed to fetch URL: ${message}`);
+    }
+  }
+
+  private async readPage(
+    url: URL,
+    response: Response,
+  ): Promise<FetchedWebPage> {
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (!HTML_CONTENT_TYPES.includes(mimeType)) {
+      throw new Error(
+        `Unsupported content type "${mimeType || 'unknown'}" (expected HTML)`,
+      );
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_PAGE_SIZE) {
+      throw new Error(`Page too large (max ${MAX_PAGE_SIZE_MB}MB)`);
+    }
+
+    const body = await this.readBody(response);
+
+    return {
+      url: url.toString(),
+      html: this.decodeBody(body, contentType),
+      contentType,
+      fetchedAt: new Date(),
+    };
+  }
+
+  /**
+   * Reads the response body, aborting once it exceeds the maximum page size
+   */
+  private async readBody(response: Response): Promise<Buffer> {
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.body) {
+      size += chunk.byteLength;
+      if (size > MAX_PAGE_SIZE) {
+        throw new Error(`Page too large (max ${MAX_PAGE_SIZE_MB}MB)`);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private decodeBody(body: Buffer, contentType: string): string {
+    const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+    try {
+      return new TextDecoder(charset ?? 'utf-8').decode(body);
+    } catch {
+      // Unknown charset label
+      return body.toString('utf-8');
+    }
+  }
+
+  private parseUrl(value: string): URL {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new Error(`Invalid URL: ${value}`);
+    }
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+      throw new Error(`Unsupported protocol: ${url.protocol}`);
+    }
+    return url;
+  }
+
+  private isRedirect(status: number): boolean {
+    return status >= HTTP_REDIRECT_MIN && status <= HTTP_REDIRECT_MAX;
+  }
+
+  /**
+   * Refuses hosts that resolve to non-public addresses (SSRF protection)
+   */
+  private async assertPublicHost(url: URL): Promise<void> {
+    if (this.allowPrivateHosts) {
+      return;
+    }
+
+    const hostname = url.hostname.replace(/(^\[)|(\]$)/g, '');
+    const addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+
+    if (addresses.some((address) => this.isPrivateAddress(address))) {
+      throw new Error(`Host not allowed: ${url.hostname}`);
+    }
+  }
+
+  private isPrivateAddress(address: string): boolean {
+    const normalized = address.toLowerCase();
+    if (normalized.startsWith(IPV4_MAPPED_IPV6_PREFIX)) {
+      return this.isPrivateAddress(
+        this.toDottedIpv4(normalized.slice(IPV4_MAPPED_IPV6_PREFIX.length)),
+      );
+    }
+    const patterns =
+      isIP(normalized) === IPV4_FAMILY
+        ? PRIVATE_IPV4_PATTERNS
+        : PRIVATE_IPV6_PATTERNS;
+    return patterns.some((pattern) => pattern.test(normalized));
+  }
+
+  /**
+   * Converts the IPv4 part of an IPv4-mapped IPv6 address to dotted form.
+   * WHATWG URL parsing normalizes `::ffff:127.0.0.1` to `::ffff:7f00:1`.
+   */
+  private toDottedIpv4(mapped: string): string {
+    if (isIP(mapped) === IPV4_FAMILY) {
+      return mapped;
+    }
+    const groups = mapped.split(':').map((group) => parseInt(group, HEX_RADIX));
+    if (
+      groups.length !== MAPPED_IPV4_GROUPS ||
+      groups.some((group) => Number.isNaN(group))
+    ) {
+      return mapped;
+    }
+    const [high, low] = groups;
+    return [
+      high >> BYTE_BITS,
+      high & BYTE_MASK,
+      low >> BYTE_BITS,
+      low & BYTE_MASK,
+    ].join('.');
+  }
+}
@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { cosineSimilarity } from '@shared/utils';
+import type {
+  IVectorStore,
+  VectorUpsertInput,
+  VectorSearchResult,
+  VectorSearchFilter,
+  VectorMetadata,
+  VectorMetadataPatch,
+} from '../../domain/services/vector-store.interface';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  DEFAULT_MIN_SCORE,
+  requireSingleSector,
+  hasFilterConditions,
+  matchesVectorFilter,
+} from './vector-store.utils';
+
+interface StoredVector {
+  embedding: number[];
+  metadata: VectorMetadata;
+}
+
+/**
+ * Runs synchronous work as a promise, so failures reject like the other
+ * vector stores instead of throwing at the call site
+ */
+function settle<T>(work: () => T): Promise<T> {
+  try {
+    return Promise.resolve(work());
+  } catch (error: unknown) {
+    return Promise.reject(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * InMemoryVectorStore Service
+ *
+ * Implements IVectorStore in process memory with exact cosine-similarity
+ * search. Meant for tests and offline development: vectors are lost on
+ * restart and each instance has its own store.
+ *
+ * Namespaces behave like Pinecone's: one per sectorId, vector IDs are
+ * unique within a namespace, and a namespace disappears with its last
+ * vector.
+ */
+@Injectable()
+export class InMemoryVectorStore implements IVectorStore {
+  private readonly logger = new Logger(InMemoryVectorStore.name);
+  private readonly namespaces = new Map<string, Map<string, StoredVector>>();
+
+  upsertVectors(
+    inputs: VectorUpsertInput[],
+    namespace?: string,
+  ): Promise<void> {
+    return settle(() => {
+      if (inputs.length === 0) {
+        return;
+      }
+
+      const target = requireSingleSector(inputs, namespace);
+      const stored =
+        this.namespaces.get(target) ?? new Map<string, StoredVector>();
+      for (const input of inputs) {
+        stored.set(input.id, {
+          embedding: [...input.embedding],
+          metadata: { ...input.metadata },
+        });
+      }
+      this.namespaces.set(target, stored);
+
+      this.logger.debug(
+        `Upserted ${inputs.length} vectors to namespace ${target}`,
+      );
+    });
+  }
+
+  vectorSearch(
+    embedding: number[],
+    sectorId: string,
+    limit: number = DEFAULT_SEARCH_LIMIT,
+    minScore: number = DEFAULT_MIN_SCORE,
+    filter?: VectorSearchFilter,
+  ): Promise<VectorSearchResult[]> {
+    return settle(() => {
+      const stored = [...(this.namespaces.get(sectorId)?.entries() ?? [])];
+      const candidates = hasFilterConditions(filter)
+        ? stored.filter(([, vector]) =>
+            matchesVectorFilter(vector.metadata, filter),
+          )
+        : stored;
+
+      // Filter, top-K, then the score threshold, like a Pinecone query
+      return candidates
+        .map(([id, vector]) => ({
+          id,
+          score: cosineSimilarity(embedding, vector.embedding),
+          metadata: { ...vector.metadata },
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .filter((result) => result.score >= minScore);
+    });
+  }
+
+  updateMetadataBySourceId(
+    sourceId: string,
+    sectorId: string,
+    patch: VectorMetadataPatch,
+  ): Promise<void> {
+    for (const vector of this.namespaces.get(sectorId)?.values() ?? []) {
+      if (vector.metadata.sourceId === sourceId) {
+        vector.metadata = { ...vector.metadata, ...patch };
+      }
+    }
+    return Promise.resolve();
+  }
+
+  deleteBySourceId(sourceId: string, sectorId: string): Promise<void> {
+    return settle(() => {
+      const namespace = this.namespaces.get(sectorId);
+      if (!namespace) {
+        return;
+      }
+      for (const [id, vector] of namespace) {
+        if (vector.metadata.sourceId === sourceId) {
+          namespace.delete(id);
+        }
+      }
+      this.dropIfEmpty(sectorId, namespace);
+    });
+  }
+
+  deleteByIds(ids: string[], sectorId: string): Promise<void> {
+    return settle(() => {
+      const namespace = this.namespaces.get(sectorId);
+      if (!namespace) {
+        return;
+      }
+      for (const id of ids) {
+        namespace.delete(id);
+      }
+      this.dropIfEmpty(sectorId, namespace);
+    });
+  }
+
+  listNamespaces(): Promise<string[]> {
+    return Promise.resolve([...this.namespaces.keys()]);
+  }
+
+  listVectorIds(sectorId: string): Promise<string[]> {
+    return Promise.resolve([...(this.namespaces.get(sectorId)?.keys() ?? [])]);
+  }
+
+  private dropIfEmpty(
+    sectorId: string,
+    namespace: Map<string, StoredVector>,
+  ): void {
+    if (namespace.size === 0) {
+      this.namespaces.delete(sectorId);
+    }
+  }
+}
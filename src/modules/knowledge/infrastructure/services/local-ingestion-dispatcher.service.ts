@@ -0,0 +1,58 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import type {
+  IIngestionTaskDispatcher,
+  IngestionTaskPayload,
+  ReindexTaskPayload,
+} from '../../domain/services/ingestion-task-dispatcher.interface';
+import type { IngestionPipelineService } from '../../application/services/ingestion-pipeline.service';
+import type { EmbeddingReindexService } from '../../application/services/embedding-reindex.service';
+
+@Injectable()
+export class LocalIngestionDispatcher implements IIngestionTaskDispatcher {
+  private readonly logger = new Logger(LocalIngestionDispatcher.name);
+
+  constructor(
+    @Inject('IngestionPipelineService')
+    private readonly pipeline: IngestionPipelineService,
+    @Inject('EmbeddingReindexService')
+    private readonly reindexService: EmbeddingReindexService,
+  ) {}
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async dispatchIngestion(payload: IngestionTaskPayload): Promise<void> {
+    this.logger.log(
+      `[DEV] Dispatching local ingestion for source ${payload.sourceId}`,
+    );
+
+    setImmediate(() => {
+      this.pipeline.processSource(payload.sourceId).catch((error: unknown) => {
+        this.logger.error(
+          `[DEV] Ingestion pipeline failed for source ${payload.sourceId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async dispatchReindex(payload: ReindexTaskPayload): Promise<void> {
+    this.logger.log(
+      `[DEV] Dispatching local re-index for embedding index ${payload.indexId}`,
+    );
+
+    setImmediate(() => {
+      this.runReindex(payload.indexId).catch((error: unknown) => {
+        this.logger.error(
+          `[DEV] Re-index failed for embedding index ${payload.indexId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+    });
+  }
+
+  private async runReindex(indexId: string): Promise<void> {
+    while (await this.reindexService.runBatch(indexId)) {
+      // Each batch resumes from the cursor saved by the previous one
+    }
+  }
+}
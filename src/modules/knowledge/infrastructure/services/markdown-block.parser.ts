@@ -0,0 +1,203 @@
+const HEADING_LINE = /^ {0,3}(#{1,6})[ \t]+(\S.*)$/;
+const CLOSING_HASHES = /[ \t]{1,20}#{1,20}$/;
+const LIST_ITEM_LINE = /^[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]/;
+const INDENTED_LINE = /^[ \t]+\S/;
+const CODE_FENCE_LINE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_ROW_PREFIX = '|';
+
+/**
+ * Kind of a top-level Markdown block
+ */
+export type MarkdownBlockKind =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'table'
+  | 'code';
+
+/**
+ * A top-level block of a Markdown document
+ */
+export interface MarkdownBlock {
+  kind: MarkdownBlockKind;
+  /** Block source text (heading blocks: the heading title only) */
+  text: string;
+  /** Heading level (1-6), for heading blocks */
+  level?: number;
+  /** Start character index in the parsed text */
+  start: number;
+  /** End character index (exclusive) in the parsed text */
+  end: number;
+}
+
+/**
+ * One line of the parsed text and where it starts
+ */
+interface Line {
+  text: string;
+  start: number;
+}
+
+/**
+ * Markdown Block Parser
+ *
+ * Splits Markdown into its top-level blocks (headings, paragraphs, lists,
+ * tables and fenced code) so they can be kept whole when chunking. This is
+ * a line-based reading of the subset produced by DocumentParserService
+ * (headings, `- ` items, pipe tables), not a full CommonMark parser:
+ * - A list continues across blank lines while the next line is another
+ *   item or an indented continuation
+ * - Lines starting with `|` form a table
+ * - Unclosed code fences run to the end of the document
+ */
+export class MarkdownBlockParser {
+  /**
+   * Parses text into blocks, in document order
+   * @param text - Markdown text with `\n` line breaks
+   * @returns Non-empty blocks
+   */
+  parse(text: string): MarkdownBlock[] {
+    const lines = this.splitLines(text);
+    const blocks: MarkdownBlock[] = [];
+
+    let index = 0;
+    for (let line = lines.at(index); line; line = lines.at(index)) {
+      if (line.text.trim().length === 0) {
+        index++;
+        continue;
+      }
+
+      const heading = HEADING_LINE.exec(line.text);
+      if (heading) {
+        blocks.push({
+          kind: 'heading',
+          text: heading[2].replace(CLOSING_HASHES, '').trim(),
+          level: heading[1].length,
+          start: line.start,
+          end: line.start + line.text.length,
+        });
+        index++;
+        continue;
+      }
+
+      const [kind, next] = this.readBlock(lines, index);
+      const last = lines.at(next - 1) ?? line;
+      const start = line.start;
+      const end = last.start + last.text.length;
+      blocks.push({ kind, text: text.slice(start, end).trimEnd(), start, end });
+      index = next;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Reads the non-heading block starting at `index`
+   * @returns The block kind and the index of the first line after it
+   */
+  private readBlock(
+    lines: ReadonlyArray<Line>,
+    index: number,
+  ): [MarkdownBlockKind, number] {
+    const first = this.lineText(lines, index);
+
+    const fence = CODE_FENCE_LINE.exec(first);
+    if (fence) {
+      return ['code', this.readCodeFence(lines, index, fence[1])];
+    }
+    if (this.isTableLine(first)) {
+      return [
+        'table',
+        this.readWhile(lines, index, (line) => this.isTableLine(line)),
+      ];
+    }
+    if (LIST_ITEM_LINE.test(first)) {
+      return ['list', this.readList(lines, index)];
+    }
+    return [
+      'paragraph',
+      this.readWhile(
+        lines,
+        index,
+        (line) => line.trim().length > 0 && !this.startsBlock(line),
+      ),
+    ];
+  }
+
+  private readCodeFence(
+    lines: ReadonlyArray<Line>,
+    index: number,
+    fence: string,
+  ): number {
+    for (let next = index + 1; next < lines.length; next++) {
+      if (this.lineText(lines, next).trim().startsWith(fence)) {
+        return next + 1;
+      }
+    }
+    return lines.length;
+  }
+
+  private readList(lines: ReadonlyArray<Line>, index: number): number {
+    let end = index + 1;
+    let next = index + 1;
+    while (next < lines.length) {
+      const line = this.lineText(lines, next);
+      if (LIST_ITEM_LINE.test(line) || INDENTED_LINE.test(line)) {
+        end = next + 1;
+      } else if (line.trim().length > 0) {
+        // A non-indented line right after an item is a lazy continuation
+        if (end !== next || this.startsBlock(line)) {
+          break;
+        }
+        end = next + 1;
+      }
+      next++;
+    }
+    return end;
+  }
+
+  /**
+   * Index of the first line after `index` that does not match
+   */
+  private readWhile(
+    lines: ReadonlyArray<Line>,
+    index: number,
+    matches: (line: string) => boolean,
+  ): number {
+    let next = index + 1;
+    while (next < lines.length && matches(this.lineText(lines, next))) {
+      next++;
+    }
+    return next;
+  }
+
+  /**
+   * Checks if a line starts a heading, table, list or code block
+   */
+  private startsBlock(line: string): boolean {
+    return (
+      HEADING_LINE.test(line) ||
+      CODE_FENCE_LINE.test(line) ||
+      LIST_ITEM_LINE.test(line) ||
+      this.isTableLine(line)
+    );
+  }
+
+  private isTableLine(line: string): boolean {
+    return line.trimStart().startsWith(TABLE_ROW_PREFIX);
+  }
+
+  private lineText(lines: ReadonlyArray<Line>, index: number): string {
+    return lines.at(index)?.text ?? '';
+  }
+
+  private splitLines(text: string): Line[] {
+    const lines: Line[] = [];
+    let start = 0;
+    for (const line of text.split('\n')) {
+      lines.push({ text: line, start });
+      start += line.length + 1;
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,156 @@
+const NAMED_ENTITIES: ReadonlyMap<string, string> = new Map([
+  ['amp', '&'],
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+  ['nbsp', ' '],
+]);
+const HEX_ENTITY_PREFIX = '#x';
+const DECIMAL_ENTITY_PREFIX = '#';
+const ENTITY = /&(#x[0-9a-f]{1,6}|#\d{1,7}|[a-z]{2,8});/gi;
+const HEX_RADIX = 16;
+const DECIMAL_RADIX = 10;
+
+const TABLE_ROW_PREFIX = '|';
+const TABLE_DELIMITER_CELL = /^\s{0,10}:?-{3,100}:?\s{0,10}$/;
+
+/**
+ * Decodes the named (amp, lt, gt, quot, apos, nbsp) and numeric character
+ * references found in HTML and XML text
+ * @param text - Text with character references
+ * @returns Decoded text; unknown references are left as written
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(ENTITY, (entity: string, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith(HEX_ENTITY_PREFIX)) {
+      return fromCodePoint(
+        parseInt(lower.slice(HEX_ENTITY_PREFIX.length), HEX_RADIX),
+        entity,
+      );
+    }
+    if (lower.startsWith(DECIMAL_ENTITY_PREFIX)) {
+      return fromCodePoint(
+        parseInt(lower.slice(DECIMAL_ENTITY_PREFIX.length), DECIMAL_RADIX),
+        entity,
+      );
+    }
+    return NAMED_ENTITIES.get(lower) ?? entity;
+  });
+}
+
+function fromCodePoint(codePoint: number, fallback: string): string {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Renders rows of cells as a Markdown table. The first row is the header;
+ * shorter rows are padded so every row has the same number of columns.
+ * @param rows - Table rows (cell text, may contain line breaks)
+ * @returns The Markdown table, or an empty string for an empty table
+ */
+export function toMarkdownTable(
+  rows: ReadonlyArray<ReadonlyArray<string>>,
+): string {
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  if (columnCount === 0) {
+    return '';
+  }
+
+  const renderRow = (row: ReadonlyArray<string>): string => {
+    const cells = Array.from({ length: columnCount }, (_, index) =>
+      formatCell(row.at(index) ?? ''),
+    );
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const [header, ...body] = rows;
+  return [
+    renderRow(header),
+    `|${' --- |'.repeat(columnCount)}`,
+    ...body.map(renderRow),
+  ].join('\n');
+}
+
+function formatCell(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|');
+}
+
+/**
+ * Rewrites Markdown tables as one sentence per row, pairing every cell with
+ * its column header ("Header: value; Header: value."), so rows keep their
+ * meaning once whitespace is collapsed for chunking and embedding.
+ * Tables without a delimiter row are written as cells separated by "; ".
+ * @param markdown - Markdown text that may contain tables
+ * @returns The text with tables flattened
+ */
+export function flattenMarkdownTables(markdown: string): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines.at(index) ?? '';
+    if (!isTableLine(line)) {
+      output.push(line);
+      index++;
+      continue;
+    }
+
+    const table: string[][] = [];
+    let header: string[] | undefined;
+    while (index < lines.length && isTableLine(lines.at(index) ?? '')) {
+      const cells = splitTableRow((lines.at(index) ?? '').trim());
+      if (isDelimiterRow(cells)) {
+        header = table.shift() ?? header;
+      } else {
+        table.push(cells);
+      }
+      index++;
+    }
+
+    if (header && table.length === 0) {
+      // Header-only table: keep the column names
+      table.push(header);
+      header = undefined;
+    }
+    output.push(
+      ...table.map((cells) => describeRow(cells, header)).filter(Boolean),
+    );
+  }
+
+  return output.join('\n');
+}
+
+function isTableLine(line: string): boolean {
+  return line.trimStart().startsWith(TABLE_ROW_PREFIX);
+}
+
+function isDelimiterRow(cells: string[]): boolean {
+  return cells.every((cell) => TABLE_DELIMITER_CELL.test(cell));
+}
+
+function splitTableRow(line: string): string[] {
+  const inner = line.replace(/^\|/, '').replace(/\|$/, '');
+  return inner
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function describeRow(cells: string[], header?: string[]): string {
+  const parts = cells
+    .map((cell, column) => {
+      if (cell.length === 0) {
+        return '';
+      }
+      const name = header?.at(column);
+      return name ? `${name}: ${cell}` : cell;
+    })
+    .filter((part) => part.length > 0);
+  return parts.length > 0 ? `${parts.join('; ')}.` : '';
+}
@@ -0,0 +1,340 @@
+import { Injectable, Logger, type OnModuleInit } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import type {
+  IVectorStore,
+  VectorUpsertInput,
+  VectorSearchResult,
+  VectorSearchFilter,
+  VectorMetadataPatch,
+} from '../../domain/services/vector-store.interface';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  DEFAULT_MIN_SCORE,
+  requireSingleSector,
+  hasFilterConditions,
+  hasValidVectorMetadataFields,
+  toVectorMetadata,
+} from './vector-store.utils';
+import { extractErrorMessage, extractErrorStack } from '@shared/utils';
+
+// Constants (OWASP: Magic Numbers)
+const BATCH_SIZE = 100;
+const PARAMS_PER_ROW = 4;
+
+interface VectorRow {
+  id: string;
+  metadata: Record<string, unknown> | null;
+  score: number | string;
+}
+
+/**
+ * Translates a search filter into SQL conditions on the metadata column,
+ * appending their values to `params`. Rows missing a filtered field
+ * compare as NULL and are left out.
+ */
+function toFilterConditions(
+  filter: VectorSearchFilter,
+  params: unknown[],
+): string[] {
+  const bind = (value: unknown): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions: string[] = [];
+  if (filter.sourceIds?.length) {
+    conditions.push(
+      `metadata->>'sourceId' = ANY(${bind(filter.sourceIds)}::text[])`,
+    );
+  }
+  if (filter.sourceTypes?.length) {
+    conditions.push(
+      `metadata->>'sourceType' = ANY(${bind(filter.sourceTypes)}::text[])`,
+    );
+  }
+  if (filter.tags?.length) {
+    conditions.push(`metadata->'tags' ?| ${bind(filter.tags)}::text[]`);
+  }
+  if (filter.createdFrom) {
+    conditions.push(
+      `(metadata->>'createdAt')::double precision >= ${bind(filter.createdFrom.getTime())}`,
+    );
+  }
+  if (filter.createdTo) {
+    conditions.push(
+      `(metadata->>'createdAt')::double precision <= ${bind(filter.createdTo.getTime())}`,
+    );
+  }
+  return conditions;
+}
+
+/**
+ * PgVectorStore Service
+ *
+ * Implements IVectorStore on PostgreSQL with the pgvector extension, in the
+ * application database. Meant for integration tests and offline
+ * development, where a Pinecone index is not available.
+ *
+ * Storage:
+ * - Table vector_embeddings (namespace, id, embedding, metadata)
+ * - namespace holds the sectorId, like a Pinecone namespace: vector IDs are
+ *   unique per namespace and every query is scoped to one namespace
+ * - Exact cosine-distance search (no ANN index, since the column accepts
+ *   any dimension)
+ *
+ * The table and the extension are created on startup rather than by a
+ * migration, so deployments on Pinecone do not need pgvector installed.
+ */
+@Injectable()
+export class PgVectorStore implements IVectorStore, OnModuleInit {
+  private readonly logger = new Logger(PgVectorStore.name);
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.dataSource.query(`CREATE EXTENSION IF NOT EXISTS vector`);
+    await this.dataSource.query(
+      `CREATE TABLE IF NOT EXISTS vector_embeddings (
+         namespace varchar(255) NOT NULL,
+         id varchar(255) NOT NULL,
+         embedding vector NOT NULL,
+         metadata jsonb NOT NULL,
+         PRIMARY KEY (namespace, id)
+       )`,
+    );
+    await this.dataSource.query(
+      `CREATE INDEX IF NOT EXISTS idx_vector_embeddings_source
+       ON vector_embeddings (namespace, (metadata->>'sourceId'))`,
+    );
+
+    this.logger.log('PgVectorStore initialized (table: vector_embeddings)');
+  }
+
+  /**
+   * Upserts vectors, in batches of 100 rows.
+   * Uses sectorId from metadata as the namespace, unless a namespace is
+   * given.
+   *
+   * @param inputs - Array of vectors with embeddings and metadata
+   * @param namespace - Namespace to write to (default: the inputs' sectorId)
+   * @throws Error if the upsert operation fails
+   */
+  async upsertVectors(
+    inputs: VectorUpsertInput[],
+    namespace?: string,
+  ): Promise<void> {
+    if (inputs.length === 0) {
+      return;
+    }
+
+    const target = requireSingleSector(inputs, namespace);
+
+    try {
+      for (let i = 0; i < inputs.length; i += BATCH_SIZE) {
+        const batch = inputs.slice(i, i + BATCH_SIZE);
+        const values = batch
+          .map((_, row) => {
+            const [namespace, id, embedding, metadata] = Array.from(
+              { length: PARAMS_PER_ROW },
+              (__, column) => `$${row * PARAMS_PER_ROW + column + 1}`,
+            );
+            return `(${namespace}, ${id}, ${embedding}::vector, ${metadata}::jsonb)`;
+          })
+          .join(', ');
+        const params = batch.flatMap((input) => [
+          target,
+          input.id,
+          JSON.stringify(input.embedding),
+          JSON.stringify(input.metadata),
+        ]);
+
+        await this.dataSource.query(
+          `INSERT INTO vector_embeddings (namespace, id, embedding, metadata)
+           VALUES ${values}
+           ON CONFLICT (namespace, id)
+           DO UPDATE SET embedding = EXCLUDED.embedding, metadata = EXCLUDED.metadata`,
+          params,
+        );
+      }
+
+      this.logger.log(
+        `Successfully upserted ${inputs.length} vectors to namespace ${target}`,
+      );
+    } catch (error: unknown) {
+      throw this.failure('upsert vectors to', error);
+    }
+  }
+
+  /**
+   * Performs cosine similarity search within a sector's namespace.
+   * Applies the metadata filter, keeps the top matches, then drops those
+   * below the minimum score.
+   *
+   * @param embedding - Query embedding vector
+   * @param sectorId - Sector ID (namespace)
+   * @param limit - Maximum number of results (default: 5)
+   * @param minScore - Minimum similarity score threshold
+   * @param filter - Optional metadata filter
+   * @returns Array of search results ordered by similarity
+   */
+  async vectorSearch(
+    embedding: number[],
+    sectorId: string,
+    limit: number = DEFAULT_SEARCH_LIMIT,
+    minScore: number = DEFAULT_MIN_SCORE,
+    filter?: VectorSearchFilter,
+  ): Promise<VectorSearchResult[]> {
+    const params: unknown[] = [JSON.stringify(embedding), sectorId, limit];
+    const conditions = hasFilterConditions(filter)
+      ? toFilterConditions(filter, params)
+      : [];
+
+    try {
+      const rows = await this.dataSource.query<VectorRow[]>(
+        `SELECT id, metadata, 1 - (embedding <=> $1::vector) AS score
+         FROM vector_embeddings
+         WHERE ${['namespace = $2', ...conditions].join(' AND ')}
+         ORDER BY embedding <=> $1::vector
+         LIMIT $3`,
+        params,
+      );
+
+      return rows
+        .map((row) => ({ ...row, score: Number(row.score) }))
+        .filter(
+          (row) =>
+            row.score >= minScore && hasValidVectorMetadataFields(row.metadata),
+        )
+        .map((row) => ({
+          id: row.id,
+          score: row.score,
+          metadata: toVectorMetadata(row.metadata as Record<string, unknown>),
+        }));
+    } catch (error: unknown) {
+      throw this.failure('search vectors in', error);
+    }
+  }
+
+  /**
+   * Merges a metadata patch into all vectors of a knowledge source.
+   *
+   * @param sourceId - ID of the knowledge source
+   * @param sectorId - Sector ID (namespace)
+   * @param patch - Metadata fields to overwrite
+   * @throws Error if the update fails
+   */
+  async updateMetadataBySourceId(
+    sourceId: string,
+    sectorId: string,
+    patch: VectorMetadataPatch,
+  ): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE vector_embeddings
+         SET metadata = metadata || $3::jsonb
+         WHERE namespace = $1 AND metadata->>'sourceId' = $2`,
+        [sectorId, sourceId, JSON.stringify(patch)],
+      );
+    } catch (error: unknown) {
+      throw this.failure('update vectors in', error);
+    }
+  }
+
+  /**
+   * Deletes all vectors of a knowledge source, by the sourceId metadata.
+   *
+   * @param sourceId - ID of the knowledge source
+   * @param sectorId - Sector ID (namespace)
+   * @throws Error if the deletion operation fails
+   */
+  async deleteBySourceId(sourceId: string, sectorId: string): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `DELETE FROM vector_embeddings
+         WHERE namespace = $1 AND metadata->>'sourceId' = $2`,
+        [sectorId, sourceId],
+      );
+
+      this.logger.log(
+        `Deleted vectors for sourceId ${sourceId} from namespace ${sectorId}`,
+      );
+    } catch (error: unknown) {
+      throw this.failure('delete vectors from', error);
+    }
+  }
+
+  /**
+   * Deletes vectors by ID.
+   *
+   * @param ids - Vector IDs to delete
+   * @param sectorId - Sector ID (namespace)
+   * @throws Error if the deletion operation fails
+   */
+  async deleteByIds(ids: string[], sectorId: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await this.dataSource.query(
+        `DELETE FROM vector_embeddings
+         WHERE namespace = $1 AND id = ANY($2::varchar[])`,
+        [sectorId, ids],
+      );
+
+      this.logger.log(
+        `Deleted ${ids.length} vectors from namespace ${sectorId}`,
+      );
+    } catch (error: unknown) {
+      throw this.failure('delete vectors from', error);
+    }
+  }
+
+  /**
+   * Lists the namespaces that hold vectors.
+   *
+   * @returns Sector IDs, in no particular order
+   * @throws Error if the query fails
+   */
+  async listNamespaces(): Promise<string[]> {
+    try {
+      const rows = await this.dataSource.query<{ namespace: string }[]>(
+        `SELECT DISTINCT namespace FROM vector_embeddings`,
+      );
+      return rows.map((row) => row.namespace);
+    } catch (error: unknown) {
+      throw this.failure('list namespaces from', error);
+    }
+  }
+
+  /**
+   * Lists the IDs of all vectors in a sector's namespace.
+   *
+   * @param sectorId - Sector ID (namespace) to list
+   * @returns Vector IDs, in no particular order
+   * @throws Error if the query fails
+   */
+  async listVectorIds(sectorId: string): Promise<string[]> {
+    try {
+      const rows = await this.dataSource.query<{ id: string }[]>(
+        `SELECT id FROM vector_embeddings WHERE namespace = $1`,
+        [sectorId],
+      );
+      return rows.map((row) => row.id);
+    } catch (error: unknown) {
+      throw this.failure('list vectors from', error);
+    }
+  }
+
+  /**
+   * Logs a failed operation and wraps it in an Error for the caller
+   */
+  private failure(operation: string, error: unknown): Error {
+    const errorMessage = extractErrorMessage(error);
+    this.logger.error(
+      `Failed to ${operation} pgvector: ${errorMessage}`,
+      extractErrorStack(error),
+    );
+    return new Error(`Failed to ${operation} pgvector: ${errorMessage}`);
+  }
+}
@@ -8,14 +8,23 @@ import type {
   IVectorStore,
   VectorUpsertInput,
   VectorSearchResult,
-  VectorMetadata,
+  VectorSearchFilter,
+  VectorMetadataPatch,
 } from '../../domain/services/vector-store.interface';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  DEFAULT_MIN_SCORE,
+  requireSingleSector,
+  hasFilterConditions,
+  hasValidVectorMetadataFields,
+  toVectorMetadata,
+} from './vector-store.utils';
 import { extractErrorMessage, extractErrorStack } from '@shared/utils';
 
 // Constants (OWASP: Magic Numbers)
 const BATCH_SIZE = 100;
-const DEFAULT_SEARCH_LIMIT = 5;
-const DEFAULT_MIN_SCORE = 0.55;
+const DELETE_BATCH_SIZE = 1000;
+const LIST_PAGE_SIZE = 100;
 
 /**
  * Type for Pinecone match result from query
@@ -27,33 +36,27 @@ interface PineconeMatch {
 }
 
 /**
- * Validates that a metadata object has all required VectorMetadata fields
+ * Translates a search filter into a Pinecone metadata filter.
+ * `$in` on the `tags` list matches vectors having any of the tags.
  */
-function hasValidVectorMetadataFields(
-  metadata: Record<string, unknown> | null | undefined,
-): boolean {
-  if (!metadata || typeof metadata !== 'object') return false;
-
-  return (
-    typeof metadata.sourceId === 'string' &&
-    typeof metadata.sectorId === 'string' &&
-    typeof metadata.content === 'string' &&
-    typeof metadata.position === 'number' &&
-    typeof metadata.tokenCount === 'number'
-  );
-}
-
-/**
- * Extracts VectorMetadata from a validated metadata record
- */
-function toVectorMetadata(metadata: Record<string, unknown>): VectorMetadata {
-  return {
-    sourceId: metadata.sourceId as string,
-    sectorId: metadata.sectorId as string,
-    content: metadata.content as string,
-    position: metadata.position as number,
-    tokenCount: metadata.tokenCount as number,
-  };
+function toPineconeFilter(filter: VectorSearchFilter): object {
+  const conditions: object[] = [];
+  if (filter.sourceIds?.length) {
+    conditions.push({ sourceId: { $in: filter.sourceIds } });
+  }
+  if (filter.sourceTypes?.length) {
+    conditions.push({ sourceType: { $in: filter.sourceTypes } });
+  }
+  if (filter.tags?.length) {
+    conditions.push({ tags: { $in: filter.tags } });
+  }
+  if (filter.createdFrom) {
+    conditions.push({ createdAt: { $gte: filter.createdFrom.getTime() } });
+  }
+  if (filter.createdTo) {
+    conditions.push({ createdAt: { $lte: filter.createdTo.getTime() } });
+  }
+  return { $and: conditions };
 }
 
 /**
@@ -64,14 +67,16 @@ function toVectorMetadata(metadata: Record<string, unknown>): VectorMetadata {
  *
  * Features:
  * - Batch upsert (max 100 vectors per call)
- * - Similarity search with namespace filtering
- * - Delete by sourceId using metadata filters
+ * - Similarity search with namespace and metadata filtering
+ * - Metadata update and delete by sourceId using metadata filters
+ * - Paginated listing of vector IDs per namespace
  * - Health check for connectivity monitoring
  *
  * Pinecone Configuration:
  * - Index: context-ai (3072 dimensions, cosine metric)
  * - Namespaces: sectorId-based isolation
- * - Metadata: sourceId, sectorId, content, position, tokenCount
+ * - Metadata: sourceId, sectorId, content, position, tokenCount, sourceType,
+ *   tags, createdAt (epoch ms, so it can be range-filtered)
  *
  * Security:
  * - API key managed via environment variables
@@ -103,30 +108,27 @@ export class PineconeVectorStore implements IVectorStore {
   /**
    * Upserts vectors into Pinecone.
    * Handles batching internally (max 100 vectors per request).
-   * Uses sectorId from metadata as the Pinecone namespace.
+   * Uses sectorId from metadata as the Pinecone namespace, unless a
+   * namespace is given.
+   * The index has a fixed dimension: vectors of another dimension are
+   * rejected by Pinecone.
    *
    * @param inputs - Array of vectors with embeddings and metadata
+   * @param namespace - Namespace to write to (default: the inputs' sectorId)
    * @throws Error if the upsert operation fails
    */
-  async upsertVectors(inputs: VectorUpsertInput[]): Promise<void> {
+  async upsertVectors(
+    inputs: VectorUpsertInput[],
+    namespace?: string,
+  ): Promise<void> {
     if (inputs.length === 0) {
       this.logger.debug('No vectors to upsert, skipping');
       return;
     }
 
-    // Validate all inputs belong to the same sector (namespace)
-    const sectorId = inputs[0].metadata.sectorId;
-    const hasMixedSectors = inputs.some(
-      (input) => input.metadata.sectorId !== sectorId,
-    );
-    if (hasMixedSectors) {
-      throw new Error(
-        'All vectors in a single upsert must belong to the same sectorId. ' +
-          'Group inputs by sectorId before calling upsertVectors.',
-      );
-    }
-
-    const ns = this.index.namespace(sectorId);
+    // Validate all inputs belong to the same sector (the default namespace)
+    const target = requireSingleSector(inputs, namespace);
+    const ns = this.index.namespace(target);
 
     try {
       // Process in batches of BATCH_SIZE
@@ -141,12 +143,12 @@ export class PineconeVectorStore implements IVectorStore {
         await ns.upsert({ records });
 
         this.logger.debug(
-          `Upserted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${records.length} vectors to namespace ${sectorId}`,
+          `Upserted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${records.length} vectors to namespace ${target}`,
         );
       }
 
       this.logger.log(
-        `Successfully upserted ${inputs.length} vectors to namespace ${sectorId}`,
+        `Successfully upserted ${inputs.length} vectors to namespace ${target}`,
       );
     } catch (error: unknown) {
       const errorMessage = extractErrorMessage(error);
@@ -167,6 +169,7 @@ export class PineconeVectorStore implements IVectorStore {
    * @param sectorId - Sector ID (Pinecone namespace)
    * @param limit - Maximum number of results (default: 5)
    * @param minScore - Minimum similarity score threshold (default: 0.7)
+   * @param filter - Optional metadata filter (applied by Pinecone)
    * @returns Array of search results ordered by similarity
    */
   async vectorSearch(
@@ -174,6 +177,7 @@ export class PineconeVectorStore implements IVectorStore {
     sectorId: string,
     limit: number = DEFAULT_SEARCH_LIMIT,
     minScore: number = DEFAULT_MIN_SCORE,
+    filter?: VectorSearchFilter,
   ): Promise<VectorSearchResult[]> {
     const ns = this.index.namespace(sectorId);
 
@@ -182,6 +186,9 @@ export class PineconeVectorStore implements IVectorStore {
         vector: embedding,
         topK: limit,
         includeMetadata: true,
+        ...(hasFilterConditions(filter) && {
+          filter: toPineconeFilter(filter),
+        }),
       });
 
       const matches: PineconeMatch[] =
@@ -216,6 +223,41 @@ export class PineconeVectorStore implements IVectorStore {
     }
   }
 
+  /**
+   * Updates the metadata of all vectors of a knowledge source, selected by
+   * a sourceId metadata filter. Embeddings are kept.
+   *
+   * @param sourceId - ID of the knowledge source
+   * @param sectorId - Sector ID (Pinecone namespace)
+   * @param patch - Metadata fields to overwrite
+   * @throws Error if the update operation fails
+   */
+  async updateMetadataBySourceId(
+    sourceId: string,
+    sectorId: string,
+    patch: VectorMetadataPatch,
+  ): Promise<void> {
+    const ns = this.index.namespace(sectorId);
+
+    try {
+      await ns.update({
+        filter: { sourceId: { $eq: sourceId } },
+        metadata: { ...patch },
+      });
+
+      this.logger.log(
+        `Updated vector metadata for sourceId ${sourceId} in namespace ${sectorId}`,
+      );
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      this.logger.error(
+        `Failed to update vectors: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw new Error(`Failed to update vectors in Pinecone: ${errorMessage}`);
+    }
+  }
+
   /**
    * Deletes all vectors associated with a specific knowledge source.
    * Uses metadata filter to find and delete vectors by sourceId.
@@ -247,6 +289,105 @@ export class PineconeVectorStore implements IVectorStore {
     }
   }
 
+  /**
+   * Deletes vectors by ID.
+   * Handles batching internally (max 1000 IDs per request).
+   *
+   * @param ids - Vector IDs to delete
+   * @param sectorId - Sector ID (Pinecone namespace)
+   * @throws Error if the deletion operation fails
+   */
+  async deleteByIds(ids: string[], sectorId: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const ns = this.index.namespace(sectorId);
+
+    try {
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await ns.deleteMany({ ids: ids.slice(i, i + DELETE_BATCH_SIZE) });
+      }
+
+      this.logger.log(
+        `Deleted ${ids.length} vectors from namespace ${sectorId}`,
+      );
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      this.logger.error(
+        `Failed to delete vectors: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw new Error(
+        `Failed to delete vectors from Pinecone: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Lists the namespaces that hold vectors, from the index stats.
+   * The default (unnamed) namespace is not used by this service and is
+   * left out.
+   *
+   * @returns Sector IDs, in no particular order
+   * @throws Error if the index stats cannot be read
+   */
+  async listNamespaces(): Promise<string[]> {
+    try {
+      const stats = await this.index.describeIndexStats();
+      return Object.keys(stats.namespaces ?? {}).filter(
+        (namespace) => namespace.length > 0,
+      );
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      this.logger.error(
+        `Failed to list namespaces: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw new Error(
+        `Failed to list namespaces from Pinecone: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Lists the IDs of all vectors in a sector's namespace, following the
+   * pagination tokens (serverless indexes only).
+   *
+   * @param sectorId - Sector ID (namespace) to list
+   * @returns Vector IDs, in no particular order
+   * @throws Error if the listing fails
+   */
+  async listVectorIds(sectorId: string): Promise<string[]> {
+    const ns = this.index.namespace(sectorId);
+    const ids: string[] = [];
+
+    try {
+      let paginationToken: string | undefined;
+      do {
+        const page = await ns.listPaginated({
+          limit: LIST_PAGE_SIZE,
+          paginationToken,
+        });
+        for (const vector of page.vectors ?? []) {
+          if (vector.id) {
+            ids.push(vector.id);
+          }
+        }
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      this.logger.error(
+        `Failed to list vectors: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw new Error(`Failed to list vectors from Pinecone: ${errorMessage}`);
+    }
+
+    return ids;
+  }
+
   /**
    * Health check for Pinecone connectivity.
    * Attempts to describe index stats to verify connection.
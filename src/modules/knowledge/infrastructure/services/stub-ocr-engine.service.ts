@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import type {
+  IOcrEngine,
+  OcrPageResult,
+} from '../../domain/services/ocr-engine.interface';
+
+/**
+ * Stub OCR Engine
+ *
+ * Implements IOcrEngine without any OCR: each page returns the text set
+ * for it with `setPage`, or no text. Meant for tests and environments
+ * without Tesseract (OCR_ENGINE=stub).
+ */
+@Injectable()
+export class StubOcrEngine implements IOcrEngine {
+  private readonly pages = new Map<number, Omit<OcrPageResult, 'page'>>();
+  private readonly requests: number[][] = [];
+
+  /**
+   * Sets the text and confidence returned for a page
+   */
+  setPage(page: number, text: string, confidence = 1): void {
+    this.pages.set(page, { text, confidence });
+  }
+
+  /**
+   * Pages requested by each call, in call order
+   */
+  get recognizedPages(): number[][] {
+    return this.requests;
+  }
+
+  recognizePdfPages(_pdf: Buffer, pages: number[]): Promise<OcrPageResult[]> {
+    this.requests.push([...pages]);
+    return Promise.resolve(
+      pages.map((page) => ({
+        page,
+        ...(this.pages.get(page) ?? { text: '', confidence: 0 }),
+      })),
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type {
+  IOcrEngine,
+  OcrPageResult,
+} from '../../domain/services/ocr-engine.interface';
+
+const execFileAsync = promisify(execFile);
+
+// OCR limits (OWASP: Magic Numbers)
+const DEFAULT_DPI = 300;
+const DEFAULT_LANGUAGES = 'spa+eng';
+const COMMAND_TIMEOUT_MS = 60000;
+const BYTES_IN_KB = 1024;
+const KB_IN_MB = 1024;
+const MAX_OUTPUT_SIZE_MB = 10;
+const MAX_OUTPUT_SIZE = MAX_OUTPUT_SIZE_MB * KB_IN_MB * BYTES_IN_KB;
+const MAX_CONFIDENCE = 100;
+const LOG_CONFIDENCE_DECIMALS = 2;
+
+/** TSV row level of a recognized word */
+const TSV_WORD_LEVEL = '5';
+
+/**
+ * Tesseract OCR Engine
+ *
+ * Implements IOcrEngine with the command-line tools installed in the
+ * container image:
+ * - `pdftoppm` (poppler-utils) renders each page to a grayscale PNG
+ * - `tesseract` recognizes the page, as TSV to get word confidences
+ *
+ * Pages are rendered in a temporary directory, removed afterwards.
+ *
+ * Configuration:
+ * - OCR_LANGUAGES: Tesseract languages (default: spa+eng)
+ * - OCR_DPI: rendering resolution (default: 300)
+ */
+@Injectable()
+export class TesseractOcrEngine implements IOcrEngine {
+  private readonly logger = new Logger(TesseractOcrEngine.name);
+  private readonly languages: string;
+  private readonly dpi: number;
+
+  constructor() {
+    this.languages = process.env.OCR_LANGUAGES || DEFAULT_LANGUAGES;
+    const dpi = Number(process.env.OCR_DPI);
+    this.dpi = Number.isInteger(dpi) && dpi > 0 ? dpi : DEFAULT_DPI;
+  }
+
+  async recognizePdfPages(
+    pdf: Buffer,
+    pages: number[],
+  ): Promise<OcrPageResult[]> {
+    const workDir = await mkdtemp(join(tmpdir(), 'knowledge-ocr-'));
+    try {
+      const pdfPath = join(workDir, 'document.pdf');
+      // Path inside the temporary directory created above
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await writeFile(pdfPath, pdf);
+
+      const results: OcrPageResult[] = [];
+      for (const page of pages) {
+        results.push(await this.recognizePage(pdfPath, workDir, page));
+      }
+      return results;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async recognizePage(
+    pdfPath: string,
+    workDir: string,
+    page: number,
+  ): Promise<OcrPageResult> {
+    const imagePrefix = join(workDir, `page-${page}`);
+    await this.run('pdftoppm', [
+      '-f',
+      String(page),
+      '-l',
+      String(page),
+      '-r',
+      String(this.dpi),
+      '-gray',
+      '-png',
+      '-singlefile',
+      pdfPath,
+      imagePrefix,
+    ]);
+
+    const tsv = await this.run('tesseract', [
+      `${imagePrefix}.png`,
+      'stdout',
+      '-l',
+      this.languages,
+      'tsv',
+    ]);
+
+    const result = parseTesseractTsv(page, tsv);
+    this.logger.debug(
+      `OCR page ${page}: ${result.text.length} chars, confidence ${result.confidence.toFixed(LOG_CONFIDENCE_DECIMALS)}`,
+    );
+    return result;
+  }
+
+  private async run(command: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync(command, args, {
+      timeout: COMMAND_TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_SIZE,
+      encoding: 'utf-8',
+    });
+    return stdout;
+  }
+}
+
+/**
+ * Rebuilds the page text from Tesseract's TSV output (one word per row),
+ * with a line break between lines and a blank line between paragraphs,
+ * and averages the confidence of the recognized words
+ */
+export function parseTesseractTsv(page: number, tsv: string): OcrPageResult {
+  const lines = new Map<string, { paragraph: string; words: string[] }>();
+  let confidenceSum = 0;
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const [level, , block, paragraph, line, , , , , , conf, word] =
+      row.split('\t');
+    const confidence = Number(conf);
+    const text = word?.trim() ?? '';
+    if (
+      level !== TSV_WORD_LEVEL ||
+      text.length === 0 ||
+      Number.isNaN(confidence) ||
+      confidence < 0
+    ) {
+      continue;
+    }
+
+    const paragraphKey = `${block}:${paragraph}`;
+    const lineKey = `${paragraphKey}:${line}`;
+    const entry = lines.get(lineKey) ?? { paragraph: paragraphKey, words: [] };
+    entry.words.push(text);
+    lines.set(lineKey, entry);
+    confidenceSum += confidence;
+  }
+
+  let result = '';
+  let previousParagraph: string | undefined;
+  let words = 0;
+  for (const entry of lines.values()) {
+    if (previousParagraph !== undefined) {
+      result += entry.paragraph === previousParagraph ? '\n' : '\n\n';
+    }
+    result += entry.words.join(' ');
+    previousParagraph = entry.paragraph;
+    words += entry.words.length;
+  }
+
+  return {
+    page,
+    text: result,
+    confidence: words > 0 ? confidenceSum / words / MAX_CONFIDENCE : 0,
+  };
+}
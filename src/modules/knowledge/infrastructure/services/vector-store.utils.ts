@@ -0,0 +1,138 @@
+import type {
+  VectorMetadata,
+  VectorSearchFilter,
+  VectorUpsertInput,
+} from '../../domain/services/vector-store.interface';
+import { SourceType } from '@shared/types';
+
+const SOURCE_TYPES: ReadonlySet<string> = new Set(Object.values(SourceType));
+
+// Search defaults shared by every IVectorStore implementation
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const DEFAULT_MIN_SCORE = 0.55;
+
+/**
+ * Returns the namespace of an upsert: the given one, or the sector shared
+ * by all inputs
+ * @param inputs - Non-empty list of vectors to upsert
+ * @param namespace - Namespace requested by the caller, if any
+ * @returns The namespace to write to
+ * @throws {Error} If the inputs belong to different sectors
+ */
+export function requireSingleSector(
+  inputs: VectorUpsertInput[],
+  namespace?: string,
+): string {
+  const sectorId = inputs[0].metadata.sectorId;
+  const hasMixedSectors = inputs.some(
+    (input) => input.metadata.sectorId !== sectorId,
+  );
+  if (hasMixedSectors) {
+    throw new Error(
+      'All vectors in a single upsert must belong to the same sectorId. ' +
+        'Group inputs by sectorId before calling upsertVectors.',
+    );
+  }
+  return namespace ?? sectorId;
+}
+
+/**
+ * Validates that a metadata object has all required VectorMetadata fields
+ */
+export function hasValidVectorMetadataFields(
+  metadata: Record<string, unknown> | null | undefined,
+): boolean {
+  if (!metadata || typeof metadata !== 'object') return false;
+
+  return (
+    typeof metadata.sourceId === 'string' &&
+    typeof metadata.sectorId === 'string' &&
+    typeof metadata.content === 'string' &&
+    typeof metadata.position === 'number' &&
+    typeof metadata.tokenCount === 'number'
+  );
+}
+
+/**
+ * Extracts VectorMetadata from a validated metadata record
+ */
+export function toVectorMetadata(
+  metadata: Record<string, unknown>,
+): VectorMetadata {
+  const {
+    headingPath,
+    sourceType,
+    tags,
+    createdAt,
+    embeddingModel,
+    embeddingDimensions,
+  } = metadata;
+  return {
+    sourceId: metadata.sourceId as string,
+    sectorId: metadata.sectorId as string,
+    content: metadata.content as string,
+    position: metadata.position as number,
+    tokenCount: metadata.tokenCount as number,
+    ...(Array.isArray(headingPath) && {
+      headingPath: headingPath.map(String),
+    }),
+    ...(typeof sourceType === 'string' &&
+      SOURCE_TYPES.has(sourceType) && {
+        sourceType: sourceType as SourceType,
+      }),
+    ...(Array.isArray(tags) && { tags: tags.map(String) }),
+    ...(typeof createdAt === 'number' && { createdAt }),
+    ...(typeof embeddingModel === 'string' && { embeddingModel }),
+    ...(typeof embeddingDimensions === 'number' && { embeddingDimensions }),
+  };
+}
+
+/**
+ * Whether a filter has at least one condition
+ */
+export function hasFilterConditions(
+  filter: VectorSearchFilter | undefined,
+): filter is VectorSearchFilter {
+  return (
+    filter !== undefined &&
+    ((filter.sourceIds?.length ?? 0) > 0 ||
+      (filter.sourceTypes?.length ?? 0) > 0 ||
+      (filter.tags?.length ?? 0) > 0 ||
+      filter.createdFrom !== undefined ||
+      filter.createdTo !== undefined)
+  );
+}
+
+/**
+ * Evaluates a search filter against the metadata of a vector, for stores
+ * that cannot push the filter down to the database
+ */
+export function matchesVectorFilter(
+  metadata: VectorMetadata,
+  filter: VectorSearchFilter,
+): boolean {
+  const { sourceIds, sourceTypes, tags, createdFrom, createdTo } = filter;
+  if (sourceIds?.length && !sourceIds.includes(metadata.sourceId)) {
+    return false;
+  }
+  if (
+    sourceTypes?.length &&
+    (!metadata.sourceType || !sourceTypes.includes(metadata.sourceType))
+  ) {
+    return false;
+  }
+  if (tags?.length && !tags.some((tag) => metadata.tags?.includes(tag))) {
+    return false;
+  }
+  if (createdFrom || createdTo) {
+    const createdAt = metadata.createdAt;
+    if (
+      createdAt === undefined ||
+      (createdFrom && createdAt < createdFrom.getTime()) ||
+      (createdTo && createdAt > createdTo.getTime())
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
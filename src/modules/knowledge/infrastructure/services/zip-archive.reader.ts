@@ -0,0 +1,154 @@
+import { fromBufferPromise, type Entry, type ZipFile } from 'yauzl';
+import { extractErrorMessage } from '@shared/utils';
+
+// Guard against decompression bombs (OWASP: Magic Numbers)
+const BYTES_IN_KB = 1024;
+const KB_IN_MB = 1024;
+const MAX_ENTRIES = 5_000;
+const MAX_ENTRY_SIZE_MB = 50;
+const MAX_ENTRY_SIZE = MAX_ENTRY_SIZE_MB * KB_IN_MB * BYTES_IN_KB;
+const MAX_TOTAL_SIZE_MB = 200;
+const MAX_TOTAL_SIZE = MAX_TOTAL_SIZE_MB * KB_IN_MB * BYTES_IN_KB;
+const MAX_COMPRESSION_RATIO = 100;
+// Small entries of repeated markup compress beyond the ratio legitimately
+const RATIO_CHECK_MIN_SIZE = KB_IN_MB * BYTES_IN_KB;
+
+const NOT_A_ZIP_ERROR = 'End of central directory record signature not found';
+
+/**
+ * ZIP Archive Reader
+ *
+ * Reads the ZIP containers used by Office Open XML documents (DOCX) with
+ * yauzl. Before anything is decompressed, the central directory is checked
+ * against decompression bombs:
+ * - At most MAX_ENTRIES entries
+ * - Declared sizes of at most MAX_ENTRY_SIZE per entry and MAX_TOTAL_SIZE
+ *   in total
+ * - A compression ratio of at most MAX_COMPRESSION_RATIO per entry
+ *
+ * yauzl fails a read whose data does not match its declared size, so the
+ * declared sizes bound the memory used.
+ */
+export class ZipArchiveReader {
+  private constructor(
+    private readonly zipFile: ZipFile,
+    private readonly entries: ReadonlyMap<string, Entry>,
+  ) {}
+
+  /**
+   * Opens an archive and reads its central directory
+   * @param buffer - The complete archive
+   * @returns The reader
+   * @throws {Error} If the buffer is not a readable ZIP archive, or exceeds
+   *   the decompression limits
+   */
+  static async open(buffer: Buffer): Promise<ZipArchiveReader> {
+    let zipFile: ZipFile;
+    try {
+      zipFile = await fromBufferPromise(buffer, {
+        lazyEntries: true,
+        validateEntrySizes: true,
+      });
+    } catch (error: unknown) {
+      throw toArchiveError(error);
+    }
+
+    if (zipFile.entryCount > MAX_ENTRIES) {
+      zipFile.close();
+      throw new Error(`Archive has too many entries (max ${MAX_ENTRIES})`);
+    }
+    const entries = await readCentralDirectory(zipFile);
+    return new ZipArchiveReader(zipFile, entries);
+  }
+
+  /**
+   * Checks if the archive contains an entry
+   * @param name - Entry path (e.g. "word/document.xml")
+   */
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Reads an entry as UTF-8 text
+   * @param name - Entry path (e.g. "word/document.xml")
+   * @returns The entry text, or undefined if the archive has no such entry
+   * @throws {Error} If the entry cannot be decompressed
+   */
+  async readText(name: string): Promise<string | undefined> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+
+    try {
+      const stream = await this.zipFile.openReadStreamPromise(entry);
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks).toString('utf-8');
+    } catch (error: unknown) {
+      throw toArchiveError(error);
+    }
+  }
+}
+
+/**
+ * Lists the entries of the archive, checking each against the limits
+ */
+function readCentralDirectory(zipFile: ZipFile): Promise<Map<string, Entry>> {
+  const entries = new Map<string, Entry>();
+  let totalSize = 0;
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error): void => {
+      zipFile.close();
+      reject(error);
+    };
+
+    zipFile.on('entry', (entry: Entry) => {
+      const limitError = checkEntryLimits(entry);
+      totalSize += entry.uncompressedSize;
+      if (limitError) {
+        fail(limitError);
+      } else if (totalSize > MAX_TOTAL_SIZE) {
+        fail(
+          new Error(
+            `Archive is too large when decompressed (max ${MAX_TOTAL_SIZE_MB}MB)`,
+          ),
+        );
+      } else {
+        entries.set(entry.fileName, entry);
+        zipFile.readEntry();
+      }
+    });
+    zipFile.once('end', () => resolve(entries));
+    zipFile.once('error', (error: unknown) => fail(toArchiveError(error)));
+    zipFile.readEntry();
+  });
+}
+
+function checkEntryLimits(entry: Entry): Error | undefined {
+  if (entry.uncompressedSize > MAX_ENTRY_SIZE) {
+    return new Error(
+      `Archive entry ${entry.fileName} is too large (max ${MAX_ENTRY_SIZE_MB}MB)`,
+    );
+  }
+  if (
+    entry.uncompressedSize > RATIO_CHECK_MIN_SIZE &&
+    entry.uncompressedSize > entry.compressedSize * MAX_COMPRESSION_RATIO
+  ) {
+    return new Error(
+      `Archive entry ${entry.fileName} is too compressed (max ratio ${MAX_COMPRESSION_RATIO}:1)`,
+    );
+  }
+  return undefined;
+}
+
+function toArchiveError(error: unknown): Error {
+  const message = extractErrorMessage(error);
+  return message.startsWith(NOT_A_ZIP_ERROR)
+    ? new Error('Not a ZIP archive')
+    : new Error(`Corrupt archive: ${message}`);
+}
@@ -3,24 +3,119 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 // Presentation
 import { KnowledgeController } from './presentation/knowledge.controller';
+import { InternalKnowledgeController } from './presentation/internal-knowledge.controller';
+import { AdminKnowledgeController } from './presentation/admin-knowledge.controller';
 
 // Application
 import { IngestDocumentUseCase } from './application/use-cases/ingest-document.use-case';
+import { IngestUrlUseCase } from './application/use-cases/ingest-url.use-case';
 import { DeleteSourceUseCase } from './application/use-cases/delete-source.use-case';
+import { RefreshUrlSourcesUseCase } from './application/use-cases/refresh-url-sources.use-case';
+import { IngestSourceVersionUseCase } from './application/use-cases/ingest-source-version.use-case';
+import { RestoreSourceVersionUseCase } from './application/use-cases/restore-source-version.use-case';
+import { TagSourcesUseCase } from './application/use-cases/tag-sources.use-case';
+import { ListSourcesUseCase } from './application/use-cases/list-sources.use-case';
+import { SearchKnowledgeUseCase } from './application/use-cases/search-knowledge.use-case';
+import { ListFragmentsUseCase } from './application/use-cases/list-fragments.use-case';
+import { UpdateFragmentUseCase } from './application/use-cases/update-fragment.use-case';
+import { SplitFragmentUseCase } from './application/use-cases/split-fragment.use-case';
+import { MergeFragmentsUseCase } from './application/use-cases/merge-fragments.use-case';
+import { ReconcileVectorStoreUseCase } from './application/use-cases/reconcile-vector-store.use-case';
+import { GetEmbeddingIndexesUseCase } from './application/use-cases/get-embedding-indexes.use-case';
+import { StartEmbeddingReindexUseCase } from './application/use-cases/start-embedding-reindex.use-case';
+import { BuildEmbeddingIndexUseCase } from './application/use-cases/build-embedding-index.use-case';
+import { RollbackEmbeddingIndexUseCase } from './application/use-cases/rollback-embedding-index.use-case';
+import { GetKnowledgeQuotaUseCase } from './application/use-cases/get-knowledge-quota.use-case';
+import { IngestionPipelineService } from './application/services/ingestion-pipeline.service';
+import { FragmentCurationService } from './application/services/fragment-curation.service';
+import { UrlRefreshScheduler } from './application/services/url-refresh-scheduler.service';
+import { VectorReconciliationScheduler } from './application/services/vector-reconciliation-scheduler.service';
+import { EmbeddingIndexService } from './application/services/embedding-index.service';
+import { EmbeddingReindexService } from './application/services/embedding-reindex.service';
+import { KnowledgeQuotaService } from './application/services/knowledge-quota.service';
+import { CorpusLanguageService } from './application/services/corpus-language.service';
 
 // Infrastructure - Services
 import { DocumentParserService } from './infrastructure/services/document-parser.service';
 import { ChunkingService } from './infrastructure/services/chunking.service';
 import { EmbeddingService } from './infrastructure/services/embedding.service';
+import { CloudTasksIngestionDispatcher } from './infrastructure/services/cloud-tasks-ingestion-dispatcher.service';
+import { LocalIngestionDispatcher } from './infrastructure/services/local-ingestion-dispatcher.service';
+import { HttpWebPageFetcher } from './infrastructure/services/http-web-page-fetcher.service';
+import { PgVectorStore } from './infrastructure/services/pgvector-vector-store.service';
+import { InMemoryVectorStore } from './infrastructure/services/in-memory-vector-store.service';
+import { TesseractOcrEngine } from './infrastructure/services/tesseract-ocr-engine.service';
+import { StubOcrEngine } from './infrastructure/services/stub-ocr-engine.service';
 
 // Infrastructure - Persistence
 import { KnowledgeSourceModel } from './infrastructure/persistence/models/knowledge-source.model';
 import { FragmentModel } from './infrastructure/persistence/models/fragment.model';
+import { KnowledgeSourceRevisionModel } from './infrastructure/persistence/models/knowledge-source-revision.model';
+import { EmbeddingIndexModel } from './infrastructure/persistence/models/embedding-index.model';
 import { KnowledgeRepository } from './infrastructure/persistence/repositories/knowledge.repository';
+import { EmbeddingIndexRepository } from './infrastructure/persistence/repositories/embedding-index.repository';
 
 // Infrastructure - Pinecone
 import { PineconeModule } from './infrastructure/pinecone/pinecone.module';
 
+// Auth guard for internal webhook
+import { InternalApiKeyGuard } from '../auth/guards/internal-api-key.guard';
+
+// Sector access for content search
+import { UsersModule } from '../users/users.module';
+import { AuthModule } from '../auth/auth.module';
+
+type VectorStoreProvider = 'pinecone' | 'pgvector' | 'memory';
+
+/**
+ * Selects the IVectorStore implementation from VECTOR_STORE_PROVIDER.
+ * - 'pinecone' / unset: Pinecone index (PineconeModule)
+ * - 'pgvector': pgvector table in the application database
+ * - 'memory':   in-process store, lost on restart (tests, offline development)
+ */
+function resolveVectorStoreProvider(): VectorStoreProvider {
+  const provider = process.env.VECTOR_STORE_PROVIDER?.toLowerCase() ?? '';
+  switch (provider) {
+    case '':
+    case 'pinecone':
+      return 'pinecone';
+    case 'pgvector':
+    case 'memory':
+      return provider;
+    default:
+      throw new Error(
+        `Unsupported VECTOR_STORE_PROVIDER "${provider}" (expected pinecone, pgvector or memory)`,
+      );
+  }
+}
+
+const VECTOR_STORE_PROVIDER = resolveVectorStoreProvider();
+const USE_PINECONE = VECTOR_STORE_PROVIDER === 'pinecone';
+
+type OcrEngineProvider = 'tesseract' | 'stub';
+
+/**
+ * Selects the IOcrEngine implementation (scanned PDF pages) from OCR_ENGINE.
+ * - 'tesseract' / unset: local Tesseract (needs tesseract and pdftoppm)
+ * - 'stub':              no OCR, scanned pages stay empty (tests)
+ */
+function resolveOcrEngineProvider(): OcrEngineProvider {
+  const provider = process.env.OCR_ENGINE?.toLowerCase() ?? '';
+  switch (provider) {
+    case '':
+    case 'tesseract':
+      return 'tesseract';
+    case 'stub':
+      return provider;
+    default:
+      throw new Error(
+        `Unsupported OCR_ENGINE "${provider}" (expected tesseract or stub)`,
+      );
+  }
+}
+
+const OCR_ENGINE_PROVIDER = resolveOcrEngineProvider();
+
 /**
  * Knowledge Module
  *
@@ -28,8 +123,14 @@ import { PineconeModule } from './infrastructure/pinecone/pinecone.module';
  * Implements Clean Architecture with clear layer separation.
  *
  * Layers:
- * - Presentation: Controllers (HTTP endpoints)
- * - Application: Use Cases (business workflows)
+ * - Presentation: Controllers (HTTP endpoints + internal ingestion webhook)
+ * - Application: Use Cases (business workflows) + IngestionPipelineService
+ *   + UrlRefreshScheduler (periodic re-crawl of URL sources)
+ *   + VectorReconciliationScheduler (periodic PostgreSQL/vector store sync)
+ *   + EmbeddingIndexService / EmbeddingReindexService (per-sector embedding
+ *     indexes and background re-indexing)
+ *   + KnowledgeQuotaService (per-sector ingestion limits)
+ *   + CorpusLanguageService (dominant languages of each sector's fragments)
  * - Domain: Entities, Value Objects, Repository Interfaces
  * - Infrastructure: Services, Persistence, External APIs
  *
@@ -40,23 +141,69 @@ import { PineconeModule } from './infrastructure/pinecone/pinecone.module';
  *
  * Vector Operations:
  * - PostgreSQL: Relational data (sources, fragments metadata)
- * - Pinecone: Vector embeddings (via IVectorStore)
+ * - Vector embeddings (via IVectorStore): Pinecone by default, or pgvector /
+ *   in-memory stores selected with VECTOR_STORE_PROVIDER
  */
 @Module({
   imports: [
     // Register TypeORM models
-    TypeOrmModule.forFeature([KnowledgeSourceModel, FragmentModel]),
+    TypeOrmModule.forFeature([
+      KnowledgeSourceModel,
+      FragmentModel,
+      KnowledgeSourceRevisionModel,
+      EmbeddingIndexModel,
+    ]),
     // Pinecone vector store module (provides Pinecone client and PineconeVectorStore)
-    PineconeModule,
+    ...(USE_PINECONE ? [PineconeModule] : []),
+    // Sector access for content search (UserRepository, PermissionService)
+    UsersModule,
+    AuthModule,
   ],
   controllers: [
     // Presentation Layer
     KnowledgeController,
+    InternalKnowledgeController,
+    AdminKnowledgeController,
   ],
   providers: [
     // Application Layer - Use Cases
     IngestDocumentUseCase,
+    IngestUrlUseCase,
     DeleteSourceUseCase,
+    RefreshUrlSourcesUseCase,
+    IngestSourceVersionUseCase,
+    RestoreSourceVersionUseCase,
+    TagSourcesUseCase,
+    ListSourcesUseCase,
+    SearchKnowledgeUseCase,
+    ListFragmentsUseCase,
+    UpdateFragmentUseCase,
+    SplitFragmentUseCase,
+    MergeFragmentsUseCase,
+    ReconcileVectorStoreUseCase,
+    GetEmbeddingIndexesUseCase,
+    StartEmbeddingReindexUseCase,
+    BuildEmbeddingIndexUseCase,
+    RollbackEmbeddingIndexUseCase,
+    GetKnowledgeQuotaUseCase,
+
+    // Application Layer - Services
+    {
+      provide: 'IngestionPipelineService',
+      useClass: IngestionPipelineService,
+    },
+    IngestionPipelineService,
+    FragmentCurationService,
+    UrlRefreshScheduler,
+    VectorReconciliationScheduler,
+    EmbeddingIndexService,
+    {
+      provide: 'EmbeddingReindexService',
+      useClass: EmbeddingReindexService,
+    },
+    EmbeddingReindexService,
+    KnowledgeQuotaService,
+    CorpusLanguageService,
 
     // Infrastructure Layer - Services
     DocumentParserService,
@@ -68,18 +215,63 @@ import { PineconeModule } from './infrastructure/pinecone/pinecone.module';
       provide: 'IKnowledgeRepository',
       useClass: KnowledgeRepository,
     },
+    {
+      provide: 'IEmbeddingIndexRepository',
+      useClass: EmbeddingIndexRepository,
+    },
+
+    // Infrastructure Layer - OCR of scanned PDF pages
+    {
+      provide: 'IOcrEngine',
+      useClass:
+        OCR_ENGINE_PROVIDER === 'stub' ? StubOcrEngine : TesseractOcrEngine,
+    },
+
+    // Infrastructure Layer - Web page fetcher for URL sources
+    {
+      provide: 'IWebPageFetcher',
+      useClass: HttpWebPageFetcher,
+    },
+
+    // Infrastructure Layer - Background ingestion dispatcher
+    {
+      provide: 'IIngestionTaskDispatcher',
+      useClass:
+        process.env.NODE_ENV === 'production'
+          ? CloudTasksIngestionDispatcher
+          : LocalIngestionDispatcher,
+    },
+
+    // Auth guard for internal webhook
+    InternalApiKeyGuard,
 
-    // Note: 'IVectorStore' is provided by PineconeModule (imported above)
-    // No need to re-register it here
+    // Infrastructure Layer - Local vector store (Pinecone's is provided by
+    // PineconeModule, imported above)
+    ...(USE_PINECONE
+      ? []
+      : [
+          {
+            provide: 'IVectorStore',
+            useClass:
+              VECTOR_STORE_PROVIDER === 'pgvector'
+                ? PgVectorStore
+                : InMemoryVectorStore,
+          },
+        ]),
   ],
   exports: [
     // Export use cases for other modules if needed
     IngestDocumentUseCase,
+    IngestUrlUseCase,
     DeleteSourceUseCase,
     // Export repository with interface token
     'IKnowledgeRepository',
-    // Re-export PineconeModule so other modules can access 'IVectorStore'
-    PineconeModule,
+    // Read path of each sector (namespace and embedding profile)
+    EmbeddingIndexService,
+    // Languages of each sector's corpus (multilingual retrieval)
+    CorpusLanguageService,
+    // Re-export 'IVectorStore' (through PineconeModule when on Pinecone)
+    USE_PINECONE ? PineconeModule : 'IVectorStore',
   ],
 })
 export class KnowledgeModule {}
@@ -0,0 +1,329 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Param,
+  Body,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ReconcileVectorStoreUseCase } from '../application/use-cases/reconcile-vector-store.use-case';
+import type { VectorReconciliationReport } from '../application/dtos/reconcile-vector-store.dto';
+import { GetEmbeddingIndexesUseCase } from '../application/use-cases/get-embedding-indexes.use-case';
+import { StartEmbeddingReindexUseCase } from '../application/use-cases/start-embedding-reindex.use-case';
+import { RollbackEmbeddingIndexUseCase } from '../application/use-cases/rollback-embedding-index.use-case';
+import {
+  VectorReconciliationQueryDto,
+  VectorReconciliationReportDto,
+  StartEmbeddingReindexRequestDto,
+  EmbeddingIndexDto,
+  SectorEmbeddingIndexesDto,
+} from './dtos/knowledge.dto';
+import { KnowledgeDtoMapper } from './mappers/knowledge-dto.mapper';
+import { RequirePermissions } from '../../auth/decorators/require-permissions.decorator';
+import { extractErrorMessage, extractErrorStack } from '@shared/utils';
+
+// API description constants
+const API_AUTH_DESC = 'Authentication required - Missing or invalid JWT token';
+const API_FORBIDDEN_DESC =
+  'Access denied - Requires system:admin permission (admin role)';
+const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+/** Required permission for all admin knowledge endpoints */
+const ADMIN_PERMISSION: [string] = ['system:admin'];
+
+/** Swagger descriptions reused across endpoints */
+const SECTOR_QUERY_DESC =
+  'Sector to reconcile (default: every sector with sources or vectors)';
+const REPORT_DESC = 'Reconciliation report';
+const SECTOR_PARAM_DESC = 'Sector ID';
+const INVALID_SECTOR_DESC = 'Invalid sectorId';
+const SECTOR_PARAM = 'sectorId';
+const PERMISSION_NOTE = '\n\n**Required Permission:** system:admin';
+
+/**
+ * Admin Knowledge Controller
+ *
+ * Maintenance endpoints for the knowledge base.
+ * All endpoints require the `system:admin` permission (admin role only).
+ *
+ * Endpoints:
+ * - GET  /admin/knowledge/vector-reconciliation → Dry-run drift report
+ * - POST /admin/knowledge/vector-reconciliation → Reconcile (repair drift)
+ * - GET  /admin/knowledge/sectors/:sectorId/embedding-indexes → Indexes and re-index progress
+ * - POST /admin/knowledge/sectors/:sectorId/embedding-indexes → Start a re-index
+ * - POST /admin/knowledge/sectors/:sectorId/embedding-indexes/rollback → Roll back a re-index
+ */
+@ApiTags('Admin - Knowledge')
+@ApiBearerAuth()
+@Controller('admin/knowledge')
+export class AdminKnowledgeController {
+  private readonly logger = new Logger(AdminKnowledgeController.name);
+
+  constructor(
+    private readonly reconcileVectorStore: ReconcileVectorStoreUseCase,
+    private readonly getEmbeddingIndexes: GetEmbeddingIndexesUseCase,
+    private readonly startEmbeddingReindex: StartEmbeddingReindexUseCase,
+    private readonly rollbackEmbeddingIndex: RollbackEmbeddingIndexUseCase,
+  ) {}
+
+  // ==================== DRY-RUN REPORT ====================
+
+  @Get('vector-reconciliation')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(ADMIN_PERMISSION)
+  @ApiOperation({
+    summary: 'Report drift between fragments and vectors (dry run)',
+    description:
+      'Compares the fragments stored in PostgreSQL with the vector IDs in each sector namespace ' +
+      'and reports fragments without a vector and vectors without a fragment. Nothing is changed.' +
+      PERMISSION_NOTE,
+  })
+  @ApiQuery({
+    name: 'sectorId',
+    required: false,
+    description: SECTOR_QUERY_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: REPORT_DESC,
+    type: VectorReconciliationReportDto,
+  })
+  @ApiResponse({ status: 400, description: INVALID_SECTOR_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async getVectorReconciliationReport(
+    @Query() query: VectorReconciliationQueryDto,
+  ): Promise<VectorReconciliationReportDto> {
+    this.logger.log('Vector reconciliation dry run requested');
+
+    return this.runReconciliation(true, query.sectorId);
+  }
+
+  // ==================== RECONCILE ====================
+
+  @Post('vector-reconciliation')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(ADMIN_PERMISSION)
+  @ApiOperation({
+    summary: 'Reconcile fragments and vectors',
+    description:
+      'Re-embeds served fragments that have no vector and deletes vectors that have no fragment, ' +
+      'then returns what was found and repaired. Sources being processed are skipped.' +
+      PERMISSION_NOTE,
+  })
+  @ApiQuery({
+    name: 'sectorId',
+    required: false,
+    description: SECTOR_QUERY_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: REPORT_DESC,
+    type: VectorReconciliationReportDto,
+  })
+  @ApiResponse({ status: 400, description: INVALID_SECTOR_DESC })
+  @ApiResponse({
+    status: 409,
+    description: 'A reconciliation is already running',
+  })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async reconcileVectors(
+    @Query() query: VectorReconciliationQueryDto,
+  ): Promise<VectorReconciliationReportDto> {
+    this.logger.log('Vector reconciliation requested');
+
+    return this.runReconciliation(false, query.sectorId);
+  }
+
+  // ==================== EMBEDDING INDEXES ====================
+
+  @Get('sectors/:sectorId/embedding-indexes')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(ADMIN_PERMISSION)
+  @ApiOperation({
+    summary: 'Get the embedding indexes of a sector',
+    description:
+      'Returns the index serving the sector reads (namespace, embedding model and dimension), ' +
+      'the progress of a running re-index, and the previous indexes.' +
+      PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: SECTOR_PARAM,
+    description: SECTOR_PARAM_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Embedding indexes of the sector',
+    type: SectorEmbeddingIndexesDto,
+  })
+  @ApiResponse({ status: 400, description: INVALID_SECTOR_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async getSectorEmbeddingIndexes(
+    @Param(SECTOR_PARAM) sectorId: string,
+  ): Promise<SectorEmbeddingIndexesDto> {
+    const result = await this.runIndexOperation(() =>
+      this.getEmbeddingIndexes.execute(sectorId),
+    );
+    return KnowledgeDtoMapper.toSectorEmbeddingIndexesDto(result);
+  }
+
+  @Post('sectors/:sectorId/embedding-indexes')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions(ADMIN_PERMISSION)
+  @ApiOperation({
+    summary: 'Re-index a sector',
+    description:
+      'Re-embeds the served fragments of the sector into a new namespace in the background, ' +
+      'with the given embedding model and dimension (default: the configured ones). ' +
+      'The sector keeps reading from its current index until the build completes, then switches atomically. ' +
+      'Poll GET for progress. On Pinecone, the dimension must match the dimension of the Pinecone index.' +
+      PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: SECTOR_PARAM,
+    description: SECTOR_PARAM_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Re-index started',
+    type: EmbeddingIndexDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid sectorId or unsupported embedding profile',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A re-index is already running for the sector',
+  })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async startSectorReindex(
+    @Param(SECTOR_PARAM) sectorId: string,
+    @Body() body: StartEmbeddingReindexRequestDto,
+  ): Promise<EmbeddingIndexDto> {
+    this.logger.log(`Re-index requested for sector ${sectorId}`);
+
+    const index = await this.runIndexOperation(() =>
+      this.startEmbeddingReindex.execute({
+        sectorId,
+        model: body.model,
+        dimensions: body.dimensions,
+      }),
+    );
+    return KnowledgeDtoMapper.toEmbeddingIndexDto(index);
+  }
+
+  @Post('sectors/:sectorId/embedding-indexes/rollback')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(ADMIN_PERMISSION)
+  @ApiOperation({
+    summary: 'Roll back the latest re-index of a sector',
+    description:
+      'Cancels the running re-index of the sector, if any. Otherwise re-embeds into its previous ' +
+      'index the fragments changed since, and switches the sector reads back to it.' +
+      PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: SECTOR_PARAM,
+    description: SECTOR_PARAM_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The cancelled index (status CANCELLED) or the restored index (status ACTIVE)',
+    type: EmbeddingIndexDto,
+  })
+  @ApiResponse({ status: 400, description: INVALID_SECTOR_DESC })
+  @ApiResponse({ status: 409, description: 'No index to roll back to' })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async rollbackSectorIndex(
+    @Param(SECTOR_PARAM) sectorId: string,
+  ): Promise<EmbeddingIndexDto> {
+    this.logger.log(
+      `Embedding index rollback requested for sector ${sectorId}`,
+    );
+
+    const index = await this.runIndexOperation(() =>
+      this.rollbackEmbeddingIndex.execute(sectorId),
+    );
+    return KnowledgeDtoMapper.toEmbeddingIndexDto(index);
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  /**
+   * Runs an embedding index operation, mapping its errors to HTTP errors
+   */
+  private async runIndexOperation<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      if (
+        errorMessage.includes('must be a valid UUID') ||
+        errorMessage.includes('Invalid dimensions') ||
+        errorMessage.includes('Embedding model cannot be empty')
+      ) {
+        throw new BadRequestException(errorMessage);
+      }
+      if (
+        errorMessage.includes('already running') ||
+        errorMessage.includes('No embedding index to roll back to') ||
+        errorMessage.startsWith('Embedding index conflict')
+      ) {
+        throw new ConflictException(errorMessage);
+      }
+      this.logger.error(
+        `Embedding index operation failed: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  private async runReconciliation(
+    dryRun: boolean,
+    sectorId?: string,
+  ): Promise<VectorReconciliationReport> {
+    try {
+      return await this.reconcileVectorStore.execute({ dryRun, sectorId });
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+      if (errorMessage.includes('must be a valid UUID')) {
+        throw new BadRequestException(errorMessage);
+      }
+      if (errorMessage.includes('already running')) {
+        throw new ConflictException(errorMessage);
+      }
+      this.logger.error(
+        `Vector reconciliation failed: ${errorMessage}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+}
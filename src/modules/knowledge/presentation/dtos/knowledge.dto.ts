@@ -5,20 +5,56 @@ import {
   IsEnum,
   IsOptional,
   IsObject,
+  IsUrl,
+  IsInt,
+  Min,
+  Max,
   MinLength,
   MaxLength,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsBoolean,
 } from 'class-validator';
-import { SourceType, type SourceStatus } from '@shared/types';
+import { SourceType, ChunkingStrategy, type SourceStatus } from '@shared/types';
+import { EmbeddingIndexStatus } from '../../domain/entities/embedding-index.entity';
 
 // Constants for validation
 const MAX_TITLE_LENGTH = 255;
+const MAX_URL_LENGTH = 2048;
+const MIN_REFRESH_INTERVAL_MINUTES = 15;
+const MAX_REFRESH_INTERVAL_MINUTES = 43200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_CATEGORY_LENGTH = 100;
+const MAX_TAGGED_SOURCES = 100;
+const MIN_SEARCH_QUERY_LENGTH = 2;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_SEARCH_OFFSET = 1000;
+const MAX_FRAGMENT_PAGE_SIZE = 100;
+const MIN_FRAGMENT_CONTENT_LENGTH = 10;
+const MAX_FRAGMENT_CONTENT_LENGTH = 20000;
+const MIN_MERGED_FRAGMENTS = 2;
+const MAX_MERGED_FRAGMENTS = 10;
+const MAX_EMBEDDING_MODEL_LENGTH = 255;
 
 // Example values for documentation
 const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
 const EXAMPLE_DOCUMENT_TITLE = 'Employee Handbook 2024';
+const EXAMPLE_EMBEDDING_MODEL = 'vertexai/gemini-embedding-001';
 
 // Descriptions
 const DESC_DOCUMENT_TITLE = 'Document title';
+const DESC_SOURCE_ID = 'Knowledge source ID';
+const DESC_TAGS = 'Replaces the tags (normalized: trimmed and lowercased)';
+const DESC_ADD_TAGS = 'Tags to add, after the replacement';
+const DESC_REMOVE_TAGS = 'Tags to remove, after the additions';
+const DESC_CATEGORY = 'Category to set (null clears it, omit to leave it)';
+const DESC_CHUNKING_STRATEGY =
+  'How the content is split into fragments: FIXED_WINDOW (~500 token windows) ' +
+  'or STRUCTURED (along headings and paragraphs, keeping lists and tables whole)';
 
 /**
  * DTO for document upload request
@@ -52,6 +88,16 @@ export class UploadDocumentDto {
   @IsEnum(SourceType)
   sourceType!: SourceType;
 
+  @ApiProperty({
+    description: DESC_CHUNKING_STRATEGY,
+    enum: ChunkingStrategy,
+    required: false,
+    default: ChunkingStrategy.FIXED_WINDOW,
+  })
+  @IsOptional()
+  @IsEnum(ChunkingStrategy)
+  chunkingStrategy?: ChunkingStrategy;
+
   @ApiProperty({
     description: 'Optional metadata for the document',
     required: false,
@@ -63,7 +109,130 @@ export class UploadDocumentDto {
 }
 
 /**
- * DTO for successful document ingestion response
+ * DTO for registering a web page as a knowledge source
+ */
+export class IngestUrlRequestDto {
+  @ApiProperty({
+    description: 'Web page URL (http or https)',
+    example: 'https://example.com/handbook/vacations',
+    maxLength: MAX_URL_LENGTH,
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(MAX_URL_LENGTH)
+  url!: string;
+
+  @ApiProperty({
+    description: DESC_DOCUMENT_TITLE,
+    example: EXAMPLE_DOCUMENT_TITLE,
+    minLength: 1,
+    maxLength: MAX_TITLE_LENGTH,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(MAX_TITLE_LENGTH)
+  title!: string;
+
+  @ApiProperty({
+    description: 'Sector/context identifier',
+    example: EXAMPLE_UUID,
+    format: 'uuid',
+  })
+  @IsUUID()
+  sectorId!: string;
+
+  @ApiProperty({
+    description:
+      'Minutes between scheduled re-crawls. Omit to never re-crawl the page.',
+    required: false,
+    example: 1440,
+    minimum: MIN_REFRESH_INTERVAL_MINUTES,
+    maximum: MAX_REFRESH_INTERVAL_MINUTES,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_REFRESH_INTERVAL_MINUTES)
+  @Max(MAX_REFRESH_INTERVAL_MINUTES)
+  refreshIntervalMinutes?: number;
+
+  @ApiProperty({
+    description: DESC_CHUNKING_STRATEGY,
+    enum: ChunkingStrategy,
+    required: false,
+    default: ChunkingStrategy.FIXED_WINDOW,
+  })
+  @IsOptional()
+  @IsEnum(ChunkingStrategy)
+  chunkingStrategy?: ChunkingStrategy;
+
+  @ApiProperty({
+    description: 'Optional metadata for the source',
+    required: false,
+    example: { owner: 'HR Department' },
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * DTO for uploading a new version of a knowledge source
+ */
+export class UploadDocumentVersionDto {
+  @ApiProperty({
+    description: 'Optional metadata merged into the source metadata',
+    required: false,
+    example: { changeNote: 'Updated vacation days for 2025' },
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * DTO for the line-level differences with a near-duplicate source
+ */
+export class ContentDiffSummaryDto {
+  @ApiProperty({
+    description: 'Lines of the uploaded document missing from the source',
+    example: 12,
+  })
+  addedLines!: number;
+
+  @ApiProperty({
+    description: 'Lines of the source missing from the uploaded document',
+    example: 3,
+  })
+  removedLines!: number;
+
+  @ApiProperty({ description: 'Lines found in both', example: 240 })
+  unchangedLines!: number;
+}
+
+/**
+ * DTO for an existing source close to an uploaded document
+ */
+export class NearDuplicateSourceDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: DESC_DOCUMENT_TITLE,
+    example: EXAMPLE_DOCUMENT_TITLE,
+  })
+  title!: string;
+
+  @ApiProperty({
+    description: 'Estimated share of content in common (0-1)',
+    example: 0.92,
+  })
+  similarity!: number;
+
+  @ApiProperty({ type: ContentDiffSummaryDto })
+  diff!: ContentDiffSummaryDto;
+}
+
+/**
+ * DTO for an accepted document upload (202)
  */
 export class IngestDocumentResponseDto {
   @ApiProperty({
@@ -79,51 +248,932 @@ export class IngestDocumentResponseDto {
   title!: string;
 
   @ApiProperty({
-    description: 'Number of fragments created',
-    example: 15,
+    description: 'Parsed content size in bytes',
+    example: 45678,
   })
-  fragmentCount!: number;
+  contentSize!: number;
+
+  @ApiProperty({
+    description: 'Processing status — ingestion continues in the background',
+    example: 'PENDING',
+    enum: ['PENDING'],
+  })
+  status!: string;
+
+  @ApiProperty({
+    description:
+      'Set when the sector already has sources with similar content, or scanned pages are left to OCR (the document is still accepted)',
+    required: false,
+    example:
+      'Similar to 1 existing source in this sector: "Employee Handbook 2023" (92%)',
+  })
+  warning?: string;
+
+  @ApiProperty({
+    description: 'Existing sources with similar content, most similar first',
+    required: false,
+    type: [NearDuplicateSourceDto],
+  })
+  nearDuplicates?: NearDuplicateSourceDto[];
+
+  @ApiProperty({
+    description:
+      'Scanned PDF pages, recognized with OCR by the background ingestion job',
+    required: false,
+    type: [Number],
+    example: [1],
+  })
+  scannedPages?: number[];
+}
+
+/**
+ * DTO for an accepted new version of a knowledge source (202)
+ */
+export class SourceVersionResponseDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: DESC_DOCUMENT_TITLE,
+    example: EXAMPLE_DOCUMENT_TITLE,
+  })
+  title!: string;
+
+  @ApiProperty({ description: 'Number of the new version', example: 3 })
+  version!: number;
 
   @ApiProperty({
-    description: 'Content size in bytes',
+    description: 'New content size in bytes',
     example: 45678,
   })
   contentSize!: number;
 
   @ApiProperty({
-    description: 'Processing status',
-    example: 'COMPLETED',
-    enum: ['COMPLETED', 'FAILED'],
+    description:
+      'Processing status — the new version is indexed in the background while the previous one is still served',
+    example: 'PENDING',
+    enum: ['PENDING'],
   })
   status!: string;
 
   @ApiProperty({
-    description: 'Error message if processing failed',
+    description:
+      'Scanned PDF pages, recognized with OCR by the background ingestion job',
+    required: false,
+    type: [Number],
+    example: [1],
+  })
+  scannedPages?: number[];
+}
+
+/**
+ * DTO for one version of a knowledge source
+ */
+export class SourceVersionDto {
+  @ApiProperty({ description: 'Version number', example: 2 })
+  version!: number;
+
+  @ApiProperty({
+    description: 'Whether this is the current content of the source',
+    example: false,
+  })
+  isCurrent!: boolean;
+
+  @ApiProperty({
+    description: 'Whether the fragments of this version are being served',
+    example: false,
+  })
+  isIndexed!: boolean;
+
+  @ApiProperty({
+    description: 'SHA-256 of the content',
+    required: false,
+  })
+  contentHash?: string;
+
+  @ApiProperty({ description: 'Content size in bytes', example: 45678 })
+  contentSize!: number;
+
+  @ApiProperty({
+    description: 'When the version was replaced (superseded versions only)',
+    required: false,
+    example: '2025-03-01T10:00:00.000Z',
+  })
+  supersededAt?: string;
+}
+
+/**
+ * DTO for the version history of a knowledge source
+ */
+export class SourceVersionListResponseDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({ description: 'Current version number', example: 3 })
+  currentVersion!: number;
+
+  @ApiProperty({
+    description:
+      'Version whose fragments are served (absent until first indexed)',
+    required: false,
+    example: 2,
+  })
+  indexedVersion?: number;
+
+  @ApiProperty({
+    description: 'All versions, newest first',
+    type: [SourceVersionDto],
+  })
+  versions!: SourceVersionDto[];
+}
+
+/**
+ * Query parameters for a vector store reconciliation run
+ */
+export class VectorReconciliationQueryDto {
+  @ApiProperty({
+    description:
+      'Sector to reconcile (default: every sector with sources or vectors)',
+    required: false,
+    example: EXAMPLE_UUID,
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  sectorId?: string;
+}
+
+/**
+ * DTO for the drift found in one sector
+ */
+export class SectorReconciliationReportDto {
+  @ApiProperty({ description: 'Sector ID', example: EXAMPLE_UUID })
+  sectorId!: string;
+
+  @ApiProperty({
+    description: 'Fragments of active sources in PostgreSQL',
+    example: 1200,
+  })
+  fragmentCount!: number;
+
+  @ApiProperty({
+    description: 'Vectors in the sector namespace',
+    example: 1198,
+  })
+  vectorCount!: number;
+
+  @ApiProperty({ description: 'Served fragments without a vector', example: 3 })
+  missingVectorCount!: number;
+
+  @ApiProperty({ description: 'Vectors without a fragment', example: 1 })
+  orphanVectorCount!: number;
+
+  @ApiProperty({
+    description: 'IDs of fragments without a vector (first 100)',
+    type: [String],
+  })
+  missingVectorIds!: string[];
+
+  @ApiProperty({
+    description: 'IDs of vectors without a fragment (first 100)',
+    type: [String],
+  })
+  orphanVectorIds!: string[];
+
+  @ApiProperty({
+    description: 'Fragments re-embedded (0 on dry runs)',
+    example: 3,
+  })
+  vectorsRestored!: number;
+
+  @ApiProperty({
+    description: 'Orphan vectors deleted (0 on dry runs)',
+    example: 1,
+  })
+  vectorsDeleted!: number;
+
+  @ApiProperty({
+    description: 'Why the sector could not be reconciled',
+    required: false,
+  })
+  error?: string;
+}
+
+/**
+ * DTO for a vector store reconciliation report
+ */
+export class VectorReconciliationReportDto {
+  @ApiProperty({
+    description: 'Whether the run only reported the drift',
+    example: true,
+  })
+  dryRun!: boolean;
+
+  @ApiProperty({ example: '2025-03-01T03:00:00.000Z' })
+  startedAt!: Date;
+
+  @ApiProperty({ example: '2025-03-01T03:00:12.000Z' })
+  completedAt!: Date;
+
+  @ApiProperty({
+    description: 'Served fragments without a vector, across all sectors',
+    example: 3,
+  })
+  missingVectorCount!: number;
+
+  @ApiProperty({
+    description: 'Vectors without a fragment, across all sectors',
+    example: 1,
+  })
+  orphanVectorCount!: number;
+
+  @ApiProperty({ type: [SectorReconciliationReportDto] })
+  sectors!: SectorReconciliationReportDto[];
+}
+
+/**
+ * DTO for a sector re-index request
+ */
+export class StartEmbeddingReindexRequestDto {
+  @ApiProperty({
+    description:
+      'Embedding model of the new index (default: the configured model)',
+    required: false,
+    example: EXAMPLE_EMBEDDING_MODEL,
+    maxLength: MAX_EMBEDDING_MODEL_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(MAX_EMBEDDING_MODEL_LENGTH)
+  model?: string;
+
+  @ApiProperty({
+    description:
+      'Embedding dimension of the new index (768, 1536 or 3072; default: the configured dimension)',
+    required: false,
+    example: 1536,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dimensions?: number;
+}
+
+/**
+ * DTO for an embedding index of a sector
+ */
+export class EmbeddingIndexDto {
+  @ApiProperty({
+    description: 'Index ID (absent for an initial index never re-indexed)',
+    required: false,
+    example: EXAMPLE_UUID,
+  })
+  id?: string;
+
+  @ApiProperty({
+    description: '1 for the initial index, incremented by each re-index',
+    example: 2,
+  })
+  generation!: number;
+
+  @ApiProperty({
+    description: 'Vector store namespace holding the vectors',
+    example: `${EXAMPLE_UUID}--g2`,
+  })
+  namespace!: string;
+
+  @ApiProperty({ example: EXAMPLE_EMBEDDING_MODEL })
+  embeddingModel!: string;
+
+  @ApiProperty({ example: 1536 })
+  embeddingDimensions!: number;
+
+  @ApiProperty({ enum: EmbeddingIndexStatus, example: 'BUILDING' })
+  status!: EmbeddingIndexStatus;
+
+  @ApiProperty({
+    description: 'Build progress (0-100), once the build has started',
     required: false,
-    example: null,
+    example: 45,
   })
+  progress?: number;
+
+  @ApiProperty({
+    description: 'Fragments to embed, counted when the build started',
+    required: false,
+    example: 1200,
+  })
+  totalFragments?: number;
+
+  @ApiProperty({ description: 'Fragments embedded so far', example: 540 })
+  processedFragments!: number;
+
+  @ApiProperty({ description: 'Why the build failed', required: false })
   errorMessage?: string;
+
+  @ApiProperty({ required: false, example: '2025-03-01T03:10:00.000Z' })
+  activatedAt?: string;
+
+  @ApiProperty({ required: false, example: '2025-03-01T03:10:00.000Z' })
+  retiredAt?: string;
+
+  @ApiProperty({ example: '2025-03-01T03:00:00.000Z' })
+  createdAt!: string;
 }
 
 /**
- * DTO for knowledge source list item
+ * DTO for the embedding indexes of a sector
  */
-export interface KnowledgeSourceDto {
-  id: string;
-  title: string;
-  sectorId: string;
-  sourceType: SourceType;
-  status: SourceStatus;
+export class SectorEmbeddingIndexesDto {
+  @ApiProperty({ description: 'Sector ID', example: EXAMPLE_UUID })
+  sectorId!: string;
+
+  @ApiProperty({
+    description: 'Index serving the reads of the sector',
+    type: EmbeddingIndexDto,
+  })
+  active!: EmbeddingIndexDto;
+
+  @ApiProperty({
+    description: 'Index being built by a re-index, if any',
+    required: false,
+    type: EmbeddingIndexDto,
+  })
+  building?: EmbeddingIndexDto;
+
+  @ApiProperty({
+    description: 'Every stored index of the sector, latest generation first',
+    type: [EmbeddingIndexDto],
+  })
+  indexes!: EmbeddingIndexDto[];
+}
+
+/**
+ * DTO for the consumption of one quota limit
+ */
+export class QuotaUsageDto {
+  @ApiProperty({ example: 120 })
+  used!: number;
+
+  @ApiProperty({ example: 500 })
+  limit!: number;
+
+  @ApiProperty({ example: 380 })
+  remaining!: number;
+}
+
+/**
+ * DTO for the ingestion quota of a sector
+ */
+export class KnowledgeQuotaResponseDto {
+  @ApiProperty({ description: 'Sector ID', example: EXAMPLE_UUID })
+  sectorId!: string;
+
+  @ApiProperty({ description: 'Active sources', type: QuotaUsageDto })
+  sources!: QuotaUsageDto;
+
+  @ApiProperty({
+    description: 'Fragments served to search',
+    type: QuotaUsageDto,
+  })
+  fragments!: QuotaUsageDto;
+
+  @ApiProperty({
+    description: 'Tokens of the fragments served to search',
+    type: QuotaUsageDto,
+  })
+  tokens!: QuotaUsageDto;
+
+  @ApiProperty({
+    description: 'Maximum upload size in bytes, per source type',
+    example: { PDF: 10485760, MARKDOWN: 1048576 },
+  })
+  maxFileSizeBytes!: Record<SourceType, number>;
+}
+
+/**
+ * DTO for polling the background ingestion of a knowledge source
+ */
+export class IngestionStatusResponseDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: 'Processing status',
+    example: 'PROCESSING',
+    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
+  })
+  status!: SourceStatus;
+
+  @ApiProperty({
+    description: 'Current ingestion step',
+    required: false,
+    example: 'EMBEDDING',
+  })
+  currentStep?: string;
+
+  @ApiProperty({
+    description: 'Ingestion progress percentage (0-100)',
+    required: false,
+    example: 30,
+  })
+  progress?: number;
+
+  @ApiProperty({
+    description: 'Number of fragments created (once completed)',
+    required: false,
+    example: 15,
+  })
+  fragmentCount?: number;
+
+  @ApiProperty({
+    description: 'Error message if ingestion failed',
+    required: false,
+  })
+  errorMessage?: string;
+
+  @ApiProperty({
+    description:
+      'Scanned PDF pages recognized with low OCR confidence, to review (confidence per page is in the source metadata)',
+    required: false,
+    type: [Number],
+    example: [1],
+  })
+  lowConfidencePages?: number[];
+}
+
+/**
+ * DTO for changing the tags and category of a knowledge source
+ *
+ * Changes are applied in order: tags, addTags, removeTags.
+ */
+export class UpdateSourceTagsDto {
+  @ApiProperty({
+    description: DESC_TAGS,
+    required: false,
+    example: ['hr', 'vacations'],
+    maxItems: MAX_TAGS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @IsString({ each: true })
+  @MaxLength(MAX_TAG_LENGTH, { each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    description: DESC_ADD_TAGS,
+    required: false,
+    example: ['onboarding'],
+    maxItems: MAX_TAGS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @IsString({ each: true })
+  @MaxLength(MAX_TAG_LENGTH, { each: true })
+  addTags?: string[];
+
+  @ApiProperty({
+    description: DESC_REMOVE_TAGS,
+    required: false,
+    example: ['draft'],
+    maxItems: MAX_TAGS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @IsString({ each: true })
+  removeTags?: string[];
+
+  @ApiProperty({
+    description: DESC_CATEGORY,
+    required: false,
+    nullable: true,
+    example: 'Policies',
+    maxLength: MAX_CATEGORY_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_CATEGORY_LENGTH)
+  category?: string | null;
+}
+
+/**
+ * DTO for changing the tags and category of several knowledge sources
+ */
+export class BulkTagSourcesDto extends UpdateSourceTagsDto {
+  @ApiProperty({
+    description: 'Knowledge sources to change',
+    example: [EXAMPLE_UUID],
+    maxItems: MAX_TAGGED_SOURCES,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_TAGGED_SOURCES)
+  @IsUUID('all', { each: true })
+  sourceIds!: string[];
+}
+
+/**
+ * DTO for the tags and category of a knowledge source
+ */
+export class SourceTagsDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({ description: 'Tags', example: ['hr', 'onboarding'] })
+  tags!: string[];
+
+  @ApiProperty({
+    description: 'Category',
+    nullable: true,
+    example: 'Policies',
+  })
+  category!: string | null;
+}
+
+/**
+ * DTO for the result of a tagging request
+ */
+export class TagSourcesResponseDto {
+  @ApiProperty({ type: [SourceTagsDto] })
+  sources!: SourceTagsDto[];
+
+  @ApiProperty({
+    description:
+      'Whether the tags were written to the vectors used for scoped retrieval',
+    example: true,
+  })
+  vectorsUpdated!: boolean;
+}
+
+/**
+ * DTO for the number of sources with a tag or category
+ */
+export class SourceFacetCountDto {
+  @ApiProperty({ description: 'Tag or category', example: 'hr' })
+  value!: string;
+
+  @ApiProperty({ description: 'Number of sources', example: 12 })
+  count!: number;
+}
+
+/**
+ * DTO for the tag and category counts of a listing
+ */
+export class SourceFacetsDto {
+  @ApiProperty({
+    description: 'Tag counts (ignoring the tags filter)',
+    type: [SourceFacetCountDto],
+  })
+  tags!: SourceFacetCountDto[];
+
+  @ApiProperty({
+    description: 'Category counts (ignoring the category filter)',
+    type: [SourceFacetCountDto],
+  })
+  categories!: SourceFacetCountDto[];
+}
+
+/**
+ * Query parameters for a full-text knowledge search
+ */
+export class KnowledgeSearchQueryDto {
+  @ApiProperty({
+    description:
+      'Search text. All terms must match; "quoted phrases" and -exclusions are supported.',
+    example: 'remote work allowance',
+    minLength: MIN_SEARCH_QUERY_LENGTH,
+    maxLength: MAX_SEARCH_QUERY_LENGTH,
+  })
+  @IsString()
+  @MinLength(MIN_SEARCH_QUERY_LENGTH)
+  @MaxLength(MAX_SEARCH_QUERY_LENGTH)
+  q!: string;
+
+  @ApiProperty({
+    description: 'Only this sector (default: every sector you can access)',
+    required: false,
+    example: EXAMPLE_UUID,
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  sectorId?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of results',
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: MAX_SEARCH_LIMIT,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_LIMIT)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Number of results to skip',
+    required: false,
+    default: 0,
+    minimum: 0,
+    maximum: MAX_SEARCH_OFFSET,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_SEARCH_OFFSET)
+  offset?: number;
+}
+
+/**
+ * DTO for a fragment matching a knowledge search
+ */
+export class KnowledgeSearchHitDto {
+  @ApiProperty({ description: 'Fragment ID', example: EXAMPLE_UUID })
+  fragmentId!: string;
+
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: 'Title of the source',
+    example: EXAMPLE_DOCUMENT_TITLE,
+  })
+  sourceTitle!: string;
+
+  @ApiProperty({ description: 'Sector of the source', example: EXAMPLE_UUID })
+  sectorId!: string;
+
+  @ApiProperty({
+    description: 'Position of the fragment within the source',
+    example: 4,
+  })
+  position!: number;
+
+  @ApiProperty({
+    description:
+      'Excerpts around the matches: HTML-escaped text with the matched terms in <mark> tags',
+    example:
+      'Employees receive a <mark>remote</mark> <mark>work</mark> <mark>allowance</mark> of 30 EUR per month',
+  })
+  snippet!: string;
+
+  @ApiProperty({ description: 'Relevance in [0, 1)', example: 0.42 })
+  score!: number;
+}
+
+/**
+ * DTO for a page of knowledge search results
+ */
+export class KnowledgeSearchResponseDto {
+  @ApiProperty({ description: 'Search text', example: 'remote work allowance' })
+  query!: string;
+
+  @ApiProperty({ type: [KnowledgeSearchHitDto] })
+  results!: KnowledgeSearchHitDto[];
+
+  @ApiProperty({ description: 'Page size', example: 20 })
+  limit!: number;
+
+  @ApiProperty({ description: 'Results skipped', example: 0 })
+  offset!: number;
+
+  @ApiProperty({ description: 'Whether more results follow', example: false })
+  hasMore!: boolean;
+}
+
+/**
+ * Query parameters for a page of fragments
+ */
+export class FragmentListQueryDto {
+  @ApiProperty({
+    description: 'Maximum number of fragments',
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: MAX_FRAGMENT_PAGE_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_FRAGMENT_PAGE_SIZE)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Number of fragments to skip',
+    required: false,
+    default: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+/**
+ * DTO for correcting a fragment or excluding it from retrieval
+ */
+export class UpdateFragmentRequestDto {
+  @ApiProperty({
+    description: 'Corrected content (re-embedded)',
+    required: false,
+    example: '| Plan | Monthly allowance |\n| --- | --- |\n| Remote | 30 EUR |',
+    minLength: MIN_FRAGMENT_CONTENT_LENGTH,
+    maxLength: MAX_FRAGMENT_CONTENT_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(MIN_FRAGMENT_CONTENT_LENGTH)
+  @MaxLength(MAX_FRAGMENT_CONTENT_LENGTH)
+  content?: string;
+
+  @ApiProperty({
+    description:
+      'true excludes the fragment from retrieval (its vector is deleted), false includes it again',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  excluded?: boolean;
+}
+
+/**
+ * DTO for cutting a fragment in two
+ */
+export class SplitFragmentRequestDto {
+  @ApiProperty({
+    description:
+      'Character offset of the cut: the text before it stays in the fragment, the rest moves to a new fragment',
+    example: 480,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  splitAt!: number;
+}
+
+/**
+ * DTO for merging adjacent fragments
+ */
+export class MergeFragmentsRequestDto {
+  @ApiProperty({
+    description:
+      'Adjacent fragments to merge; the first by position keeps the merged content',
+    example: [EXAMPLE_UUID, '550e8400-e29b-41d4-a716-446655440001'],
+    minItems: MIN_MERGED_FRAGMENTS,
+    maxItems: MAX_MERGED_FRAGMENTS,
+  })
+  @IsArray()
+  @ArrayMinSize(MIN_MERGED_FRAGMENTS)
+  @ArrayMaxSize(MAX_MERGED_FRAGMENTS)
+  @IsUUID('all', { each: true })
+  fragmentIds!: string[];
+}
+
+/**
+ * DTO for a fragment of a knowledge source
+ */
+export class FragmentDto {
+  @ApiProperty({ description: 'Fragment ID', example: EXAMPLE_UUID })
+  id!: string;
+
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description: 'Version of the source the fragment was cut from',
+    example: 2,
+  })
+  sourceVersion!: number;
+
+  @ApiProperty({
+    description: 'Position of the fragment within the source',
+    example: 4,
+  })
+  position!: number;
+
+  @ApiProperty({
+    description: 'Fragment content',
+    example: 'Employees receive a remote work allowance of 30 EUR per month.',
+  })
+  content!: string;
+
+  @ApiProperty({ description: 'Estimated token count', example: 16 })
+  tokenCount!: number;
+
+  @ApiProperty({
+    description: 'Headings the fragment sits under (structured chunking)',
+    required: false,
+    example: ['Benefits', 'Remote work'],
+  })
+  headingPath?: string[];
+
+  @ApiProperty({
+    description: 'Whether a curator edited, split or merged the fragment',
+    example: false,
+  })
+  edited!: boolean;
+
+  @ApiProperty({
+    description: 'Whether the fragment is excluded from retrieval',
+    example: false,
+  })
+  excluded!: boolean;
+
+  @ApiProperty({ description: 'Last update (ISO 8601)' })
+  updatedAt!: string;
+}
+
+/**
+ * DTO for a page of the fragments of a knowledge source
+ */
+export class FragmentListResponseDto {
+  @ApiProperty({ description: DESC_SOURCE_ID, example: EXAMPLE_UUID })
+  sourceId!: string;
+
+  @ApiProperty({
+    description:
+      'Version the fragments were cut from (absent if never indexed)',
+    required: false,
+    example: 2,
+  })
+  indexedVersion?: number;
+
+  @ApiProperty({ type: [FragmentDto] })
+  fragments!: FragmentDto[];
+
+  @ApiProperty({ description: 'Number of fragments', example: 42 })
+  total!: number;
+
+  @ApiProperty({ description: 'Page size', example: 20 })
+  limit!: number;
+
+  @ApiProperty({ description: 'Fragments skipped', example: 0 })
+  offset!: number;
+}
+
+/**
+ * DTO for the result of a fragment edit, split or merge
+ */
+export class FragmentCurationResponseDto {
+  @ApiProperty({
+    description: 'Fragments whose content or exclusion changed, by position',
+    type: [FragmentDto],
+  })
+  fragments!: FragmentDto[];
+
+  @ApiProperty({
+    description: 'Fragments deleted by a merge',
+    example: [],
+  })
+  deletedFragmentIds!: string[];
+
+  @ApiProperty({
+    description:
+      'Whether the vectors of the changed fragments were re-embedded or deleted',
+    example: true,
+  })
+  vectorsUpdated!: boolean;
+}
+
+/**
+ * DTO for knowledge source list item
+ */
+export interface KnowledgeSourceDto {
+  id: string;
+  title: string;
+  sectorId: string;
+  sourceType: SourceType;
+  status: SourceStatus;
+  version: number;
   metadata: Record<string, unknown> | null;
+  tags: string[];
+  category: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * DTO for a knowledge source listing with facet counts
+ */
+export interface KnowledgeSourceListDto {
+  documents: KnowledgeSourceDto[];
+  facets: SourceFacetsDto;
+}
+
 /**
  * DTO for a knowledge source detail (with content and fragment count)
  */
 export interface KnowledgeSourceDetailDto extends KnowledgeSourceDto {
   content: string;
+  chunkingStrategy: ChunkingStrategy;
   fragmentCount: number;
 }
 
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiExcludeController } from '@nestjs/swagger';
+import { Public } from '../../auth/decorators/public.decorator';
+import { InternalApiKeyGuard } from '../../auth/guards/internal-api-key.guard';
+import { IngestionPipelineService } from '../application/services/ingestion-pipeline.service';
+import {
+  RefreshUrlSourcesUseCase,
+  type RefreshUrlSourcesResult,
+} from '../application/use-cases/refresh-url-sources.use-case';
+import { ReconcileVectorStoreUseCase } from '../application/use-cases/reconcile-vector-store.use-case';
+import type { VectorReconciliationReport } from '../application/dtos/reconcile-vector-store.dto';
+import { BuildEmbeddingIndexUseCase } from '../application/use-cases/build-embedding-index.use-case';
+
+/**
+ * Internal Knowledge Controller
+ *
+ * Webhook endpoints invoked by Google Cloud Tasks to run document
+ * ingestion and embedding re-index batches in the background, and by
+ * Cloud Scheduler to re-crawl due
+ * URL sources and reconcile the vector store. Protected by InternalApiKeyGuard
+ * (x-internal-api-key header) — bypasses JWT authentication.
+ */
+@ApiTags('Internal')
+@ApiExcludeController()
+@Controller('internal/knowledge')
+export class InternalKnowledgeController {
+  private readonly logger = new Logger(InternalKnowledgeController.name);
+
+  constructor(
+    private readonly ingestionPipeline: IngestionPipelineService,
+    private readonly refreshUrlSources: RefreshUrlSourcesUseCase,
+    private readonly reconcileVectorStore: ReconcileVectorStoreUseCase,
+    private readonly buildEmbeddingIndex: BuildEmbeddingIndexUseCase,
+  ) {}
+
+  @Post('sources/:id/process')
+  @Public()
+  @UseGuards(InternalApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  async processSource(
+    @Param('id') sourceId: string,
+  ): Promise<{ status: string }> {
+    this.logger.log(`Received ingestion webhook for source ${sourceId}`);
+
+    await this.ingestionPipeline.processSource(sourceId);
+
+    return { status: 'completed' };
+  }
+
+  @Post('refresh-url-sources')
+  @Public()
+  @UseGuards(InternalApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  async refreshUrlSourcesNow(): Promise<RefreshUrlSourcesResult> {
+    this.logger.log('Received URL source refresh webhook');
+
+    return this.refreshUrlSources.execute();
+  }
+
+  @Post('reconcile-vectors')
+  @Public()
+  @UseGuards(InternalApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  async reconcileVectors(): Promise<VectorReconciliationReport> {
+    this.logger.log('Received vector reconciliation webhook');
+
+    return this.reconcileVectorStore.execute({ dryRun: false });
+  }
+
+  @Post('embedding-indexes/:id/build')
+  @Public()
+  @UseGuards(InternalApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  async buildIndex(@Param('id') indexId: string): Promise<{ status: string }> {
+    this.logger.log(`Received re-index webhook for embedding index ${indexId}`);
+
+    const hasMore = await this.buildEmbeddingIndex.execute(indexId);
+
+    return { status: hasMore ? 'continuing' : 'completed' };
+  }
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Param,
   Query,
@@ -11,6 +12,10 @@ import {
   Body,
   BadRequestException,
   NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  PayloadTooLargeException,
+  ParseIntPipe,
   Logger,
   HttpCode,
   HttpStatus,
@@ -29,26 +34,61 @@ import {
   ApiUnauthorizedResponse,
 } from '@nestjs/swagger';
 import { IngestDocumentUseCase } from '../application/use-cases/ingest-document.use-case';
+import { IngestUrlUseCase } from '../application/use-cases/ingest-url.use-case';
 import { DeleteSourceUseCase } from '../application/use-cases/delete-source.use-case';
+import { IngestSourceVersionUseCase } from '../application/use-cases/ingest-source-version.use-case';
+import { RestoreSourceVersionUseCase } from '../application/use-cases/restore-source-version.use-case';
+import { TagSourcesUseCase } from '../application/use-cases/tag-sources.use-case';
+import { ListSourcesUseCase } from '../application/use-cases/list-sources.use-case';
+import { SearchKnowledgeUseCase } from '../application/use-cases/search-knowledge.use-case';
+import { ListFragmentsUseCase } from '../application/use-cases/list-fragments.use-case';
+import { UpdateFragmentUseCase } from '../application/use-cases/update-fragment.use-case';
+import { SplitFragmentUseCase } from '../application/use-cases/split-fragment.use-case';
+import { MergeFragmentsUseCase } from '../application/use-cases/merge-fragments.use-case';
+import { GetKnowledgeQuotaUseCase } from '../application/use-cases/get-knowledge-quota.use-case';
 import type { IKnowledgeRepository } from '../domain/repositories/knowledge.repository.interface';
 import type {
   IngestDocumentDto,
   IngestDocumentResult,
 } from '../application/dtos/ingest-document.dto';
 import type { DeleteSourceResult } from '../application/dtos/delete-source.dto';
+import type {
+  TagSourcesDto,
+  TagSourcesResult,
+} from '../application/dtos/tag-sources.dto';
+import type { FragmentCurationResult } from '../application/dtos/fragment-curation.dto';
 import {
   UploadDocumentDto,
+  UploadDocumentVersionDto,
+  IngestUrlRequestDto,
   IngestDocumentResponseDto,
+  IngestionStatusResponseDto,
+  SourceVersionResponseDto,
+  SourceVersionListResponseDto,
+  UpdateSourceTagsDto,
+  BulkTagSourcesDto,
+  TagSourcesResponseDto,
+  KnowledgeSearchQueryDto,
+  KnowledgeSearchResponseDto,
+  FragmentListQueryDto,
+  FragmentListResponseDto,
+  UpdateFragmentRequestDto,
+  SplitFragmentRequestDto,
+  MergeFragmentsRequestDto,
+  FragmentCurationResponseDto,
+  KnowledgeQuotaResponseDto,
   ErrorResponseDto,
 } from './dtos/knowledge.dto';
 import type {
   KnowledgeSourceDto,
   KnowledgeSourceDetailDto,
+  KnowledgeSourceListDto,
 } from './dtos/knowledge.dto';
-import { SourceType } from '@shared/types';
+import { SourceType, ChunkingStrategy } from '@shared/types';
 import { isValidUUID } from '@shared/validators';
 import { extractErrorMessage, extractErrorStack } from '@shared/utils';
 import { RequirePermissions } from '../../auth/decorators/require-permissions.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 import { KnowledgeDtoMapper } from './mappers/knowledge-dto.mapper';
 
 /**
@@ -73,14 +113,32 @@ const MAX_TITLE_LENGTH = 255;
 const MIME_PDF = 'application/pdf';
 const MIME_MARKDOWN = 'text/markdown';
 const MIME_TEXT = 'text/plain';
+const MIME_DOCX =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MIME_HTML = 'text/html';
+const MIME_CSV = 'text/csv';
+const MIME_EXCEL = 'application/vnd.ms-excel';
+const MIME_ZIP = 'application/zip';
 const MIME_OCTET_STREAM = 'application/octet-stream';
-const ALLOWED_MIME_TYPES = [MIME_PDF, MIME_MARKDOWN, MIME_TEXT];
+const ALLOWED_MIME_TYPES = [
+  MIME_PDF,
+  MIME_MARKDOWN,
+  MIME_TEXT,
+  MIME_DOCX,
+  MIME_HTML,
+  MIME_CSV,
+];
 
 // File extensions accepted when MIME type is generic (e.g. application/octet-stream)
 const EXTENSION_MIME_MAP: Record<string, string[]> = {
   '.pdf': [MIME_PDF],
   '.md': [MIME_MARKDOWN, MIME_OCTET_STREAM, MIME_TEXT],
   '.txt': [MIME_TEXT, MIME_OCTET_STREAM],
+  '.docx': [MIME_DOCX, MIME_ZIP, MIME_OCTET_STREAM],
+  '.html': [MIME_HTML, MIME_OCTET_STREAM, MIME_TEXT],
+  '.htm': [MIME_HTML, MIME_OCTET_STREAM, MIME_TEXT],
+  // Windows browsers report CSV files as Excel documents
+  '.csv': [MIME_CSV, MIME_EXCEL, MIME_OCTET_STREAM, MIME_TEXT],
 };
 
 // Example UUIDs for documentation
@@ -93,6 +151,102 @@ const API_AUTH_REQUIRED_DESC =
 
 // API descriptions
 const DESC_DOCUMENT_TITLE = 'Document title';
+const DESC_SOURCE_ID = 'Knowledge source UUID';
+const API_SOURCE_NOT_FOUND_DESC = 'Knowledge source not found';
+const API_READ_FORBIDDEN_DESC =
+  'Access denied - Requires knowledge:read permission';
+const API_READ_PERMISSION_NOTE = '\n\n**Required Permission:** knowledge:read';
+const API_CREATE_PERMISSION_NOTE =
+  '\n\n**Required Permission:** knowledge:create';
+const API_CREATE_FORBIDDEN_DESC =
+  'Access denied - Requires knowledge:create permission';
+const MSG_SOURCE_NOT_FOUND = 'Knowledge source not found: ';
+
+// Permissions
+const PERM_READ = 'knowledge:read';
+
+// Permissions
+const PERM_CREATE = 'knowledge:create';
+const PERM_UPDATE = 'knowledge:update';
+const API_UPDATE_PERMISSION_NOTE =
+  '\n\n**Required Permission:** knowledge:update';
+const API_UPDATE_FORBIDDEN_DESC =
+  'Access denied - Requires knowledge:update permission';
+
+// Validation messages
+const MSG_INVALID_SOURCE_ID = 'sourceId must be a valid UUID';
+const MSG_INVALID_FRAGMENT_ID = 'fragmentId must be a valid UUID';
+const MSG_INVALID_SECTOR_ID = 'sectorId must be a valid UUID';
+
+// Fragment API descriptions
+const DESC_FRAGMENT_ID = 'Fragment UUID';
+const API_FRAGMENT_CURATED_DESC = 'Changed fragments';
+const API_FRAGMENT_NOT_FOUND_DESC =
+  'Knowledge source or fragment not found (only the served fragments can be edited)';
+const API_FRAGMENT_CONFLICT_DESC = 'The source is not indexed yet';
+
+// Version errors caused by the current state of the source (reported as 409)
+const VERSION_CONFLICT_ERRORS = [
+  'identical to the current version',
+  'already the current version',
+  'while the source is processing',
+];
+
+// Version errors caused by the request (reported as 400)
+const VERSION_INPUT_ERROR_PREFIXES = [
+  'URL sources are versioned',
+  'Version must be',
+  'Buffer cannot be empty',
+];
+
+// Tagging errors caused by the request (reported as 400)
+const TAG_INPUT_ERROR_PREFIXES = [
+  'No tag or category change',
+  'A source cannot have more than',
+  'Tag cannot exceed',
+  'Category cannot exceed',
+  'Cannot tag more than',
+  'SourceId',
+];
+
+// Fragment errors caused by the request (reported as 400)
+const FRAGMENT_INPUT_ERROR_PREFIXES = [
+  'No content or exclusion change',
+  'Content must be',
+  'Content cannot be',
+  'Split offset must be',
+  'Between ',
+  'Only adjacent fragments',
+  'Limit must be',
+  'Offset must be',
+];
+
+// Search errors caused by the request (reported as 400)
+const SEARCH_INPUT_ERROR_PREFIXES = [
+  'Query must be',
+  'sectorId must be',
+  'Limit must be',
+  'Offset must be',
+];
+
+// Ingestion error for content the sector already has (reported as 409)
+const DUPLICATE_SOURCE_ERROR_PREFIX = 'Duplicate of knowledge source';
+const API_DUPLICATE_SOURCE_DESC =
+  'The sector already has a source with the same content (the message gives its ID)';
+const API_VERSION_QUOTA_DESC =
+  'The sector quota has no room for the tokens the version adds';
+
+// Quota errors (see KnowledgeQuotaService): sector full → 403, upload → 413
+const SECTOR_QUOTA_ERROR_PREFIX = 'Sector quota exceeded';
+const FILE_SIZE_ERROR_PREFIX = 'File too large';
+
+// Errors caused by the submitted URL or page (reported as 400)
+const URL_INPUT_ERROR_PREFIXES = [
+  'Invalid URL',
+  'URL must use',
+  'Failed to fetch URL',
+  'Failed to parse HTML',
+];
 
 /**
  * Knowledge Controller
@@ -114,7 +268,18 @@ export class KnowledgeController {
 
   constructor(
     private readonly ingestDocumentUseCase: IngestDocumentUseCase,
+    private readonly ingestUrlUseCase: IngestUrlUseCase,
     private readonly deleteSourceUseCase: DeleteSourceUseCase,
+    private readonly ingestSourceVersionUseCase: IngestSourceVersionUseCase,
+    private readonly restoreSourceVersionUseCase: RestoreSourceVersionUseCase,
+    private readonly tagSourcesUseCase: TagSourcesUseCase,
+    private readonly listSourcesUseCase: ListSourcesUseCase,
+    private readonly searchKnowledgeUseCase: SearchKnowledgeUseCase,
+    private readonly listFragmentsUseCase: ListFragmentsUseCase,
+    private readonly updateFragmentUseCase: UpdateFragmentUseCase,
+    private readonly splitFragmentUseCase: SplitFragmentUseCase,
+    private readonly mergeFragmentsUseCase: MergeFragmentsUseCase,
+    private readonly getKnowledgeQuotaUseCase: GetKnowledgeQuotaUseCase,
     @Inject('IKnowledgeRepository')
     private readonly knowledgeRepository: IKnowledgeRepository,
   ) {}
@@ -123,20 +288,25 @@ export class KnowledgeController {
    * List all knowledge sources (documents)
    *
    * Returns all non-deleted knowledge sources with metadata.
-   * Optionally filter by sectorId.
+   * Optionally filter by sectorId, tags (any of) and category. With
+   * includeFacets, the sources are returned with tag and category counts.
    *
    * @param sectorId - Optional sector filter
-   * @returns Array of knowledge source DTOs
+   * @param tags - Optional comma-separated tags filter
+   * @param category - Optional category filter
+   * @param includeFacets - 'true' to include tag and category counts
+   * @returns Array of knowledge source DTOs, or the DTOs with facet counts
    */
   @Get('documents')
   @HttpCode(HttpStatus.OK)
-  @RequirePermissions(['knowledge:read'])
+  @RequirePermissions([PERM_READ])
   @ApiOperation({
     summary: 'List all knowledge sources',
     description:
       'Returns all active knowledge sources with metadata. ' +
-      'Optionally filter by sectorId. ' +
-      '\n\n**Required Permission:** knowledge:read',
+      'Optionally filter by sectorId, tags (sources with any of them) and category. ' +
+      'With includeFacets=true, returns { documents, facets } where facets holds the tag and category counts. ' +
+      API_READ_PERMISSION_NOTE,
   })
   @ApiQuery({
     name: 'sectorId',
@@ -144,6 +314,24 @@ export class KnowledgeController {
     example: EXAMPLE_UUID,
     required: false,
   })
+  @ApiQuery({
+    name: 'tags',
+    description: 'Comma-separated tags; sources with any of them match',
+    example: 'hr,onboarding',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'category',
+    description: 'Filter by category (case-insensitive)',
+    example: 'Policies',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'includeFacets',
+    description: 'Include tag and category counts',
+    example: 'true',
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'List of knowledge sources',
@@ -152,24 +340,32 @@ export class KnowledgeController {
     description: API_AUTH_REQUIRED_DESC,
   })
   @ApiForbiddenResponse({
-    description: 'Access denied - Requires knowledge:read permission',
+    description: API_READ_FORBIDDEN_DESC,
   })
   async listDocuments(
     @Query('sectorId') sectorId?: string,
-  ): Promise<KnowledgeSourceDto[]> {
+    @Query('tags') tags?: string,
+    @Query('category') category?: string,
+    @Query('includeFacets') includeFacets?: string,
+  ): Promise<KnowledgeSourceDto[] | KnowledgeSourceListDto> {
     if (sectorId && !isValidUUID(sectorId)) {
-      throw new BadRequestException('sectorId must be a valid UUID');
+      throw new BadRequestException(MSG_INVALID_SECTOR_ID);
     }
 
     const sectorInfo = sectorId ? ' (sector: ' + sectorId + ')' : '';
     this.logger.log('List documents request' + sectorInfo);
 
     try {
-      const sources = sectorId
-        ? await this.knowledgeRepository.findSourcesBySector(sectorId)
-        : await this.knowledgeRepository.findAllSources();
+      const result = await this.listSourcesUseCase.execute({
+        sectorId: sectorId || undefined,
+        tags: tags?.split(','),
+        category: category || undefined,
+      });
 
-      return KnowledgeDtoMapper.toSourceDtoList(sources);
+      const documents = KnowledgeDtoMapper.toSourceDtoList(result.sources);
+      return includeFacets === 'true'
+        ? { documents, facets: result.facets }
+        : documents;
     } catch (error: unknown) {
       this.logger.error(
         `Failed to list documents: ${extractErrorMessage(error)}`,
@@ -179,6 +375,128 @@ export class KnowledgeController {
     }
   }
 
+  /**
+   * Full-text search over the content of knowledge sources
+   *
+   * Returns matching fragments with highlighted snippets, searching only
+   * the sectors the caller can access.
+   *
+   * @param query - Search text, optional sector and page
+   * @param userId - The caller (limits the sectors searched)
+   * @returns A page of matching fragments, best first
+   */
+  @Get('search')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_READ])
+  @ApiOperation({
+    summary: 'Search the content of knowledge sources',
+    description:
+      'Full-text search over document fragments. All terms must match; "quoted phrases" and -exclusions are supported. ' +
+      'Returns highlighted snippets with the source title, position and sector. ' +
+      'Admins search every sector; other users the sectors they are assigned to. ' +
+      API_READ_PERMISSION_NOTE,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching fragments',
+    type: KnowledgeSearchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query, sectorId or page',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No access to the sector',
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_READ_FORBIDDEN_DESC,
+  })
+  async searchKnowledge(
+    @Query() query: KnowledgeSearchQueryDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<KnowledgeSearchResponseDto> {
+    try {
+      return await this.searchKnowledgeUseCase.execute({
+        query: query.q,
+        userId,
+        sectorId: query.sectorId,
+        limit: query.limit,
+        offset: query.offset,
+      });
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+
+      if (errorMessage.startsWith('Access denied')) {
+        throw new ForbiddenException(errorMessage);
+      }
+      if (SEARCH_INPUT_ERROR_PREFIXES.some((p) => errorMessage.startsWith(p))) {
+        throw new BadRequestException(errorMessage);
+      }
+
+      this.logger.error(`Knowledge search failed: ${errorMessage}`, {
+        userId,
+        error: extractErrorStack(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ingestion quota of a sector
+   *
+   * @param sectorId - The sector ID
+   * @returns Sources, fragments and tokens used against their limits, and
+   *   the upload size limit of each source type
+   */
+  @Get('quota')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_CREATE])
+  @ApiOperation({
+    summary: 'Get the ingestion quota of a sector',
+    description:
+      'Returns the sources, fragments and tokens the sector uses against its limits, ' +
+      'and the maximum upload size of each source type. ' +
+      'Uploads over a limit are rejected (403 when the sector is full, 413 when the file is too large). ' +
+      API_CREATE_PERMISSION_NOTE,
+  })
+  @ApiQuery({
+    name: 'sectorId',
+    description: 'Sector UUID',
+    example: EXAMPLE_UUID,
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quota of the sector',
+    type: KnowledgeQuotaResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid sectorId',
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_CREATE_FORBIDDEN_DESC,
+  })
+  async getQuota(
+    @Query('sectorId') sectorId?: string,
+  ): Promise<KnowledgeQuotaResponseDto> {
+    if (!sectorId || !isValidUUID(sectorId)) {
+      throw new BadRequestException(MSG_INVALID_SECTOR_ID);
+    }
+
+    return this.getKnowledgeQuotaUseCase.execute(sectorId);
+  }
+
   /**
    * Get a knowledge source detail by ID
    *
@@ -189,16 +507,16 @@ export class KnowledgeController {
    */
   @Get('documents/:sourceId')
   @HttpCode(HttpStatus.OK)
-  @RequirePermissions(['knowledge:read'])
+  @RequirePermissions([PERM_READ])
   @ApiOperation({
     summary: 'Get a knowledge source detail',
     description:
       'Returns the full detail of a knowledge source including content and fragment count. ' +
-      '\n\n**Required Permission:** knowledge:read',
+      API_READ_PERMISSION_NOTE,
   })
   @ApiParam({
     name: 'sourceId',
-    description: 'Knowledge source UUID',
+    description: DESC_SOURCE_ID,
     example: EXAMPLE_UUID,
   })
   @ApiResponse({
@@ -207,14 +525,14 @@ export class KnowledgeController {
   })
   @ApiResponse({
     status: 404,
-    description: 'Knowledge source not found',
+    description: API_SOURCE_NOT_FOUND_DESC,
     type: ErrorResponseDto,
   })
   @ApiUnauthorizedResponse({
     description: API_AUTH_REQUIRED_DESC,
   })
   @ApiForbiddenResponse({
-    description: 'Access denied - Requires knowledge:read permission',
+    description: API_READ_FORBIDDEN_DESC,
   })
   async getDocumentDetail(
     @Param('sourceId') sourceId: string,
@@ -222,14 +540,14 @@ export class KnowledgeController {
     this.logger.log('Get document detail: ' + sourceId);
 
     if (!isValidUUID(sourceId)) {
-      throw new BadRequestException('sourceId must be a valid UUID');
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
     }
 
     try {
       const source = await this.knowledgeRepository.findSourceById(sourceId);
 
       if (!source) {
-        throw new NotFoundException('Knowledge source not found: ' + sourceId);
+        throw new NotFoundException(MSG_SOURCE_NOT_FOUND + sourceId);
       }
 
       const fragmentCount =
@@ -252,26 +570,92 @@ export class KnowledgeController {
   }
 
   /**
-   * Upload and ingest a document into the knowledge base
+   * Get the background ingestion status of a knowledge source
+   *
+   * Intended for polling after an upload returned 202.
+   *
+   * @param sourceId - The knowledge source ID
+   * @returns Status, current step and progress percentage
+   */
+  @Get('documents/:sourceId/status')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_READ])
+  @ApiOperation({
+    summary: 'Get ingestion status for polling',
+    description:
+      'Returns the status of the background ingestion job with its current step and progress percentage, ' +
+      'and the scanned PDF pages recognized with low OCR confidence. ' +
+      API_READ_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ingestion status',
+    type: IngestionStatusResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_READ_FORBIDDEN_DESC,
+  })
+  async getIngestionStatus(
+    @Param('sourceId') sourceId: string,
+  ): Promise<IngestionStatusResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    const source = await this.knowledgeRepository.findSourceById(sourceId);
+    if (!source) {
+      throw new NotFoundException(MSG_SOURCE_NOT_FOUND + sourceId);
+    }
+
+    const fragmentCount = source.isCompleted()
+      ? await this.knowledgeRepository.countFragmentsBySource(sourceId)
+      : undefined;
+
+    return KnowledgeDtoMapper.toIngestionStatusDto(source, fragmentCount);
+  }
+
+  /**
+   * Upload a document for ingestion into the knowledge base
    *
-   * Accepts PDF, Markdown, or plain text files, processes them,
-   * generates embeddings, and stores them for RAG retrieval.
+   * Accepts PDF, Markdown, Word (.docx), HTML, plain text or CSV files and
+   * parses them (tables become Markdown tables). Chunking,
+   * embedding and indexing run as a background job; poll
+   * `GET /knowledge/documents/:sourceId/status` for progress.
    *
    * @param file - The uploaded file
    * @param dto - Document metadata
-   * @returns Ingestion result with source ID and statistics
+   * @returns The PENDING source ID
    */
   @Post('documents/upload')
-  @HttpCode(HttpStatus.CREATED)
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(FileInterceptor('file'))
-  @RequirePermissions(['knowledge:create'])
+  @RequirePermissions([PERM_CREATE])
   @ApiOperation({
     summary: 'Upload and ingest a document',
     description:
-      'Uploads a document (PDF, Markdown, or text), parses it, generates embeddings, ' +
-      'and stores it in the knowledge base for RAG retrieval. ' +
-      'The document is chunked into fragments with overlapping context for better retrieval accuracy. ' +
-      '\n\n**Required Permission:** knowledge:create',
+      'Uploads a document (PDF, Markdown, Word .docx, HTML, plain text or CSV), parses it and stores it with PENDING status. ' +
+      'Headings and tables are kept as Markdown. ' +
+      'Chunking, embedding generation and indexing run in the background; ' +
+      'poll GET /knowledge/documents/{sourceId}/status for progress. ' +
+      'Content identical to an active source of the sector is rejected with 409; ' +
+      'sources with similar content are listed in nearDuplicates, with a warning and a line diff summary. ' +
+      'Scanned PDF pages (listed in scannedPages) are recognized with OCR by the background job, which skips the duplicate checks; ' +
+      'pages with low confidence are then listed in the lowConfidencePages of the status. ' +
+      'Uploads are rejected with 403 when the sector quota is used up, and with 413 over the size limit of their source type (see GET /knowledge/quota). ' +
+      API_CREATE_PERMISSION_NOTE,
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -282,7 +666,8 @@ export class KnowledgeController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Document file (PDF, Markdown, or text)',
+          description:
+            'Document file (PDF, Markdown, Word .docx, HTML, plain text or CSV)',
         },
         title: {
           type: 'string',
@@ -299,10 +684,18 @@ export class KnowledgeController {
         },
         sourceType: {
           type: 'string',
-          enum: ['PDF', 'MARKDOWN', 'URL'],
+          enum: Object.values(SourceType),
           description: 'Type of document',
           example: 'PDF',
         },
+        chunkingStrategy: {
+          type: 'string',
+          enum: Object.values(ChunkingStrategy),
+          description:
+            'How the content is split into fragments (default: FIXED_WINDOW). ' +
+            'STRUCTURED splits along headings and paragraphs and keeps lists and tables whole.',
+          example: ChunkingStrategy.STRUCTURED,
+        },
         metadata: {
           type: 'object',
           description: 'Optional metadata (JSON)',
@@ -312,8 +705,8 @@ export class KnowledgeController {
     },
   })
   @ApiResponse({
-    status: 201,
-    description: 'Document successfully ingested',
+    status: 202,
+    description: 'Document accepted for background ingestion',
     type: IngestDocumentResponseDto,
   })
   @ApiResponse({
@@ -325,11 +718,21 @@ export class KnowledgeController {
     description: API_AUTH_REQUIRED_DESC,
   })
   @ApiForbiddenResponse({
-    description: 'Access denied - Requires knowledge:create permission',
+    description: API_CREATE_FORBIDDEN_DESC,
+  })
+  @ApiResponse({
+    status: 409,
+    description: API_DUPLICATE_SOURCE_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'The sector quota has no room for the document',
+    type: ErrorResponseDto,
   })
   @ApiResponse({
     status: 413,
-    description: 'File too large (max 10MB)',
+    description: 'File over the size limit of its source type (max 10MB)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -378,6 +781,7 @@ export class KnowledgeController {
         sectorId: dto.sectorId.trim(),
         sourceType,
         buffer: fileBuffer,
+        chunkingStrategy: dto.chunkingStrategy,
         metadata: dto.metadata,
       };
 
@@ -385,20 +789,27 @@ export class KnowledgeController {
       const result: IngestDocumentResult =
         await this.ingestDocumentUseCase.execute(ingestDto);
 
-      this.logger.log(
-        `Document ingested successfully: ${result.sourceId} (${result.fragmentCount} fragments)`,
-      );
+      this.logger.log(`Document accepted for ingestion: ${result.sourceId}`);
 
       return result;
     } catch (error: unknown) {
-      this.logger.error(
-        `Document ingestion failed: ${extractErrorMessage(error)}`,
-        {
-          title: dto.title,
-          sourceType: dto.sourceType,
-          error: extractErrorStack(error),
-        },
-      );
+      const errorMessage = extractErrorMessage(error);
+
+      if (errorMessage.startsWith(DUPLICATE_SOURCE_ERROR_PREFIX)) {
+        throw new ConflictException(errorMessage);
+      }
+      if (errorMessage.startsWith(SECTOR_QUOTA_ERROR_PREFIX)) {
+        throw new ForbiddenException(errorMessage);
+      }
+      if (errorMessage.startsWith(FILE_SIZE_ERROR_PREFIX)) {
+        throw new PayloadTooLargeException(errorMessage);
+      }
+
+      this.logger.error(`Document ingestion failed: ${errorMessage}`, {
+        title: dto.title,
+        sourceType: dto.sourceType,
+        error: extractErrorStack(error),
+      });
 
       // Re-throw to be handled by NestJS exception filters
       throw error;
@@ -406,102 +817,85 @@ export class KnowledgeController {
   }
 
   /**
-   * Delete a knowledge source and its associated data
+   * Register a web page as a knowledge source
    *
-   * Removes the source, all fragments from PostgreSQL,
-   * and all vector embeddings from Pinecone.
+   * Fetches the page, extracts its main content (headings preserved) and
+   * stores it with PENDING status. Chunking, embedding and indexing run as
+   * a background job, as for uploads.
    *
-   * @param sourceId - The knowledge source ID to delete
-   * @param sectorId - The sector ID for Pinecone namespace targeting
-   * @returns Deletion result with statistics
+   * @param dto - Page URL and source metadata
+   * @returns The PENDING source ID
    */
-  @Delete('documents/:sourceId')
-  @HttpCode(HttpStatus.OK)
-  @RequirePermissions(['knowledge:delete'])
+  @Post('documents/url')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions([PERM_CREATE])
   @ApiOperation({
-    summary: 'Delete a knowledge source',
+    summary: 'Ingest a web page by URL',
     description:
-      'Deletes a knowledge source, its fragments from PostgreSQL, ' +
-      'and its vector embeddings from Pinecone. ' +
-      'The operation is idempotent — deleting an already-deleted source returns an error. ' +
-      '\n\n**Required Permission:** knowledge:delete',
-  })
-  @ApiParam({
-    name: 'sourceId',
-    description: 'Knowledge source UUID',
-    example: EXAMPLE_UUID,
-  })
-  @ApiQuery({
-    name: 'sectorId',
-    description: 'Sector UUID for Pinecone namespace',
-    example: EXAMPLE_UUID,
-    required: true,
+      'Fetches a web page, extracts its main content from the HTML (headings preserved) and stores it with PENDING status. ' +
+      'The canonical URL and fetch timestamp are recorded in the source metadata. ' +
+      'With refreshIntervalMinutes the page is re-crawled on that schedule and re-indexed when its content changes. ' +
+      'Chunking, embedding generation and indexing run in the background; ' +
+      'poll GET /knowledge/documents/{sourceId}/status for progress. ' +
+      API_CREATE_PERMISSION_NOTE,
   })
+  @ApiBody({ type: IngestUrlRequestDto })
   @ApiResponse({
-    status: 200,
-    description: 'Source successfully deleted',
+    status: 202,
+    description: 'Web page accepted for background ingestion',
+    type: IngestDocumentResponseDto,
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid request (missing sectorId, invalid UUID)',
+    description:
+      'Invalid request (invalid URL, page unreachable, not HTML or without readable content)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
-    status: 404,
-    description: 'Knowledge source not found',
+    status: 409,
+    description: API_DUPLICATE_SOURCE_DESC,
     type: ErrorResponseDto,
   })
   @ApiUnauthorizedResponse({
     description: API_AUTH_REQUIRED_DESC,
   })
   @ApiForbiddenResponse({
-    description: 'Access denied - Requires knowledge:delete permission',
+    description: API_CREATE_FORBIDDEN_DESC,
   })
-  async deleteDocument(
-    @Param('sourceId') sourceId: string,
-    @Query('sectorId') sectorId: string,
-  ): Promise<DeleteSourceResult> {
-    this.logger.log(`Delete request received for source: ${sourceId}`);
-
-    // Validate sectorId query parameter
-    if (!sectorId || sectorId.trim().length === 0) {
-      throw new BadRequestException('sectorId query parameter is required');
-    }
-
-    if (!isValidUUID(sourceId)) {
-      throw new BadRequestException('sourceId must be a valid UUID');
-    }
-
-    if (!isValidUUID(sectorId)) {
-      throw new BadRequestException('sectorId must be a valid UUID');
-    }
+  async ingestUrl(
+    @Body() dto: IngestUrlRequestDto,
+  ): Promise<IngestDocumentResponseDto> {
+    this.logger.log(`URL ingestion request received: ${dto.url}`);
 
     try {
-      const result = await this.deleteSourceUseCase.execute({
-        sourceId: sourceId.trim(),
-        sectorId: sectorId.trim(),
+      const result = await this.ingestUrlUseCase.execute({
+        url: dto.url.trim(),
+        title: dto.title.trim(),
+        sectorId: dto.sectorId.trim(),
+        refreshIntervalMinutes: dto.refreshIntervalMinutes,
+        chunkingStrategy: dto.chunkingStrategy,
+        metadata: dto.metadata,
       });
 
-      this.logger.log(
-        `Source deleted successfully: ${result.sourceId} (${result.fragmentsDeleted} fragments, vectors: ${result.vectorsDeleted ? 'cleaned' : 'failed'})`,
-      );
+      this.logger.log(`Web page accepted for ingestion: ${result.sourceId}`);
 
       return result;
     } catch (error: unknown) {
       const errorMessage = extractErrorMessage(error);
 
-      // Map domain errors to HTTP errors
-      if (errorMessage.includes('not found')) {
-        throw new NotFoundException(errorMessage);
+      if (errorMessage.startsWith(DUPLICATE_SOURCE_ERROR_PREFIX)) {
+        throw new ConflictException(errorMessage);
       }
-
-      if (errorMessage.includes('already deleted')) {
+      if (
+        URL_INPUT_ERROR_PREFIXES.some((prefix) =>
+          errorMessage.startsWith(prefix),
+        )
+      ) {
         throw new BadRequestException(errorMessage);
       }
 
-      this.logger.error(`Source deletion failed: ${errorMessage}`, {
-        sourceId,
-        sectorId,
+      this.logger.error(`URL ingestion failed: ${errorMessage}`, {
+        url: dto.url,
         error: extractErrorStack(error),
       });
 
@@ -509,6 +903,855 @@ export class KnowledgeController {
     }
   }
 
+  /**
+   * Upload a new version of a knowledge source
+   *
+   * The file is parsed with the source's type and replaces its content
+   * under the same source ID. The previous content is kept as a revision
+   * and its fragments keep being served until the new version is indexed.
+   *
+   * @param sourceId - The knowledge source ID
+   * @param file - The uploaded file
+   * @param dto - Optional metadata
+   * @returns The new version number and PENDING status
+   */
+  @Post('documents/:sourceId/versions')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('file'))
+  @RequirePermissions([PERM_CREATE])
+  @ApiOperation({
+    summary: 'Upload a new version of a document',
+    description:
+      'Replaces the content of a knowledge source with a new file, keeping the source ID. ' +
+      'The file is parsed with the source type. The previous content is kept as a version that can be restored. ' +
+      'The new version is indexed in the background; the previous fragments are served until it completes ' +
+      '(poll GET /knowledge/documents/{sourceId}/status). URL sources are versioned by re-crawling. ' +
+      'Scanned PDF pages (listed in scannedPages) are recognized with OCR by the background job, ' +
+      'which fails the version if the recognized content is identical to the current version. ' +
+      'Versions are rejected with 403 when the sector quota has no room for the tokens they add, ' +
+      'and with 413 over the size limit of the source type. ' +
+      API_CREATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'New version of the document (same type as the source)',
+        },
+        metadata: {
+          type: 'object',
+          description:
+            'Optional metadata (JSON), merged into the source metadata',
+          example: { changeNote: 'Updated vacation days for 2025' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'New version accepted for background ingestion',
+    type: SourceVersionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request (missing file, invalid format, URL source)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Content identical to the current version, or the source is being processed',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: API_VERSION_QUOTA_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File over the size limit of the source type (max 10MB)',
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_CREATE_FORBIDDEN_DESC,
+  })
+  async uploadDocumentVersion(
+    @Param('sourceId') sourceId: string,
+    @UploadedFile() uploadedFile: UploadedFileData | undefined,
+    @Body() dto: UploadDocumentVersionDto,
+  ): Promise<SourceVersionResponseDto> {
+    this.logger.log(`New version upload received for source: ${sourceId}`);
+
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+    if (!uploadedFile) {
+      throw new BadRequestException('File is required');
+    }
+    if (uploadedFile.size > MAX_FILE_SIZE) {
+      throw new BadRequestException(
+        `File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB`,
+      );
+    }
+    const fileMimeType = String(uploadedFile.mimetype);
+    if (!this.isAllowedFileType(fileMimeType, uploadedFile.originalname)) {
+      throw new BadRequestException(
+        `Invalid file type. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`,
+      );
+    }
+
+    try {
+      const result = await this.ingestSourceVersionUseCase.execute({
+        sourceId,
+        buffer: uploadedFile.buffer,
+        metadata: dto.metadata,
+      });
+
+      this.logger.log(
+        `Version ${result.version} of source ${sourceId} accepted for ingestion`,
+      );
+
+      return result;
+    } catch (error: unknown) {
+      throw this.toVersionHttpError(error, sourceId);
+    }
+  }
+
+  /**
+   * List the versions of a knowledge source
+   *
+   * @param sourceId - The knowledge source ID
+   * @returns Current and superseded versions, newest first
+   */
+  @Get('documents/:sourceId/versions')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_READ])
+  @ApiOperation({
+    summary: 'List the versions of a document',
+    description:
+      'Returns the current version and the superseded versions of a knowledge source, newest first, ' +
+      'and which version is being served. ' +
+      API_READ_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Version history',
+    type: SourceVersionListResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_READ_FORBIDDEN_DESC,
+  })
+  async listDocumentVersions(
+    @Param('sourceId') sourceId: string,
+  ): Promise<SourceVersionListResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    const source = await this.knowledgeRepository.findSourceById(sourceId);
+    if (!source) {
+      throw new NotFoundException(MSG_SOURCE_NOT_FOUND + sourceId);
+    }
+
+    const revisions =
+      await this.knowledgeRepository.findRevisionsBySource(sourceId);
+
+    return KnowledgeDtoMapper.toSourceVersionListDto(source, revisions);
+  }
+
+  /**
+   * Restore a previous version of a knowledge source
+   *
+   * The content of the version is published as a new version and indexed
+   * in the background, like an uploaded version.
+   *
+   * @param sourceId - The knowledge source ID
+   * @param version - The superseded version to restore
+   * @returns The new version number and PENDING status
+   */
+  @Post('documents/:sourceId/versions/:version/restore')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions([PERM_CREATE])
+  @ApiOperation({
+    summary: 'Restore a previous version of a document',
+    description:
+      'Publishes the content of a superseded version as a new version (history is kept). ' +
+      'It is indexed in the background; the current fragments are served until it completes. ' +
+      API_CREATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiParam({
+    name: 'version',
+    description: 'Version number to restore',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Restored version accepted for background ingestion',
+    type: SourceVersionResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Knowledge source or version not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Version is the current one or has identical content, or the source is being processed',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: API_VERSION_QUOTA_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_CREATE_FORBIDDEN_DESC,
+  })
+  async restoreDocumentVersion(
+    @Param('sourceId') sourceId: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<SourceVersionResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    try {
+      return await this.restoreSourceVersionUseCase.execute({
+        sourceId,
+        version,
+      });
+    } catch (error: unknown) {
+      throw this.toVersionHttpError(error, sourceId);
+    }
+  }
+
+  /**
+   * Change the tags and category of a knowledge source
+   *
+   * The new tags are also written to the source's vectors, so scoped
+   * retrieval sees them without re-indexing.
+   *
+   * @param sourceId - The knowledge source ID
+   * @param dto - Tag and category changes
+   * @returns The resulting tags and category
+   */
+  @Patch('documents/:sourceId/tags')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_UPDATE])
+  @ApiOperation({
+    summary: 'Change the tags and category of a document',
+    description:
+      'Replaces (tags), adds (addTags) or removes (removeTags) tags, in that order, and sets or clears the category. ' +
+      'Tags are trimmed and lowercased; a source has at most 20 tags. ' +
+      API_UPDATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags and category updated',
+    type: TagSourcesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No change requested, or too many or too long tags',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_UPDATE_FORBIDDEN_DESC,
+  })
+  async updateDocumentTags(
+    @Param('sourceId') sourceId: string,
+    @Body() dto: UpdateSourceTagsDto,
+  ): Promise<TagSourcesResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    return this.tagSources({ ...dto, sourceIds: [sourceId] });
+  }
+
+  /**
+   * Change the tags and category of several knowledge sources at once
+   *
+   * @param dto - Source IDs and the tag and category changes
+   * @returns The resulting tags and category of each source
+   */
+  @Post('documents/tags')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_UPDATE])
+  @ApiOperation({
+    summary: 'Change the tags and category of several documents',
+    description:
+      'Applies the same tag and category changes to up to 100 sources. ' +
+      'Nothing is changed if a source is not found or a change is invalid. ' +
+      API_UPDATE_PERMISSION_NOTE,
+  })
+  @ApiBody({ type: BulkTagSourcesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags and categories updated',
+    type: TagSourcesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No change requested, or too many or too long tags',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'A knowledge source was not found',
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_UPDATE_FORBIDDEN_DESC,
+  })
+  async bulkTagDocuments(
+    @Body() dto: BulkTagSourcesDto,
+  ): Promise<TagSourcesResponseDto> {
+    return this.tagSources(dto);
+  }
+
+  /**
+   * List the fragments of a knowledge source
+   *
+   * Returns a page of the fragments served for the source, excluded ones
+   * included, so curators can check how it was chunked.
+   *
+   * @param sourceId - The knowledge source ID
+   * @param query - Page
+   * @returns The fragments of the page, by position
+   */
+  @Get('documents/:sourceId/fragments')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_READ])
+  @ApiOperation({
+    summary: 'List the fragments of a document',
+    description:
+      'Returns a page of the fragments of the indexed version, by position, including excluded fragments. ' +
+      API_READ_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'A page of fragments',
+    type: FragmentListResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_READ_FORBIDDEN_DESC,
+  })
+  async listDocumentFragments(
+    @Param('sourceId') sourceId: string,
+    @Query() query: FragmentListQueryDto,
+  ): Promise<FragmentListResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    try {
+      const result = await this.listFragmentsUseCase.execute({
+        sourceId,
+        limit: query.limit,
+        offset: query.offset,
+      });
+      return KnowledgeDtoMapper.toFragmentListDto(result);
+    } catch (error: unknown) {
+      throw this.toFragmentHttpError(error, sourceId);
+    }
+  }
+
+  /**
+   * Correct a fragment or exclude it from retrieval
+   *
+   * Only the fragment's vector is updated: re-embedded after a correction,
+   * deleted when the fragment is excluded.
+   *
+   * @param sourceId - The knowledge source ID
+   * @param fragmentId - The fragment ID
+   * @param dto - Corrected content and/or exclusion
+   * @returns The updated fragment
+   */
+  @Patch('documents/:sourceId/fragments/:fragmentId')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_UPDATE])
+  @ApiOperation({
+    summary: 'Correct or exclude a fragment',
+    description:
+      'Replaces the content of a fragment (re-embedded) and/or excludes it from retrieval (its vector is deleted) or includes it again. ' +
+      'Corrections last until the next version of the document is indexed. ' +
+      API_UPDATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiParam({
+    name: 'fragmentId',
+    description: DESC_FRAGMENT_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiBody({ type: UpdateFragmentRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: API_FRAGMENT_CURATED_DESC,
+    type: FragmentCurationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No change requested, or content too short',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_FRAGMENT_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: API_FRAGMENT_CONFLICT_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_UPDATE_FORBIDDEN_DESC,
+  })
+  async updateDocumentFragment(
+    @Param('sourceId') sourceId: string,
+    @Param('fragmentId') fragmentId: string,
+    @Body() dto: UpdateFragmentRequestDto,
+  ): Promise<FragmentCurationResponseDto> {
+    this.validateFragmentParams(sourceId, fragmentId);
+
+    return this.curateFragments(sourceId, () =>
+      this.updateFragmentUseCase.execute({ ...dto, sourceId, fragmentId }),
+    );
+  }
+
+  /**
+   * Cut a fragment in two
+   *
+   * @param sourceId - The knowledge source ID
+   * @param fragmentId - The fragment ID
+   * @param dto - Character offset of the cut
+   * @returns The two parts
+   */
+  @Post('documents/:sourceId/fragments/:fragmentId/split')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_UPDATE])
+  @ApiOperation({
+    summary: 'Split a fragment',
+    description:
+      'Keeps the text before the offset in the fragment and moves the rest to a new fragment at the next position. ' +
+      'Both parts are embedded; the following fragments move one position down. ' +
+      API_UPDATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiParam({
+    name: 'fragmentId',
+    description: DESC_FRAGMENT_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiBody({ type: SplitFragmentRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: API_FRAGMENT_CURATED_DESC,
+    type: FragmentCurationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Offset outside the content, or a part would be too short',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_FRAGMENT_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: API_FRAGMENT_CONFLICT_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_UPDATE_FORBIDDEN_DESC,
+  })
+  async splitDocumentFragment(
+    @Param('sourceId') sourceId: string,
+    @Param('fragmentId') fragmentId: string,
+    @Body() dto: SplitFragmentRequestDto,
+  ): Promise<FragmentCurationResponseDto> {
+    this.validateFragmentParams(sourceId, fragmentId);
+
+    return this.curateFragments(sourceId, () =>
+      this.splitFragmentUseCase.execute({
+        sourceId,
+        fragmentId,
+        splitAt: dto.splitAt,
+      }),
+    );
+  }
+
+  /**
+   * Merge adjacent fragments
+   *
+   * @param sourceId - The knowledge source ID
+   * @param dto - The fragments to merge
+   * @returns The merged fragment and the IDs of the deleted ones
+   */
+  @Post('documents/:sourceId/fragments/merge')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions([PERM_UPDATE])
+  @ApiOperation({
+    summary: 'Merge adjacent fragments',
+    description:
+      'Appends the content of the other fragments to the first one by position and deletes them with their vectors. ' +
+      'The merged fragment is embedded. ' +
+      API_UPDATE_PERMISSION_NOTE,
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiBody({ type: MergeFragmentsRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: API_FRAGMENT_CURATED_DESC,
+    type: FragmentCurationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Fragments not adjacent, or too few or too many',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_FRAGMENT_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: API_FRAGMENT_CONFLICT_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: API_UPDATE_FORBIDDEN_DESC,
+  })
+  async mergeDocumentFragments(
+    @Param('sourceId') sourceId: string,
+    @Body() dto: MergeFragmentsRequestDto,
+  ): Promise<FragmentCurationResponseDto> {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    return this.curateFragments(sourceId, () =>
+      this.mergeFragmentsUseCase.execute({
+        sourceId,
+        fragmentIds: dto.fragmentIds,
+      }),
+    );
+  }
+
+  /**
+   * Delete a knowledge source and its associated data
+   *
+   * Removes the source, all fragments from PostgreSQL,
+   * and all vector embeddings from Pinecone.
+   *
+   * @param sourceId - The knowledge source ID to delete
+   * @param sectorId - The sector ID for Pinecone namespace targeting
+   * @returns Deletion result with statistics
+   */
+  @Delete('documents/:sourceId')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(['knowledge:delete'])
+  @ApiOperation({
+    summary: 'Delete a knowledge source',
+    description:
+      'Deletes a knowledge source, its fragments from PostgreSQL, ' +
+      'and its vector embeddings from Pinecone. ' +
+      'The operation is idempotent — deleting an already-deleted source returns an error. ' +
+      '\n\n**Required Permission:** knowledge:delete',
+  })
+  @ApiParam({
+    name: 'sourceId',
+    description: DESC_SOURCE_ID,
+    example: EXAMPLE_UUID,
+  })
+  @ApiQuery({
+    name: 'sectorId',
+    description: 'Sector UUID for Pinecone namespace',
+    example: EXAMPLE_UUID,
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Source successfully deleted',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request (missing sectorId, invalid UUID)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: API_SOURCE_NOT_FOUND_DESC,
+    type: ErrorResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: API_AUTH_REQUIRED_DESC,
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - Requires knowledge:delete permission',
+  })
+  async deleteDocument(
+    @Param('sourceId') sourceId: string,
+    @Query('sectorId') sectorId: string,
+  ): Promise<DeleteSourceResult> {
+    this.logger.log(`Delete request received for source: ${sourceId}`);
+
+    // Validate sectorId query parameter
+    if (!sectorId || sectorId.trim().length === 0) {
+      throw new BadRequestException('sectorId query parameter is required');
+    }
+
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+
+    if (!isValidUUID(sectorId)) {
+      throw new BadRequestException(MSG_INVALID_SECTOR_ID);
+    }
+
+    try {
+      const result = await this.deleteSourceUseCase.execute({
+        sourceId: sourceId.trim(),
+        sectorId: sectorId.trim(),
+      });
+
+      this.logger.log(
+        `Source deleted successfully: ${result.sourceId} (${result.fragmentsDeleted} fragments, vectors: ${result.vectorsDeleted ? 'cleaned' : 'failed'})`,
+      );
+
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+
+      // Map domain errors to HTTP errors
+      if (errorMessage.includes('not found')) {
+        throw new NotFoundException(errorMessage);
+      }
+
+      if (errorMessage.includes('already deleted')) {
+        throw new BadRequestException(errorMessage);
+      }
+
+      this.logger.error(`Source deletion failed: ${errorMessage}`, {
+        sourceId,
+        sectorId,
+        error: extractErrorStack(error),
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a tagging request, mapping its errors to HTTP errors
+   */
+  private async tagSources(dto: TagSourcesDto): Promise<TagSourcesResult> {
+    try {
+      return await this.tagSourcesUseCase.execute(dto);
+    } catch (error: unknown) {
+      const errorMessage = extractErrorMessage(error);
+
+      if (errorMessage.includes('not found')) {
+        throw new NotFoundException(errorMessage);
+      }
+      if (
+        TAG_INPUT_ERROR_PREFIXES.some((prefix) =>
+          errorMessage.startsWith(prefix),
+        )
+      ) {
+        throw new BadRequestException(errorMessage);
+      }
+
+      this.logger.error(`Source tagging failed: ${errorMessage}`, {
+        sourceIds: dto.sourceIds,
+        error: extractErrorStack(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the source and fragment IDs of a fragment route
+   */
+  private validateFragmentParams(sourceId: string, fragmentId: string): void {
+    if (!isValidUUID(sourceId)) {
+      throw new BadRequestException(MSG_INVALID_SOURCE_ID);
+    }
+    if (!isValidUUID(fragmentId)) {
+      throw new BadRequestException(MSG_INVALID_FRAGMENT_ID);
+    }
+  }
+
+  /**
+   * Runs a fragment edit, split or merge, mapping its errors to HTTP errors
+   */
+  private async curateFragments(
+    sourceId: string,
+    work: () => Promise<FragmentCurationResult>,
+  ): Promise<FragmentCurationResponseDto> {
+    try {
+      return KnowledgeDtoMapper.toFragmentCurationDto(await work());
+    } catch (error: unknown) {
+      throw this.toFragmentHttpError(error, sourceId);
+    }
+  }
+
+  /**
+   * Maps errors from the fragment use cases to HTTP errors
+   */
+  private toFragmentHttpError(error: unknown, sourceId: string): unknown {
+    const errorMessage = extractErrorMessage(error);
+
+    if (errorMessage.includes('not found')) {
+      return new NotFoundException(errorMessage);
+    }
+    if (errorMessage.startsWith('Fragments can only be edited')) {
+      return new ConflictException(errorMessage);
+    }
+    if (
+      FRAGMENT_INPUT_ERROR_PREFIXES.some((prefix) =>
+        errorMessage.startsWith(prefix),
+      )
+    ) {
+      return new BadRequestException(errorMessage);
+    }
+
+    this.logger.error(`Fragment curation failed: ${errorMessage}`, {
+      sourceId,
+      error: extractErrorStack(error),
+    });
+    return error;
+  }
+
+  /**
+   * Maps errors from the version use cases to HTTP errors
+   */
+  private toVersionHttpError(error: unknown, sourceId: string): unknown {
+    const errorMessage = extractErrorMessage(error);
+
+    if (errorMessage.startsWith(SECTOR_QUOTA_ERROR_PREFIX)) {
+      return new ForbiddenException(errorMessage);
+    }
+    if (errorMessage.startsWith(FILE_SIZE_ERROR_PREFIX)) {
+      return new PayloadTooLargeException(errorMessage);
+    }
+
+    if (errorMessage.includes('not found')) {
+      return new NotFoundException(errorMessage);
+    }
+    if (VERSION_CONFLICT_ERRORS.some((text) => errorMessage.includes(text))) {
+      return new ConflictException(errorMessage);
+    }
+    if (
+      VERSION_INPUT_ERROR_PREFIXES.some((prefix) =>
+        errorMessage.startsWith(prefix),
+      )
+    ) {
+      return new BadRequestException(errorMessage);
+    }
+
+    this.logger.error(`Source version failed: ${errorMessage}`, {
+      sourceId,
+      error: extractErrorStack(error),
+    });
+    return error;
+  }
+
   /**
    * Validates the upload DTO
    *
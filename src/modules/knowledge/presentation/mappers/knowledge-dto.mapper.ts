@@ -1,7 +1,23 @@
 import type { KnowledgeSource } from '../../domain/entities/knowledge-source.entity';
+import type { KnowledgeSourceRevision } from '../../domain/entities/knowledge-source-revision.entity';
+import type { Fragment } from '../../domain/entities/fragment.entity';
+import type { EmbeddingIndex } from '../../domain/entities/embedding-index.entity';
 import type {
-  KnowledgeSourceDto,
-  KnowledgeSourceDetailDto,
+  ListFragmentsResult,
+  FragmentCurationResult,
+} from '../../application/dtos/fragment-curation.dto';
+import type { SectorEmbeddingIndexes } from '../../application/dtos/embedding-index.dto';
+import {
+  IngestionStatusResponseDto,
+  type SourceVersionDto,
+  type SourceVersionListResponseDto,
+  type KnowledgeSourceDto,
+  type KnowledgeSourceDetailDto,
+  type FragmentDto,
+  type FragmentListResponseDto,
+  type FragmentCurationResponseDto,
+  type EmbeddingIndexDto,
+  type SectorEmbeddingIndexesDto,
 } from '../dtos/knowledge.dto';
 
 /**
@@ -21,7 +37,10 @@ export class KnowledgeDtoMapper {
       sectorId: source.sectorId,
       sourceType: source.sourceType,
       status: source.status,
+      version: source.version,
       metadata: source.metadata ?? null,
+      tags: source.tags ?? [],
+      category: source.category ?? null,
       createdAt: source.createdAt.toISOString(),
       updatedAt: source.updatedAt.toISOString(),
     };
@@ -37,10 +56,162 @@ export class KnowledgeDtoMapper {
     return {
       ...KnowledgeDtoMapper.toSourceDto(source),
       content: source.content,
+      chunkingStrategy: source.chunkingStrategy,
       fragmentCount,
     };
   }
 
+  /**
+   * Map a KnowledgeSource → IngestionStatusResponseDto (status polling)
+   */
+  static toIngestionStatusDto(
+    source: KnowledgeSource,
+    fragmentCount?: number,
+  ): IngestionStatusResponseDto {
+    const response = new IngestionStatusResponseDto();
+    response.sourceId = source.id ?? '';
+    response.status = source.status;
+    if (source.processingStep) response.currentStep = source.processingStep;
+    if (source.processingProgress !== undefined) {
+      response.progress = source.processingProgress;
+    }
+    if (fragmentCount !== undefined) response.fragmentCount = fragmentCount;
+    if (source.errorMessage) response.errorMessage = source.errorMessage;
+    const lowConfidencePages = source.getLowConfidencePages();
+    if (lowConfidencePages.length > 0) {
+      response.lowConfidencePages = lowConfidencePages;
+    }
+    return response;
+  }
+
+  /**
+   * Map a KnowledgeSource and its revisions → SourceVersionListResponseDto
+   * (current version first, then superseded versions newest first)
+   */
+  static toSourceVersionListDto(
+    source: KnowledgeSource,
+    revisions: KnowledgeSourceRevision[],
+  ): SourceVersionListResponseDto {
+    const current: SourceVersionDto = {
+      version: source.version,
+      isCurrent: true,
+      isIndexed: source.indexedVersion === source.version,
+      contentHash: source.contentHash,
+      contentSize: Buffer.byteLength(source.content, 'utf8'),
+    };
+    const superseded = [...revisions]
+      .sort((a, b) => b.version - a.version)
+      .map(
+        (revision): SourceVersionDto => ({
+          version: revision.version,
+          isCurrent: false,
+          isIndexed: source.indexedVersion === revision.version,
+          contentHash: revision.contentHash,
+          contentSize: Buffer.byteLength(revision.content, 'utf8'),
+          supersededAt: revision.createdAt.toISOString(),
+        }),
+      );
+
+    return {
+      sourceId: source.id ?? '',
+      currentVersion: source.version,
+      indexedVersion: source.indexedVersion,
+      versions: [current, ...superseded],
+    };
+  }
+
+  /**
+   * Map a Fragment → FragmentDto
+   */
+  static toFragmentDto(fragment: Fragment): FragmentDto {
+    const headingPath = fragment.getHeadingPath();
+    return {
+      id: fragment.id ?? '',
+      sourceId: fragment.sourceId,
+      sourceVersion: fragment.sourceVersion,
+      position: fragment.position,
+      content: fragment.content,
+      tokenCount: fragment.tokenCount,
+      ...(headingPath && { headingPath }),
+      edited: fragment.metadata?.edited === true,
+      excluded: fragment.excluded,
+      updatedAt: fragment.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Map a page of fragments → FragmentListResponseDto
+   */
+  static toFragmentListDto(
+    result: ListFragmentsResult,
+  ): FragmentListResponseDto {
+    return {
+      ...result,
+      fragments: result.fragments.map((fragment) =>
+        KnowledgeDtoMapper.toFragmentDto(fragment),
+      ),
+    };
+  }
+
+  /**
+   * Map a fragment edit, split or merge → FragmentCurationResponseDto
+   */
+  static toFragmentCurationDto(
+    result: FragmentCurationResult,
+  ): FragmentCurationResponseDto {
+    return {
+      fragments: result.fragments.map((fragment) =>
+        KnowledgeDtoMapper.toFragmentDto(fragment),
+      ),
+      deletedFragmentIds: result.deletedFragmentIds,
+      vectorsUpdated: result.vectorsUpdated,
+    };
+  }
+
+  /**
+   * Map an EmbeddingIndex → EmbeddingIndexDto
+   */
+  static toEmbeddingIndexDto(index: EmbeddingIndex): EmbeddingIndexDto {
+    const progress = index.getProgress();
+    return {
+      ...(index.id && { id: index.id }),
+      generation: index.generation,
+      namespace: index.namespace,
+      embeddingModel: index.embeddingModel,
+      embeddingDimensions: index.embeddingDimensions,
+      status: index.status,
+      ...(progress !== undefined && { progress }),
+      ...(index.totalFragments !== undefined && {
+        totalFragments: index.totalFragments,
+      }),
+      processedFragments: index.processedFragments,
+      ...(index.errorMessage && { errorMessage: index.errorMessage }),
+      ...(index.activatedAt && {
+        activatedAt: index.activatedAt.toISOString(),
+      }),
+      ...(index.retiredAt && { retiredAt: index.retiredAt.toISOString() }),
+      createdAt: index.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Map the embedding indexes of a sector → SectorEmbeddingIndexesDto
+   */
+  static toSectorEmbeddingIndexesDto(
+    result: SectorEmbeddingIndexes,
+  ): SectorEmbeddingIndexesDto {
+    return {
+      sectorId: result.sectorId,
+      active: KnowledgeDtoMapper.toEmbeddingIndexDto(result.active),
+      ...(result.building && {
+        building: KnowledgeDtoMapper.toEmbeddingIndexDto(result.building),
+      }),
+      indexes: result.indexes.map((index) =>
+        KnowledgeDtoMapper.toEmbeddingIndexDto(index),
+      ),
+    };
+  }
+
   /**
    * Map an array of KnowledgeSource entities → KnowledgeSourceDto[]
    */
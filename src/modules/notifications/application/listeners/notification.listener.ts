@@ -3,6 +3,7 @@ import { OnEvent } from '@nestjs/event-emitter';
 import { NotificationService } from '../notification.service';
 import { InvitationCreatedEvent } from '../../../invitations/domain/events/invitation.events';
 import { UserActivatedEvent } from '../../../users/domain/events/user.events';
+import { KnowledgeSourceRefreshedEvent } from '../../../knowledge/domain/events/knowledge.events';
 import { NotificationType } from '@shared/types';
 import { UserRepository } from '../../../users/infrastructure/persistence/repositories/user.repository';
 import { extractErrorMessage } from '@shared/utils';
@@ -10,6 +11,9 @@ import { extractErrorMessage } from '@shared/utils';
 /** Admin role name for finding admin users */
 const ADMIN_ROLE = 'admin';
 
+/** Manager role name for finding sector managers */
+const MANAGER_ROLE = 'manager';
+
 /**
  * Notification Listener
  *
@@ -20,6 +24,9 @@ const ADMIN_ROLE = 'admin';
  * v1.3 Events:
  * - invitation.created  → Notify all admins
  * - user.activated      → Notify all admins
+ *
+ * Knowledge Events:
+ * - knowledge.source.refreshed → Notify the managers of the source's sector
  */
 @Injectable()
 export class NotificationListener {
@@ -105,6 +112,50 @@ export class NotificationListener {
     }
   }
 
+  /**
+   * Handle knowledge.source.refreshed event
+   *
+   * Creates a notification for the sector's managers when a re-crawled
+   * URL source changed and was re-indexed.
+   */
+  @OnEvent('knowledge.source.refreshed')
+  async handleKnowledgeSourceRefreshed(
+    event: KnowledgeSourceRefreshedEvent,
+  ): Promise<void> {
+    try {
+      const managers = await this.userRepository.findByRoleInSector(
+        MANAGER_ROLE,
+        event.sectorId,
+      );
+
+      const notificationPromises = managers.map((manager) =>
+        this.notificationService.create({
+          userId: manager.id,
+          type: NotificationType.DOCUMENT_PROCESSED,
+          title: 'Web Page Updated',
+          message: `"${event.title}" changed since the last crawl and was re-indexed (${event.fragmentCount} fragments).`,
+          metadata: {
+            sourceId: event.sourceId,
+            sectorId: event.sectorId,
+            title: event.title,
+            revisionId: event.revisionId,
+            fragmentCount: event.fragmentCount,
+          },
+        }),
+      );
+
+      await Promise.all(notificationPromises);
+
+      this.logger.log(
+        `Notifications created for knowledge.source.refreshed: ${event.sourceId}`,
+      );
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to handle knowledge.source.refreshed event: ${extractErrorMessage(error)}`,
+      );
+    }
+  }
+
   // ==================== Private Helpers ====================
 
   /**
@@ -0,0 +1,35 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { IGlossaryProvider } from '../../domain/services/glossary-provider.interface';
+import type { GlossaryUpdatedEvent } from '../../domain/events/glossary.events';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * Glossary Cache Invalidation Listener
+ *
+ * Makes glossary edits visible to the RAG flow without waiting for the
+ * cache TTL.
+ *
+ * Events:
+ * - glossary.updated → drop the sector glossary (all sectors for global edits)
+ */
+@Injectable()
+export class GlossaryCacheInvalidationListener {
+  private readonly logger = new Logger(GlossaryCacheInvalidationListener.name);
+
+  constructor(
+    @Inject('IGlossaryProvider')
+    private readonly glossaryProvider: IGlossaryProvider,
+  ) {}
+
+  @OnEvent('glossary.updated')
+  handleGlossaryUpdated(event: GlossaryUpdatedEvent): void {
+    try {
+      this.glossaryProvider.invalidate(event.sectorId);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to handle glossary.updated event: ${extractErrorMessage(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { ISectorRepository } from '../../domain/repositories/sector.repository.interface';
+import type { IGlossaryRepository } from '../../domain/repositories/glossary.repository.interface';
+import {
+  GlossaryEntry,
+  type GlossaryEntryType,
+} from '../../domain/entities/glossary-entry.entity';
+import { GlossaryUpdatedEvent } from '../../domain/events/glossary.events';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * Input DTO for create glossary entry use case
+ */
+export interface CreateGlossaryEntryInput {
+  /** null creates a global default */
+  sectorId: string | null;
+  type: GlossaryEntryType;
+  term: string;
+  synonyms?: string[];
+  responses?: Record<string, string>;
+}
+
+/**
+ * Create Glossary Entry Use Case
+ *
+ * Adds a synonym or conversational phrase to a sector glossary (or to the
+ * global defaults) after validating:
+ * - Sector exists (sector entries only)
+ * - Term is unique per sector and type
+ * - Domain entity validation (term, synonyms, responses) → 400
+ *
+ * Emits 'glossary.updated' so cached glossaries are reloaded.
+ */
+@Injectable()
+export class CreateGlossaryEntryUseCase {
+  private readonly logger = new Logger(CreateGlossaryEntryUseCase.name);
+
+  constructor(
+    @Inject('IGlossaryRepository')
+    private readonly glossaryRepository: IGlossaryRepository,
+    @Inject('ISectorRepository')
+    private readonly sectorRepository: ISectorRepository,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async execute(input: CreateGlossaryEntryInput): Promise<GlossaryEntry> {
+    const scope = input.sectorId ?? 'global';
+    this.logger.log(`Creating ${input.type} glossary entry for ${scope}`);
+
+    if (input.sectorId) {
+      const sector = await this.sectorRepository.findById(input.sectorId);
+      if (!sector) {
+        throw new NotFoundException(`Sector not found: ${input.sectorId}`);
+      }
+    }
+
+    // Create domain entity (validates and normalises the term)
+    let entry: GlossaryEntry;
+    try {
+      entry = new GlossaryEntry({
+        sectorId: input.sectorId,
+        type: input.type,
+        term: input.term,
+        synonyms: input.synonyms,
+        responses: input.responses,
+      });
+    } catch (error: unknown) {
+      throw new BadRequestException(extractErrorMessage(error));
+    }
+
+    const termExists = await this.glossaryRepository.existsByTerm(
+      entry.sectorId,
+      entry.type,
+      entry.term,
+    );
+    if (termExists) {
+      throw new ConflictException(
+        `The ${entry.type} term "${entry.term}" already exists in this glossary`,
+      );
+    }
+
+    const saved = await this.glossaryRepository.save(entry);
+
+    this.eventEmitter.emit(
+      'glossary.updated',
+      new GlossaryUpdatedEvent(saved.sectorId, saved.id ?? '', new Date()),
+    );
+
+    this.logger.log(`Glossary entry created successfully: ${saved.id}`);
+    return saved;
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Inject, NotFoundException, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IGlossaryRepository } from '../../domain/repositories/glossary.repository.interface';
+import { GlossaryUpdatedEvent } from '../../domain/events/glossary.events';
+
+/**
+ * Delete Glossary Entry Use Case
+ *
+ * Removes an entry from a sector glossary (or from the global defaults).
+ * Emits 'glossary.updated' so cached glossaries are reloaded.
+ */
+@Injectable()
+export class DeleteGlossaryEntryUseCase {
+  private readonly logger = new Logger(DeleteGlossaryEntryUseCase.name);
+
+  constructor(
+    @Inject('IGlossaryRepository')
+    private readonly glossaryRepository: IGlossaryRepository,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async execute(
+    id: string,
+    sectorId: string | null,
+  ): Promise<{ id: string; message: string }> {
+    this.logger.log(`Deleting glossary entry: ${id}`);
+
+    const entry = await this.glossaryRepository.findById(id);
+    if (!entry || entry.sectorId !== sectorId) {
+      throw new NotFoundException(`Glossary entry not found: ${id}`);
+    }
+
+    await this.glossaryRepository.delete(id);
+
+    this.eventEmitter.emit(
+      'glossary.updated',
+      new GlossaryUpdatedEvent(sectorId, id, new Date()),
+    );
+
+    this.logger.log(`Glossary entry deleted successfully: ${id}`);
+    return { id, message: 'Glossary entry deleted successfully' };
+  }
+}
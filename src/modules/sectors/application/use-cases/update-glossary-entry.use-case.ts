@@ -0,0 +1,91 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { IGlossaryRepository } from '../../domain/repositories/glossary.repository.interface';
+import type { GlossaryEntry } from '../../domain/entities/glossary-entry.entity';
+import { GlossaryUpdatedEvent } from '../../domain/events/glossary.events';
+import { extractErrorMessage } from '@shared/utils';
+
+/**
+ * Input DTO for update glossary entry use case
+ */
+export interface UpdateGlossaryEntryInput {
+  id: string;
+  /** Glossary the entry must belong to (null for global defaults) */
+  sectorId: string | null;
+  term?: string;
+  synonyms?: string[];
+  responses?: Record<string, string>;
+}
+
+/**
+ * Update Glossary Entry Use Case
+ *
+ * Partially updates a glossary entry.
+ * Validates:
+ * - Entry exists in the given glossary
+ * - New term is unique per sector and type (if changed)
+ * - Domain validation rules
+ *
+ * Emits 'glossary.updated' so cached glossaries are reloaded.
+ */
+@Injectable()
+export class UpdateGlossaryEntryUseCase {
+  private readonly logger = new Logger(UpdateGlossaryEntryUseCase.name);
+
+  constructor(
+    @Inject('IGlossaryRepository')
+    private readonly glossaryRepository: IGlossaryRepository,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async execute(input: UpdateGlossaryEntryInput): Promise<GlossaryEntry> {
+    this.logger.log(`Updating glossary entry: ${input.id}`);
+
+    const entry = await this.glossaryRepository.findById(input.id);
+    if (!entry || entry.sectorId !== input.sectorId) {
+      throw new NotFoundException(`Glossary entry not found: ${input.id}`);
+    }
+
+    // Apply updates (domain entity validates business rules)
+    try {
+      entry.update({
+        term: input.term,
+        synonyms: input.synonyms,
+        responses: input.responses,
+      });
+    } catch (error: unknown) {
+      throw new BadRequestException(extractErrorMessage(error));
+    }
+
+    if (input.term !== undefined) {
+      const termExists = await this.glossaryRepository.existsByTerm(
+        entry.sectorId,
+        entry.type,
+        entry.term,
+        input.id,
+      );
+      if (termExists) {
+        throw new ConflictException(
+          `The ${entry.type} term "${entry.term}" already exists in this glossary`,
+        );
+      }
+    }
+
+    const saved = await this.glossaryRepository.save(entry);
+
+    this.eventEmitter.emit(
+      'glossary.updated',
+      new GlossaryUpdatedEvent(saved.sectorId, input.id, new Date()),
+    );
+
+    this.logger.log(`Glossary entry updated successfully: ${input.id}`);
+    return saved;
+  }
+}
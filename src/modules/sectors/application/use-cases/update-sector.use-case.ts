@@ -19,6 +19,9 @@ export interface UpdateSectorInput {
   icon?: SectorIcon;
   contactName?: string | null;
   contactPhone?: string | null;
+  hybridSearchEnabled?: boolean;
+  hybridVectorWeight?: number;
+  hybridLexicalWeight?: number;
 }
 
 /**
@@ -68,6 +71,9 @@ export class UpdateSectorUseCase {
       icon: input.icon,
       contactName: input.contactName,
       contactPhone: input.contactPhone,
+      hybridSearchEnabled: input.hybridSearchEnabled,
+      hybridVectorWeight: input.hybridVectorWeight,
+      hybridLexicalWeight: input.hybridLexicalWeight,
     });
 
     // Persist
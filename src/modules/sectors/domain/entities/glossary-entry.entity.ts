@@ -0,0 +1,166 @@
+/**
+ * Kind of glossary entry
+ * - SYNONYM: a term whose synonyms are appended to short search queries
+ * - CONVERSATIONAL: a phrase answered with a canned reply (no retrieval)
+ */
+export enum GlossaryEntryType {
+  SYNONYM = 'synonym',
+  CONVERSATIONAL = 'conversational',
+}
+
+/**
+ * Glossary Entry Entity
+ *
+ * A term the RAG assistant treats specially: either expanded with synonyms
+ * before retrieval, or recognised as a conversational phrase with per-language
+ * replies. Entries without a sector are global defaults; sector entries
+ * override a global entry with the same type and term.
+ *
+ * Business rules:
+ * - Term is stored trimmed and lowercased (matching is case-insensitive)
+ * - Term length: 1–100 characters
+ * - SYNONYM entries need at least one synonym
+ * - CONVERSATIONAL entries need at least one reply, keyed by a 2-letter language code
+ */
+export class GlossaryEntry {
+  public id?: string;
+  /** null for global defaults */
+  public sectorId: string | null;
+  public type: GlossaryEntryType;
+  public term: string;
+  public synonyms: string[];
+  /** Language code (e.g. 'es', 'en') → reply */
+  public responses: Record<string, string>;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  // Business rule constants
+  static readonly TERM_MAX_LENGTH = 100;
+  static readonly SYNONYM_MAX_LENGTH = 100;
+  static readonly MAX_SYNONYMS = 20;
+  static readonly RESPONSE_MAX_LENGTH = 500;
+  private static readonly LANGUAGE_CODE_RE = /^[a-z]{2}$/;
+
+  constructor(data: {
+    sectorId: string | null;
+    type: GlossaryEntryType;
+    term: string;
+    synonyms?: string[];
+    responses?: Record<string, string>;
+  }) {
+    const validTypes = Object.values(GlossaryEntryType) as string[];
+    if (!validTypes.includes(data.type)) {
+      throw new Error('Invalid glossary entry type');
+    }
+
+    this.sectorId = data.sectorId;
+    this.type = data.type;
+    this.term = GlossaryEntry.normalizeTerm(data.term);
+    this.synonyms = GlossaryEntry.normalizeSynonyms(data.synonyms ?? []);
+    this.responses = GlossaryEntry.normalizeResponses(data.responses ?? {});
+    this.validateContent();
+    this.createdAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  // ==================== Validation ====================
+
+  private static normalizeTerm(term: string): string {
+    const normalized = term.trim().toLowerCase();
+    if (!normalized) {
+      throw new Error('Glossary term cannot be empty');
+    }
+    if (normalized.length > GlossaryEntry.TERM_MAX_LENGTH) {
+      throw new Error(
+        `Glossary term cannot exceed ${GlossaryEntry.TERM_MAX_LENGTH} characters`,
+      );
+    }
+    return normalized;
+  }
+
+  private static normalizeSynonyms(synonyms: string[]): string[] {
+    const unique = [
+      ...new Set(synonyms.map((s) => s.trim()).filter((s) => s.length > 0)),
+    ];
+    if (unique.length > GlossaryEntry.MAX_SYNONYMS) {
+      throw new Error(
+        `A glossary term cannot have more than ${GlossaryEntry.MAX_SYNONYMS} synonyms`,
+      );
+    }
+    if (unique.some((s) => s.length > GlossaryEntry.SYNONYM_MAX_LENGTH)) {
+      throw new Error(
+        `Synonyms cannot exceed ${GlossaryEntry.SYNONYM_MAX_LENGTH} characters`,
+      );
+    }
+    return unique;
+  }
+
+  private static normalizeResponses(
+    responses: Record<string, string>,
+  ): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [language, reply] of Object.entries(responses)) {
+      const code = language.trim().toLowerCase();
+      if (!GlossaryEntry.LANGUAGE_CODE_RE.test(code)) {
+        throw new Error(`Invalid response language code: ${language}`);
+      }
+      const text = typeof reply === 'string' ? reply.trim() : '';
+      if (!text) {
+        throw new Error(`Response for language "${code}" cannot be empty`);
+      }
+      if (text.length > GlossaryEntry.RESPONSE_MAX_LENGTH) {
+        throw new Error(
+          `Responses cannot exceed ${GlossaryEntry.RESPONSE_MAX_LENGTH} characters`,
+        );
+      }
+      // eslint-disable-next-line security/detect-object-injection
+      normalized[code] = text;
+    }
+    return normalized;
+  }
+
+  private validateContent(): void {
+    if (this.type === GlossaryEntryType.SYNONYM && this.synonyms.length === 0) {
+      throw new Error('A synonym entry needs at least one synonym');
+    }
+    if (
+      this.type === GlossaryEntryType.CONVERSATIONAL &&
+      Object.keys(this.responses).length === 0
+    ) {
+      throw new Error('A conversational entry needs at least one response');
+    }
+  }
+
+  // ==================== Checks ====================
+
+  public isGlobal(): boolean {
+    return this.sectorId === null;
+  }
+
+  // ==================== Update ====================
+
+  /**
+   * Updates the entry fields
+   * Only updates fields that are provided (partial update)
+   */
+  public update(data: {
+    term?: string;
+    synonyms?: string[];
+    responses?: Record<string, string>;
+  }): void {
+    if (data.term !== undefined) {
+      this.term = GlossaryEntry.normalizeTerm(data.term);
+    }
+
+    if (data.synonyms !== undefined) {
+      this.synonyms = GlossaryEntry.normalizeSynonyms(data.synonyms);
+    }
+
+    if (data.responses !== undefined) {
+      this.responses = GlossaryEntry.normalizeResponses(data.responses);
+    }
+
+    this.validateContent();
+    this.updatedAt = new Date();
+  }
+}
@@ -12,6 +12,7 @@ import { SectorStatus, SectorIcon } from '@shared/types';
  * - Description length: 10–500 characters
  * - Status is ACTIVE by default
  * - Cannot delete a sector with associated documents
+ * - Hybrid search fusion weights are within 0–1 (disabled by default)
  */
 export class Sector {
   public id?: string;
@@ -21,6 +22,12 @@ export class Sector {
   public status: SectorStatus;
   public contactName: string | null;
   public contactPhone: string | null;
+  /** Run full-text search alongside vector search in the RAG flow */
+  public hybridSearchEnabled: boolean;
+  /** Reciprocal rank fusion weight of the vector ranking */
+  public hybridVectorWeight: number;
+  /** Reciprocal rank fusion weight of the full-text ranking */
+  public hybridLexicalWeight: number;
   public createdAt: Date;
   public updatedAt: Date;
 
@@ -29,6 +36,9 @@ export class Sector {
   static readonly NAME_MAX_LENGTH = 100;
   static readonly DESC_MIN_LENGTH = 10;
   static readonly DESC_MAX_LENGTH = 500;
+  static readonly FUSION_WEIGHT_MIN = 0;
+  static readonly FUSION_WEIGHT_MAX = 1;
+  static readonly DEFAULT_FUSION_WEIGHT = 1;
 
   constructor(data: {
     name: string;
@@ -36,6 +46,9 @@ export class Sector {
     icon: SectorIcon;
     contactName?: string | null;
     contactPhone?: string | null;
+    hybridSearchEnabled?: boolean;
+    hybridVectorWeight?: number;
+    hybridLexicalWeight?: number;
   }) {
     this.validate(data);
 
@@ -45,6 +58,13 @@ export class Sector {
     this.status = SectorStatus.ACTIVE;
     this.contactName = data.contactName?.trim() || null;
     this.contactPhone = data.contactPhone?.trim() || null;
+    this.hybridSearchEnabled = data.hybridSearchEnabled ?? false;
+    this.hybridVectorWeight = Sector.validateFusionWeight(
+      data.hybridVectorWeight ?? Sector.DEFAULT_FUSION_WEIGHT,
+    );
+    this.hybridLexicalWeight = Sector.validateFusionWeight(
+      data.hybridLexicalWeight ?? Sector.DEFAULT_FUSION_WEIGHT,
+    );
     this.createdAt = new Date();
     this.updatedAt = new Date();
   }
@@ -92,6 +112,19 @@ export class Sector {
     }
   }
 
+  private static validateFusionWeight(weight: number): number {
+    if (
+      !Number.isFinite(weight) ||
+      weight < Sector.FUSION_WEIGHT_MIN ||
+      weight > Sector.FUSION_WEIGHT_MAX
+    ) {
+      throw new Error(
+        `Hybrid search weight must be between ${Sector.FUSION_WEIGHT_MIN} and ${Sector.FUSION_WEIGHT_MAX}`,
+      );
+    }
+    return weight;
+  }
+
   // ==================== Status Management ====================
 
   /**
@@ -143,6 +176,9 @@ export class Sector {
     icon?: SectorIcon;
     contactName?: string | null;
     contactPhone?: string | null;
+    hybridSearchEnabled?: boolean;
+    hybridVectorWeight?: number;
+    hybridLexicalWeight?: number;
   }): void {
     if (data.name !== undefined) {
       const trimmed = data.name.trim();
@@ -190,6 +226,33 @@ export class Sector {
       this.contactPhone = data.contactPhone?.trim() || null;
     }
 
+    this.updateHybridSearch(data);
+
     this.updatedAt = new Date();
   }
+
+  /**
+   * Updates the hybrid search settings (partial update)
+   */
+  private updateHybridSearch(data: {
+    hybridSearchEnabled?: boolean;
+    hybridVectorWeight?: number;
+    hybridLexicalWeight?: number;
+  }): void {
+    if (data.hybridSearchEnabled !== undefined) {
+      this.hybridSearchEnabled = data.hybridSearchEnabled;
+    }
+
+    if (data.hybridVectorWeight !== undefined) {
+      this.hybridVectorWeight = Sector.validateFusionWeight(
+        data.hybridVectorWeight,
+      );
+    }
+
+    if (data.hybridLexicalWeight !== undefined) {
+      this.hybridLexicalWeight = Sector.validateFusionWeight(
+        data.hybridLexicalWeight,
+      );
+    }
+  }
 }
@@ -0,0 +1,14 @@
+/**
+ * Glossary Domain Events
+ *
+ * Emitted when an admin changes a glossary so cached copies can be dropped.
+ */
+
+export class GlossaryUpdatedEvent {
+  constructor(
+    /** null when the global defaults changed (affects every sector) */
+    public readonly sectorId: string | null,
+    public readonly entryId: string,
+    public readonly updatedAt: Date,
+  ) {}
+}
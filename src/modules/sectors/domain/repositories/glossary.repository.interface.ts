@@ -0,0 +1,62 @@
+import type {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../entities/glossary-entry.entity';
+
+/**
+ * IGlossaryRepository Interface
+ *
+ * Defines the contract for glossary entry persistence operations.
+ * A null sectorId always refers to the global defaults.
+ */
+export interface IGlossaryRepository {
+  /**
+   * Saves a glossary entry (create or update)
+   * @param entry - The entry to save
+   * @returns The saved entry with assigned ID
+   */
+  save(entry: GlossaryEntry): Promise<GlossaryEntry>;
+
+  /**
+   * Finds an entry by ID
+   * @param id - The entry ID
+   * @returns The entry or null if not found
+   */
+  findById(id: string): Promise<GlossaryEntry | null>;
+
+  /**
+   * Finds the entries of a sector (or the global defaults), ordered by term
+   * @param sectorId - The sector ID, or null for global entries
+   * @param type - Optional type filter
+   */
+  findBySector(
+    sectorId: string | null,
+    type?: GlossaryEntryType,
+  ): Promise<GlossaryEntry[]>;
+
+  /**
+   * Finds the global defaults plus the entries of a sector in one query
+   * @param sectorId - The sector ID
+   */
+  findEffective(sectorId: string): Promise<GlossaryEntry[]>;
+
+  /**
+   * Checks whether a term already exists for the sector and type
+   * @param sectorId - The sector ID, or null for global entries
+   * @param type - Entry type
+   * @param term - Normalised term
+   * @param excludeId - Optional entry ID to exclude from the check
+   */
+  existsByTerm(
+    sectorId: string | null,
+    type: GlossaryEntryType,
+    term: string,
+    excludeId?: string,
+  ): Promise<boolean>;
+
+  /**
+   * Deletes an entry by ID (hard delete)
+   * @param id - The entry ID
+   */
+  delete(id: string): Promise<void>;
+}
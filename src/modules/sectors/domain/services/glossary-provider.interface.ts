@@ -0,0 +1,33 @@
+/**
+ * Effective glossary of a sector: global defaults overridden by the
+ * sector's own entries. Keys are normalised (lowercased) terms.
+ */
+export interface SectorGlossary {
+  /** term → synonyms appended to short search queries */
+  synonyms: ReadonlyMap<string, readonly string[]>;
+  /** phrase → language code → canned reply */
+  conversationalResponses: ReadonlyMap<
+    string,
+    Readonly<Record<string, string>>
+  >;
+}
+
+/**
+ * Glossary Provider Interface
+ *
+ * Read side of the glossary used by the RAG flow on every query, so
+ * implementations are expected to cache.
+ */
+export interface IGlossaryProvider {
+  /**
+   * Returns the effective glossary of a sector
+   */
+  getGlossary(sectorId: string): Promise<SectorGlossary>;
+
+  /**
+   * Drops cached glossaries
+   * @param sectorId - The sector whose glossary changed, or null when the
+   *   global defaults changed (drops every sector)
+   */
+  invalidate(sectorId: string | null): void;
+}
@@ -0,0 +1,103 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { readNumberEnv } from '@shared/utils';
+import type { IGlossaryRepository } from '../../domain/repositories/glossary.repository.interface';
+import {
+  GlossaryEntryType,
+  type GlossaryEntry,
+} from '../../domain/entities/glossary-entry.entity';
+import type {
+  IGlossaryProvider,
+  SectorGlossary,
+} from '../../domain/services/glossary-provider.interface';
+
+const DEFAULT_TTL_SECONDS = 300;
+const MS_PER_SECOND = 1000;
+
+interface CacheEntry {
+  glossary: Promise<SectorGlossary>;
+  expiresAt: number;
+}
+
+/**
+ * Builds the effective glossary: global entries first, then sector entries,
+ * so a sector entry replaces a global one with the same type and term.
+ */
+function buildGlossary(entries: GlossaryEntry[]): SectorGlossary {
+  const ordered = [
+    ...entries.filter((entry) => entry.isGlobal()),
+    ...entries.filter((entry) => !entry.isGlobal()),
+  ];
+
+  const synonyms = new Map<string, readonly string[]>();
+  const conversationalResponses = new Map<
+    string,
+    Readonly<Record<string, string>>
+  >();
+  for (const entry of ordered) {
+    if (entry.type === GlossaryEntryType.SYNONYM) {
+      synonyms.set(entry.term, entry.synonyms);
+    } else {
+      conversationalResponses.set(entry.term, entry.responses);
+    }
+  }
+
+  return { synonyms, conversationalResponses };
+}
+
+/**
+ * Cached glossary provider
+ *
+ * Loads the effective glossary of a sector with one query and keeps it in
+ * process memory. Entries are dropped on 'glossary.updated' events and also
+ * expire after a TTL, which bounds staleness across instances.
+ *
+ * Configuration:
+ * - RAG_GLOSSARY_CACHE_TTL_SECONDS: cache lifetime (default 5 min)
+ */
+@Injectable()
+export class CachedGlossaryProvider implements IGlossaryProvider {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly ttlMs: number;
+
+  constructor(
+    @Inject('IGlossaryRepository')
+    private readonly glossaryRepository: IGlossaryRepository,
+  ) {
+    this.ttlMs =
+      readNumberEnv('RAG_GLOSSARY_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) *
+      MS_PER_SECOND;
+  }
+
+  getGlossary(sectorId: string): Promise<SectorGlossary> {
+    const cached = this.cache.get(sectorId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.glossary;
+    }
+
+    // Cache the pending load so concurrent queries share one DB round-trip
+    const glossary = this.glossaryRepository
+      .findEffective(sectorId)
+      .then(buildGlossary);
+    const entry: CacheEntry = {
+      glossary,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.cache.set(sectorId, entry);
+    glossary.catch(() => {
+      // Failed loads are retried on the next query
+      if (this.cache.get(sectorId) === entry) {
+        this.cache.delete(sectorId);
+      }
+    });
+
+    return glossary;
+  }
+
+  invalidate(sectorId: string | null): void {
+    if (sectorId === null) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(sectorId);
+    }
+  }
+}
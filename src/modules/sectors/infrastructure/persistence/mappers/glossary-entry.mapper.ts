@@ -0,0 +1,56 @@
+import { GlossaryEntry } from '@modules/sectors/domain/entities/glossary-entry.entity';
+import { GlossaryEntryModel } from '@modules/sectors/infrastructure/persistence/models/glossary-entry.model';
+
+/**
+ * Glossary Entry Mapper
+ *
+ * Converts between domain entities and TypeORM models.
+ */
+export class GlossaryEntryMapper {
+  /**
+   * Converts TypeORM model to domain entity
+   */
+  static toDomain(model: GlossaryEntryModel): GlossaryEntry {
+    const entry = new GlossaryEntry({
+      sectorId: model.sectorId,
+      type: model.type,
+      term: model.term,
+      synonyms: model.synonyms,
+      responses: model.responses,
+    });
+
+    // Hydrate persisted fields
+    entry.id = model.id;
+    entry.createdAt = model.createdAt;
+    entry.updatedAt = model.updatedAt;
+
+    return entry;
+  }
+
+  /**
+   * Converts domain entity to TypeORM model
+   */
+  static toModel(entity: GlossaryEntry): GlossaryEntryModel {
+    const model = new GlossaryEntryModel();
+
+    if (entity.id) {
+      model.id = entity.id;
+    }
+    model.sectorId = entity.sectorId;
+    model.type = entity.type;
+    model.term = entity.term;
+    model.synonyms = entity.synonyms;
+    model.responses = entity.responses;
+    model.createdAt = entity.createdAt;
+    model.updatedAt = entity.updatedAt;
+
+    return model;
+  }
+
+  /**
+   * Converts array of TypeORM models to domain entities
+   */
+  static toDomainArray(models: GlossaryEntryModel[]): GlossaryEntry[] {
+    return models.map((model) => this.toDomain(model));
+  }
+}
@@ -18,6 +18,9 @@ export class SectorMapper {
       icon: model.icon,
       contactName: model.contactName,
       contactPhone: model.contactPhone,
+      hybridSearchEnabled: model.hybridSearchEnabled,
+      hybridVectorWeight: model.hybridVectorWeight,
+      hybridLexicalWeight: model.hybridLexicalWeight,
     });
 
     // Hydrate persisted fields
@@ -51,6 +54,9 @@ export class SectorMapper {
     model.status = entity.status;
     model.contactName = entity.contactName;
     model.contactPhone = entity.contactPhone;
+    model.hybridSearchEnabled = entity.hybridSearchEnabled;
+    model.hybridVectorWeight = entity.hybridVectorWeight;
+    model.hybridLexicalWeight = entity.hybridLexicalWeight;
     model.createdAt = entity.createdAt;
     model.updatedAt = entity.updatedAt;
 
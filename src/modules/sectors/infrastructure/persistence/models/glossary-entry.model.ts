@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { GlossaryEntryType } from '../../../domain/entities/glossary-entry.entity';
+
+/**
+ * TypeORM Model for GlossaryEntry
+ *
+ * Maps the domain entity to the `glossary_entries` database table.
+ * Rows with a NULL sector_id are the global defaults.
+ */
+@Entity('glossary_entries')
+@Index(['sectorId', 'type'])
+export class GlossaryEntryModel {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'sector_id', type: 'uuid', nullable: true })
+  sectorId: string | null = null;
+
+  @Column({ type: 'varchar', length: 20 })
+  type!: GlossaryEntryType;
+
+  @Column({ type: 'varchar', length: 100 })
+  term!: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  synonyms: string[] = [];
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  responses: Record<string, string> = {};
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date = new Date();
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date = new Date();
+}
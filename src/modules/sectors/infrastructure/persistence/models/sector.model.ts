@@ -63,6 +63,19 @@ export class SectorModel {
   })
   contactPhone: string | null = null;
 
+  @Column({
+    name: 'hybrid_search_enabled',
+    type: 'boolean',
+    default: false,
+  })
+  hybridSearchEnabled: boolean = false;
+
+  @Column({ name: 'hybrid_vector_weight', type: 'real', default: 1 })
+  hybridVectorWeight: number = 1;
+
+  @Column({ name: 'hybrid_lexical_weight', type: 'real', default: 1 })
+  hybridLexicalWeight: number = 1;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date = new Date();
 
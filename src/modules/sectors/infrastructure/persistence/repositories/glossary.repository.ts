@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import type { IGlossaryRepository } from '../../../domain/repositories/glossary.repository.interface';
+import type {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../domain/entities/glossary-entry.entity';
+import { GlossaryEntryModel } from '../models/glossary-entry.model';
+import { GlossaryEntryMapper } from '../mappers/glossary-entry.mapper';
+
+/**
+ * TypeORM Glossary Repository Implementation
+ *
+ * Implements the IGlossaryRepository interface using TypeORM.
+ * A null sectorId is translated to `IS NULL` (global defaults).
+ */
+@Injectable()
+export class GlossaryRepository implements IGlossaryRepository {
+  constructor(
+    @InjectRepository(GlossaryEntryModel)
+    private readonly repository: Repository<GlossaryEntryModel>,
+  ) {}
+
+  async save(entry: GlossaryEntry): Promise<GlossaryEntry> {
+    const model = GlossaryEntryMapper.toModel(entry);
+    const saved = await this.repository.save(model);
+    return GlossaryEntryMapper.toDomain(saved);
+  }
+
+  async findById(id: string): Promise<GlossaryEntry | null> {
+    const model = await this.repository.findOne({ where: { id } });
+    return model ? GlossaryEntryMapper.toDomain(model) : null;
+  }
+
+  async findBySector(
+    sectorId: string | null,
+    type?: GlossaryEntryType,
+  ): Promise<GlossaryEntry[]> {
+    const models = await this.repository.find({
+      where: {
+        sectorId: sectorId ?? IsNull(),
+        ...(type && { type }),
+      },
+      order: { type: 'ASC', term: 'ASC' },
+    });
+    return GlossaryEntryMapper.toDomainArray(models);
+  }
+
+  async findEffective(sectorId: string): Promise<GlossaryEntry[]> {
+    const models = await this.repository.find({
+      where: [{ sectorId: IsNull() }, { sectorId }],
+      order: { term: 'ASC' },
+    });
+    return GlossaryEntryMapper.toDomainArray(models);
+  }
+
+  async existsByTerm(
+    sectorId: string | null,
+    type: GlossaryEntryType,
+    term: string,
+    excludeId?: string,
+  ): Promise<boolean> {
+    const query = this.repository
+      .createQueryBuilder('entry')
+      .where('entry.type = :type', { type })
+      .andWhere('entry.term = :term', { term });
+
+    if (sectorId) {
+      query.andWhere('entry.sector_id = :sectorId', { sectorId });
+    } else {
+      query.andWhere('entry.sector_id IS NULL');
+    }
+
+    if (excludeId) {
+      query.andWhere('entry.id != :excludeId', { excludeId });
+    }
+
+    const count = await query.getCount();
+    return count > 0;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
+}
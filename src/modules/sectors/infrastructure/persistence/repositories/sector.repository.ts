@@ -47,6 +47,9 @@ export class SectorRepository implements ISectorRepository {
     existing.status = sector.status;
     existing.contactName = sector.contactName;
     existing.contactPhone = sector.contactPhone;
+    existing.hybridSearchEnabled = sector.hybridSearchEnabled;
+    existing.hybridVectorWeight = sector.hybridVectorWeight;
+    existing.hybridLexicalWeight = sector.hybridLexicalWeight;
     existing.updatedAt = sector.updatedAt;
     const saved = await this.repository.save(existing);
     return SectorMapper.toDomain(saved);
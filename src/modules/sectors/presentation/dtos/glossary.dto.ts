@@ -0,0 +1,187 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsObject,
+  ArrayMaxSize,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { GlossaryEntryType } from '../../domain/entities/glossary-entry.entity';
+
+// Validation constants (aligned with domain entity)
+const TERM_MIN = 1;
+const TERM_MAX = 100;
+const SYNONYMS_MAX = 20;
+const SYNONYM_MAX_LENGTH = 100;
+
+// Example values
+const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const EXAMPLE_SYNONYMS = ['días libres', 'PTO', 'vacation'];
+const EXAMPLE_RESPONSES = {
+  es: '¡Con gusto! ¿Hay algo más en lo que pueda ayudarte?',
+  en: "You're welcome! Anything else I can help with?",
+};
+const SYNONYMS_DESC =
+  'Terms appended to short queries containing the term (synonym entries)';
+const RESPONSES_DESC =
+  'Replies keyed by 2-letter language code (conversational entries)';
+
+/**
+ * DTO for creating a glossary entry
+ */
+export class CreateGlossaryEntryDto {
+  @ApiProperty({
+    description: 'Entry type',
+    enum: GlossaryEntryType,
+    example: GlossaryEntryType.SYNONYM,
+  })
+  @IsEnum(GlossaryEntryType)
+  type!: GlossaryEntryType;
+
+  @ApiProperty({
+    description:
+      'Term to detect in queries, or conversational phrase (case-insensitive, unique per type)',
+    example: 'vacaciones',
+    minLength: TERM_MIN,
+    maxLength: TERM_MAX,
+  })
+  @IsString()
+  @MinLength(TERM_MIN)
+  @MaxLength(TERM_MAX)
+  term!: string;
+
+  @ApiPropertyOptional({
+    description: SYNONYMS_DESC,
+    type: [String],
+    example: EXAMPLE_SYNONYMS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNONYMS_MAX)
+  @IsString({ each: true })
+  @MaxLength(SYNONYM_MAX_LENGTH, { each: true })
+  synonyms?: string[];
+
+  @ApiPropertyOptional({
+    description: RESPONSES_DESC,
+    example: EXAMPLE_RESPONSES,
+  })
+  @IsOptional()
+  @IsObject()
+  responses?: Record<string, string>;
+}
+
+/**
+ * DTO for updating a glossary entry (partial; the type cannot change)
+ */
+export class UpdateGlossaryEntryDto {
+  @ApiPropertyOptional({
+    description: 'Term to detect in queries, or conversational phrase',
+    example: 'vacaciones',
+    minLength: TERM_MIN,
+    maxLength: TERM_MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(TERM_MIN)
+  @MaxLength(TERM_MAX)
+  term?: string;
+
+  @ApiPropertyOptional({
+    description: `${SYNONYMS_DESC} — replaces the current list`,
+    type: [String],
+    example: EXAMPLE_SYNONYMS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNONYMS_MAX)
+  @IsString({ each: true })
+  @MaxLength(SYNONYM_MAX_LENGTH, { each: true })
+  synonyms?: string[];
+
+  @ApiPropertyOptional({
+    description: `${RESPONSES_DESC} — replaces the current replies`,
+    example: EXAMPLE_RESPONSES,
+  })
+  @IsOptional()
+  @IsObject()
+  responses?: Record<string, string>;
+}
+
+/**
+ * Query parameters for listing glossary entries
+ */
+export class ListGlossaryQueryDto {
+  @ApiPropertyOptional({
+    enum: GlossaryEntryType,
+    description: 'Filter by type',
+  })
+  @IsOptional()
+  @IsEnum(GlossaryEntryType)
+  type?: GlossaryEntryType;
+}
+
+/**
+ * DTO for glossary entry response
+ */
+export class GlossaryEntryResponseDto {
+  @ApiProperty({ description: 'Entry ID', example: EXAMPLE_UUID })
+  id!: string;
+
+  @ApiProperty({
+    description: 'Sector ID (null for global defaults)',
+    example: EXAMPLE_UUID,
+    nullable: true,
+    type: String,
+  })
+  sectorId!: string | null;
+
+  @ApiProperty({
+    description: 'Entry type',
+    enum: GlossaryEntryType,
+    example: GlossaryEntryType.SYNONYM,
+  })
+  type!: GlossaryEntryType;
+
+  @ApiProperty({ description: 'Normalised term', example: 'vacaciones' })
+  term!: string;
+
+  @ApiProperty({
+    description: SYNONYMS_DESC,
+    type: [String],
+    example: EXAMPLE_SYNONYMS,
+  })
+  synonyms!: string[];
+
+  @ApiProperty({ description: RESPONSES_DESC, example: {} })
+  responses!: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Creation date',
+    example: '2024-01-20T00:00:00.000Z',
+  })
+  createdAt!: string;
+
+  @ApiProperty({
+    description: 'Last update date',
+    example: '2025-12-15T00:00:00.000Z',
+  })
+  updatedAt!: string;
+}
+
+/**
+ * DTO for delete glossary entry response
+ */
+export class DeleteGlossaryEntryResponseDto {
+  @ApiProperty({ description: 'Deleted entry ID', example: EXAMPLE_UUID })
+  id!: string;
+
+  @ApiProperty({
+    description: 'Deletion message',
+    example: 'Glossary entry deleted successfully',
+  })
+  message!: string;
+}
@@ -3,6 +3,10 @@ import {
   IsString,
   IsEnum,
   IsOptional,
+  IsBoolean,
+  IsNumber,
+  Min,
+  Max,
   MinLength,
   MaxLength,
 } from 'class-validator';
@@ -17,6 +21,9 @@ const CONTACT_NAME_MAX = 150;
 const CONTACT_PHONE_MAX = 30;
 const CONTACT_NAME_EXAMPLE = 'María García';
 const CONTACT_PHONE_EXAMPLE = '+34 612 345 678';
+const FUSION_WEIGHT_MIN = 0;
+const FUSION_WEIGHT_MAX = 1;
+const FUSION_WEIGHT_EXAMPLE = 0.5;
 
 // Example values
 const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
@@ -134,6 +141,40 @@ export class UpdateSectorDto {
   @IsString()
   @MaxLength(CONTACT_PHONE_MAX)
   contactPhone?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Run full-text (keyword) search alongside vector search for this sector. ' +
+      'Helps exact-term queries such as policy codes or acronyms.',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hybridSearchEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Reciprocal rank fusion weight of the vector ranking (0-1)',
+    example: 1,
+    minimum: FUSION_WEIGHT_MIN,
+    maximum: FUSION_WEIGHT_MAX,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(FUSION_WEIGHT_MIN)
+  @Max(FUSION_WEIGHT_MAX)
+  hybridVectorWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Reciprocal rank fusion weight of the full-text ranking (0-1)',
+    example: FUSION_WEIGHT_EXAMPLE,
+    minimum: FUSION_WEIGHT_MIN,
+    maximum: FUSION_WEIGHT_MAX,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(FUSION_WEIGHT_MIN)
+  @Max(FUSION_WEIGHT_MAX)
+  hybridLexicalWeight?: number;
 }
 
 /**
@@ -195,6 +236,24 @@ export class SectorResponseDto {
     example: CONTACT_PHONE_EXAMPLE,
   })
   contactPhone?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether hybrid (full-text + vector) retrieval is enabled',
+    example: false,
+  })
+  hybridSearchEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Reciprocal rank fusion weight of the vector ranking',
+    example: 1,
+  })
+  hybridVectorWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Reciprocal rank fusion weight of the full-text ranking',
+    example: FUSION_WEIGHT_EXAMPLE,
+  })
+  hybridLexicalWeight?: number;
 }
 
 /**
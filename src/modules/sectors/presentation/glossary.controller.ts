@@ -0,0 +1,285 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Inject,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { CreateGlossaryEntryUseCase } from '../application/use-cases/create-glossary-entry.use-case';
+import { UpdateGlossaryEntryUseCase } from '../application/use-cases/update-glossary-entry.use-case';
+import { DeleteGlossaryEntryUseCase } from '../application/use-cases/delete-glossary-entry.use-case';
+import type { IGlossaryRepository } from '../domain/repositories/glossary.repository.interface';
+import {
+  CreateGlossaryEntryDto,
+  UpdateGlossaryEntryDto,
+  ListGlossaryQueryDto,
+  GlossaryEntryResponseDto,
+  DeleteGlossaryEntryResponseDto,
+} from './dtos/glossary.dto';
+import { GlossaryDtoMapper } from './mappers/glossary-dto.mapper';
+import { RequireRoles } from '../../auth/decorators/require-roles.decorator';
+import { isValidUUID } from '@shared/validators';
+import { extractErrorMessage, extractErrorStack } from '@shared/utils';
+
+/** Path value addressing the global (all-sector) defaults */
+const GLOBAL_GLOSSARY = 'global';
+
+// API description constants
+const API_AUTH_DESC = 'Authentication required - Missing or invalid JWT token';
+const API_FORBIDDEN_DESC = 'Access denied - Requires admin role';
+const API_PARAM_SECTOR_DESC = `Sector UUID, or "${GLOBAL_GLOSSARY}" for the defaults shared by all sectors`;
+const API_PARAM_ENTRY_DESC = 'Glossary entry UUID';
+const API_ENTRY_NOT_FOUND_DESC = 'Glossary entry not found';
+
+// Example UUID for documentation
+const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Glossary Controller
+ *
+ * Admin management of the synonyms and conversational phrases used by the
+ * RAG assistant. Sector entries override global entries with the same
+ * type and term. All endpoints require admin role.
+ *
+ * Endpoints:
+ * - GET    /sectors/:id/glossary            → List entries
+ * - POST   /sectors/:id/glossary            → Create an entry
+ * - PATCH  /sectors/:id/glossary/:entryId   → Update an entry
+ * - DELETE /sectors/:id/glossary/:entryId   → Delete an entry
+ *
+ * `:id` is a sector UUID or "global".
+ */
+@ApiTags('Sectors')
+@ApiBearerAuth()
+@Controller('sectors/:id/glossary')
+export class GlossaryController {
+  private readonly logger = new Logger(GlossaryController.name);
+
+  constructor(
+    private readonly createGlossaryEntryUseCase: CreateGlossaryEntryUseCase,
+    private readonly updateGlossaryEntryUseCase: UpdateGlossaryEntryUseCase,
+    private readonly deleteGlossaryEntryUseCase: DeleteGlossaryEntryUseCase,
+    @Inject('IGlossaryRepository')
+    private readonly glossaryRepository: IGlossaryRepository,
+  ) {}
+
+  // ==================== LIST ENTRIES ====================
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequireRoles('admin')
+  @ApiOperation({
+    summary: 'List glossary entries',
+    description:
+      'Returns the entries defined for the sector (not the inherited global defaults), optionally filtered by type.\n\n**Required Role:** admin',
+  })
+  @ApiParam({ name: 'id', description: API_PARAM_SECTOR_DESC })
+  @ApiResponse({
+    status: 200,
+    description: 'List of glossary entries',
+    type: [GlossaryEntryResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async listEntries(
+    @Param('id') id: string,
+    @Query() query: ListGlossaryQueryDto,
+  ): Promise<GlossaryEntryResponseDto[]> {
+    const sectorId = this.resolveSectorId(id);
+    this.logger.log(`List glossary: ${id}`);
+
+    try {
+      const entries = await this.glossaryRepository.findBySector(
+        sectorId,
+        query.type,
+      );
+      return GlossaryDtoMapper.toResponseList(entries);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to list glossary: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  // ==================== CREATE ENTRY ====================
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireRoles('admin')
+  @ApiOperation({
+    summary: 'Create a glossary entry',
+    description:
+      'Adds a synonym term or a conversational phrase. Synonym entries need `synonyms`; conversational entries need `responses`.\n\n**Required Role:** admin',
+  })
+  @ApiParam({ name: 'id', description: API_PARAM_SECTOR_DESC })
+  @ApiResponse({
+    status: 201,
+    description: 'Glossary entry created',
+    type: GlossaryEntryResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 404, description: 'Sector not found' })
+  @ApiResponse({ status: 409, description: 'Term already exists' })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async createEntry(
+    @Param('id') id: string,
+    @Body() dto: CreateGlossaryEntryDto,
+  ): Promise<GlossaryEntryResponseDto> {
+    const sectorId = this.resolveSectorId(id);
+    this.logger.log(`Create glossary entry in ${id}: ${dto.term}`);
+
+    try {
+      const entry = await this.createGlossaryEntryUseCase.execute({
+        sectorId,
+        type: dto.type,
+        term: dto.term,
+        synonyms: dto.synonyms,
+        responses: dto.responses,
+      });
+
+      return GlossaryDtoMapper.toResponse(entry);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to create glossary entry: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  // ==================== UPDATE ENTRY ====================
+
+  @Patch(':entryId')
+  @HttpCode(HttpStatus.OK)
+  @RequireRoles('admin')
+  @ApiOperation({
+    summary: 'Update a glossary entry',
+    description:
+      'Partially updates an entry. The entry type cannot be changed.\n\n**Required Role:** admin',
+  })
+  @ApiParam({ name: 'id', description: API_PARAM_SECTOR_DESC })
+  @ApiParam({
+    name: 'entryId',
+    description: API_PARAM_ENTRY_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Glossary entry updated',
+    type: GlossaryEntryResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 404, description: API_ENTRY_NOT_FOUND_DESC })
+  @ApiResponse({ status: 409, description: 'Term already exists' })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async updateEntry(
+    @Param('id') id: string,
+    @Param('entryId') entryId: string,
+    @Body() dto: UpdateGlossaryEntryDto,
+  ): Promise<GlossaryEntryResponseDto> {
+    const sectorId = this.resolveSectorId(id);
+    this.validateUUID(entryId, 'entryId');
+    this.logger.log(`Update glossary entry: ${entryId}`);
+
+    try {
+      const entry = await this.updateGlossaryEntryUseCase.execute({
+        id: entryId,
+        sectorId,
+        term: dto.term,
+        synonyms: dto.synonyms,
+        responses: dto.responses,
+      });
+
+      return GlossaryDtoMapper.toResponse(entry);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to update glossary entry: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  // ==================== DELETE ENTRY ====================
+
+  @Delete(':entryId')
+  @HttpCode(HttpStatus.OK)
+  @RequireRoles('admin')
+  @ApiOperation({
+    summary: 'Delete a glossary entry',
+    description:
+      'Deletes an entry. Deleting a sector entry makes the global entry with the same term apply again.\n\n**Required Role:** admin',
+  })
+  @ApiParam({ name: 'id', description: API_PARAM_SECTOR_DESC })
+  @ApiParam({
+    name: 'entryId',
+    description: API_PARAM_ENTRY_DESC,
+    example: EXAMPLE_UUID,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Glossary entry deleted',
+    type: DeleteGlossaryEntryResponseDto,
+  })
+  @ApiResponse({ status: 404, description: API_ENTRY_NOT_FOUND_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async deleteEntry(
+    @Param('id') id: string,
+    @Param('entryId') entryId: string,
+  ): Promise<DeleteGlossaryEntryResponseDto> {
+    const sectorId = this.resolveSectorId(id);
+    this.validateUUID(entryId, 'entryId');
+    this.logger.log(`Delete glossary entry: ${entryId}`);
+
+    try {
+      return await this.deleteGlossaryEntryUseCase.execute(entryId, sectorId);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to delete glossary entry: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  // ==================== Private Helpers ====================
+
+  /**
+   * Maps the `:id` path segment to a sector ID (null for global defaults)
+   */
+  private resolveSectorId(id: string): string | null {
+    if (id === GLOBAL_GLOSSARY) {
+      return null;
+    }
+    this.validateUUID(id, 'id');
+    return id;
+  }
+
+  private validateUUID(value: string, fieldName: string): void {
+    if (!isValidUUID(value)) {
+      throw new BadRequestException(`${fieldName} must be a valid UUID`);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { GlossaryEntry } from '../../domain/entities/glossary-entry.entity';
+import type { GlossaryEntryResponseDto } from '../dtos/glossary.dto';
+
+/**
+ * Maps GlossaryEntry domain entities to presentation DTOs.
+ */
+export class GlossaryDtoMapper {
+  /**
+   * Map a GlossaryEntry domain entity → GlossaryEntryResponseDto
+   */
+  static toResponse(entry: GlossaryEntry): GlossaryEntryResponseDto {
+    return {
+      id: entry.id ?? '',
+      sectorId: entry.sectorId,
+      type: entry.type,
+      term: entry.term,
+      synonyms: entry.synonyms,
+      responses: entry.responses,
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Map an array of GlossaryEntries → GlossaryEntryResponseDto[]
+   */
+  static toResponseList(entries: GlossaryEntry[]): GlossaryEntryResponseDto[] {
+    return entries.map((entry) => GlossaryDtoMapper.toResponse(entry));
+  }
+}
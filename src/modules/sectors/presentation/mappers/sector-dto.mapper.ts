@@ -25,6 +25,9 @@ export class SectorDtoMapper {
       documentCount,
       contactName: sector.contactName,
       contactPhone: sector.contactPhone,
+      hybridSearchEnabled: sector.hybridSearchEnabled,
+      hybridVectorWeight: sector.hybridVectorWeight,
+      hybridLexicalWeight: sector.hybridLexicalWeight,
       createdAt: sector.createdAt.toISOString(),
       updatedAt: sector.updatedAt.toISOString(),
     };
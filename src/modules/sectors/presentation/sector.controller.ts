@@ -247,6 +247,9 @@ export class SectorController {
         icon: dto.icon,
         contactName: dto.contactName,
         contactPhone: dto.contactPhone,
+        hybridSearchEnabled: dto.hybridSearchEnabled,
+        hybridVectorWeight: dto.hybridVectorWeight,
+        hybridLexicalWeight: dto.hybridLexicalWeight,
       });
 
       const documentCount =
@@ -3,16 +3,28 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 // Presentation
 import { SectorController } from './presentation/sector.controller';
+import { GlossaryController } from './presentation/glossary.controller';
 
 // Application - Use Cases
 import { CreateSectorUseCase } from './application/use-cases/create-sector.use-case';
 import { UpdateSectorUseCase } from './application/use-cases/update-sector.use-case';
 import { DeleteSectorUseCase } from './application/use-cases/delete-sector.use-case';
 import { ToggleSectorStatusUseCase } from './application/use-cases/toggle-sector-status.use-case';
+import { CreateGlossaryEntryUseCase } from './application/use-cases/create-glossary-entry.use-case';
+import { UpdateGlossaryEntryUseCase } from './application/use-cases/update-glossary-entry.use-case';
+import { DeleteGlossaryEntryUseCase } from './application/use-cases/delete-glossary-entry.use-case';
+
+// Application - Listeners
+import { GlossaryCacheInvalidationListener } from './application/listeners/glossary-cache-invalidation.listener';
 
 // Infrastructure - Persistence
 import { SectorModel } from './infrastructure/persistence/models/sector.model';
 import { SectorRepository } from './infrastructure/persistence/repositories/sector.repository';
+import { GlossaryEntryModel } from './infrastructure/persistence/models/glossary-entry.model';
+import { GlossaryRepository } from './infrastructure/persistence/repositories/glossary.repository';
+
+// Infrastructure - Cache
+import { CachedGlossaryProvider } from './infrastructure/cache/cached-glossary.provider';
 
 // Knowledge Module (for document count checking)
 import { KnowledgeModule } from '../knowledge/knowledge.module';
@@ -20,40 +32,55 @@ import { KnowledgeModule } from '../knowledge/knowledge.module';
 /**
  * Sectors Module
  *
- * Manages the lifecycle of knowledge sectors.
+ * Manages the lifecycle of knowledge sectors and their glossaries
+ * (synonyms and conversational phrases used by the RAG assistant).
  * Implements Clean Architecture with clear layer separation.
  *
  * Layers:
- * - Presentation: Controller (HTTP endpoints)
- * - Application: Use Cases (create, update, delete, toggle status)
- * - Domain: Entity, Repository Interface
- * - Infrastructure: TypeORM model, mapper, repository
+ * - Presentation: Controllers (HTTP endpoints)
+ * - Application: Use Cases (sector and glossary CRUD), cache invalidation listener
+ * - Domain: Entities, Repository Interfaces, events
+ * - Infrastructure: TypeORM models, mappers, repositories, cached glossary provider
  *
  * Dependencies:
  * - KnowledgeModule: For checking document count before sector deletion
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([SectorModel]),
+    TypeOrmModule.forFeature([SectorModel, GlossaryEntryModel]),
     KnowledgeModule, // Provides 'IKnowledgeRepository' for document count checks
   ],
-  controllers: [SectorController],
+  controllers: [SectorController, GlossaryController],
   providers: [
     // Application Layer - Use Cases
     CreateSectorUseCase,
     UpdateSectorUseCase,
     DeleteSectorUseCase,
     ToggleSectorStatusUseCase,
+    CreateGlossaryEntryUseCase,
+    UpdateGlossaryEntryUseCase,
+    DeleteGlossaryEntryUseCase,
+    GlossaryCacheInvalidationListener,
 
-    // Infrastructure Layer - Repository with interface token
+    // Infrastructure Layer - Repositories with interface tokens
     {
       provide: 'ISectorRepository',
       useClass: SectorRepository,
     },
+    {
+      provide: 'IGlossaryRepository',
+      useClass: GlossaryRepository,
+    },
+    {
+      provide: 'IGlossaryProvider',
+      useClass: CachedGlossaryProvider,
+    },
   ],
   exports: [
     // Export repository for other modules that might need sector data
     'ISectorRepository',
+    // Glossary read side for the RAG flow
+    'IGlossaryProvider',
   ],
 })
 export class SectorsModule {}
@@ -0,0 +1,282 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+// Validation constants (OWASP: Magic Numbers)
+const MAX_WORST_SCORING_LIMIT = 100;
+
+// Example and description constants (avoid string duplication)
+const EXAMPLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
+const EXAMPLE_DATE = '2025-03-01T00:00:00.000Z';
+const DESC_EVALUATIONS = 'Evaluated answers';
+
+export const FAIL_RATE_INTERVALS = ['day', 'week'] as const;
+
+/**
+ * Date range of the evaluations to aggregate
+ */
+export class EvaluationPeriodQueryDto {
+  @ApiProperty({
+    description: 'Only evaluations created at or after this date',
+    required: false,
+    example: EXAMPLE_DATE,
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDate()
+  from?: Date;
+
+  @ApiProperty({
+    description: 'Only evaluations created before this date',
+    required: false,
+    example: '2025-04-01T00:00:00.000Z',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDate()
+  to?: Date;
+}
+
+/**
+ * Query DTO for the score distribution
+ */
+export class EvaluationStatsQueryDto extends EvaluationPeriodQueryDto {
+  @ApiProperty({
+    description: 'Only this sector (default: every sector)',
+    required: false,
+    example: EXAMPLE_UUID,
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  sectorId?: string;
+}
+
+/**
+ * Query DTO for the FAIL rates over time
+ */
+export class EvaluationFailRatesQueryDto extends EvaluationStatsQueryDto {
+  @ApiProperty({
+    description: 'Length of each period (weeks start on Monday)',
+    required: false,
+    enum: FAIL_RATE_INTERVALS,
+    default: 'day',
+  })
+  @IsOptional()
+  @IsIn(FAIL_RATE_INTERVALS)
+  interval?: (typeof FAIL_RATE_INTERVALS)[number];
+}
+
+/**
+ * Query DTO for the worst-scoring questions of a sector
+ */
+export class WorstScoringAnswersQueryDto extends EvaluationPeriodQueryDto {
+  @ApiProperty({ description: 'Sector ID', example: EXAMPLE_UUID })
+  @IsUUID()
+  sectorId!: string;
+
+  @ApiProperty({
+    description: 'Maximum number of answers',
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: MAX_WORST_SCORING_LIMIT,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORST_SCORING_LIMIT)
+  limit?: number;
+}
+
+/**
+ * DTO for the number of scores in one range
+ */
+export class ScoreBucketDto {
+  @ApiProperty({ description: 'Lower bound (inclusive)', example: 0.8 })
+  min!: number;
+
+  @ApiProperty({
+    description: 'Upper bound (exclusive, except 1 for the last bucket)',
+    example: 0.9,
+  })
+  max!: number;
+
+  @ApiProperty({ description: 'Scores in the range', example: 42 })
+  count!: number;
+}
+
+/**
+ * DTO for the spread of one metric
+ */
+export class MetricDistributionDto {
+  @ApiProperty({
+    description:
+      'Ten buckets of 0.1 from 0 to 1 (UNKNOWN results are not bucketed)',
+    type: [ScoreBucketDto],
+  })
+  buckets!: ScoreBucketDto[];
+
+  @ApiProperty({ description: 'PASS results', example: 180 })
+  pass!: number;
+
+  @ApiProperty({ description: 'FAIL results', example: 15 })
+  fail!: number;
+
+  @ApiProperty({
+    description: 'UNKNOWN results (the judge failed)',
+    example: 5,
+  })
+  unknown!: number;
+
+  @ApiProperty({
+    description: 'Mean score of the PASS and FAIL results',
+    example: 0.82,
+    nullable: true,
+    type: Number,
+  })
+  average!: number | null;
+}
+
+/**
+ * Response DTO for the score distribution
+ */
+export class EvaluationDistributionDto {
+  @ApiProperty({ description: DESC_EVALUATIONS, example: 200 })
+  evaluations!: number;
+
+  @ApiProperty({
+    description: 'Whether answers are grounded in the retrieved fragments',
+    type: MetricDistributionDto,
+  })
+  faithfulness!: MetricDistributionDto;
+
+  @ApiProperty({
+    description: 'Whether answers address the question',
+    type: MetricDistributionDto,
+  })
+  relevancy!: MetricDistributionDto;
+}
+
+/**
+ * DTO for the failed answers of one period
+ */
+export class FailRatePointDto {
+  @ApiProperty({ description: 'Start of the period', example: EXAMPLE_DATE })
+  periodStart!: Date;
+
+  @ApiProperty({ description: DESC_EVALUATIONS, example: 40 })
+  evaluations!: number;
+
+  @ApiProperty({
+    description: 'Answers that failed at least one metric',
+    example: 6,
+  })
+  failures!: number;
+
+  @ApiProperty({ description: 'Faithfulness FAIL results', example: 4 })
+  faithfulnessFailures!: number;
+
+  @ApiProperty({ description: 'Relevancy FAIL results', example: 3 })
+  relevancyFailures!: number;
+
+  @ApiProperty({ description: 'failures / evaluations', example: 0.15 })
+  failRate!: number;
+}
+
+/**
+ * Response DTO for the FAIL rates over time
+ */
+export class EvaluationFailRatesDto {
+  @ApiProperty({
+    description: 'Length of each period',
+    enum: FAIL_RATE_INTERVALS,
+  })
+  interval!: (typeof FAIL_RATE_INTERVALS)[number];
+
+  @ApiProperty({
+    description: 'Periods with evaluations, oldest first',
+    type: [FailRatePointDto],
+  })
+  points!: FailRatePointDto[];
+}
+
+/**
+ * DTO for one metric of an evaluated answer
+ */
+export class EvaluationScoreDto {
+  @ApiProperty({ description: 'Score from 0 to 1', example: 0.35 })
+  score!: number;
+
+  @ApiProperty({
+    description: 'Result',
+    enum: ['PASS', 'FAIL', 'UNKNOWN'],
+    example: 'FAIL',
+  })
+  status!: 'PASS' | 'FAIL' | 'UNKNOWN';
+
+  @ApiProperty({
+    description: 'Judge reasoning',
+    example: 'The answer mentions a policy not present in the context.',
+  })
+  reasoning!: string;
+}
+
+/**
+ * DTO for an answer among the worst-scoring of a sector
+ */
+export class WorstScoringAnswerDto {
+  @ApiProperty({ description: 'Evaluation ID', example: EXAMPLE_UUID })
+  id!: string;
+
+  @ApiProperty({ description: 'Assistant message ID', example: EXAMPLE_UUID })
+  messageId!: string;
+
+  @ApiProperty({ description: 'Conversation ID', example: EXAMPLE_UUID })
+  conversationId!: string;
+
+  @ApiProperty({ description: 'Sector ID', example: EXAMPLE_UUID })
+  sectorId!: string;
+
+  @ApiProperty({
+    description: 'Question the answer was generated for',
+    example: 'How many vacation days do I have?',
+  })
+  query!: string;
+
+  @ApiProperty({
+    description: 'LLM that generated the answer',
+    example: 'vertexai/gemini-2.5-flash',
+  })
+  model!: string;
+
+  @ApiProperty({
+    description: 'Fragments the answer was generated from',
+    type: [String],
+  })
+  fragmentIds!: string[];
+
+  @ApiProperty({
+    description: 'Lowest score among the evaluated metrics',
+    example: 0.35,
+  })
+  lowestScore!: number;
+
+  @ApiProperty({ type: EvaluationScoreDto })
+  faithfulness!: EvaluationScoreDto;
+
+  @ApiProperty({ type: EvaluationScoreDto })
+  relevancy!: EvaluationScoreDto;
+
+  @ApiProperty({ description: 'Evaluation date', example: EXAMPLE_DATE })
+  createdAt!: Date;
+}
@@ -1,10 +1,12 @@
 import {
+  BadRequestException,
   Controller,
   Get,
   HttpCode,
   HttpStatus,
   Inject,
   Logger,
+  Query,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -13,13 +15,24 @@ import {
   ApiResponse,
   ApiUnauthorizedResponse,
   ApiForbiddenResponse,
+  ApiBadRequestResponse,
 } from '@nestjs/swagger';
 import { RequireRoles } from '../../auth/decorators/require-roles.decorator';
 import { AdminStatsDto } from './dtos/admin-stats.dto';
+import {
+  EvaluationDistributionDto,
+  EvaluationFailRatesDto,
+  EvaluationFailRatesQueryDto,
+  EvaluationPeriodQueryDto,
+  EvaluationStatsQueryDto,
+  WorstScoringAnswerDto,
+  WorstScoringAnswersQueryDto,
+} from './dtos/answer-evaluation-stats.dto';
 import { UserRepository } from '../../users/infrastructure/persistence/repositories/user.repository';
 import type { IConversationRepository } from '../../interaction/domain/repositories/conversation.repository.interface';
 import type { ISectorRepository } from '../../sectors/domain/repositories/sector.repository.interface';
 import type { IKnowledgeRepository } from '../../knowledge/domain/repositories/knowledge.repository.interface';
+import type { IAnswerEvaluationRepository } from '../../interaction/domain/repositories/answer-evaluation.repository.interface';
 import { SectorStatus } from '@shared/types/enums';
 import {
   extractErrorMessage,
@@ -29,6 +42,11 @@ import {
 // API documentation constants
 const API_AUTH_DESC = 'Authentication required – Missing or invalid JWT token';
 const API_FORBIDDEN_DESC = 'Access denied – Requires admin role';
+const API_INVALID_PERIOD_DESC = 'Invalid filters, or from is not before to';
+const REQUIRED_ROLE_DESC = '**Required Role:** admin';
+
+// Query defaults (OWASP: Magic Numbers)
+const DEFAULT_WORST_SCORING_LIMIT = 20;
 
 /**
  * Stats Controller
@@ -37,6 +55,9 @@ const API_FORBIDDEN_DESC = 'Access denied – Requires admin role';
  *
  * Endpoints:
  * - GET /admin/stats: Global platform statistics
+ * - GET /admin/evaluations/distribution: Answer evaluation score distribution
+ * - GET /admin/evaluations/fail-rates: Failed answers per day or week
+ * - GET /admin/evaluations/worst: Worst-scoring questions of a sector
  *
  * Authorization:
  * - All endpoints require admin role
@@ -56,6 +77,8 @@ export class StatsController {
     private readonly sectorRepository: ISectorRepository,
     @Inject('IKnowledgeRepository')
     private readonly knowledgeRepository: IKnowledgeRepository,
+    @Inject('IAnswerEvaluationRepository')
+    private readonly evaluationRepository: IAnswerEvaluationRepository,
   ) {}
 
   /**
@@ -73,7 +96,7 @@ export class StatsController {
     summary: 'Get admin dashboard statistics',
     description:
       'Returns aggregated platform-wide statistics for the admin dashboard.\n\n' +
-      '**Required Role:** admin',
+      REQUIRED_ROLE_DESC,
   })
   @ApiResponse({
     status: 200,
@@ -119,4 +142,153 @@ export class StatsController {
       throw error;
     }
   }
+
+  /**
+   * GET /admin/evaluations/distribution
+   *
+   * Returns how the faithfulness and relevancy scores of evaluated answers
+   * are spread, with PASS/FAIL/UNKNOWN counts and averages.
+   */
+  @Get('evaluations/distribution')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get answer evaluation score distribution',
+    description:
+      'Returns the faithfulness and relevancy score distribution of evaluated answers, ' +
+      'for every sector or one, optionally within a date range.\n\n' +
+      REQUIRED_ROLE_DESC,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Score distribution',
+    type: EvaluationDistributionDto,
+  })
+  @ApiBadRequestResponse({ description: API_INVALID_PERIOD_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async getEvaluationDistribution(
+    @Query() query: EvaluationStatsQueryDto,
+  ): Promise<EvaluationDistributionDto> {
+    this.validatePeriod(query);
+
+    try {
+      return await this.evaluationRepository.getScoreDistribution(query);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to get evaluation distribution: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * GET /admin/evaluations/fail-rates
+   *
+   * Returns the share of evaluated answers that failed a metric, per day or
+   * week (oldest first, periods without evaluations omitted).
+   */
+  @Get('evaluations/fail-rates')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get answer FAIL rates over time',
+    description:
+      'Returns the evaluated answers and those failing faithfulness or relevancy per day or week, ' +
+      'for every sector or one, optionally within a date range.\n\n' +
+      REQUIRED_ROLE_DESC,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'FAIL rates per period',
+    type: EvaluationFailRatesDto,
+  })
+  @ApiBadRequestResponse({ description: API_INVALID_PERIOD_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async getEvaluationFailRates(
+    @Query() query: EvaluationFailRatesQueryDto,
+  ): Promise<EvaluationFailRatesDto> {
+    this.validatePeriod(query);
+    const { interval = 'day', ...filter } = query;
+
+    try {
+      const points = await this.evaluationRepository.getFailRates(
+        filter,
+        interval,
+      );
+      return { interval, points };
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to get evaluation fail rates: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * GET /admin/evaluations/worst
+   *
+   * Returns the questions of a sector whose answers scored lowest, to find
+   * what the documentation covers badly.
+   */
+  @Get('evaluations/worst')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the worst-scoring questions of a sector',
+    description:
+      'Returns the evaluated answers of a sector with the lowest faithfulness or relevancy score, ' +
+      'worst first, optionally within a date range.\n\n' +
+      REQUIRED_ROLE_DESC,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Worst-scoring answers',
+    type: [WorstScoringAnswerDto],
+  })
+  @ApiBadRequestResponse({ description: API_INVALID_PERIOD_DESC })
+  @ApiUnauthorizedResponse({ description: API_AUTH_DESC })
+  @ApiForbiddenResponse({ description: API_FORBIDDEN_DESC })
+  async getWorstScoringAnswers(
+    @Query() query: WorstScoringAnswersQueryDto,
+  ): Promise<WorstScoringAnswerDto[]> {
+    this.validatePeriod(query);
+    const { limit = DEFAULT_WORST_SCORING_LIMIT, ...filter } = query;
+
+    try {
+      const evaluations = await this.evaluationRepository.findWorstScoring(
+        filter,
+        limit,
+      );
+      return evaluations.map((evaluation) => ({
+        id: evaluation.id,
+        messageId: evaluation.messageId,
+        conversationId: evaluation.conversationId,
+        sectorId: evaluation.sectorId,
+        query: evaluation.query,
+        model: evaluation.model,
+        fragmentIds: evaluation.fragmentIds,
+        // The repository leaves out evaluations without an evaluated metric
+        lowestScore: evaluation.lowestScore() ?? 0,
+        faithfulness: evaluation.faithfulness,
+        relevancy: evaluation.relevancy,
+        createdAt: evaluation.createdAt,
+      }));
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to get worst-scoring answers: ${extractErrorMessage(error)}`,
+        extractErrorStack(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Rejects a date range that ends before it starts
+   */
+  private validatePeriod(query: EvaluationPeriodQueryDto): void {
+    if (query.from && query.to && query.from >= query.to) {
+      throw new BadRequestException('from must be before to');
+    }
+  }
 }
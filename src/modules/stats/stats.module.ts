@@ -17,7 +17,8 @@ import { KnowledgeModule } from '../knowledge/knowledge.module';
  *
  * Dependencies:
  * - UsersModule:       UserRepository (countAll, countRecent)
- * - InteractionModule: IConversationRepository (countAll)
+ * - InteractionModule: IConversationRepository (countAll),
+ *                      IAnswerEvaluationRepository (evaluation dashboard)
  * - SectorsModule:     ISectorRepository (findAll)
  * - KnowledgeModule:   IKnowledgeRepository (findAllSources)
  */
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { MoreThanOrEqual, Repository } from 'typeorm';
+import { MoreThanOrEqual, Repository, SelectQueryBuilder } from 'typeorm';
 import { UserModel } from '../models/user.model';
 import { User } from '../../../domain/entities/user.entity';
 
@@ -152,13 +152,43 @@ export class UserRepository {
    * @returns Array of objects with id only
    */
   async findByRole(roleName: string): Promise<Array<{ id: string }>> {
-    return this.repository
-      .createQueryBuilder('user')
-      .innerJoin('user.roles', 'role', 'role.name = :roleName', { roleName })
-      .select(['user.id'])
+    return this.idsWithRole(roleName).getMany();
+  }
+
+  /**
+   * Find users that have a specific role and are assigned to a sector.
+   * Returns only { id }, like findByRole.
+   *
+   * @param roleName - Role name to filter by (e.g. 'manager')
+   * @param sectorId - Sector the users must belong to
+   * @returns Array of objects with id only
+   */
+  async findByRoleInSector(
+    roleName: string,
+    sectorId: string,
+  ): Promise<Array<{ id: string }>> {
+    return this.idsWithRole(roleName)
+      .innerJoin('user.sectors', 'sector', 'sector.id = :sectorId', {
+        sectorId,
+      })
       .getMany();
   }
 
+  /**
+   * Find the IDs of the sectors a user is assigned to
+   *
+   * @param userId - Internal user UUID
+   * @returns Sector IDs (empty if the user is unknown)
+   */
+  async findSectorIds(userId: string): Promise<string[]> {
+    const model = await this.repository.findOne({
+      where: { id: userId },
+      relations: { sectors: true },
+      select: { id: true, sectors: { id: true } },
+    });
+    return model?.sectors.map((sector) => sector.id) ?? [];
+  }
+
   /**
    * Save a UserModel directly (for admin operations that modify relations)
    */
@@ -166,6 +196,16 @@ export class UserRepository {
     return this.repository.save(model);
   }
 
+  /**
+   * Query selecting only the IDs of users that have the given role
+   */
+  private idsWithRole(roleName: string): SelectQueryBuilder<UserModel> {
+    return this.repository
+      .createQueryBuilder('user')
+      .innerJoin('user.roles', 'role', 'role.name = :roleName', { roleName })
+      .select(['user.id']);
+  }
+
   /**
    * Map TypeORM model to domain entity
    */
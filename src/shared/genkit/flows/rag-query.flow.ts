@@ -3,12 +3,21 @@
  *
  * Implements the RAG (Retrieval-Augmented Generation) pattern:
  * 1. Sync heuristic detection of conversational queries (no LLM call)
- * 2. Domain dictionary expansion for short queries (no LLM call)
+ *    using the sector glossary (admin-editable, loaded via a cached provider)
+ * 2. Optional follow-up rewriting into a standalone query (one small LLM call)
+ *    and glossary synonym expansion for short queries (no LLM call)
  * 3. Single embedding call for the final query
+ *    (optionally answered from the per-sector semantic answer cache)
  * 4. Vector search with oversampling to reduce false negatives
+ *    (optionally fused with Postgres full-text search via reciprocal rank fusion)
+ *    and optional reranking of the candidate pool before the maxResults cut.
+ *    Optionally the query is also translated into the other dominant
+ *    languages of the sector's corpus and searched in each of them, with
+ *    the per-language rankings merged by reciprocal rank fusion
  * 5. Static template fallback when no context found (no LLM call)
  * 6. Generate response using Gemini LLM with structured output (the ONE required LLM call)
  * 7. Evaluations scheduled as fire-and-forget background task
+ *    (results handed to an optional callback, e.g. to persist them)
  *
  * v2.0 optimizations vs v1.3:
  * - Conversational LLM classifier → sync heuristics              (−600ms avg)
@@ -33,6 +42,14 @@ import {
   RagResponseType,
   type StructuredRagResponse,
 } from '../schemas/structured-response.schema';
+import {
+  DEFAULT_RRF_K,
+  fuseWithReciprocalRank,
+  type IQueryRewriter,
+  type IQueryTranslator,
+  type IReranker,
+} from '../retrieval';
+import { detectLanguage } from '../../utils';
 
 // Re-export for consumers
 export { RagResponseType } from '../schemas/structured-response.schema';
@@ -55,6 +72,10 @@ const RAG_CONFIG = {
    * to reduce false negatives when some top-K results fall below minSimilarity.
    */
   VECTOR_OVERSAMPLE_FACTOR: 3,
+  /** Default RRF weights for hybrid retrieval (equal contribution) */
+  DEFAULT_VECTOR_WEIGHT: 1,
+  DEFAULT_LEXICAL_WEIGHT: 1,
+  FUSION_WEIGHT_RANGE: { min: 0, max: 1 },
 } as const;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -73,6 +94,18 @@ export const ragQueryInputSchema = z.object({
    * Separating this from `query` keeps the embedding semantically clean.
    */
   conversationContext: z.string().optional(),
+  /**
+   * Recent conversation turns (oldest first, excluding the current message).
+   * Used only to rewrite follow-up questions into standalone search queries.
+   */
+  conversationHistory: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+      }),
+    )
+    .optional(),
   maxResults: z
     .number()
     .int()
@@ -89,10 +122,43 @@ export const ragQueryInputSchema = z.object({
   sectorContactPhone: z.string().nullable().optional(),
   /** UI language (BCP-47) so fallback/conversational replies match the user's locale */
   language: z.string().optional(),
+  /**
+   * Hybrid retrieval settings (resolved per sector by the caller).
+   * When enabled, a full-text search runs alongside the vector search and both
+   * rankings are merged with reciprocal rank fusion before the maxResults cut.
+   */
+  hybridSearch: z
+    .object({
+      enabled: z.boolean().default(false),
+      vectorWeight: z
+        .number()
+        .min(RAG_CONFIG.FUSION_WEIGHT_RANGE.min)
+        .max(RAG_CONFIG.FUSION_WEIGHT_RANGE.max)
+        .default(RAG_CONFIG.DEFAULT_VECTOR_WEIGHT),
+      lexicalWeight: z
+        .number()
+        .min(RAG_CONFIG.FUSION_WEIGHT_RANGE.min)
+        .max(RAG_CONFIG.FUSION_WEIGHT_RANGE.max)
+        .default(RAG_CONFIG.DEFAULT_LEXICAL_WEIGHT),
+      rrfK: z.number().int().min(1).default(DEFAULT_RRF_K),
+    })
+    .optional(),
+  /**
+   * Restricts retrieval to fragments of these sources and/or of sources with
+   * at least one of these tags. Filtered queries bypass the answer cache.
+   */
+  retrievalFilter: z
+    .object({
+      sourceIds: z.array(z.string()).optional(),
+      tags: z.array(z.string()).optional(),
+    })
+    .optional(),
 });
 
 export type RagQueryInput = z.infer<typeof ragQueryInputSchema>;
 
+export type RetrievalFilter = NonNullable<RagQueryInput['retrievalFilter']>;
+
 export const fragmentSchema = z.object({
   id: z.string(),
   content: z.string(),
@@ -117,6 +183,7 @@ export const ragQueryOutputSchema = z.object({
     RagResponseType.NO_CONTEXT,
     RagResponseType.CONVERSATIONAL,
     RagResponseType.ERROR,
+    RagResponseType.CACHED,
   ]),
   structured: z.unknown().optional(),
   sources: z.array(fragmentSchema),
@@ -128,6 +195,12 @@ export const ragQueryOutputSchema = z.object({
       temperature: z.number(),
       fragmentsRetrieved: z.number(),
       fragmentsUsed: z.number(),
+      /** Standalone query used for retrieval when a follow-up was rewritten */
+      rewrittenQuery: z.string().optional(),
+      /** Translations of the query searched in the other corpus languages */
+      translatedQueries: z
+        .array(z.object({ language: z.string(), query: z.string() }))
+        .optional(),
     })
     .optional(),
 });
@@ -153,8 +226,174 @@ export type VectorSearchFn = (
   sectorId: string,
   limit: number,
   minScore?: number,
+  filter?: RetrievalFilter,
+) => Promise<FragmentResult[]>;
+
+/**
+ * Lexical (full-text) search function type — injected as a dependency.
+ * Receives the raw query text; results are ordered from best to worst.
+ */
+export type LexicalSearchFn = (
+  query: string,
+  sectorId: string,
+  limit: number,
+  filter?: RetrievalFilter,
 ) => Promise<FragmentResult[]>;
 
+/**
+ * Answer stored in / served from the semantic answer cache.
+ * `structured` is opaque to the cache; the flow produced it.
+ */
+export interface CachedRagAnswer {
+  query: string;
+  response: string;
+  structured?: unknown;
+  sources: FragmentResult[];
+}
+
+/**
+ * Semantic answer cache — injected as a dependency.
+ * Lookups match prior answers of the same sector (and language) whose query
+ * embedding is similar enough to the current one. The epoch returned by a
+ * lookup is passed back to store, so an answer generated while the sector
+ * was invalidated is dropped.
+ */
+export interface RagAnswerCache {
+  lookup(key: {
+    sectorId: string;
+    embedding: number[];
+    language?: string;
+  }): Promise<{ answer: CachedRagAnswer | null; epoch: number }>;
+  store(
+    key: { sectorId: string; embedding: number[]; language?: string },
+    answer: CachedRagAnswer,
+    epoch: number,
+  ): Promise<void>;
+}
+
+/**
+ * Glossary driving the sync heuristics of the flow (resolved per sector).
+ * Keys are lowercased: synonym terms, and conversational phrases without
+ * surrounding punctuation.
+ */
+export interface RagGlossary {
+  /** term → extra search terms appended to short queries */
+  synonyms: ReadonlyMap<string, readonly string[]>;
+  /** phrase → language code → canned reply */
+  conversationalResponses: ReadonlyMap<
+    string,
+    Readonly<Record<string, string>>
+  >;
+}
+
+/**
+ * Glossary source — injected as a dependency.
+ * Implementations are expected to cache; it is called once per query.
+ */
+export interface RagGlossaryProvider {
+  getGlossary(sectorId: string): Promise<RagGlossary>;
+}
+
+/**
+ * Embedding profile source — injected as a dependency.
+ * Queries must be embedded like the vectors of the sector's active index.
+ * Implementations are expected to cache; it is called once per query.
+ */
+export interface RagEmbeddingProfileResolver {
+  getEmbeddingProfile(
+    sectorId: string,
+  ): Promise<{ model: string; dimensions: number }>;
+}
+
+/**
+ * Corpus language source — injected as a dependency.
+ * Returns the dominant languages (ISO 639-1) of the sector's fragments.
+ * Implementations are expected to cache; it is called once per query.
+ */
+export interface RagCorpusLanguageResolver {
+  getCorpusLanguages(sectorId: string): Promise<string[]>;
+}
+
+/**
+ * A query searched on its own during multilingual retrieval: the user's
+ * query, or its translation into one of the corpus languages
+ */
+interface LanguageSearch {
+  language: string;
+  query: string;
+  embedding: number[];
+}
+
+/** Label of the user's query when its language is not detected */
+const ORIGINAL_QUERY_LABEL = 'original';
+
+const EMPTY_GLOSSARY: RagGlossary = {
+  synonyms: new Map(),
+  conversationalResponses: new Map(),
+};
+
+/**
+ * Optional collaborators of the RAG query service
+ */
+export interface RagQueryServiceDeps {
+  /** Full-text search — used only when the sector enables hybrid search */
+  lexicalSearch?: LexicalSearchFn;
+  /** Reorders the retrieved candidates before the maxResults cut */
+  reranker?: IReranker;
+  /** Rewrites follow-up questions into standalone queries using the history */
+  queryRewriter?: IQueryRewriter;
+  /** Serves repeated questions without retrieval or generation */
+  answerCache?: RagAnswerCache;
+  /** Sector synonyms and conversational phrases (empty glossary when omitted) */
+  glossaryProvider?: RagGlossaryProvider;
+  /** Embedding profile per sector (GENKIT_CONFIG.EMBEDDING_MODEL when omitted) */
+  embeddingProfileResolver?: RagEmbeddingProfileResolver;
+  /**
+   * Translates the query into the other languages of the corpus — used only
+   * together with corpusLanguageResolver
+   */
+  queryTranslator?: IQueryTranslator;
+  /** Dominant languages of each sector's corpus (multilingual retrieval) */
+  corpusLanguageResolver?: RagCorpusLanguageResolver;
+}
+
+/**
+ * Background quality evaluation of a generated answer
+ */
+export interface RagAnswerEvaluation {
+  evaluation: RagEvaluationResult;
+  /** LLM that generated the answer */
+  model: string;
+  /** Fragments the answer was generated from, in prompt order */
+  fragmentIds: string[];
+}
+
+/**
+ * Optional progress callbacks for streaming consumers (e.g. SSE endpoints).
+ * When omitted the flow behaves exactly like the non-streaming path.
+ */
+export interface RagQueryStreamHandlers {
+  /** Called once the relevant fragments are known, before generation starts */
+  onRetrieval?: (fragments: FragmentResult[]) => void;
+  /**
+   * Called for every delta of answer text (the decoded summary of the
+   * structured output, or the plain-text fallback)
+   */
+  onToken?: (delta: string) => void;
+  /**
+   * Called when the answer text streamed so far must be discarded because
+   * the answer is generated again (plain-text fallback after a failed
+   * structured generation). Without it, the fallback is not streamed.
+   */
+  onReset?: () => void;
+  /**
+   * Called when the background evaluation of a generated answer completes,
+   * after the response was returned (answers only, and only when
+   * evaluations are enabled). Errors it throws are ignored.
+   */
+  onEvaluation?: (result: RagAnswerEvaluation) => void;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Prompt builders
 // ─────────────────────────────────────────────────────────────────────────────
@@ -192,7 +431,8 @@ INSTRUCTIONS:
 - Include key takeaways as bullet points when relevant
 - Suggest related topics the user might want to explore
 - Use markdown formatting within section content
-- Respond in the SAME LANGUAGE as the user's question
+- For each section, list in "citations" the numbers of the documentation fragments (e.g. [1], [3]) that support it
+- Respond in the SAME LANGUAGE as the user's question, even when the documentation is written in another language
 - If the documentation doesn't fully cover the topic, be transparent about it`;
 }
 
@@ -200,48 +440,11 @@ INSTRUCTIONS:
 // Conversational detection — sync heuristics, ZERO LLM calls
 // ─────────────────────────────────────────────────────────────────────────────
 
-const CONVERSATIONAL_PHRASES = new Set([
-  'muchas gracias',
-  'gracias',
-  'thanks',
-  'thank you',
-  'ok',
-  'okay',
-  'perfecto',
-  'genial',
-  'entendido',
-  'de acuerdo',
-  'claro',
-  'bien',
-  'super',
-  'great',
-  'got it',
-  'noted',
-  'vale',
-  'de nada',
-  "you're welcome",
-  'you are welcome',
-  'hola',
-  'hello',
-  'hi',
-  'hey',
-  'buenos días',
-  'buenas tardes',
-  'buenas noches',
-  'good morning',
-  'good afternoon',
-  'good evening',
-  'adiós',
-  'bye',
-  'goodbye',
-  'hasta luego',
-]);
-
 const TRAILING_CHARS = ' \t\n\r!.,;:…?¿¡';
 
 /**
  * Strips leading/trailing punctuation and lowercases a string.
- * Used for normalising phrases before set lookup.
+ * Used for normalising phrases before glossary lookup.
  */
 function stripPunctuation(s: string): string {
   let result = s.trim().toLowerCase();
@@ -275,17 +478,17 @@ const LANG_CODE_LENGTH = 2;
  * Replaces the previous async LLM classifier — zero network calls.
  *
  * Rules (evaluated in order):
- * 1. Exact match in CONVERSATIONAL_PHRASES → conversational
+ * 1. Exact match of a glossary phrase      → conversational
  * 2. Contains '?' or '¿'                  → substantive
  * 3. Contains a question/interrogative word → substantive
  * 4. Longer than CONVERSATIONAL_MAX_WORDS   → substantive
  * 5. Short phrase with no question signal   → conversational
  */
-function isConversationalQuery(query: string): boolean {
+function isConversationalQuery(query: string, glossary: RagGlossary): boolean {
   const trimmed = query.trim();
   const normalized = stripPunctuation(trimmed);
 
-  if (normalized.length > 0 && CONVERSATIONAL_PHRASES.has(normalized))
+  if (normalized.length > 0 && glossary.conversationalResponses.has(normalized))
     return true;
   if (trimmed.includes('?') || trimmed.includes('¿')) return false;
   if (QUESTION_WORDS_ES_RE.test(trimmed) || QUESTION_WORDS_EN_RE.test(trimmed))
@@ -298,156 +501,27 @@ function isConversationalQuery(query: string): boolean {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Conversational responses — static template map, ZERO LLM calls
+// Conversational responses — glossary templates, ZERO LLM calls
 // ─────────────────────────────────────────────────────────────────────────────
 
-const YOU_ARE_WELCOME_EN = "You're welcome!";
-const HOLA_AYUDARTE_ES = '¡Hola! ¿En qué puedo ayudarte?';
-
-/**
- * Static response map keyed by normalised phrase → language → response text.
- * Covers all entries in CONVERSATIONAL_PHRASES plus common variants.
- */
-const CONVERSATIONAL_RESPONSE_MAP: Record<string, Record<string, string>> = {
-  gracias: {
-    es: '¡Con gusto! ¿Hay algo más en lo que pueda ayudarte?',
-    en: "You're welcome! Anything else I can help with?",
-  },
-  'muchas gracias': {
-    es: '¡De nada! Estoy aquí para lo que necesites.',
-    en: "My pleasure! I'm here whenever you need me.",
-  },
-  thanks: { es: '¡Con gusto!', en: YOU_ARE_WELCOME_EN },
-  'thank you': {
-    es: '¡De nada!',
-    en: "You're welcome! Let me know if you need anything else.",
-  },
-  ok: {
-    es: '¡Perfecto! ¿Tienes alguna otra pregunta?',
-    en: 'Got it! Any other questions?',
-  },
-  okay: {
-    es: '¡Entendido! ¿En qué más puedo ayudarte?',
-    en: 'Got it! How else can I help?',
-  },
-  perfecto: {
-    es: '¡Me alegra que haya sido útil! ¿Necesitas algo más?',
-    en: 'Great! Need anything else?',
-  },
-  genial: {
-    es: '¡Genial! ¿Puedo ayudarte con algo más?',
-    en: 'Awesome! Can I help with anything else?',
-  },
-  entendido: {
-    es: 'Perfecto, si tienes más dudas aquí estaré.',
-    en: "Got it! I'm here if you have more questions.",
-  },
-  'de acuerdo': {
-    es: '¡De acuerdo! ¿Hay algo más que necesites saber?',
-    en: 'Alright! Anything else you need to know?',
-  },
-  claro: {
-    es: '¡Claro que sí! ¿Puedo ayudarte con algo más?',
-    en: 'Of course! Can I help with anything else?',
-  },
-  bien: {
-    es: '¡Me alegra! ¿En qué más puedo ayudarte?',
-    en: 'Good! Is there anything else I can help with?',
-  },
-  super: {
-    es: '¡Súper! ¿Necesitas algo más?',
-    en: 'Super! Need anything else?',
-  },
-  great: {
-    es: '¡Estupendo!',
-    en: 'Great! Let me know if you need anything else.',
-  },
-  'got it': {
-    es: 'Perfecto.',
-    en: "Got it! I'm here if you need more help.",
-  },
-  noted: {
-    es: 'Anotado.',
-    en: 'Noted! Let me know if you have more questions.',
-  },
-  vale: {
-    es: '¡Vale! ¿En qué más puedo ayudarte?',
-    en: 'Alright! How else can I help?',
-  },
-  'de nada': {
-    es: '¡Con mucho gusto! ¿En qué más te puedo ayudar?',
-    en: YOU_ARE_WELCOME_EN,
-  },
-  "you're welcome": {
-    es: '¡De nada!',
-    en: "You're welcome! Glad I could help.",
-  },
-  'you are welcome': { es: '¡De nada!', en: YOU_ARE_WELCOME_EN },
-  hola: {
-    es: '¡Hola! ¿En qué puedo ayudarte hoy?',
-    en: 'Hello! How can I help you today?',
-  },
-  hello: {
-    es: HOLA_AYUDARTE_ES,
-    en: 'Hello! How can I help you today?',
-  },
-  hi: {
-    es: HOLA_AYUDARTE_ES,
-    en: 'Hi there! How can I help you?',
-  },
-  hey: {
-    es: HOLA_AYUDARTE_ES,
-    en: 'Hey! What can I help you with?',
-  },
-  'buenos días': {
-    es: '¡Buenos días! ¿En qué puedo ayudarte hoy?',
-    en: 'Good morning! How can I help you today?',
-  },
-  'buenas tardes': {
-    es: '¡Buenas tardes! ¿En qué puedo ayudarte?',
-    en: 'Good afternoon! How can I help you?',
-  },
-  'buenas noches': {
-    es: '¡Buenas noches! ¿En qué puedo ayudarte?',
-    en: 'Good evening! How can I help you?',
-  },
-  'good morning': {
-    es: '¡Buenos días! ¿Cómo puedo ayudarte?',
-    en: 'Good morning! How can I help you today?',
-  },
-  'good afternoon': {
-    es: '¡Buenas tardes! ¿Cómo puedo ayudarte?',
-    en: 'Good afternoon! How can I help you?',
-  },
-  'good evening': {
-    es: '¡Buenas noches! ¿Cómo puedo ayudarte?',
-    en: 'Good evening! How can I help you?',
-  },
-  adiós: {
-    es: '¡Hasta luego! No dudes en volver si necesitas algo.',
-    en: 'Goodbye! Feel free to come back if you need anything.',
-  },
-  bye: { es: '¡Hasta pronto!', en: 'Goodbye! Have a great day!' },
-  goodbye: { es: '¡Hasta luego!', en: 'Goodbye! Have a great day!' },
-  'hasta luego': {
-    es: '¡Hasta luego! Vuelve cuando necesites.',
-    en: 'Goodbye! Come back whenever you need help.',
-  },
-};
-
 const DEFAULT_CONVERSATIONAL: Record<string, string> = {
   es: '¡Entendido! ¿En qué más puedo ayudarte?',
   en: 'Got it! How else can I help?',
 };
 
 /**
- * Returns a static conversational reply for a given phrase and language.
+ * Returns the glossary reply for a given phrase and language, or a generic
+ * acknowledgement when the phrase has no configured reply.
  * Zero LLM calls — replaces the previous async generateConversationalResponse.
  */
-function getConversationalResponse(phrase: string, lang?: string): string {
-  const key = stripPunctuation(phrase);
-  // eslint-disable-next-line security/detect-object-injection
-  const responses = CONVERSATIONAL_RESPONSE_MAP[key];
+function getConversationalResponse(
+  phrase: string,
+  glossary: RagGlossary,
+  lang?: string,
+): string {
+  const responses = glossary.conversationalResponses.get(
+    stripPunctuation(phrase),
+  );
   const langKey = lang?.slice(0, LANG_CODE_LENGTH) ?? 'es';
   if (responses) {
     return (
@@ -464,106 +538,18 @@ function getConversationalResponse(phrase: string, lang?: string): string {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Query expansion — domain synonym dictionary, ZERO LLM calls
+// Query expansion — glossary synonyms, ZERO LLM calls
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * HR / onboarding domain synonym dictionary.
- * Key = term to detect in query; value = additional terms to append.
- * Extend this map as new document topics are added to the knowledge base.
- */
-const DOMAIN_SYNONYMS: Record<string, string[]> = {
-  vacaciones: [
-    'días libres',
-    'días de descanso',
-    'permisos retribuidos',
-    'días de vacaciones',
-    'vacation',
-    'PTO',
-  ],
-  festivos: [
-    'días festivos',
-    'días no laborables',
-    'días no hábiles',
-    'feriados',
-    'días de fiesta',
-    'bank holiday',
-  ],
-  baja: [
-    'baja médica',
-    'incapacidad temporal',
-    'IT',
-    'baja por enfermedad',
-    'sick leave',
-    'ausencia',
-  ],
-  nómina: [
-    'salario',
-    'sueldo',
-    'remuneración',
-    'payroll',
-    'retribución',
-    'pago mensual',
-  ],
-  contrato: [
-    'contrato laboral',
-    'tipo de contrato',
-    'modalidad contractual',
-    'employment contract',
-  ],
-  horario: [
-    'jornada laboral',
-    'horario de trabajo',
-    'turno',
-    'schedule',
-    'work hours',
-  ],
-  formación: [
-    'capacitación',
-    'cursos',
-    'training',
-    'aprendizaje',
-    'desarrollo profesional',
-  ],
-  incorporación: ['onboarding', 'primer día', 'alta', 'ingreso', 'entrada'],
-  seguridad: ['seguridad social', 'SS', 'cotización', 'afiliación'],
-  permiso: [
-    'permiso laboral',
-    'licencia',
-    'ausencia justificada',
-    'leave of absence',
-  ],
-  reembolso: ['gastos', 'dietas', 'expenses', 'reimbursement'],
-  teletrabajo: [
-    'trabajo en remoto',
-    'trabajo desde casa',
-    'remote work',
-    'home office',
-    'WFH',
-  ],
-  bonus: [
-    'incentivo',
-    'complemento',
-    'variable',
-    'paga extra',
-    'gratificación',
-  ],
-  beneficios: [
-    'beneficios sociales',
-    'ventajas',
-    'perks',
-    'benefits',
-    'retribución flexible',
-  ],
-  despido: ['despido', 'baja voluntaria', 'finiquito', 'offboarding', 'cese'],
-};
-
-/**
- * Expands a short query with domain-specific synonyms from a static dictionary.
+ * Expands a short query with the synonyms of the glossary terms it contains.
  * Synchronous — no LLM call, no network round-trip.
  * Long queries (>= QUERY_EXPANSION_WORD_THRESHOLD words) are returned unchanged.
  */
-function expandQueryWithDictionary(query: string): string {
+function expandQueryWithDictionary(
+  query: string,
+  glossary: RagGlossary,
+): string {
   const wordCount = query.trim().split(/\s+/).length;
   if (wordCount >= RAG_CONFIG.QUERY_EXPANSION_WORD_THRESHOLD) {
     return query;
@@ -572,7 +558,7 @@ function expandQueryWithDictionary(query: string): string {
   const lower = query.toLowerCase();
   const additions: string[] = [];
 
-  for (const [term, synonyms] of Object.entries(DOMAIN_SYNONYMS)) {
+  for (const [term, synonyms] of glossary.synonyms) {
     if (lower.includes(term)) {
       additions.push(...synonyms.filter((s) => !lower.includes(s)));
     }
@@ -627,12 +613,153 @@ const STATIC_FALLBACK_RESPONSES: Record<string, string> = {
   es: 'No encontré información específica sobre tu consulta en nuestra base de conocimiento. Por favor, contacta a tu responsable directo para obtener orientación más específica.',
 };
 
+/**
+ * Whether an answer may be served from / stored in the semantic answer cache:
+ * the query must not depend on unresolved history, and retrieval must not be
+ * scoped to specific sources or tags (the cache is per sector only).
+ */
+function isCacheable(input: RagQueryInput, standalone: boolean): boolean {
+  const filter = input.retrievalFilter;
+  return standalone && !filter?.sourceIds?.length && !filter?.tags?.length;
+}
+
 function getStaticFallback(language?: string): string {
   const key = language?.slice(0, LANG_CODE_LENGTH) ?? 'en';
   // eslint-disable-next-line security/detect-object-injection
   return STATIC_FALLBACK_RESPONSES[key] ?? STATIC_FALLBACK_RESPONSES['en'];
 }
 
+/**
+ * Drops section citations that do not point at a fragment in the prompt.
+ * Citations are 1-based ([1]..[n]); out-of-range and repeated indices are
+ * removed so consumers can resolve every remaining index safely.
+ */
+function sanitizeCitations(
+  structured: StructuredRagResponse,
+  fragmentCount: number,
+): StructuredRagResponse {
+  return {
+    ...structured,
+    sections: structured.sections.map((section) => {
+      if (!section.citations) {
+        return section;
+      }
+      const valid = section.citations.filter(
+        (index, position, all) =>
+          Number.isInteger(index) &&
+          index >= 1 &&
+          index <= fragmentCount &&
+          all.indexOf(index) === position,
+      );
+      return { ...section, citations: valid };
+    }),
+  };
+}
+
+/** Opening of the summary value and its JSON string content so far */
+const PARTIAL_SUMMARY_PATTERN = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)(")?/;
+/** Longest escape sequence that may be cut off at the end (\uXXXX) */
+const MAX_ESCAPE_LENGTH = 6;
+
+/**
+ * Decodes the `summary` of partial structured-output JSON.
+ * An escape sequence cut off at the end is left out until it is complete.
+ *
+ * @param json - The structured output streamed so far
+ * @returns The summary text so far (empty before it starts) and whether
+ *   its closing quote was received
+ */
+export function extractPartialSummary(json: string): {
+  text: string;
+  complete: boolean;
+} {
+  const match = PARTIAL_SUMMARY_PATTERN.exec(json);
+  if (!match) {
+    return { text: '', complete: false };
+  }
+
+  const [, raw, closingQuote] = match;
+  const minEnd = Math.max(0, raw.length - MAX_ESCAPE_LENGTH);
+  for (let end = raw.length; end >= minEnd; end--) {
+    try {
+      const text = JSON.parse(`"${raw.slice(0, end)}"`) as string;
+      return { text, complete: closingQuote === '"' };
+    } catch {
+      // Incomplete escape sequence at the end
+    }
+  }
+  return { text: '', complete: false };
+}
+
+type ChunkCallback = (chunk: { text: string }) => void;
+
+/**
+ * Streams the answer text to the `onToken` handler
+ */
+interface AnswerStream {
+  /** For the structured generate call: forwards only the decoded summary */
+  onStructuredChunk: ChunkCallback;
+  /** For the plain-text fallback: forwards the text as is */
+  onTextChunk: ChunkCallback;
+  /**
+   * Prepares streaming the fallback, resetting the consumer if text was
+   * already streamed
+   * @returns false when the fallback must not be streamed (text already
+   *   streamed and no `onReset` handler)
+   */
+  restart: () => boolean;
+}
+
+/**
+ * Adapts the `onToken` stream handler to Genkit's `onChunk` callbacks.
+ * Returns undefined when the caller is not streaming, so generate() stays unary.
+ */
+function createAnswerStream(
+  handlers?: RagQueryStreamHandlers,
+): AnswerStream | undefined {
+  const onToken = handlers?.onToken;
+  if (!onToken) {
+    return undefined;
+  }
+
+  let json = '';
+  let summaryLength = 0;
+  let summaryComplete = false;
+  let streamed = false;
+
+  const emit = (delta: string): void => {
+    if (delta) {
+      streamed = true;
+      onToken(delta);
+    }
+  };
+
+  return {
+    onStructuredChunk: (chunk) => {
+      if (summaryComplete) {
+        return;
+      }
+      json += chunk.text;
+      const summary = extractPartialSummary(json);
+      emit(summary.text.slice(summaryLength));
+      summaryLength = Math.max(summaryLength, summary.text.length);
+      summaryComplete = summary.complete;
+    },
+    onTextChunk: (chunk) => emit(chunk.text),
+    restart: () => {
+      if (!streamed) {
+        return true;
+      }
+      if (!handlers.onReset) {
+        return false;
+      }
+      handlers.onReset();
+      streamed = false;
+      return true;
+    },
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // RAG Query Service
 // ─────────────────────────────────────────────────────────────────────────────
@@ -640,7 +767,9 @@ function getStaticFallback(language?: string): string {
 /**
  * RAG Query Service
  *
- * Factory that creates the executeQuery function with an injected vectorSearch.
+ * Factory that creates the executeQuery function with an injected vectorSearch,
+ * an optional lexicalSearch (used only when hybrid search is enabled) and an
+ * optional reranker, query rewriter and answer cache.
  * The entire query pipeline now makes exactly ONE LLM call (the RAG generation)
  * for substantive queries with relevant context found.
  *
@@ -648,53 +777,398 @@ function getStaticFallback(language?: string): string {
  * - Conversational path:  0 LLM calls (static templates)
  * - No-context path:      0 LLM calls (static template + contact info)
  * - Answer path:          1 LLM call  (RAG generation — irreducible)
+ *                         +1 LLM call when the LLM reranker is configured
+ *                         +1 LLM call for follow-ups when query rewriting is on
+ *                         +1 LLM call and embed per other corpus language
+ *                            when query translation is on
+ * - Cached answer path:   0 LLM calls (embedding only)
  * - Evaluations:          async background, not in the response critical path
  */
-export function createRagQueryService(vectorSearch: VectorSearchFn) {
+export function createRagQueryService(
+  vectorSearch: VectorSearchFn,
+  deps: RagQueryServiceDeps = {},
+) {
+  const {
+    lexicalSearch,
+    reranker,
+    queryRewriter,
+    answerCache,
+    glossaryProvider,
+    embeddingProfileResolver,
+    queryTranslator,
+    corpusLanguageResolver,
+  } = deps;
   const ai = getGenkitInstance();
   const evaluator = createRagEvaluatorService(ai);
 
   /**
    * Schedules quality evaluations as a fire-and-forget background task.
-   * The HTTP response is returned before evaluations complete.
+   * The HTTP response is returned before evaluations complete; the result
+   * is handed to `onEvaluation`, if given.
    * Evaluation failures are silently swallowed to avoid any side-effects.
    */
   function scheduleEvaluations(
     query: string,
     response: string,
     fragments: FragmentResult[],
+    onEvaluation?: (result: RagAnswerEvaluation) => void,
   ): void {
+    const fragmentIds = fragments.map((f) => f.id);
     setImmediate(() => {
       const contextTexts = fragments.map((f) => f.content);
       evaluator
         .evaluate({ query, response, context: contextTexts })
+        .then((evaluation) =>
+          onEvaluation?.({
+            evaluation,
+            model: GENKIT_CONFIG.LLM_MODEL,
+            fragmentIds,
+          }),
+        )
         .catch(() => {
           // Intentionally ignored — evaluation must never affect users
         });
     });
   }
 
+  /**
+   * Retrieves the candidate pool for generation context, best first.
+   *
+   * Each query (the user's, plus its translations) is searched on its own.
+   * With several queries, their rankings are fused with RRF (equal weights);
+   * the fused score and the rank per language are recorded in each
+   * fragment's `metadata.multilingual`.
+   */
+  async function retrieveCandidates(
+    input: RagQueryInput,
+    searches: LanguageSearch[],
+  ): Promise<FragmentResult[]> {
+    const lists = await Promise.all(
+      searches.map(async (search) => ({
+        name: search.language,
+        items: await searchQuery(input, search.query, search.embedding),
+        weight: 1,
+      })),
+    );
+    if (lists.length === 1) {
+      return lists[0].items;
+    }
+
+    return fuseWithReciprocalRank(lists, DEFAULT_RRF_K).map(
+      ({ item, score, ranks }) => ({
+        ...item,
+        metadata: {
+          ...item.metadata,
+          multilingual: { fusedScore: score, ranks },
+        },
+      }),
+    );
+  }
+
+  /**
+   * Searches one query, best first.
+   *
+   * Vector search is oversampled to reduce false negatives. When hybrid search
+   * is enabled, a full-text search runs in parallel and both rankings are fused
+   * with weighted RRF; the fused score and per-strategy ranks are recorded in
+   * each fragment's `metadata.retrieval`.
+   */
+  async function searchQuery(
+    input: RagQueryInput,
+    retrievalQuery: string,
+    queryEmbedding: number[],
+  ): Promise<FragmentResult[]> {
+    const oversampledLimit = Math.min(
+      input.maxResults * RAG_CONFIG.VECTOR_OVERSAMPLE_FACTOR,
+      RAG_CONFIG.MAX_RESULTS_LIMIT * RAG_CONFIG.VECTOR_OVERSAMPLE_FACTOR,
+    );
+    const hybrid = input.hybridSearch;
+
+    if (!lexicalSearch || !hybrid?.enabled) {
+      return await vectorSearch(
+        queryEmbedding,
+        input.sectorId,
+        oversampledLimit,
+        input.minSimilarity,
+        input.retrievalFilter,
+      );
+    }
+
+    const [vectorResults, lexicalResults] = await Promise.all([
+      vectorSearch(
+        queryEmbedding,
+        input.sectorId,
+        oversampledLimit,
+        input.minSimilarity,
+        input.retrievalFilter,
+      ),
+      // Lexical search is best-effort — vector results alone are still a valid answer
+      lexicalSearch(
+        retrievalQuery,
+        input.sectorId,
+        oversampledLimit,
+        input.retrievalFilter,
+      ).catch((): FragmentResult[] => []),
+    ]);
+
+    return fuseWithReciprocalRank(
+      [
+        { name: 'vector', items: vectorResults, weight: hybrid.vectorWeight },
+        {
+          name: 'lexical',
+          items: lexicalResults,
+          weight: hybrid.lexicalWeight,
+        },
+      ],
+      hybrid.rrfK,
+    ).map(({ item, score, ranks }) => ({
+      ...item,
+      metadata: {
+        ...item.metadata,
+        retrieval: {
+          fusedScore: score,
+          vectorRank: ranks.vector ?? null,
+          lexicalRank: ranks.lexical ?? null,
+        },
+      },
+    }));
+  }
+
+  /**
+   * Cuts the candidate pool down to the fragments passed to the prompt.
+   *
+   * Without a reranker this keeps the retrieval order. With one, candidates
+   * are reordered by relevance and each selected fragment records its rerank
+   * score and pre-rerank position in `metadata.rerank`. Reranking is
+   * best-effort: on failure the retrieval order is kept.
+   */
+  async function selectFragments(
+    query: string,
+    candidates: FragmentResult[],
+    maxResults: number,
+  ): Promise<FragmentResult[]> {
+    if (!reranker || candidates.length === 0) {
+      return candidates.slice(0, maxResults);
+    }
+
+    try {
+      const reranked = await reranker.rerank(query, candidates, maxResults);
+      return reranked.map(({ item, score, originalRank }) => ({
+        ...item,
+        metadata: {
+          ...item.metadata,
+          rerank: { score, originalRank, reranker: reranker.name },
+        },
+      }));
+    } catch {
+      return candidates.slice(0, maxResults);
+    }
+  }
+
+  /**
+   * Resolves the query used for retrieval.
+   *
+   * Follow-ups are rewritten into a standalone query when a rewriter is
+   * configured; `rewrittenQuery` is set only when the rewrite changed the
+   * question. `standalone` is false when the query may depend on history
+   * that was not resolved (no rewriter, or the rewrite failed).
+   */
+  async function resolveRetrievalQuery(input: RagQueryInput): Promise<{
+    query: string;
+    rewrittenQuery?: string;
+    standalone: boolean;
+  }> {
+    const history = input.conversationHistory ?? [];
+    if (history.length === 0 && !input.conversationContext) {
+      return { query: input.query, standalone: true };
+    }
+    if (!queryRewriter || history.length === 0) {
+      return { query: input.query, standalone: false };
+    }
+
+    try {
+      const rewritten = await queryRewriter.rewrite(input.query, history);
+      return rewritten.trim() !== input.query.trim()
+        ? { query: rewritten, rewrittenQuery: rewritten, standalone: true }
+        : { query: input.query, standalone: true };
+    } catch {
+      // Best-effort — retrieval falls back to the literal user message
+      return { query: input.query, standalone: false };
+    }
+  }
+
+  /**
+   * Loads the sector glossary. Failures fall back to an empty glossary so
+   * the question still goes through retrieval.
+   */
+  async function loadGlossary(sectorId: string): Promise<RagGlossary> {
+    if (!glossaryProvider) {
+      return EMPTY_GLOSSARY;
+    }
+    try {
+      return await glossaryProvider.getGlossary(sectorId);
+    } catch {
+      return EMPTY_GLOSSARY;
+    }
+  }
+
+  /**
+   * Embeds the search query with the embedding profile of the sector, so it
+   * is comparable to the vectors of the sector's active index
+   */
+  async function embedQuery(
+    searchQuery: string,
+    sectorId: string,
+  ): Promise<number[]> {
+    const profile =
+      await embeddingProfileResolver?.getEmbeddingProfile(sectorId);
+    const embeddingResult = await ai.embed({
+      embedder: profile?.model ?? GENKIT_CONFIG.EMBEDDING_MODEL,
+      content: searchQuery,
+      ...(profile && {
+        options: { outputDimensionality: profile.dimensions },
+      }),
+    });
+
+    if (!Array.isArray(embeddingResult) || embeddingResult.length === 0) {
+      throw new Error('Failed to generate query embedding');
+    }
+
+    const queryEmbedding = embeddingResult[0].embedding;
+
+    if (!queryEmbedding || !Array.isArray(queryEmbedding)) {
+      throw new Error('Invalid embedding format received');
+    }
+    return queryEmbedding;
+  }
+
+  /**
+   * Translates the query into the dominant languages of the sector's corpus
+   * other than its own, and embeds each translation. Languages are handled
+   * in parallel and best-effort: a failed translation or embedding only
+   * leaves that language out. Without a translator, or when the corpus
+   * languages cannot be resolved, no translation is searched.
+   */
+  async function translateQuery(
+    input: RagQueryInput,
+    query: string,
+    queryLanguage: string | undefined,
+    glossary: RagGlossary,
+  ): Promise<LanguageSearch[]> {
+    if (!queryTranslator || !corpusLanguageResolver) {
+      return [];
+    }
+
+    let corpusLanguages: string[];
+    try {
+      corpusLanguages = await corpusLanguageResolver.getCorpusLanguages(
+        input.sectorId,
+      );
+    } catch {
+      return [];
+    }
+
+    const searches = await Promise.all(
+      corpusLanguages
+        .filter((language) => language !== queryLanguage)
+        .map(async (language): Promise<LanguageSearch | null> => {
+          try {
+            const translated = (
+              await queryTranslator.translate(query, language)
+            ).trim();
+            // An unknown query language may already be this one
+            if (translated.toLowerCase() === query.trim().toLowerCase()) {
+              return null;
+            }
+            const embedding = await embedQuery(
+              expandQueryWithDictionary(translated, glossary),
+              input.sectorId,
+            );
+            return { language, query: translated, embedding };
+          } catch {
+            return null;
+          }
+        }),
+    );
+    return searches.filter((search): search is LanguageSearch => !!search);
+  }
+
+  /**
+   * Looks up a cached answer for the query embedding. Returns null when the
+   * cache fails, so the answer is neither served nor stored.
+   */
+  async function findCachedAnswer(
+    input: RagQueryInput,
+    embedding: number[],
+  ): Promise<{ answer: CachedRagAnswer | null; epoch: number } | null> {
+    if (!answerCache) {
+      return null;
+    }
+    try {
+      return await answerCache.lookup({
+        sectorId: input.sectorId,
+        embedding,
+        language: input.language,
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stores a generated answer in the cache (fire-and-forget)
+   */
+  function cacheAnswer(
+    input: RagQueryInput,
+    embedding: number[],
+    answer: CachedRagAnswer,
+    epoch: number,
+  ): void {
+    answerCache
+      ?.store(
+        { sectorId: input.sectorId, embedding, language: input.language },
+        answer,
+        epoch,
+      )
+      .catch(() => {
+        // Intentionally ignored — caching must never affect users
+      });
+  }
+
   /**
    * Execute RAG query — optimized pipeline
    *
    * Happy path (substantive query with results):
+   *   0. Sector glossary (cached provider)
    *   1. Sync conversational check     (~0ms)
-   *   2. Sync domain dictionary expand (~0ms)
+   *   2. Follow-up rewrite (optional)  (~300–600ms, only with history)
+   *      + sync glossary synonym expand (~0ms)
    *   3. ai.embed() — ONE call         (~200–400ms)
-   *   4. vectorSearch (Pinecone)        (~50–150ms)
+   *      → semantic cache hit returns here (standalone, unfiltered queries only)
+   *   4. vectorSearch (Pinecone)        (~50–150ms, + FTS in parallel if hybrid)
+   *      per query language, after translating the query (optional, parallel)
+   *      + optional rerank of the candidate pool
    *   5. ai.generate() — ONE LLM call  (~1.5–4s)
    *   6. scheduleEvaluations (async)    (0ms — fire-and-forget)
+   *
+   * Optional `handlers` receive the retrieved fragments as soon as they are
+   * known and every token delta from the generate call (used by SSE streaming).
    */
-  async function executeQuery(input: RagQueryInput): Promise<RagQueryOutput> {
+  async function executeQuery(
+    input: RagQueryInput,
+    handlers?: RagQueryStreamHandlers,
+  ): Promise<RagQueryOutput> {
     const validatedInput = ragQueryInputSchema.parse(input);
     const messageToClassify =
       validatedInput.rawUserMessage ?? validatedInput.query;
+    const glossary = await loadGlossary(validatedInput.sectorId);
 
     // Step 0: Sync conversational detection — no LLM call
-    if (isConversationalQuery(messageToClassify)) {
+    if (isConversationalQuery(messageToClassify, glossary)) {
       return {
         response: getConversationalResponse(
           messageToClassify,
+          glossary,
           validatedInput.language,
         ),
         responseType: RagResponseType.CONVERSATIONAL,
@@ -710,36 +1184,76 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
       };
     }
 
-    // Step 1: Expand with domain dictionary (sync) → single embed call
-    const searchQuery = expandQueryWithDictionary(validatedInput.query);
-
-    const embeddingResult = await ai.embed({
-      embedder: GENKIT_CONFIG.EMBEDDING_MODEL,
-      content: searchQuery,
-    });
-
-    if (!Array.isArray(embeddingResult) || embeddingResult.length === 0) {
-      throw new Error('Failed to generate query embedding');
-    }
-
-    const queryEmbedding = embeddingResult[0].embedding;
+    // Step 1: Rewrite follow-ups into a standalone query, expand with the
+    // glossary synonyms (sync) → single embed call
+    const {
+      query: retrievalQuery,
+      rewrittenQuery,
+      standalone,
+    } = await resolveRetrievalQuery(validatedInput);
+    const searchQuery = expandQueryWithDictionary(retrievalQuery, glossary);
+
+    const queryEmbedding = await embedQuery(
+      searchQuery,
+      validatedInput.sectorId,
+    );
 
-    if (!queryEmbedding || !Array.isArray(queryEmbedding)) {
-      throw new Error('Invalid embedding format received');
+    // Step 1b: Semantic answer cache — only for queries that don't depend on
+    // unresolved conversation history and aren't scoped by a retrieval filter
+    const cacheable = isCacheable(validatedInput, standalone);
+    const cacheLookup = cacheable
+      ? await findCachedAnswer(validatedInput, queryEmbedding)
+      : null;
+    const cached = cacheLookup?.answer;
+    if (cached) {
+      handlers?.onRetrieval?.(cached.sources);
+      return {
+        response: cached.response,
+        responseType: RagResponseType.CACHED,
+        structured: cached.structured as StructuredRagResponse | undefined,
+        sources: cached.sources,
+        conversationId: validatedInput.conversationId,
+        timestamp: new Date(),
+        metadata: {
+          model: GENKIT_CONFIG.LLM_MODEL,
+          temperature: GENKIT_CONFIG.RAG_GENERATION_CONFIG.temperature,
+          fragmentsRetrieved: 0,
+          fragmentsUsed: cached.sources.length,
+          ...(rewrittenQuery && { rewrittenQuery }),
+        },
+      };
     }
 
-    // Step 2: Vector search with oversampling to reduce false negatives
-    const oversampledLimit = Math.min(
-      validatedInput.maxResults * RAG_CONFIG.VECTOR_OVERSAMPLE_FACTOR,
-      RAG_CONFIG.MAX_RESULTS_LIMIT * RAG_CONFIG.VECTOR_OVERSAMPLE_FACTOR,
+    // Step 2: Translate the query into the other corpus languages (optional),
+    // vector search each query (optionally fused with full-text search),
+    // merge the per-language rankings, then rerank
+    const queryLanguage =
+      detectLanguage(retrievalQuery) ??
+      validatedInput.language?.slice(0, LANG_CODE_LENGTH).toLowerCase();
+    const translations = await translateQuery(
+      validatedInput,
+      retrievalQuery,
+      queryLanguage,
+      glossary,
     );
-    const allFragments = await vectorSearch(
-      queryEmbedding,
-      validatedInput.sectorId,
-      oversampledLimit,
-      validatedInput.minSimilarity,
+    const translatedQueries = translations.map(({ language, query }) => ({
+      language,
+      query,
+    }));
+    const candidates = await retrieveCandidates(validatedInput, [
+      {
+        language: queryLanguage ?? ORIGINAL_QUERY_LABEL,
+        query: retrievalQuery,
+        embedding: queryEmbedding,
+      },
+      ...translations,
+    ]);
+    const relevantFragments = await selectFragments(
+      retrievalQuery,
+      candidates,
+      validatedInput.maxResults,
     );
-    const relevantFragments = allFragments.slice(0, validatedInput.maxResults);
+    handlers?.onRetrieval?.(relevantFragments);
 
     // Step 3: No relevant context — static fallback, no LLM call
     if (relevantFragments.length === 0) {
@@ -758,6 +1272,8 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
           temperature: GENKIT_CONFIG.RAG_GENERATION_CONFIG.temperature,
           fragmentsRetrieved: 0,
           fragmentsUsed: 0,
+          ...(rewrittenQuery && { rewrittenQuery }),
+          ...(translatedQueries.length > 0 && { translatedQueries }),
         },
       };
     }
@@ -773,6 +1289,7 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
 
     let responseText: string;
     let structured: StructuredRagResponse | undefined;
+    const answerStream = createAnswerStream(handlers);
 
     try {
       // The ONE required LLM call — structured output
@@ -787,16 +1304,21 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
         prompt,
         output: { schema: structuredRagResponseSchema },
         config: GENKIT_CONFIG.RAG_GENERATION_CONFIG,
+        ...(answerStream && { onChunk: answerStream.onStructuredChunk }),
       });
 
-      structured = result.output;
+      structured = result.output
+        ? sanitizeCitations(result.output, relevantFragments.length)
+        : undefined;
       responseText = structured?.summary ?? result.text;
     } catch {
       // Structured output failed — plain text fallback (still one LLM call total)
+      const streamFallback = answerStream?.restart() ?? false;
       const result = await ai.generate({
         model: GENKIT_CONFIG.LLM_MODEL,
         prompt,
         config: GENKIT_CONFIG.RAG_GENERATION_CONFIG,
+        ...(streamFallback && { onChunk: answerStream?.onTextChunk }),
       });
       responseText = result.text;
     }
@@ -809,6 +1331,22 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
         validatedInput.query,
         responseText,
         relevantFragments,
+        handlers?.onEvaluation,
+      );
+    }
+
+    // Step 6: Make the answer reusable for similar standalone questions
+    if (cacheLookup) {
+      cacheAnswer(
+        validatedInput,
+        queryEmbedding,
+        {
+          query: retrievalQuery,
+          response: responseText,
+          structured,
+          sources: relevantFragments,
+        },
+        cacheLookup.epoch,
       );
     }
 
@@ -822,8 +1360,10 @@ export function createRagQueryService(vectorSearch: VectorSearchFn) {
       metadata: {
         model: GENKIT_CONFIG.LLM_MODEL,
         temperature: GENKIT_CONFIG.RAG_GENERATION_CONFIG.temperature,
-        fragmentsRetrieved: relevantFragments.length,
+        fragmentsRetrieved: candidates.length,
         fragmentsUsed: relevantFragments.length,
+        ...(rewrittenQuery && { rewrittenQuery }),
+        ...(translatedQueries.length > 0 && { translatedQueries }),
       },
     };
   }
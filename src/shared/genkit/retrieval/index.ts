@@ -0,0 +1,36 @@
+/**
+ * Retrieval helpers
+ *
+ * Ranking and query utilities shared by the RAG query flow.
+ */
+
+export {
+  DEFAULT_RRF_K,
+  fuseWithReciprocalRank,
+  type RankedList,
+  type FusedResult,
+} from './reciprocal-rank-fusion';
+
+export {
+  selectTopRanked,
+  type IReranker,
+  type RerankCandidate,
+  type RerankResult,
+} from './reranker.interface';
+
+export { createLexicalOverlapReranker } from './lexical-overlap.reranker';
+
+export { createLlmReranker, LLM_RERANKER_CONFIG } from './llm.reranker';
+
+export {
+  createLlmQueryRewriter,
+  QUERY_REWRITER_CONFIG,
+  type ConversationTurn,
+  type IQueryRewriter,
+} from './query-rewriter';
+
+export {
+  createLlmQueryTranslator,
+  QUERY_TRANSLATOR_CONFIG,
+  type IQueryTranslator,
+} from './query-translator';
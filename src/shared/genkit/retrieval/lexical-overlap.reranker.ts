@@ -0,0 +1,67 @@
+/**
+ * Lexical overlap reranker
+ *
+ * Deterministic reranker that scores each candidate by the fraction of
+ * distinct query terms it contains. No network calls, so it is cheap enough
+ * to run on every query and predictable enough to use in tests and offline
+ * environments.
+ */
+
+import {
+  selectTopRanked,
+  type IReranker,
+  type RerankCandidate,
+  type RerankResult,
+} from './reranker.interface';
+
+/** Terms shorter than this carry little signal (articles, single letters) */
+const MIN_TERM_LENGTH = 2;
+
+/**
+ * Lowercases, strips diacritics and splits text into distinct terms,
+ * so "Vacación" and "vacacion" count as the same term.
+ */
+function tokenize(text: string): Set<string> {
+  const normalized = text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+  const terms = normalized.match(/[\p{L}\p{N}]+/gu) ?? [];
+  return new Set(terms.filter((term) => term.length >= MIN_TERM_LENGTH));
+}
+
+/**
+ * Creates a reranker that scores candidates by query-term coverage.
+ *
+ * score = matched distinct query terms / distinct query terms
+ */
+export function createLexicalOverlapReranker(): IReranker {
+  return {
+    name: 'lexical',
+
+    rerank<T extends RerankCandidate>(
+      query: string,
+      candidates: T[],
+      topN: number,
+    ): Promise<RerankResult<T>[]> {
+      const queryTerms = tokenize(query);
+
+      const scored = candidates.map((item, index) => {
+        if (queryTerms.size === 0) {
+          return { item, score: 0, originalRank: index + 1 };
+        }
+        const contentTerms = tokenize(item.content);
+        let matched = 0;
+        for (const term of queryTerms) {
+          if (contentTerms.has(term)) {
+            matched++;
+          }
+        }
+        return {
+          item,
+          score: matched / queryTerms.size,
+          originalRank: index + 1,
+        };
+      });
+
+      return Promise.resolve(selectTopRanked(scored, topN));
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * LLM reranker
+ *
+ * LLM-as-judge reranker: a single Gemini call scores every candidate
+ * fragment for how well it helps answer the question. More accurate than
+ * embedding similarity for nuanced questions, at the cost of one extra LLM
+ * round-trip per query.
+ *
+ * Uses `zod/v3` for the structured output schema (Genkit compatibility),
+ * same as the RAG structured response schema.
+ */
+
+import type { Genkit } from 'genkit';
+import { z } from 'zod/v3';
+import { GENKIT_CONFIG } from '../genkit.config';
+import {
+  selectTopRanked,
+  type IReranker,
+  type RerankCandidate,
+  type RerankResult,
+} from './reranker.interface';
+
+export const LLM_RERANKER_CONFIG = {
+  /** Deterministic judging */
+  TEMPERATURE: 0,
+  MAX_OUTPUT_TOKENS: 1024,
+  /** Candidate content is truncated to keep the judge prompt small */
+  MAX_CANDIDATE_CHARS: 1200,
+} as const;
+
+const rerankScoresSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int().describe('Candidate number as shown in brackets'),
+      score: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe('Relevance of the candidate to the question (0-1)'),
+    }),
+  ),
+});
+
+type RerankScores = z.infer<typeof rerankScoresSchema>;
+
+function buildRerankPrompt(
+  query: string,
+  candidates: RerankCandidate[],
+): string {
+  const candidateBlock = candidates
+    .map(
+      (c, i) =>
+        `[${i + 1}] ${c.content.slice(0, LLM_RERANKER_CONFIG.MAX_CANDIDATE_CHARS)}`,
+    )
+    .join('\n\n');
+
+  return `You are ranking documentation fragments by how useful they are to answer a user's question.
+
+USER QUESTION:
+${query}
+
+CANDIDATE FRAGMENTS:
+${candidateBlock}
+
+SCORING CRITERIA:
+- Score 1.0: The fragment directly answers the question
+- Score 0.7: The fragment contains important supporting details
+- Score 0.4: The fragment is on the same topic but does not help answer
+- Score 0.0: The fragment is unrelated
+
+Return a score for EVERY candidate, using the number shown in brackets as "index".`;
+}
+
+/**
+ * Creates a reranker that asks the LLM to score all candidates in one call.
+ * Candidates the model does not score get 0; any generation or schema
+ * failure is thrown so the caller can keep the retrieval order.
+ */
+export function createLlmReranker(ai: Genkit): IReranker {
+  type GenerateFn = (
+    opts: Record<string, unknown>,
+  ) => Promise<{ output: RerankScores | null }>;
+  const generate = ai.generate.bind(ai) as unknown as GenerateFn;
+
+  return {
+    name: 'llm',
+
+    async rerank<T extends RerankCandidate>(
+      query: string,
+      candidates: T[],
+      topN: number,
+    ): Promise<RerankResult<T>[]> {
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const result = await generate({
+        model: GENKIT_CONFIG.LLM_MODEL,
+        prompt: buildRerankPrompt(query, candidates),
+        output: { schema: rerankScoresSchema },
+        config: {
+          temperature: LLM_RERANKER_CONFIG.TEMPERATURE,
+          maxOutputTokens: LLM_RERANKER_CONFIG.MAX_OUTPUT_TOKENS,
+        },
+      });
+
+      const { scores } = rerankScoresSchema.parse(result.output);
+      const scoreByIndex = new Map<number, number>();
+      for (const { index, score } of scores) {
+        // Keep the first score if the model repeats an index
+        if (!scoreByIndex.has(index)) {
+          scoreByIndex.set(index, score);
+        }
+      }
+
+      const scored = candidates.map((item, i) => ({
+        item,
+        score: scoreByIndex.get(i + 1) ?? 0,
+        originalRank: i + 1,
+      }));
+
+      return selectTopRanked(scored, topN);
+    },
+  };
+}
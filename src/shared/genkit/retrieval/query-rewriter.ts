@@ -0,0 +1,106 @@
+/**
+ * Query rewriter
+ *
+ * Condenses a follow-up question ("and how many days for that?") plus the
+ * recent conversation turns into a standalone search query, so retrieval
+ * embeds what the user actually means instead of the literal follow-up.
+ */
+
+import type { Genkit } from 'genkit';
+import { GENKIT_CONFIG } from '../genkit.config';
+
+export const QUERY_REWRITER_CONFIG = {
+  /** Deterministic rewrites */
+  TEMPERATURE: 0,
+  MAX_OUTPUT_TOKENS: 256,
+  /** Each history turn is truncated to keep the prompt small */
+  MAX_TURN_CHARS: 500,
+} as const;
+
+/**
+ * A previous message in the conversation (oldest first)
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface IQueryRewriter {
+  /**
+   * Returns a standalone version of `query` given the preceding turns.
+   * Implementations may throw; callers are expected to fall back to the
+   * original query.
+   */
+  rewrite(query: string, history: ConversationTurn[]): Promise<string>;
+}
+
+function buildRewritePrompt(
+  query: string,
+  history: ConversationTurn[],
+): string {
+  const historyBlock = history
+    .map(
+      (turn) =>
+        `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.slice(0, QUERY_REWRITER_CONFIG.MAX_TURN_CHARS)}`,
+    )
+    .join('\n');
+
+  return `Rewrite the user's latest message as a standalone search query for a company documentation search.
+
+CONVERSATION HISTORY:
+${historyBlock}
+
+LATEST MESSAGE:
+${query}
+
+INSTRUCTIONS:
+- Resolve pronouns and references ("that", "it", "the same") using the conversation history
+- Keep the language of the latest message
+- If the latest message is already standalone, return it unchanged
+- Return ONLY the rewritten query, without quotes or explanations`;
+}
+
+const QUOTE_CHARS = `"'«»“”`;
+
+/**
+ * Strips quotes and whitespace the model sometimes wraps the query in
+ */
+export function cleanRewrite(text: string): string {
+  let result = text.trim();
+  while (result.length > 0 && QUOTE_CHARS.includes(result[0] ?? '')) {
+    result = result.slice(1);
+  }
+  while (
+    result.length > 0 &&
+    QUOTE_CHARS.includes(result[result.length - 1] ?? '')
+  ) {
+    result = result.slice(0, -1);
+  }
+  return result.trim();
+}
+
+/**
+ * Creates a query rewriter backed by one Gemini call.
+ * Returns the original query when the model produces an empty rewrite.
+ */
+export function createLlmQueryRewriter(ai: Genkit): IQueryRewriter {
+  return {
+    async rewrite(query: string, history: ConversationTurn[]): Promise<string> {
+      if (history.length === 0) {
+        return query;
+      }
+
+      const result = await ai.generate({
+        model: GENKIT_CONFIG.LLM_MODEL,
+        prompt: buildRewritePrompt(query, history),
+        config: {
+          temperature: QUERY_REWRITER_CONFIG.TEMPERATURE,
+          maxOutputTokens: QUERY_REWRITER_CONFIG.MAX_OUTPUT_TOKENS,
+        },
+      });
+
+      const rewritten = cleanRewrite(result.text);
+      return rewritten.length > 0 ? rewritten : query;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Query translator
+ *
+ * Translates a search query into another language of the knowledge base
+ * ("how many vacation days do I get?" → "¿cuántos días de vacaciones
+ * tengo?"), so it can be searched against fragments written in that
+ * language.
+ */
+
+import type { Genkit } from 'genkit';
+import { GENKIT_CONFIG } from '../genkit.config';
+import { cleanRewrite } from './query-rewriter';
+
+export const QUERY_TRANSLATOR_CONFIG = {
+  /** Deterministic translations */
+  TEMPERATURE: 0,
+  MAX_OUTPUT_TOKENS: 256,
+} as const;
+
+/** Language names given to the model, by ISO 639-1 code */
+const LANGUAGE_NAMES: ReadonlyMap<string, string> = new Map([
+  ['es', 'Spanish'],
+  ['en', 'English'],
+  ['pt', 'Portuguese'],
+  ['fr', 'French'],
+  ['de', 'German'],
+  ['it', 'Italian'],
+]);
+
+export interface IQueryTranslator {
+  /**
+   * Returns `query` translated into `language` (ISO 639-1 code).
+   * Implementations may throw; callers are expected to search with the
+   * original query only.
+   */
+  translate(query: string, language: string): Promise<string>;
+}
+
+function buildTranslatePrompt(query: string, language: string): string {
+  const languageName = LANGUAGE_NAMES.get(language) ?? language;
+
+  return `Translate the following search query for a company documentation search into ${languageName}.
+
+QUERY:
+${query}
+
+INSTRUCTIONS:
+- Keep product names, acronyms and proper nouns as they are
+- Use the terms a company document written in ${languageName} would use
+- If the query is already in ${languageName}, return it unchanged
+- Return ONLY the translated query, without quotes or explanations`;
+}
+
+/**
+ * Creates a query translator backed by one Gemini call per language.
+ * Returns the original query when the model produces an empty translation.
+ */
+export function createLlmQueryTranslator(ai: Genkit): IQueryTranslator {
+  return {
+    async translate(query: string, language: string): Promise<string> {
+      const result = await ai.generate({
+        model: GENKIT_CONFIG.LLM_MODEL,
+        prompt: buildTranslatePrompt(query, language),
+        config: {
+          temperature: QUERY_TRANSLATOR_CONFIG.TEMPERATURE,
+          maxOutputTokens: QUERY_TRANSLATOR_CONFIG.MAX_OUTPUT_TOKENS,
+        },
+      });
+
+      const translated = cleanRewrite(result.text);
+      return translated.length > 0 ? translated : query;
+    },
+  };
+}
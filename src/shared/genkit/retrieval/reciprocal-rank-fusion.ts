@@ -0,0 +1,73 @@
+/**
+ * Reciprocal Rank Fusion (RRF)
+ *
+ * Merges several ranked result lists into a single ranking without having to
+ * normalise their scores (cosine similarity and ts_rank live on different scales).
+ *
+ *   fusedScore(d) = Σ weight_i / (k + rank_i(d))
+ *
+ * Ranks are 1-based. A larger `k` flattens the contribution of top positions.
+ * Reference: Cormack, Clarke & Buettcher (2009).
+ */
+
+/** Standard RRF constant used when none is configured */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * A ranked list to fuse. Items must expose a stable `id` so the same
+ * document retrieved by different strategies is merged into one entry.
+ */
+export interface RankedList<T extends { id: string }> {
+  /** Label stored in the per-item rank breakdown (e.g. 'vector', 'lexical') */
+  name: string;
+  /** Results ordered from best to worst */
+  items: T[];
+  /** Contribution multiplier for this list (0 disables it) */
+  weight: number;
+}
+
+/**
+ * A fused item with its combined score and the 1-based rank it had in each list.
+ * The item is taken from the first list in which it appeared.
+ */
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  ranks: Record<string, number>;
+}
+
+/**
+ * Fuses ranked lists with weighted reciprocal rank fusion.
+ *
+ * @param lists - Ranked lists to merge
+ * @param k - RRF constant (default: 60)
+ * @returns Fused results ordered by descending score (ties keep first-seen order)
+ */
+export function fuseWithReciprocalRank<T extends { id: string }>(
+  lists: RankedList<T>[],
+  k: number = DEFAULT_RRF_K,
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const list of lists) {
+    list.items.forEach((item, index) => {
+      const rank = index + 1;
+      const contribution = list.weight / (k + rank);
+      const existing = fused.get(item.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.ranks[list.name] = rank;
+      } else {
+        fused.set(item.id, {
+          item,
+          score: contribution,
+          ranks: { [list.name]: rank },
+        });
+      }
+    });
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep insertion order
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,55 @@
+/**
+ * Reranker contract
+ *
+ * A reranker reorders the candidate fragments returned by retrieval
+ * (vector or hybrid) by their relevance to the user question, so that the
+ * fragments that reach the generation prompt are the most useful ones and
+ * not just the closest embeddings.
+ */
+
+/**
+ * Minimal shape a candidate needs to be reranked
+ */
+export interface RerankCandidate {
+  id: string;
+  content: string;
+}
+
+/**
+ * A reranked candidate with its relevance score
+ */
+export interface RerankResult<T extends RerankCandidate> {
+  item: T;
+  /** Relevance score in the range 0-1 (higher is more relevant) */
+  score: number;
+  /** 1-based position of the candidate before reranking */
+  originalRank: number;
+}
+
+export interface IReranker {
+  /** Identifier recorded in fragment metadata (e.g. 'llm', 'lexical') */
+  readonly name: string;
+
+  /**
+   * Scores every candidate against the query and returns the best `topN`,
+   * ordered from most to least relevant.
+   * Implementations may throw; callers are expected to fall back to the
+   * original retrieval order.
+   */
+  rerank<T extends RerankCandidate>(
+    query: string,
+    candidates: T[],
+    topN: number,
+  ): Promise<RerankResult<T>[]>;
+}
+
+/**
+ * Sorts scored candidates by descending score and keeps the best `topN`.
+ * Ties keep their original retrieval order (Array.prototype.sort is stable).
+ */
+export function selectTopRanked<T extends RerankCandidate>(
+  scored: RerankResult<T>[],
+  topN: number,
+): RerankResult<T>[] {
+  return [...scored].sort((a, b) => b.score - a.score).slice(0, topN);
+}
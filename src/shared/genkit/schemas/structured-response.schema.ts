@@ -34,6 +34,8 @@ export enum RagResponseType {
   CONVERSATIONAL = 'conversational',
   /** Error during processing */
   ERROR = 'error',
+  /** Answer served from the semantic answer cache (no retrieval or generation) */
+  CACHED = 'cached',
 }
 
 /**
@@ -49,6 +51,12 @@ export const responseSectionSchema = z.object({
     .describe(
       'Section type: "info" for general information, "steps" for procedures, "warning" for important notes, "tip" for helpful advice',
     ),
+  citations: z
+    .array(z.number().int())
+    .optional()
+    .describe(
+      'Numbers of the documentation fragments ([1], [2], ...) that support this section',
+    ),
 });
 
 export type ResponseSection = z.infer<typeof responseSectionSchema>;
@@ -0,0 +1,9 @@
+/**
+ * How a knowledge source is split into fragments
+ */
+export enum ChunkingStrategy {
+  /** Fixed windows of ~500 tokens with a 50 token overlap */
+  FIXED_WINDOW = 'FIXED_WINDOW',
+  /** Along headings and paragraphs, keeping lists and tables whole */
+  STRUCTURED = 'STRUCTURED',
+}
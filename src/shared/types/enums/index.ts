@@ -1,5 +1,6 @@
 export * from './source-type.enum';
 export * from './source-status.enum';
+export * from './chunking-strategy.enum';
 export * from './sector-status.enum';
 export * from './sector-icon.enum';
 export * from './invitation-status.enum';
@@ -4,5 +4,9 @@
 export enum SourceType {
   PDF = 'PDF',
   MARKDOWN = 'MARKDOWN',
+  DOCX = 'DOCX',
+  HTML = 'HTML',
+  TEXT = 'TEXT',
+  CSV = 'CSV',
   URL = 'URL',
 }
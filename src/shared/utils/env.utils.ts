@@ -0,0 +1,52 @@
+/**
+ * Environment Utilities
+ *
+ * Numeric settings are read from environment variables that may be unset,
+ * blank or mistyped, and fall back to a default in all three cases.
+ */
+
+/**
+ * Options of readNumberEnv
+ */
+export interface NumberEnvOptions {
+  /** Extra check on the parsed value (default: any finite number) */
+  isValid?: (value: number) => boolean;
+  /** Called with the raw value when it is set but invalid */
+  onInvalid?: (raw: string) => void;
+}
+
+/**
+ * Parses a numeric env var, falling back when unset or invalid
+ *
+ * @param name - Name of the environment variable
+ * @param fallback - Value used when the variable is unset or invalid
+ * @param options - Validation of the parsed value
+ * @returns The parsed value, or the fallback
+ *
+ * @example
+ * ```typescript
+ * const ttlSeconds = readNumberEnv('RAG_ANSWER_CACHE_TTL_SECONDS', 86_400);
+ * const maxSources = readNumberEnv('KNOWLEDGE_MAX_SOURCES_PER_SECTOR', 500, {
+ *   isValid: (value) => Number.isInteger(value) && value >= 1,
+ * });
+ * ```
+ */
+export function readNumberEnv(
+  name: string,
+  fallback: number,
+  options: NumberEnvOptions = {},
+): number {
+  // eslint-disable-next-line security/detect-object-injection
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  const isValid = options.isValid ?? (() => true);
+  if (!Number.isFinite(value) || !isValid(value)) {
+    options.onInvalid?.(raw);
+    return fallback;
+  }
+  return value;
+}
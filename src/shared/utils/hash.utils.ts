@@ -0,0 +1,23 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Hash Utilities
+ *
+ * Content fingerprints used to detect changes without comparing
+ * full document bodies.
+ */
+
+/**
+ * Computes the SHA-256 digest of a UTF-8 string.
+ *
+ * @param text - Text to hash
+ * @returns Lowercase hex digest (64 characters)
+ *
+ * @example
+ * ```typescript
+ * sha256Hex('hello'); // '2cf24dba5fb0a30e26e83b2ac5b9e29e...'
+ * ```
+ */
+export function sha256Hex(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
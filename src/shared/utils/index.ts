@@ -1 +1,7 @@
 export { extractErrorMessage, extractErrorStack } from './error.utils';
+export { cosineSimilarity } from './vector.utils';
+export { sha256Hex } from './hash.utils';
+export { normalizeTag, normalizeTags } from './tag.utils';
+export { minHashSignature, minHashSimilarity } from './minhash.utils';
+export { detectLanguage } from './language.utils';
+export { readNumberEnv, type NumberEnvOptions } from './env.utils';
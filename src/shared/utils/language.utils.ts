@@ -0,0 +1,77 @@
+/**
+ * Language Utilities
+ *
+ * Lightweight language identification for the languages of the knowledge
+ * base, without a model or network call: texts are scored by their function
+ * words (articles, prepositions, question words), plus a few characters
+ * only one of the languages uses.
+ *
+ * Good enough for fragments and full questions; very short texts with no
+ * distinctive word are left undetected.
+ */
+
+/** Function words per ISO 639-1 code, lowercase and space-separated */
+const STOPWORDS: ReadonlyMap<string, ReadonlySet<string>> = new Map(
+  Object.entries({
+    es:
+      'el la los las de del que y en un una por para con es se lo como más ' +
+      'su sus al son está están pero este esta sobre hay qué cómo cuál ' +
+      'cuáles cuándo dónde cuántos cuántas puedo tengo mi mis ser también muy',
+    en:
+      'the of and to in is are a an for with on that this it be by as or ' +
+      'not from at what how which when where who can do does i my have has ' +
+      'many much should will',
+    pt:
+      'o a os as de do da dos das que e em um uma para com não é se por ' +
+      'mais como no na nos nas ao são está você quantos qual onde quando ' +
+      'posso tenho meu minha',
+    fr:
+      'le la les de des du un une et en est que qui pour dans sur pas ne au ' +
+      'aux avec ce cette il elle je nous vous comment combien quel quelle ' +
+      'où quand sont mon mes',
+  }).map(([language, words]): [string, ReadonlySet<string>] => [
+    language,
+    new Set(words.split(' ')),
+  ]),
+);
+
+/** Characters (or punctuation) specific to one language */
+const MARKERS: ReadonlyMap<string, RegExp> = new Map([
+  ['es', /[ñ¿¡]/g],
+  ['pt', /[ãõ]/g],
+  ['fr', /[èêëœù]/g],
+]);
+
+/**
+ * Detects the language of a text.
+ *
+ * @param text - Text to identify (a question or a document fragment)
+ * @returns ISO 639-1 code ('es', 'en', 'pt' or 'fr'), or undefined when no
+ *   language clearly scores above the others
+ *
+ * @example
+ * ```typescript
+ * detectLanguage('¿Cuántos días de vacaciones tengo?'); // 'es'
+ * detectLanguage('How many vacation days do I have?'); // 'en'
+ * ```
+ */
+export function detectLanguage(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+
+  const scores = new Map<string, number>();
+  for (const [language, stopwords] of STOPWORDS) {
+    const hits = words.filter((word) => stopwords.has(word)).length;
+    const markers = MARKERS.get(language);
+    scores.set(
+      language,
+      hits + (markers ? [...lower.matchAll(markers)].length : 0),
+    );
+  }
+
+  const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] === 0 || (runnerUp && runnerUp[1] === best[1])) {
+    return undefined;
+  }
+  return best[0];
+}
@@ -0,0 +1,108 @@
+/**
+ * MinHash Utilities
+ *
+ * Compact signatures that estimate how much two texts overlap, so near
+ * duplicates can be found without comparing full document bodies.
+ *
+ * Signatures are persisted: changing the shingle size, the signature
+ * length or the hash functions makes stored signatures incomparable.
+ */
+
+// Constants (OWASP: Magic Numbers)
+const SIGNATURE_LENGTH = 128;
+const SHINGLE_SIZE = 3;
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const GOLDEN_RATIO = 0x9e3779b9;
+const MIX_MULTIPLIER_1 = 0x85ebca6b;
+const MIX_MULTIPLIER_2 = 0xc2b2ae35;
+const MIX_SHIFT_1 = 16;
+const MIX_SHIFT_2 = 13;
+const UINT32_MAX = 0xffffffff;
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer: spreads the bits of a 32-bit value
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash = Math.imul(hash ^ (hash >>> MIX_SHIFT_1), MIX_MULTIPLIER_1);
+  hash = Math.imul(hash ^ (hash >>> MIX_SHIFT_2), MIX_MULTIPLIER_2);
+  return (hash ^ (hash >>> MIX_SHIFT_1)) >>> 0;
+}
+
+/**
+ * Hashes of the word shingles of a text (runs of 3 consecutive words,
+ * case-insensitive, punctuation ignored)
+ */
+function shingleHashes(text: string): Set<number> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const hashes = new Set<number>();
+  const last = Math.max(words.length - SHINGLE_SIZE, 0);
+  for (let i = 0; i <= last && words.length > 0; i++) {
+    hashes.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return hashes;
+}
+
+/**
+ * Computes the MinHash signature of a text over its 3-word shingles.
+ *
+ * @param text - Text to sign
+ * @returns 128 unsigned 32-bit integers (empty if the text has no words)
+ *
+ * @example
+ * ```typescript
+ * const a = minHashSignature(handbook);
+ * const b = minHashSignature(revisedHandbook);
+ * minHashSimilarity(a, b); // ~0.9
+ * ```
+ */
+export function minHashSignature(text: string): number[] {
+  const hashes = shingleHashes(text);
+  if (hashes.size === 0) {
+    return [];
+  }
+
+  return Array.from({ length: SIGNATURE_LENGTH }, (_, i) => {
+    const seed = Math.imul(i + 1, GOLDEN_RATIO);
+    let min = UINT32_MAX;
+    for (const hash of hashes) {
+      min = Math.min(min, mix(hash ^ seed));
+    }
+    return min;
+  });
+}
+
+/**
+ * Estimates the Jaccard similarity of the shingles of two texts from
+ * their MinHash signatures.
+ *
+ * @param a - Signature of the first text
+ * @param b - Signature of the second text
+ * @returns Similarity in [0, 1] (0 if a signature is empty or they differ in length)
+ */
+export function minHashSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection
+    if (a[i] === b[i]) {
+      matches++;
+    }
+  }
+  return matches / a.length;
+}
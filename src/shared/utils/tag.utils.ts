@@ -0,0 +1,33 @@
+/**
+ * Tag Utilities
+ *
+ * Tags are compared case-insensitively, so they are stored and matched in
+ * a canonical form.
+ */
+
+/**
+ * Canonical form of a tag: trimmed, inner whitespace collapsed to a
+ * single space, lowercased.
+ *
+ * @param tag - Tag as entered by a user
+ * @returns Normalized tag (empty if the input is blank)
+ *
+ * @example
+ * ```typescript
+ * normalizeTag('  Human   Resources '); // 'human resources'
+ * ```
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Normalizes a list of tags, dropping blanks and duplicates.
+ *
+ * @param tags - Tags as entered by a user
+ * @returns Normalized tags, in first-seen order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map(normalizeTag).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
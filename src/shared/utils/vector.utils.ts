@@ -0,0 +1,44 @@
+/**
+ * Vector Utilities
+ *
+ * Small numeric helpers for comparing embeddings in-process
+ * (outside the vector store).
+ */
+
+/**
+ * Computes the cosine similarity between two vectors.
+ *
+ * @param a - First vector
+ * @param b - Second vector (must have the same length as `a`)
+ * @returns Similarity in [-1, 1]; 0 when either vector has zero magnitude
+ * @throws {Error} If the vectors have different dimensions
+ *
+ * @example
+ * ```typescript
+ * cosineSimilarity([1, 0], [1, 0]); // 1
+ * cosineSimilarity([1, 0], [0, 1]); // 0
+ * ```
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection
+    const x = a[i];
+    // eslint-disable-next-line security/detect-object-injection
+    const y = b[i];
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
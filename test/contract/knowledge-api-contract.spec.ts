@@ -29,16 +29,28 @@ describe('Knowledge API Contract – DTO & Enum Validation', () => {
   // SourceType enum
   // ====================================================================
   describe('SourceType enum', () => {
-    it('should contain exactly PDF, MARKDOWN, URL', () => {
+    it('should contain exactly PDF, MARKDOWN, DOCX, HTML, TEXT, CSV, URL', () => {
       expect(Object.values(SourceType)).toEqual(
-        expect.arrayContaining(['PDF', 'MARKDOWN', 'URL']),
+        expect.arrayContaining([
+          'PDF',
+          'MARKDOWN',
+          'DOCX',
+          'HTML',
+          'TEXT',
+          'CSV',
+          'URL',
+        ]),
       );
-      expect(Object.values(SourceType)).toHaveLength(3);
+      expect(Object.values(SourceType)).toHaveLength(7);
     });
 
     it('should expose correct string values', () => {
       expect(SourceType.PDF).toBe('PDF');
       expect(SourceType.MARKDOWN).toBe('MARKDOWN');
+      expect(SourceType.DOCX).toBe('DOCX');
+      expect(SourceType.HTML).toBe('HTML');
+      expect(SourceType.TEXT).toBe('TEXT');
+      expect(SourceType.CSV).toBe('CSV');
       expect(SourceType.URL).toBe('URL');
     });
   });
@@ -110,47 +122,31 @@ describe('Knowledge API Contract – DTO & Enum Validation', () => {
   // IngestDocumentResult contract
   // ====================================================================
   describe('IngestDocumentResult', () => {
-    it('should have the expected shape on success', () => {
+    it('should have the expected shape when accepted', () => {
       const result: IngestDocumentResult = {
         sourceId: VALID_UUID,
         title: 'Handbook',
-        fragmentCount: 12,
         contentSize: 35400,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       expect(result).toMatchObject({
         sourceId: expect.any(String),
         title: expect.any(String),
-        fragmentCount: expect.any(Number),
         contentSize: expect.any(Number),
-        status: 'COMPLETED',
+        status: 'PENDING',
       });
-      expect(result.errorMessage).toBeUndefined();
     });
 
-    it('should have the expected shape on failure', () => {
+    it('should not report fragments (ingestion continues in the background)', () => {
       const result: IngestDocumentResult = {
         sourceId: VALID_UUID,
-        title: 'Bad PDF',
-        fragmentCount: 0,
-        contentSize: 0,
-        status: 'FAILED',
-        errorMessage: 'Unable to parse PDF',
+        title: 'Handbook',
+        contentSize: 35400,
+        status: SourceStatus.PENDING,
       };
 
-      expect(result.status).toBe('FAILED');
-      expect(result.errorMessage).toBe('Unable to parse PDF');
-      expect(result.fragmentCount).toBe(0);
-    });
-
-    it('status field should only allow COMPLETED or FAILED', () => {
-      const validStatuses: IngestDocumentResult['status'][] = [
-        'COMPLETED',
-        'FAILED',
-      ];
-      expect(validStatuses).toContain('COMPLETED');
-      expect(validStatuses).toContain('FAILED');
+      expect(result).not.toHaveProperty('fragmentCount');
     });
   });
 
@@ -5,6 +5,7 @@ import { DataSource } from 'typeorm';
 import { AppModule } from '../../src/app.module';
 import { SourceType, SourceStatus } from '@shared/types';
 import { KnowledgeRepository } from '../../src/modules/knowledge/infrastructure/persistence/repositories/knowledge.repository';
+import { waitForIngestion } from '../helpers/wait.helper';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { createDefaultTestPdf } from '../fixtures/create-test-pdf';
@@ -127,11 +128,11 @@ describe('Document Ingestion E2E Tests', () => {
         });
 
       // Assert HTTP Response
-      expect(response.status).toBe(201);
+      expect(response.status).toBe(202);
       expect(response.body).toHaveProperty('sourceId');
-      expect(response.body).toHaveProperty('status', SourceStatus.COMPLETED);
-      expect(response.body).toHaveProperty('fragmentCount');
-      expect(response.body.fragmentCount).toBeGreaterThan(0);
+      expect(response.body).toHaveProperty('status', SourceStatus.PENDING);
+
+      await waitForIngestion(repository, response.body.sourceId);
 
       // Verify database persistence (relational data)
       const source = await repository.findSourceById(response.body.sourceId);
@@ -143,7 +144,7 @@ describe('Document Ingestion E2E Tests', () => {
       const fragments = await repository.findFragmentsBySource(
         response.body.sourceId,
       );
-      expect(fragments.length).toBe(response.body.fragmentCount);
+      expect(fragments.length).toBeGreaterThan(0);
       expect(fragments[0].content).toBeDefined();
       expect(fragments[0].position).toBe(0);
     });
@@ -164,14 +165,17 @@ describe('Document Ingestion E2E Tests', () => {
         });
 
       // Assert HTTP Response
-      expect(response.status).toBe(201);
+      expect(response.status).toBe(202);
       expect(response.body).toHaveProperty('sourceId');
-      expect(response.body.status).toBe(SourceStatus.COMPLETED);
+      expect(response.body.status).toBe(SourceStatus.PENDING);
+
+      await waitForIngestion(repository, response.body.sourceId);
 
       // Verify database persistence
       const source = await repository.findSourceById(response.body.sourceId);
       expect(source).toBeDefined();
       expect(source!.sourceType).toBe(SourceType.PDF);
+      expect(source!.status).toBe(SourceStatus.COMPLETED);
     });
 
     it('should handle metadata in document upload', async () => {
@@ -197,10 +201,11 @@ describe('Document Ingestion E2E Tests', () => {
         });
 
       // Assert
-      expect(response.status).toBe(201);
+      expect(response.status).toBe(202);
 
       const source = await repository.findSourceById(response.body.sourceId);
       expect(source!.metadata).toMatchObject(metadata);
+      await waitForIngestion(repository, response.body.sourceId);
     });
 
     it('should return 400 for missing required fields', async () => {
@@ -293,13 +298,14 @@ describe('Document Ingestion E2E Tests', () => {
         });
 
       // Assert
-      expect(response.status).toBe(201);
-      expect(response.body.fragmentCount).toBeGreaterThan(1);
+      expect(response.status).toBe(202);
+      await waitForIngestion(repository, response.body.sourceId);
 
       // Verify fragments are ordered correctly
       const fragments = await repository.findFragmentsBySource(
         response.body.sourceId,
       );
+      expect(fragments.length).toBeGreaterThan(1);
       for (let i = 0; i < fragments.length - 1; i++) {
         expect(fragments[i].position).toBeLessThan(fragments[i + 1].position);
       }
@@ -327,9 +333,14 @@ describe('Document Ingestion E2E Tests', () => {
 
       // Assert
       responses.forEach((response) => {
-        expect(response.status).toBe(201);
-        expect(response.body.status).toBe(SourceStatus.COMPLETED);
+        expect(response.status).toBe(202);
+        expect(response.body.status).toBe(SourceStatus.PENDING);
       });
+      await Promise.all(
+        responses.map((response) =>
+          waitForIngestion(repository, response.body.sourceId),
+        ),
+      );
 
       // Verify all sources were created
       const sources = await repository.findSourcesBySector(validSectorId);
@@ -108,6 +108,7 @@ import { DataSource } from 'typeorm';
 import { AppModule } from '../../src/app.module';
 import { SourceType, SourceStatus } from '@shared/types';
 import { KnowledgeRepository } from '../../src/modules/knowledge/infrastructure/persistence/repositories/knowledge.repository';
+import { waitForIngestion } from '../helpers/wait.helper';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -181,10 +182,11 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
+      await waitForIngestion(repository, response.body.sourceId);
+
       // Verify HTTP response
-      expect(response.status).toBe(201);
-      expect(response.body.status).toBe(SourceStatus.COMPLETED);
-      expect(response.body.fragmentCount).toBeGreaterThan(0);
+      expect(response.status).toBe(202);
+      expect(response.body.status).toBe(SourceStatus.PENDING);
 
       // Verify source saved in PostgreSQL
       const source = await repository.findSourceById(response.body.sourceId);
@@ -195,7 +197,7 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
       const fragments = await repository.findFragmentsBySource(
         response.body.sourceId,
       );
-      expect(fragments.length).toBe(response.body.fragmentCount);
+      expect(fragments.length).toBeGreaterThan(0);
 
       // Verify vectors upserted to Pinecone
       expect(mockPineconeUpsert).toHaveBeenCalled();
@@ -221,7 +223,7 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
       const markdownPath = join(__dirname, '../fixtures/test-document.md');
       const markdownContent = readFileSync(markdownPath);
 
-      await request(app.getHttpServer())
+      const uploadResponse = await request(app.getHttpServer())
         .post('/api/v1/knowledge/documents/upload')
         .field('title', 'Embedding Test')
         .field('sectorId', validSectorId)
@@ -231,6 +233,8 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
+      await waitForIngestion(repository, uploadResponse.body.sourceId);
+
       // Embedding service should have been called for each fragment
       expect(mockEmbedFn).toHaveBeenCalled();
     });
@@ -238,7 +242,7 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
     it('should use sectorId as Pinecone namespace', async () => {
       const markdownContent = Buffer.from('# Test\n\nSimple test content for namespace verification.');
 
-      await request(app.getHttpServer())
+      const uploadResponse = await request(app.getHttpServer())
         .post('/api/v1/knowledge/documents/upload')
         .field('title', 'Namespace Test')
         .field('sectorId', validSectorId)
@@ -248,6 +252,8 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
+      await waitForIngestion(repository, uploadResponse.body.sourceId);
+
       // Verify that Pinecone was called (namespace is set internally by PineconeVectorStore)
       expect(mockPineconeUpsert).toHaveBeenCalled();
     });
@@ -317,7 +323,9 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
-      expect(ingestResponse.status).toBe(201);
+      await waitForIngestion(repository, ingestResponse.body.sourceId);
+
+      expect(ingestResponse.status).toBe(202);
       const sourceId = ingestResponse.body.sourceId;
 
       // Verify source and fragments exist
@@ -383,6 +391,8 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
+      await waitForIngestion(repository, ingestResponse.body.sourceId);
+
       const sourceId = ingestResponse.body.sourceId;
 
       // Make Pinecone delete fail
@@ -415,10 +425,17 @@ describe('Knowledge Pipeline E2E Tests (Phase 6B.6)', () => {
           contentType: 'text/markdown',
         });
 
-      expect(response.status).toBe(201);
-      expect(response.body.status).toBe(SourceStatus.COMPLETED);
-      expect(response.body.fragmentCount).toBeGreaterThan(0);
+      await waitForIngestion(repository, response.body.sourceId);
+
+      expect(response.status).toBe(202);
       expect(response.body.contentSize).toBeGreaterThan(0);
+
+      const source = await repository.findSourceById(response.body.sourceId);
+      expect(source?.status).toBe(SourceStatus.COMPLETED);
+      const fragmentCount = await repository.countFragmentsBySource(
+        response.body.sourceId,
+      );
+      expect(fragmentCount).toBeGreaterThan(0);
     });
   });
 });
@@ -0,0 +1,102 @@
+import { deflateRawSync } from 'zlib';
+
+/**
+ * Creates a ZIP archive buffer for testing
+ *
+ * Writes local file headers, the central directory and the end of central
+ * directory record. CRCs are left at zero (the reader under test does not
+ * verify them).
+ *
+ * @param entries - Entry path → text content
+ * @param compress - Deflate entries (true) or store them uncompressed
+ * @returns Buffer containing the archive
+ */
+export function createTestZipBuffer(
+  entries: Record<string, string>,
+  compress = true,
+): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const raw = Buffer.from(text, 'utf-8');
+    const data = compress ? deflateRawSync(raw) : raw;
+    const method = compress ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBytes, data);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralParts.length / 2, 8);
+  end.writeUInt16LE(centralParts.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Creates a minimal Word (.docx) document buffer for testing
+ *
+ * @param bodyXml - Content of <w:body> (paragraphs and tables)
+ * @param options - Optional styles.xml and docProps/core.xml content
+ * @returns Buffer containing the .docx archive
+ */
+export function createTestDocxBuffer(
+  bodyXml: string,
+  options: { stylesXml?: string; coreXml?: string } = {},
+): Buffer {
+  const entries: Record<string, string> = {
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+    'word/document.xml':
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      `<w:body>${bodyXml}<w:sectPr/></w:body></w:document>`,
+  };
+  if (options.stylesXml) {
+    entries['word/styles.xml'] =
+      '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      `${options.stylesXml}</w:styles>`;
+  }
+  if (options.coreXml) {
+    entries['docProps/core.xml'] =
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+      `${options.coreXml}</cp:coreProperties>`;
+  }
+  return createTestZipBuffer(entries);
+}
+
+/**
+ * Builds a <w:p> paragraph with a single text run
+ * @param text - Paragraph text (XML-escaped by the caller)
+ * @param properties - Optional <w:pPr> content (style, numbering, outline)
+ */
+export function docxParagraph(text: string, properties = ''): string {
+  const pPr = properties ? `<w:pPr>${properties}</w:pPr>` : '';
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
@@ -7,8 +7,12 @@
  * Phase 7.2: E2E Test Helpers and Utilities
  */
 
+import type { IKnowledgeRepository } from '../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+
 const DEFAULT_POLL_INTERVAL_MS = 500;
 const DEFAULT_MAX_WAIT_MS = 30_000;
+const INGESTION_POLL_INTERVAL_MS = 50;
+const INGESTION_MAX_WAIT_MS = 5_000;
 
 /**
  * Sleep for a given number of milliseconds.
@@ -60,6 +64,36 @@ export async function waitUntil(
   );
 }
 
+/**
+ * Poll a knowledge source until its background ingestion job has finished,
+ * successfully or not.
+ *
+ * @param repository - Repository the source is read from
+ * @param sourceId - ID returned by the ingestion endpoint
+ * @throws Error if the job has not finished in time
+ *
+ * @example
+ * ```ts
+ * await waitForIngestion(repository, response.body.sourceId);
+ * ```
+ */
+export async function waitForIngestion(
+  repository: Pick<IKnowledgeRepository, 'findSourceById'>,
+  sourceId: string,
+): Promise<void> {
+  await waitUntil(
+    async () => {
+      const source = await repository.findSourceById(sourceId);
+      return !!source && (source.isCompleted() || source.hasFailed());
+    },
+    {
+      maxWaitMs: INGESTION_MAX_WAIT_MS,
+      pollIntervalMs: INGESTION_POLL_INTERVAL_MS,
+      label: `ingestion of source ${sourceId}`,
+    },
+  );
+}
+
 /**
  * Measure the execution time of an async operation.
  *
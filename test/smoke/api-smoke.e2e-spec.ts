@@ -145,9 +145,9 @@ class SmokeInteractionController {
 @Controller('api/v1/knowledge')
 class SmokeKnowledgeController {
   @Post('documents/upload')
-  @HttpCode(HttpStatus.CREATED)
+  @HttpCode(HttpStatus.ACCEPTED)
   uploadDocument(): { sourceId: string; status: string } {
-    return { sourceId: 'src-smoke-1', status: 'COMPLETED' };
+    return { sourceId: 'src-smoke-1', status: 'PENDING' };
   }
 
   @Delete('documents/:id')
@@ -267,15 +267,15 @@ describe('API Smoke Tests (Phase 7.16)', () => {
   // 5. Knowledge Endpoints
   // ==================================================================
   describe('Knowledge Endpoints', () => {
-    it('POST /api/v1/knowledge/documents/upload → 201', async () => {
+    it('POST /api/v1/knowledge/documents/upload → 202', async () => {
       const res = await request(app.getHttpServer())
         .post('/api/v1/knowledge/documents/upload')
         .set('Authorization', 'Bearer admin-token')
         .send({})
-        .expect(201);
+        .expect(202);
 
       expect(res.body).toHaveProperty('sourceId');
-      expect(res.body).toHaveProperty('status', 'COMPLETED');
+      expect(res.body).toHaveProperty('status', 'PENDING');
     });
 
     it('DELETE /api/v1/knowledge/documents/:id → 200', async () => {
@@ -60,23 +60,35 @@ describe('MVP Validation Checklist (Phase 7.12)', () => {
       expect(pipeline).toHaveLength(4);
     });
 
-    it('✅ IngestDocumentResult includes sourceId, fragmentCount, status', () => {
+    it('✅ IngestDocumentResult includes sourceId, contentSize, status', () => {
       const resultShape = {
         sourceId: 'string',
         title: 'string',
-        fragmentCount: 'number',
         contentSize: 'number',
-        status: 'COMPLETED | FAILED',
+        status: 'PENDING',
       };
       expect(Object.keys(resultShape)).toEqual(
         expect.arrayContaining([
           'sourceId',
-          'fragmentCount',
+          'contentSize',
           'status',
         ]),
       );
     });
 
+    it('✅ Ingestion status endpoint reports step and progress', () => {
+      const statusShape = {
+        sourceId: 'string',
+        status: 'PENDING | PROCESSING | COMPLETED | FAILED',
+        currentStep: 'string',
+        progress: 'number',
+        fragmentCount: 'number',
+      };
+      expect(Object.keys(statusShape)).toEqual(
+        expect.arrayContaining(['status', 'currentStep', 'progress']),
+      );
+    });
+
     it('✅ Cascade delete removes fragments and vectors', () => {
       const deleteResult = {
         sourceId: 'uuid',
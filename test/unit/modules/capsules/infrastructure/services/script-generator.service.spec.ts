@@ -13,6 +13,15 @@ const mockEmbeddingService = {
   generateEmbedding: jest.fn(),
 };
 
+const activeIndex = {
+  namespace: 'sector-1--g2',
+  getProfile: () => ({ model: 'vertexai/text-embedding-005', dimensions: 768 }),
+};
+
+const mockEmbeddingIndexService = {
+  getActiveIndex: jest.fn(),
+};
+
 const mockGenerate = jest.fn();
 
 describe('ScriptGeneratorService', () => {
@@ -23,9 +32,11 @@ describe('ScriptGeneratorService', () => {
     (getCapsuleGenkitInstance as jest.Mock).mockReturnValue({
       generate: mockGenerate,
     });
+    mockEmbeddingIndexService.getActiveIndex.mockResolvedValue(activeIndex);
     service = new ScriptGeneratorService(
       mockVectorStore as never,
       mockEmbeddingService as never,
+      mockEmbeddingIndexService as never,
     );
   });
 
@@ -53,6 +64,17 @@ describe('ScriptGeneratorService', () => {
       expect(result.script).toBe('A well-crafted audio script.');
       expect(result.description).toBe('Short description.');
       expect(mockGenerate).toHaveBeenCalledTimes(2);
+      expect(mockEmbeddingService.generateEmbedding).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { model: 'vertexai/text-embedding-005', dimensions: 768 },
+      );
+      expect(mockVectorStore.vectorSearch).toHaveBeenCalledWith(
+        [0.1, 0.2],
+        'sector-1--g2',
+        expect.any(Number),
+        expect.any(Number),
+      );
     });
   });
 
@@ -0,0 +1,86 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { AnswerCacheInvalidationListener } from '@modules/interaction/application/listeners/answer-cache-invalidation.listener';
+import type { IAnswerCache } from '@modules/interaction/domain/services/answer-cache.interface';
+import {
+  EmbeddingIndexSwitchedEvent,
+  KnowledgeFragmentsCuratedEvent,
+  KnowledgeSourceDeletedEvent,
+  KnowledgeSourceIngestedEvent,
+} from '@modules/knowledge/domain/events/knowledge.events';
+
+describe('AnswerCacheInvalidationListener', () => {
+  let answerCache: jest.Mocked<IAnswerCache>;
+  let listener: AnswerCacheInvalidationListener;
+
+  beforeEach(() => {
+    answerCache = {
+      lookup: jest.fn(),
+      store: jest.fn(),
+      invalidateSector: jest
+        .fn<IAnswerCache['invalidateSector']>()
+        .mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IAnswerCache>;
+    listener = new AnswerCacheInvalidationListener(answerCache);
+  });
+
+  it('should invalidate the sector when a source is ingested', async () => {
+    await listener.handleSourceIngested(
+      new KnowledgeSourceIngestedEvent(
+        'source-1',
+        'sector-1',
+        'Handbook',
+        12,
+        new Date(),
+      ),
+    );
+
+    expect(answerCache.invalidateSector).toHaveBeenCalledWith('sector-1');
+  });
+
+  it('should invalidate the sector when a source is deleted', async () => {
+    await listener.handleSourceDeleted(
+      new KnowledgeSourceDeletedEvent('source-1', 'sector-1', new Date()),
+    );
+
+    expect(answerCache.invalidateSector).toHaveBeenCalledWith('sector-1');
+  });
+
+  it('should invalidate the sector when fragments are curated', async () => {
+    await listener.handleFragmentsCurated(
+      new KnowledgeFragmentsCuratedEvent(
+        'source-1',
+        'sector-1',
+        2,
+        1,
+        new Date(),
+      ),
+    );
+
+    expect(answerCache.invalidateSector).toHaveBeenCalledWith('sector-1');
+  });
+
+  it('should invalidate the sector when its embedding index is switched', async () => {
+    await listener.handleEmbeddingIndexSwitched(
+      new EmbeddingIndexSwitchedEvent(
+        'sector-1',
+        'index-2',
+        'sector-1--g2',
+        'vertexai/gemini-embedding-001',
+        768,
+        new Date(),
+      ),
+    );
+
+    expect(answerCache.invalidateSector).toHaveBeenCalledWith('sector-1');
+  });
+
+  it('should not throw when invalidation fails', async () => {
+    answerCache.invalidateSector.mockRejectedValue(new Error('boom'));
+
+    await expect(
+      listener.handleSourceDeleted(
+        new KnowledgeSourceDeletedEvent('source-1', 'sector-1', new Date()),
+      ),
+    ).resolves.toBeUndefined();
+  });
+});
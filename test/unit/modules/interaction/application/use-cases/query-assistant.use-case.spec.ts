@@ -1,11 +1,23 @@
-import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import { Logger } from '@nestjs/common';
 import { QueryAssistantUseCase } from '@modules/interaction/application/use-cases/query-assistant.use-case';
 import { IConversationRepository } from '@modules/interaction/domain/repositories/conversation.repository.interface';
+import { IAnswerEvaluationRepository } from '@modules/interaction/domain/repositories/answer-evaluation.repository.interface';
+import { AnswerEvaluation } from '@modules/interaction/domain/entities/answer-evaluation.entity';
 import { Conversation } from '@modules/interaction/domain/entities/conversation.entity';
 import { Message } from '@modules/interaction/domain/entities/message.entity';
 import {
+  RagAnswerEvaluation,
   RagQueryInput,
   RagQueryOutput,
+  RagQueryStreamHandlers,
   RagResponseType,
 } from '@shared/genkit/flows/rag-query.flow';
 
@@ -270,6 +282,7 @@ describe('QueryAssistantUseCase', () => {
           conversationContext: expect.stringContaining('Previous question'),
           conversationId: conversation.id,
         }),
+        undefined,
       );
     });
   });
@@ -304,6 +317,7 @@ describe('QueryAssistantUseCase', () => {
           sectorId: testSectorId,
           conversationId: 'conv-123',
         }),
+        undefined,
       );
     });
 
@@ -341,6 +355,52 @@ describe('QueryAssistantUseCase', () => {
           maxResults: customMaxResults,
           minSimilarity: customMinSimilarity,
         }),
+        undefined,
+      );
+    });
+
+    it('should pass normalized tag filters as the retrieval filter', async () => {
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        new Conversation({ userId: testUserId, sectorId: testSectorId }),
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+        searchOptions: { sourceIds: [], tags: [' HR ', 'hr'] },
+      });
+
+      expect(mockRagQueryFlow).toHaveBeenCalledWith(
+        expect.objectContaining({ retrievalFilter: { tags: ['hr'] } }),
+        undefined,
+      );
+    });
+
+    it('should not send a retrieval filter without sources or tags', async () => {
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        new Conversation({ userId: testUserId, sectorId: testSectorId }),
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+        searchOptions: { sourceIds: [], tags: [] },
+      });
+
+      expect(mockRagQueryFlow.mock.calls[0][0]).not.toHaveProperty(
+        'retrievalFilter',
       );
     });
   });
@@ -632,6 +692,684 @@ describe('QueryAssistantUseCase', () => {
     });
   });
 
+  describe('Streaming', () => {
+    it('should forward stream handlers to the RAG query flow', async () => {
+      const conversation = new Conversation({
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+      const handlers = { onRetrieval: jest.fn(), onToken: jest.fn() };
+
+      await useCase.execute(
+        {
+          userContext: { userId: testUserId, sectorId: testSectorId },
+          query: testQuery,
+        },
+        handlers,
+      );
+
+      expect(mockRagQueryFlow).toHaveBeenCalledWith(
+        expect.objectContaining({ query: testQuery }),
+        expect.any(Object),
+      );
+      const flowHandlers = (
+        mockRagQueryFlow.mock.calls[0] as unknown[]
+      )[1] as RagQueryStreamHandlers;
+      flowHandlers.onRetrieval?.([]);
+      flowHandlers.onToken?.('Hello');
+      expect(handlers.onRetrieval).toHaveBeenCalledWith([]);
+      expect(handlers.onToken).toHaveBeenCalledWith('Hello');
+    });
+
+    describe('rate-limit retries', () => {
+      const rateLimitError = new Error('429 RESOURCE_EXHAUSTED');
+      const answer = {
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      };
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        mockConversationRepository.findByUserAndSector.mockResolvedValue(
+          new Conversation({ userId: testUserId, sectorId: testSectorId }),
+        );
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const streamThenFail = ((
+        _input: RagQueryInput,
+        handlers?: RagQueryStreamHandlers,
+      ) => {
+        handlers?.onRetrieval?.([]);
+        handlers?.onToken?.('Partial');
+        return Promise.reject(rateLimitError);
+      }) as unknown as RagQueryFlowService;
+
+      it('should retry a rate-limited query that streamed nothing', async () => {
+        mockRagQueryFlow
+          .mockRejectedValueOnce(rateLimitError)
+          .mockResolvedValueOnce(answer);
+        const onReset = jest.fn();
+
+        const execution = useCase.execute(
+          {
+            userContext: { userId: testUserId, sectorId: testSectorId },
+            query: testQuery,
+          },
+          { onToken: jest.fn(), onReset },
+        );
+        await jest.advanceTimersByTimeAsync(2000);
+        const result = await execution;
+
+        expect(result.response).toBe('Test response');
+        expect(mockRagQueryFlow).toHaveBeenCalledTimes(2);
+        expect(onReset).not.toHaveBeenCalled();
+      });
+
+      it('should reset the stream before retrying a query rate-limited mid-stream', async () => {
+        const events: string[] = [];
+        mockRagQueryFlow
+          .mockImplementationOnce(streamThenFail)
+          .mockImplementationOnce(((
+            _input: RagQueryInput,
+            handlers?: RagQueryStreamHandlers,
+          ) => {
+            handlers?.onToken?.('Test response');
+            return Promise.resolve(answer);
+          }) as unknown as RagQueryFlowService);
+
+        const execution = useCase.execute(
+          {
+            userContext: { userId: testUserId, sectorId: testSectorId },
+            query: testQuery,
+          },
+          {
+            onRetrieval: () => events.push('retrieval'),
+            onToken: (delta) => events.push(`token:${delta}`),
+            onReset: () => events.push('reset'),
+          },
+        );
+        await jest.advanceTimersByTimeAsync(2000);
+        await execution;
+
+        expect(events).toEqual([
+          'retrieval',
+          'token:Partial',
+          'reset',
+          'token:Test response',
+        ]);
+      });
+
+      it('should not retry a query rate-limited mid-stream without a reset handler', async () => {
+        mockRagQueryFlow.mockImplementation(streamThenFail);
+        const onToken = jest.fn();
+
+        await expect(
+          useCase.execute(
+            {
+              userContext: { userId: testUserId, sectorId: testSectorId },
+              query: testQuery,
+            },
+            { onToken },
+          ),
+        ).rejects.toThrow('429 RESOURCE_EXHAUSTED');
+        expect(mockRagQueryFlow).toHaveBeenCalledTimes(1);
+        expect(onToken).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should return the IDs of the persisted messages', async () => {
+      const conversation = new Conversation({
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      const [userMessage, assistantMessage] = conversation.getLastMessages(2);
+      expect(result.userMessageId).toBe(userMessage.id);
+      expect(result.assistantMessageId).toBe(assistantMessage.id);
+      expect(assistantMessage.content).toBe('Test response');
+      expect(mockConversationRepository.save).toHaveBeenCalledWith(
+        conversation,
+      );
+    });
+  });
+
+  describe('Follow-up Rewriting', () => {
+    it('should pass the last messages (oldest first) as conversation history', async () => {
+      const conversation = new Conversation({
+        id: 'conv-123',
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      conversation.addMessage(
+        new Message({
+          conversationId: 'conv-123',
+          role: 'user',
+          content: 'What is the vacation policy?',
+        }),
+      );
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      // Repository returns the most recent messages first
+      mockConversationRepository.getMessages.mockResolvedValue([
+        new Message({
+          conversationId: 'conv-123',
+          role: 'assistant',
+          content: '23 working days per year.',
+        }),
+        new Message({
+          conversationId: 'conv-123',
+          role: 'user',
+          content: 'What is the vacation policy?',
+        }),
+      ]);
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: 'and how many days in advance?',
+      });
+
+      expect(mockConversationRepository.getMessages).toHaveBeenCalledWith(
+        'conv-123',
+        { limit: 6, order: 'DESC' },
+      );
+      expect(mockRagQueryFlow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: 'and how many days in advance?',
+          conversationHistory: [
+            { role: 'user', content: 'What is the vacation policy?' },
+            { role: 'assistant', content: '23 working days per year.' },
+          ],
+        }),
+        undefined,
+      );
+    });
+
+    it('should not load history for a new conversation', async () => {
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        undefined,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      expect(mockConversationRepository.getMessages).not.toHaveBeenCalled();
+      expect(mockRagQueryFlow).toHaveBeenCalledWith(
+        expect.not.objectContaining({ conversationHistory: expect.anything() }),
+        undefined,
+      );
+    });
+
+    it('should store the rewritten query in the assistant message metadata', async () => {
+      const conversation = new Conversation({
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+        metadata: {
+          model: 'test-model',
+          temperature: 0.3,
+          fragmentsRetrieved: 0,
+          fragmentsUsed: 0,
+          rewrittenQuery: 'How many vacation days are there per year?',
+        },
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: 'and per year?',
+      });
+
+      const [assistantMessage] = conversation.getLastMessages(1);
+      expect(assistantMessage.metadata?.rewrittenQuery).toBe(
+        'How many vacation days are there per year?',
+      );
+    });
+
+    it('should store the translated queries in the assistant message metadata', async () => {
+      const conversation = new Conversation({
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      const translatedQueries = [
+        { language: 'es', query: '¿Cuántos días de vacaciones hay al año?' },
+      ];
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+        metadata: {
+          model: 'test-model',
+          temperature: 0.3,
+          fragmentsRetrieved: 0,
+          fragmentsUsed: 0,
+          translatedQueries,
+        },
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: 'How many vacation days are there per year?',
+      });
+
+      const [assistantMessage] = conversation.getLastMessages(1);
+      expect(assistantMessage.metadata?.translatedQueries).toEqual(
+        translatedQueries,
+      );
+    });
+  });
+
+  describe('Evaluation Persistence', () => {
+    let mockEvaluationRepository: jest.Mocked<IAnswerEvaluationRepository>;
+    let conversation: Conversation;
+
+    const ragEvaluation: RagAnswerEvaluation = {
+      evaluation: {
+        faithfulness: { score: 0.9, status: 'PASS', reasoning: 'Grounded' },
+        relevancy: { score: 0.3, status: 'FAIL', reasoning: 'Off topic' },
+      },
+      model: 'test-model',
+      fragmentIds: ['frag-1'],
+    };
+
+    const flushBackgroundWork = () =>
+      new Promise((resolve) => setImmediate(resolve));
+
+    const handlersPassedToFlow = () =>
+      (mockRagQueryFlow.mock.calls[0] as unknown[])[1] as
+        | RagQueryStreamHandlers
+        | undefined;
+
+    beforeEach(() => {
+      mockEvaluationRepository = {
+        save: jest.fn(),
+        getScoreDistribution: jest.fn(),
+        getFailRates: jest.fn(),
+        findWorstScoring: jest.fn(),
+      } as unknown as jest.Mocked<IAnswerEvaluationRepository>;
+      mockEvaluationRepository.save.mockImplementation((evaluation) =>
+        Promise.resolve(evaluation),
+      );
+      useCase = new QueryAssistantUseCase(
+        mockConversationRepository,
+        mockRagQueryFlow as unknown as RagQueryFlowService,
+        undefined,
+        mockEvaluationRepository,
+      );
+      conversation = new Conversation({
+        id: 'conv-eval',
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Test response',
+        responseType: RagResponseType.ANSWER,
+        sources: [],
+        timestamp: new Date(),
+      });
+    });
+
+    it('should persist the evaluation of the assistant message', async () => {
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+      handlersPassedToFlow()?.onEvaluation?.(ragEvaluation);
+      await flushBackgroundWork();
+
+      expect(mockEvaluationRepository.save).toHaveBeenCalledTimes(1);
+      const [saved] = mockEvaluationRepository.save.mock.calls[0];
+      expect(saved).toBeInstanceOf(AnswerEvaluation);
+      expect(saved.messageId).toBe(result.assistantMessageId);
+      expect(saved.conversationId).toBe('conv-eval');
+      expect(saved.sectorId).toBe(testSectorId);
+      expect(saved.query).toBe(testQuery);
+      expect(saved.model).toBe('test-model');
+      expect(saved.fragmentIds).toEqual(['frag-1']);
+      expect(saved.relevancy).toEqual(ragEvaluation.evaluation.relevancy);
+    });
+
+    it('should wait for the answer to be saved before persisting its evaluation', async () => {
+      const order: string[] = [];
+      mockRagQueryFlow.mockImplementation(((
+        _input: RagQueryInput,
+        handlers?: RagQueryStreamHandlers,
+      ) => {
+        handlers?.onEvaluation?.(ragEvaluation);
+        return Promise.resolve({
+          response: 'Test response',
+          responseType: RagResponseType.ANSWER,
+          sources: [],
+          timestamp: new Date(),
+        });
+      }) as unknown as RagQueryFlowService);
+      mockConversationRepository.save.mockImplementation((saved) => {
+        order.push('conversation');
+        return Promise.resolve(saved);
+      });
+      mockEvaluationRepository.save.mockImplementation((evaluation) => {
+        order.push('evaluation');
+        return Promise.resolve(evaluation);
+      });
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+      await flushBackgroundWork();
+
+      expect(order).toEqual(['conversation', 'evaluation']);
+    });
+
+    it('should drop the evaluation when the answer could not be saved', async () => {
+      mockConversationRepository.save.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        useCase.execute({
+          userContext: { userId: testUserId, sectorId: testSectorId },
+          query: testQuery,
+        }),
+      ).rejects.toThrow('Database error');
+      handlersPassedToFlow()?.onEvaluation?.(ragEvaluation);
+      await flushBackgroundWork();
+
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should still forward the evaluation to the caller handlers', async () => {
+      const onToken = jest.fn();
+      const onEvaluation = jest.fn();
+
+      await useCase.execute(
+        {
+          userContext: { userId: testUserId, sectorId: testSectorId },
+          query: testQuery,
+        },
+        { onToken, onEvaluation },
+      );
+      const handlers = handlersPassedToFlow();
+      handlers?.onToken?.('Test');
+      handlers?.onEvaluation?.(ragEvaluation);
+
+      expect(onToken).toHaveBeenCalledWith('Test');
+      expect(onEvaluation).toHaveBeenCalledWith(ragEvaluation);
+    });
+
+    it('should not fail when the evaluation cannot be persisted', async () => {
+      const warnSpy = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+      mockEvaluationRepository.save.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+      handlersPassedToFlow()?.onEvaluation?.(ragEvaluation);
+      await flushBackgroundWork();
+
+      expect(result.response).toBe('Test response');
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Database error'),
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Citations', () => {
+    const citedSources = [
+      {
+        id: 'frag-1',
+        content: 'Vacation requests need 15 days notice.',
+        sourceId: 'source-1',
+        similarity: 0.9,
+      },
+      {
+        id: 'frag-2',
+        content: 'Managers approve vacation requests.',
+        sourceId: 'source-2',
+        similarity: 0.8,
+      },
+    ];
+
+    const structuredWithCitations = {
+      summary: 'Request vacation 15 days in advance.',
+      sections: [
+        {
+          title: 'Notice',
+          content: 'Submit 15 days ahead.',
+          type: 'info' as const,
+          citations: [1],
+        },
+        {
+          title: 'Approval',
+          content: 'Your manager approves.',
+          type: 'info' as const,
+          citations: [2, 7],
+        },
+      ],
+    };
+
+    let mockResolveSourceTitles: jest.Mock<
+      Promise<Map<string, string>>,
+      [string[]]
+    >;
+    let conversation: Conversation;
+
+    beforeEach(() => {
+      mockResolveSourceTitles = jest.fn();
+      useCase = new QueryAssistantUseCase(
+        mockConversationRepository,
+        mockRagQueryFlow as unknown as RagQueryFlowService,
+        mockResolveSourceTitles,
+      );
+      conversation = new Conversation({
+        userId: testUserId,
+        sectorId: testSectorId,
+      });
+      mockConversationRepository.findByUserAndSector.mockResolvedValue(
+        conversation,
+      );
+      mockRagQueryFlow.mockResolvedValue({
+        response: structuredWithCitations.summary,
+        responseType: RagResponseType.ANSWER,
+        structured: structuredWithCitations,
+        sources: citedSources,
+        timestamp: new Date(),
+      });
+    });
+
+    it('should resolve section citations to fragments and source titles', async () => {
+      mockResolveSourceTitles.mockResolvedValue(
+        new Map([
+          ['source-1', 'Vacation Policy'],
+          ['source-2', 'Manager Guide'],
+        ]),
+      );
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      expect(mockResolveSourceTitles).toHaveBeenCalledWith([
+        'source-1',
+        'source-2',
+      ]);
+      expect(result.structured?.sections[0].citations).toEqual([
+        {
+          index: 1,
+          fragmentId: 'frag-1',
+          sourceId: 'source-1',
+          title: 'Vacation Policy',
+        },
+      ]);
+      // Index 7 does not match any returned source and is dropped
+      expect(result.structured?.sections[1].citations).toEqual([
+        {
+          index: 2,
+          fragmentId: 'frag-2',
+          sourceId: 'source-2',
+          title: 'Manager Guide',
+        },
+      ]);
+    });
+
+    it('should persist resolved citations in the assistant message metadata', async () => {
+      mockResolveSourceTitles.mockResolvedValue(
+        new Map([['source-1', 'Vacation Policy']]),
+      );
+
+      await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      const [assistantMessage] = conversation.getLastMessages(1);
+      expect(assistantMessage.metadata?.citations).toEqual([
+        {
+          sectionIndex: 0,
+          index: 1,
+          fragmentId: 'frag-1',
+          sourceId: 'source-1',
+          title: 'Vacation Policy',
+        },
+        {
+          sectionIndex: 1,
+          index: 2,
+          fragmentId: 'frag-2',
+          sourceId: 'source-2',
+          title: null,
+        },
+      ]);
+    });
+
+    it('should include the heading path of structured fragments', async () => {
+      mockResolveSourceTitles.mockResolvedValue(new Map());
+      mockRagQueryFlow.mockResolvedValue({
+        response: structuredWithCitations.summary,
+        responseType: RagResponseType.ANSWER,
+        structured: structuredWithCitations,
+        sources: [
+          {
+            ...citedSources[0],
+            metadata: { headingPath: ['Leave Policy', 'Notice'] },
+          },
+          { ...citedSources[1], metadata: { headingPath: [] } },
+        ],
+        timestamp: new Date(),
+      });
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      expect(result.structured?.sections[0].citations[0].headingPath).toEqual([
+        'Leave Policy',
+        'Notice',
+      ]);
+      expect(
+        result.structured?.sections[1].citations[0].headingPath,
+      ).toBeUndefined();
+    });
+
+    it('should keep citations with null titles when title lookup fails', async () => {
+      mockResolveSourceTitles.mockRejectedValue(new Error('db down'));
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      expect(result.structured?.sections[0].citations).toEqual([
+        expect.objectContaining({ fragmentId: 'frag-1', title: null }),
+      ]);
+    });
+
+    it('should not look up titles when no section cites a fragment', async () => {
+      mockRagQueryFlow.mockResolvedValue({
+        response: 'Answer',
+        responseType: RagResponseType.ANSWER,
+        structured: {
+          summary: 'Answer',
+          sections: [{ title: 'Info', content: 'Details', type: 'info' }],
+        },
+        sources: citedSources,
+        timestamp: new Date(),
+      });
+
+      const result = await useCase.execute({
+        userContext: { userId: testUserId, sectorId: testSectorId },
+        query: testQuery,
+      });
+
+      expect(mockResolveSourceTitles).not.toHaveBeenCalled();
+      expect(result.structured?.sections[0].citations).toEqual([]);
+    });
+  });
+
   describe('Performance', () => {
     it('should complete within reasonable time', async () => {
       const conversation = new Conversation({
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  AnswerEvaluation,
+  AnswerEvaluationProps,
+} from '@modules/interaction/domain/entities/answer-evaluation.entity';
+
+describe('AnswerEvaluation Entity', () => {
+  let validProps: AnswerEvaluationProps;
+
+  beforeEach(() => {
+    validProps = {
+      messageId: 'msg-123',
+      conversationId: 'conv-123',
+      sectorId: 'sector-123',
+      query: '  How do I request vacation?  ',
+      model: 'vertexai/gemini-2.5-flash',
+      fragmentIds: ['frag-1', 'frag-2'],
+      faithfulness: { score: 0.9, status: 'PASS', reasoning: 'Grounded' },
+      relevancy: { score: 0.4, status: 'FAIL', reasoning: 'Off topic' },
+    };
+  });
+
+  describe('Creation', () => {
+    it('should create an evaluation with valid data', () => {
+      const evaluation = new AnswerEvaluation(validProps);
+
+      expect(evaluation.id).toBeDefined();
+      expect(evaluation.messageId).toBe('msg-123');
+      expect(evaluation.conversationId).toBe('conv-123');
+      expect(evaluation.sectorId).toBe('sector-123');
+      expect(evaluation.query).toBe('How do I request vacation?');
+      expect(evaluation.model).toBe('vertexai/gemini-2.5-flash');
+      expect(evaluation.fragmentIds).toEqual(['frag-1', 'frag-2']);
+      expect(evaluation.faithfulness).toEqual(validProps.faithfulness);
+      expect(evaluation.relevancy).toEqual(validProps.relevancy);
+      expect(evaluation.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should use provided ID and creation date if given', () => {
+      const createdAt = new Date('2025-03-01');
+      const evaluation = new AnswerEvaluation({
+        ...validProps,
+        id: 'eval-1',
+        createdAt,
+      });
+
+      expect(evaluation.id).toBe('eval-1');
+      expect(evaluation.createdAt).toBe(createdAt);
+    });
+
+    it('should not expose its fragment IDs for mutation', () => {
+      const evaluation = new AnswerEvaluation(validProps);
+
+      evaluation.fragmentIds.push('frag-3');
+      validProps.fragmentIds.push('frag-4');
+
+      expect(evaluation.fragmentIds).toEqual(['frag-1', 'frag-2']);
+    });
+
+    it('should throw error if messageId is empty', () => {
+      expect(() => {
+        new AnswerEvaluation({ ...validProps, messageId: '' });
+      }).toThrow('Message ID is required');
+    });
+
+    it('should throw error if conversationId is empty', () => {
+      expect(() => {
+        new AnswerEvaluation({ ...validProps, conversationId: ' ' });
+      }).toThrow('Conversation ID is required');
+    });
+
+    it('should throw error if sectorId is empty', () => {
+      expect(() => {
+        new AnswerEvaluation({ ...validProps, sectorId: '' });
+      }).toThrow('Sector ID is required');
+    });
+
+    it('should throw error if query is empty', () => {
+      expect(() => {
+        new AnswerEvaluation({ ...validProps, query: '   ' });
+      }).toThrow('Query is required');
+    });
+
+    it('should throw error if a score is out of range', () => {
+      expect(() => {
+        new AnswerEvaluation({
+          ...validProps,
+          relevancy: { score: 1.5, status: 'PASS', reasoning: '' },
+        });
+      }).toThrow('Relevancy score must be between 0 and 1');
+      expect(() => {
+        new AnswerEvaluation({
+          ...validProps,
+          faithfulness: { score: NaN, status: 'PASS', reasoning: '' },
+        });
+      }).toThrow('Faithfulness score must be between 0 and 1');
+    });
+  });
+
+  describe('lowestScore', () => {
+    it('should return the lowest score of the evaluated metrics', () => {
+      const evaluation = new AnswerEvaluation(validProps);
+
+      expect(evaluation.lowestScore()).toBe(0.4);
+    });
+
+    it('should ignore metrics the judge could not evaluate', () => {
+      const evaluation = new AnswerEvaluation({
+        ...validProps,
+        relevancy: { score: 0, status: 'UNKNOWN', reasoning: 'Timeout' },
+      });
+
+      expect(evaluation.lowestScore()).toBe(0.9);
+    });
+
+    it('should return undefined when no metric was evaluated', () => {
+      const unknown = { score: 0, status: 'UNKNOWN', reasoning: '' } as const;
+      const evaluation = new AnswerEvaluation({
+        ...validProps,
+        faithfulness: unknown,
+        relevancy: unknown,
+      });
+
+      expect(evaluation.lowestScore()).toBeUndefined();
+    });
+  });
+});
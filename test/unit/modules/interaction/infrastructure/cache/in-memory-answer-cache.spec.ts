@@ -0,0 +1,241 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { InMemoryAnswerCache } from '@modules/interaction/infrastructure/cache/in-memory-answer-cache';
+import type { CachedAnswer } from '@modules/interaction/domain/services/answer-cache.interface';
+
+const SECTOR_ID = 'sector-1';
+
+const answer = (response: string): CachedAnswer => ({
+  query: 'How do I request vacation?',
+  response,
+  sources: [
+    {
+      id: 'frag-1',
+      content: 'Use the HR portal.',
+      sourceId: 'source-1',
+      similarity: 0.9,
+    },
+  ],
+});
+
+describe('InMemoryAnswerCache', () => {
+  let cache: InMemoryAnswerCache;
+
+  beforeEach(() => {
+    delete process.env.RAG_ANSWER_CACHE_MIN_SIMILARITY;
+    delete process.env.RAG_ANSWER_CACHE_TTL_SECONDS;
+    cache = new InMemoryAnswerCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return an answer whose embedding is similar enough', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('A'),
+      0,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [0.99, 0.05, 0],
+    });
+
+    expect(hit?.response).toBe('A');
+  });
+
+  it('should miss when similarity is below the default threshold', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('A'),
+      0,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 1, 0],
+    });
+
+    expect(hit).toBeNull();
+  });
+
+  it('should honour a configured similarity threshold', async () => {
+    process.env.RAG_ANSWER_CACHE_MIN_SIMILARITY = '0.7';
+    cache = new InMemoryAnswerCache();
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('A'),
+      0,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 1, 0],
+    });
+
+    expect(hit?.response).toBe('A');
+  });
+
+  it('should return the most similar answer', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0.2, 0] },
+      answer('A'),
+      0,
+    );
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0.01, 0] },
+      answer('B'),
+      0,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+
+    expect(hit?.response).toBe('B');
+  });
+
+  it('should scope answers to the sector and language', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0], language: 'es' },
+      answer('A'),
+      0,
+    );
+
+    expect(
+      (
+        await cache.lookup({
+          sectorId: 'sector-2',
+          embedding: [1, 0, 0],
+          language: 'es',
+        })
+      ).answer,
+    ).toBeNull();
+    expect(
+      (
+        await cache.lookup({
+          sectorId: SECTOR_ID,
+          embedding: [1, 0, 0],
+          language: 'en',
+        })
+      ).answer,
+    ).toBeNull();
+    expect(
+      (
+        await cache.lookup({
+          sectorId: SECTOR_ID,
+          embedding: [1, 0, 0],
+          language: 'es',
+        })
+      ).answer,
+    ).not.toBeNull();
+  });
+
+  it('should ignore entries with a different embedding dimension', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0] },
+      answer('A'),
+      0,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+
+    expect(hit).toBeNull();
+  });
+
+  it('should expire entries after the configured TTL', async () => {
+    jest.useFakeTimers();
+    process.env.RAG_ANSWER_CACHE_TTL_SECONDS = '60';
+    cache = new InMemoryAnswerCache();
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('A'),
+      0,
+    );
+
+    jest.advanceTimersByTime(61_000);
+
+    expect(
+      (await cache.lookup({ sectorId: SECTOR_ID, embedding: [1, 0, 0] }))
+        .answer,
+    ).toBeNull();
+  });
+
+  it('should drop every answer of a sector on invalidation', async () => {
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('A'),
+      0,
+    );
+    await cache.store(
+      { sectorId: 'sector-2', embedding: [1, 0, 0] },
+      answer('B'),
+      0,
+    );
+
+    await cache.invalidateSector(SECTOR_ID);
+
+    expect(
+      (await cache.lookup({ sectorId: SECTOR_ID, embedding: [1, 0, 0] }))
+        .answer,
+    ).toBeNull();
+    expect(
+      (await cache.lookup({ sectorId: 'sector-2', embedding: [1, 0, 0] }))
+        .answer?.response,
+    ).toBe('B');
+  });
+
+  it('should not store an answer generated across an invalidation', async () => {
+    const { epoch } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+
+    // The knowledge base changes while the answer is generated
+    await cache.invalidateSector(SECTOR_ID);
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('Stale'),
+      epoch,
+    );
+
+    const { answer: hit, epoch: current } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+    expect(hit).toBeNull();
+    expect(current).toBe(epoch + 1);
+  });
+
+  it('should store an answer of the current epoch', async () => {
+    await cache.invalidateSector(SECTOR_ID);
+    const { epoch } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+
+    await cache.store(
+      { sectorId: SECTOR_ID, embedding: [1, 0, 0] },
+      answer('Fresh'),
+      epoch,
+    );
+
+    const { answer: hit } = await cache.lookup({
+      sectorId: SECTOR_ID,
+      embedding: [1, 0, 0],
+    });
+    expect(hit?.response).toBe('Fresh');
+  });
+});
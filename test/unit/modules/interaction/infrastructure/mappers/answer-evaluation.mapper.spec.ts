@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import { AnswerEvaluationMapper } from '@modules/interaction/infrastructure/persistence/mappers/answer-evaluation.mapper';
+import { AnswerEvaluation } from '@modules/interaction/domain/entities/answer-evaluation.entity';
+import { AnswerEvaluationModel } from '@modules/interaction/infrastructure/persistence/models/answer-evaluation.model';
+
+function createModel(
+  overrides?: Partial<AnswerEvaluationModel>,
+): AnswerEvaluationModel {
+  const model = new AnswerEvaluationModel();
+  Object.assign(model, {
+    id: 'eval-1',
+    messageId: 'msg-1',
+    conversationId: 'conv-1',
+    sectorId: 'sector-1',
+    query: 'How do I request vacation?',
+    model: 'vertexai/gemini-2.5-flash',
+    fragmentIds: ['frag-1', 'frag-2'],
+    faithfulnessScore: 0.8,
+    faithfulnessStatus: 'PASS',
+    faithfulnessReasoning: 'Grounded',
+    relevancyScore: 0.2,
+    relevancyStatus: 'FAIL',
+    relevancyReasoning: 'Off topic',
+    createdAt: new Date('2025-03-01'),
+    ...overrides,
+  });
+  return model;
+}
+
+describe('AnswerEvaluationMapper', () => {
+  describe('toDomain', () => {
+    it('should map model to domain entity', () => {
+      const entity = AnswerEvaluationMapper.toDomain(createModel());
+
+      expect(entity).toBeInstanceOf(AnswerEvaluation);
+      expect(entity.id).toBe('eval-1');
+      expect(entity.messageId).toBe('msg-1');
+      expect(entity.conversationId).toBe('conv-1');
+      expect(entity.sectorId).toBe('sector-1');
+      expect(entity.query).toBe('How do I request vacation?');
+      expect(entity.model).toBe('vertexai/gemini-2.5-flash');
+      expect(entity.fragmentIds).toEqual(['frag-1', 'frag-2']);
+      expect(entity.faithfulness).toEqual({
+        score: 0.8,
+        status: 'PASS',
+        reasoning: 'Grounded',
+      });
+      expect(entity.relevancy).toEqual({
+        score: 0.2,
+        status: 'FAIL',
+        reasoning: 'Off topic',
+      });
+      expect(entity.createdAt).toEqual(new Date('2025-03-01'));
+    });
+
+    it('should throw on an invalid status', () => {
+      expect(() =>
+        AnswerEvaluationMapper.toDomain(
+          createModel({ relevancyStatus: 'MAYBE' }),
+        ),
+      ).toThrow('Invalid evaluation status in database: "MAYBE"');
+    });
+  });
+
+  describe('toModel', () => {
+    it('should flatten both metrics into columns', () => {
+      const entity = AnswerEvaluationMapper.toDomain(createModel());
+
+      const model = AnswerEvaluationMapper.toModel(entity);
+
+      expect(model).toBeInstanceOf(AnswerEvaluationModel);
+      expect(model).toEqual(createModel());
+    });
+  });
+
+  describe('toDomainList', () => {
+    it('should map every model', () => {
+      const entities = AnswerEvaluationMapper.toDomainList([
+        createModel(),
+        createModel({ id: 'eval-2' }),
+      ]);
+
+      expect(entities.map((entity) => entity.id)).toEqual(['eval-1', 'eval-2']);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AnswerEvaluationRepository } from '../../../../../../../src/modules/interaction/infrastructure/persistence/repositories/answer-evaluation.repository';
+import { AnswerEvaluationModel } from '../../../../../../../src/modules/interaction/infrastructure/persistence/models/answer-evaluation.model';
+import { AnswerEvaluation } from '../../../../../../../src/modules/interaction/domain/entities/answer-evaluation.entity';
+
+const SECTOR_ID = '770e8400-e29b-41d4-a716-446655440002';
+const FROM = new Date('2025-03-01T00:00:00Z');
+const TO = new Date('2025-04-01T00:00:00Z');
+
+function createModel(
+  overrides?: Partial<AnswerEvaluationModel>,
+): AnswerEvaluationModel {
+  const model = new AnswerEvaluationModel();
+  Object.assign(model, {
+    id: 'eval-1',
+    messageId: 'msg-1',
+    conversationId: 'conv-1',
+    sectorId: SECTOR_ID,
+    query: 'How do I request vacation?',
+    model: 'vertexai/gemini-2.5-flash',
+    fragmentIds: ['frag-1'],
+    faithfulnessScore: 0.8,
+    faithfulnessStatus: 'PASS',
+    faithfulnessReasoning: 'Grounded',
+    relevancyScore: 0.2,
+    relevancyStatus: 'FAIL',
+    relevancyReasoning: 'Off topic',
+    createdAt: FROM,
+    ...overrides,
+  });
+  return model;
+}
+
+describe('AnswerEvaluationRepository', () => {
+  let repository: AnswerEvaluationRepository;
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn(),
+    getRawMany: jest.fn(),
+    getMany: jest.fn(),
+  };
+
+  const mockEvaluationRepo = {
+    save: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnswerEvaluationRepository,
+        {
+          provide: getRepositoryToken(AnswerEvaluationModel),
+          useValue: mockEvaluationRepo,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<AnswerEvaluationRepository>(
+      AnswerEvaluationRepository,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  describe('save', () => {
+    it('should persist the evaluation with flattened scores', async () => {
+      mockEvaluationRepo.save.mockImplementation((model) =>
+        Promise.resolve(model),
+      );
+      const evaluation = new AnswerEvaluation({
+        messageId: 'msg-1',
+        conversationId: 'conv-1',
+        sectorId: SECTOR_ID,
+        query: 'How do I request vacation?',
+        model: 'vertexai/gemini-2.5-flash',
+        fragmentIds: ['frag-1'],
+        faithfulness: { score: 0.8, status: 'PASS', reasoning: 'Grounded' },
+        relevancy: { score: 0.2, status: 'FAIL', reasoning: 'Off topic' },
+      });
+
+      const result = await repository.save(evaluation);
+
+      expect(mockEvaluationRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: evaluation.id,
+          messageId: 'msg-1',
+          faithfulnessScore: 0.8,
+          relevancyStatus: 'FAIL',
+        }),
+      );
+      expect(result).toBeInstanceOf(AnswerEvaluation);
+      expect(result.id).toBe(evaluation.id);
+    });
+  });
+
+  describe('getScoreDistribution', () => {
+    it('should apply the sector and date filters', async () => {
+      mockQueryBuilder.getRawOne.mockResolvedValue(undefined);
+      mockQueryBuilder.getRawMany.mockResolvedValue([]);
+
+      await repository.getScoreDistribution({
+        sectorId: SECTOR_ID,
+        from: FROM,
+        to: TO,
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'evaluation.sector_id = :sectorId',
+        { sectorId: SECTOR_ID },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'evaluation.created_at >= :from',
+        { from: FROM },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'evaluation.created_at < :to',
+        { to: TO },
+      );
+    });
+
+    it('should return counts, averages and ten buckets per metric', async () => {
+      mockQueryBuilder.getRawOne.mockResolvedValue({
+        evaluations: '3',
+        faithfulness_pass: '2',
+        faithfulness_fail: '1',
+        faithfulness_unknown: '0',
+        faithfulness_average: 0.7,
+        relevancy_pass: '1',
+        relevancy_fail: '0',
+        relevancy_unknown: '2',
+        relevancy_average: 0.95,
+      });
+      mockQueryBuilder.getRawMany
+        .mockResolvedValueOnce([
+          { bucket: 4, count: '1' },
+          { bucket: 10, count: '2' },
+        ])
+        .mockResolvedValueOnce([{ bucket: 10, count: '1' }]);
+
+      const result = await repository.getScoreDistribution({});
+
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+        'evaluation.sector_id = :sectorId',
+        expect.anything(),
+      );
+      expect(result.evaluations).toBe(3);
+      expect(result.faithfulness).toEqual(
+        expect.objectContaining({ pass: 2, fail: 1, unknown: 0, average: 0.7 }),
+      );
+      expect(result.faithfulness.buckets).toHaveLength(10);
+      expect(result.faithfulness.buckets[0]).toEqual({
+        min: 0,
+        max: 0.1,
+        count: 0,
+      });
+      expect(result.faithfulness.buckets[3]).toEqual({
+        min: 0.3,
+        max: 0.4,
+        count: 1,
+      });
+      expect(result.faithfulness.buckets[9]).toEqual({
+        min: 0.9,
+        max: 1,
+        count: 2,
+      });
+      expect(result.relevancy).toEqual(
+        expect.objectContaining({ pass: 1, unknown: 2, average: 0.95 }),
+      );
+      expect(result.relevancy.buckets[9].count).toBe(1);
+    });
+
+    it('should report no average without evaluated answers', async () => {
+      mockQueryBuilder.getRawOne.mockResolvedValue({
+        evaluations: '0',
+        faithfulness_average: null,
+        relevancy_average: null,
+      });
+      mockQueryBuilder.getRawMany.mockResolvedValue([]);
+
+      const result = await repository.getScoreDistribution({});
+
+      expect(result.evaluations).toBe(0);
+      expect(result.faithfulness.average).toBeNull();
+      expect(result.relevancy.pass).toBe(0);
+    });
+  });
+
+  describe('getFailRates', () => {
+    it('should group failures per period', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        {
+          period_start: FROM,
+          evaluations: '4',
+          failures: '1',
+          faithfulness_failures: '1',
+          relevancy_failures: '0',
+        },
+      ]);
+
+      const result = await repository.getFailRates(
+        { sectorId: SECTOR_ID },
+        'week',
+      );
+
+      expect(mockQueryBuilder.select).toHaveBeenCalledWith(
+        "date_trunc('week', evaluation.created_at)",
+        'period_start',
+      );
+      expect(mockQueryBuilder.groupBy).toHaveBeenCalledWith('period_start');
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'period_start',
+        'ASC',
+      );
+      expect(result).toEqual([
+        {
+          periodStart: FROM,
+          evaluations: 4,
+          failures: 1,
+          faithfulnessFailures: 1,
+          relevancyFailures: 0,
+          failRate: 0.25,
+        },
+      ]);
+    });
+
+    it('should fall back to days for an unknown interval', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([]);
+
+      await repository.getFailRates(
+        {},
+        'month; DROP TABLE answer_evaluations' as unknown as 'day',
+      );
+
+      expect(mockQueryBuilder.select).toHaveBeenCalledWith(
+        "date_trunc('day', evaluation.created_at)",
+        'period_start',
+      );
+    });
+  });
+
+  describe('findWorstScoring', () => {
+    it('should order the evaluated answers by their lowest score', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([createModel()]);
+
+      const result = await repository.findWorstScoring(
+        { sectorId: SECTOR_ID },
+        5,
+      );
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        "(evaluation.faithfulness_status <> 'UNKNOWN' OR evaluation.relevancy_status <> 'UNKNOWN')",
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        expect.stringContaining('LEAST('),
+        'ASC',
+      );
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'evaluation.created_at',
+        'DESC',
+      );
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(5);
+      expect(result).toHaveLength(1);
+      expect(result[0].lowestScore()).toBe(0.2);
+    });
+  });
+});
@@ -276,6 +276,26 @@ describe('ConversationRepository', () => {
         expect.objectContaining({ take: 5, skip: 10 }),
       );
     });
+
+    it('should sort by creation date ascending by default', async () => {
+      mockMsgRepo.find.mockResolvedValue([]);
+
+      await repository.getMessages(CONVERSATION_ID);
+
+      expect(mockMsgRepo.find).toHaveBeenCalledWith(
+        expect.objectContaining({ order: { createdAt: 'ASC' } }),
+      );
+    });
+
+    it('should return the most recent messages first when order is DESC', async () => {
+      mockMsgRepo.find.mockResolvedValue([]);
+
+      await repository.getMessages(CONVERSATION_ID, { limit: 6, order: 'DESC' });
+
+      expect(mockMsgRepo.find).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 6, order: { createdAt: 'DESC' } }),
+      );
+    });
   });
 
   describe('delete', () => {
@@ -16,6 +16,7 @@ describe('InteractionController', () => {
   let controller: InteractionController;
   let queryAssistantUseCase: jest.Mocked<QueryAssistantUseCase>;
   let conversationRepository: jest.Mocked<IConversationRepository>;
+  let controllerModule: TestingModule;
 
   const mockQueryAssistantUseCase = {
     execute: jest.fn(),
@@ -106,6 +107,7 @@ describe('InteractionController', () => {
       ],
     }).compile();
 
+    controllerModule = module;
     controller = module.get<InteractionController>(InteractionController);
     queryAssistantUseCase = module.get(QueryAssistantUseCase);
     conversationRepository = module.get('IConversationRepository');
@@ -177,6 +179,8 @@ describe('InteractionController', () => {
         conversationId: 'existing-conversation-id',
         maxResults: 10,
         minSimilarity: 0.8,
+        sourceIds: ['550e8400-e29b-41d4-a716-446655440000'],
+        tags: ['hr'],
       };
 
       queryAssistantUseCase.execute.mockResolvedValue(mockUseCaseResult);
@@ -190,10 +194,35 @@ describe('InteractionController', () => {
         searchOptions: {
           maxResults: dtoWithOptionals.maxResults,
           minSimilarity: dtoWithOptionals.minSimilarity,
+          sourceIds: dtoWithOptionals.sourceIds,
+          tags: dtoWithOptionals.tags,
         },
       });
     });
 
+    it('should pass sector contact and hybrid search settings to the use case', async () => {
+      const sectorRepository = controllerModule.get<{ findById: jest.Mock }>(
+        'ISectorRepository',
+      );
+      sectorRepository.findById.mockResolvedValueOnce({
+        contactName: 'María García',
+        contactPhone: null,
+        hybridSearchEnabled: true,
+        hybridVectorWeight: 1,
+        hybridLexicalWeight: 0.5,
+      });
+      queryAssistantUseCase.execute.mockResolvedValue(mockUseCaseResult);
+
+      await controller.query(validDto, jwtUserId);
+
+      expect(queryAssistantUseCase.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sectorContact: { name: 'María García', phone: null },
+          hybridSearch: { enabled: true, vectorWeight: 1, lexicalWeight: 0.5 },
+        }),
+      );
+    });
+
     it('should handle short queries correctly', async () => {
       const shortQueryDto: QueryAssistantDto = {
         ...validDto,
@@ -315,6 +344,166 @@ describe('InteractionController', () => {
     });
   });
 
+  describe('queryStream', () => {
+    const jwtUserId = '550e8400-e29b-41d4-a716-446655440999';
+
+    const validDto: QueryAssistantDto = {
+      sectorId: '440e8400-e29b-41d4-a716-446655440000',
+      query: '¿Cuántos días de vacaciones tengo?',
+    };
+
+    const source = {
+      id: 'b2286679-5b53-4cd5-a152-ddbfa117fb52',
+      content: 'Política de Vacaciones 2026...',
+      sourceId: 'bd658bd8-9d94-4dc7-b6f6-e351507253dc',
+      similarity: 0.76,
+    };
+
+    const createMockResponse = () => {
+      const frames: string[] = [];
+      const res = {
+        writableEnded: false,
+        destroyed: false,
+        status: jest.fn().mockReturnThis(),
+        setHeader: jest.fn(),
+        flushHeaders: jest.fn(),
+        write: jest.fn((chunk: string) => frames.push(chunk)),
+        end: jest.fn(() => {
+          res.writableEnded = true;
+        }),
+      };
+      return { res, frames };
+    };
+
+    const parseFrames = (frames: string[]) =>
+      frames.map((frame) => {
+        const [eventLine, dataLine] = frame.trim().split('\n');
+        return {
+          event: eventLine.replace('event: ', ''),
+          data: JSON.parse(dataLine.replace('data: ', '')) as Record<
+            string,
+            unknown
+          >,
+        };
+      });
+
+    it('should stream retrieval, token and done events in order', async () => {
+      queryAssistantUseCase.execute.mockImplementation((_input, handlers) => {
+        handlers?.onRetrieval?.([source]);
+        handlers?.onToken?.('Tienes ');
+        handlers?.onToken?.('15 días.');
+        return Promise.resolve({
+          response: 'Tienes 15 días.',
+          responseType: 'answer' as const,
+          conversationId: '8470609d-84f7-4b97-bea9-d000c355acb4',
+          sources: [source],
+          timestamp: new Date('2026-02-07T19:53:21.843Z'),
+          userMessageId: 'user-msg-1',
+          assistantMessageId: 'assistant-msg-1',
+        });
+      });
+      const { res, frames } = createMockResponse();
+
+      await controller.queryStream(validDto, jwtUserId, res as never);
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'text/event-stream',
+      );
+      const events = parseFrames(frames);
+      expect(events.map((e) => e.event)).toEqual([
+        'retrieval',
+        'token',
+        'token',
+        'done',
+      ]);
+      expect(events[0].data).toEqual({ sources: [source] });
+      expect(events[1].data).toEqual({ delta: 'Tienes ' });
+      expect(events[3].data).toEqual(
+        expect.objectContaining({
+          response: 'Tienes 15 días.',
+          userMessageId: 'user-msg-1',
+          assistantMessageId: 'assistant-msg-1',
+        }),
+      );
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should emit a reset event when the answer is streamed again', async () => {
+      queryAssistantUseCase.execute.mockImplementation((_input, handlers) => {
+        handlers?.onToken?.('Tienes ');
+        handlers?.onReset?.();
+        handlers?.onToken?.('Tienes 15 días.');
+        return Promise.resolve({
+          response: 'Tienes 15 días.',
+          responseType: 'answer' as const,
+          conversationId: '8470609d-84f7-4b97-bea9-d000c355acb4',
+          sources: [source],
+          timestamp: new Date('2026-02-07T19:53:21.843Z'),
+        });
+      });
+      const { res, frames } = createMockResponse();
+
+      await controller.queryStream(validDto, jwtUserId, res as never);
+
+      const events = parseFrames(frames);
+      expect(events.map((e) => e.event)).toEqual([
+        'token',
+        'reset',
+        'token',
+        'done',
+      ]);
+      expect(events[1].data).toEqual({});
+    });
+
+    it('should emit a generic error event when the use case fails', async () => {
+      queryAssistantUseCase.execute.mockRejectedValue(
+        new Error('Vertex AI connection refused'),
+      );
+      const { res, frames } = createMockResponse();
+
+      await controller.queryStream(validDto, jwtUserId, res as never);
+
+      expect(parseFrames(frames)).toEqual([
+        { event: 'error', data: { message: 'Query failed' } },
+      ]);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should forward HTTP exception messages in the error event', async () => {
+      queryAssistantUseCase.execute.mockRejectedValue(
+        new NotFoundException('Conversation not found'),
+      );
+      const { res, frames } = createMockResponse();
+
+      await controller.queryStream(validDto, jwtUserId, res as never);
+
+      expect(parseFrames(frames)).toEqual([
+        { event: 'error', data: { message: 'Conversation not found' } },
+      ]);
+    });
+
+    it('should stop writing once the client has disconnected', async () => {
+      const { res, frames } = createMockResponse();
+      queryAssistantUseCase.execute.mockImplementation((_input, handlers) => {
+        handlers?.onRetrieval?.([source]);
+        res.destroyed = true;
+        handlers?.onToken?.('ignored');
+        return Promise.resolve({
+          response: 'ignored',
+          responseType: 'answer' as const,
+          conversationId: '8470609d-84f7-4b97-bea9-d000c355acb4',
+          sources: [source],
+          timestamp: new Date(),
+        });
+      });
+
+      await controller.queryStream(validDto, jwtUserId, res as never);
+
+      expect(parseFrames(frames).map((e) => e.event)).toEqual(['retrieval']);
+    });
+  });
+
   describe('getConversations', () => {
     const userId = '550e8400-e29b-41d4-a716-446655440999';
 
@@ -98,6 +98,70 @@ describe('InteractionDtoMapper', () => {
       expect(result.structured!.keyPoints).toEqual(['Key point 1']);
     });
 
+    it('should map resolved section citations', () => {
+      const citation = {
+        index: 1,
+        fragmentId: 'frag-1',
+        sourceId: 'source-1',
+        title: 'Vacation Policy',
+      };
+
+      const result = InteractionDtoMapper.toQueryResponse({
+        response: 'Answer',
+        responseType: 'answer',
+        conversationId: CONVERSATION_ID,
+        sources: [],
+        timestamp: new Date(),
+        structured: {
+          summary: 'Summary text',
+          sections: [
+            {
+              title: 'Section 1',
+              content: 'Content 1',
+              type: 'info',
+              citations: [citation],
+            },
+          ],
+        },
+      });
+
+      expect(result.structured!.sections[0].citations).toEqual([citation]);
+    });
+
+    it('should map the heading path of a citation when present', () => {
+      const citation = {
+        index: 1,
+        fragmentId: 'frag-1',
+        sourceId: 'source-1',
+        title: 'Vacation Policy',
+        headingPath: ['Leave Policy', 'Vacations'],
+      };
+
+      const result = InteractionDtoMapper.toQueryResponse({
+        response: 'Answer',
+        responseType: 'answer',
+        conversationId: CONVERSATION_ID,
+        sources: [],
+        timestamp: new Date(),
+        structured: {
+          summary: 'Summary text',
+          sections: [
+            {
+              title: 'Section 1',
+              content: 'Content 1',
+              type: 'info',
+              citations: [citation],
+            },
+          ],
+        },
+      });
+
+      expect(result.structured!.sections[0].citations[0].headingPath).toEqual([
+        'Leave Policy',
+        'Vacations',
+      ]);
+    });
+
     it('should map responseType "no_context" correctly', () => {
       const result = InteractionDtoMapper.toQueryResponse({
         response: 'No context',
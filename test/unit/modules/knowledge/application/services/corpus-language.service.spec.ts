@@ -0,0 +1,101 @@
+import { CorpusLanguageService } from '../../../../../../src/modules/knowledge/application/services/corpus-language.service';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+
+describe('CorpusLanguageService', () => {
+  let service: CorpusLanguageService;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+
+  beforeEach(() => {
+    mockRepository = {
+      countFragmentsByLanguage: jest.fn().mockResolvedValue([
+        { language: 'es', fragments: 700 },
+        { language: 'en', fragments: 280 },
+        { language: 'fr', fragments: 20 },
+      ]),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    service = new CorpusLanguageService(mockRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getCorpusLanguages', () => {
+    it('should return the languages of at least 10% of the fragments', async () => {
+      // Act
+      const languages = await service.getCorpusLanguages(SECTOR_ID);
+
+      // Assert
+      expect(languages).toEqual(['es', 'en']);
+      expect(mockRepository.countFragmentsByLanguage).toHaveBeenCalledWith(
+        SECTOR_ID,
+      );
+    });
+
+    it('should keep at most three languages', async () => {
+      // Arrange
+      mockRepository.countFragmentsByLanguage.mockResolvedValue([
+        { language: 'es', fragments: 40 },
+        { language: 'en', fragments: 30 },
+        { language: 'pt', fragments: 20 },
+        { language: 'fr', fragments: 10 },
+      ]);
+
+      // Act
+      const languages = await service.getCorpusLanguages(SECTOR_ID);
+
+      // Assert
+      expect(languages).toEqual(['es', 'en', 'pt']);
+    });
+
+    it('should return no language for a sector without detected languages', async () => {
+      // Arrange
+      mockRepository.countFragmentsByLanguage.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(service.getCorpusLanguages(SECTOR_ID)).resolves.toEqual([]);
+    });
+
+    it('should cache the languages of a sector', async () => {
+      // Act
+      await service.getCorpusLanguages(SECTOR_ID);
+      await service.getCorpusLanguages(SECTOR_ID);
+
+      // Assert
+      expect(mockRepository.countFragmentsByLanguage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload the languages after the cache expires', async () => {
+      // Arrange
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await service.getCorpusLanguages(SECTOR_ID);
+      clock.mockReturnValue(now + 300_001);
+
+      // Act
+      await service.getCorpusLanguages(SECTOR_ID);
+
+      // Assert
+      expect(mockRepository.countFragmentsByLanguage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed loads', async () => {
+      // Arrange
+      mockRepository.countFragmentsByLanguage.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      // Act
+      await expect(service.getCorpusLanguages(SECTOR_ID)).rejects.toThrow(
+        'Connection lost',
+      );
+      const languages = await service.getCorpusLanguages(SECTOR_ID);
+
+      // Assert
+      expect(languages).toEqual(['es', 'en']);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { IEmbeddingIndexRepository } from '../../../../../../src/modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import { EmbeddingIndex } from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingIndexSwitchedEvent } from '../../../../../../src/modules/knowledge/domain/events/knowledge.events';
+import { EmbeddingService } from '../../../../../../src/modules/knowledge/infrastructure/services/embedding.service';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+const NEW_PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 768 };
+
+function storedIndex(index: EmbeddingIndex, id: string): EmbeddingIndex {
+  index.id = id;
+  return index;
+}
+
+describe('EmbeddingIndexService', () => {
+  let service: EmbeddingIndexService;
+  let mockIndexRepository: jest.Mocked<IEmbeddingIndexRepository>;
+  let mockEmbeddingService: jest.Mocked<EmbeddingService>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    mockIndexRepository = {
+      findBySector: jest.fn().mockResolvedValue([]),
+      findActiveBySector: jest.fn().mockResolvedValue(null),
+      switchActive: jest
+        .fn()
+        .mockImplementation((activated: EmbeddingIndex) =>
+          Promise.resolve(activated),
+        ),
+    } as unknown as jest.Mocked<IEmbeddingIndexRepository>;
+
+    mockEmbeddingService = {
+      getProfile: jest.fn().mockReturnValue(PROFILE),
+    } as unknown as jest.Mocked<EmbeddingService>;
+
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    service = new EmbeddingIndexService(
+      mockIndexRepository,
+      mockEmbeddingService,
+      mockEventEmitter,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getActiveIndex', () => {
+    it('should read from the initial index of a sector never re-indexed', async () => {
+      // Act
+      const index = await service.getActiveIndex(SECTOR_ID);
+
+      // Assert
+      expect(index.namespace).toBe(SECTOR_ID);
+      expect(index.getProfile()).toEqual(PROFILE);
+    });
+
+    it('should cache the active index of a sector', async () => {
+      // Arrange
+      const active = EmbeddingIndex.build(
+        EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+        2,
+        NEW_PROFILE,
+      );
+      active.activate();
+      mockIndexRepository.findActiveBySector.mockResolvedValue(active);
+
+      // Act
+      await service.getActiveIndex(SECTOR_ID);
+      const profile = await service.getEmbeddingProfile(SECTOR_ID);
+
+      // Assert
+      expect(profile).toEqual(NEW_PROFILE);
+      expect(mockIndexRepository.findActiveBySector).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a failed load on the next query', async () => {
+      // Arrange
+      mockIndexRepository.findActiveBySector.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      // Act & Assert
+      await expect(service.getActiveIndex(SECTOR_ID)).rejects.toThrow(
+        'Connection lost',
+      );
+      await expect(service.getActiveIndex(SECTOR_ID)).resolves.toBeInstanceOf(
+        EmbeddingIndex,
+      );
+      expect(mockIndexRepository.findActiveBySector).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('write and vector namespaces', () => {
+    it('should write to the active index and to the index being built', async () => {
+      // Arrange
+      const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const building = EmbeddingIndex.build(active, 2, NEW_PROFILE);
+      mockIndexRepository.findBySector.mockResolvedValue([building, active]);
+
+      // Act
+      const indexes = await service.getWriteIndexes(SECTOR_ID);
+
+      // Assert
+      expect(indexes).toEqual([active, building]);
+    });
+
+    it('should also delete from the index retired last', async () => {
+      // Arrange
+      const retired = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const active = EmbeddingIndex.build(retired, 2, NEW_PROFILE);
+      active.activate();
+      retired.retire();
+      const building = EmbeddingIndex.build(active, 3, PROFILE);
+      mockIndexRepository.findBySector.mockResolvedValue([
+        building,
+        active,
+        retired,
+      ]);
+
+      // Act
+      const namespaces = await service.getVectorNamespaces(SECTOR_ID);
+
+      // Assert
+      expect(namespaces).toEqual([
+        `${SECTOR_ID}--g2`,
+        `${SECTOR_ID}--g3`,
+        SECTOR_ID,
+      ]);
+    });
+
+    it('should use the sector namespace when nothing is stored', async () => {
+      // Act
+      const namespaces = await service.getVectorNamespaces(SECTOR_ID);
+
+      // Assert
+      expect(namespaces).toEqual([SECTOR_ID]);
+    });
+  });
+
+  describe('switchTo', () => {
+    it('should swap the indexes, drop the cached read path and emit an event', async () => {
+      // Arrange
+      const current = storedIndex(
+        EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+        'index-1',
+      );
+      const next = storedIndex(
+        EmbeddingIndex.build(current, 2, NEW_PROFILE),
+        'index-2',
+      );
+      await service.getActiveIndex(SECTOR_ID);
+
+      // Act
+      const activated = await service.switchTo(next, current);
+
+      // Assert
+      expect(activated.isActive()).toBe(true);
+      expect(current.isRetired()).toBe(true);
+      expect(mockIndexRepository.switchActive).toHaveBeenCalledWith(
+        next,
+        current,
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.embedding_index.switched',
+        expect.any(EmbeddingIndexSwitchedEvent),
+      );
+      const [, event] = mockEventEmitter.emit.mock.calls[0] as [
+        string,
+        EmbeddingIndexSwitchedEvent,
+      ];
+      expect(event).toEqual(
+        expect.objectContaining({
+          sectorId: SECTOR_ID,
+          indexId: 'index-2',
+          namespace: `${SECTOR_ID}--g2`,
+          embeddingDimensions: 768,
+        }),
+      );
+
+      mockIndexRepository.findActiveBySector.mockResolvedValue(activated);
+      await expect(service.getActiveIndex(SECTOR_ID)).resolves.toBe(activated);
+    });
+
+    it('should not switch to an index that is not built', async () => {
+      // Arrange
+      const current = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const failed = EmbeddingIndex.build(current, 2, NEW_PROFILE);
+      failed.markAsFailed('Dimension mismatch');
+
+      // Act & Assert
+      await expect(service.switchTo(failed, current)).rejects.toThrow(
+        'Cannot activate an index with status FAILED',
+      );
+      expect(mockIndexRepository.switchActive).not.toHaveBeenCalled();
+    });
+  });
+});
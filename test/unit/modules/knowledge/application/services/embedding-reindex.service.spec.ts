@@ -0,0 +1,314 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { Logger } from '@nestjs/common';
+import { EmbeddingReindexService } from '../../../../../../src/modules/knowledge/application/services/embedding-reindex.service';
+import { IngestionPipelineService } from '../../../../../../src/modules/knowledge/application/services/ingestion-pipeline.service';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import {
+  IKnowledgeRepository,
+  FragmentIndexEntry,
+} from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IEmbeddingIndexRepository } from '../../../../../../src/modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const INDEX_ID = 'index-2';
+const NAMESPACE = `${SECTOR_ID}--g2`;
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+const NEW_PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 768 };
+const SOURCES_PER_BATCH = 20;
+
+function entry(
+  id: string,
+  sourceId: string,
+  overrides: Partial<FragmentIndexEntry> = {},
+): FragmentIndexEntry {
+  return {
+    id,
+    sourceId,
+    indexed: true,
+    processing: false,
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+function createSource(id: string): KnowledgeSource {
+  const source = new KnowledgeSource({
+    title: `Source ${id}`,
+    sectorId: SECTOR_ID,
+    sourceType: SourceType.MARKDOWN,
+    content: 'Vacation policy: 25 days per year.',
+  });
+  source.id = id;
+  source.indexedVersion = 1;
+  return source;
+}
+
+function createFragment(
+  id: string,
+  sourceId: string,
+  overrides: { sourceVersion?: number; excluded?: boolean } = {},
+): Fragment {
+  const fragment = new Fragment({
+    sourceId,
+    content: `Fragment content ${id}`,
+    position: 0,
+    sourceVersion: overrides.sourceVersion ?? 1,
+  });
+  fragment.id = id;
+  fragment.excluded = overrides.excluded ?? false;
+  return fragment;
+}
+
+describe('EmbeddingReindexService', () => {
+  let service: EmbeddingReindexService;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockIndexRepository: jest.Mocked<IEmbeddingIndexRepository>;
+  let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockPipeline: jest.Mocked<IngestionPipelineService>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let active: EmbeddingIndex;
+  let building: EmbeddingIndex;
+  let source: KnowledgeSource;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+    building = EmbeddingIndex.build(active, 2, NEW_PROFILE);
+    building.id = INDEX_ID;
+    source = createSource('source-1');
+
+    mockRepository = {
+      findFragmentIndexEntries: jest
+        .fn()
+        .mockResolvedValue([
+          entry('frag-1', 'source-1'),
+          entry('frag-old', 'source-1', { indexed: false }),
+        ]),
+      findIndexedSourcePage: jest.fn().mockResolvedValue([source]),
+      findSourcesByIds: jest.fn().mockResolvedValue([source]),
+      findFragmentsBySource: jest
+        .fn()
+        .mockResolvedValue([
+          createFragment('frag-1', 'source-1'),
+          createFragment('frag-old', 'source-1', { sourceVersion: 0 }),
+          createFragment('frag-excluded', 'source-1', { excluded: true }),
+        ]),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockIndexRepository = {
+      findById: jest.fn().mockImplementation(() => Promise.resolve(building)),
+      save: jest
+        .fn()
+        .mockImplementation((index: EmbeddingIndex) => Promise.resolve(index)),
+    } as unknown as jest.Mocked<IEmbeddingIndexRepository>;
+
+    mockVectorStore = {
+      listVectorIds: jest.fn().mockResolvedValue(['frag-1']),
+      deleteByIds: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IVectorStore>;
+
+    mockPipeline = {
+      indexFragments: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IngestionPipelineService>;
+
+    mockEmbeddingIndexService = {
+      getWriteIndexes: jest.fn().mockResolvedValue([active, building]),
+      switchTo: jest
+        .fn()
+        .mockImplementation((next: EmbeddingIndex) => Promise.resolve(next)),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    service = new EmbeddingReindexService(
+      mockRepository,
+      mockIndexRepository,
+      mockVectorStore,
+      mockPipeline,
+      mockEmbeddingIndexService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('runBatch', () => {
+    it('should embed the served fragments of each source into the new index', async () => {
+      // Act
+      await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(building.totalFragments).toBe(1);
+      expect(mockRepository.findIndexedSourcePage).toHaveBeenCalledWith(
+        SECTOR_ID,
+        undefined,
+        SOURCES_PER_BATCH,
+      );
+      expect(mockPipeline.indexFragments).toHaveBeenCalledWith(
+        source,
+        [expect.objectContaining({ id: 'frag-1' })],
+        [building],
+      );
+      expect(building.cursor).toBe('source-1');
+      expect(building.processedFragments).toBe(1);
+    });
+
+    it('should continue from the cursor while sources remain', async () => {
+      // Arrange
+      building.startBuild(40);
+      building.recordProgress('source-0', 1);
+      mockRepository.findIndexedSourcePage.mockResolvedValue(
+        Array.from({ length: SOURCES_PER_BATCH }, (_, i) =>
+          createSource(`source-${i + 1}`),
+        ),
+      );
+
+      // Act
+      const hasMore = await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(hasMore).toBe(true);
+      expect(mockRepository.findIndexedSourcePage).toHaveBeenCalledWith(
+        SECTOR_ID,
+        'source-0',
+        SOURCES_PER_BATCH,
+      );
+      expect(mockRepository.findFragmentIndexEntries).not.toHaveBeenCalled();
+      expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+    });
+
+    it('should catch up and switch the read path after the last batch', async () => {
+      // Arrange
+      mockVectorStore.listVectorIds.mockResolvedValue(['frag-1', 'frag-gone']);
+
+      // Act
+      const hasMore = await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(hasMore).toBe(false);
+      expect(mockVectorStore.listVectorIds).toHaveBeenCalledWith(NAMESPACE);
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+        ['frag-gone'],
+        NAMESPACE,
+      );
+      expect(mockEmbeddingIndexService.switchTo).toHaveBeenCalledWith(
+        building,
+        active,
+      );
+    });
+
+    it('should skip an index that is no longer being built', async () => {
+      // Arrange
+      building.cancel();
+
+      // Act
+      const hasMore = await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(hasMore).toBe(false);
+      expect(mockPipeline.indexFragments).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the build is rolled back during the batch', async () => {
+      // Arrange
+      const cancelled = EmbeddingIndex.build(active, 2, NEW_PROFILE);
+      cancelled.cancel();
+      mockIndexRepository.findById
+        .mockResolvedValueOnce(building)
+        .mockResolvedValueOnce(cancelled);
+
+      // Act
+      const hasMore = await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(hasMore).toBe(false);
+      expect(mockPipeline.indexFragments).not.toHaveBeenCalled();
+      expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+    });
+
+    it('should mark the build as failed and clear its namespace', async () => {
+      // Arrange
+      mockPipeline.indexFragments.mockRejectedValue(
+        new Error(
+          'Vector dimension 768 does not match the dimension of the index',
+        ),
+      );
+
+      // Act
+      const hasMore = await service.runBatch(INDEX_ID);
+
+      // Assert
+      expect(hasMore).toBe(false);
+      expect(building.status).toBe(EmbeddingIndexStatus.FAILED);
+      expect(building.errorMessage).toContain('Vector dimension 768');
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+        ['frag-1'],
+        NAMESPACE,
+      );
+      expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncIndex', () => {
+    it('should re-embed fragments changed since the given date', async () => {
+      // Arrange
+      mockRepository.findFragmentIndexEntries.mockResolvedValue([
+        entry('frag-1', 'source-1', { updatedAt: new Date('2025-03-02') }),
+      ]);
+      active.retire();
+
+      // Act
+      await service.syncIndex(active, new Date('2025-03-01'));
+
+      // Assert
+      expect(mockVectorStore.listVectorIds).toHaveBeenCalledWith(SECTOR_ID);
+      expect(mockPipeline.indexFragments).toHaveBeenCalledWith(
+        source,
+        [expect.objectContaining({ id: 'frag-1' })],
+        [active],
+      );
+    });
+
+    it('should leave unchanged fragments with a vector alone', async () => {
+      // Act
+      await service.syncIndex(active, new Date('2025-03-01'));
+
+      // Assert
+      expect(mockRepository.findSourcesByIds).toHaveBeenCalledWith([]);
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith([], SECTOR_ID);
+    });
+  });
+
+  describe('clearIndex', () => {
+    it('should not throw when the namespace cannot be cleared', async () => {
+      // Arrange
+      mockVectorStore.listVectorIds.mockRejectedValue(
+        new Error('Pinecone down'),
+      );
+
+      // Act & Assert
+      await expect(service.clearIndex(building)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { FragmentCurationService } from '../../../../../../src/modules/knowledge/application/services/fragment-curation.service';
+import { IngestionPipelineService } from '../../../../../../src/modules/knowledge/application/services/ingestion-pipeline.service';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeFragmentsCuratedEvent } from '../../../../../../src/modules/knowledge/domain/events/knowledge.events';
+import { SourceType } from '@shared/types';
+
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+
+function createSource(): KnowledgeSource {
+  const source = new KnowledgeSource({
+    title: 'Benefits Policy',
+    sectorId: SECTOR_ID,
+    sourceType: SourceType.PDF,
+    content: 'Vacation days: 25 per year. Remote work: 2 days per week.',
+  });
+  source.id = SOURCE_ID;
+  source.markAsProcessing();
+  source.markAsCompleted();
+  return source;
+}
+
+function createFragment(
+  id: string,
+  position: number,
+  sourceVersion = 1,
+): Fragment {
+  return Fragment.fromPersistence({
+    id,
+    sourceId: SOURCE_ID,
+    sourceVersion,
+    content: `Content of fragment ${id}`,
+    position,
+    tokenCount: 6,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('FragmentCurationService', () => {
+  let service: FragmentCurationService;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let mockPipeline: jest.Mocked<IngestionPipelineService>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+  let source: KnowledgeSource;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    source = createSource();
+
+    mockRepository = {
+      findSourceById: jest.fn().mockResolvedValue(source),
+      findFragmentsBySource: jest
+        .fn()
+        .mockResolvedValue([
+          createFragment('frag-1', 0),
+          createFragment('frag-2', 1),
+          createFragment('frag-stale', 0, 2),
+        ]),
+      updateFragments: jest
+        .fn()
+        .mockImplementation((fragments: Fragment[]) =>
+          Promise.resolve(fragments),
+        ),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockVectorStore = {
+      deleteByIds: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IVectorStore>;
+
+    mockPipeline = {
+      indexFragments: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IngestionPipelineService>;
+
+    mockEmbeddingIndexService = {
+      getVectorNamespaces: jest
+        .fn()
+        .mockImplementation((sectorId: string) => Promise.resolve([sectorId])),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    service = new FragmentCurationService(
+      mockRepository,
+      mockVectorStore,
+      mockPipeline,
+      mockEmbeddingIndexService,
+      mockEventEmitter,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('loadServedFragments', () => {
+    it('should return the fragments of the indexed version', async () => {
+      const served = await service.loadServedFragments(SOURCE_ID);
+
+      expect(served.source).toBe(source);
+      expect(served.fragments.map((fragment) => fragment.id)).toEqual([
+        'frag-1',
+        'frag-2',
+      ]);
+    });
+
+    it('should throw when the source is not found', async () => {
+      mockRepository.findSourceById.mockResolvedValue(null);
+
+      await expect(service.loadServedFragments(SOURCE_ID)).rejects.toThrow(
+        `Knowledge source not found: ${SOURCE_ID}`,
+      );
+    });
+
+    it('should throw when the source is being indexed', async () => {
+      source.replaceContent('New content of the policy', 'hash-2');
+      source.markAsProcessing();
+
+      await expect(service.loadServedFragments(SOURCE_ID)).rejects.toThrow(
+        'Fragments can only be edited once the source is indexed (status: PROCESSING)',
+      );
+      expect(mockRepository.findFragmentsBySource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findFragments', () => {
+    it('should return the fragments by position', async () => {
+      const served = await service.loadServedFragments(SOURCE_ID);
+
+      const found = service.findFragments(served, ['frag-2', 'frag-1']);
+
+      expect(found.map((fragment) => fragment.id)).toEqual([
+        'frag-1',
+        'frag-2',
+      ]);
+    });
+
+    it('should throw for fragments that are not served', async () => {
+      const served = await service.loadServedFragments(SOURCE_ID);
+
+      expect(() =>
+        service.findFragments(served, ['frag-1', 'frag-stale', 'frag-9']),
+      ).toThrow('Fragment not found: frag-stale, frag-9');
+    });
+  });
+
+  describe('applyChanges', () => {
+    it('should save the changes and update only the affected vectors', async () => {
+      const edited = createFragment('frag-1', 0);
+      const excluded = createFragment('frag-2', 1);
+      excluded.setExcluded(true);
+      const moved = createFragment('frag-3', 3);
+
+      const result = await service.applyChanges(source, {
+        edited: [excluded, edited],
+        moved: [moved],
+        deletedIds: ['frag-4'],
+      });
+
+      expect(mockRepository.updateFragments).toHaveBeenCalledWith(
+        [excluded, edited, moved],
+        ['frag-4'],
+      );
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+        ['frag-4', 'frag-2'],
+        SECTOR_ID,
+      );
+      expect(mockPipeline.indexFragments).toHaveBeenCalledWith(source, [
+        edited,
+      ]);
+      expect(result).toEqual({
+        fragments: [edited, excluded],
+        deletedFragmentIds: ['frag-4'],
+        vectorsUpdated: true,
+      });
+    });
+
+    it('should keep the saved changes when the vector update fails', async () => {
+      mockPipeline.indexFragments.mockRejectedValue(
+        new Error('Embedding service unavailable'),
+      );
+
+      const result = await service.applyChanges(source, {
+        edited: [createFragment('frag-1', 0)],
+      });
+
+      expect(mockRepository.updateFragments).toHaveBeenCalled();
+      expect(result.vectorsUpdated).toBe(false);
+      expect(Logger.prototype.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Embedding service unavailable'),
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.fragments.curated',
+        expect.any(KnowledgeFragmentsCuratedEvent),
+      );
+    });
+
+    it('should emit knowledge.fragments.curated once the changes are saved', async () => {
+      await service.applyChanges(source, {
+        edited: [createFragment('frag-1', 0)],
+        deletedIds: ['frag-2'],
+      });
+
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.fragments.curated',
+        expect.objectContaining({
+          sourceId: SOURCE_ID,
+          sectorId: SECTOR_ID,
+          editedCount: 1,
+          deletedCount: 1,
+        }),
+      );
+      expect(
+        mockRepository.updateFragments.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockEventEmitter.emit.mock.invocationCallOrder[0]);
+    });
+
+    it('should not touch the vectors when the save fails', async () => {
+      mockRepository.updateFragments.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.applyChanges(source, { edited: [createFragment('frag-1', 0)] }),
+      ).rejects.toThrow('Database error');
+      expect(mockVectorStore.deleteByIds).not.toHaveBeenCalled();
+      expect(mockPipeline.indexFragments).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,819 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { IngestionPipelineService } from '../../../../../../src/modules/knowledge/application/services/ingestion-pipeline.service';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { DocumentParserService } from '../../../../../../src/modules/knowledge/infrastructure/services/document-parser.service';
+import { ChunkingService } from '../../../../../../src/modules/knowledge/infrastructure/services/chunking.service';
+import { EmbeddingService } from '../../../../../../src/modules/knowledge/infrastructure/services/embedding.service';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { EmbeddingIndex } from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSourceRevision } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { SourceType, SourceStatus, ChunkingStrategy } from '@shared/types';
+import { sha256Hex } from '@shared/utils';
+
+const SOURCE_ID = 'source-123';
+const SECTOR_ID = '550e8400-e29b-41d4-a716-446655440000';
+const CONTENT = 'Test content for PDF document';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+
+describe('IngestionPipelineService', () => {
+  let service: IngestionPipelineService;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockParserService: jest.Mocked<DocumentParserService>;
+  let mockChunkingService: jest.Mocked<ChunkingService>;
+  let mockEmbeddingService: jest.Mocked<EmbeddingService>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+  let source: KnowledgeSource;
+  let savedSnapshots: Array<{
+    status: string;
+    step?: string;
+    progress?: number;
+  }>;
+
+  const createSavedFragment = (
+    id: string,
+    content: string,
+    position: number,
+    tokenCount: number,
+    sourceVersion?: number,
+  ): Fragment => {
+    const fragment = new Fragment({
+      sourceId: SOURCE_ID,
+      content,
+      position,
+      tokenCount,
+      sourceVersion,
+    });
+    Reflect.set(fragment, 'id', id);
+    return fragment;
+  };
+
+  const mockChunk = (content: string, position: number, tokens: number) => ({
+    content,
+    position,
+    tokens,
+    startIndex: 0,
+    endIndex: content.length,
+  });
+
+  beforeEach(() => {
+    source = new KnowledgeSource({
+      title: 'Test Document',
+      sectorId: SECTOR_ID,
+      sourceType: SourceType.PDF,
+      content: CONTENT,
+    });
+    source.id = SOURCE_ID;
+
+    savedSnapshots = [];
+
+    const recordSave = (s: KnowledgeSource) => {
+      savedSnapshots.push({
+        status: s.status,
+        step: s.processingStep,
+        progress: s.processingProgress,
+      });
+      return Promise.resolve(s);
+    };
+
+    mockRepository = {
+      saveSource: jest.fn().mockImplementation(recordSave),
+      activateSourceVersion: jest.fn().mockImplementation(recordSave),
+      findSourceById: jest.fn().mockResolvedValue(source),
+      findFragmentsBySource: jest.fn().mockResolvedValue([]),
+      saveFragments: jest.fn(),
+      deleteFragmentsByIds: jest.fn().mockResolvedValue(undefined),
+      findPendingOcrFile: jest.fn().mockResolvedValue(null),
+      clearPendingOcrFile: jest.fn().mockResolvedValue(undefined),
+      findRevisionBySourceAndVersion: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockVectorStore = {
+      upsertVectors: jest.fn().mockResolvedValue(undefined),
+      vectorSearch: jest.fn(),
+      deleteBySourceId: jest.fn().mockResolvedValue(undefined),
+      deleteByIds: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IVectorStore>;
+
+    mockParserService = {
+      parse: jest.fn(),
+      toEmbeddingText: jest.fn().mockReturnValue(CONTENT),
+    } as unknown as jest.Mocked<DocumentParserService>;
+
+    mockChunkingService = {
+      chunk: jest.fn().mockReturnValue([mockChunk(CONTENT, 0, 5)]),
+      chunkByStructure: jest.fn(),
+    } as unknown as jest.Mocked<ChunkingService>;
+
+    mockEmbeddingService = {
+      generateDocumentEmbeddings: jest
+        .fn()
+        .mockResolvedValue([Array(3072).fill(0.1)]),
+    } as unknown as jest.Mocked<EmbeddingService>;
+
+    mockRepository.saveFragments.mockResolvedValue([
+      createSavedFragment('fragment-001', CONTENT, 0, 5),
+    ]);
+
+    mockEmbeddingIndexService = {
+      getWriteIndexes: jest
+        .fn()
+        .mockResolvedValue([EmbeddingIndex.initial(SECTOR_ID, PROFILE)]),
+      getVectorNamespaces: jest.fn().mockResolvedValue([SECTOR_ID]),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    service = new IngestionPipelineService(
+      mockRepository,
+      mockVectorStore,
+      mockParserService,
+      mockChunkingService,
+      mockEmbeddingService,
+      mockEmbeddingIndexService,
+      mockEventEmitter,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Successful ingestion', () => {
+    it('should chunk the embedding text derived from the stored content', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockParserService.toEmbeddingText).toHaveBeenCalledWith(
+        CONTENT,
+        SourceType.PDF,
+      );
+      expect(mockChunkingService.chunk).toHaveBeenCalledWith(CONTENT);
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).toHaveBeenCalledWith([CONTENT], PROFILE);
+    });
+
+    it('should upsert vectors after saving fragments', async () => {
+      // Arrange
+      const embedding = Array(3072).fill(0.5);
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
+        embedding,
+      ]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith(
+        [
+          {
+            id: 'fragment-001',
+            embedding,
+            metadata: {
+              sourceId: SOURCE_ID,
+              sectorId: SECTOR_ID,
+              content: CONTENT,
+              position: 0,
+              tokenCount: 5,
+              sourceType: SourceType.PDF,
+              createdAt: expect.any(Number),
+              embeddingModel: PROFILE.model,
+              embeddingDimensions: PROFILE.dimensions,
+            },
+          },
+        ],
+        SECTOR_ID,
+      );
+      const saveFragmentsOrder =
+        mockRepository.saveFragments.mock.invocationCallOrder[0];
+      const upsertVectorsOrder =
+        mockVectorStore.upsertVectors.mock.invocationCallOrder[0];
+      expect(saveFragmentsOrder).toBeLessThan(upsertVectorsOrder);
+    });
+
+    it('should align embeddings with multiple fragments by position', async () => {
+      // Arrange
+      mockChunkingService.chunk.mockReturnValue([
+        mockChunk('first chunk text', 0, 1),
+        mockChunk('second chunk text', 1, 1),
+      ]);
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
+        [0.1],
+        [0.2],
+      ]);
+      mockRepository.saveFragments.mockResolvedValue([
+        createSavedFragment('frag-b', 'second chunk text', 1, 1),
+        createSavedFragment('frag-a', 'first chunk text', 0, 1),
+      ]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      const vectors = mockVectorStore.upsertVectors.mock.calls[0][0];
+      expect(vectors.map((v) => [v.id, v.embedding])).toEqual([
+        ['frag-a', [0.1]],
+        ['frag-b', [0.2]],
+      ]);
+    });
+
+    it('should report each step with increasing progress', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(savedSnapshots).toEqual([
+        { status: SourceStatus.PROCESSING, step: 'CHUNKING', progress: 10 },
+        { status: SourceStatus.PROCESSING, step: 'EMBEDDING', progress: 30 },
+        { status: SourceStatus.PROCESSING, step: 'STORING', progress: 70 },
+        { status: SourceStatus.PROCESSING, step: 'INDEXING', progress: 85 },
+        { status: SourceStatus.COMPLETED, step: 'INDEXING', progress: 100 },
+      ]);
+    });
+
+    it('should emit knowledge.source.ingested after completion', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.source.ingested',
+        expect.objectContaining({
+          sourceId: SOURCE_ID,
+          sectorId: SECTOR_ID,
+          fragmentCount: 1,
+        }),
+      );
+    });
+
+    it('should call vector store with empty array when no fragments were created', async () => {
+      // Arrange
+      mockChunkingService.chunk.mockReturnValue([]);
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([]);
+      mockRepository.saveFragments.mockResolvedValue([]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith([], SECTOR_ID);
+      expect(source.status).toBe(SourceStatus.COMPLETED);
+    });
+  });
+
+  describe('Structured chunking', () => {
+    const MARKDOWN = '# Leave\n\n## Vacations\n\n- 22 days per year';
+
+    beforeEach(() => {
+      source = new KnowledgeSource({
+        title: 'Leave Policy',
+        sectorId: SECTOR_ID,
+        sourceType: SourceType.MARKDOWN,
+        content: MARKDOWN,
+        chunkingStrategy: ChunkingStrategy.STRUCTURED,
+      });
+      source.id = SOURCE_ID;
+      mockRepository.findSourceById.mockResolvedValue(source);
+
+      mockChunkingService.chunkByStructure.mockReturnValue([
+        {
+          ...mockChunk('- 22 days per year', 0, 4),
+          headingPath: ['Leave', 'Vacations'],
+        },
+      ]);
+      mockParserService.toEmbeddingText.mockReturnValue('22 days per year');
+      mockRepository.saveFragments.mockImplementation((fragments) =>
+        Promise.resolve(
+          fragments.map((fragment, index) => {
+            Reflect.set(fragment, 'id', `fragment-${index}`);
+            return fragment;
+          }),
+        ),
+      );
+    });
+
+    it('should chunk the stored Markdown along its structure', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockChunkingService.chunkByStructure).toHaveBeenCalledWith(
+        MARKDOWN,
+      );
+      expect(mockChunkingService.chunk).not.toHaveBeenCalled();
+    });
+
+    it('should embed each chunk with its heading path prepended', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockParserService.toEmbeddingText).toHaveBeenCalledWith(
+        '- 22 days per year',
+        SourceType.MARKDOWN,
+      );
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).toHaveBeenCalledWith(
+        ['Leave > Vacations\n\n22 days per year'],
+        PROFILE,
+      );
+    });
+
+    it('should keep the Markdown as fragment content and record the heading path', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      const [fragment] = mockRepository.saveFragments.mock.calls[0][0];
+      expect(fragment.content).toBe('- 22 days per year');
+      expect(fragment.metadata).toEqual(
+        expect.objectContaining({ headingPath: ['Leave', 'Vacations'] }),
+      );
+
+      const [vector] = mockVectorStore.upsertVectors.mock.calls[0][0];
+      expect(vector.metadata.headingPath).toEqual(['Leave', 'Vacations']);
+    });
+
+    it('should not add a heading path to fixed-window fragments', async () => {
+      // Arrange
+      source.chunkingStrategy = ChunkingStrategy.FIXED_WINDOW;
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      const [fragment] = mockRepository.saveFragments.mock.calls[0][0];
+      expect(fragment.metadata).not.toHaveProperty('headingPath');
+      const [vector] = mockVectorStore.upsertVectors.mock.calls[0][0];
+      expect(vector.metadata).not.toHaveProperty('headingPath');
+    });
+  });
+
+  describe('Embedding indexes', () => {
+    it('should also write to the index being built, recording the active profile on fragments', async () => {
+      // Arrange
+      const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const building = EmbeddingIndex.build(active, 2, {
+        model: PROFILE.model,
+        dimensions: 768,
+      });
+      mockEmbeddingIndexService.getWriteIndexes.mockResolvedValue([
+        active,
+        building,
+      ]);
+      mockEmbeddingService.generateDocumentEmbeddings
+        .mockResolvedValueOnce([Array(3072).fill(0.1)])
+        .mockResolvedValueOnce([Array(768).fill(0.1)]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).toHaveBeenCalledWith([CONTENT], building.getProfile());
+      const [saved] = mockRepository.saveFragments.mock.calls[0][0];
+      expect(saved.embeddingModel).toBe(PROFILE.model);
+      expect(saved.embeddingDimensions).toBe(PROFILE.dimensions);
+      const namespaces = mockVectorStore.upsertVectors.mock.calls.map(
+        ([, namespace]) => namespace,
+      );
+      expect(namespaces).toEqual([SECTOR_ID, `${SECTOR_ID}--g2`]);
+      expect(
+        mockVectorStore.upsertVectors.mock.calls[1][0][0].embedding,
+      ).toHaveLength(768);
+    });
+  });
+
+  describe('Redelivery', () => {
+    it('should skip sources that are already completed', async () => {
+      // Arrange
+      source.markAsProcessing();
+      source.markAsCompleted();
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockChunkingService.chunk).not.toHaveBeenCalled();
+      expect(mockRepository.saveSource).not.toHaveBeenCalled();
+    });
+
+    it('should remove fragments and vectors from an interrupted attempt', async () => {
+      // Arrange
+      source.markAsProcessing();
+      mockRepository.findFragmentsBySource.mockResolvedValue([
+        createSavedFragment('partial-1', CONTENT, 0, 5),
+        createSavedFragment('partial-2', CONTENT, 1, 5),
+      ]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+        ['partial-1', 'partial-2'],
+        SECTOR_ID,
+      );
+      expect(mockRepository.deleteFragmentsByIds).toHaveBeenCalledWith([
+        'partial-1',
+        'partial-2',
+      ]);
+      const cleanupOrder =
+        mockRepository.deleteFragmentsByIds.mock.invocationCallOrder[0];
+      const saveFragmentsOrder =
+        mockRepository.saveFragments.mock.invocationCallOrder[0];
+      expect(cleanupOrder).toBeLessThan(saveFragmentsOrder);
+      expect(source.status).toBe(SourceStatus.COMPLETED);
+    });
+
+    it('should not clean up when no previous fragments exist', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockVectorStore.deleteByIds).not.toHaveBeenCalled();
+      expect(mockRepository.deleteFragmentsByIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Versioned content', () => {
+    beforeEach(() => {
+      // Version 1 is indexed and served; version 2 is waiting
+      source.markAsProcessing();
+      source.markAsCompleted();
+      source.replaceContent(CONTENT, 'hash-2');
+      mockRepository.findFragmentsBySource.mockResolvedValue([
+        createSavedFragment('v1-fragment', CONTENT, 0, 5, 1),
+      ]);
+    });
+
+    it('should tag new fragments with the version being indexed', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      const [fragment] = mockRepository.saveFragments.mock.calls[0][0];
+      expect(fragment.sourceVersion).toBe(2);
+    });
+
+    it('should keep the indexed version until the new one is indexed', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockRepository.deleteFragmentsByIds).not.toHaveBeenCalled();
+      expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+        ['v1-fragment'],
+        SECTOR_ID,
+      );
+      const upsertOrder =
+        mockVectorStore.upsertVectors.mock.invocationCallOrder[0];
+      const deleteOrder =
+        mockVectorStore.deleteByIds.mock.invocationCallOrder[0];
+      const activateOrder =
+        mockRepository.activateSourceVersion.mock.invocationCallOrder[0];
+      expect(upsertOrder).toBeLessThan(deleteOrder);
+      expect(deleteOrder).toBeLessThan(activateOrder);
+      expect(source.indexedVersion).toBe(2);
+    });
+
+    it('should keep serving the indexed version when indexing fails', async () => {
+      // Arrange
+      mockVectorStore.upsertVectors.mockRejectedValue(
+        new Error('Pinecone connection failed'),
+      );
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(source.indexedVersion).toBe(1);
+      expect(mockVectorStore.deleteByIds).not.toHaveBeenCalled();
+      expect(mockRepository.activateSourceVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Scanned pages', () => {
+    const PDF_FILE = Buffer.from('%PDF-1.4 scanned');
+    const RECOGNIZED = 'Manual de bienvenida reconocido';
+    const ocr = {
+      pages: [{ page: 1, confidence: 0.41, lowConfidence: true }],
+      lowConfidencePages: [1],
+    };
+
+    beforeEach(() => {
+      mockRepository.findPendingOcrFile.mockResolvedValue(PDF_FILE);
+      mockParserService.parse.mockResolvedValue({
+        content: RECOGNIZED,
+        contentForEmbedding: RECOGNIZED,
+        metadata: {
+          sourceType: SourceType.PDF,
+          parsedAt: new Date().toISOString(),
+          originalSize: PDF_FILE.length,
+          pages: 1,
+          ocr,
+        },
+      });
+    });
+
+    it('should index the content recognized by OCR, with its confidence', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockParserService.parse).toHaveBeenCalledWith(
+        PDF_FILE,
+        SourceType.PDF,
+      );
+      expect(mockParserService.toEmbeddingText).toHaveBeenCalledWith(
+        RECOGNIZED,
+        SourceType.PDF,
+      );
+      expect(source.content).toBe(RECOGNIZED);
+      expect(source.contentHash).toBe(sha256Hex(RECOGNIZED));
+      expect(source.metadata?.ocr).toEqual(ocr);
+      expect(source.getLowConfidencePages()).toEqual([1]);
+      expect(source.version).toBe(1);
+      expect(savedSnapshots[0]).toEqual({
+        status: SourceStatus.PROCESSING,
+        step: 'RECOGNIZING',
+        progress: 0,
+      });
+    });
+
+    it('should discard the file once the source is indexed', async () => {
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockRepository.clearPendingOcrFile).toHaveBeenCalledWith(
+        SOURCE_ID,
+      );
+      expect(
+        mockRepository.activateSourceVersion.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockRepository.clearPendingOcrFile.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should keep the file for a retry when ingestion fails', async () => {
+      // Arrange
+      mockParserService.parse.mockRejectedValue(
+        new Error('Failed to parse PDF: No readable content found in document'),
+      );
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(mockRepository.clearPendingOcrFile).not.toHaveBeenCalled();
+    });
+
+    describe('New versions', () => {
+      beforeEach(() => {
+        source.markAsProcessing();
+        source.markAsCompleted();
+        source.replaceContent('', sha256Hex(''), undefined, true);
+      });
+
+      it('should index a recognized version that changed', async () => {
+        // Arrange
+        mockRepository.findRevisionBySourceAndVersion.mockResolvedValue(
+          new KnowledgeSourceRevision({
+            sourceId: SOURCE_ID,
+            version: 1,
+            content: CONTENT,
+            contentHash: sha256Hex(CONTENT),
+          }),
+        );
+
+        // Act
+        await service.processSource(SOURCE_ID);
+
+        // Assert
+        expect(
+          mockRepository.findRevisionBySourceAndVersion,
+        ).toHaveBeenCalledWith(SOURCE_ID, 1);
+        expect(source.status).toBe(SourceStatus.COMPLETED);
+        expect(source.indexedVersion).toBe(2);
+      });
+
+      it('should fail a version identical to the indexed one once recognized', async () => {
+        // Arrange
+        mockRepository.findRevisionBySourceAndVersion.mockResolvedValue(
+          new KnowledgeSourceRevision({
+            sourceId: SOURCE_ID,
+            version: 1,
+            content: RECOGNIZED,
+            contentHash: sha256Hex(RECOGNIZED),
+          }),
+        );
+
+        // Act
+        await service.processSource(SOURCE_ID);
+
+        // Assert
+        expect(source.status).toBe(SourceStatus.FAILED);
+        expect(source.errorMessage).toBe(
+          'Content is identical to the current version',
+        );
+        expect(source.indexedVersion).toBe(1);
+        expect(mockChunkingService.chunk).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should not parse sources without a pending file', async () => {
+      // Arrange
+      mockRepository.findPendingOcrFile.mockResolvedValue(null);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(mockParserService.parse).not.toHaveBeenCalled();
+      expect(mockRepository.clearPendingOcrFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('indexFragments', () => {
+    it('should embed stored fragments in order and upsert their vectors', async () => {
+      // Arrange
+      const second = createSavedFragment('fragment-002', CONTENT, 1, 5);
+      const first = createSavedFragment('fragment-001', CONTENT, 0, 5);
+      first.metadata = { headingPath: ['Leave'] };
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
+        Array(3072).fill(0.1),
+        Array(3072).fill(0.2),
+      ]);
+
+      // Act
+      await service.indexFragments(source, [second, first]);
+
+      // Assert
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).toHaveBeenCalledWith([`Leave\n\n${CONTENT}`, CONTENT], PROFILE);
+      const vectors = mockVectorStore.upsertVectors.mock.calls[0][0];
+      expect(vectors.map((vector) => vector.id)).toEqual([
+        'fragment-001',
+        'fragment-002',
+      ]);
+      expect(vectors[0].metadata.sectorId).toBe(SECTOR_ID);
+      expect(mockRepository.saveFragments).not.toHaveBeenCalled();
+    });
+
+    it('should index the source type, tags and creation date for filtering', async () => {
+      // Arrange
+      source.setTags(['hr', ' Onboarding ', 'hr']);
+      const fragment = createSavedFragment('fragment-001', CONTENT, 0, 5);
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
+        Array(3072).fill(0.1),
+      ]);
+
+      // Act
+      await service.indexFragments(source, [fragment]);
+
+      // Assert
+      const [vector] = mockVectorStore.upsertVectors.mock.calls[0][0];
+      expect(vector.metadata).toEqual(
+        expect.objectContaining({
+          sourceType: SourceType.PDF,
+          tags: ['hr', 'onboarding'],
+          createdAt: source.createdAt.getTime(),
+        }),
+      );
+    });
+
+    it('should only write to the given indexes', async () => {
+      // Arrange
+      const fragment = createSavedFragment('fragment-001', CONTENT, 0, 5);
+      const building = EmbeddingIndex.build(
+        EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+        2,
+        { model: PROFILE.model, dimensions: 768 },
+      );
+
+      // Act
+      await service.indexFragments(source, [fragment], [building]);
+
+      // Assert
+      expect(mockEmbeddingIndexService.getWriteIndexes).not.toHaveBeenCalled();
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).toHaveBeenCalledWith([CONTENT], building.getProfile());
+      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            metadata: expect.objectContaining({ embeddingDimensions: 768 }),
+          }),
+        ],
+        `${SECTOR_ID}--g2`,
+      );
+    });
+
+    it('should do nothing without fragments', async () => {
+      // Act
+      await service.indexFragments(source, []);
+
+      // Assert
+      expect(
+        mockEmbeddingService.generateDocumentEmbeddings,
+      ).not.toHaveBeenCalled();
+      expect(mockVectorStore.upsertVectors).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should throw when the source does not exist', async () => {
+      // Arrange
+      mockRepository.findSourceById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.processSource('missing')).rejects.toThrow(
+        'Knowledge source missing not found',
+      );
+    });
+
+    it('should mark the source as FAILED on embedding errors', async () => {
+      // Arrange
+      mockEmbeddingService.generateDocumentEmbeddings.mockRejectedValue(
+        new Error('API rate limit exceeded'),
+      );
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(source.errorMessage).toBe('API rate limit exceeded');
+      expect(savedSnapshots.at(-1)?.status).toBe(SourceStatus.FAILED);
+      expect(mockRepository.saveFragments).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should mark the source as FAILED on vector store errors', async () => {
+      // Arrange
+      mockVectorStore.upsertVectors.mockRejectedValue(
+        new Error('Pinecone connection failed'),
+      );
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(source.errorMessage).toBe('Pinecone connection failed');
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should fail on embedding/fragment count mismatch', async () => {
+      // Arrange
+      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([]);
+
+      // Act
+      await service.processSource(SOURCE_ID);
+
+      // Assert
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(source.errorMessage).toContain('count mismatch');
+      expect(mockVectorStore.upsertVectors).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when saving the FAILED status fails', async () => {
+      // Arrange
+      mockChunkingService.chunk.mockImplementation(() => {
+        throw new Error('Chunking failed');
+      });
+      mockRepository.saveSource
+        .mockResolvedValueOnce(source)
+        .mockRejectedValueOnce(new Error('Database down'));
+
+      // Act & Assert
+      await expect(service.processSource(SOURCE_ID)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import { IntervalScheduler } from '../../../../../../src/modules/knowledge/application/services/interval-scheduler';
+
+const ENV_VAR = 'TEST_JOB_INTERVAL_MINUTES';
+
+describe('IntervalScheduler', () => {
+  let run: jest.Mock<Promise<void>, []>;
+  let scheduler: IntervalScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    run = jest.fn().mockResolvedValue(undefined);
+    scheduler = new IntervalScheduler(
+      {
+        name: 'Test job',
+        intervalEnvVar: ENV_VAR,
+        internalEndpoint: '/internal/test-job',
+        run,
+      },
+      'TestScheduler',
+    );
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    delete process.env[ENV_VAR];
+  });
+
+  it('should be disabled unless its interval is set', () => {
+    // Act
+    scheduler.start();
+    jest.advanceTimersByTime(7 * 24 * 60 * 60_000);
+
+    // Assert
+    expect(run).not.toHaveBeenCalled();
+    expect(Logger.prototype.log).toHaveBeenCalledWith(
+      `Test job scheduler disabled (set ${ENV_VAR} to run it in-process, or have Cloud Scheduler call POST /internal/test-job)`,
+    );
+  });
+
+  it('should run the job at the configured interval', () => {
+    // Arrange
+    process.env[ENV_VAR] = '30';
+
+    // Act
+    scheduler.start();
+    jest.advanceTimersByTime(29 * 60_000);
+
+    // Assert
+    expect(run).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(60_000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it.each(['-5', 'daily'])(
+    'should stay disabled with an invalid interval (%s)',
+    (value) => {
+      // Arrange
+      process.env[ENV_VAR] = value;
+
+      // Act
+      scheduler.start();
+      jest.advanceTimersByTime(7 * 24 * 60 * 60_000);
+
+      // Assert
+      expect(run).not.toHaveBeenCalled();
+      expect(Logger.prototype.warn).toHaveBeenCalledWith(
+        `Invalid ${ENV_VAR} "${value}", scheduler disabled`,
+      );
+    },
+  );
+
+  it('should not run again once stopped', () => {
+    // Arrange
+    process.env[ENV_VAR] = '30';
+    scheduler.start();
+
+    // Act
+    scheduler.stop();
+    jest.advanceTimersByTime(60 * 60_000);
+
+    // Assert
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should log failed runs without throwing', async () => {
+    // Arrange
+    run.mockRejectedValueOnce(new Error('DB down'));
+
+    // Act & Assert
+    await expect(scheduler.runOnce()).resolves.toBe(true);
+    expect(Logger.prototype.error).toHaveBeenCalledWith(
+      'Test job run failed: DB down',
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { Logger } from '@nestjs/common';
+import { KnowledgeQuotaService } from '../../../../../../src/modules/knowledge/application/services/knowledge-quota.service';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const OTHER_SECTOR_ID = '770e8400-e29b-41d4-a716-446655440002';
+const MB = 1024 * 1024;
+
+const QUOTA_ENV_VARS = [
+  'KNOWLEDGE_MAX_SOURCES_PER_SECTOR',
+  'KNOWLEDGE_MAX_FRAGMENTS_PER_SECTOR',
+  'KNOWLEDGE_MAX_TOKENS_PER_SECTOR',
+  'KNOWLEDGE_SECTOR_QUOTAS',
+  'KNOWLEDGE_MAX_FILE_SIZE_MB',
+  'KNOWLEDGE_MAX_FILE_SIZE_MB_MARKDOWN',
+];
+
+describe('KnowledgeQuotaService', () => {
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let warnSpy: jest.SpyInstance;
+
+  const createService = (): KnowledgeQuotaService =>
+    new KnowledgeQuotaService(mockRepository);
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    mockRepository = {
+      countSourcesBySector: jest.fn().mockResolvedValue(10),
+      getFragmentUsageBySector: jest
+        .fn()
+        .mockResolvedValue({ fragments: 400, tokens: 120_000 }),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+  });
+
+  afterEach(() => {
+    for (const name of QUOTA_ENV_VARS) {
+      delete process.env[name];
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('limits', () => {
+    it('should apply the default limits', async () => {
+      // Act
+      const quota = await createService().getQuota(SECTOR_ID);
+
+      // Assert
+      expect(quota.sources).toEqual({ used: 10, limit: 500, remaining: 490 });
+      expect(quota.fragments).toEqual({
+        used: 400,
+        limit: 50_000,
+        remaining: 49_600,
+      });
+      expect(quota.tokens.limit).toBe(10_000_000);
+      expect(quota.maxFileSizeBytes[SourceType.PDF]).toBe(10 * MB);
+    });
+
+    it('should read the limits and per-type file sizes from the environment', () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_SOURCES_PER_SECTOR = '20';
+      process.env.KNOWLEDGE_MAX_FILE_SIZE_MB = '8';
+      process.env.KNOWLEDGE_MAX_FILE_SIZE_MB_MARKDOWN = '2';
+      const service = createService();
+
+      // Act & Assert
+      expect(service.getLimits(SECTOR_ID).maxSources).toBe(20);
+      expect(() =>
+        service.assertFileSize(SourceType.MARKDOWN, 2 * MB + 1),
+      ).toThrow('File too large for MARKDOWN sources. Maximum size is 2MB');
+      expect(() =>
+        service.assertFileSize(SourceType.PDF, 8 * MB),
+      ).not.toThrow();
+    });
+
+    it('should override the limits of the configured sectors only', () => {
+      // Arrange
+      process.env.KNOWLEDGE_SECTOR_QUOTAS = JSON.stringify({
+        [SECTOR_ID]: { maxSources: 1000, maxTokens: -1 },
+      });
+      const service = createService();
+
+      // Act & Assert
+      expect(service.getLimits(SECTOR_ID)).toEqual({
+        maxSources: 1000,
+        maxFragments: 50_000,
+        maxTokens: 10_000_000,
+      });
+      expect(service.getLimits(OTHER_SECTOR_ID).maxSources).toBe(500);
+    });
+
+    it('should fall back to the defaults on invalid configuration', () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_SOURCES_PER_SECTOR = 'many';
+      process.env.KNOWLEDGE_SECTOR_QUOTAS = '{not json';
+
+      // Act
+      const service = createService();
+
+      // Assert
+      expect(service.getLimits(SECTOR_ID).maxSources).toBe(500);
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('assertCapacity', () => {
+    it('should accept a document that fits in the quota', async () => {
+      // Act & Assert
+      await expect(
+        createService().assertCapacity(SECTOR_ID, 5_000),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a new source when the sector has no source left', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_SOURCES_PER_SECTOR = '10';
+
+      // Act & Assert
+      await expect(
+        createService().assertCapacity(SECTOR_ID, 1),
+      ).rejects.toThrow('Sector quota exceeded: 10/10 sources');
+    });
+
+    it('should reject a new source when the sector has no fragment left', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_FRAGMENTS_PER_SECTOR = '400';
+
+      // Act & Assert
+      await expect(
+        createService().assertCapacity(SECTOR_ID, 1),
+      ).rejects.toThrow('Sector quota exceeded: 400/400 fragments');
+    });
+
+    it('should reject a document with more tokens than remain', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR = '125000';
+
+      // Act & Assert
+      await expect(
+        createService().assertCapacity(SECTOR_ID, 5_001),
+      ).rejects.toThrow(
+        'Sector quota exceeded: the document has about 5001 tokens, 5000 of 125000 remain',
+      );
+    });
+  });
+
+  describe('assertVersionCapacity', () => {
+    it('should accept a version that adds no tokens, even in a full sector', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_SOURCES_PER_SECTOR = '10';
+      process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR = '120000';
+
+      // Act & Assert
+      await expect(
+        createService().assertVersionCapacity(SECTOR_ID, -50),
+      ).resolves.toBeUndefined();
+      expect(mockRepository.getFragmentUsageBySector).not.toHaveBeenCalled();
+    });
+
+    it('should not count the source of the version against the quota', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_SOURCES_PER_SECTOR = '10';
+
+      // Act & Assert
+      await expect(
+        createService().assertVersionCapacity(SECTOR_ID, 100),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a version adding more tokens than remain', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR = '125000';
+
+      // Act & Assert
+      await expect(
+        createService().assertVersionCapacity(SECTOR_ID, 5_001),
+      ).rejects.toThrow(
+        'Sector quota exceeded: the new version adds about 5001 tokens, 5000 of 125000 remain',
+      );
+    });
+
+    it('should reject a larger version when the sector has no fragment left', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_FRAGMENTS_PER_SECTOR = '400';
+
+      // Act & Assert
+      await expect(
+        createService().assertVersionCapacity(SECTOR_ID, 1),
+      ).rejects.toThrow('Sector quota exceeded: 400/400 fragments');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { UrlRefreshScheduler } from '../../../../../../src/modules/knowledge/application/services/url-refresh-scheduler.service';
+import { RefreshUrlSourcesUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/refresh-url-sources.use-case';
+
+describe('UrlRefreshScheduler', () => {
+  let scheduler: UrlRefreshScheduler;
+  let mockRefresh: jest.Mocked<RefreshUrlSourcesUseCase>;
+  const originalInterval = process.env.URL_REFRESH_INTERVAL_MINUTES;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRefresh = {
+      execute: jest.fn().mockResolvedValue({
+        checked: 0,
+        changed: 0,
+        unchanged: 0,
+        failed: 0,
+      }),
+    } as unknown as jest.Mocked<RefreshUrlSourcesUseCase>;
+    scheduler = new UrlRefreshScheduler(mockRefresh);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    if (originalInterval === undefined) {
+      delete process.env.URL_REFRESH_INTERVAL_MINUTES;
+    } else {
+      process.env.URL_REFRESH_INTERVAL_MINUTES = originalInterval;
+    }
+  });
+
+  it('should not check due sources unless enabled', () => {
+    // Arrange
+    delete process.env.URL_REFRESH_INTERVAL_MINUTES;
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(24 * 60 * 60_000);
+
+    // Assert
+    expect(mockRefresh.execute).not.toHaveBeenCalled();
+  });
+
+  it('should use URL_REFRESH_INTERVAL_MINUTES', () => {
+    // Arrange
+    process.env.URL_REFRESH_INTERVAL_MINUTES = '5';
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(5 * 60_000);
+
+    // Assert
+    expect(mockRefresh.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule runs when disabled', () => {
+    // Arrange
+    process.env.URL_REFRESH_INTERVAL_MINUTES = '0';
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(60 * 60_000);
+
+    // Assert
+    expect(mockRefresh.execute).not.toHaveBeenCalled();
+  });
+
+  it('should stop running after module destroy', () => {
+    // Arrange
+    process.env.URL_REFRESH_INTERVAL_MINUTES = '15';
+    scheduler.onModuleInit();
+
+    // Act
+    scheduler.onModuleDestroy();
+    jest.advanceTimersByTime(60 * 60_000);
+
+    // Assert
+    expect(mockRefresh.execute).not.toHaveBeenCalled();
+  });
+
+  describe('runOnce', () => {
+    it('should skip a run while the previous one is active', async () => {
+      // Arrange
+      let finish: () => void = () => undefined;
+      mockRefresh.execute.mockReturnValueOnce(
+        new Promise((resolve) => {
+          finish = () =>
+            resolve({ checked: 0, changed: 0, unchanged: 0, failed: 0 });
+        }),
+      );
+
+      // Act
+      const first = scheduler.runOnce();
+      const second = await scheduler.runOnce();
+      finish();
+
+      // Assert
+      expect(second).toBe(false);
+      await expect(first).resolves.toBe(true);
+      expect(mockRefresh.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw when the run fails', async () => {
+      // Arrange
+      mockRefresh.execute.mockRejectedValueOnce(new Error('DB down'));
+
+      // Act & Assert
+      await expect(scheduler.runOnce()).resolves.toBe(true);
+      await expect(scheduler.runOnce()).resolves.toBe(true);
+    });
+  });
+});
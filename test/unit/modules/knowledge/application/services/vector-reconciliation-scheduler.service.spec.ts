@@ -0,0 +1,118 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { VectorReconciliationScheduler } from '../../../../../../src/modules/knowledge/application/services/vector-reconciliation-scheduler.service';
+import { ReconcileVectorStoreUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/reconcile-vector-store.use-case';
+import type { VectorReconciliationReport } from '../../../../../../src/modules/knowledge/application/dtos/reconcile-vector-store.dto';
+
+const EMPTY_REPORT: VectorReconciliationReport = {
+  dryRun: false,
+  startedAt: new Date(),
+  completedAt: new Date(),
+  missingVectorCount: 0,
+  orphanVectorCount: 0,
+  sectors: [],
+};
+
+describe('VectorReconciliationScheduler', () => {
+  let scheduler: VectorReconciliationScheduler;
+  let mockReconcile: jest.Mocked<ReconcileVectorStoreUseCase>;
+  const originalInterval = process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockReconcile = {
+      execute: jest.fn().mockResolvedValue(EMPTY_REPORT),
+    } as unknown as jest.Mocked<ReconcileVectorStoreUseCase>;
+    scheduler = new VectorReconciliationScheduler(mockReconcile);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    if (originalInterval === undefined) {
+      delete process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES;
+    } else {
+      process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES = originalInterval;
+    }
+  });
+
+  it('should not reconcile unless enabled', () => {
+    // Arrange
+    delete process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES;
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(7 * 24 * 60 * 60_000);
+
+    // Assert
+    expect(mockReconcile.execute).not.toHaveBeenCalled();
+  });
+
+  it('should repair the drift every VECTOR_RECONCILIATION_INTERVAL_MINUTES', () => {
+    // Arrange
+    process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES = '30';
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(30 * 60_000);
+
+    // Assert
+    expect(mockReconcile.execute).toHaveBeenCalledTimes(1);
+    expect(mockReconcile.execute).toHaveBeenCalledWith({ dryRun: false });
+  });
+
+  it('should stay disabled for invalid intervals', () => {
+    // Arrange
+    process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES = 'hourly';
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(7 * 24 * 60 * 60_000);
+
+    // Assert
+    expect(mockReconcile.execute).not.toHaveBeenCalled();
+  });
+
+  it('should not schedule runs when disabled', () => {
+    // Arrange
+    process.env.VECTOR_RECONCILIATION_INTERVAL_MINUTES = '0';
+
+    // Act
+    scheduler.onModuleInit();
+    jest.advanceTimersByTime(48 * 60 * 60_000);
+
+    // Assert
+    expect(mockReconcile.execute).not.toHaveBeenCalled();
+  });
+
+  describe('runOnce', () => {
+    it('should skip a run while the previous one is active', async () => {
+      // Arrange
+      let finish: () => void = () => undefined;
+      mockReconcile.execute.mockReturnValueOnce(
+        new Promise((resolve) => {
+          finish = () => resolve(EMPTY_REPORT);
+        }),
+      );
+
+      // Act
+      const first = scheduler.runOnce();
+      const second = await scheduler.runOnce();
+      finish();
+
+      // Assert
+      expect(second).toBe(false);
+      await expect(first).resolves.toBe(true);
+      expect(mockReconcile.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw when the run fails', async () => {
+      // Arrange
+      mockReconcile.execute.mockRejectedValueOnce(new Error('Pinecone down'));
+
+      // Act & Assert
+      await expect(scheduler.runOnce()).resolves.toBe(true);
+    });
+  });
+});
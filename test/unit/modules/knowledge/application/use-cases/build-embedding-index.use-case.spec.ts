@@ -0,0 +1,62 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { BuildEmbeddingIndexUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/build-embedding-index.use-case';
+import { EmbeddingReindexService } from '../../../../../../src/modules/knowledge/application/services/embedding-reindex.service';
+import { IIngestionTaskDispatcher } from '../../../../../../src/modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+
+const INDEX_ID = 'index-2';
+
+describe('BuildEmbeddingIndexUseCase', () => {
+  let useCase: BuildEmbeddingIndexUseCase;
+  let mockDispatcher: jest.Mocked<IIngestionTaskDispatcher>;
+  let mockReindexService: jest.Mocked<EmbeddingReindexService>;
+
+  beforeEach(() => {
+    mockDispatcher = {
+      dispatchReindex: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IIngestionTaskDispatcher>;
+
+    mockReindexService = {
+      runBatch: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<EmbeddingReindexService>;
+
+    useCase = new BuildEmbeddingIndexUseCase(
+      mockDispatcher,
+      mockReindexService,
+    );
+  });
+
+  it('should dispatch the next batch while sources remain', async () => {
+    // Act
+    const hasMore = await useCase.execute(INDEX_ID);
+
+    // Assert
+    expect(hasMore).toBe(true);
+    expect(mockReindexService.runBatch).toHaveBeenCalledWith(INDEX_ID);
+    expect(mockDispatcher.dispatchReindex).toHaveBeenCalledWith({
+      indexId: INDEX_ID,
+    });
+  });
+
+  it('should stop after the last batch', async () => {
+    // Arrange
+    mockReindexService.runBatch.mockResolvedValue(false);
+
+    // Act
+    const hasMore = await useCase.execute(INDEX_ID);
+
+    // Assert
+    expect(hasMore).toBe(false);
+    expect(mockDispatcher.dispatchReindex).not.toHaveBeenCalled();
+  });
+});
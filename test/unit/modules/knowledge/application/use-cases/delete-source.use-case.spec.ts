@@ -1,6 +1,8 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { DeleteSourceUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/delete-source.use-case';
 import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
 import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
 import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
 import { SourceType } from '@shared/types';
 import type {
@@ -12,6 +14,8 @@ describe('DeleteSourceUseCase', () => {
   let useCase: DeleteSourceUseCase;
   let mockRepository: jest.Mocked<IKnowledgeRepository>;
   let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
 
   const mockSourceId = '550e8400-e29b-41d4-a716-446655440000';
   const mockSectorId = '660e8400-e29b-41d4-a716-446655440001';
@@ -41,7 +45,22 @@ describe('DeleteSourceUseCase', () => {
       deleteBySourceId: jest.fn().mockResolvedValue(undefined),
     } as unknown as jest.Mocked<IVectorStore>;
 
-    useCase = new DeleteSourceUseCase(mockRepository, mockVectorStore);
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    mockEmbeddingIndexService = {
+      getVectorNamespaces: jest
+        .fn()
+        .mockImplementation((sectorId: string) => Promise.resolve([sectorId])),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    useCase = new DeleteSourceUseCase(
+      mockRepository,
+      mockVectorStore,
+      mockEmbeddingIndexService,
+      mockEventEmitter,
+    );
   });
 
   afterEach(() => {
@@ -107,6 +126,32 @@ describe('DeleteSourceUseCase', () => {
       expect(mockVectorStore.deleteBySourceId).toHaveBeenCalledTimes(1);
     });
 
+    it('should delete vectors from every namespace of the sector', async () => {
+      const dto: DeleteSourceDto = {
+        sourceId: mockSourceId,
+        sectorId: mockSectorId,
+      };
+      const building = `${mockSectorId}--g3`;
+      const retired = `${mockSectorId}--g2`;
+      mockEmbeddingIndexService.getVectorNamespaces.mockResolvedValue([
+        mockSectorId,
+        building,
+        retired,
+      ]);
+      mockRepository.findSourceById.mockResolvedValue(createMockSource());
+      mockRepository.countFragmentsBySource.mockResolvedValue(3);
+
+      await useCase.execute(dto);
+
+      expect(
+        mockEmbeddingIndexService.getVectorNamespaces,
+      ).toHaveBeenCalledWith(mockSectorId);
+      const namespaces = mockVectorStore.deleteBySourceId.mock.calls.map(
+        ([, namespace]) => namespace,
+      );
+      expect(namespaces).toEqual([mockSectorId, building, retired]);
+    });
+
     it('should delete fragments from PostgreSQL', async () => {
       const dto: DeleteSourceDto = {
         sourceId: mockSourceId,
@@ -139,6 +184,26 @@ describe('DeleteSourceUseCase', () => {
       );
     });
 
+    it('should emit knowledge.source.deleted with the source sector', async () => {
+      const dto: DeleteSourceDto = {
+        sourceId: mockSourceId,
+        sectorId: mockSectorId,
+      };
+
+      mockRepository.findSourceById.mockResolvedValue(createMockSource());
+      mockRepository.countFragmentsBySource.mockResolvedValue(2);
+
+      await useCase.execute(dto);
+
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.source.deleted',
+        expect.objectContaining({
+          sourceId: mockSourceId,
+          sectorId: mockSectorId,
+        }),
+      );
+    });
+
     it('should throw error if source is not found', async () => {
       const nonExistentId = '770e8400-e29b-41d4-a716-446655440099';
       const dto: DeleteSourceDto = {
@@ -155,6 +220,7 @@ describe('DeleteSourceUseCase', () => {
       expect(mockVectorStore.deleteBySourceId).not.toHaveBeenCalled();
       expect(mockRepository.deleteFragmentsBySource).not.toHaveBeenCalled();
       expect(mockRepository.softDeleteSource).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
     });
 
     it('should throw error if source is already deleted', async () => {
@@ -1,24 +1,14 @@
 // Mock pdf-parse before any imports that use it
 jest.mock('pdf-parse', () => jest.fn());
 
-// Mock genkit before any imports
-jest.mock('genkit', () => ({
-  genkit: jest.fn(),
-}));
-
-jest.mock('@genkit-ai/google-genai', () => ({
-  vertexAI: jest.fn(),
-}));
-
 import { IngestDocumentUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/ingest-document.use-case';
 import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
-import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { IIngestionTaskDispatcher } from '../../../../../../src/modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
 import { DocumentParserService } from '../../../../../../src/modules/knowledge/infrastructure/services/document-parser.service';
-import { ChunkingService } from '../../../../../../src/modules/knowledge/infrastructure/services/chunking.service';
-import { EmbeddingService } from '../../../../../../src/modules/knowledge/infrastructure/services/embedding.service';
+import { KnowledgeQuotaService } from '../../../../../../src/modules/knowledge/application/services/knowledge-quota.service';
 import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
-import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
-import { SourceType, SourceStatus } from '@shared/types';
+import { ChunkingStrategy, SourceType, SourceStatus } from '@shared/types';
+import { minHashSignature, sha256Hex } from '@shared/utils';
 import type {
   IngestDocumentDto,
   IngestDocumentResult,
@@ -27,16 +17,18 @@ import type {
 describe('IngestDocumentUseCase', () => {
   let useCase: IngestDocumentUseCase;
   let mockRepository: jest.Mocked<IKnowledgeRepository>;
-  let mockVectorStore: jest.Mocked<IVectorStore>;
   let mockParserService: jest.Mocked<DocumentParserService>;
-  let mockChunkingService: jest.Mocked<ChunkingService>;
-  let mockEmbeddingService: jest.Mocked<EmbeddingService>;
+  let mockTaskDispatcher: jest.Mocked<IIngestionTaskDispatcher>;
+  let mockQuotaService: jest.Mocked<KnowledgeQuotaService>;
 
   beforeEach(() => {
-    // Mock Repository (no longer includes vectorSearch)
     mockRepository = {
       saveSource: jest.fn(),
       findSourceById: jest.fn(),
+      findSourcesByIds: jest.fn().mockResolvedValue([]),
+      findSourceByContentHash: jest.fn().mockResolvedValue(null),
+      findSourceSignatures: jest.fn().mockResolvedValue([]),
+      savePendingOcrFile: jest.fn().mockResolvedValue(undefined),
       findSourcesBySector: jest.fn(),
       findSourcesByStatus: jest.fn(),
       softDeleteSource: jest.fn(),
@@ -50,43 +42,25 @@ describe('IngestDocumentUseCase', () => {
       transaction: jest.fn(),
     } as unknown as jest.Mocked<IKnowledgeRepository>;
 
-    // Mock Vector Store
-    mockVectorStore = {
-      upsertVectors: jest.fn().mockResolvedValue(undefined),
-      vectorSearch: jest.fn(),
-      deleteBySourceId: jest.fn(),
-    } as unknown as jest.Mocked<IVectorStore>;
-
-    // Mock Parser Service
     mockParserService = {
       parse: jest.fn(),
-      isPdf: jest.fn(),
-      estimateContentSize: jest.fn(),
+      toEmbeddingText: jest.fn(),
     } as unknown as jest.Mocked<DocumentParserService>;
 
-    // Mock Chunking Service
-    mockChunkingService = {
-      chunk: jest.fn(),
-      getConfig: jest.fn(),
-      estimateTokenCount: jest.fn(),
-    } as unknown as jest.Mocked<ChunkingService>;
-
-    // Mock Embedding Service
-    mockEmbeddingService = {
-      generateEmbedding: jest.fn(),
-      generateDocumentEmbedding: jest.fn(),
-      generateQueryEmbedding: jest.fn(),
-      generateDocumentEmbeddings: jest.fn(),
-      getConfig: jest.fn(),
-      getEmbeddingDimension: jest.fn(),
-    } as unknown as jest.Mocked<EmbeddingService>;
+    mockTaskDispatcher = {
+      dispatchIngestion: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockQuotaService = {
+      assertFileSize: jest.fn(),
+      assertCapacity: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<KnowledgeQuotaService>;
 
     useCase = new IngestDocumentUseCase(
       mockRepository,
-      mockVectorStore,
       mockParserService,
-      mockChunkingService,
-      mockEmbeddingService,
+      mockTaskDispatcher,
+      mockQuotaService,
     );
   });
 
@@ -99,716 +73,462 @@ describe('IngestDocumentUseCase', () => {
     return Buffer.from(`%PDF-1.4\n${content}`);
   };
 
-  // Helper to create a saved fragment with ID
-  const createSavedFragment = (
-    id: string,
-    sourceId: string,
-    content: string,
-    position: number,
-    tokenCount: number,
-  ): Fragment => {
-    const fragment = new Fragment({
-      sourceId,
+  const createDto = (
+    overrides: Partial<IngestDocumentDto> = {},
+  ): IngestDocumentDto => ({
+    title: 'Test Document',
+    sectorId: '550e8400-e29b-41d4-a716-446655440000',
+    sourceType: SourceType.PDF,
+    buffer: createMockPdfBuffer('Test content for PDF document'),
+    ...overrides,
+  });
+
+  const mockParsed = (content = 'Test content for PDF document'): void => {
+    mockParserService.parse.mockResolvedValue({
       content,
-      position,
-      tokenCount,
+      contentForEmbedding: content,
+      metadata: {
+        sourceType: SourceType.PDF,
+        parsedAt: new Date().toISOString(),
+        originalSize: 100,
+        pages: 1,
+      },
     });
-    Reflect.set(fragment, 'id', id);
-    return fragment;
   };
 
-  describe('Successful Document Ingestion', () => {
-    it('should ingest a PDF document successfully', async () => {
-      // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('Test content for PDF document'),
-        metadata: { author: 'Test Author' },
-      };
-
-      const parsedContent = 'Test content for PDF document';
-      const parsedContentForEmbedding = 'Test content for PDF document';
-      const mockChunks = [
-        {
-          content: 'Test content for PDF document',
-          position: 0,
-          tokens: 5,
-          startIndex: 0,
-          endIndex: 28,
-        },
-      ];
-      const mockEmbedding = Array(3072).fill(0.1);
-
-      // Mock service responses — ParsedDocument now returns both content and contentForEmbedding
-      mockParserService.parse.mockResolvedValue({
-        content: parsedContent,
-        contentForEmbedding: parsedContentForEmbedding,
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-          pages: 1,
-        },
-      });
-
-      mockChunkingService.chunk.mockReturnValue(mockChunks);
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        mockEmbedding,
-      ]);
-
-      // Mock repository to simulate successful saves
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-123');
-          return source;
-        },
-      );
+  const mockSaveWithId = (id = 'source-123'): void => {
+    mockRepository.saveSource.mockImplementation(
+      async (source: KnowledgeSource) => {
+        Reflect.set(source, 'id', id);
+        return source;
+      },
+    );
+  };
 
-      // Return fragments with IDs (needed for vector upsert)
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment(
-          'fragment-001',
-          'source-123',
-          mockChunks[0].content,
-          0,
-          5,
-        ),
-      ]);
+  describe('Accepting a document', () => {
+    it('should persist the source as PENDING and return it', async () => {
+      // Arrange
+      const dto = createDto({ metadata: { author: 'Test Author' } });
+      mockParsed();
+      mockSaveWithId();
 
       // Act
       const result: IngestDocumentResult = await useCase.execute(dto);
 
       // Assert
-      expect(result.sourceId).toBe('source-123');
-      expect(result.title).toBe('Test Document');
-      expect(result.fragmentCount).toBe(1);
-      expect(result.status).toBe('COMPLETED');
-      expect(result.errorMessage).toBeUndefined();
-
-      // Verify service calls
+      expect(result).toEqual({
+        sourceId: 'source-123',
+        title: 'Test Document',
+        contentSize: Buffer.byteLength('Test content for PDF document'),
+        status: SourceStatus.PENDING,
+      });
       expect(mockParserService.parse).toHaveBeenCalledWith(
         dto.buffer,
         dto.sourceType,
+        { pageUrl: undefined, deferOcr: true },
       );
-      // The use case passes contentForEmbedding (normalized) to the chunker
-      expect(mockChunkingService.chunk).toHaveBeenCalledWith(parsedContentForEmbedding);
-      expect(
-        mockEmbeddingService.generateDocumentEmbeddings,
-      ).toHaveBeenCalled();
-      expect(mockRepository.saveSource).toHaveBeenCalled();
-      expect(mockRepository.saveFragments).toHaveBeenCalled();
-
-      // Verify vector store was called with correct data
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          expect.objectContaining({
-            id: 'fragment-001',
-            embedding: mockEmbedding,
-            metadata: expect.objectContaining({
-              sourceId: 'source-123',
-              sectorId: dto.sectorId,
-              content: mockChunks[0].content,
-              position: 0,
-            }),
-          }),
-        ]),
+
+      const saved = mockRepository.saveSource.mock.calls[0][0];
+      expect(saved.status).toBe(SourceStatus.PENDING);
+      expect(saved.content).toBe('Test content for PDF document');
+      expect(saved.metadata).toEqual(
+        expect.objectContaining({ author: 'Test Author', pages: 1 }),
       );
     });
 
-    it('should ingest a Markdown document successfully', async () => {
+    it('should dispatch the background ingestion job after saving', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Markdown Guide',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.MARKDOWN,
-        buffer: Buffer.from('# Test\n\nThis is **markdown** content.'),
-      };
+      mockParsed();
+      mockSaveWithId('source-456');
 
-      const parsedContent = 'Test This is markdown content.';
-      const mockChunks = [
-        {
-          content: parsedContent,
-          position: 0,
-          tokens: 6,
-          startIndex: 0,
-          endIndex: parsedContent.length,
-        },
-      ];
-      const mockEmbedding = Array(3072).fill(0.2);
+      // Act
+      await useCase.execute(createDto());
 
-      mockParserService.parse.mockResolvedValue({
-        content: parsedContent,
-        metadata: {
-          sourceType: SourceType.MARKDOWN,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
+      // Assert
+      expect(mockTaskDispatcher.dispatchIngestion).toHaveBeenCalledWith({
+        sourceId: 'source-456',
       });
+      const saveOrder = mockRepository.saveSource.mock.invocationCallOrder[0];
+      const dispatchOrder =
+        mockTaskDispatcher.dispatchIngestion.mock.invocationCallOrder[0];
+      expect(saveOrder).toBeLessThan(dispatchOrder);
+    });
 
-      mockChunkingService.chunk.mockReturnValue(mockChunks);
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        mockEmbedding,
-      ]);
-
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-456');
-          return source;
-        },
-      );
-
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment(
-          'fragment-010',
-          'source-456',
-          mockChunks[0].content,
-          0,
-          6,
-        ),
-      ]);
+    it('should not chunk, embed or store fragments in the request', async () => {
+      // Arrange
+      mockParsed();
+      mockSaveWithId();
 
       // Act
-      const result = await useCase.execute(dto);
+      await useCase.execute(createDto());
 
       // Assert
-      expect(result.sourceId).toBe('source-456');
-      expect(result.status).toBe('COMPLETED');
-      expect(mockParserService.parse).toHaveBeenCalledWith(
-        dto.buffer,
-        SourceType.MARKDOWN,
-      );
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledTimes(1);
+      expect(mockRepository.saveFragments).not.toHaveBeenCalled();
+      expect(mockRepository.saveSource).toHaveBeenCalledTimes(1);
     });
 
-    it('should handle documents with multiple fragments', async () => {
+    it('should store the requested chunking strategy on the source', async () => {
       // Arrange
-      const longContent = 'A'.repeat(5000); // Long content to trigger multiple chunks
-      const dto: IngestDocumentDto = {
-        title: 'Long Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer(longContent),
-      };
-
-      const mockChunks = [
-        {
-          content: 'A'.repeat(1000),
-          position: 0,
-          tokens: 250,
-          startIndex: 0,
-          endIndex: 1000,
-        },
-        {
-          content: 'A'.repeat(1000),
-          position: 1,
-          tokens: 250,
-          startIndex: 1000,
-          endIndex: 2000,
-        },
-        {
-          content: 'A'.repeat(1000),
-          position: 2,
-          tokens: 250,
-          startIndex: 2000,
-          endIndex: 3000,
-        },
-      ];
-
-      const mockEmbeddings = [
-        Array(3072).fill(0.1),
-        Array(3072).fill(0.2),
-        Array(3072).fill(0.3),
-      ];
-
-      mockParserService.parse.mockResolvedValue({
-        content: longContent,
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
-      });
-
-      mockChunkingService.chunk.mockReturnValue(mockChunks);
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue(
-        mockEmbeddings,
-      );
-
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-789');
-          return source;
-        },
-      );
-
-      const mockSavedFragments = mockChunks.map((chunk, index) =>
-        createSavedFragment(
-          `fragment-${index}`,
-          'source-789',
-          chunk.content,
-          index,
-          chunk.tokens,
-        ),
-      );
-
-      mockRepository.saveFragments.mockResolvedValue(mockSavedFragments);
+      mockParsed();
+      mockSaveWithId();
 
       // Act
-      const result = await useCase.execute(dto);
-
-      // Assert
-      expect(result.fragmentCount).toBe(3);
-      expect(result.status).toBe('COMPLETED');
-      expect(
-        mockEmbeddingService.generateDocumentEmbeddings,
-      ).toHaveBeenCalledWith(mockChunks.map((c) => c.content));
-      expect(mockRepository.saveFragments).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          expect.objectContaining({ position: 0 }),
-          expect.objectContaining({ position: 1 }),
-          expect.objectContaining({ position: 2 }),
-        ]),
+      await useCase.execute(
+        createDto({ chunkingStrategy: ChunkingStrategy.STRUCTURED }),
       );
 
-      // Verify 3 vectors were upserted
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          expect.objectContaining({ id: 'fragment-0' }),
-          expect.objectContaining({ id: 'fragment-1' }),
-          expect.objectContaining({ id: 'fragment-2' }),
-        ]),
-      );
+      // Assert
+      const saved = mockRepository.saveSource.mock.calls[0][0];
+      expect(saved.chunkingStrategy).toBe(ChunkingStrategy.STRUCTURED);
     });
   });
 
-  describe('Input Validation', () => {
-    it('should throw error for empty title', async () => {
+  describe('Change tracking', () => {
+    it('should store the SHA-256 of the parsed content', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: '',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
+      mockParsed('Hashed content');
+      mockSaveWithId();
 
-      // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'Title is required',
-      );
+      // Act
+      await useCase.execute(createDto());
+
+      // Assert
+      const saved = mockRepository.saveSource.mock.calls[0][0];
+      expect(saved.contentHash).toBe(sha256Hex('Hashed content'));
+      expect(saved.nextRefreshAt).toBeUndefined();
     });
 
-    it('should throw error for empty sectorId', async () => {
+    it('should schedule re-crawls for URL sources with a refresh interval', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test',
-        sectorId: '',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
+      mockParsed('# Page');
+      mockSaveWithId();
 
-      // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'SectorId is required',
+      // Act
+      await useCase.execute(
+        createDto({ sourceType: SourceType.URL, refreshIntervalMinutes: 60 }),
       );
-    });
 
-    it('should throw error for empty buffer', async () => {
-      // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: Buffer.from(''),
-      };
+      // Assert
+      const saved = mockRepository.saveSource.mock.calls[0][0];
+      expect(saved.refreshIntervalMinutes).toBe(60);
+      expect(saved.nextRefreshAt).toBeInstanceOf(Date);
+    });
 
+    it('should reject a refresh interval for non-URL sources', async () => {
       // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'Buffer cannot be empty',
-      );
+      await expect(
+        useCase.execute(createDto({ refreshIntervalMinutes: 60 })),
+      ).rejects.toThrow('Only URL sources can be refreshed');
+      expect(mockParserService.parse).not.toHaveBeenCalled();
     });
   });
 
-  describe('Error Handling', () => {
-    it('should handle parsing errors', async () => {
-      // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
+  describe('Duplicate detection', () => {
+    const HANDBOOK = Array.from(
+      { length: 100 },
+      (_, i) => `Rule ${i}: employees must follow procedure number ${i}.`,
+    ).join('\n');
 
-      mockParserService.parse.mockRejectedValue(
-        new Error('Failed to parse PDF'),
-      );
-
-      // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow('Failed to parse PDF');
-    });
-
-    it('should handle embedding generation errors', async () => {
-      // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
+    const existingSource = (content: string, id: string): KnowledgeSource => {
+      const source = new KnowledgeSource({
+        title: 'Handbook 2023',
         sectorId: '550e8400-e29b-41d4-a716-446655440000',
         sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
-
-      mockParserService.parse.mockResolvedValue({
-        content: 'Test content',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
+        content,
       });
+      Reflect.set(source, 'id', id);
+      return source;
+    };
 
-      mockChunkingService.chunk.mockReturnValue([
-        {
-          content: 'Test content',
-          position: 0,
-          tokens: 2,
-          startIndex: 0,
-          endIndex: 12,
-        },
-      ]);
+    it('should store the MinHash signature of the parsed content', async () => {
+      // Arrange
+      mockParsed(HANDBOOK);
+      mockSaveWithId();
 
-      mockEmbeddingService.generateDocumentEmbeddings.mockRejectedValue(
-        new Error('API rate limit exceeded'),
-      );
+      // Act
+      await useCase.execute(createDto());
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-error');
-          return source;
-        },
+      // Assert
+      const saved = mockRepository.saveSource.mock.calls[0][0];
+      expect(saved.contentSignature).toEqual(minHashSignature(HANDBOOK));
+    });
+
+    it('should reject content the sector already has', async () => {
+      // Arrange
+      mockParsed(HANDBOOK);
+      mockRepository.findSourceByContentHash.mockResolvedValue(
+        existingSource(HANDBOOK, 'existing-1'),
       );
 
       // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'API rate limit exceeded',
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'Duplicate of knowledge source existing-1 ("Handbook 2023")',
       );
-
-      // Verify source was saved initially with PROCESSING, then marked FAILED on error
-      const firstSave = (mockRepository.saveSource as jest.Mock).mock
-        .calls[0][0] as KnowledgeSource;
-      // After error, the source should be marked as FAILED
-      expect(firstSave.status).toBe(SourceStatus.FAILED);
+      expect(mockRepository.findSourceByContentHash).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        sha256Hex(HANDBOOK),
+      );
+      expect(mockRepository.saveSource).not.toHaveBeenCalled();
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
     });
 
-    it('should handle vector store upsert errors', async () => {
+    it('should accept near duplicates with a warning and a diff summary', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
-
-      mockParserService.parse.mockResolvedValue({
-        content: 'Test content here',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
+      const previous = HANDBOOK.replace(
+        'Rule 5: employees must follow procedure number 5.',
+        'Rule 5: contractors read the guide.',
+      );
+      mockParsed(HANDBOOK);
+      mockSaveWithId();
+      mockRepository.findSourceSignatures.mockResolvedValue([
+        {
+          sourceId: 'existing-1',
+          title: 'Handbook 2023',
+          signature: minHashSignature(previous),
         },
-      });
-
-      mockChunkingService.chunk.mockReturnValue([
         {
-          content: 'Test content here',
-          position: 0,
-          tokens: 3,
-          startIndex: 0,
-          endIndex: 17,
+          sourceId: 'other',
+          title: 'Invoices',
+          signature: minHashSignature('Invoice 1 totals 30 euros'),
         },
       ]);
-
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        Array(3072).fill(0.1),
+      mockRepository.findSourcesByIds.mockResolvedValue([
+        existingSource(previous, 'existing-1'),
       ]);
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-vec-error');
-          return source;
-        },
-      );
+      // Act
+      const result = await useCase.execute(createDto());
 
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment(
-          'fragment-err',
-          'source-vec-error',
-          'Test content here',
-          0,
-          3,
-        ),
+      // Assert
+      expect(result.sourceId).toBe('source-123');
+      expect(mockRepository.findSourcesByIds).toHaveBeenCalledWith([
+        'existing-1',
       ]);
-
-      mockVectorStore.upsertVectors.mockRejectedValue(
-        new Error('Pinecone connection failed'),
-      );
-
-      // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'Pinecone connection failed',
+      expect(result.nearDuplicates).toEqual([
+        {
+          sourceId: 'existing-1',
+          title: 'Handbook 2023',
+          similarity: expect.any(Number) as number,
+          diff: { addedLines: 1, removedLines: 1, unchangedLines: 99 },
+        },
+      ]);
+      expect(result.nearDuplicates![0].similarity).toBeGreaterThanOrEqual(0.8);
+      expect(result.warning).toMatch(
+        /^Similar to 1 existing source\(s\) in this sector: "Handbook 2023" \(\d+%\)$/,
       );
     });
 
-    it('should handle repository errors', async () => {
+    it('should not flag sources below the similarity threshold', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
-
-      mockParserService.parse.mockResolvedValue({
-        content: 'Test content',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
+      mockParsed(HANDBOOK);
+      mockSaveWithId();
+      mockRepository.findSourceSignatures.mockResolvedValue([
+        {
+          sourceId: 'other',
+          title: 'Invoices',
+          signature: minHashSignature('Invoice 1 totals 30 euros'),
         },
-      });
+      ]);
 
-      mockRepository.saveSource.mockRejectedValue(
-        new Error('Database connection failed'),
-      );
+      // Act
+      const result = await useCase.execute(createDto());
 
-      // Act & Assert
-      await expect(useCase.execute(dto)).rejects.toThrow(
-        'Database connection failed',
-      );
+      // Assert
+      expect(result.warning).toBeUndefined();
+      expect(result.nearDuplicates).toBeUndefined();
+      expect(mockRepository.findSourcesByIds).not.toHaveBeenCalled();
     });
   });
 
-  describe('Status Management', () => {
-    it('should set source status to PROCESSING initially', async () => {
-      // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
-
+  describe('Scanned pages', () => {
+    const mockScannedPdf = (content: string): void => {
       mockParserService.parse.mockResolvedValue({
-        content: 'Test content',
+        content,
+        contentForEmbedding: content,
         metadata: {
           sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
+          parsedAt: new Date().toISOString(),
+          originalSize: 100,
+          pages: 2,
+          scannedPages: [2],
         },
       });
+    };
 
-      mockChunkingService.chunk.mockReturnValue([
-        {
-          content: 'Test content',
-          position: 0,
-          tokens: 2,
-          startIndex: 0,
-          endIndex: 12,
-        },
-      ]);
-
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        Array(3072).fill(0.1),
-      ]);
+    it('should keep the file for the ingestion job to run OCR', async () => {
+      // Arrange
+      const dto = createDto();
+      mockScannedPdf('Manual de bienvenida');
+      mockSaveWithId();
 
-      // Capture the status at the time of each save
-      const capturedStatuses: string[] = [];
+      // Act
+      const result = await useCase.execute(dto);
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          // Capture status before any mutations
-          capturedStatuses.push(source.status);
-          Reflect.set(source, 'id', 'source-123');
-          return source;
-        },
+      // Assert
+      expect(result.scannedPages).toEqual([2]);
+      expect(result.warning).toBe(
+        'Scanned page(s) 2 will be recognized with OCR during ingestion; duplicate detection was skipped',
+      );
+      expect(mockRepository.savePendingOcrFile).toHaveBeenCalledWith(
+        'source-123',
+        dto.buffer,
       );
+      expect(
+        mockRepository.savePendingOcrFile.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockTaskDispatcher.dispatchIngestion.mock.invocationCallOrder[0],
+      );
+    });
 
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment('frag-001', 'source-123', 'Test content', 0, 2),
-      ]);
+    it('should accept a fully scanned PDF without checking duplicates', async () => {
+      // Arrange
+      mockScannedPdf('');
+      mockSaveWithId();
 
       // Act
-      await useCase.execute(dto);
+      const result = await useCase.execute(createDto());
 
       // Assert
-      expect(capturedStatuses[0]).toBe(SourceStatus.PROCESSING);
+      expect(result.status).toBe(SourceStatus.PENDING);
+      expect(mockRepository.findSourceByContentHash).not.toHaveBeenCalled();
+      expect(mockRepository.findSourceSignatures).not.toHaveBeenCalled();
+      const savedSource = mockRepository.saveSource.mock.calls[0][0];
+      expect(savedSource.content).toBe('');
+      expect(savedSource.contentHash).toBeUndefined();
     });
 
-    it('should update source status to COMPLETED after successful ingestion', async () => {
+    it('should not keep the file of a PDF without scanned pages', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Test Document',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
+      mockParsed();
+      mockSaveWithId();
 
-      mockParserService.parse.mockResolvedValue({
-        content: 'Test content',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
-      });
-
-      mockChunkingService.chunk.mockReturnValue([
-        {
-          content: 'Test content',
-          position: 0,
-          tokens: 2,
-          startIndex: 0,
-          endIndex: 12,
-        },
-      ]);
-
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        Array(3072).fill(0.1),
-      ]);
+      // Act
+      await useCase.execute(createDto());
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-123');
-          return source;
-        },
-      );
+      // Assert
+      expect(mockRepository.savePendingOcrFile).not.toHaveBeenCalled();
+    });
+  });
 
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment('frag-001', 'source-123', 'Test content', 0, 2),
-      ]);
+  describe('Quotas', () => {
+    it('should check the sector quota with the estimated tokens of the content', async () => {
+      // Arrange
+      const dto = createDto();
+      mockParsed('x'.repeat(401));
+      mockSaveWithId();
 
       // Act
       await useCase.execute(dto);
 
-      // Assert - Should be called twice: initial save and status update
-      expect(mockRepository.saveSource).toHaveBeenCalledTimes(2);
-      const finalSource = (mockRepository.saveSource as jest.Mock).mock
-        .calls[1][0] as KnowledgeSource;
-      expect(finalSource.status).toBe(SourceStatus.COMPLETED);
+      // Assert
+      expect(mockQuotaService.assertFileSize).toHaveBeenCalledWith(
+        SourceType.PDF,
+        dto.buffer.length,
+      );
+      expect(mockQuotaService.assertCapacity).toHaveBeenCalledWith(
+        dto.sectorId,
+        101,
+      );
     });
-  });
 
-  describe('Vector Store Integration', () => {
-    it('should upsert vectors to store after saving fragments', async () => {
+    it('should reject a file over the size limit before parsing it', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Vector Test',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('Vector content for testing'),
-      };
-
-      const mockChunks = [
-        {
-          content: 'Vector content for testing',
-          position: 0,
-          tokens: 5,
-          startIndex: 0,
-          endIndex: 26,
-        },
-      ];
-      const mockEmbedding = Array(3072).fill(0.5);
-
-      mockParserService.parse.mockResolvedValue({
-        content: 'Vector content for testing',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
+      mockQuotaService.assertFileSize.mockImplementation(() => {
+        throw new Error('File too large for PDF sources. Maximum size is 5MB');
       });
 
-      mockChunkingService.chunk.mockReturnValue(mockChunks);
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([
-        mockEmbedding,
-      ]);
+      // Act & Assert
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'File too large for PDF sources',
+      );
+      expect(mockParserService.parse).not.toHaveBeenCalled();
+    });
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-vec');
-          return source;
-        },
+    it('should not persist a document the sector has no room for', async () => {
+      // Arrange
+      mockParsed();
+      mockQuotaService.assertCapacity.mockRejectedValue(
+        new Error('Sector quota exceeded: 500/500 sources'),
       );
 
-      mockRepository.saveFragments.mockResolvedValue([
-        createSavedFragment(
-          'frag-vec-001',
-          'source-vec',
-          'Vector content for testing',
-          0,
-          5,
-        ),
-      ]);
+      // Act & Assert
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'Sector quota exceeded',
+      );
+      expect(mockRepository.saveSource).not.toHaveBeenCalled();
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
+    });
+  });
 
-      // Act
-      await useCase.execute(dto);
+  describe('Input Validation', () => {
+    it('should throw error for empty title', async () => {
+      // Act & Assert
+      await expect(useCase.execute(createDto({ title: '' }))).rejects.toThrow(
+        'Title is required',
+      );
+    });
 
-      // Assert - verify vector upsert was called after fragments saved
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledTimes(1);
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith([
-        {
-          id: 'frag-vec-001',
-          embedding: mockEmbedding,
-          metadata: {
-            sourceId: 'source-vec',
-            sectorId: dto.sectorId,
-            content: 'Vector content for testing',
-            position: 0,
-            tokenCount: 5,
-          },
-        },
-      ]);
+    it('should throw error for empty sectorId', async () => {
+      // Act & Assert
+      await expect(
+        useCase.execute(createDto({ sectorId: '' })),
+      ).rejects.toThrow('SectorId is required');
+    });
 
-      // Assert - fragments were saved to relational DB first, then vectors upserted
-      const saveFragmentsOrder = (mockRepository.saveFragments as jest.Mock).mock.invocationCallOrder[0];
-      const upsertVectorsOrder = (mockVectorStore.upsertVectors as jest.Mock).mock.invocationCallOrder[0];
-      expect(saveFragmentsOrder).toBeLessThan(upsertVectorsOrder);
+    it('should throw error for empty buffer', async () => {
+      // Act & Assert
+      await expect(
+        useCase.execute(createDto({ buffer: Buffer.from('') })),
+      ).rejects.toThrow('Buffer cannot be empty');
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
     });
+  });
 
-    it('should call vector store with empty array when no fragments were created', async () => {
+  describe('Error Handling', () => {
+    it('should handle parsing errors without persisting the source', async () => {
       // Arrange
-      const dto: IngestDocumentDto = {
-        title: 'Empty Chunks Test',
-        sectorId: '550e8400-e29b-41d4-a716-446655440000',
-        sourceType: SourceType.PDF,
-        buffer: createMockPdfBuffer('content'),
-      };
-
-      mockParserService.parse.mockResolvedValue({
-        content: 'Parsed content',
-        metadata: {
-          sourceType: SourceType.PDF,
-          parsedAt: new Date(),
-          originalSize: dto.buffer.length,
-        },
-      });
+      mockParserService.parse.mockRejectedValue(
+        new Error('Failed to parse PDF'),
+      );
 
-      mockChunkingService.chunk.mockReturnValue([]);
-      mockEmbeddingService.generateDocumentEmbeddings.mockResolvedValue([]);
+      // Act & Assert
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'Failed to parse PDF',
+      );
+      expect(mockRepository.saveSource).not.toHaveBeenCalled();
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
+    });
 
-      mockRepository.saveSource.mockImplementation(
-        async (source: KnowledgeSource) => {
-          Reflect.set(source, 'id', 'source-empty');
-          return source;
-        },
+    it('should handle repository errors', async () => {
+      // Arrange
+      mockParsed();
+      mockRepository.saveSource.mockRejectedValue(
+        new Error('Database connection failed'),
       );
 
-      mockRepository.saveFragments.mockResolvedValue([]);
+      // Act & Assert
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'Database connection failed',
+      );
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
+    });
 
-      // Act
-      await useCase.execute(dto);
+    it('should mark the source as FAILED when dispatching fails', async () => {
+      // Arrange
+      mockParsed();
+      mockSaveWithId();
+      mockTaskDispatcher.dispatchIngestion.mockRejectedValue(
+        new Error('Failed to dispatch ingestion task: queue not found'),
+      );
 
-      // Assert - vector store called with empty array (or skipped)
-      expect(mockVectorStore.upsertVectors).toHaveBeenCalledWith([]);
+      // Act & Assert
+      await expect(useCase.execute(createDto())).rejects.toThrow(
+        'queue not found',
+      );
+      expect(mockRepository.saveSource).toHaveBeenCalledTimes(2);
+      const failed = mockRepository.saveSource.mock.calls[1][0];
+      expect(failed.status).toBe(SourceStatus.FAILED);
+      expect(failed.errorMessage).toContain('queue not found');
     });
   });
 });
@@ -0,0 +1,391 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { IngestSourceVersionUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/ingest-source-version.use-case';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IIngestionTaskDispatcher } from '../../../../../../src/modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+import { DocumentParserService } from '../../../../../../src/modules/knowledge/infrastructure/services/document-parser.service';
+import { KnowledgeQuotaService } from '../../../../../../src/modules/knowledge/application/services/knowledge-quota.service';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { SourceType, SourceStatus } from '@shared/types';
+import { sha256Hex } from '@shared/utils';
+
+const SOURCE_ID = 'source-123';
+const OLD_CONTENT = 'Vacation policy: 20 days per year.';
+const NEW_CONTENT = 'Vacation policy: 25 days per year.';
+
+describe('IngestSourceVersionUseCase', () => {
+  let useCase: IngestSourceVersionUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockParserService: jest.Mocked<DocumentParserService>;
+  let mockTaskDispatcher: jest.Mocked<IIngestionTaskDispatcher>;
+  let source: KnowledgeSource;
+
+  const createUseCase = (): IngestSourceVersionUseCase =>
+    new IngestSourceVersionUseCase(
+      mockRepository,
+      mockParserService,
+      mockTaskDispatcher,
+      new KnowledgeQuotaService(mockRepository),
+    );
+
+  const createCompletedSource = (
+    sourceType: SourceType = SourceType.PDF,
+  ): KnowledgeSource => {
+    const created = new KnowledgeSource({
+      title: 'Vacation Policy',
+      sectorId: '550e8400-e29b-41d4-a716-446655440000',
+      sourceType,
+      content: OLD_CONTENT,
+      contentHash: sha256Hex(OLD_CONTENT),
+    });
+    created.id = SOURCE_ID;
+    created.markAsProcessing();
+    created.markAsCompleted();
+    return created;
+  };
+
+  const mockParsed = (content: string): void => {
+    mockParserService.parse.mockResolvedValue({
+      content,
+      contentForEmbedding: content,
+      metadata: {
+        sourceType: SourceType.PDF,
+        parsedAt: new Date().toISOString(),
+        originalSize: 100,
+        pages: 1,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    source = createCompletedSource();
+
+    mockRepository = {
+      findSourceById: jest.fn().mockResolvedValue(source),
+      saveSource: jest
+        .fn()
+        .mockImplementation((s: KnowledgeSource) => Promise.resolve(s)),
+      saveRevision: jest
+        .fn()
+        .mockImplementation((revision: KnowledgeSourceRevision) =>
+          Promise.resolve(revision),
+        ),
+      savePendingOcrFile: jest.fn().mockResolvedValue(undefined),
+      clearPendingOcrFile: jest.fn().mockResolvedValue(undefined),
+      countSourcesBySector: jest.fn().mockResolvedValue(1),
+      getFragmentUsageBySector: jest
+        .fn()
+        .mockResolvedValue({ fragments: 1, tokens: 9 }),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockParserService = {
+      parse: jest.fn(),
+    } as unknown as jest.Mocked<DocumentParserService>;
+
+    mockTaskDispatcher = {
+      dispatchIngestion: jest.fn().mockResolvedValue(undefined),
+    };
+
+    useCase = createUseCase();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Accepting a new version', () => {
+    it('should replace the content and dispatch its ingestion', async () => {
+      // Arrange
+      const buffer = Buffer.from('%PDF-1.4\nnew');
+      mockParsed(NEW_CONTENT);
+
+      // Act
+      const result = await useCase.execute({ sourceId: SOURCE_ID, buffer });
+
+      // Assert
+      expect(result).toEqual({
+        sourceId: SOURCE_ID,
+        title: 'Vacation Policy',
+        version: 2,
+        contentSize: Buffer.byteLength(NEW_CONTENT),
+        status: SourceStatus.PENDING,
+      });
+      expect(mockParserService.parse).toHaveBeenCalledWith(
+        buffer,
+        SourceType.PDF,
+        { deferOcr: true },
+      );
+      expect(source.content).toBe(NEW_CONTENT);
+      expect(source.contentHash).toBe(sha256Hex(NEW_CONTENT));
+      expect(source.isPending()).toBe(true);
+      expect(source.indexedVersion).toBe(1);
+      expect(mockRepository.saveSource).toHaveBeenCalledWith(source);
+      expect(mockTaskDispatcher.dispatchIngestion).toHaveBeenCalledWith({
+        sourceId: SOURCE_ID,
+      });
+    });
+
+    it('should keep the current content as a revision', async () => {
+      // Arrange
+      mockParsed(NEW_CONTENT);
+
+      // Act
+      await useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') });
+
+      // Assert
+      const revision = mockRepository.saveRevision.mock.calls[0][0];
+      expect(revision.sourceId).toBe(SOURCE_ID);
+      expect(revision.version).toBe(1);
+      expect(revision.content).toBe(OLD_CONTENT);
+      expect(revision.contentHash).toBe(sha256Hex(OLD_CONTENT));
+      const revisionOrder =
+        mockRepository.saveRevision.mock.invocationCallOrder[0];
+      const saveOrder = mockRepository.saveSource.mock.invocationCallOrder[0];
+      expect(revisionOrder).toBeLessThan(saveOrder);
+    });
+
+    it('should merge the given metadata into the source metadata', async () => {
+      // Arrange
+      mockParsed(NEW_CONTENT);
+
+      // Act
+      await useCase.execute({
+        sourceId: SOURCE_ID,
+        buffer: Buffer.from('x'),
+        metadata: { author: 'HR' },
+      });
+
+      // Assert
+      expect(source.metadata).toEqual(
+        expect.objectContaining({ author: 'HR', pages: 1 }),
+      );
+    });
+
+    it('should mark the version as FAILED when dispatching fails', async () => {
+      // Arrange
+      mockParsed(NEW_CONTENT);
+      mockTaskDispatcher.dispatchIngestion.mockRejectedValue(
+        new Error('Queue unavailable'),
+      );
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') }),
+      ).rejects.toThrow('Queue unavailable');
+      expect(source.status).toBe(SourceStatus.FAILED);
+      expect(source.indexedVersion).toBe(1);
+    });
+  });
+
+  describe('Scanned pages', () => {
+    const mockScanned = (content: string, scannedPages: number[]): void => {
+      mockParserService.parse.mockResolvedValue({
+        content,
+        contentForEmbedding: content,
+        metadata: {
+          sourceType: SourceType.PDF,
+          parsedAt: new Date().toISOString(),
+          originalSize: 100,
+          pages: 2,
+          scannedPages,
+        },
+      });
+    };
+
+    it('should keep the PDF for OCR during ingestion instead of running it', async () => {
+      // Arrange
+      const buffer = Buffer.from('%PDF-1.4\nscanned');
+      mockScanned('', [1, 2]);
+
+      // Act
+      const result = await useCase.execute({ sourceId: SOURCE_ID, buffer });
+
+      // Assert
+      expect(mockParserService.parse).toHaveBeenCalledWith(
+        buffer,
+        SourceType.PDF,
+        { deferOcr: true },
+      );
+      expect(result.scannedPages).toEqual([1, 2]);
+      expect(result.version).toBe(2);
+      expect(source.content).toBe('');
+      expect(mockRepository.savePendingOcrFile).toHaveBeenCalledWith(
+        SOURCE_ID,
+        buffer,
+      );
+      expect(
+        mockRepository.savePendingOcrFile.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockTaskDispatcher.dispatchIngestion.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should leave the identical-content check to the ingestion job', async () => {
+      // Arrange: the text layer equals the current version until OCR
+      mockScanned(OLD_CONTENT, [2]);
+
+      // Act
+      const result = await useCase.execute({
+        sourceId: SOURCE_ID,
+        buffer: Buffer.from('%PDF-1.4\nscanned'),
+      });
+
+      // Assert
+      expect(result.status).toBe(SourceStatus.PENDING);
+      expect(mockTaskDispatcher.dispatchIngestion).toHaveBeenCalled();
+    });
+
+    it('should discard a PDF left by an earlier version without scanned pages', async () => {
+      // Arrange
+      mockParsed(NEW_CONTENT);
+
+      // Act
+      const result = await useCase.execute({
+        sourceId: SOURCE_ID,
+        buffer: Buffer.from('%PDF-1.4\nnew'),
+      });
+
+      // Assert
+      expect(result.scannedPages).toBeUndefined();
+      expect(mockRepository.clearPendingOcrFile).toHaveBeenCalledWith(
+        SOURCE_ID,
+      );
+      expect(mockRepository.savePendingOcrFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject an empty buffer', async () => {
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.alloc(0) }),
+      ).rejects.toThrow('Buffer cannot be empty');
+    });
+
+    it('should reject unknown sources', async () => {
+      // Arrange
+      mockRepository.findSourceById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: 'missing', buffer: Buffer.from('x') }),
+      ).rejects.toThrow('Knowledge source not found: missing');
+    });
+
+    it('should reject URL sources', async () => {
+      // Arrange
+      mockRepository.findSourceById.mockResolvedValue(
+        createCompletedSource(SourceType.URL),
+      );
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') }),
+      ).rejects.toThrow('URL sources are versioned by re-crawling');
+      expect(mockParserService.parse).not.toHaveBeenCalled();
+    });
+
+    it('should reject content identical to the current version', async () => {
+      // Arrange
+      mockParsed(OLD_CONTENT);
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') }),
+      ).rejects.toThrow('Content is identical to the current version');
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+    });
+
+    it('should reject a new version while the source is processing', async () => {
+      // Arrange
+      const processing = new KnowledgeSource({
+        title: 'Vacation Policy',
+        sectorId: '550e8400-e29b-41d4-a716-446655440000',
+        sourceType: SourceType.PDF,
+        content: OLD_CONTENT,
+      });
+      processing.id = SOURCE_ID;
+      processing.markAsProcessing();
+      mockRepository.findSourceById.mockResolvedValue(processing);
+      mockParsed(NEW_CONTENT);
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') }),
+      ).rejects.toThrow(
+        'Cannot replace content while the source is processing',
+      );
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Quotas', () => {
+    // The sector serves the current version (about 9 tokens): 1 token is left
+    const LONGER_CONTENT = `${NEW_CONTENT} Unused days carry over to the next year.`;
+
+    beforeEach(() => {
+      process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR = '10';
+      useCase = createUseCase();
+    });
+
+    afterEach(() => {
+      delete process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR;
+      delete process.env.KNOWLEDGE_MAX_FILE_SIZE_MB_PDF;
+    });
+
+    it('should only count the tokens the version adds', async () => {
+      // Arrange
+      mockParsed(NEW_CONTENT);
+
+      // Act
+      const result = await useCase.execute({
+        sourceId: SOURCE_ID,
+        buffer: Buffer.from('x'),
+      });
+
+      // Assert
+      expect(result.version).toBe(2);
+    });
+
+    it('should reject a version with more added tokens than remain', async () => {
+      // Arrange
+      mockParsed(LONGER_CONTENT);
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ sourceId: SOURCE_ID, buffer: Buffer.from('x') }),
+      ).rejects.toThrow(
+        'Sector quota exceeded: the new version adds about 10 tokens, 1 of 10 remain',
+      );
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+      expect(mockRepository.saveSource).not.toHaveBeenCalled();
+      expect(mockTaskDispatcher.dispatchIngestion).not.toHaveBeenCalled();
+      expect(source.version).toBe(1);
+    });
+
+    it('should reject a restored version over the quota', async () => {
+      // Act & Assert
+      await expect(
+        useCase.publishVersion(source, LONGER_CONTENT),
+      ).rejects.toThrow('Sector quota exceeded');
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+    });
+
+    it('should reject a file over the size limit of the source type', async () => {
+      // Arrange
+      process.env.KNOWLEDGE_MAX_FILE_SIZE_MB_PDF = '1';
+      useCase = createUseCase();
+
+      // Act & Assert
+      await expect(
+        useCase.execute({
+          sourceId: SOURCE_ID,
+          buffer: Buffer.alloc(1024 * 1024 + 1),
+        }),
+      ).rejects.toThrow('File too large for PDF sources. Maximum size is 1MB');
+      expect(mockParserService.parse).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { IngestUrlUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/ingest-url.use-case';
+import { IngestDocumentUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/ingest-document.use-case';
+import type { IWebPageFetcher } from '../../../../../../src/modules/knowledge/domain/services/web-page-fetcher.interface';
+import type { IngestUrlDto } from '../../../../../../src/modules/knowledge/application/dtos/ingest-url.dto';
+import { ChunkingStrategy, SourceType, SourceStatus } from '@shared/types';
+
+describe('IngestUrlUseCase', () => {
+  let useCase: IngestUrlUseCase;
+  let mockFetcher: jest.Mocked<IWebPageFetcher>;
+  let mockIngestDocument: jest.Mocked<IngestDocumentUseCase>;
+
+  const fetchedAt = new Date('2026-03-01T10:00:00.000Z');
+  const html = '<html><body><h1>Vacations</h1></body></html>';
+
+  const createDto = (overrides: Partial<IngestUrlDto> = {}): IngestUrlDto => ({
+    url: 'https://example.com/vacations',
+    title: 'Vacation Policy',
+    sectorId: '550e8400-e29b-41d4-a716-446655440000',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockFetcher = {
+      fetch: jest.fn().mockResolvedValue({
+        url: 'https://www.example.com/handbook/vacations',
+        html,
+        contentType: 'text/html',
+        fetchedAt,
+      }),
+    };
+
+    mockIngestDocument = {
+      execute: jest.fn().mockResolvedValue({
+        sourceId: 'source-123',
+        title: 'Vacation Policy',
+        contentSize: 9,
+        status: SourceStatus.PENDING,
+      }),
+    } as unknown as jest.Mocked<IngestDocumentUseCase>;
+
+    useCase = new IngestUrlUseCase(mockFetcher, mockIngestDocument);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch the page and ingest it as a URL source', async () => {
+    // Act
+    const result = await useCase.execute(
+      createDto({ metadata: { owner: 'HR' } }),
+    );
+
+    // Assert
+    expect(result.status).toBe(SourceStatus.PENDING);
+    expect(mockFetcher.fetch).toHaveBeenCalledWith(
+      'https://example.com/vacations',
+    );
+    expect(mockIngestDocument.execute).toHaveBeenCalledWith({
+      title: 'Vacation Policy',
+      sectorId: '550e8400-e29b-41d4-a716-446655440000',
+      sourceType: SourceType.URL,
+      buffer: Buffer.from(html, 'utf-8'),
+      pageUrl: 'https://www.example.com/handbook/vacations',
+      metadata: {
+        owner: 'HR',
+        sourceUrl: 'https://example.com/vacations',
+        fetchedAt: '2026-03-01T10:00:00.000Z',
+      },
+    });
+  });
+
+  it('should not let caller metadata override the fetch details', async () => {
+    // Act
+    await useCase.execute(
+      createDto({ metadata: { sourceUrl: 'spoofed', fetchedAt: 'never' } }),
+    );
+
+    // Assert
+    const ingestDto = mockIngestDocument.execute.mock.calls[0][0];
+    expect(ingestDto.metadata).toEqual({
+      sourceUrl: 'https://example.com/vacations',
+      fetchedAt: '2026-03-01T10:00:00.000Z',
+    });
+  });
+
+  it('should pass the refresh interval on to ingestion', async () => {
+    // Act
+    await useCase.execute(createDto({ refreshIntervalMinutes: 1440 }));
+
+    // Assert
+    const ingestDto = mockIngestDocument.execute.mock.calls[0][0];
+    expect(ingestDto.refreshIntervalMinutes).toBe(1440);
+  });
+
+  it('should pass the chunking strategy on to ingestion', async () => {
+    // Act
+    await useCase.execute(
+      createDto({ chunkingStrategy: ChunkingStrategy.STRUCTURED }),
+    );
+
+    // Assert
+    const ingestDto = mockIngestDocument.execute.mock.calls[0][0];
+    expect(ingestDto.chunkingStrategy).toBe(ChunkingStrategy.STRUCTURED);
+  });
+
+  describe('Input Validation', () => {
+    it('should throw error for empty URL', async () => {
+      await expect(useCase.execute(createDto({ url: '' }))).rejects.toThrow(
+        'URL is required',
+      );
+    });
+
+    it('should throw error for empty title', async () => {
+      await expect(useCase.execute(createDto({ title: ' ' }))).rejects.toThrow(
+        'Title is required',
+      );
+    });
+
+    it('should throw error for a malformed URL', async () => {
+      await expect(
+        useCase.execute(createDto({ url: 'not a url' })),
+      ).rejects.toThrow('Invalid URL: not a url');
+    });
+
+    it('should throw error for non-http protocols', async () => {
+      await expect(
+        useCase.execute(createDto({ url: 'ftp://example.com/file' })),
+      ).rejects.toThrow('URL must use http or https');
+      expect(mockFetcher.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should propagate fetch errors without ingesting', async () => {
+    // Arrange
+    mockFetcher.fetch.mockRejectedValue(
+      new Error('Failed to fetch URL: HTTP 500'),
+    );
+
+    // Act & Assert
+    await expect(useCase.execute(createDto())).rejects.toThrow(
+      'Failed to fetch URL: HTTP 500',
+    );
+    expect(mockIngestDocument.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { ListFragmentsUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/list-fragments.use-case';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { SourceType } from '@shared/types';
+
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createSource(): KnowledgeSource {
+  const source = new KnowledgeSource({
+    title: 'Benefits Policy',
+    sectorId: '660e8400-e29b-41d4-a716-446655440001',
+    sourceType: SourceType.PDF,
+    content: 'Vacation days: 25 per year.',
+  });
+  source.id = SOURCE_ID;
+  return source;
+}
+
+describe('ListFragmentsUseCase', () => {
+  let useCase: ListFragmentsUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let source: KnowledgeSource;
+  const fragment = new Fragment({
+    sourceId: SOURCE_ID,
+    content: 'Vacation days: 25 per year.',
+    position: 0,
+  });
+
+  beforeEach(() => {
+    source = createSource();
+    source.markAsProcessing();
+    source.markAsCompleted();
+
+    mockRepository = {
+      findSourceById: jest.fn().mockResolvedValue(source),
+      findFragmentPage: jest
+        .fn()
+        .mockResolvedValue({ fragments: [fragment], total: 41 }),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    useCase = new ListFragmentsUseCase(mockRepository);
+  });
+
+  it('should list a page of the fragments of the indexed version', async () => {
+    const result = await useCase.execute({
+      sourceId: SOURCE_ID,
+      limit: 10,
+      offset: 40,
+    });
+
+    expect(mockRepository.findFragmentPage).toHaveBeenCalledWith(
+      SOURCE_ID,
+      1,
+      10,
+      40,
+    );
+    expect(result).toEqual({
+      sourceId: SOURCE_ID,
+      indexedVersion: 1,
+      fragments: [fragment],
+      total: 41,
+      limit: 10,
+      offset: 40,
+    });
+  });
+
+  it('should use the default page', async () => {
+    await useCase.execute({ sourceId: SOURCE_ID });
+
+    expect(mockRepository.findFragmentPage).toHaveBeenCalledWith(
+      SOURCE_ID,
+      1,
+      20,
+      0,
+    );
+  });
+
+  it('should return no fragments for a source never indexed', async () => {
+    mockRepository.findSourceById.mockResolvedValue(createSource());
+
+    const result = await useCase.execute({ sourceId: SOURCE_ID });
+
+    expect(result.fragments).toEqual([]);
+    expect(result.total).toBe(0);
+    expect(result.indexedVersion).toBeUndefined();
+    expect(mockRepository.findFragmentPage).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the source is not found', async () => {
+    mockRepository.findSourceById.mockResolvedValue(null);
+
+    await expect(useCase.execute({ sourceId: SOURCE_ID })).rejects.toThrow(
+      `Knowledge source not found: ${SOURCE_ID}`,
+    );
+  });
+
+  it.each([
+    [{ sourceId: 'not-a-uuid' }, 'SourceId must be a valid UUID'],
+    [{ limit: 0 }, 'Limit must be between 1 and 100'],
+    [{ limit: 101 }, 'Limit must be between 1 and 100'],
+    [{ offset: -1 }, 'Offset must be a non-negative integer'],
+  ])('should reject %p', async (overrides, message) => {
+    await expect(
+      useCase.execute({ sourceId: SOURCE_ID, ...overrides }),
+    ).rejects.toThrow(message);
+    expect(mockRepository.findSourceById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { ListSourcesUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/list-sources.use-case';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+
+function createSource(
+  title: string,
+  tags: string[],
+  category?: string,
+): KnowledgeSource {
+  const source = new KnowledgeSource({
+    title,
+    sectorId: SECTOR_ID,
+    sourceType: SourceType.PDF,
+    content: `Content of ${title}`,
+  });
+  source.setTags(tags);
+  source.setCategory(category);
+  return source;
+}
+
+describe('ListSourcesUseCase', () => {
+  let useCase: ListSourcesUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+
+  const vacations = createSource('Vacations', ['hr', 'benefits'], 'Policies');
+  const laptops = createSource('Laptops', ['it'], 'Policies');
+  const welcome = createSource('Welcome', ['hr', 'onboarding'], 'Guides');
+  const untagged = createSource('Untagged', []);
+
+  beforeEach(() => {
+    const sources = [vacations, laptops, welcome, untagged];
+    mockRepository = {
+      findSourcesBySector: jest.fn().mockResolvedValue(sources),
+      findAllSources: jest.fn().mockResolvedValue(sources),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    useCase = new ListSourcesUseCase(mockRepository);
+  });
+
+  it('should list every source of a sector with facet counts', async () => {
+    const result = await useCase.execute({ sectorId: SECTOR_ID });
+
+    expect(mockRepository.findSourcesBySector).toHaveBeenCalledWith(SECTOR_ID);
+    expect(result.sources).toHaveLength(4);
+    expect(result.facets).toEqual({
+      tags: [
+        { value: 'hr', count: 2 },
+        { value: 'benefits', count: 1 },
+        { value: 'it', count: 1 },
+        { value: 'onboarding', count: 1 },
+      ],
+      categories: [
+        { value: 'Policies', count: 2 },
+        { value: 'Guides', count: 1 },
+      ],
+    });
+  });
+
+  it('should list sources of every sector without a sectorId', async () => {
+    await useCase.execute({});
+
+    expect(mockRepository.findAllSources).toHaveBeenCalled();
+    expect(mockRepository.findSourcesBySector).not.toHaveBeenCalled();
+  });
+
+  it('should match sources with any of the tags, normalized', async () => {
+    const result = await useCase.execute({ tags: [' HR', 'it'] });
+
+    expect(result.sources).toEqual([vacations, laptops, welcome]);
+  });
+
+  it('should match the category case-insensitively', async () => {
+    const result = await useCase.execute({ category: 'policies' });
+
+    expect(result.sources).toEqual([vacations, laptops]);
+  });
+
+  it('should count each facet without its own filter', async () => {
+    const result = await useCase.execute({
+      tags: ['hr'],
+      category: 'Policies',
+    });
+
+    expect(result.sources).toEqual([vacations]);
+    // Tags of the Policies sources; categories of the hr sources
+    expect(result.facets.tags).toEqual([
+      { value: 'benefits', count: 1 },
+      { value: 'hr', count: 1 },
+      { value: 'it', count: 1 },
+    ]);
+    expect(result.facets.categories).toEqual([
+      { value: 'Guides', count: 1 },
+      { value: 'Policies', count: 1 },
+    ]);
+  });
+
+  it('should reject an invalid sectorId', async () => {
+    await expect(useCase.execute({ sectorId: 'not-a-uuid' })).rejects.toThrow(
+      'sectorId must be a valid UUID',
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { MergeFragmentsUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/merge-fragments.use-case';
+import { FragmentCurationService } from '../../../../../../src/modules/knowledge/application/services/fragment-curation.service';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { SourceType } from '@shared/types';
+
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const FRAGMENT_IDS = [
+  '770e8400-e29b-41d4-a716-446655440000',
+  '770e8400-e29b-41d4-a716-446655440001',
+  '770e8400-e29b-41d4-a716-446655440002',
+  '770e8400-e29b-41d4-a716-446655440003',
+];
+
+describe('MergeFragmentsUseCase', () => {
+  let useCase: MergeFragmentsUseCase;
+  let mockCuration: jest.Mocked<FragmentCurationService>;
+  let fragments: Fragment[];
+
+  beforeEach(() => {
+    const source = new KnowledgeSource({
+      title: 'Salary Table',
+      sectorId: '660e8400-e29b-41d4-a716-446655440001',
+      sourceType: SourceType.PDF,
+      content: 'Salary bands by level.',
+    });
+    source.id = SOURCE_ID;
+    // Position 2 was left unused by an earlier merge
+    fragments = FRAGMENT_IDS.map((id, index) =>
+      Fragment.fromPersistence({
+        id,
+        sourceId: SOURCE_ID,
+        sourceVersion: 1,
+        content: `| Level ${index} | Band ${index} |`,
+        position: index < 2 ? index : index + 1,
+        tokenCount: 5,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }),
+    );
+
+    mockCuration = {
+      loadServedFragments: jest.fn().mockResolvedValue({ source, fragments }),
+      findFragments: jest
+        .fn()
+        .mockImplementation((_served, ids: string[]) =>
+          fragments.filter((fragment) => ids.includes(fragment.id!)),
+        ),
+      applyChanges: jest.fn().mockResolvedValue({
+        fragments: [],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      }),
+    } as unknown as jest.Mocked<FragmentCurationService>;
+
+    useCase = new MergeFragmentsUseCase(mockCuration);
+  });
+
+  it('should merge adjacent fragments into the first by position', async () => {
+    await useCase.execute({
+      sourceId: SOURCE_ID,
+      fragmentIds: [FRAGMENT_IDS[2], FRAGMENT_IDS[1]],
+    });
+
+    expect(fragments[1].content).toBe(
+      '| Level 1 | Band 1 |\n\n| Level 2 | Band 2 |',
+    );
+    expect(mockCuration.applyChanges).toHaveBeenCalledWith(expect.anything(), {
+      edited: [fragments[1]],
+      deletedIds: [FRAGMENT_IDS[2]],
+    });
+  });
+
+  it('should reject fragments with another fragment in between', async () => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentIds: [FRAGMENT_IDS[0], FRAGMENT_IDS[2]],
+      }),
+    ).rejects.toThrow('Only adjacent fragments can be merged');
+    expect(mockCuration.applyChanges).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [
+      { fragmentIds: [FRAGMENT_IDS[0], FRAGMENT_IDS[0]] },
+      'Between 2 and 10 distinct fragments must be merged',
+    ],
+    [
+      { fragmentIds: [FRAGMENT_IDS[0], 'not-a-uuid'] },
+      'FragmentId must be a valid UUID: not-a-uuid',
+    ],
+    [{ sourceId: 'not-a-uuid' }, 'SourceId must be a valid UUID'],
+  ])('should reject %p', async (overrides, message) => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentIds: [FRAGMENT_IDS[0], FRAGMENT_IDS[1]],
+        ...overrides,
+      }),
+    ).rejects.toThrow(message);
+    expect(mockCuration.loadServedFragments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,287 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { ReconcileVectorStoreUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/reconcile-vector-store.use-case';
+import { IngestionPipelineService } from '../../../../../../src/modules/knowledge/application/services/ingestion-pipeline.service';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { EmbeddingIndex } from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+import {
+  IKnowledgeRepository,
+  FragmentIndexEntry,
+} from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const OTHER_SECTOR_ID = '660e8400-e29b-41d4-a716-446655440002';
+const SOURCE_ID = 'source-123';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+
+function entry(
+  id: string,
+  overrides: Partial<FragmentIndexEntry> = {},
+): FragmentIndexEntry {
+  return {
+    id,
+    sourceId: SOURCE_ID,
+    indexed: true,
+    processing: false,
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+function fragment(id: string, position: number): Fragment {
+  const result = new Fragment({
+    sourceId: SOURCE_ID,
+    content: `Fragment content number ${position}`,
+    position,
+  });
+  result.id = id;
+  return result;
+}
+
+describe('ReconcileVectorStoreUseCase', () => {
+  let useCase: ReconcileVectorStoreUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockPipeline: jest.Mocked<IngestionPipelineService>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let source: KnowledgeSource;
+
+  beforeEach(() => {
+    source = new KnowledgeSource({
+      title: 'Vacation Policy',
+      sectorId: SECTOR_ID,
+      sourceType: SourceType.PDF,
+      content: 'Vacation policy: 25 days per year.',
+    });
+    source.id = SOURCE_ID;
+
+    // frag-1 has its vector, frag-2 lost it, vector-x has no fragment
+    mockRepository = {
+      findSectorIdsWithSources: jest.fn().mockResolvedValue([SECTOR_ID]),
+      findFragmentIndexEntries: jest
+        .fn()
+        .mockResolvedValue([entry('frag-1'), entry('frag-2')]),
+      findSourcesByIds: jest.fn().mockResolvedValue([source]),
+      findFragmentsBySource: jest
+        .fn()
+        .mockResolvedValue([fragment('frag-1', 0), fragment('frag-2', 1)]),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockVectorStore = {
+      listNamespaces: jest.fn().mockResolvedValue([]),
+      listVectorIds: jest.fn().mockResolvedValue(['frag-1', 'vector-x']),
+      deleteByIds: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IVectorStore>;
+
+    mockPipeline = {
+      indexFragments: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IngestionPipelineService>;
+
+    mockEmbeddingIndexService = {
+      getWriteIndexes: jest
+        .fn()
+        .mockImplementation((sectorId: string) =>
+          Promise.resolve([EmbeddingIndex.initial(sectorId, PROFILE)]),
+        ),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    useCase = new ReconcileVectorStoreUseCase(
+      mockRepository,
+      mockVectorStore,
+      mockPipeline,
+      mockEmbeddingIndexService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report the drift without repairing it on a dry run', async () => {
+    // Act
+    const report = await useCase.execute({ dryRun: true });
+
+    // Assert
+    expect(report.dryRun).toBe(true);
+    expect(report.missingVectorCount).toBe(1);
+    expect(report.orphanVectorCount).toBe(1);
+    expect(report.sectors).toEqual([
+      expect.objectContaining({
+        sectorId: SECTOR_ID,
+        fragmentCount: 2,
+        vectorCount: 2,
+        missingVectorIds: ['frag-2'],
+        orphanVectorIds: ['vector-x'],
+        vectorsRestored: 0,
+        vectorsDeleted: 0,
+      }),
+    ]);
+    expect(mockPipeline.indexFragments).not.toHaveBeenCalled();
+    expect(mockVectorStore.deleteByIds).not.toHaveBeenCalled();
+  });
+
+  it('should re-embed missing fragments and delete orphan vectors', async () => {
+    // Act
+    const report = await useCase.execute({ dryRun: false });
+
+    // Assert
+    expect(mockRepository.findSourcesByIds).toHaveBeenCalledWith([SOURCE_ID]);
+    expect(mockPipeline.indexFragments).toHaveBeenCalledWith(
+      source,
+      [expect.objectContaining({ id: 'frag-2' })],
+      [expect.objectContaining({ namespace: SECTOR_ID })],
+    );
+    expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+      ['vector-x'],
+      SECTOR_ID,
+    );
+    expect(report.sectors[0].vectorsRestored).toBe(1);
+    expect(report.sectors[0].vectorsDeleted).toBe(1);
+  });
+
+  it('should not expect vectors for superseded or processing fragments', async () => {
+    // Arrange
+    mockRepository.findFragmentIndexEntries.mockResolvedValue([
+      entry('frag-1'),
+      entry('frag-old', { indexed: false }),
+      entry('frag-new', { processing: true }),
+    ]);
+    mockVectorStore.listVectorIds.mockResolvedValue(['frag-1']);
+
+    // Act
+    const report = await useCase.execute({ dryRun: false });
+
+    // Assert
+    expect(report.missingVectorCount).toBe(0);
+    expect(report.orphanVectorCount).toBe(0);
+    expect(mockPipeline.indexFragments).not.toHaveBeenCalled();
+  });
+
+  it('should delete the vectors left behind by excluded fragments', async () => {
+    // Arrange
+    mockRepository.findFragmentIndexEntries.mockResolvedValue([
+      entry('frag-1'),
+      entry('frag-excluded', { indexed: false }),
+      entry('frag-new', { processing: true }),
+    ]);
+    mockVectorStore.listVectorIds.mockResolvedValue([
+      'frag-1',
+      'frag-excluded',
+      'frag-new',
+    ]);
+
+    // Act
+    const report = await useCase.execute({ dryRun: false });
+
+    // Assert
+    expect(report.sectors[0].orphanVectorIds).toEqual(['frag-excluded']);
+    expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+      ['frag-excluded'],
+      SECTOR_ID,
+    );
+  });
+
+  it('should include namespaces that only have vectors left', async () => {
+    // Arrange
+    mockVectorStore.listNamespaces.mockResolvedValue([
+      OTHER_SECTOR_ID,
+      SECTOR_ID,
+    ]);
+
+    // Act
+    const report = await useCase.execute({ dryRun: true });
+
+    // Assert
+    expect(report.sectors.map((sector) => sector.sectorId)).toEqual([
+      SECTOR_ID,
+      OTHER_SECTOR_ID,
+    ]);
+  });
+
+  it('should reconcile the namespace of the active embedding index', async () => {
+    // Arrange
+    const active = EmbeddingIndex.build(
+      EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+      2,
+      PROFILE,
+    );
+    active.activate();
+    mockEmbeddingIndexService.getWriteIndexes.mockResolvedValue([active]);
+    mockVectorStore.listNamespaces.mockResolvedValue([
+      SECTOR_ID,
+      `${SECTOR_ID}--g2`,
+    ]);
+
+    // Act
+    const report = await useCase.execute({ dryRun: false });
+
+    // Assert
+    expect(report.sectors.map((sector) => sector.sectorId)).toEqual([
+      SECTOR_ID,
+    ]);
+    expect(mockVectorStore.listVectorIds).toHaveBeenCalledWith(
+      `${SECTOR_ID}--g2`,
+    );
+    expect(mockVectorStore.deleteByIds).toHaveBeenCalledWith(
+      ['vector-x'],
+      `${SECTOR_ID}--g2`,
+    );
+  });
+
+  it('should only reconcile the requested sector', async () => {
+    // Act
+    await useCase.execute({ dryRun: true, sectorId: OTHER_SECTOR_ID });
+
+    // Assert
+    expect(mockRepository.findSectorIdsWithSources).not.toHaveBeenCalled();
+    expect(mockVectorStore.listVectorIds).toHaveBeenCalledWith(OTHER_SECTOR_ID);
+  });
+
+  it('should report a failing sector and keep going', async () => {
+    // Arrange
+    mockVectorStore.listNamespaces.mockResolvedValue([OTHER_SECTOR_ID]);
+    mockVectorStore.listVectorIds
+      .mockRejectedValueOnce(new Error('Pinecone down'))
+      .mockResolvedValueOnce(['frag-1', 'frag-2']);
+
+    // Act
+    const report = await useCase.execute({ dryRun: true });
+
+    // Assert
+    expect(report.sectors[0].error).toBe('Pinecone down');
+    expect(report.sectors[1].error).toBeUndefined();
+  });
+
+  it('should reject an invalid sector ID', async () => {
+    await expect(
+      useCase.execute({ dryRun: true, sectorId: 'not-a-uuid' }),
+    ).rejects.toThrow('sectorId must be a valid UUID');
+  });
+
+  it('should reject a repair run while another one is running', async () => {
+    // Arrange
+    let finish: () => void = () => undefined;
+    mockVectorStore.listVectorIds.mockReturnValueOnce(
+      new Promise((resolve) => {
+        finish = () => resolve([]);
+      }),
+    );
+
+    // Act
+    const first = useCase.execute({ dryRun: false });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Assert
+    await expect(useCase.execute({ dryRun: false })).rejects.toThrow(
+      'A vector store reconciliation is already running',
+    );
+    await expect(useCase.execute({ dryRun: true })).resolves.toBeDefined();
+    finish();
+    await expect(first).resolves.toBeDefined();
+  });
+});
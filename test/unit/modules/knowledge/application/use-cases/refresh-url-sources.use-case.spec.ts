@@ -0,0 +1,405 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { RefreshUrlSourcesUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/refresh-url-sources.use-case';
+import { IngestionPipelineService } from '../../../../../../src/modules/knowledge/application/services/ingestion-pipeline.service';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import type { IWebPageFetcher } from '../../../../../../src/modules/knowledge/domain/services/web-page-fetcher.interface';
+import { DocumentParserService } from '../../../../../../src/modules/knowledge/infrastructure/services/document-parser.service';
+import { KnowledgeQuotaService } from '../../../../../../src/modules/knowledge/application/services/knowledge-quota.service';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { KnowledgeSourceRefreshedEvent } from '../../../../../../src/modules/knowledge/domain/events/knowledge.events';
+import { SourceType } from '@shared/types';
+import { sha256Hex } from '@shared/utils';
+
+const SOURCE_ID = 'source-123';
+const SECTOR_ID = '550e8400-e29b-41d4-a716-446655440000';
+const PAGE_URL = 'https://intranet.example.com/vacations';
+const OLD_CONTENT = '# Vacations\n\n20 days per year.';
+const NEW_CONTENT = '# Vacations\n\n25 days per year.';
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('RefreshUrlSourcesUseCase', () => {
+  let useCase: RefreshUrlSourcesUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockFetcher: jest.Mocked<IWebPageFetcher>;
+  let mockParserService: jest.Mocked<DocumentParserService>;
+  let mockPipeline: jest.Mocked<IngestionPipelineService>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+  let source: KnowledgeSource;
+
+  const createCompletedSource = (): KnowledgeSource => {
+    const created = new KnowledgeSource({
+      title: 'Vacation Policy',
+      sectorId: SECTOR_ID,
+      sourceType: SourceType.URL,
+      content: OLD_CONTENT,
+      contentHash: sha256Hex(OLD_CONTENT),
+      metadata: {
+        sourceUrl: PAGE_URL,
+        fetchedAt: '2026-02-01T12:00:00.000Z',
+      },
+    });
+    created.id = SOURCE_ID;
+    created.scheduleRefresh(60, new Date('2026-03-01T10:00:00.000Z'));
+    created.markAsProcessing();
+    created.markAsCompleted();
+    return created;
+  };
+
+  const mockParsedContent = (content: string): void => {
+    mockParserService.parse.mockResolvedValue({
+      content,
+      contentForEmbedding: content,
+      metadata: {
+        sourceType: SourceType.URL,
+        parsedAt: NOW.toISOString(),
+        originalSize: content.length,
+        canonicalUrl: PAGE_URL,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    source = createCompletedSource();
+
+    mockRepository = {
+      findSourcesDueForRefresh: jest
+        .fn()
+        .mockResolvedValueOnce([source])
+        .mockResolvedValue([]),
+      saveSource: jest
+        .fn()
+        .mockImplementation((s: KnowledgeSource) => Promise.resolve(s)),
+      saveRevision: jest
+        .fn()
+        .mockImplementation((revision: KnowledgeSourceRevision) => {
+          revision.id = 'revision-1';
+          return Promise.resolve(revision);
+        }),
+      findSourceById: jest.fn().mockImplementation(() => {
+        const reindexed = createCompletedSource();
+        reindexed.content = NEW_CONTENT;
+        return Promise.resolve(reindexed);
+      }),
+      countFragmentsBySource: jest.fn().mockResolvedValue(3),
+      countSourcesBySector: jest.fn().mockResolvedValue(1),
+      getFragmentUsageBySector: jest
+        .fn()
+        .mockResolvedValue({ fragments: 3, tokens: 8 }),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockFetcher = {
+      fetch: jest.fn().mockResolvedValue({
+        url: PAGE_URL,
+        html: '<html><body><h1>Vacations</h1></body></html>',
+        contentType: 'text/html',
+        fetchedAt: NOW,
+      }),
+    };
+
+    mockParserService = {
+      parse: jest.fn(),
+    } as unknown as jest.Mocked<DocumentParserService>;
+
+    mockPipeline = {
+      processSource: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IngestionPipelineService>;
+
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    useCase = new RefreshUrlSourcesUseCase(
+      mockRepository,
+      mockFetcher,
+      mockParserService,
+      mockPipeline,
+      mockEventEmitter,
+      new KnowledgeQuotaService(mockRepository),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Unchanged content', () => {
+    it('should only schedule the next check', async () => {
+      // Arrange
+      mockParsedContent(OLD_CONTENT);
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result).toEqual({
+        checked: 1,
+        changed: 0,
+        unchanged: 1,
+        failed: 0,
+      });
+      expect(mockFetcher.fetch).toHaveBeenCalledWith(PAGE_URL);
+      expect(mockParserService.parse).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        SourceType.URL,
+        { pageUrl: PAGE_URL },
+      );
+      expect(source.nextRefreshAt).toEqual(
+        new Date('2026-03-01T13:00:00.000Z'),
+      );
+      expect(source.content).toBe(OLD_CONTENT);
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+      expect(mockPipeline.processSource).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Changed content', () => {
+    beforeEach(() => {
+      mockParsedContent(NEW_CONTENT);
+    });
+
+    it('should keep the previous content as a revision', async () => {
+      // Act
+      await useCase.execute(NOW);
+
+      // Assert
+      const revision = mockRepository.saveRevision.mock.calls[0][0];
+      expect(revision.sourceId).toBe(SOURCE_ID);
+      expect(revision.version).toBe(1);
+      expect(revision.content).toBe(OLD_CONTENT);
+      expect(revision.contentHash).toBe(sha256Hex(OLD_CONTENT));
+      expect(revision.fetchedAt).toEqual(new Date('2026-02-01T12:00:00.000Z'));
+    });
+
+    it('should replace the content and re-run ingestion for the source', async () => {
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result).toEqual({
+        checked: 1,
+        changed: 1,
+        unchanged: 0,
+        failed: 0,
+      });
+      expect(source.content).toBe(NEW_CONTENT);
+      expect(source.contentHash).toBe(sha256Hex(NEW_CONTENT));
+      expect(source.metadata).toEqual(
+        expect.objectContaining({
+          sourceUrl: PAGE_URL,
+          fetchedAt: NOW.toISOString(),
+        }),
+      );
+      expect(mockPipeline.processSource).toHaveBeenCalledWith(SOURCE_ID);
+
+      const saveOrder = mockRepository.saveSource.mock.invocationCallOrder[0];
+      const processOrder =
+        mockPipeline.processSource.mock.invocationCallOrder[0];
+      expect(saveOrder).toBeLessThan(processOrder);
+    });
+
+    it('should emit knowledge.source.refreshed once re-indexed', async () => {
+      // Act
+      await useCase.execute(NOW);
+
+      // Assert
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'knowledge.source.refreshed',
+        expect.any(KnowledgeSourceRefreshedEvent),
+      );
+      const event = mockEventEmitter.emit.mock
+        .calls[0][1] as KnowledgeSourceRefreshedEvent;
+      expect(event.sourceId).toBe(SOURCE_ID);
+      expect(event.sectorId).toBe(SECTOR_ID);
+      expect(event.revisionId).toBe('revision-1');
+      expect(event.fragmentCount).toBe(3);
+    });
+
+    it('should not emit the event when re-indexing fails', async () => {
+      // Arrange
+      mockRepository.findSourceById.mockImplementation(() => {
+        const failed = createCompletedSource();
+        failed.markAsFailed('Embedding service unavailable');
+        return Promise.resolve(failed);
+      });
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result.failed).toBe(1);
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Quotas', () => {
+    // The sector serves the current version (8 tokens): 2 tokens are left
+    const LONGER_CONTENT = `${NEW_CONTENT}\n\nUnused days carry over to the next year.`;
+
+    beforeEach(() => {
+      process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR = '10';
+      useCase = new RefreshUrlSourcesUseCase(
+        mockRepository,
+        mockFetcher,
+        mockParserService,
+        mockPipeline,
+        mockEventEmitter,
+        new KnowledgeQuotaService(mockRepository),
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.KNOWLEDGE_MAX_TOKENS_PER_SECTOR;
+    });
+
+    it('should re-index a changed page within the quota', async () => {
+      // Arrange
+      mockParsedContent(NEW_CONTENT);
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result.changed).toBe(1);
+      expect(mockPipeline.processSource).toHaveBeenCalledWith(SOURCE_ID);
+    });
+
+    it('should keep serving the current version when the page grows past the quota', async () => {
+      // Arrange
+      mockParsedContent(LONGER_CONTENT);
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result).toEqual({
+        checked: 1,
+        changed: 0,
+        unchanged: 0,
+        failed: 1,
+      });
+      expect(source.content).toBe(OLD_CONTENT);
+      expect(source.version).toBe(1);
+      expect(source.nextRefreshAt).toEqual(
+        new Date('2026-03-01T13:00:00.000Z'),
+      );
+      expect(mockRepository.saveRevision).not.toHaveBeenCalled();
+      expect(mockPipeline.processSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Failed re-index', () => {
+    it('should index the page again at the next run even if it is unchanged', async () => {
+      // Arrange: the first run re-indexes NEW_CONTENT and fails
+      mockParsedContent(NEW_CONTENT);
+      const failed = createCompletedSource();
+      failed.replaceContent(NEW_CONTENT, sha256Hex(NEW_CONTENT));
+      failed.recordRefreshCheck(NOW);
+      failed.markAsFailed('Embedding service unavailable');
+      mockRepository.findSourceById.mockResolvedValueOnce(failed);
+      mockRepository.findRevisionBySourceAndVersion = jest
+        .fn()
+        .mockImplementation(() => {
+          const revision = new KnowledgeSourceRevision({
+            sourceId: SOURCE_ID,
+            version: 1,
+            content: OLD_CONTENT,
+          });
+          revision.id = 'revision-1';
+          return Promise.resolve(revision);
+        });
+      const firstRun = await useCase.execute(NOW);
+
+      // The failed source is still due at the next run
+      const nextRun = new Date('2026-03-01T13:00:00.000Z');
+      mockRepository.findSourcesDueForRefresh
+        .mockResolvedValueOnce([failed])
+        .mockResolvedValue([]);
+
+      // Act
+      const secondRun = await useCase.execute(nextRun);
+
+      // Assert
+      expect(firstRun.failed).toBe(1);
+      expect(secondRun).toEqual({
+        checked: 1,
+        changed: 1,
+        unchanged: 0,
+        failed: 0,
+      });
+      expect(mockPipeline.processSource).toHaveBeenCalledTimes(2);
+      expect(mockRepository.saveRevision).toHaveBeenCalledTimes(1);
+      expect(
+        mockRepository.findRevisionBySourceAndVersion,
+      ).toHaveBeenCalledWith(SOURCE_ID, 1);
+      const event = mockEventEmitter.emit.mock
+        .calls[0][1] as KnowledgeSourceRefreshedEvent;
+      expect(event.revisionId).toBe('revision-1');
+    });
+  });
+
+  describe('Fetch failures', () => {
+    it('should keep the content and retry at the next interval', async () => {
+      // Arrange
+      mockFetcher.fetch.mockRejectedValue(
+        new Error('Failed to fetch URL: HTTP 503'),
+      );
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result).toEqual({
+        checked: 1,
+        changed: 0,
+        unchanged: 0,
+        failed: 1,
+      });
+      expect(source.content).toBe(OLD_CONTENT);
+      expect(source.nextRefreshAt).toEqual(
+        new Date('2026-03-01T13:00:00.000Z'),
+      );
+      expect(mockRepository.saveSource).toHaveBeenCalledWith(source);
+      expect(mockPipeline.processSource).not.toHaveBeenCalled();
+    });
+
+    it('should fail sources without a URL in their metadata', async () => {
+      // Arrange
+      source.metadata = {};
+
+      // Act
+      const result = await useCase.execute(NOW);
+
+      // Assert
+      expect(result.failed).toBe(1);
+      expect(mockFetcher.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should process due sources in batches until none are left', async () => {
+    // Arrange
+    const second = createCompletedSource();
+    second.id = 'source-456';
+    mockRepository.findSourcesDueForRefresh
+      .mockReset()
+      .mockResolvedValueOnce([source])
+      .mockResolvedValueOnce([second])
+      .mockResolvedValue([]);
+    mockParsedContent(OLD_CONTENT);
+
+    // Act
+    const result = await useCase.execute(NOW);
+
+    // Assert
+    expect(result.checked).toBe(2);
+    expect(mockRepository.findSourcesDueForRefresh).toHaveBeenCalledTimes(3);
+    expect(mockRepository.findSourcesDueForRefresh).toHaveBeenCalledWith(
+      NOW,
+      20,
+    );
+  });
+});
@@ -0,0 +1,111 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { RestoreSourceVersionUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/restore-source-version.use-case';
+import { IngestSourceVersionUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/ingest-source-version.use-case';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { SourceType, SourceStatus } from '@shared/types';
+
+const SOURCE_ID = 'source-123';
+
+describe('RestoreSourceVersionUseCase', () => {
+  let useCase: RestoreSourceVersionUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockIngestVersion: jest.Mocked<IngestSourceVersionUseCase>;
+  let source: KnowledgeSource;
+
+  beforeEach(() => {
+    // Source at version 2; version 1 was superseded
+    source = new KnowledgeSource({
+      title: 'Vacation Policy',
+      sectorId: '550e8400-e29b-41d4-a716-446655440000',
+      sourceType: SourceType.PDF,
+      content: 'Vacation policy: 25 days per year.',
+    });
+    source.id = SOURCE_ID;
+    source.replaceContent('Vacation policy: 25 days per year.', 'hash-2');
+
+    mockRepository = {
+      findSourceById: jest.fn().mockResolvedValue(source),
+      findRevisionBySourceAndVersion: jest.fn().mockResolvedValue(
+        new KnowledgeSourceRevision({
+          sourceId: SOURCE_ID,
+          version: 1,
+          content: 'Vacation policy: 20 days per year.',
+        }),
+      ),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockIngestVersion = {
+      publishVersion: jest.fn().mockResolvedValue({
+        sourceId: SOURCE_ID,
+        title: 'Vacation Policy',
+        version: 3,
+        contentSize: 34,
+        status: SourceStatus.PENDING,
+      }),
+    } as unknown as jest.Mocked<IngestSourceVersionUseCase>;
+
+    useCase = new RestoreSourceVersionUseCase(
+      mockRepository,
+      mockIngestVersion,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish the content of the version as a new version', async () => {
+    // Act
+    const result = await useCase.execute({ sourceId: SOURCE_ID, version: 1 });
+
+    // Assert
+    expect(result.version).toBe(3);
+    expect(mockRepository.findRevisionBySourceAndVersion).toHaveBeenCalledWith(
+      SOURCE_ID,
+      1,
+    );
+    expect(mockIngestVersion.publishVersion).toHaveBeenCalledWith(
+      source,
+      'Vacation policy: 20 days per year.',
+    );
+  });
+
+  it.each([0, -2, 1.5])('should reject version %s', async (version) => {
+    await expect(
+      useCase.execute({ sourceId: SOURCE_ID, version }),
+    ).rejects.toThrow('Version must be a positive integer');
+    expect(mockRepository.findSourceById).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown sources', async () => {
+    // Arrange
+    mockRepository.findSourceById.mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(
+      useCase.execute({ sourceId: 'missing', version: 1 }),
+    ).rejects.toThrow('Knowledge source not found: missing');
+  });
+
+  it('should reject restoring the current version', async () => {
+    await expect(
+      useCase.execute({ sourceId: SOURCE_ID, version: 2 }),
+    ).rejects.toThrow('Version 2 is already the current version');
+    expect(mockIngestVersion.publishVersion).not.toHaveBeenCalled();
+  });
+
+  it('should reject versions without a revision', async () => {
+    // Arrange
+    mockRepository.findRevisionBySourceAndVersion.mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(
+      useCase.execute({ sourceId: SOURCE_ID, version: 5 }),
+    ).rejects.toThrow(`Version 5 not found for knowledge source ${SOURCE_ID}`);
+    expect(mockIngestVersion.publishVersion).not.toHaveBeenCalled();
+  });
+});
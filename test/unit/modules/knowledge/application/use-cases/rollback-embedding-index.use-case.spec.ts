@@ -0,0 +1,145 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { Logger } from '@nestjs/common';
+import { RollbackEmbeddingIndexUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/rollback-embedding-index.use-case';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { EmbeddingReindexService } from '../../../../../../src/modules/knowledge/application/services/embedding-reindex.service';
+import { IEmbeddingIndexRepository } from '../../../../../../src/modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+const NEW_PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 768 };
+
+describe('RollbackEmbeddingIndexUseCase', () => {
+  let useCase: RollbackEmbeddingIndexUseCase;
+  let mockIndexRepository: jest.Mocked<IEmbeddingIndexRepository>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let mockReindexService: jest.Mocked<EmbeddingReindexService>;
+  let retired: EmbeddingIndex;
+  let active: EmbeddingIndex;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    retired = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+    active = EmbeddingIndex.build(retired, 2, NEW_PROFILE);
+    active.activate();
+    retired.retire();
+
+    mockIndexRepository = {
+      findBySector: jest.fn().mockResolvedValue([active, retired]),
+      save: jest
+        .fn()
+        .mockImplementation((index: EmbeddingIndex) => Promise.resolve(index)),
+    } as unknown as jest.Mocked<IEmbeddingIndexRepository>;
+
+    mockEmbeddingIndexService = {
+      switchTo: jest.fn().mockImplementation((next: EmbeddingIndex) => {
+        next.activate();
+        return Promise.resolve(next);
+      }),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    mockReindexService = {
+      syncIndex: jest.fn().mockResolvedValue(undefined),
+      clearIndex: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EmbeddingReindexService>;
+
+    useCase = new RollbackEmbeddingIndexUseCase(
+      mockIndexRepository,
+      mockEmbeddingIndexService,
+      mockReindexService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should catch up the retired index and switch back to it', async () => {
+    // Arrange
+    const retiredAt = retired.retiredAt;
+    mockReindexService.syncIndex.mockImplementation((index) => {
+      // The sector keeps reading from the active index meanwhile
+      expect(index.isActive()).toBe(false);
+      expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+      return Promise.resolve();
+    });
+
+    // Act
+    const restored = await useCase.execute(SECTOR_ID);
+
+    // Assert
+    expect(restored).toBe(retired);
+    expect(mockReindexService.syncIndex).toHaveBeenCalledWith(
+      retired,
+      retiredAt,
+    );
+    expect(mockEmbeddingIndexService.switchTo).toHaveBeenCalledWith(
+      retired,
+      active,
+    );
+  });
+
+  it('should cancel a running build and clear its namespace', async () => {
+    // Arrange
+    const building = EmbeddingIndex.build(active, 3, PROFILE);
+    mockIndexRepository.findBySector.mockResolvedValue([
+      building,
+      active,
+      retired,
+    ]);
+
+    // Act
+    const result = await useCase.execute(SECTOR_ID);
+
+    // Assert
+    expect(result.status).toBe(EmbeddingIndexStatus.CANCELLED);
+    expect(mockReindexService.clearIndex).toHaveBeenCalledWith(building);
+    expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+  });
+
+  it('should abort the rollback when the catch-up fails', async () => {
+    // Arrange
+    mockReindexService.syncIndex.mockRejectedValue(new Error('Pinecone down'));
+
+    // Act & Assert
+    await expect(useCase.execute(SECTOR_ID)).rejects.toThrow(
+      'Failed to catch up the retired index: Pinecone down',
+    );
+    expect(mockEmbeddingIndexService.switchTo).not.toHaveBeenCalled();
+    expect(active.isActive()).toBe(true);
+  });
+
+  it('should reject a sector that was never re-indexed', async () => {
+    // Arrange
+    mockIndexRepository.findBySector.mockResolvedValue([]);
+
+    // Act & Assert
+    await expect(useCase.execute(SECTOR_ID)).rejects.toThrow(
+      'No embedding index to roll back to',
+    );
+  });
+
+  it('should reject an invalid sector ID', async () => {
+    // Act & Assert
+    await expect(useCase.execute('not-a-uuid')).rejects.toThrow(
+      'sectorId must be a valid UUID',
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { Logger } from '@nestjs/common';
+import { SearchKnowledgeUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/search-knowledge.use-case';
+import {
+  IKnowledgeRepository,
+  FragmentSearchHit,
+} from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { UserRepository } from '../../../../../../src/modules/users/infrastructure/persistence/repositories/user.repository';
+import { PermissionService } from '../../../../../../src/modules/auth/application/services/permission.service';
+
+const USER_ID = 'user-uuid-123';
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const OTHER_SECTOR_ID = '660e8400-e29b-41d4-a716-446655440002';
+
+function createHit(fragmentId: string): FragmentSearchHit {
+  return {
+    fragmentId,
+    sourceId: 'source-123',
+    sourceTitle: 'Remote Work Policy',
+    sectorId: SECTOR_ID,
+    position: 0,
+    snippet: 'A <mark>remote</mark> work allowance',
+    score: 0.3,
+  };
+}
+
+describe('SearchKnowledgeUseCase', () => {
+  let useCase: SearchKnowledgeUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockPermissionService: jest.Mocked<PermissionService>;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    mockRepository = {
+      searchFragmentContent: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockUserRepository = {
+      findSectorIds: jest.fn().mockResolvedValue([SECTOR_ID]),
+    } as unknown as jest.Mocked<UserRepository>;
+
+    mockPermissionService = {
+      hasPermission: jest.fn().mockResolvedValue(false),
+    } as unknown as jest.Mocked<PermissionService>;
+
+    useCase = new SearchKnowledgeUseCase(
+      mockRepository,
+      mockUserRepository,
+      mockPermissionService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('sector access', () => {
+    it('should search the sectors the user is assigned to', async () => {
+      await useCase.execute({ query: 'remote work', userId: USER_ID });
+
+      expect(mockPermissionService.hasPermission).toHaveBeenCalledWith(
+        USER_ID,
+        'system:admin',
+      );
+      expect(mockRepository.searchFragmentContent).toHaveBeenCalledWith(
+        'remote work',
+        { sectorIds: [SECTOR_ID], limit: 21, offset: 0 },
+      );
+    });
+
+    it('should search one of the user sectors when requested', async () => {
+      await useCase.execute({
+        query: 'remote work',
+        userId: USER_ID,
+        sectorId: SECTOR_ID,
+      });
+
+      expect(mockRepository.searchFragmentContent).toHaveBeenCalledWith(
+        'remote work',
+        expect.objectContaining({ sectorIds: [SECTOR_ID] }),
+      );
+    });
+
+    it('should deny a sector the user is not assigned to', async () => {
+      await expect(
+        useCase.execute({
+          query: 'remote work',
+          userId: USER_ID,
+          sectorId: OTHER_SECTOR_ID,
+        }),
+      ).rejects.toThrow(`Access denied to sector ${OTHER_SECTOR_ID}`);
+      expect(mockRepository.searchFragmentContent).not.toHaveBeenCalled();
+    });
+
+    it('should let admins search every sector', async () => {
+      mockPermissionService.hasPermission.mockResolvedValue(true);
+
+      await useCase.execute({ query: 'remote work', userId: USER_ID });
+      await useCase.execute({
+        query: 'remote work',
+        userId: USER_ID,
+        sectorId: OTHER_SECTOR_ID,
+      });
+
+      const calls = mockRepository.searchFragmentContent.mock.calls;
+      expect(calls[0][1].sectorIds).toBeUndefined();
+      expect(calls[1][1].sectorIds).toEqual([OTHER_SECTOR_ID]);
+      expect(mockUserRepository.findSectorIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('paging', () => {
+    it('should return a page and tell whether more results follow', async () => {
+      mockRepository.searchFragmentContent.mockResolvedValue([
+        createHit('frag-1'),
+        createHit('frag-2'),
+        createHit('frag-3'),
+      ]);
+
+      const result = await useCase.execute({
+        query: '  remote work ',
+        userId: USER_ID,
+        limit: 2,
+        offset: 4,
+      });
+
+      expect(mockRepository.searchFragmentContent).toHaveBeenCalledWith(
+        'remote work',
+        { sectorIds: [SECTOR_ID], limit: 3, offset: 4 },
+      );
+      expect(result).toEqual({
+        query: 'remote work',
+        results: [createHit('frag-1'), createHit('frag-2')],
+        limit: 2,
+        offset: 4,
+        hasMore: true,
+      });
+    });
+
+    it('should report the last page', async () => {
+      mockRepository.searchFragmentContent.mockResolvedValue([
+        createHit('frag-1'),
+      ]);
+
+      const result = await useCase.execute({
+        query: 'remote work',
+        userId: USER_ID,
+      });
+
+      expect(result.results).toHaveLength(1);
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it.each([
+      [{ query: ' a ' }, 'Query must be between 2 and 200 characters'],
+      [
+        { query: 'x'.repeat(201) },
+        'Query must be between 2 and 200 characters',
+      ],
+      [{ sectorId: 'not-a-uuid' }, 'sectorId must be a valid UUID'],
+      [{ limit: 0 }, 'Limit must be between 1 and 50'],
+      [{ limit: 51 }, 'Limit must be between 1 and 50'],
+      [{ offset: -1 }, 'Offset must be between 0 and 1000'],
+    ])('should reject %p', async (overrides, message) => {
+      await expect(
+        useCase.execute({
+          query: 'remote work',
+          userId: USER_ID,
+          ...overrides,
+        }),
+      ).rejects.toThrow(message);
+      expect(mockRepository.searchFragmentContent).not.toHaveBeenCalled();
+    });
+  });
+});
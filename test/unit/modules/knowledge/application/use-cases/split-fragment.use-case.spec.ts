@@ -0,0 +1,114 @@
+import { SplitFragmentUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/split-fragment.use-case';
+import { FragmentCurationService } from '../../../../../../src/modules/knowledge/application/services/fragment-curation.service';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { SourceType } from '@shared/types';
+
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const FRAGMENT_ID = '770e8400-e29b-41d4-a716-446655440001';
+
+function createFragment(id: string, position: number, content: string) {
+  return Fragment.fromPersistence({
+    id,
+    sourceId: SOURCE_ID,
+    sourceVersion: 1,
+    content,
+    position,
+    tokenCount: 8,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('SplitFragmentUseCase', () => {
+  let useCase: SplitFragmentUseCase;
+  let mockCuration: jest.Mocked<FragmentCurationService>;
+  let source: KnowledgeSource;
+  let fragments: Fragment[];
+
+  beforeEach(() => {
+    source = new KnowledgeSource({
+      title: 'Benefits Policy',
+      sectorId: '660e8400-e29b-41d4-a716-446655440001',
+      sourceType: SourceType.PDF,
+      content: 'Vacation days: 25 per year.',
+    });
+    source.id = SOURCE_ID;
+    fragments = [
+      createFragment('frag-0', 0, 'Introduction to the benefits.'),
+      createFragment(
+        FRAGMENT_ID,
+        1,
+        'Vacation days: 25 per year. Remote work: 2 days per week.',
+      ),
+      createFragment('frag-2', 2, 'Parental leave: 16 weeks.'),
+      createFragment('frag-4', 4, 'Sick leave: fully paid.'),
+    ];
+
+    mockCuration = {
+      loadServedFragments: jest.fn().mockResolvedValue({ source, fragments }),
+      findFragments: jest.fn().mockReturnValue([fragments[1]]),
+      applyChanges: jest.fn().mockResolvedValue({
+        fragments: [],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      }),
+    } as unknown as jest.Mocked<FragmentCurationService>;
+
+    useCase = new SplitFragmentUseCase(mockCuration);
+  });
+
+  it('should cut the fragment and shift the following ones', async () => {
+    await useCase.execute({
+      sourceId: SOURCE_ID,
+      fragmentId: FRAGMENT_ID,
+      splitAt: 27,
+    });
+
+    const [{ edited, moved }] = mockCuration.applyChanges.mock.calls.map(
+      (call) => call[1],
+    );
+    expect(
+      edited.map((fragment) => [fragment.position, fragment.content]),
+    ).toEqual([
+      [1, 'Vacation days: 25 per year.'],
+      [2, 'Remote work: 2 days per week.'],
+    ]);
+    expect(edited[0]).toBe(fragments[1]);
+    expect(edited[1].id).toBeUndefined();
+    expect(moved?.map((fragment) => [fragment.id, fragment.position])).toEqual([
+      ['frag-2', 3],
+      ['frag-4', 5],
+    ]);
+    expect(fragments[0].position).toBe(0);
+  });
+
+  it('should not save anything when a part would be too short', async () => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentId: FRAGMENT_ID,
+        splitAt: 52,
+      }),
+    ).rejects.toThrow('Content must be at least 10 characters long');
+    expect(mockCuration.applyChanges).not.toHaveBeenCalled();
+    expect(fragments[2].position).toBe(2);
+  });
+
+  it.each([
+    [{ sourceId: 'not-a-uuid' }, 'SourceId must be a valid UUID'],
+    [{ fragmentId: 'not-a-uuid' }, 'FragmentId must be a valid UUID'],
+    [{ splitAt: 0 }, 'Split offset must be a positive integer'],
+    [{ splitAt: 2.5 }, 'Split offset must be a positive integer'],
+  ])('should reject %p', async (overrides, message) => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentId: FRAGMENT_ID,
+        splitAt: 27,
+        ...overrides,
+      }),
+    ).rejects.toThrow(message);
+    expect(mockCuration.loadServedFragments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+// Mock genkit before any imports
+jest.mock('genkit', () => ({
+  genkit: jest.fn(),
+}));
+
+jest.mock('@genkit-ai/google-genai', () => ({
+  vertexAI: jest.fn(),
+}));
+
+import { Logger } from '@nestjs/common';
+import { StartEmbeddingReindexUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/start-embedding-reindex.use-case';
+import { IEmbeddingIndexRepository } from '../../../../../../src/modules/knowledge/domain/repositories/embedding-index.repository.interface';
+import { IIngestionTaskDispatcher } from '../../../../../../src/modules/knowledge/domain/services/ingestion-task-dispatcher.interface';
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+import { EmbeddingService } from '../../../../../../src/modules/knowledge/infrastructure/services/embedding.service';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+
+describe('StartEmbeddingReindexUseCase', () => {
+  let useCase: StartEmbeddingReindexUseCase;
+  let mockIndexRepository: jest.Mocked<IEmbeddingIndexRepository>;
+  let mockDispatcher: jest.Mocked<IIngestionTaskDispatcher>;
+  let mockEmbeddingService: jest.Mocked<EmbeddingService>;
+  let savedCount: number;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    savedCount = 0;
+
+    mockIndexRepository = {
+      findBySector: jest.fn().mockResolvedValue([]),
+      save: jest.fn().mockImplementation((index: EmbeddingIndex) => {
+        index.id ??= `index-${++savedCount}`;
+        return Promise.resolve(index);
+      }),
+    } as unknown as jest.Mocked<IEmbeddingIndexRepository>;
+
+    mockDispatcher = {
+      dispatchReindex: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IIngestionTaskDispatcher>;
+
+    mockEmbeddingService = {
+      getProfile: jest.fn().mockReturnValue(PROFILE),
+      validateProfile: jest.fn(),
+    } as unknown as jest.Mocked<EmbeddingService>;
+
+    useCase = new StartEmbeddingReindexUseCase(
+      mockIndexRepository,
+      mockDispatcher,
+      mockEmbeddingService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store the initial index and build the second generation', async () => {
+    // Act
+    const index = await useCase.execute({
+      sectorId: SECTOR_ID,
+      dimensions: 768,
+    });
+
+    // Assert
+    const [[initial]] = mockIndexRepository.save.mock.calls;
+    expect(initial.namespace).toBe(SECTOR_ID);
+    expect(initial.isActive()).toBe(true);
+    expect(index.generation).toBe(2);
+    expect(index.status).toBe(EmbeddingIndexStatus.BUILDING);
+    expect(index.getProfile()).toEqual({
+      model: PROFILE.model,
+      dimensions: 768,
+    });
+    expect(mockEmbeddingService.validateProfile).toHaveBeenCalledWith({
+      model: PROFILE.model,
+      dimensions: 768,
+    });
+    expect(mockDispatcher.dispatchReindex).toHaveBeenCalledWith({
+      indexId: index.id,
+    });
+  });
+
+  it('should build the generation after every stored index', async () => {
+    // Arrange
+    const retired = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+    const cancelled = EmbeddingIndex.build(retired, 2, PROFILE);
+    cancelled.cancel();
+    const active = EmbeddingIndex.build(retired, 3, PROFILE);
+    active.activate();
+    retired.retire();
+    mockIndexRepository.findBySector.mockResolvedValue([
+      cancelled,
+      active,
+      retired,
+    ]);
+
+    // Act
+    const index = await useCase.execute({ sectorId: SECTOR_ID });
+
+    // Assert
+    expect(index.generation).toBe(4);
+    expect(mockIndexRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a re-index while another one is running', async () => {
+    // Arrange
+    const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+    mockIndexRepository.findBySector.mockResolvedValue([
+      EmbeddingIndex.build(active, 2, PROFILE),
+      active,
+    ]);
+
+    // Act & Assert
+    await expect(useCase.execute({ sectorId: SECTOR_ID })).rejects.toThrow(
+      'An embedding re-index is already running for this sector',
+    );
+    expect(mockDispatcher.dispatchReindex).not.toHaveBeenCalled();
+  });
+
+  it('should reject a re-index losing the race to a concurrent one', async () => {
+    // Arrange
+    mockIndexRepository.save
+      .mockImplementationOnce((index: EmbeddingIndex) => Promise.resolve(index))
+      .mockRejectedValueOnce(
+        new Error(
+          `Embedding index conflict: the indexes of sector ${SECTOR_ID} were changed concurrently`,
+        ),
+      );
+
+    // Act & Assert
+    await expect(useCase.execute({ sectorId: SECTOR_ID })).rejects.toThrow(
+      'An embedding re-index is already running for this sector',
+    );
+    expect(mockDispatcher.dispatchReindex).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow other storage errors', async () => {
+    // Arrange
+    mockIndexRepository.save.mockRejectedValueOnce(
+      new Error('Connection terminated'),
+    );
+
+    // Act & Assert
+    await expect(useCase.execute({ sectorId: SECTOR_ID })).rejects.toThrow(
+      'Connection terminated',
+    );
+  });
+
+  it('should reject an invalid profile', async () => {
+    // Arrange
+    mockEmbeddingService.validateProfile.mockImplementation(() => {
+      throw new Error('Invalid dimensions: 7');
+    });
+
+    // Act & Assert
+    await expect(
+      useCase.execute({ sectorId: SECTOR_ID, dimensions: 7 }),
+    ).rejects.toThrow('Invalid dimensions: 7');
+    expect(mockIndexRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid sector ID', async () => {
+    // Act & Assert
+    await expect(useCase.execute({ sectorId: 'not-a-uuid' })).rejects.toThrow(
+      'sectorId must be a valid UUID',
+    );
+  });
+
+  it('should mark the build as failed when it cannot be dispatched', async () => {
+    // Arrange
+    mockDispatcher.dispatchReindex.mockRejectedValue(
+      new Error('Failed to dispatch re-index task: quota exceeded'),
+    );
+
+    // Act & Assert
+    await expect(useCase.execute({ sectorId: SECTOR_ID })).rejects.toThrow(
+      'Failed to dispatch re-index task',
+    );
+    const [lastSaved] = mockIndexRepository.save.mock.calls.at(-1)!;
+    expect(lastSaved.status).toBe(EmbeddingIndexStatus.FAILED);
+  });
+});
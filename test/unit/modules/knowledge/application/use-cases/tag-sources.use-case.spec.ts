@@ -0,0 +1,189 @@
+import { Logger } from '@nestjs/common';
+import { TagSourcesUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/tag-sources.use-case';
+import { IKnowledgeRepository } from '../../../../../../src/modules/knowledge/domain/repositories/knowledge.repository.interface';
+import { IVectorStore } from '../../../../../../src/modules/knowledge/domain/services/vector-store.interface';
+import { EmbeddingIndexService } from '../../../../../../src/modules/knowledge/application/services/embedding-index.service';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const SOURCE_ID_1 = '550e8400-e29b-41d4-a716-446655440000';
+const SOURCE_ID_2 = '550e8400-e29b-41d4-a716-446655440002';
+
+function createSource(id: string, tags: string[] = []): KnowledgeSource {
+  const source = new KnowledgeSource({
+    title: 'Vacation Policy',
+    sectorId: SECTOR_ID,
+    sourceType: SourceType.PDF,
+    content: 'Vacation policy: 25 days per year.',
+  });
+  source.id = id;
+  source.setTags(tags);
+  return source;
+}
+
+describe('TagSourcesUseCase', () => {
+  let useCase: TagSourcesUseCase;
+  let mockRepository: jest.Mocked<IKnowledgeRepository>;
+  let mockVectorStore: jest.Mocked<IVectorStore>;
+  let mockEmbeddingIndexService: jest.Mocked<EmbeddingIndexService>;
+  let source1: KnowledgeSource;
+  let source2: KnowledgeSource;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    source1 = createSource(SOURCE_ID_1, ['hr', 'draft']);
+    source2 = createSource(SOURCE_ID_2);
+
+    mockRepository = {
+      findSourcesByIds: jest.fn().mockResolvedValue([source1, source2]),
+      saveSources: jest
+        .fn()
+        .mockImplementation((sources) => Promise.resolve(sources)),
+    } as unknown as jest.Mocked<IKnowledgeRepository>;
+
+    mockVectorStore = {
+      updateMetadataBySourceId: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IVectorStore>;
+
+    mockEmbeddingIndexService = {
+      getVectorNamespaces: jest
+        .fn()
+        .mockImplementation((sectorId: string) => Promise.resolve([sectorId])),
+    } as unknown as jest.Mocked<EmbeddingIndexService>;
+
+    useCase = new TagSourcesUseCase(
+      mockRepository,
+      mockVectorStore,
+      mockEmbeddingIndexService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should add and remove tags, set the category and save every source', async () => {
+    const result = await useCase.execute({
+      sourceIds: [SOURCE_ID_1, SOURCE_ID_2, SOURCE_ID_1],
+      addTags: ['Onboarding'],
+      removeTags: ['draft'],
+      category: 'Policies',
+    });
+
+    expect(mockRepository.findSourcesByIds).toHaveBeenCalledWith([
+      SOURCE_ID_1,
+      SOURCE_ID_2,
+    ]);
+    expect(mockRepository.saveSources).toHaveBeenCalledWith([source1, source2]);
+    expect(result).toEqual({
+      sources: [
+        {
+          sourceId: SOURCE_ID_1,
+          tags: ['hr', 'onboarding'],
+          category: 'Policies',
+        },
+        { sourceId: SOURCE_ID_2, tags: ['onboarding'], category: 'Policies' },
+      ],
+      vectorsUpdated: true,
+    });
+  });
+
+  it('should write the new tags to the vectors of retagged sources only', async () => {
+    await useCase.execute({
+      sourceIds: [SOURCE_ID_1, SOURCE_ID_2],
+      removeTags: ['draft'],
+    });
+
+    expect(mockVectorStore.updateMetadataBySourceId).toHaveBeenCalledTimes(1);
+    expect(mockVectorStore.updateMetadataBySourceId).toHaveBeenCalledWith(
+      SOURCE_ID_1,
+      SECTOR_ID,
+      { tags: ['hr'] },
+    );
+  });
+
+  it('should not touch vectors when only the category changes', async () => {
+    await useCase.execute({ sourceIds: [SOURCE_ID_1], category: 'Policies' });
+
+    expect(mockVectorStore.updateMetadataBySourceId).not.toHaveBeenCalled();
+  });
+
+  it('should replace the tags and clear the category', async () => {
+    source1.setCategory('Policies');
+
+    const result = await useCase.execute({
+      sourceIds: [SOURCE_ID_1],
+      tags: ['Benefits'],
+      category: null,
+    });
+
+    expect(result.sources[0]).toEqual({
+      sourceId: SOURCE_ID_1,
+      tags: ['benefits'],
+      category: null,
+    });
+  });
+
+  it('should still save the sources when the vector update fails', async () => {
+    mockRepository.findSourcesByIds.mockResolvedValue([source1]);
+    mockVectorStore.updateMetadataBySourceId.mockRejectedValueOnce(
+      new Error('Pinecone unavailable'),
+    );
+
+    const result = await useCase.execute({
+      sourceIds: [SOURCE_ID_1],
+      addTags: ['benefits'],
+    });
+
+    expect(mockRepository.saveSources).toHaveBeenCalledWith([source1]);
+    expect(result.vectorsUpdated).toBe(false);
+  });
+
+  it('should change nothing when a source is not found', async () => {
+    mockRepository.findSourcesByIds.mockResolvedValue([source1]);
+
+    await expect(
+      useCase.execute({
+        sourceIds: [SOURCE_ID_1, SOURCE_ID_2],
+        addTags: ['benefits'],
+      }),
+    ).rejects.toThrow(`Knowledge source not found: ${SOURCE_ID_2}`);
+    expect(mockRepository.saveSources).not.toHaveBeenCalled();
+  });
+
+  it('should change nothing when a change is invalid for one source', async () => {
+    source2.setTags(Array.from({ length: 20 }, (_, i) => `tag-${i}`));
+
+    await expect(
+      useCase.execute({
+        sourceIds: [SOURCE_ID_1, SOURCE_ID_2],
+        addTags: ['benefits'],
+      }),
+    ).rejects.toThrow('A source cannot have more than 20 tags');
+    expect(mockRepository.saveSources).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request without changes', async () => {
+    await expect(useCase.execute({ sourceIds: [SOURCE_ID_1] })).rejects.toThrow(
+      'No tag or category change requested',
+    );
+  });
+
+  it('should reject empty, invalid or too many source IDs', async () => {
+    await expect(
+      useCase.execute({ sourceIds: [], addTags: ['hr'] }),
+    ).rejects.toThrow('SourceIds cannot be empty');
+    await expect(
+      useCase.execute({ sourceIds: ['not-a-uuid'], addTags: ['hr'] }),
+    ).rejects.toThrow('SourceId must be a valid UUID: not-a-uuid');
+    await expect(
+      useCase.execute({
+        sourceIds: Array.from({ length: 101 }, () => SOURCE_ID_1),
+        addTags: ['hr'],
+      }),
+    ).rejects.toThrow('Cannot tag more than 100 sources at once');
+  });
+});
@@ -0,0 +1,117 @@
+import { Logger } from '@nestjs/common';
+import { UpdateFragmentUseCase } from '../../../../../../src/modules/knowledge/application/use-cases/update-fragment.use-case';
+import { FragmentCurationService } from '../../../../../../src/modules/knowledge/application/services/fragment-curation.service';
+import { Fragment } from '../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { SourceType } from '@shared/types';
+
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const FRAGMENT_ID = '770e8400-e29b-41d4-a716-446655440001';
+
+describe('UpdateFragmentUseCase', () => {
+  let useCase: UpdateFragmentUseCase;
+  let mockCuration: jest.Mocked<FragmentCurationService>;
+  let source: KnowledgeSource;
+  let fragment: Fragment;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    source = new KnowledgeSource({
+      title: 'Benefits Policy',
+      sectorId: '660e8400-e29b-41d4-a716-446655440001',
+      sourceType: SourceType.PDF,
+      content: 'Vacation days: 25 per year.',
+    });
+    source.id = SOURCE_ID;
+    fragment = Fragment.fromPersistence({
+      id: FRAGMENT_ID,
+      sourceId: SOURCE_ID,
+      sourceVersion: 1,
+      content: 'Vacation | days 25 | per | year',
+      position: 0,
+      tokenCount: 8,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    mockCuration = {
+      loadServedFragments: jest
+        .fn()
+        .mockResolvedValue({ source, fragments: [fragment] }),
+      findFragments: jest.fn().mockReturnValue([fragment]),
+      applyChanges: jest.fn().mockResolvedValue({
+        fragments: [fragment],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      }),
+    } as unknown as jest.Mocked<FragmentCurationService>;
+
+    useCase = new UpdateFragmentUseCase(mockCuration);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should correct the content and re-embed the fragment', async () => {
+    const result = await useCase.execute({
+      sourceId: SOURCE_ID,
+      fragmentId: FRAGMENT_ID,
+      content: 'Vacation days: 25 per year.',
+    });
+
+    expect(mockCuration.loadServedFragments).toHaveBeenCalledWith(SOURCE_ID);
+    expect(mockCuration.findFragments).toHaveBeenCalledWith(
+      { source, fragments: [fragment] },
+      [FRAGMENT_ID],
+    );
+    expect(fragment.content).toBe('Vacation days: 25 per year.');
+    expect(fragment.excluded).toBe(false);
+    expect(mockCuration.applyChanges).toHaveBeenCalledWith(source, {
+      edited: [fragment],
+    });
+    expect(result.vectorsUpdated).toBe(true);
+  });
+
+  it('should exclude the fragment without changing its content', async () => {
+    await useCase.execute({
+      sourceId: SOURCE_ID,
+      fragmentId: FRAGMENT_ID,
+      excluded: true,
+    });
+
+    expect(fragment.excluded).toBe(true);
+    expect(fragment.content).toBe('Vacation | days 25 | per | year');
+    expect(mockCuration.applyChanges).toHaveBeenCalledWith(source, {
+      edited: [fragment],
+    });
+  });
+
+  it('should not save content that is too short', async () => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentId: FRAGMENT_ID,
+        content: 'Too short',
+      }),
+    ).rejects.toThrow('Content must be at least 10 characters long');
+    expect(mockCuration.applyChanges).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ sourceId: 'not-a-uuid' }, 'SourceId must be a valid UUID'],
+    [{ fragmentId: 'not-a-uuid' }, 'FragmentId must be a valid UUID'],
+    [{ excluded: undefined }, 'No content or exclusion change requested'],
+  ])('should reject %p', async (overrides, message) => {
+    await expect(
+      useCase.execute({
+        sourceId: SOURCE_ID,
+        fragmentId: FRAGMENT_ID,
+        excluded: true,
+        ...overrides,
+      }),
+    ).rejects.toThrow(message);
+    expect(mockCuration.loadServedFragments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+const NEW_PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 768 };
+
+function buildNext(): EmbeddingIndex {
+  return EmbeddingIndex.build(
+    EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+    2,
+    NEW_PROFILE,
+  );
+}
+
+describe('EmbeddingIndex Entity', () => {
+  describe('creation', () => {
+    it('should read from the namespace named after the sector initially', () => {
+      // Act
+      const index = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+
+      // Assert
+      expect(index.id).toBeUndefined();
+      expect(index.generation).toBe(1);
+      expect(index.namespace).toBe(SECTOR_ID);
+      expect(index.status).toBe(EmbeddingIndexStatus.ACTIVE);
+      expect(index.getProfile()).toEqual(PROFILE);
+    });
+
+    it('should build the next generation in its own namespace', () => {
+      // Act
+      const index = buildNext();
+
+      // Assert
+      expect(index.generation).toBe(2);
+      expect(index.namespace).toBe(`${SECTOR_ID}--g2`);
+      expect(index.status).toBe(EmbeddingIndexStatus.BUILDING);
+      expect(index.getProfile()).toEqual(NEW_PROFILE);
+      expect(index.processedFragments).toBe(0);
+    });
+
+    it('should reject a generation that is not above the active index', () => {
+      // Act & Assert
+      expect(() =>
+        EmbeddingIndex.build(
+          EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+          1,
+          NEW_PROFILE,
+        ),
+      ).toThrow('Generation must be above the active index (1)');
+    });
+
+    it('should require an embedding model', () => {
+      // Act & Assert
+      expect(() =>
+        EmbeddingIndex.initial(SECTOR_ID, { model: ' ', dimensions: 768 }),
+      ).toThrow('Embedding model is required');
+    });
+
+    it.each([0, -1, 1.5])('should reject dimension %s', (dimensions) => {
+      // Act & Assert
+      expect(() =>
+        EmbeddingIndex.initial(SECTOR_ID, { model: PROFILE.model, dimensions }),
+      ).toThrow('Embedding dimensions must be a positive integer');
+    });
+  });
+
+  describe('namespaces', () => {
+    it.each([1, 2, 12])(
+      'should map the namespace of generation %s back to the sector',
+      (generation) => {
+        // Act
+        const namespace = EmbeddingIndex.namespaceFor(SECTOR_ID, generation);
+
+        // Assert
+        expect(EmbeddingIndex.sectorIdOf(namespace)).toBe(SECTOR_ID);
+      },
+    );
+  });
+
+  describe('build progress', () => {
+    it('should report no progress before the build starts', () => {
+      // Assert
+      expect(buildNext().getProgress()).toBeUndefined();
+    });
+
+    it('should record progress after each source', () => {
+      // Arrange
+      const index = buildNext();
+      index.startBuild(8);
+
+      // Act
+      index.recordProgress('source-1', 2);
+
+      // Assert
+      expect(index.cursor).toBe('source-1');
+      expect(index.processedFragments).toBe(2);
+      expect(index.getProgress()).toBe(25);
+    });
+
+    it('should cap progress at 100 when fragments were added during the build', () => {
+      // Arrange
+      const index = buildNext();
+      index.startBuild(2);
+
+      // Act
+      index.recordProgress('source-1', 3);
+
+      // Assert
+      expect(index.getProgress()).toBe(100);
+    });
+
+    it('should be complete for an empty sector', () => {
+      // Arrange
+      const index = buildNext();
+
+      // Act
+      index.startBuild(0);
+
+      // Assert
+      expect(index.getProgress()).toBe(100);
+    });
+
+    it('should not record progress once the build is over', () => {
+      // Arrange
+      const index = buildNext();
+      index.cancel();
+
+      // Act & Assert
+      expect(() => index.recordProgress('source-1', 1)).toThrow(
+        'Index is not being built (status: CANCELLED)',
+      );
+    });
+  });
+
+  describe('status management', () => {
+    it('should swap a built index with the active one', () => {
+      // Arrange
+      const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const next = buildNext();
+
+      // Act
+      next.activate();
+      active.retire();
+
+      // Assert
+      expect(next.isActive()).toBe(true);
+      expect(next.activatedAt).toBeInstanceOf(Date);
+      expect(active.isRetired()).toBe(true);
+      expect(active.retiredAt).toBeInstanceOf(Date);
+    });
+
+    it('should reactivate a retired index on rollback', () => {
+      // Arrange
+      const index = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      index.retire();
+
+      // Act
+      index.activate();
+
+      // Assert
+      expect(index.isActive()).toBe(true);
+      expect(index.retiredAt).toBeUndefined();
+    });
+
+    it('should not activate a failed index', () => {
+      // Arrange
+      const index = buildNext();
+      index.markAsFailed('Vector dimension 768 does not match the index');
+
+      // Act & Assert
+      expect(index.status).toBe(EmbeddingIndexStatus.FAILED);
+      expect(index.errorMessage).toBe(
+        'Vector dimension 768 does not match the index',
+      );
+      expect(() => index.activate()).toThrow(
+        'Cannot activate an index with status FAILED',
+      );
+    });
+
+    it('should only retire the active index', () => {
+      // Act & Assert
+      expect(() => buildNext().retire()).toThrow(
+        'Cannot retire an index with status BUILDING',
+      );
+    });
+
+    it('should pick the index retired last as the rollback target', () => {
+      // Arrange
+      const older = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      older.retire();
+      older.retiredAt = new Date('2025-01-01');
+      const newer = buildNext();
+      newer.activate();
+      newer.retire();
+      const cancelled = EmbeddingIndex.build(newer, 3, PROFILE);
+      cancelled.cancel();
+
+      // Act
+      const target = EmbeddingIndex.lastRetired([cancelled, newer, older]);
+
+      // Assert
+      expect(target).toBe(newer);
+      expect(EmbeddingIndex.lastRetired([cancelled])).toBeUndefined();
+    });
+  });
+});
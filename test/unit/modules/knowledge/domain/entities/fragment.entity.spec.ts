@@ -89,6 +89,41 @@ describe('Fragment Entity', () => {
       // Assert
       expect(fragment.tokenCount).toBe(42);
     });
+
+    it('should detect the language of the content', () => {
+      // Act
+      const spanish = new Fragment({
+        sourceId: 'source-123',
+        content: 'Los empleados tienen 23 días de vacaciones al año.',
+        position: 0,
+      });
+      const english = new Fragment({
+        sourceId: 'source-123',
+        content: 'Employees are entitled to 23 vacation days per year.',
+        position: 1,
+      });
+
+      // Assert
+      expect(spanish.language).toBe('es');
+      expect(english.language).toBe('en');
+    });
+
+    it('should keep the language stored with a persisted fragment', () => {
+      // Act
+      const fragment = Fragment.fromPersistence({
+        id: 'fragment-1',
+        sourceId: 'source-123',
+        sourceVersion: 1,
+        content: 'Los empleados tienen 23 días de vacaciones al año.',
+        position: 0,
+        tokenCount: 13,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      // Assert
+      expect(fragment.language).toBeUndefined();
+    });
   });
 
   describe('Validation', () => {
@@ -203,6 +238,202 @@ describe('Fragment Entity', () => {
         section: 'Chapter 1',
       });
     });
+
+    it('should expose the heading path from metadata', () => {
+      // Arrange
+      const fragment = new Fragment({
+        sourceId: 'source-123',
+        content: 'Content...',
+        position: 0,
+        metadata: { headingPath: ['Leave', 'Vacations'] },
+      });
+
+      // Act & Assert
+      expect(fragment.getHeadingPath()).toEqual(['Leave', 'Vacations']);
+    });
+
+    it('should ignore a missing or malformed heading path', () => {
+      // Arrange
+      const withoutPath = new Fragment({
+        sourceId: 'source-123',
+        content: 'Content...',
+        position: 0,
+      });
+      const malformed = new Fragment({
+        sourceId: 'source-123',
+        content: 'Content...',
+        position: 0,
+        metadata: { headingPath: 'Leave > Vacations' },
+      });
+
+      // Act & Assert
+      expect(withoutPath.getHeadingPath()).toBeUndefined();
+      expect(malformed.getHeadingPath()).toBeUndefined();
+    });
+  });
+
+  describe('Curation', () => {
+    const createFragment = (excluded = false): Fragment =>
+      new Fragment({
+        sourceId: 'source-123',
+        sourceVersion: 2,
+        content: 'Vacation days: 25 per year. Remote work: 2 days per week.',
+        position: 3,
+        metadata: {
+          startIndex: 100,
+          endIndex: 158,
+          tokens: 15,
+          headingPath: ['Benefits'],
+        },
+        excluded,
+      });
+
+    it('should not be excluded by default', () => {
+      // Act
+      const fragment = new Fragment({
+        sourceId: 'source-123',
+        content: 'Vacation days: 25 per year.',
+        position: 0,
+      });
+
+      // Assert
+      expect(fragment.excluded).toBe(false);
+    });
+
+    it('should replace the content and drop the source offsets', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act
+      fragment.editContent('Vacation days: 25 per year.');
+
+      // Assert
+      expect(fragment.content).toBe('Vacation days: 25 per year.');
+      expect(fragment.tokenCount).toBe(fragment.estimateTokenCount());
+      expect(fragment.metadata).toEqual({
+        tokens: fragment.tokenCount,
+        headingPath: ['Benefits'],
+        edited: true,
+      });
+    });
+
+    it('should detect the language again when the content is corrected', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act
+      fragment.editContent('Los días de vacaciones son 25 al año.');
+
+      // Assert
+      expect(fragment.language).toBe('es');
+    });
+
+    it('should reject corrected content that is too short', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act & Assert
+      expect(() => fragment.editContent('Short')).toThrow(
+        'Content must be at least 10 characters long',
+      );
+      expect(fragment.content).toContain('Remote work');
+    });
+
+    it('should split at an offset into two trimmed parts', () => {
+      // Arrange
+      const fragment = createFragment(true);
+
+      // Act
+      const rest = fragment.splitAt(27);
+
+      // Assert
+      expect(fragment.content).toBe('Vacation days: 25 per year.');
+      expect(rest.content).toBe('Remote work: 2 days per week.');
+      expect(rest.id).toBeUndefined();
+      expect(rest.sourceId).toBe('source-123');
+      expect(rest.sourceVersion).toBe(2);
+      expect(rest.position).toBe(4);
+      expect(rest.excluded).toBe(true);
+      expect(rest.getHeadingPath()).toEqual(['Benefits']);
+      expect(rest.metadata?.edited).toBe(true);
+      expect(fragment.metadata?.edited).toBe(true);
+    });
+
+    it('should reject a split offset outside the content', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act & Assert
+      expect(() => fragment.splitAt(0)).toThrow(
+        'Split offset must be between 1 and 56',
+      );
+      expect(() => fragment.splitAt(57)).toThrow(
+        'Split offset must be between 1 and 56',
+      );
+    });
+
+    it('should leave the fragment unchanged when a part is too short', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act & Assert
+      expect(() => fragment.splitAt(5)).toThrow(
+        'Content must be at least 10 characters long',
+      );
+      expect(fragment.content).toBe(
+        'Vacation days: 25 per year. Remote work: 2 days per week.',
+      );
+    });
+
+    it('should merge the following fragments', () => {
+      // Arrange
+      const fragment = createFragment();
+      const next = new Fragment({
+        sourceId: 'source-123',
+        content: 'Parental leave: 16 weeks.',
+        position: 4,
+        excluded: true,
+      });
+
+      // Act
+      fragment.mergeWith([next]);
+
+      // Assert
+      expect(fragment.content).toBe(
+        'Vacation days: 25 per year. Remote work: 2 days per week.\n\nParental leave: 16 weeks.',
+      );
+      expect(fragment.position).toBe(3);
+      expect(fragment.excluded).toBe(false);
+      expect(fragment.metadata?.edited).toBe(true);
+    });
+
+    it('should stay excluded when merging excluded fragments only', () => {
+      // Arrange
+      const fragment = createFragment(true);
+      const next = new Fragment({
+        sourceId: 'source-123',
+        content: 'Parental leave: 16 weeks.',
+        position: 4,
+        excluded: true,
+      });
+
+      // Act
+      fragment.mergeWith([next]);
+
+      // Assert
+      expect(fragment.excluded).toBe(true);
+    });
+
+    it('should exclude and include again', () => {
+      // Arrange
+      const fragment = createFragment();
+
+      // Act & Assert
+      fragment.setExcluded(true);
+      expect(fragment.excluded).toBe(true);
+      fragment.setExcluded(false);
+      expect(fragment.excluded).toBe(false);
+    });
   });
 
   describe('Business Rules', () => {
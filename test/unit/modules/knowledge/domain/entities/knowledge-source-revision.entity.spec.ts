@@ -0,0 +1,81 @@
+import { KnowledgeSourceRevision } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+
+describe('KnowledgeSourceRevision Entity', () => {
+  it('should create a revision of superseded content', () => {
+    // Arrange
+    const fetchedAt = new Date('2026-02-01T12:00:00.000Z');
+
+    // Act
+    const revision = new KnowledgeSourceRevision({
+      sourceId: 'source-123',
+      version: 2,
+      content: '# Old content',
+      contentHash: 'old-hash',
+      fetchedAt,
+    });
+
+    // Assert
+    expect(revision.id).toBeUndefined();
+    expect(revision.sourceId).toBe('source-123');
+    expect(revision.version).toBe(2);
+    expect(revision.content).toBe('# Old content');
+    expect(revision.contentHash).toBe('old-hash');
+    expect(revision.fetchedAt).toBe(fetchedAt);
+    expect(revision.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should require a source ID', () => {
+    // Act & Assert
+    expect(
+      () =>
+        new KnowledgeSourceRevision({
+          sourceId: '',
+          version: 1,
+          content: 'Content',
+        }),
+    ).toThrow('SourceId is required');
+  });
+
+  it('should require content', () => {
+    // Act & Assert
+    expect(
+      () =>
+        new KnowledgeSourceRevision({
+          sourceId: 'source-123',
+          version: 1,
+          content: ' ',
+        }),
+    ).toThrow('Content is required');
+  });
+
+  it.each([0, -1, 1.5])('should reject version %s', (version) => {
+    // Act & Assert
+    expect(
+      () =>
+        new KnowledgeSourceRevision({
+          sourceId: 'source-123',
+          version,
+          content: 'Content',
+        }),
+    ).toThrow('Version must be a positive integer');
+  });
+
+  it('should hydrate from persistence data', () => {
+    // Arrange
+    const createdAt = new Date('2026-03-01T12:00:00.000Z');
+
+    // Act
+    const revision = KnowledgeSourceRevision.fromPersistence({
+      id: 'revision-1',
+      sourceId: 'source-123',
+      version: 1,
+      content: '# Old content',
+      createdAt,
+    });
+
+    // Assert
+    expect(revision.id).toBe('revision-1');
+    expect(revision.createdAt).toBe(createdAt);
+    expect(revision.contentHash).toBeUndefined();
+  });
+});
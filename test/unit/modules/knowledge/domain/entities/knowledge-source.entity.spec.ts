@@ -1,5 +1,5 @@
 import { KnowledgeSource } from '../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
-import { SourceType } from '@shared/types';
+import { ChunkingStrategy, SourceType } from '@shared/types';
 
 describe('KnowledgeSource Entity', () => {
   describe('Creation', () => {
@@ -63,6 +63,32 @@ describe('KnowledgeSource Entity', () => {
     });
   });
 
+  describe('Chunking Strategy', () => {
+    const baseData = {
+      title: 'Manual de Vacaciones',
+      sectorId: 'sector-123',
+      sourceType: SourceType.MARKDOWN,
+      content: '# Vacaciones\n\nContenido...',
+    };
+
+    it('should use the fixed window by default', () => {
+      expect(new KnowledgeSource(baseData).chunkingStrategy).toBe(
+        ChunkingStrategy.FIXED_WINDOW,
+      );
+    });
+
+    it('should keep the requested strategy', () => {
+      // Act
+      const source = new KnowledgeSource({
+        ...baseData,
+        chunkingStrategy: ChunkingStrategy.STRUCTURED,
+      });
+
+      // Assert
+      expect(source.chunkingStrategy).toBe(ChunkingStrategy.STRUCTURED);
+    });
+  });
+
   describe('Validation', () => {
     it('should throw error if title is empty', () => {
       // Arrange
@@ -232,6 +258,292 @@ describe('KnowledgeSource Entity', () => {
     });
   });
 
+  describe('Processing Progress', () => {
+    const createSource = (): KnowledgeSource =>
+      new KnowledgeSource({
+        title: 'Manual',
+        sectorId: 'sector-123',
+        sourceType: SourceType.PDF,
+        content: 'Content...',
+      });
+
+    it('should record step and progress while processing', () => {
+      // Arrange
+      const source = createSource();
+      source.markAsProcessing();
+
+      // Act
+      source.updateProcessingProgress(30, 'EMBEDDING');
+
+      // Assert
+      expect(source.processingStep).toBe('EMBEDDING');
+      expect(source.processingProgress).toBe(30);
+    });
+
+    it('should clamp progress to 0-100', () => {
+      // Arrange
+      const source = createSource();
+      source.markAsProcessing();
+
+      // Act & Assert
+      source.updateProcessingProgress(150, 'INDEXING');
+      expect(source.processingProgress).toBe(100);
+      source.updateProcessingProgress(-5, 'CHUNKING');
+      expect(source.processingProgress).toBe(0);
+    });
+
+    it('should not allow progress updates when not processing', () => {
+      // Arrange
+      const source = createSource();
+
+      // Act & Assert
+      expect(() => source.updateProcessingProgress(10, 'CHUNKING')).toThrow(
+        'Cannot update progress: source is not being processed',
+      );
+    });
+
+    it('should set progress to 100 when completed', () => {
+      // Arrange
+      const source = createSource();
+      source.markAsProcessing();
+      source.updateProcessingProgress(85, 'INDEXING');
+
+      // Act
+      source.markAsCompleted();
+
+      // Assert
+      expect(source.processingProgress).toBe(100);
+      expect(source.processingStep).toBe('INDEXING');
+    });
+  });
+
+  describe('Content Refresh', () => {
+    const createUrlSource = (): KnowledgeSource =>
+      new KnowledgeSource({
+        title: 'Intranet Page',
+        sectorId: 'sector-123',
+        sourceType: SourceType.URL,
+        content: '# Old content',
+        contentHash: 'old-hash',
+      });
+
+    it('should schedule the next re-crawl from the given time', () => {
+      // Arrange
+      const source = createUrlSource();
+      const from = new Date('2025-01-01T00:00:00Z');
+
+      // Act
+      source.scheduleRefresh(60, from);
+
+      // Assert
+      expect(source.refreshIntervalMinutes).toBe(60);
+      expect(source.nextRefreshAt).toEqual(new Date('2025-01-01T01:00:00Z'));
+      expect(source.isRefreshable()).toBe(true);
+    });
+
+    it('should only schedule re-crawls for URL sources', () => {
+      // Arrange
+      const source = new KnowledgeSource({
+        title: 'Manual',
+        sectorId: 'sector-123',
+        sourceType: SourceType.PDF,
+        content: 'Content...',
+      });
+
+      // Act & Assert
+      expect(() => source.scheduleRefresh(60)).toThrow(
+        'Only URL sources can be refreshed',
+      );
+      expect(source.isRefreshable()).toBe(false);
+    });
+
+    it.each([0, 14, 43201, 30.5])(
+      'should reject a refresh interval of %s minutes',
+      (interval) => {
+        // Arrange
+        const source = createUrlSource();
+
+        // Act & Assert
+        expect(() => source.scheduleRefresh(interval)).toThrow(
+          'Refresh interval must be between 15 and 43200 minutes',
+        );
+      },
+    );
+
+    it('should move the next re-crawl after each check', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.scheduleRefresh(15, new Date('2025-01-01T00:00:00Z'));
+
+      // Act
+      source.recordRefreshCheck(new Date('2025-01-01T00:20:00Z'));
+
+      // Assert
+      expect(source.nextRefreshAt).toEqual(new Date('2025-01-01T00:35:00Z'));
+    });
+
+    it('should not schedule checks for sources without an interval', () => {
+      // Arrange
+      const source = createUrlSource();
+
+      // Act
+      source.recordRefreshCheck(new Date());
+
+      // Assert
+      expect(source.nextRefreshAt).toBeUndefined();
+    });
+
+    it('should replace content and reset the source to PENDING', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.markAsProcessing();
+      source.markAsCompleted();
+
+      // Act
+      source.replaceContent('# New content', 'new-hash');
+
+      // Assert
+      expect(source.content).toBe('# New content');
+      expect(source.contentHash).toBe('new-hash');
+      expect(source.isPending()).toBe(true);
+      expect(source.processingProgress).toBeUndefined();
+      expect(source.processingStep).toBeUndefined();
+    });
+
+    it('should replace the content signature', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.contentSignature = [1, 2, 3];
+
+      // Act
+      source.replaceContent('# New content', 'new-hash', [4, 5, 6]);
+
+      // Assert
+      expect(source.contentSignature).toEqual([4, 5, 6]);
+    });
+
+    it('should clear a stale signature when none is given', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.contentSignature = [1, 2, 3];
+
+      // Act
+      source.replaceContent('# New content', 'new-hash');
+
+      // Assert
+      expect(source.contentSignature).toBeUndefined();
+    });
+
+    it('should start a new version and keep serving the indexed one', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.markAsProcessing();
+      source.markAsCompleted();
+
+      // Act
+      source.replaceContent('# New content', 'new-hash');
+
+      // Assert
+      expect(source.version).toBe(2);
+      expect(source.indexedVersion).toBe(1);
+    });
+
+    it('should index the current version on completion', () => {
+      // Arrange
+      const source = createUrlSource();
+      expect(source.version).toBe(1);
+      expect(source.indexedVersion).toBeUndefined();
+      source.markAsProcessing();
+
+      // Act
+      source.markAsCompleted();
+
+      // Assert
+      expect(source.indexedVersion).toBe(1);
+    });
+
+    it('should not replace content while processing', () => {
+      // Arrange
+      const source = createUrlSource();
+      source.markAsProcessing();
+
+      // Act & Assert
+      expect(() => source.replaceContent('# New', 'new-hash')).toThrow(
+        'Cannot replace content while the source is processing',
+      );
+    });
+
+    it('should not replace content with empty content', () => {
+      // Arrange
+      const source = createUrlSource();
+
+      // Act & Assert
+      expect(() => source.replaceContent('  ', 'hash')).toThrow();
+    });
+  });
+
+  describe('Scanned Pages', () => {
+    const createScannedSource = (): KnowledgeSource =>
+      new KnowledgeSource({
+        title: 'Scanned Manual',
+        sectorId: 'sector-123',
+        sourceType: SourceType.PDF,
+        content: '',
+        awaitingOcr: true,
+      });
+
+    it('should accept empty content until the pages are recognized', () => {
+      // Act
+      const source = createScannedSource();
+
+      // Assert
+      expect(source.content).toBe('');
+      expect(source.getLowConfidencePages()).toEqual([]);
+    });
+
+    it('should apply the recognized content to the current version', () => {
+      // Arrange
+      const source = createScannedSource();
+      source.markAsProcessing();
+
+      // Act
+      source.applyRecognizedContent('Recognized text', 'hash', [1, 2]);
+      source.updateMetadata({
+        ocr: { pages: [], lowConfidencePages: [2, 3] },
+      });
+
+      // Assert
+      expect(source.content).toBe('Recognized text');
+      expect(source.contentHash).toBe('hash');
+      expect(source.contentSignature).toEqual([1, 2]);
+      expect(source.version).toBe(1);
+      expect(source.getLowConfidencePages()).toEqual([2, 3]);
+    });
+
+    it('should only apply recognized content while processing', () => {
+      // Arrange
+      const source = createScannedSource();
+
+      // Act & Assert
+      expect(() =>
+        source.applyRecognizedContent('Recognized text', 'hash'),
+      ).toThrow(
+        'Cannot apply recognized content: source is not being processed',
+      );
+    });
+
+    it('should not apply empty recognized content', () => {
+      // Arrange
+      const source = createScannedSource();
+      source.markAsProcessing();
+
+      // Act & Assert
+      expect(() => source.applyRecognizedContent(' ', 'hash')).toThrow(
+        'Content is required',
+      );
+    });
+  });
+
   describe('Soft Delete', () => {
     it('should mark as deleted (soft delete)', () => {
       // Arrange
@@ -308,4 +620,101 @@ describe('KnowledgeSource Entity', () => {
     });
   });
 
+  describe('Tags and Category', () => {
+    const createSource = (): KnowledgeSource =>
+      new KnowledgeSource({
+        title: 'Manual',
+        sectorId: 'sector-123',
+        sourceType: SourceType.PDF,
+        content: 'Content...',
+      });
+
+    it('should start without tags or category', () => {
+      // Act
+      const source = createSource();
+
+      // Assert
+      expect(source.tags).toEqual([]);
+      expect(source.category).toBeUndefined();
+    });
+
+    it('should normalize tags and drop blanks and duplicates', () => {
+      // Arrange
+      const source = createSource();
+
+      // Act
+      source.setTags([' HR ', 'Human   Resources', 'hr', '']);
+
+      // Assert
+      expect(source.tags).toEqual(['hr', 'human resources']);
+    });
+
+    it('should add and remove tags', () => {
+      // Arrange
+      const source = createSource();
+      source.setTags(['hr', 'draft']);
+
+      // Act
+      source.addTags(['Onboarding', 'hr']);
+      source.removeTags(['DRAFT', 'unknown']);
+
+      // Assert
+      expect(source.tags).toEqual(['hr', 'onboarding']);
+    });
+
+    it('should reject more than 20 tags', () => {
+      // Arrange
+      const source = createSource();
+      const tags = Array.from({ length: 21 }, (_, i) => `tag-${i}`);
+
+      // Act & Assert
+      expect(() => source.setTags(tags)).toThrow(
+        'A source cannot have more than 20 tags',
+      );
+      expect(source.tags).toEqual([]);
+    });
+
+    it('should reject tags longer than 50 characters', () => {
+      // Arrange
+      const source = createSource();
+
+      // Act & Assert
+      expect(() => source.addTags(['a'.repeat(51)])).toThrow(
+        'Tag cannot exceed 50 characters',
+      );
+    });
+
+    it('should set, trim and clear the category', () => {
+      // Arrange
+      const source = createSource();
+
+      // Act & Assert
+      source.setCategory('  Human   Resources ');
+      expect(source.category).toBe('Human Resources');
+
+      source.setCategory('   ');
+      expect(source.category).toBeUndefined();
+    });
+
+    it('should reject a category longer than 100 characters', () => {
+      // Arrange
+      const source = createSource();
+
+      // Act & Assert
+      expect(() => source.setCategory('a'.repeat(101))).toThrow(
+        'Category cannot exceed 100 characters',
+      );
+    });
+
+    it('should not change tags of a deleted source', () => {
+      // Arrange
+      const source = createSource();
+      source.delete();
+
+      // Act & Assert
+      expect(() => source.setTags(['hr'])).toThrow(
+        'Cannot modify deleted source',
+      );
+    });
+  });
 });
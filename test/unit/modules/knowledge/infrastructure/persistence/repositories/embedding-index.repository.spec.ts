@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError } from 'typeorm';
+import { EmbeddingIndexRepository } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/repositories/embedding-index.repository';
+import { EmbeddingIndexModel } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/models/embedding-index.model';
+import { FragmentModel } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/models/fragment.model';
+import {
+  EmbeddingIndex,
+  EmbeddingIndexStatus,
+} from '../../../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+
+const SECTOR_ID = 'sector-1';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+const NEW_PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 768 };
+
+describe('EmbeddingIndexRepository', () => {
+  let repository: EmbeddingIndexRepository;
+
+  const mockIndexRepository = {
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockUpdateBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockTransactionManager = {
+    save: jest.fn((_target: unknown, model: EmbeddingIndexModel) =>
+      Promise.resolve(model),
+    ),
+    createQueryBuilder: jest.fn(() => mockUpdateBuilder),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(
+      (work: (manager: typeof mockTransactionManager) => Promise<unknown>) =>
+        work(mockTransactionManager),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmbeddingIndexRepository,
+        {
+          provide: getRepositoryToken(EmbeddingIndexModel),
+          useValue: mockIndexRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<EmbeddingIndexRepository>(EmbeddingIndexRepository);
+
+    jest.clearAllMocks();
+  });
+
+  describe('findBySector', () => {
+    it('should list the indexes of a sector, newest generation first', async () => {
+      // Arrange
+      const model = new EmbeddingIndexModel();
+      Object.assign(model, {
+        id: 'index-1',
+        sectorId: SECTOR_ID,
+        generation: 1,
+        namespace: SECTOR_ID,
+        embeddingModel: PROFILE.model,
+        embeddingDimensions: PROFILE.dimensions,
+        status: EmbeddingIndexStatus.ACTIVE,
+        totalFragments: null,
+        processedFragments: 0,
+        cursor: null,
+        errorMessage: null,
+        activatedAt: null,
+        retiredAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockIndexRepository.find.mockResolvedValue([model]);
+
+      // Act
+      const result = await repository.findBySector(SECTOR_ID);
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(result[0].isActive()).toBe(true);
+      expect(result[0].totalFragments).toBeUndefined();
+      expect(mockIndexRepository.find).toHaveBeenCalledWith({
+        where: { sectorId: SECTOR_ID },
+        order: { generation: 'DESC' },
+      });
+    });
+  });
+
+  describe('save', () => {
+    it('should report a unique violation as a concurrent change', async () => {
+      // Arrange
+      const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      mockIndexRepository.save.mockRejectedValueOnce(
+        new QueryFailedError('INSERT INTO embedding_indexes', [], {
+          code: '23505',
+          constraint: 'uq_embedding_indexes_sector_building',
+        } as unknown as Error),
+      );
+
+      // Act & Assert
+      await expect(
+        repository.save(EmbeddingIndex.build(active, 2, NEW_PROFILE)),
+      ).rejects.toThrow(
+        `Embedding index conflict: the indexes of sector ${SECTOR_ID} were changed concurrently`,
+      );
+    });
+
+    it('should rethrow other database errors', async () => {
+      // Arrange
+      mockIndexRepository.save.mockRejectedValueOnce(
+        new Error('Connection terminated'),
+      );
+
+      // Act & Assert
+      await expect(
+        repository.save(EmbeddingIndex.initial(SECTOR_ID, PROFILE)),
+      ).rejects.toThrow('Connection terminated');
+    });
+  });
+
+  describe('switchActive', () => {
+    it('should retire the old index before activating the new one, in one transaction', async () => {
+      // Arrange
+      const retired = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      retired.id = 'index-1';
+      const activated = EmbeddingIndex.build(retired, 2, NEW_PROFILE);
+      activated.id = 'index-2';
+      activated.activate();
+      retired.retire();
+
+      // Act
+      const result = await repository.switchActive(activated, retired);
+
+      // Assert
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      const savedIds = mockTransactionManager.save.mock.calls.map(
+        ([, model]) => model.id,
+      );
+      expect(savedIds).toEqual(['index-1', 'index-2']);
+      expect(result.isActive()).toBe(true);
+    });
+
+    it('should record the new profile on the fragments of the sector', async () => {
+      // Arrange
+      const retired = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const activated = EmbeddingIndex.build(retired, 2, NEW_PROFILE);
+      activated.activate();
+      retired.retire();
+
+      // Act
+      await repository.switchActive(activated, retired);
+
+      // Assert
+      expect(mockUpdateBuilder.update).toHaveBeenCalledWith(FragmentModel);
+      expect(mockUpdateBuilder.set).toHaveBeenCalledWith({
+        embeddingModel: NEW_PROFILE.model,
+        embeddingDimensions: NEW_PROFILE.dimensions,
+      });
+      expect(mockUpdateBuilder.where).toHaveBeenCalledWith(
+        expect.stringContaining('sector_id = :sectorId'),
+        { sectorId: SECTOR_ID },
+      );
+    });
+  });
+});
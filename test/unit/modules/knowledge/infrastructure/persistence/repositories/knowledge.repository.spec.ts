@@ -1,11 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository, DataSource, QueryRunner, IsNull } from 'typeorm';
+import {
+  Repository,
+  DataSource,
+  QueryRunner,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  MoreThan,
+  Not,
+} from 'typeorm';
 import { KnowledgeRepository } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/repositories/knowledge.repository';
 import { KnowledgeSourceModel } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/models/knowledge-source.model';
 import { FragmentModel } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/models/fragment.model';
+import { KnowledgeSourceRevisionModel } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/models/knowledge-source-revision.model';
+import { KnowledgeSourceMapper } from '../../../../../../../src/modules/knowledge/infrastructure/persistence/mappers/knowledge-source.mapper';
 import { KnowledgeSource } from '../../../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
 import { Fragment } from '../../../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSourceRevision } from '../../../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
 
 // Import enums separately to ensure they're available
 enum SourceType {
@@ -37,15 +49,46 @@ describe('KnowledgeRepository', () => {
     delete: jest.fn(),
     softDelete: jest.fn(),
     create: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockSourceQueryBuilder),
+  };
+
+  const mockSourceQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockFragmentQueryBuilder = {
+    innerJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    offset: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getRawAndEntities: jest.fn(),
+    getRawMany: jest.fn(),
+    getRawOne: jest.fn(),
   };
 
   const mockFragmentRepository = {
     save: jest.fn(),
     findOne: jest.fn(),
     find: jest.fn(),
+    findAndCount: jest.fn(),
     count: jest.fn(),
     delete: jest.fn(),
     create: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockFragmentQueryBuilder),
+  };
+
+  const mockRevisionRepository = {
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
   };
 
   const mockQueryRunner: Partial<QueryRunner> = {
@@ -61,8 +104,17 @@ describe('KnowledgeRepository', () => {
     } as Partial<QueryRunner['manager']> as QueryRunner['manager'],
   };
 
+  const mockTransactionManager = {
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
   const mockDataSource = {
     createQueryRunner: jest.fn(() => mockQueryRunner),
+    transaction: jest.fn(
+      (work: (manager: typeof mockTransactionManager) => Promise<unknown>) =>
+        work(mockTransactionManager),
+    ),
   };
 
   beforeEach(async () => {
@@ -77,6 +129,10 @@ describe('KnowledgeRepository', () => {
           provide: getRepositoryToken(FragmentModel),
           useValue: mockFragmentRepository,
         },
+        {
+          provide: getRepositoryToken(KnowledgeSourceRevisionModel),
+          useValue: mockRevisionRepository,
+        },
         {
           provide: DataSource,
           useValue: mockDataSource,
@@ -166,6 +222,38 @@ describe('KnowledgeRepository', () => {
       });
     });
 
+    describe('saveSources', () => {
+      it('should save the knowledge sources in one transaction', async () => {
+        // Arrange
+        const models = [
+          createMockSourceModel('source-1', 'sector-123'),
+          createMockSourceModel('source-2', 'sector-123'),
+        ];
+        const sources = models.map((model) =>
+          KnowledgeSourceMapper.toDomain(model),
+        );
+        mockTransactionManager.save.mockResolvedValue(models);
+
+        // Act
+        const result = await repository.saveSources(sources);
+
+        // Assert
+        expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+        expect(mockTransactionManager.save).toHaveBeenCalledWith(
+          KnowledgeSourceModel,
+          [
+            expect.objectContaining({ id: 'source-1' }),
+            expect.objectContaining({ id: 'source-2' }),
+          ],
+        );
+        expect(mockSourceRepository.save).not.toHaveBeenCalled();
+        expect(result.map((source) => source.id)).toEqual([
+          'source-1',
+          'source-2',
+        ]);
+      });
+    });
+
     describe('findSourceById', () => {
       it('should find a knowledge source by ID', async () => {
         // Arrange
@@ -207,6 +295,47 @@ describe('KnowledgeRepository', () => {
       });
     });
 
+    describe('findSourcesByIds', () => {
+      it('should find active sources matching the given IDs', async () => {
+        // Arrange
+        const model = new KnowledgeSourceModel();
+        model.id = 'source-1';
+        model.title = 'Vacation Policy';
+        model.sectorId = 'sector-123';
+        model.sourceType = SourceType.PDF;
+        model.content = 'Test content';
+        model.status = SourceStatus.COMPLETED;
+        model.metadata = {};
+        model.createdAt = new Date();
+        model.updatedAt = new Date();
+        model.deletedAt = null;
+
+        mockSourceRepository.find.mockResolvedValue([model]);
+
+        // Act
+        const result = await repository.findSourcesByIds([
+          'source-1',
+          'source-2',
+        ]);
+
+        // Assert
+        expect(result).toHaveLength(1);
+        expect(result[0].title).toBe('Vacation Policy');
+        expect(mockSourceRepository.find).toHaveBeenCalledWith({
+          where: { id: In(['source-1', 'source-2']), deletedAt: IsNull() },
+        });
+      });
+
+      it('should not query when no IDs are given', async () => {
+        // Act
+        const result = await repository.findSourcesByIds([]);
+
+        // Assert
+        expect(result).toEqual([]);
+        expect(mockSourceRepository.find).not.toHaveBeenCalled();
+      });
+    });
+
     describe('findSourcesBySector', () => {
       it('should find all sources in a sector (excluding deleted)', async () => {
         // Arrange
@@ -282,7 +411,10 @@ describe('KnowledgeRepository', () => {
     describe('softDeleteSource', () => {
       it('should soft delete a source', async () => {
         const sourceId = 'source-123';
-        mockSourceRepository.softDelete.mockResolvedValue({ affected: 1, raw: [] });
+        mockSourceRepository.softDelete.mockResolvedValue({
+          affected: 1,
+          raw: [],
+        });
 
         await repository.softDeleteSource(sourceId);
 
@@ -345,6 +477,266 @@ describe('KnowledgeRepository', () => {
         });
       });
     });
+
+    describe('findSourceByContentHash', () => {
+      it('should find the oldest active source of the sector with the content', async () => {
+        // Arrange
+        const model = createMockSourceModel('source-1', 'sector-1');
+        model.contentHash = 'hash-1';
+        mockSourceRepository.findOne.mockResolvedValue(model);
+
+        // Act
+        const result = await repository.findSourceByContentHash(
+          'sector-1',
+          'hash-1',
+        );
+
+        // Assert
+        expect(result?.id).toBe('source-1');
+        expect(result?.contentHash).toBe('hash-1');
+        expect(mockSourceRepository.findOne).toHaveBeenCalledWith({
+          where: {
+            sectorId: 'sector-1',
+            contentHash: 'hash-1',
+            status: Not(SourceStatus.FAILED),
+            deletedAt: IsNull(),
+          },
+          order: { createdAt: 'ASC' },
+        });
+      });
+
+      it('should return null if the sector does not have the content', async () => {
+        // Arrange
+        mockSourceRepository.findOne.mockResolvedValue(null);
+
+        // Act
+        const result = await repository.findSourceByContentHash(
+          'sector-1',
+          'hash-1',
+        );
+
+        // Assert
+        expect(result).toBeNull();
+      });
+    });
+
+    describe('findSourceSignatures', () => {
+      it('should return the signatures of the active sources of the sector', async () => {
+        // Arrange
+        const model = createMockSourceModel('source-1', 'sector-1');
+        model.contentSignature = [1, 2, 3];
+        mockSourceRepository.find.mockResolvedValue([model]);
+
+        // Act
+        const result = await repository.findSourceSignatures('sector-1');
+
+        // Assert
+        expect(result).toEqual([
+          {
+            sourceId: 'source-1',
+            title: 'Document source-1',
+            signature: [1, 2, 3],
+          },
+        ]);
+        expect(mockSourceRepository.find).toHaveBeenCalledWith({
+          select: { id: true, title: true, contentSignature: true },
+          where: {
+            sectorId: 'sector-1',
+            contentSignature: Not(IsNull()),
+            status: Not(SourceStatus.FAILED),
+            deletedAt: IsNull(),
+          },
+        });
+      });
+    });
+  });
+
+  describe('Re-index Operations', () => {
+    describe('findIndexedSourcePage', () => {
+      it('should page indexed sources of the sector after the cursor', async () => {
+        // Arrange
+        mockSourceRepository.find.mockResolvedValue([
+          createMockSourceModel('source-2', 'sector-1'),
+        ]);
+
+        // Act
+        const result = await repository.findIndexedSourcePage(
+          'sector-1',
+          'source-1',
+          20,
+        );
+
+        // Assert
+        expect(result).toHaveLength(1);
+        expect(mockSourceRepository.find).toHaveBeenCalledWith({
+          where: {
+            sectorId: 'sector-1',
+            indexedVersion: Not(IsNull()),
+            deletedAt: IsNull(),
+            id: MoreThan('source-1'),
+          },
+          order: { id: 'ASC' },
+          take: 20,
+        });
+      });
+
+      it('should start from the first source without a cursor', async () => {
+        // Arrange
+        mockSourceRepository.find.mockResolvedValue([]);
+
+        // Act
+        await repository.findIndexedSourcePage('sector-1', undefined, 20);
+
+        // Assert
+        const [options] = mockSourceRepository.find.mock.calls[0];
+        expect(options.where).not.toHaveProperty('id');
+      });
+    });
+  });
+
+  describe('Refresh Operations', () => {
+    describe('findSourcesDueForRefresh', () => {
+      it('should find completed and failed re-indexed URL sources whose re-crawl is due', async () => {
+        // Arrange
+        const now = new Date('2025-01-01T12:00:00Z');
+        mockSourceRepository.find.mockResolvedValue([
+          createMockSourceModel('source-1', 'sector-1'),
+        ]);
+        const due = {
+          sourceType: SourceType.URL,
+          nextRefreshAt: LessThanOrEqual(now),
+          deletedAt: IsNull(),
+        };
+
+        // Act
+        const result = await repository.findSourcesDueForRefresh(now, 20);
+
+        // Assert
+        expect(result).toHaveLength(1);
+        expect(mockSourceRepository.find).toHaveBeenCalledWith({
+          where: [
+            { ...due, status: 'COMPLETED' },
+            { ...due, status: 'FAILED', indexedVersion: Not(IsNull()) },
+          ],
+          order: { nextRefreshAt: 'ASC' },
+          take: 20,
+        });
+      });
+    });
+
+    describe('findSectorIdsWithSources', () => {
+      it('should return the distinct sectors of active sources', async () => {
+        // Arrange
+        mockSourceQueryBuilder.getRawMany.mockResolvedValue([
+          { sector_id: 'sector-1' },
+          { sector_id: 'sector-2' },
+        ]);
+
+        // Act
+        const result = await repository.findSectorIdsWithSources();
+
+        // Assert
+        expect(result).toEqual(['sector-1', 'sector-2']);
+        expect(mockSourceQueryBuilder.select).toHaveBeenCalledWith(
+          'DISTINCT source.sector_id',
+          'sector_id',
+        );
+        expect(mockSourceQueryBuilder.where).toHaveBeenCalledWith(
+          'source.deleted_at IS NULL',
+        );
+      });
+    });
+
+    describe('saveRevision', () => {
+      it('should save a revision and return it with its ID', async () => {
+        // Arrange
+        const fetchedAt = new Date('2025-01-01T00:00:00Z');
+        const revision = new KnowledgeSourceRevision({
+          sourceId: 'source-1',
+          version: 1,
+          content: '# Old content',
+          contentHash: 'old-hash',
+          fetchedAt,
+        });
+        mockRevisionRepository.save.mockImplementation(
+          (model: KnowledgeSourceRevisionModel) =>
+            Promise.resolve({ ...model, id: 'revision-1' }),
+        );
+
+        // Act
+        const result = await repository.saveRevision(revision);
+
+        // Assert
+        expect(result.id).toBe('revision-1');
+        expect(result.version).toBe(1);
+        expect(result.content).toBe('# Old content');
+        expect(result.contentHash).toBe('old-hash');
+        expect(result.fetchedAt).toEqual(fetchedAt);
+      });
+    });
+
+    describe('findRevisionsBySource', () => {
+      it('should find revisions newest first', async () => {
+        // Arrange
+        mockRevisionRepository.find.mockResolvedValue([
+          {
+            id: 'revision-2',
+            sourceId: 'source-1',
+            version: 2,
+            content: 'v2',
+            contentHash: null,
+            fetchedAt: null,
+            createdAt: new Date(),
+          },
+        ]);
+
+        // Act
+        const result = await repository.findRevisionsBySource('source-1');
+
+        // Assert
+        expect(result).toHaveLength(1);
+        expect(result[0].id).toBe('revision-2');
+        expect(mockRevisionRepository.find).toHaveBeenCalledWith({
+          where: { sourceId: 'source-1' },
+          order: { createdAt: 'DESC' },
+        });
+      });
+    });
+
+    describe('findRevisionBySourceAndVersion', () => {
+      it('should find the revision of a version', async () => {
+        // Arrange
+        mockRevisionRepository.findOne.mockResolvedValue({
+          id: 'revision-1',
+          sourceId: 'source-1',
+          version: 1,
+          content: 'v1',
+          contentHash: null,
+          fetchedAt: null,
+          createdAt: new Date(),
+        });
+
+        // Act
+        const result = await repository.findRevisionBySourceAndVersion(
+          'source-1',
+          1,
+        );
+
+        // Assert
+        expect(result?.version).toBe(1);
+        expect(mockRevisionRepository.findOne).toHaveBeenCalledWith({
+          where: { sourceId: 'source-1', version: 1 },
+        });
+      });
+
+      it('should return null when the version does not exist', async () => {
+        mockRevisionRepository.findOne.mockResolvedValue(null);
+
+        await expect(
+          repository.findRevisionBySourceAndVersion('source-1', 9),
+        ).resolves.toBeNull();
+      });
+    });
   });
 
   describe('Fragment Operations', () => {
@@ -492,6 +884,134 @@ describe('KnowledgeRepository', () => {
       });
     });
 
+    describe('deleteFragmentsByIds', () => {
+      it('should delete the given fragments', async () => {
+        // Act
+        await repository.deleteFragmentsByIds(['frag-1', 'frag-2']);
+
+        // Assert
+        expect(mockFragmentRepository.delete).toHaveBeenCalledWith({
+          id: In(['frag-1', 'frag-2']),
+        });
+      });
+
+      it('should skip the query for an empty list', async () => {
+        // Act
+        await repository.deleteFragmentsByIds([]);
+
+        // Assert
+        expect(mockFragmentRepository.delete).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('activateSourceVersion', () => {
+      it('should save the source and delete other versions in one transaction', async () => {
+        // Arrange
+        const source = new KnowledgeSource({
+          title: 'Policy',
+          sectorId: 'sector-123',
+          sourceType: SourceType.PDF,
+          content: 'Version one',
+        });
+        source.id = 'source-123';
+        source.replaceContent('Version two', 'hash-2');
+        source.markAsProcessing();
+        source.markAsCompleted();
+        mockTransactionManager.save.mockImplementation(
+          (_target: unknown, model: KnowledgeSourceModel) =>
+            Promise.resolve(model),
+        );
+
+        // Act
+        const result = await repository.activateSourceVersion(source);
+
+        // Assert
+        expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+        expect(mockTransactionManager.save).toHaveBeenCalledWith(
+          KnowledgeSourceModel,
+          expect.objectContaining({ version: 2, indexedVersion: 2 }),
+        );
+        expect(mockTransactionManager.delete).toHaveBeenCalledWith(
+          FragmentModel,
+          { sourceId: 'source-123', sourceVersion: Not(2) },
+        );
+        expect(result.indexedVersion).toBe(2);
+      });
+    });
+
+    describe('findFragmentPage', () => {
+      it('should find a page of the fragments of a version', async () => {
+        // Arrange
+        const sourceId = 'source-123';
+        mockFragmentRepository.findAndCount.mockResolvedValue([
+          [
+            createMockFragmentModel('frag-3', sourceId, 2),
+            createMockFragmentModel('frag-4', sourceId, 3),
+          ],
+          12,
+        ]);
+
+        // Act
+        const result = await repository.findFragmentPage(sourceId, 2, 2, 2);
+
+        // Assert
+        expect(mockFragmentRepository.findAndCount).toHaveBeenCalledWith({
+          where: { sourceId, sourceVersion: 2 },
+          order: { position: 'ASC' },
+          skip: 2,
+          take: 2,
+        });
+        expect(result.total).toBe(12);
+        expect(result.fragments.map((fragment) => fragment.id)).toEqual([
+          'frag-3',
+          'frag-4',
+        ]);
+      });
+    });
+
+    describe('updateFragments', () => {
+      it('should delete and save fragments in one transaction', async () => {
+        // Arrange
+        const model = createMockFragmentModel('frag-1', 'source-123');
+        model.excluded = true;
+        const fragment = Fragment.fromPersistence({
+          ...model,
+          metadata: {},
+        });
+        mockTransactionManager.save.mockResolvedValue([model]);
+
+        // Act
+        const result = await repository.updateFragments(
+          [fragment],
+          ['frag-2', 'frag-3'],
+        );
+
+        // Assert
+        expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+        expect(mockTransactionManager.delete).toHaveBeenCalledWith(
+          FragmentModel,
+          { id: In(['frag-2', 'frag-3']) },
+        );
+        expect(mockTransactionManager.save).toHaveBeenCalledWith(
+          FragmentModel,
+          [expect.objectContaining({ id: 'frag-1', excluded: true })],
+        );
+        expect(result[0]).toBeInstanceOf(Fragment);
+        expect(result[0].excluded).toBe(true);
+      });
+
+      it('should not delete anything without IDs', async () => {
+        // Arrange
+        mockTransactionManager.save.mockResolvedValue([]);
+
+        // Act
+        await repository.updateFragments([], []);
+
+        // Assert
+        expect(mockTransactionManager.delete).not.toHaveBeenCalled();
+      });
+    });
+
     describe('countFragmentsBySource', () => {
       it('should count fragments for a source', async () => {
         // Arrange
@@ -509,6 +1029,372 @@ describe('KnowledgeRepository', () => {
         });
       });
     });
+
+    describe('getFragmentUsageBySector', () => {
+      it('should sum the fragments served to search in the sector', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawOne.mockResolvedValue({
+          fragments: '42',
+          tokens: '12600',
+        });
+
+        // Act
+        const result = await repository.getFragmentUsageBySector('sector-1');
+
+        // Assert
+        expect(result).toEqual({ fragments: 42, tokens: 12600 });
+        expect(mockFragmentQueryBuilder.where).toHaveBeenCalledWith(
+          'source.sector_id = :sectorId',
+          { sectorId: 'sector-1' },
+        );
+      });
+
+      it('should report no usage for an empty sector', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawOne.mockResolvedValue({
+          fragments: '0',
+          tokens: null,
+        });
+
+        // Act
+        const result = await repository.getFragmentUsageBySector('sector-1');
+
+        // Assert
+        expect(result).toEqual({ fragments: 0, tokens: 0 });
+      });
+    });
+
+    describe('countFragmentsByLanguage', () => {
+      it('should count the searchable fragments of the sector per language', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([
+          { language: 'es', fragments: '120' },
+          { language: 'en', fragments: '45' },
+        ]);
+
+        // Act
+        const result = await repository.countFragmentsByLanguage('sector-1');
+
+        // Assert
+        expect(result).toEqual([
+          { language: 'es', fragments: 120 },
+          { language: 'en', fragments: 45 },
+        ]);
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'NOT fragment.excluded',
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'fragment.language IS NOT NULL',
+        );
+        expect(mockFragmentQueryBuilder.groupBy).toHaveBeenCalledWith(
+          'fragment.language',
+        );
+      });
+    });
+
+    describe('findFragmentIndexEntries', () => {
+      it('should map fragments of the sector to index entries', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([
+          {
+            id: 'frag-1',
+            source_id: 'source-1',
+            indexed: true,
+            status: 'COMPLETED',
+          },
+          {
+            id: 'frag-2',
+            source_id: 'source-2',
+            indexed: null,
+            status: 'PROCESSING',
+          },
+        ]);
+
+        // Act
+        const result = await repository.findFragmentIndexEntries('sector-1');
+
+        // Assert
+        expect(result).toEqual([
+          {
+            id: 'frag-1',
+            sourceId: 'source-1',
+            indexed: true,
+            processing: false,
+          },
+          {
+            id: 'frag-2',
+            sourceId: 'source-2',
+            indexed: false,
+            processing: true,
+          },
+        ]);
+        expect(mockFragmentQueryBuilder.where).toHaveBeenCalledWith(
+          'source.sector_id = :sectorId',
+          { sectorId: 'sector-1' },
+        );
+      });
+
+      it('should not count excluded fragments as indexed', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([]);
+
+        // Act
+        await repository.findFragmentIndexEntries('sector-1');
+
+        // Assert
+        expect(mockFragmentQueryBuilder.addSelect).toHaveBeenCalledWith(
+          'fragment.source_version = source.indexed_version AND NOT fragment.excluded',
+          'indexed',
+        );
+      });
+    });
+
+    describe('searchFragmentsByText', () => {
+      const sectorId = 'sector-123';
+
+      const createFragmentModel = (id: string): FragmentModel => {
+        const model = new FragmentModel();
+        model.id = id;
+        model.sourceId = 'source-123';
+        model.content = 'Policy POL-12 covers remote work equipment.';
+        model.position = 0;
+        model.tokenCount = 8;
+        model.metadata = null;
+        model.createdAt = new Date();
+        model.updatedAt = new Date();
+        return model;
+      };
+
+      it('should return fragments with their full-text scores', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawAndEntities.mockResolvedValue({
+          entities: [
+            createFragmentModel('frag-1'),
+            createFragmentModel('frag-2'),
+          ],
+          raw: [
+            { fragment_id: 'frag-1', fts_score: '0.42' },
+            { fragment_id: 'frag-2', fts_score: '0.1' },
+          ],
+        });
+
+        // Act
+        const result = await repository.searchFragmentsByText(
+          'What is POL-12?',
+          sectorId,
+          10,
+        );
+
+        // Assert
+        expect(result).toHaveLength(2);
+        expect(result[0].fragment).toBeInstanceOf(Fragment);
+        expect(result[0].fragment.id).toBe('frag-1');
+        expect(result[0].score).toBeCloseTo(0.42);
+        expect(result[1].score).toBeCloseTo(0.1);
+        expect(mockFragmentQueryBuilder.limit).toHaveBeenCalledWith(10);
+      });
+
+      it('should OR sanitized terms and scope the search to the sector', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawAndEntities.mockResolvedValue({
+          entities: [],
+          raw: [],
+        });
+
+        // Act
+        await repository.searchFragmentsByText(
+          "What's POL-12 & a (vacation) policy? policy",
+          sectorId,
+          5,
+        );
+
+        // Assert
+        expect(mockFragmentQueryBuilder.where).toHaveBeenCalledWith(
+          expect.stringContaining('@@'),
+          { tsQuery: 'what | pol | 12 | vacation | policy' },
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'source.sector_id = :sectorId',
+          { sectorId },
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'source.deleted_at IS NULL',
+        );
+      });
+
+      it('should only search fragments of the indexed version', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawAndEntities.mockResolvedValue({
+          entities: [],
+          raw: [],
+        });
+
+        // Act
+        await repository.searchFragmentsByText('vacation policy', sectorId, 5);
+
+        // Assert
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'fragment.source_version = source.indexed_version',
+        );
+      });
+
+      it('should leave out excluded fragments', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawAndEntities.mockResolvedValue({
+          entities: [],
+          raw: [],
+        });
+
+        // Act
+        await repository.searchFragmentsByText('vacation policy', sectorId, 5);
+
+        // Assert
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'NOT fragment.excluded',
+        );
+      });
+
+      it('should scope the search to the filtered sources and tags', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawAndEntities.mockResolvedValue({
+          entities: [],
+          raw: [],
+        });
+
+        // Act
+        await repository.searchFragmentsByText('vacation policy', sectorId, 5, {
+          sourceIds: ['source-123'],
+          tags: ['hr'],
+        });
+
+        // Assert
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'source.id IN (:...sourceIds)',
+          { sourceIds: ['source-123'] },
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'source.tags && ARRAY[:...tags]::text[]',
+          { tags: ['hr'] },
+        );
+      });
+
+      it('should skip the query when no searchable terms remain', async () => {
+        // Act
+        const result = await repository.searchFragmentsByText(
+          '¿? !! a',
+          sectorId,
+          5,
+        );
+
+        // Assert
+        expect(result).toEqual([]);
+        expect(
+          mockFragmentRepository.createQueryBuilder,
+        ).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('searchFragmentContent', () => {
+      const sectorId = 'sector-123';
+      const options = { sectorIds: [sectorId], limit: 21, offset: 20 };
+
+      it('should map rows to hits with HTML-escaped, highlighted snippets', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([
+          {
+            fragment_id: 'frag-1',
+            source_id: 'source-123',
+            source_title: 'Remote Work Policy',
+            sector_id: sectorId,
+            position: 4,
+            headline:
+              'A \uE000remote\uE001 <b>allowance</b> of 30 € … \uE000remote\uE001 & hybrid',
+            fts_score: '0.35',
+          },
+        ]);
+
+        // Act
+        const result = await repository.searchFragmentContent(
+          'remote',
+          options,
+        );
+
+        // Assert
+        expect(result).toEqual([
+          {
+            fragmentId: 'frag-1',
+            sourceId: 'source-123',
+            sourceTitle: 'Remote Work Policy',
+            sectorId,
+            position: 4,
+            snippet:
+              'A <mark>remote</mark> &lt;b&gt;allowance&lt;/b&gt; of 30 € … <mark>remote</mark> &amp; hybrid',
+            score: 0.35,
+          },
+        ]);
+      });
+
+      it('should match all terms of the served fragments in the given sectors', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([]);
+
+        // Act
+        await repository.searchFragmentContent(
+          '"remote work" -office',
+          options,
+        );
+
+        // Assert
+        expect(mockFragmentQueryBuilder.where).toHaveBeenCalledWith(
+          expect.stringContaining("websearch_to_tsquery('simple', :query)"),
+          expect.objectContaining({ query: '"remote work" -office' }),
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'fragment.source_version = source.indexed_version',
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'NOT fragment.excluded',
+        );
+        expect(mockFragmentQueryBuilder.andWhere).toHaveBeenCalledWith(
+          'source.sector_id IN (:...sectorIds)',
+          { sectorIds: [sectorId] },
+        );
+        expect(mockFragmentQueryBuilder.offset).toHaveBeenCalledWith(20);
+        expect(mockFragmentQueryBuilder.limit).toHaveBeenCalledWith(21);
+      });
+
+      it('should search every sector without sectorIds', async () => {
+        // Arrange
+        mockFragmentQueryBuilder.getRawMany.mockResolvedValue([]);
+
+        // Act
+        await repository.searchFragmentContent('remote', {
+          limit: 10,
+          offset: 0,
+        });
+
+        // Assert
+        expect(mockFragmentQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+          'source.sector_id IN (:...sectorIds)',
+          expect.anything(),
+        );
+      });
+
+      it('should skip the query for an empty sector list', async () => {
+        // Act
+        const result = await repository.searchFragmentContent('remote', {
+          sectorIds: [],
+          limit: 10,
+          offset: 0,
+        });
+
+        // Assert
+        expect(result).toEqual([]);
+        expect(
+          mockFragmentRepository.createQueryBuilder,
+        ).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Transaction Support', () => {
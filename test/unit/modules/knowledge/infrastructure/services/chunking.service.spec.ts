@@ -1,4 +1,8 @@
-import { ChunkingService } from '../../../../../../src/modules/knowledge/infrastructure/services/chunking.service';
+import {
+  ChunkingService,
+  formatHeadingPath,
+  withHeadingPath,
+} from '../../../../../../src/modules/knowledge/infrastructure/services/chunking.service';
 
 describe('ChunkingService', () => {
   let service: ChunkingService;
@@ -341,6 +345,214 @@ describe('ChunkingService', () => {
     });
   });
 
+  describe('Structured Chunking', () => {
+    const words = (count: number, word = 'word'): string =>
+      Array.from({ length: count }, () => word).join(' ');
+
+    let structured: ChunkingService;
+
+    beforeEach(() => {
+      structured = new ChunkingService({
+        chunkSize: 40,
+        overlap: 5,
+        minChunkSize: 10,
+      });
+    });
+
+    it('should start a new chunk at each heading and record the heading path', () => {
+      // Arrange
+      const markdown = [
+        '# Leave Policy',
+        words(12, 'intro'),
+        '## Vacations',
+        words(15, 'vacation'),
+        '### Requests',
+        words(15, 'request'),
+        '## Sick Leave',
+        words(15, 'sick'),
+      ].join('\n\n');
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+        ['Leave Policy'],
+        ['Leave Policy', 'Vacations'],
+        ['Leave Policy', 'Vacations', 'Requests'],
+        ['Leave Policy', 'Sick Leave'],
+      ]);
+      expect(chunks[1].content).toBe(words(15, 'vacation'));
+      expect(chunks.map((chunk) => chunk.position)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should pack paragraphs under one heading until the chunk is full', () => {
+      // Arrange
+      const markdown = [
+        '# Guide',
+        words(15, 'a'),
+        words(15, 'b'),
+        words(15, 'c'),
+      ].join('\n\n');
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks.map((chunk) => chunk.content)).toEqual([
+        `${words(15, 'a')}\n\n${words(15, 'b')}`,
+        words(15, 'c'),
+      ]);
+      expect(chunks[0].tokens).toBe(30);
+    });
+
+    it('should keep lists and tables whole', () => {
+      // Arrange
+      const list =
+        '- Open the portal\n- Request the days\n  and wait\n\n- Confirm';
+      const table = '| Type | Days |\n| --- | --- |\n| Vacations | 22 |';
+      const markdown = `# Steps\n\n${words(20)}\n\n${list}\n\n${table}`;
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].content).toBe(`${words(20)}\n\n${list}`);
+      expect(chunks[1].content).toBe(table);
+    });
+
+    it('should split an oversized table between rows and repeat its header', () => {
+      // Arrange
+      const rows = Array.from(
+        { length: 12 },
+        (_, index) => `| item${index} | ${index} |`,
+      );
+      const markdown = `# Rates\n\n| Item | Value |\n| --- | --- |\n${rows.join('\n')}`;
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => {
+        expect(
+          chunk.content.startsWith('| Item | Value |\n| --- | --- |\n'),
+        ).toBe(true);
+        expect(chunk.tokens).toBeLessThanOrEqual(40);
+        expect(chunk.headingPath).toEqual(['Rates']);
+      });
+      const body = chunks.flatMap((chunk) =>
+        chunk.content.split('\n').slice(2),
+      );
+      expect(body).toEqual(rows);
+    });
+
+    it('should split an oversized list between top-level items', () => {
+      // Arrange
+      const items = Array.from(
+        { length: 6 },
+        (_, index) => `- step${index} ${words(8)}\n  - detail${index}`,
+      );
+
+      // Act
+      const chunks = structured.chunkByStructure(items.join('\n'));
+
+      // Assert
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.flatMap((chunk) => chunk.content.split('\n'))).toEqual(
+        items.flatMap((item) => item.split('\n')),
+      );
+    });
+
+    it('should fall back to a word window for an oversized paragraph', () => {
+      // Act
+      const chunks = structured.chunkByStructure(words(100));
+
+      // Assert
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.forEach((chunk) => {
+        expect(chunk.tokens).toBeLessThanOrEqual(45);
+        expect(chunk.headingPath).toEqual([]);
+      });
+    });
+
+    it('should merge small sections and keep their headings in the content', () => {
+      // Arrange
+      const markdown = [
+        '# Policies',
+        '## Vacations',
+        '22 days.',
+        '## Sick Leave',
+        '3 days.',
+      ].join('\n\n');
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks).toEqual([
+        expect.objectContaining({
+          content: '## Vacations\n\n22 days.\n\n## Sick Leave\n\n3 days.',
+          headingPath: ['Policies'],
+        }),
+      ]);
+    });
+
+    it('should merge a small trailing section into the previous chunk', () => {
+      // Arrange
+      const markdown = `# Guide\n\n${words(38)}\n\n# Contact\n\nEnd.`;
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+
+      // Assert
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toBe(
+        `# Guide\n\n${words(38)}\n\n# Contact\n\nEnd.`,
+      );
+      expect(chunks[0].headingPath).toEqual([]);
+    });
+
+    it('should record character offsets in the original text', () => {
+      // Arrange
+      const markdown = `# Title\r\n\r\n${words(15, 'first')}\r\n\r\n# Next\r\n\r\n${words(15, 'second')}`;
+
+      // Act
+      const chunks = structured.chunkByStructure(markdown);
+      const normalized = markdown.replace(/\r\n/g, '\n');
+
+      // Assert
+      chunks.forEach((chunk) => {
+        expect(normalized.slice(chunk.startIndex, chunk.endIndex)).toBe(
+          chunk.content,
+        );
+      });
+    });
+
+    it('should reject empty input', () => {
+      expect(() => structured.chunkByStructure('  \n ')).toThrow(
+        'Text cannot be empty',
+      );
+    });
+  });
+
+  describe('Heading Path Formatting', () => {
+    it('should join headings from the top level down', () => {
+      expect(formatHeadingPath(['Policies', 'Leave', 'Vacations'])).toBe(
+        'Policies > Leave > Vacations',
+      );
+    });
+
+    it('should prepend the heading path to embedding text', () => {
+      expect(withHeadingPath('22 days per year', ['Leave', 'Vacations'])).toBe(
+        'Leave > Vacations\n\n22 days per year',
+      );
+      expect(withHeadingPath('22 days per year', [])).toBe('22 days per year');
+      expect(withHeadingPath('22 days per year')).toBe('22 days per year');
+    });
+  });
+
   describe('Integration with Fragment Creation', () => {
     it('should produce chunks ready for Fragment entity', () => {
       // Arrange
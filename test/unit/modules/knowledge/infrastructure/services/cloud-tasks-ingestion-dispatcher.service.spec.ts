@@ -0,0 +1,100 @@
+const mockCreateTask = jest.fn();
+const mockQueuePath = jest
+  .fn()
+  .mockReturnValue('projects/p/locations/l/queues/q');
+
+jest.mock('@google-cloud/tasks', () => ({
+  CloudTasksClient: jest.fn().mockImplementation(() => ({
+    createTask: mockCreateTask,
+    queuePath: mockQueuePath,
+  })),
+}));
+
+import { CloudTasksIngestionDispatcher } from '../../../../../../src/modules/knowledge/infrastructure/services/cloud-tasks-ingestion-dispatcher.service';
+
+describe('CloudTasksIngestionDispatcher', () => {
+  let dispatcher: CloudTasksIngestionDispatcher;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GCS_PROJECT_ID = 'my-project';
+    process.env.GCP_LOCATION = 'us-central1';
+    process.env.CLOUD_RUN_SERVICE_URL = 'https://api.example.com';
+    process.env.INTERNAL_API_KEY = 'test-internal-key';
+    dispatcher = new CloudTasksIngestionDispatcher();
+  });
+
+  afterEach(() => {
+    delete process.env.GCS_PROJECT_ID;
+    delete process.env.GCP_LOCATION;
+    delete process.env.CLOUD_TASKS_INGESTION_QUEUE;
+    delete process.env.CLOUD_RUN_SERVICE_URL;
+    delete process.env.INTERNAL_API_KEY;
+  });
+
+  it('uses the knowledge-ingestion queue by default', () => {
+    expect(mockQueuePath).toHaveBeenCalledWith(
+      'my-project',
+      'us-central1',
+      'knowledge-ingestion',
+    );
+  });
+
+  it('uses CLOUD_TASKS_INGESTION_QUEUE when configured', () => {
+    process.env.CLOUD_TASKS_INGESTION_QUEUE = 'custom-queue';
+
+    new CloudTasksIngestionDispatcher();
+
+    expect(mockQueuePath).toHaveBeenLastCalledWith(
+      'my-project',
+      'us-central1',
+      'custom-queue',
+    );
+  });
+
+  it('creates a Cloud Task with correct URL and headers', async () => {
+    mockCreateTask.mockResolvedValue([{ name: 'tasks/123' }]);
+
+    await dispatcher.dispatchIngestion({ sourceId: 'source-1' });
+
+    expect(mockCreateTask).toHaveBeenCalledTimes(1);
+    const call = mockCreateTask.mock.calls[0][0];
+    const httpRequest = call.task.httpRequest;
+
+    expect(call.parent).toBe('projects/p/locations/l/queues/q');
+    expect(httpRequest.url).toBe(
+      'https://api.example.com/api/v1/internal/knowledge/sources/source-1/process',
+    );
+    expect(httpRequest.httpMethod).toBe('POST');
+    expect(httpRequest.headers['x-internal-api-key']).toBe('test-internal-key');
+    expect(httpRequest.headers['Content-Type']).toBe('application/json');
+  });
+
+  it('throws when task creation fails', async () => {
+    mockCreateTask.mockRejectedValue(new Error('GCP error'));
+
+    await expect(
+      dispatcher.dispatchIngestion({ sourceId: 'source-1' }),
+    ).rejects.toThrow('Failed to dispatch ingestion task: GCP error');
+  });
+
+  it('creates a Cloud Task for the next re-index batch', async () => {
+    mockCreateTask.mockResolvedValue([{ name: 'tasks/124' }]);
+
+    await dispatcher.dispatchReindex({ indexId: 'index-2' });
+
+    const httpRequest = mockCreateTask.mock.calls[0][0].task.httpRequest;
+    expect(httpRequest.url).toBe(
+      'https://api.example.com/api/v1/internal/knowledge/embedding-indexes/index-2/build',
+    );
+    expect(httpRequest.headers['x-internal-api-key']).toBe('test-internal-key');
+  });
+
+  it('throws when the re-index task cannot be created', async () => {
+    mockCreateTask.mockRejectedValue(new Error('GCP error'));
+
+    await expect(
+      dispatcher.dispatchReindex({ indexId: 'index-2' }),
+    ).rejects.toThrow('Failed to dispatch re-index task: GCP error');
+  });
+});
@@ -0,0 +1,78 @@
+import { CsvTableParser } from '../../../../../../src/modules/knowledge/infrastructure/services/csv-table.parser';
+
+describe('CsvTableParser', () => {
+  let parser: CsvTableParser;
+
+  beforeEach(() => {
+    parser = new CsvTableParser();
+  });
+
+  it('should split comma separated rows and trim cells', () => {
+    // Act
+    const result = parser.parse('name, days\nVacations , 22\r\nSick leave,3\n');
+
+    // Assert
+    expect(result.delimiter).toBe(',');
+    expect(result.rows).toEqual([
+      ['name', 'days'],
+      ['Vacations', '22'],
+      ['Sick leave', '3'],
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, line breaks and escaped quotes', () => {
+    // Act
+    const result = parser.parse(
+      'term,definition\n"Leave, paid","Line one\nline two"\nquote,"He said ""yes"""',
+    );
+
+    // Assert
+    expect(result.rows).toEqual([
+      ['term', 'definition'],
+      ['Leave, paid', 'Line one\nline two'],
+      ['quote', 'He said "yes"'],
+    ]);
+  });
+
+  it('should detect semicolon and tab delimiters from the first line', () => {
+    // Act
+    const semicolon = parser.parse('concepto;importe\nDietas;12,50');
+    const tab = parser.parse('a\tb\n1\t2');
+
+    // Assert
+    expect(semicolon.delimiter).toBe(';');
+    expect(semicolon.rows).toEqual([
+      ['concepto', 'importe'],
+      ['Dietas', '12,50'],
+    ]);
+    expect(tab.delimiter).toBe('\t');
+    expect(tab.rows).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should ignore delimiters inside quotes when detecting', () => {
+    // Act
+    const result = parser.parse('"a;b;c",d\n1,2');
+
+    // Assert
+    expect(result.delimiter).toBe(',');
+  });
+
+  it('should strip a byte order mark and drop empty rows', () => {
+    // Act
+    const result = parser.parse('\uFEFFid,name\n\n , \n1,Ana\n');
+
+    // Assert
+    expect(result.rows).toEqual([
+      ['id', 'name'],
+      ['1', 'Ana'],
+    ]);
+  });
+
+  it('should return no rows for empty input', () => {
+    // Act & Assert
+    expect(parser.parse('').rows).toEqual([]);
+  });
+});
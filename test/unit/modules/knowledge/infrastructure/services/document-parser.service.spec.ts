@@ -1,44 +1,79 @@
+import { Logger } from '@nestjs/common';
 import { DocumentParserService } from '../../../../../../src/modules/knowledge/infrastructure/services/document-parser.service';
+import { StubOcrEngine } from '../../../../../../src/modules/knowledge/infrastructure/services/stub-ocr-engine.service';
 import { SourceType } from '@shared/types';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  createTestDocxBuffer,
+  docxParagraph,
+} from '../../../../../fixtures/create-test-docx';
+
+// Text layer of each page of the mocked PDF
+const DEFAULT_PDF_PAGES = ['Mocked PDF content from buffer'];
+let mockPdfPages = DEFAULT_PDF_PAGES;
 
 // Mock pdf-parse
 jest.mock('pdf-parse', () => {
-  return jest.fn().mockImplementation((buffer: Buffer) => {
-    // Check if buffer looks like a PDF
-    const bufferString = buffer.toString(
-      'utf-8',
-      0,
-      Math.min(buffer.length, 50),
-    );
-
-    // If it doesn't start with %PDF, reject
-    if (!bufferString.startsWith('%PDF')) {
-      return Promise.reject(new Error('Invalid PDF structure'));
-    }
-
-    // Simulate successful PDF parsing
-    return Promise.resolve({
-      text: 'Mocked PDF content from buffer',
-      numpages: 1,
-      numrender: 1,
-      info: {
-        Title: 'Test PDF',
-        Creator: 'Test Creator',
-        Author: 'Test Author',
+  return jest
+    .fn()
+    .mockImplementation(
+      async (
+        buffer: Buffer,
+        options?: { pagerender?: (pageData: unknown) => Promise<string> },
+      ) => {
+        // Check if buffer looks like a PDF
+        const bufferString = buffer.toString(
+          'utf-8',
+          0,
+          Math.min(buffer.length, 50),
+        );
+
+        // If it doesn't start with %PDF, reject
+        if (!bufferString.startsWith('%PDF')) {
+          throw new Error('Invalid PDF structure');
+        }
+
+        // Simulate successful PDF parsing, rendering each page's text layer
+        for (const [index, text] of mockPdfPages.entries()) {
+          await options?.pagerender?.({
+            pageNumber: index + 1,
+            getTextContent: () =>
+              Promise.resolve({
+                items: text
+                  .split('\n')
+                  .filter((line) => line.length > 0)
+                  .map((str, line) => ({
+                    str,
+                    transform: [1, 0, 0, 1, 0, -line],
+                  })),
+              }),
+          });
+        }
+        return {
+          text: mockPdfPages.join('\n\n'),
+          numpages: mockPdfPages.length,
+          numrender: mockPdfPages.length,
+          info: {
+            Title: 'Test PDF',
+            Creator: 'Test Creator',
+            Author: 'Test Author',
+          },
+          metadata: null,
+          version: '1.10.100',
+        };
       },
-      metadata: null,
-      version: '1.10.100',
-    });
-  });
+    );
 });
 
 describe('DocumentParserService', () => {
   let service: DocumentParserService;
+  let ocrEngine: StubOcrEngine;
 
   beforeEach(() => {
-    service = new DocumentParserService();
+    mockPdfPages = DEFAULT_PDF_PAGES;
+    ocrEngine = new StubOcrEngine();
+    service = new DocumentParserService(ocrEngine);
     jest.clearAllMocks();
   });
 
@@ -125,6 +160,146 @@ describe('DocumentParserService', () => {
     });
   });
 
+  describe('Scanned PDF Parsing (OCR)', () => {
+    const TEXT_PAGE = 'This page has a real text layer with enough words';
+
+    afterEach(() => {
+      delete process.env.OCR_LOW_CONFIDENCE_THRESHOLD;
+      jest.restoreAllMocks();
+    });
+
+    it('should recognize image-only pages with the OCR engine', async () => {
+      // Arrange
+      mockPdfPages = [TEXT_PAGE, ''];
+      ocrEngine.setPage(2, 'Texto escaneado de la segunda página', 0.914);
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF);
+
+      // Assert
+      expect(ocrEngine.recognizedPages).toEqual([[2]]);
+      expect(result.content).toBe(
+        `${TEXT_PAGE}\n\nTexto escaneado de la segunda página`,
+      );
+      expect(result.metadata.ocr).toEqual({
+        pages: [{ page: 2, confidence: 0.91, lowConfidence: false }],
+        lowConfidencePages: [],
+      });
+    });
+
+    it('should flag pages recognized with low confidence for review', async () => {
+      // Arrange
+      mockPdfPages = ['', TEXT_PAGE, '12'];
+      ocrEngine.setPage(1, 'Manual de bienvenida', 0.93);
+      ocrEngine.setPage(3, 'Polltica de vacaclones', 0.42);
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF);
+
+      // Assert
+      expect(ocrEngine.recognizedPages).toEqual([[1, 3]]);
+      expect(result.metadata.ocr?.lowConfidencePages).toEqual([3]);
+      expect(result.metadata.ocr?.pages[1]).toEqual({
+        page: 3,
+        confidence: 0.42,
+        lowConfidence: true,
+      });
+    });
+
+    it('should apply the configured confidence threshold', async () => {
+      // Arrange
+      process.env.OCR_LOW_CONFIDENCE_THRESHOLD = '0.95';
+      service = new DocumentParserService(ocrEngine);
+      mockPdfPages = [''];
+      ocrEngine.setPage(1, 'Manual de bienvenida', 0.93);
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF);
+
+      // Assert
+      expect(result.metadata.ocr?.lowConfidencePages).toEqual([1]);
+    });
+
+    it('should not run OCR on PDFs with a text layer', async () => {
+      // Arrange
+      const pdfBuffer = await createMockPdfBuffer('Text');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF);
+
+      // Assert
+      expect(ocrEngine.recognizedPages).toEqual([]);
+      expect(result.metadata.ocr).toBeUndefined();
+    });
+
+    it('should keep the text layer and flag the pages when OCR fails', async () => {
+      // Arrange
+      jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+      jest
+        .spyOn(ocrEngine, 'recognizePdfPages')
+        .mockRejectedValue(new Error('spawn tesseract ENOENT'));
+      mockPdfPages = ['Page 1', TEXT_PAGE];
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF);
+
+      // Assert
+      expect(result.content).toBe(`Page 1\n\n${TEXT_PAGE}`);
+      expect(result.metadata.ocr).toEqual({
+        pages: [{ page: 1, confidence: 0, lowConfidence: true }],
+        lowConfidencePages: [1],
+        error: 'spawn tesseract ENOENT',
+      });
+    });
+
+    it('should list image-only pages instead of recognizing them when OCR is deferred', async () => {
+      // Arrange
+      mockPdfPages = [TEXT_PAGE, ''];
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF, {
+        deferOcr: true,
+      });
+
+      // Assert
+      expect(ocrEngine.recognizedPages).toEqual([]);
+      expect(result.content).toBe(TEXT_PAGE);
+      expect(result.metadata.scannedPages).toEqual([2]);
+      expect(result.metadata.ocr).toBeUndefined();
+    });
+
+    it('should accept a scan without a text layer when OCR is deferred', async () => {
+      // Arrange
+      mockPdfPages = ['', ''];
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act
+      const result = await service.parse(pdfBuffer, SourceType.PDF, {
+        deferOcr: true,
+      });
+
+      // Assert
+      expect(result.content).toBe('');
+      expect(result.metadata.scannedPages).toEqual([1, 2]);
+    });
+
+    it('should reject a scan without recognizable text', async () => {
+      // Arrange
+      mockPdfPages = ['', ''];
+      const pdfBuffer = await createMockPdfBuffer('Scan');
+
+      // Act & Assert
+      await expect(service.parse(pdfBuffer, SourceType.PDF)).rejects.toThrow(
+        'Failed to parse PDF: No readable content found in document',
+      );
+    });
+  });
+
   describe('Markdown Parsing', () => {
     it('should parse markdown content', async () => {
       // Arrange
@@ -272,15 +447,173 @@ function hello() {
     });
   });
 
+  describe('Word (DOCX) Parsing', () => {
+    it('should convert headings, paragraphs and tables to Markdown', async () => {
+      // Arrange
+      const buffer = createTestDocxBuffer(
+        docxParagraph('Vacaciones', '<w:pStyle w:val="Heading1"/>') +
+          docxParagraph('Días por tipo:') +
+          '<w:tbl><w:tr><w:tc>' +
+          docxParagraph('Tipo') +
+          '</w:tc><w:tc>' +
+          docxParagraph('Días') +
+          '</w:tc></w:tr><w:tr><w:tc>' +
+          docxParagraph('Anuales') +
+          '</w:tc><w:tc>' +
+          docxParagraph('22') +
+          '</w:tc></w:tr></w:tbl>',
+        { coreXml: '<dc:title>Política</dc:title>' },
+      );
+
+      // Act
+      const result = await service.parse(buffer, SourceType.DOCX);
+
+      // Assert
+      expect(result.content).toBe(
+        '# Vacaciones\n\nDías por tipo:\n\n| Tipo | Días |\n| --- | --- |\n| Anuales | 22 |',
+      );
+      expect(result.contentForEmbedding).toBe(
+        'Vacaciones Días por tipo: Tipo: Anuales; Días: 22.',
+      );
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          sourceType: SourceType.DOCX,
+          originalSize: buffer.length,
+          info: { Title: 'Política' },
+        }),
+      );
+    });
+
+    it('should throw error for a file that is not a Word document', async () => {
+      // Act & Assert
+      await expect(
+        service.parse(Buffer.from('not a zip'), SourceType.DOCX),
+      ).rejects.toThrow('Failed to parse DOCX: Not a ZIP archive');
+    });
+
+    it('should throw error for a document without text', async () => {
+      // Act & Assert
+      await expect(
+        service.parse(createTestDocxBuffer('<w:p/>'), SourceType.DOCX),
+      ).rejects.toThrow(
+        'Failed to parse DOCX: No readable content found in document',
+      );
+    });
+  });
+
+  describe('HTML Parsing', () => {
+    it('should extract main content and tables from an uploaded HTML file', async () => {
+      // Arrange
+      const html =
+        '<html><head><title>Expenses</title></head><body><nav>Menu</nav><main>' +
+        '<h2>Allowances</h2><table><tr><th>Item</th><th>Amount</th></tr>' +
+        '<tr><td>Meals</td><td>12 &euro;</td></tr></table></main></body></html>';
+
+      // Act
+      const result = await service.parse(
+        Buffer.from(html, 'utf-8'),
+        SourceType.HTML,
+      );
+
+      // Assert
+      expect(result.content).toBe(
+        '## Allowances\n\n| Item | Amount |\n| --- | --- |\n| Meals | 12 &euro; |',
+      );
+      expect(result.contentForEmbedding).toBe(
+        'Allowances Item: Meals; Amount: 12 &euro;.',
+      );
+      expect(result.metadata.sourceType).toBe(SourceType.HTML);
+      expect(result.metadata.pageTitle).toBe('Expenses');
+      expect(result.metadata.canonicalUrl).toBeUndefined();
+    });
+  });
+
+  describe('Plain Text Parsing', () => {
+    it('should keep paragraphs and strip a byte order mark', async () => {
+      // Arrange
+      const text =
+        '\uFEFFFirst paragraph\r\nstill first.\n\n\n\nSecond   paragraph.';
+
+      // Act
+      const result = await service.parse(
+        Buffer.from(text, 'utf-8'),
+        SourceType.TEXT,
+      );
+
+      // Assert
+      expect(result.content.startsWith('First paragraph')).toBe(true);
+      expect(result.content).toContain('\n\n');
+      expect(result.contentForEmbedding).toBe(
+        'First paragraph still first. Second paragraph.',
+      );
+      expect(result.metadata.sourceType).toBe(SourceType.TEXT);
+    });
+
+    it('should not strip Markdown-like syntax from plain text', async () => {
+      // Act
+      const result = await service.parse(
+        Buffer.from('Use *args and # comments', 'utf-8'),
+        SourceType.TEXT,
+      );
+
+      // Assert
+      expect(result.contentForEmbedding).toBe('Use *args and # comments');
+    });
+
+    it('should throw error for whitespace-only text', async () => {
+      // Act & Assert
+      await expect(
+        service.parse(Buffer.from(' \n\t '), SourceType.TEXT),
+      ).rejects.toThrow(
+        'Failed to parse text: Document contains only whitespace',
+      );
+    });
+  });
+
+  describe('CSV Parsing', () => {
+    it('should store the rows as a Markdown table', async () => {
+      // Arrange
+      const csv = 'Concepto;Importe\nDietas;"12,50"\nKilometraje;0,26\n';
+
+      // Act
+      const result = await service.parse(
+        Buffer.from(csv, 'utf-8'),
+        SourceType.CSV,
+      );
+
+      // Assert
+      expect(result.content).toBe(
+        '| Concepto | Importe |\n| --- | --- |\n| Dietas | 12,50 |\n| Kilometraje | 0,26 |',
+      );
+      expect(result.contentForEmbedding).toBe(
+        'Concepto: Dietas; Importe: 12,50. Concepto: Kilometraje; Importe: 0,26.',
+      );
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          sourceType: SourceType.CSV,
+          rows: 2,
+          columns: 2,
+        }),
+      );
+    });
+
+    it('should throw error for a CSV file without rows', async () => {
+      // Act & Assert
+      await expect(
+        service.parse(Buffer.from('\n\n'), SourceType.CSV),
+      ).rejects.toThrow('Failed to parse CSV: No rows found');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should throw error for unsupported source type', async () => {
       // Arrange
       const buffer = Buffer.from('content');
-      const unsupportedType = 'DOCX' as SourceType;
+      const unsupportedType = 'XLSX' as SourceType;
 
       // Act & Assert
       await expect(service.parse(buffer, unsupportedType)).rejects.toThrow(
-        'Unsupported source type: DOCX',
+        'Unsupported source type: XLSX',
       );
     });
 
@@ -356,6 +689,167 @@ function hello() {
     });
   });
 
+  describe('Web Page (URL) Parsing', () => {
+    const PAGE_URL = 'https://example.com/handbook/vacations?ref=nav';
+    const createHtmlBuffer = (body: string, head = ''): Buffer =>
+      Buffer.from(
+        `<!DOCTYPE html><html><head><title>Vacation Policy</title>${head}</head><body>${body}</body></html>`,
+        'utf-8',
+      );
+
+    it('should extract main content with headings as Markdown', async () => {
+      // Arrange
+      const buffer = createHtmlBuffer(
+        '<nav><a href="/">Home</a></nav>' +
+          '<main><h1>Vacations</h1><p>Request days <strong>15 days</strong> ahead.</p>' +
+          '<h2>Approval</h2><p>Your manager approves requests.</p></main>' +
+          '<footer>© Company</footer>',
+      );
+
+      // Act
+      const result = await service.parse(buffer, SourceType.URL, {
+        pageUrl: PAGE_URL,
+      });
+
+      // Assert
+      expect(result.content).toBe(
+        '# Vacations\n\nRequest days 15 days ahead.\n\n## Approval\n\nYour manager approves requests.',
+      );
+      expect(result.contentForEmbedding).toBe(
+        'Vacations Request days 15 days ahead. Approval Your manager approves requests.',
+      );
+      expect(result.metadata.sourceType).toBe(SourceType.URL);
+      expect(result.metadata.pageTitle).toBe('Vacation Policy');
+    });
+
+    it('should resolve a relative canonical link against the page URL', async () => {
+      // Arrange
+      const buffer = createHtmlBuffer(
+        '<p>Some readable content</p>',
+        '<link rel="canonical" href="/handbook/vacations">',
+      );
+
+      // Act
+      const result = await service.parse(buffer, SourceType.URL, {
+        pageUrl: PAGE_URL,
+      });
+
+      // Assert
+      expect(result.metadata.canonicalUrl).toBe(
+        'https://example.com/handbook/vacations',
+      );
+    });
+
+    it('should fall back to the page URL when no canonical link is declared', async () => {
+      // Arrange
+      const buffer = createHtmlBuffer('<p>Some readable content</p>');
+
+      // Act
+      const result = await service.parse(buffer, SourceType.URL, {
+        pageUrl: PAGE_URL,
+      });
+
+      // Assert
+      expect(result.metadata.canonicalUrl).toBe(PAGE_URL);
+    });
+
+    it('should reproduce contentForEmbedding from stored content', async () => {
+      // Arrange
+      const parsed = await service.parse(
+        createHtmlBuffer('<h2>Title</h2><ul><li>One</li><li>Two</li></ul>'),
+        SourceType.URL,
+      );
+
+      // Act
+      const result = service.toEmbeddingText(parsed.content, SourceType.URL);
+
+      // Assert
+      expect(result).toBe(parsed.contentForEmbedding);
+    });
+
+    it('should throw error for a page without readable content', async () => {
+      // Arrange
+      const buffer = createHtmlBuffer('<script>var x = 1;</script>');
+
+      // Act & Assert
+      await expect(service.parse(buffer, SourceType.URL)).rejects.toThrow(
+        'Failed to parse HTML: No readable content found in page',
+      );
+    });
+  });
+
+  describe('Embedding Text From Stored Content', () => {
+    it('should reproduce contentForEmbedding for Markdown', async () => {
+      // Arrange
+      const markdown = '# Header\n\n**Bold** and *italic* text.\n\n- item';
+      const parsed = await service.parse(
+        Buffer.from(markdown, 'utf-8'),
+        SourceType.MARKDOWN,
+      );
+
+      // Act
+      const result = service.toEmbeddingText(
+        parsed.content,
+        SourceType.MARKDOWN,
+      );
+
+      // Assert
+      expect(result).toBe(parsed.contentForEmbedding);
+    });
+
+    it('should reproduce contentForEmbedding for PDF', async () => {
+      // Arrange
+      const parsed = await service.parse(
+        Buffer.from('%PDF-1.4 test'),
+        SourceType.PDF,
+      );
+
+      // Act
+      const result = service.toEmbeddingText(parsed.content, SourceType.PDF);
+
+      // Assert
+      expect(result).toBe(parsed.contentForEmbedding);
+    });
+
+    it('should collapse whitespace without stripping syntax for non-Markdown', () => {
+      // Act
+      const result = service.toEmbeddingText(
+        'Line **one**\n\n\tLine two',
+        SourceType.PDF,
+      );
+
+      // Assert
+      expect(result).toBe('Line **one** Line two');
+    });
+  });
+
+  describe('Embedding Text For Tables', () => {
+    it('should reproduce contentForEmbedding for CSV', async () => {
+      // Arrange
+      const parsed = await service.parse(
+        Buffer.from('a,b\n1,2', 'utf-8'),
+        SourceType.CSV,
+      );
+
+      // Act
+      const result = service.toEmbeddingText(parsed.content, SourceType.CSV);
+
+      // Assert
+      expect(result).toBe(parsed.contentForEmbedding);
+    });
+
+    it('should flatten Markdown tables into header/value sentences', () => {
+      // Act
+      const result = service.toEmbeddingText(
+        '# Rates\n\n| Zone | **Rate** |\n| --- | --- |\n| A | 10 |',
+        SourceType.MARKDOWN,
+      );
+
+      // Assert
+      expect(result).toBe('Rates Zone: A; Rate: 10.');
+    });
+  });
+
   describe('Utility Methods', () => {
     it('should detect if buffer is likely a PDF', () => {
       // Arrange
@@ -0,0 +1,158 @@
+import { DocxContentExtractor } from '../../../../../../src/modules/knowledge/infrastructure/services/docx-content-extractor';
+import {
+  createTestDocxBuffer,
+  createTestZipBuffer,
+  docxParagraph,
+} from '../../../../../fixtures/create-test-docx';
+
+const HEADING_STYLES =
+  '<w:style w:type="paragraph" w:styleId="Ttulo1"><w:name w:val="heading 1"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Ttulo2"><w:name w:val="heading 2"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Puesto"><w:name w:val="Title"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Apartado"><w:name w:val="Apartado"/><w:pPr><w:outlineLvl w:val="2"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Normal"><w:name w:val="Normal"/></w:style>';
+
+describe('DocxContentExtractor', () => {
+  let extractor: DocxContentExtractor;
+
+  beforeEach(() => {
+    extractor = new DocxContentExtractor();
+  });
+
+  describe('Headings', () => {
+    it('should resolve localized heading style IDs through styles.xml', async () => {
+      // Arrange
+      const buffer = createTestDocxBuffer(
+        docxParagraph('Manual', '<w:pStyle w:val="Puesto"/>') +
+          docxParagraph('Vacaciones', '<w:pStyle w:val="Ttulo1"/>') +
+          docxParagraph('Solicitud', '<w:pStyle w:val="Ttulo2"/>') +
+          docxParagraph('Plazos', '<w:pStyle w:val="Apartado"/>') +
+          docxParagraph('Texto normal.', '<w:pStyle w:val="Normal"/>'),
+        { stylesXml: HEADING_STYLES },
+      );
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.text).toBe(
+        '# Manual\n\n# Vacaciones\n\n## Solicitud\n\n### Plazos\n\nTexto normal.',
+      );
+    });
+
+    it('should fall back to HeadingN style IDs and paragraph outline levels', async () => {
+      // Arrange
+      const buffer = createTestDocxBuffer(
+        docxParagraph('Scope', '<w:pStyle w:val="Heading3"/>') +
+          docxParagraph('Details', '<w:outlineLvl w:val="1"/>') +
+          docxParagraph('Body', '<w:outlineLvl w:val="9"/>'),
+      );
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.text).toBe('### Scope\n\n## Details\n\nBody');
+    });
+  });
+
+  describe('Paragraph text', () => {
+    it('should join runs, turn tabs and breaks into spaces and decode entities', async () => {
+      // Arrange
+      const buffer = createTestDocxBuffer(
+        '<w:p><w:r><w:t>Costes</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">I+D &amp; </w:t></w:r>' +
+          '<w:r><w:br/><w:t>otros</w:t></w:r></w:p><w:p/><w:p><w:pPr><w:jc w:val="center"/></w:pPr></w:p>',
+      );
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.text).toBe('Costes I+D & otros');
+    });
+
+    it('should render numbered paragraphs as list items indented per level', async () => {
+      // Arrange
+      const numbering = (level: number): string =>
+        `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`;
+      const buffer = createTestDocxBuffer(
+        docxParagraph('Requisitos:') +
+          docxParagraph('Antigüedad', numbering(0)) +
+          docxParagraph('Un año', numbering(1)) +
+          docxParagraph('Aprobación', numbering(0)) +
+          docxParagraph('Fin.'),
+      );
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.text).toBe(
+        'Requisitos:\n\n- Antigüedad\n  - Un año\n- Aprobación\n\nFin.',
+      );
+    });
+  });
+
+  describe('Tables', () => {
+    it('should convert tables to Markdown in document order', async () => {
+      // Arrange
+      const cell = (text: string): string =>
+        `<w:tc><w:tcPr><w:tcW w:w="2000"/></w:tcPr>${docxParagraph(text)}</w:tc>`;
+      const buffer = createTestDocxBuffer(
+        docxParagraph('Antes') +
+          '<w:tbl><w:tblPr/>' +
+          `<w:tr>${cell('Tipo')}${cell('Días')}</w:tr>` +
+          `<w:tr>${cell('Vacaciones')}${cell('22')}</w:tr>` +
+          '</w:tbl>' +
+          docxParagraph('Después'),
+      );
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.text).toBe(
+        'Antes\n\n| Tipo | Días |\n| --- | --- |\n| Vacaciones | 22 |\n\nDespués',
+      );
+    });
+  });
+
+  describe('Document properties', () => {
+    it('should read title and author from docProps/core.xml', async () => {
+      // Arrange
+      const buffer = createTestDocxBuffer(docxParagraph('Body'), {
+        coreXml:
+          '<dc:title>Política de RRHH</dc:title><dc:creator>Ana &amp; Luis</dc:creator>',
+      });
+
+      // Act
+      const result = await extractor.extract(buffer);
+
+      // Assert
+      expect(result.info).toEqual({
+        Title: 'Política de RRHH',
+        Author: 'Ana & Luis',
+      });
+    });
+
+    it('should return empty info when properties are missing', async () => {
+      // Act
+      const result = await extractor.extract(
+        createTestDocxBuffer(docxParagraph('Body')),
+      );
+
+      // Assert
+      expect(result.info).toEqual({});
+    });
+  });
+
+  it('should reject archives without word/document.xml', async () => {
+    // Arrange
+    const buffer = createTestZipBuffer({ 'xl/workbook.xml': '<workbook/>' });
+
+    // Act & Assert
+    await expect(extractor.extract(buffer)).rejects.toThrow(
+      'Not a Word document (word/document.xml missing)',
+    );
+  });
+});
@@ -345,6 +345,35 @@ describe('EmbeddingService', () => {
         },
       });
     });
+
+    it('should embed with the given profile instead of the configured one', async () => {
+      // Arrange
+      const profile = { model: 'vertexai/text-embedding-005', dimensions: 768 };
+      mockEmbedFn.mockResolvedValue([{ embedding: Array(768).fill(0.1) }]);
+
+      // Act
+      await service.generateDocumentEmbeddings(['Test text'], profile);
+
+      // Assert
+      expect(mockEmbedFn).toHaveBeenCalledWith({
+        embedder: 'vertexai/text-embedding-005',
+        content: 'Test text',
+        options: {
+          outputDimensionality: 768,
+          taskType: 'RETRIEVAL_DOCUMENT',
+        },
+      });
+    });
+
+    it('should reject an unsupported profile', () => {
+      // Act & Assert
+      expect(() =>
+        service.validateProfile({ model: 'vertexai/x', dimensions: 512 }),
+      ).toThrow('Invalid dimensions');
+      expect(() =>
+        service.validateProfile({ model: ' ', dimensions: 768 }),
+      ).toThrow('Embedding model cannot be empty');
+    });
   });
 
   describe('Performance', () => {
@@ -0,0 +1,119 @@
+import { HtmlContentExtractor } from '../../../../../../src/modules/knowledge/infrastructure/services/html-content-extractor';
+
+describe('HtmlContentExtractor', () => {
+  let extractor: HtmlContentExtractor;
+
+  beforeEach(() => {
+    extractor = new HtmlContentExtractor();
+  });
+
+  describe('Title and canonical link', () => {
+    it('should extract the decoded page title', () => {
+      // Act
+      const result = extractor.extract(
+        '<html><head><title>\n  Terms &amp; Conditions </title></head><body><p>Text</p></body></html>',
+      );
+
+      // Assert
+      expect(result.title).toBe('Terms & Conditions');
+    });
+
+    it('should extract the canonical href regardless of attribute order', () => {
+      // Act
+      const result = extractor.extract(
+        '<head><link href=\'https://example.com/a\' rel=\'Canonical\'><link rel="stylesheet" href="/s.css"></head>',
+      );
+
+      // Assert
+      expect(result.canonicalHref).toBe('https://example.com/a');
+    });
+
+    it('should leave title and canonical undefined when missing', () => {
+      // Act
+      const result = extractor.extract('<p>Text only</p>');
+
+      // Assert
+      expect(result.title).toBeUndefined();
+      expect(result.canonicalHref).toBeUndefined();
+    });
+  });
+
+  describe('Main content', () => {
+    it('should prefer <main> over the rest of the body', () => {
+      // Act
+      const result = extractor.extract(
+        '<body><header><h1>Site name</h1></header><main><h1>Article</h1><p>Body text</p></main><aside>Related</aside></body>',
+      );
+
+      // Assert
+      expect(result.text).toBe('# Article\n\nBody text');
+    });
+
+    it('should fall back to <article> when there is no <main>', () => {
+      // Act
+      const result = extractor.extract(
+        '<body><p>Cookie banner</p><article><header><h1>Post</h1></header><p>Post body</p></article></body>',
+      );
+
+      // Assert
+      expect(result.text).toBe('# Post\n\nPost body');
+    });
+
+    it('should drop page chrome, scripts and styles from the body', () => {
+      // Act
+      const result = extractor.extract(
+        '<body><header>Logo</header><nav><ul><li>Menu</li></ul></nav>' +
+          '<style>p { color: red; }</style><script>track("<p>");</script>' +
+          '<div><p>Useful text</p></div><form><button>Send</button></form><footer>Footer</footer></body>',
+      );
+
+      // Assert
+      expect(result.text).toBe('Useful text');
+    });
+
+    it('should remove nested boilerplate elements whole', () => {
+      // Act
+      const result = extractor.extract(
+        '<body><nav>Outer <nav>Inner</nav> still nav</nav><p>Content</p></body>',
+      );
+
+      // Assert
+      expect(result.text).toBe('Content');
+    });
+
+    it('should preserve heading levels and list items', () => {
+      // Act
+      const result = extractor.extract(
+        '<main><h2 class="x">Steps <em>to follow</em></h2><ol><li>First</li><li>Second</li></ol><h3>Notes</h3><p>Line one<br>Line two</p></main>',
+      );
+
+      // Assert
+      expect(result.text).toBe(
+        '## Steps to follow\n\n- First\n\n- Second\n\n### Notes\n\nLine one\nLine two',
+      );
+    });
+
+    it('should convert tables to Markdown tables', () => {
+      // Act
+      const result = extractor.extract(
+        '<main><p>Rates</p><table class="t"><thead><tr><th>Zone</th><th>Price</th></tr></thead>' +
+          '<tbody><tr><td><b>A</b></td><td>10 | 12</td></tr><tr><td>B</td></tr></tbody></table></main>',
+      );
+
+      // Assert
+      expect(result.text).toBe(
+        'Rates\n\n| Zone | Price |\n| --- | --- |\n| A | 10 \\| 12 |\n| B | |',
+      );
+    });
+
+    it('should decode entities after removing tags', () => {
+      // Act
+      const result = extractor.extract(
+        '<p>5 &lt; 6 &amp;&nbsp;caf&#233; &#x2014; &unknown;</p><!-- <p>hidden</p> -->',
+      );
+
+      // Assert
+      expect(result.text).toBe('5 < 6 & café — &unknown;');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpWebPageFetcher } from '../../../../../../src/modules/knowledge/infrastructure/services/http-web-page-fetcher.service';
+
+const PAGE_HTML = '<html><body><h1>Stub page</h1></body></html>';
+
+describe('HttpWebPageFetcher', () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalAllowPrivateHosts = process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS;
+
+  beforeAll(async () => {
+    // Local stub server
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case '/page':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(PAGE_HTML);
+          break;
+        case '/moved':
+          res.writeHead(301, { Location: '/page' });
+          res.end();
+          break;
+        case '/loop':
+          res.writeHead(302, { Location: '/loop' });
+          res.end();
+          break;
+        case '/json':
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end('{}');
+          break;
+        default:
+          res.writeHead(404, { 'Content-Type': 'text/html' });
+          res.end('Not found');
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    if (originalAllowPrivateHosts === undefined) {
+      delete process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS;
+    } else {
+      process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS = originalAllowPrivateHosts;
+    }
+  });
+
+  describe('with private hosts allowed', () => {
+    let fetcher: HttpWebPageFetcher;
+
+    beforeEach(() => {
+      process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS = 'true';
+      fetcher = new HttpWebPageFetcher();
+    });
+
+    it('should fetch an HTML page', async () => {
+      // Act
+      const page = await fetcher.fetch(`${baseUrl}/page`);
+
+      // Assert
+      expect(page.url).toBe(`${baseUrl}/page`);
+      expect(page.html).toBe(PAGE_HTML);
+      expect(page.contentType).toContain('text/html');
+      expect(page.fetchedAt).toBeInstanceOf(Date);
+    });
+
+    it('should follow redirects and report the final URL', async () => {
+      // Act
+      const page = await fetcher.fetch(`${baseUrl}/moved`);
+
+      // Assert
+      expect(page.url).toBe(`${baseUrl}/page`);
+      expect(page.html).toBe(PAGE_HTML);
+    });
+
+    it('should stop after too many redirects', async () => {
+      // Act & Assert
+      await expect(fetcher.fetch(`${baseUrl}/loop`)).rejects.toThrow(
+        'Failed to fetch URL: Too many redirects',
+      );
+    });
+
+    it('should reject error responses', async () => {
+      // Act & Assert
+      await expect(fetcher.fetch(`${baseUrl}/missing`)).rejects.toThrow(
+        'Failed to fetch URL: HTTP 404',
+      );
+    });
+
+    it('should reject non-HTML content', async () => {
+      // Act & Assert
+      await expect(fetcher.fetch(`${baseUrl}/json`)).rejects.toThrow(
+        'Unsupported content type "application/json"',
+      );
+    });
+
+    it('should reject unsupported protocols', async () => {
+      // Act & Assert
+      await expect(fetcher.fetch('file:///etc/passwd')).rejects.toThrow(
+        'Failed to fetch URL: Unsupported protocol: file:',
+      );
+    });
+  });
+
+  describe('with private hosts refused (default)', () => {
+    let fetcher: HttpWebPageFetcher;
+
+    beforeEach(() => {
+      delete process.env.URL_FETCH_ALLOW_PRIVATE_HOSTS;
+      fetcher = new HttpWebPageFetcher();
+    });
+
+    it.each([
+      'http://127.0.0.1/page',
+      'http://10.0.0.5/',
+      'http://169.254.169.254/latest/meta-data',
+      'http://192.168.1.1/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+    ])('should refuse %s', async (url) => {
+      // Act & Assert
+      await expect(fetcher.fetch(url)).rejects.toThrow(
+        'Failed to fetch URL: Host not allowed',
+      );
+    });
+
+    it('should refuse the local stub server', async () => {
+      // Act & Assert
+      await expect(fetcher.fetch(`${baseUrl}/page`)).rejects.toThrow(
+        'Host not allowed',
+      );
+    });
+  });
+});
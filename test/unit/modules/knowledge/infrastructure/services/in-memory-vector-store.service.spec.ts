@@ -0,0 +1,211 @@
+import { InMemoryVectorStore } from '@modules/knowledge/infrastructure/services/in-memory-vector-store.service';
+import type {
+  VectorUpsertInput,
+  VectorSearchFilter,
+} from '@modules/knowledge/domain/services/vector-store.interface';
+import { SourceType } from '@shared/types';
+
+const SECTOR_ID = 'sector-123';
+const OTHER_SECTOR_ID = 'sector-456';
+const SOURCE_ID = 'source-1';
+
+function createInput(
+  id: string,
+  embedding: number[],
+  overrides: Partial<VectorUpsertInput['metadata']> = {},
+): VectorUpsertInput {
+  return {
+    id,
+    embedding,
+    metadata: {
+      sourceId: SOURCE_ID,
+      sectorId: SECTOR_ID,
+      content: `Content of ${id}`,
+      position: 0,
+      tokenCount: 10,
+      ...overrides,
+    },
+  };
+}
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore();
+  });
+
+  describe('vectorSearch', () => {
+    beforeEach(async () => {
+      await store.upsertVectors([
+        createInput('exact', [1, 0]),
+        createInput('close', [0.9, 0.1]),
+        createInput('orthogonal', [0, 1]),
+      ]);
+    });
+
+    it('should return the most similar vectors above the minimum score', async () => {
+      const results = await store.vectorSearch([1, 0], SECTOR_ID);
+
+      expect(results.map((result) => result.id)).toEqual(['exact', 'close']);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results[0].metadata.content).toBe('Content of exact');
+    });
+
+    it('should honour the limit and minimum score', async () => {
+      expect(await store.vectorSearch([1, 0], SECTOR_ID, 1)).toHaveLength(1);
+      expect(await store.vectorSearch([0, 1], SECTOR_ID, 5, 0.99)).toEqual([
+        expect.objectContaining({ id: 'orthogonal' }),
+      ]);
+    });
+
+    it('should only search the sector namespace', async () => {
+      expect(await store.vectorSearch([1, 0], OTHER_SECTOR_ID)).toEqual([]);
+    });
+  });
+
+  describe('vectorSearch with a filter', () => {
+    const JAN_2026 = Date.UTC(2026, 0, 15);
+    const MAR_2026 = Date.UTC(2026, 2, 15);
+
+    beforeEach(async () => {
+      await store.upsertVectors([
+        createInput('hr-pdf', [1, 0], {
+          sourceType: SourceType.PDF,
+          tags: ['hr', 'policies'],
+          createdAt: JAN_2026,
+        }),
+        createInput('it-url', [0.9, 0.1], {
+          sourceId: 'source-2',
+          sourceType: SourceType.URL,
+          tags: ['it'],
+          createdAt: MAR_2026,
+        }),
+        createInput('legacy', [0.95, 0.05]),
+      ]);
+    });
+
+    const searchIds = async (filter: VectorSearchFilter) =>
+      (await store.vectorSearch([1, 0], SECTOR_ID, 5, 0.5, filter)).map(
+        (result) => result.id,
+      );
+
+    it('should match any of the listed values of a field', async () => {
+      expect(await searchIds({ tags: ['it', 'finance'] })).toEqual(['it-url']);
+      expect(await searchIds({ sourceIds: [SOURCE_ID] })).toEqual([
+        'hr-pdf',
+        'legacy',
+      ]);
+    });
+
+    it('should combine fields with AND', async () => {
+      expect(
+        await searchIds({ sourceTypes: [SourceType.PDF], tags: ['it'] }),
+      ).toEqual([]);
+    });
+
+    it('should filter by creation date range', async () => {
+      expect(
+        await searchIds({ createdFrom: new Date(Date.UTC(2026, 1, 1)) }),
+      ).toEqual(['it-url']);
+      expect(
+        await searchIds({ createdTo: new Date(Date.UTC(2026, 1, 1)) }),
+      ).toEqual(['hr-pdf']);
+    });
+
+    it('should ignore an empty filter', async () => {
+      expect(await searchIds({ tags: [] })).toEqual([
+        'hr-pdf',
+        'legacy',
+        'it-url',
+      ]);
+    });
+  });
+
+  describe('upsertVectors', () => {
+    it('should replace a vector with the same ID', async () => {
+      await store.upsertVectors([createInput('frag-1', [1, 0])]);
+      await store.upsertVectors([createInput('frag-1', [0, 1])]);
+
+      const [result] = await store.vectorSearch([0, 1], SECTOR_ID);
+
+      expect(result.id).toBe('frag-1');
+      expect(result.score).toBeCloseTo(1);
+      expect(await store.listVectorIds(SECTOR_ID)).toEqual(['frag-1']);
+    });
+
+    it('should keep equal IDs in different namespaces apart', async () => {
+      await store.upsertVectors([createInput('frag-1', [1, 0])]);
+      await store.upsertVectors([
+        createInput('frag-1', [0, 1], { sectorId: OTHER_SECTOR_ID }),
+      ]);
+
+      await store.deleteByIds(['frag-1'], SECTOR_ID);
+
+      expect(await store.listVectorIds(OTHER_SECTOR_ID)).toEqual(['frag-1']);
+    });
+
+    it('should write to the given namespace instead of the sector', async () => {
+      const namespace = `${SECTOR_ID}--g2`;
+
+      await store.upsertVectors([createInput('frag-1', [1, 0])], namespace);
+
+      expect(await store.listVectorIds(namespace)).toEqual(['frag-1']);
+      expect(await store.listVectorIds(SECTOR_ID)).toEqual([]);
+    });
+
+    it('should reject vectors of different sectors in one upsert', async () => {
+      await expect(
+        store.upsertVectors([
+          createInput('frag-1', [1, 0]),
+          createInput('frag-2', [1, 0], { sectorId: OTHER_SECTOR_ID }),
+        ]),
+      ).rejects.toThrow('must belong to the same sectorId');
+    });
+  });
+
+  describe('deletion and listing', () => {
+    beforeEach(async () => {
+      await store.upsertVectors([
+        createInput('frag-1', [1, 0]),
+        createInput('frag-2', [0, 1], { sourceId: 'source-2' }),
+      ]);
+    });
+
+    it('should update the metadata of the vectors of a source', async () => {
+      await store.updateMetadataBySourceId(SOURCE_ID, SECTOR_ID, {
+        tags: ['hr'],
+      });
+
+      const results = await store.vectorSearch([1, 1], SECTOR_ID, 10, 0, {
+        tags: ['hr'],
+      });
+      expect(results.map((result) => result.id)).toEqual(['frag-1']);
+      expect(results[0].metadata.tags).toEqual(['hr']);
+    });
+
+    it('should delete the vectors of a source', async () => {
+      await store.deleteBySourceId(SOURCE_ID, SECTOR_ID);
+
+      expect(await store.listVectorIds(SECTOR_ID)).toEqual(['frag-2']);
+    });
+
+    it('should drop a namespace with its last vector', async () => {
+      expect(await store.listNamespaces()).toEqual([SECTOR_ID]);
+
+      await store.deleteByIds(['frag-1', 'frag-2'], SECTOR_ID);
+
+      expect(await store.listNamespaces()).toEqual([]);
+      expect(await store.listVectorIds(SECTOR_ID)).toEqual([]);
+    });
+
+    it('should ignore unknown namespaces', async () => {
+      await expect(
+        store.deleteBySourceId(SOURCE_ID, OTHER_SECTOR_ID),
+      ).resolves.toBeUndefined();
+      await expect(
+        store.deleteByIds(['frag-1'], OTHER_SECTOR_ID),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
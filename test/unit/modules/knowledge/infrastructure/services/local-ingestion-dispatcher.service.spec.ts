@@ -0,0 +1,58 @@
+import { LocalIngestionDispatcher } from '../../../../../../src/modules/knowledge/infrastructure/services/local-ingestion-dispatcher.service';
+
+describe('LocalIngestionDispatcher', () => {
+  let dispatcher: LocalIngestionDispatcher;
+  const mockProcessSource = jest.fn();
+  const mockRunBatch = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    const mockPipeline = { processSource: mockProcessSource } as never;
+    const mockReindexService = { runBatch: mockRunBatch } as never;
+    dispatcher = new LocalIngestionDispatcher(mockPipeline, mockReindexService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('dispatches ingestion via setImmediate to the pipeline', async () => {
+    mockProcessSource.mockResolvedValue(undefined);
+
+    await dispatcher.dispatchIngestion({ sourceId: 'source-1' });
+
+    expect(mockProcessSource).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    await Promise.resolve();
+
+    expect(mockProcessSource).toHaveBeenCalledWith('source-1');
+  });
+
+  it('does not throw when pipeline fails (fire-and-forget)', async () => {
+    mockProcessSource.mockRejectedValue(new Error('Pipeline crash'));
+
+    await expect(
+      dispatcher.dispatchIngestion({ sourceId: 'source-1' }),
+    ).resolves.toBeUndefined();
+
+    jest.runAllTimers();
+    await Promise.resolve();
+  });
+
+  it('runs re-index batches until none remain', async () => {
+    mockRunBatch.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await dispatcher.dispatchReindex({ indexId: 'index-2' });
+
+    expect(mockRunBatch).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(mockRunBatch).toHaveBeenCalledTimes(2);
+    expect(mockRunBatch).toHaveBeenCalledWith('index-2');
+  });
+});
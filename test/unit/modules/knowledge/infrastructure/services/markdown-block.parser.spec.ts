@@ -0,0 +1,97 @@
+import { MarkdownBlockParser } from '../../../../../../src/modules/knowledge/infrastructure/services/markdown-block.parser';
+
+describe('MarkdownBlockParser', () => {
+  let parser: MarkdownBlockParser;
+
+  beforeEach(() => {
+    parser = new MarkdownBlockParser();
+  });
+
+  it('should read headings with their level and strip closing hashes', () => {
+    // Act
+    const blocks = parser.parse('# Title\n\n### Section ##\n\n#NotAHeading');
+
+    // Assert
+    expect(blocks).toEqual([
+      { kind: 'heading', text: 'Title', level: 1, start: 0, end: 7 },
+      { kind: 'heading', text: 'Section', level: 3, start: 9, end: 23 },
+      { kind: 'paragraph', text: '#NotAHeading', start: 25, end: 37 },
+    ]);
+  });
+
+  it('should split paragraphs on blank lines and at the start of other blocks', () => {
+    // Act
+    const blocks = parser.parse(
+      'First line\nsecond line\n\nNext paragraph\n- item',
+    );
+
+    // Assert
+    expect(blocks.map((block) => [block.kind, block.text])).toEqual([
+      ['paragraph', 'First line\nsecond line'],
+      ['paragraph', 'Next paragraph'],
+      ['list', '- item'],
+    ]);
+  });
+
+  it('should keep a list with nested items and blank lines together', () => {
+    // Arrange
+    const list = '- One\n  - Nested\n\n- Two\nlazy continuation\n1. Three';
+
+    // Act
+    const blocks = parser.parse(`${list}\n\nAfter the list.`);
+
+    // Assert
+    expect(blocks.map((block) => [block.kind, block.text])).toEqual([
+      ['list', list],
+      ['paragraph', 'After the list.'],
+    ]);
+  });
+
+  it('should read consecutive pipe rows as one table', () => {
+    // Arrange
+    const table = '| Type | Days |\n| --- | --- |\n| Vacations | 22 |';
+
+    // Act
+    const blocks = parser.parse(`Intro\n\n${table}\nAfter.`);
+
+    // Assert
+    expect(blocks.map((block) => [block.kind, block.text])).toEqual([
+      ['paragraph', 'Intro'],
+      ['table', table],
+      ['paragraph', 'After.'],
+    ]);
+  });
+
+  it('should keep fenced code whole, including blank lines and headings', () => {
+    // Arrange
+    const code = '```sql\nSELECT 1;\n\n# not a heading\n```';
+
+    // Act
+    const blocks = parser.parse(`${code}\nText\n\n~~~\nunclosed`);
+
+    // Assert
+    expect(blocks.map((block) => [block.kind, block.text])).toEqual([
+      ['code', code],
+      ['paragraph', 'Text'],
+      ['code', '~~~\nunclosed'],
+    ]);
+  });
+
+  it('should report offsets that slice the block out of the input', () => {
+    // Arrange
+    const text = '## Leave\n\nTwenty-two days.\n\n- Ask first\n- Wait  \n';
+
+    // Act
+    const blocks = parser.parse(text);
+
+    // Assert
+    expect(
+      blocks.slice(1).map((block) => text.slice(block.start, block.end)),
+    ).toEqual(['Twenty-two days.', '- Ask first\n- Wait  ']);
+    expect(blocks[2].text).toBe('- Ask first\n- Wait');
+  });
+
+  it('should return no blocks for blank input', () => {
+    expect(parser.parse(' \n\n\t')).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  decodeEntities,
+  flattenMarkdownTables,
+  toMarkdownTable,
+} from '../../../../../../src/modules/knowledge/infrastructure/services/markup-text.utils';
+
+describe('markup-text.utils', () => {
+  describe('decodeEntities', () => {
+    it('should decode named, decimal and hex references', () => {
+      expect(
+        decodeEntities('&lt;a&gt; &amp; &quot;b&quot; &#233; &#x2014;'),
+      ).toBe('<a> & "b" é —');
+    });
+
+    it('should leave unknown or invalid references as written', () => {
+      expect(decodeEntities('&unknown; &#x110000;')).toBe(
+        '&unknown; &#x110000;',
+      );
+    });
+  });
+
+  describe('toMarkdownTable', () => {
+    it('should render a header, delimiter row and padded body rows', () => {
+      // Act
+      const result = toMarkdownTable([
+        ['Type', 'Days', 'Notes'],
+        ['Vacations', '22'],
+      ]);
+
+      // Assert
+      expect(result).toBe(
+        '| Type | Days | Notes |\n| --- | --- | --- |\n| Vacations | 22 |  |',
+      );
+    });
+
+    it('should collapse whitespace and escape pipes in cells', () => {
+      // Act
+      const result = toMarkdownTable([['A'], ['one\n two | three']]);
+
+      // Assert
+      expect(result).toBe('| A |\n| --- |\n| one two \\| three |');
+    });
+
+    it('should return an empty string for an empty table', () => {
+      expect(toMarkdownTable([])).toBe('');
+    });
+  });
+
+  describe('flattenMarkdownTables', () => {
+    it('should pair every cell with its column header', () => {
+      // Act
+      const result = flattenMarkdownTables(
+        '## Leave\n\n| Type | Days |\n| :--- | ---: |\n| Vacations | 22 |\n| Sick \\| paid |  |\n\nAfter.',
+      );
+
+      // Assert
+      expect(result).toBe(
+        '## Leave\n\nType: Vacations; Days: 22.\nType: Sick | paid.\n\nAfter.',
+      );
+    });
+
+    it('should join cells of tables without a delimiter row', () => {
+      expect(flattenMarkdownTables('| a | b |\n| c | d |')).toBe(
+        'a; b.\nc; d.',
+      );
+    });
+
+    it('should keep the column names of a header-only table', () => {
+      expect(flattenMarkdownTables('| Type | Days |\n| --- | --- |')).toBe(
+        'Type; Days.',
+      );
+    });
+
+    it('should leave text without tables unchanged', () => {
+      expect(flattenMarkdownTables('# Title\n\n- item')).toBe(
+        '# Title\n\n- item',
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Logger } from '@nestjs/common';
+import type { DataSource } from 'typeorm';
+import { PgVectorStore } from '@modules/knowledge/infrastructure/services/pgvector-vector-store.service';
+import type { VectorUpsertInput } from '@modules/knowledge/domain/services/vector-store.interface';
+
+const SECTOR_ID = 'sector-123';
+const SOURCE_ID = 'source-456';
+
+function createInput(id: string, sectorId = SECTOR_ID): VectorUpsertInput {
+  return {
+    id,
+    embedding: [0.1, 0.2, 0.3],
+    metadata: {
+      sourceId: SOURCE_ID,
+      sectorId,
+      content: 'Test fragment content',
+      position: 0,
+      tokenCount: 5,
+    },
+  };
+}
+
+describe('PgVectorStore', () => {
+  let store: PgVectorStore;
+  let mockDataSource: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    mockDataSource = { query: jest.fn().mockResolvedValue([]) };
+    store = new PgVectorStore(mockDataSource as unknown as DataSource);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should create the extension and the vector table', async () => {
+      await store.onModuleInit();
+
+      const statements = mockDataSource.query.mock.calls.map(
+        ([sql]: [string]) => sql,
+      );
+      expect(statements[0]).toContain('CREATE EXTENSION IF NOT EXISTS vector');
+      expect(statements[1]).toContain(
+        'CREATE TABLE IF NOT EXISTS vector_embeddings',
+      );
+      expect(statements[1]).toContain('PRIMARY KEY (namespace, id)');
+    });
+  });
+
+  describe('upsertVectors', () => {
+    it('should upsert vectors into the sector namespace', async () => {
+      await store.upsertVectors([createInput('frag-1'), createInput('frag-2')]);
+
+      const [sql, params] = mockDataSource.query.mock.calls[0] as [
+        string,
+        unknown[],
+      ];
+      expect(sql).toContain('ON CONFLICT (namespace, id)');
+      expect(sql).toContain('($5, $6, $7::vector, $8::jsonb)');
+      expect(params.slice(0, 3)).toEqual([
+        SECTOR_ID,
+        'frag-1',
+        '[0.1,0.2,0.3]',
+      ]);
+      expect(JSON.parse(params[3] as string)).toEqual(
+        createInput('frag-1').metadata,
+      );
+    });
+
+    it('should upsert large inputs in batches of 100', async () => {
+      const inputs = Array.from({ length: 150 }, (_, i) =>
+        createInput(`frag-${i}`),
+      );
+
+      await store.upsertVectors(inputs);
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip empty inputs', async () => {
+      await store.upsertVectors([]);
+
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject vectors of different sectors', async () => {
+      await expect(
+        store.upsertVectors([
+          createInput('frag-1'),
+          createInput('frag-2', 'sector-other'),
+        ]),
+      ).rejects.toThrow('must belong to the same sectorId');
+    });
+
+    it('should throw an error when the upsert fails', async () => {
+      mockDataSource.query.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(
+        store.upsertVectors([createInput('frag-1')]),
+      ).rejects.toThrow(
+        'Failed to upsert vectors to pgvector: connection lost',
+      );
+    });
+  });
+
+  describe('vectorSearch', () => {
+    it('should return matches above the minimum score', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        { id: 'frag-1', score: 0.91, metadata: createInput('frag-1').metadata },
+        {
+          id: 'frag-2',
+          score: '0.4',
+          metadata: createInput('frag-2').metadata,
+        },
+      ]);
+
+      const results = await store.vectorSearch([0.1, 0.2, 0.3], SECTOR_ID);
+
+      expect(results).toEqual([
+        { id: 'frag-1', score: 0.91, metadata: createInput('frag-1').metadata },
+      ]);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE namespace = $2'),
+        ['[0.1,0.2,0.3]', SECTOR_ID, 5],
+      );
+    });
+
+    it('should translate the filter into metadata conditions', async () => {
+      const createdFrom = new Date('2026-01-01T00:00:00Z');
+
+      await store.vectorSearch([0.1], SECTOR_ID, 5, 0.5, {
+        sourceIds: [SOURCE_ID],
+        tags: ['hr'],
+        createdFrom,
+      });
+
+      const [sql, params] = mockDataSource.query.mock.calls[0] as [
+        string,
+        unknown[],
+      ];
+      expect(sql).toContain(
+        "namespace = $2 AND metadata->>'sourceId' = ANY($4::text[]) " +
+          "AND metadata->'tags' ?| $5::text[] " +
+          "AND (metadata->>'createdAt')::double precision >= $6",
+      );
+      expect(params).toEqual([
+        '[0.1]',
+        SECTOR_ID,
+        5,
+        [SOURCE_ID],
+        ['hr'],
+        createdFrom.getTime(),
+      ]);
+    });
+
+    it('should skip matches with incomplete metadata', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        { id: 'frag-1', score: 0.9, metadata: { sourceId: SOURCE_ID } },
+      ]);
+
+      const results = await store.vectorSearch([0.1], SECTOR_ID, 3, 0.5);
+
+      expect(results).toEqual([]);
+    });
+
+    it('should throw an error when the search fails', async () => {
+      mockDataSource.query.mockRejectedValueOnce(
+        new Error('different vector dimensions'),
+      );
+
+      await expect(store.vectorSearch([0.1], SECTOR_ID)).rejects.toThrow(
+        'Failed to search vectors in pgvector',
+      );
+    });
+  });
+
+  describe('updateMetadataBySourceId', () => {
+    it('should merge the patch into the metadata of a source', async () => {
+      await store.updateMetadataBySourceId(SOURCE_ID, SECTOR_ID, {
+        tags: ['hr'],
+      });
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET metadata = metadata || $3::jsonb'),
+        [SECTOR_ID, SOURCE_ID, '{"tags":["hr"]}'],
+      );
+    });
+
+    it('should wrap query errors', async () => {
+      mockDataSource.query.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        store.updateMetadataBySourceId(SOURCE_ID, SECTOR_ID, { tags: [] }),
+      ).rejects.toThrow('Failed to update vectors in pgvector: db down');
+    });
+  });
+
+  describe('deletion', () => {
+    it('should delete the vectors of a source by metadata', async () => {
+      await store.deleteBySourceId(SOURCE_ID, SECTOR_ID);
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining("metadata->>'sourceId' = $2"),
+        [SECTOR_ID, SOURCE_ID],
+      );
+    });
+
+    it('should delete vectors by ID within the namespace', async () => {
+      await store.deleteByIds(['frag-1', 'frag-2'], SECTOR_ID);
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('id = ANY($2::varchar[])'),
+        [SECTOR_ID, ['frag-1', 'frag-2']],
+      );
+    });
+
+    it('should skip an empty ID list', async () => {
+      await store.deleteByIds([], SECTOR_ID);
+
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listing', () => {
+    it('should list the namespaces', async () => {
+      mockDataSource.query.mockResolvedValueOnce([{ namespace: SECTOR_ID }]);
+
+      expect(await store.listNamespaces()).toEqual([SECTOR_ID]);
+    });
+
+    it('should list the vector IDs of a namespace', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        { id: 'frag-1' },
+        { id: 'frag-2' },
+      ]);
+
+      expect(await store.listVectorIds(SECTOR_ID)).toEqual([
+        'frag-1',
+        'frag-2',
+      ]);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE namespace = $1'),
+        [SECTOR_ID],
+      );
+    });
+
+    it('should throw an error when listing fails', async () => {
+      mockDataSource.query.mockRejectedValueOnce(new Error('timeout'));
+
+      await expect(store.listVectorIds(SECTOR_ID)).rejects.toThrow(
+        'Failed to list vectors from pgvector',
+      );
+    });
+  });
+});
@@ -57,8 +57,10 @@ function createMockNamespace() {
   return {
     upsert: jest.fn().mockResolvedValue(undefined),
     query: jest.fn().mockResolvedValue({ matches: [] }),
+    update: jest.fn().mockResolvedValue(undefined),
     deleteMany: jest.fn().mockResolvedValue(undefined),
     deleteAll: jest.fn().mockResolvedValue(undefined),
+    listPaginated: jest.fn().mockResolvedValue({ vectors: [] }),
   };
 }
 
@@ -321,6 +323,50 @@ describe('PineconeVectorStore', () => {
       expect(results[1].id).toBe('match-2');
     });
 
+    it('should pass the metadata filter to the query', async () => {
+      const embedding = createTestEmbedding();
+      const createdTo = new Date('2026-06-30T00:00:00Z');
+
+      await service.vectorSearch(
+        embedding,
+        TEST_SECTOR_ID,
+        DEFAULT_LIMIT,
+        DEFAULT_MIN_SCORE,
+        { sourceIds: [TEST_SOURCE_ID], tags: ['hr', 'it'], createdTo },
+      );
+
+      expect(mockNamespace.query).toHaveBeenCalledWith({
+        vector: embedding,
+        topK: DEFAULT_LIMIT,
+        includeMetadata: true,
+        filter: {
+          $and: [
+            { sourceId: { $in: [TEST_SOURCE_ID] } },
+            { tags: { $in: ['hr', 'it'] } },
+            { createdAt: { $lte: createdTo.getTime() } },
+          ],
+        },
+      });
+    });
+
+    it('should not send an empty filter', async () => {
+      const embedding = createTestEmbedding();
+
+      await service.vectorSearch(
+        embedding,
+        TEST_SECTOR_ID,
+        DEFAULT_LIMIT,
+        DEFAULT_MIN_SCORE,
+        { sourceIds: [], tags: [] },
+      );
+
+      expect(mockNamespace.query).toHaveBeenCalledWith({
+        vector: embedding,
+        topK: DEFAULT_LIMIT,
+        includeMetadata: true,
+      });
+    });
+
     it('should return empty array when no matches found', async () => {
       const embedding = createTestEmbedding();
 
@@ -393,6 +439,34 @@ describe('PineconeVectorStore', () => {
     });
   });
 
+  // ==================== updateMetadataBySourceId ====================
+
+  describe('updateMetadataBySourceId', () => {
+    it('should update vectors by sourceId filter in the correct namespace', async () => {
+      await service.updateMetadataBySourceId(TEST_SOURCE_ID, TEST_SECTOR_ID, {
+        tags: ['hr'],
+      });
+
+      expect(mockIndex.namespace).toHaveBeenCalledWith(TEST_SECTOR_ID);
+      expect(mockNamespace.update).toHaveBeenCalledWith({
+        filter: { sourceId: { $eq: TEST_SOURCE_ID } },
+        metadata: { tags: ['hr'] },
+      });
+    });
+
+    it('should throw an error when the update fails', async () => {
+      mockNamespace.update.mockRejectedValueOnce(
+        new Error('Pinecone update failed'),
+      );
+
+      await expect(
+        service.updateMetadataBySourceId(TEST_SOURCE_ID, TEST_SECTOR_ID, {
+          tags: [],
+        }),
+      ).rejects.toThrow('Failed to update vectors in Pinecone');
+    });
+  });
+
   // ==================== deleteBySourceId ====================
 
   describe('deleteBySourceId', () => {
@@ -416,6 +490,99 @@ describe('PineconeVectorStore', () => {
     });
   });
 
+  // ==================== deleteByIds ====================
+
+  describe('deleteByIds', () => {
+    it('should delete vectors by ID in the correct namespace', async () => {
+      await service.deleteByIds(['frag-1', 'frag-2'], TEST_SECTOR_ID);
+
+      expect(mockIndex.namespace).toHaveBeenCalledWith(TEST_SECTOR_ID);
+      expect(mockNamespace.deleteMany).toHaveBeenCalledWith({
+        ids: ['frag-1', 'frag-2'],
+      });
+    });
+
+    it('should delete large ID lists in batches', async () => {
+      const ids = Array.from({ length: 1500 }, (_, i) => `frag-${i}`);
+
+      await service.deleteByIds(ids, TEST_SECTOR_ID);
+
+      expect(mockNamespace.deleteMany).toHaveBeenCalledTimes(2);
+      expect(mockNamespace.deleteMany.mock.calls[1][0]).toEqual({
+        ids: ids.slice(1000),
+      });
+    });
+
+    it('should throw an error when deletion fails', async () => {
+      mockNamespace.deleteMany.mockRejectedValueOnce(
+        new Error('Pinecone delete failed'),
+      );
+
+      await expect(
+        service.deleteByIds(['frag-1'], TEST_SECTOR_ID),
+      ).rejects.toThrow('Failed to delete vectors from Pinecone');
+    });
+  });
+
+  // ==================== listNamespaces ====================
+
+  describe('listNamespaces', () => {
+    it('should return the namespaces of the index', async () => {
+      mockIndex.describeIndexStats.mockResolvedValueOnce({
+        namespaces: {
+          [TEST_SECTOR_ID]: { recordCount: 3 },
+          '': { recordCount: 1 },
+        },
+      });
+
+      const namespaces = await service.listNamespaces();
+
+      expect(namespaces).toEqual([TEST_SECTOR_ID]);
+    });
+
+    it('should throw an error when the stats cannot be read', async () => {
+      mockIndex.describeIndexStats.mockRejectedValueOnce(
+        new Error('Connection failed'),
+      );
+
+      await expect(service.listNamespaces()).rejects.toThrow(
+        'Failed to list namespaces from Pinecone',
+      );
+    });
+  });
+
+  // ==================== listVectorIds ====================
+
+  describe('listVectorIds', () => {
+    it('should list vector IDs across pages', async () => {
+      mockNamespace.listPaginated
+        .mockResolvedValueOnce({
+          vectors: [{ id: 'frag-1' }, { id: 'frag-2' }],
+          pagination: { next: 'page-2' },
+        })
+        .mockResolvedValueOnce({ vectors: [{ id: 'frag-3' }] });
+
+      const ids = await service.listVectorIds(TEST_SECTOR_ID);
+
+      expect(mockIndex.namespace).toHaveBeenCalledWith(TEST_SECTOR_ID);
+      expect(ids).toEqual(['frag-1', 'frag-2', 'frag-3']);
+      expect(mockNamespace.listPaginated).toHaveBeenLastCalledWith({
+        limit: 100,
+        paginationToken: 'page-2',
+      });
+    });
+
+    it('should throw an error when listing fails', async () => {
+      mockNamespace.listPaginated.mockRejectedValueOnce(
+        new Error('Pinecone list failed'),
+      );
+
+      await expect(service.listVectorIds(TEST_SECTOR_ID)).rejects.toThrow(
+        'Failed to list vectors from Pinecone',
+      );
+    });
+  });
+
   // ==================== healthCheck ====================
 
   describe('healthCheck', () => {
@@ -0,0 +1,141 @@
+jest.mock('node:child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  TesseractOcrEngine,
+  parseTesseractTsv,
+} from '../../../../../../src/modules/knowledge/infrastructure/services/tesseract-ocr-engine.service';
+
+const TSV_HEADER =
+  'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+function word(
+  block: number,
+  paragraph: number,
+  line: number,
+  confidence: number,
+  text: string,
+): string {
+  return `5\t1\t${block}\t${paragraph}\t${line}\t1\t0\t0\t10\t10\t${confidence}\t${text}`;
+}
+
+const PAGE_TSV = [
+  TSV_HEADER,
+  '1\t1\t0\t0\t0\t0\t0\t0\t2480\t3508\t-1\t',
+  word(1, 1, 1, 96, 'Manual'),
+  word(1, 1, 1, 94, 'de'),
+  word(1, 1, 1, 92, 'bienvenida'),
+  word(1, 1, 2, 90, 'Recursos'),
+  word(1, 1, 2, 88, 'Humanos'),
+  word(2, 1, 1, 60, 'Vacaciones'),
+  word(2, 1, 1, -1, ''),
+].join('\n');
+
+describe('TesseractOcrEngine', () => {
+  const mockExecFile = execFile as unknown as jest.Mock;
+
+  afterEach(() => {
+    delete process.env.OCR_LANGUAGES;
+    delete process.env.OCR_DPI;
+    jest.clearAllMocks();
+  });
+
+  describe('parseTesseractTsv', () => {
+    it('should rebuild lines and paragraphs from the recognized words', () => {
+      // Act
+      const result = parseTesseractTsv(2, PAGE_TSV);
+
+      // Assert
+      expect(result.page).toBe(2);
+      expect(result.text).toBe(
+        'Manual de bienvenida\nRecursos Humanos\n\nVacaciones',
+      );
+    });
+
+    it('should average the confidence of the recognized words', () => {
+      // Act
+      const result = parseTesseractTsv(1, PAGE_TSV);
+
+      // Assert
+      expect(result.confidence).toBeCloseTo(0.8667, 4);
+    });
+
+    it('should report no text and no confidence for a blank page', () => {
+      // Act
+      const result = parseTesseractTsv(1, `${TSV_HEADER}\n`);
+
+      // Assert
+      expect(result).toEqual({ page: 1, text: '', confidence: 0 });
+    });
+  });
+
+  describe('recognizePdfPages', () => {
+    beforeEach(() => {
+      mockExecFile.mockImplementation(
+        (
+          command: string,
+          _args: string[],
+          _options: unknown,
+          callback: (error: Error | null, result: { stdout: string }) => void,
+        ) => {
+          callback(null, { stdout: command === 'tesseract' ? PAGE_TSV : '' });
+        },
+      );
+    });
+
+    it('should render and recognize each requested page', async () => {
+      // Arrange
+      process.env.OCR_LANGUAGES = 'eng';
+      process.env.OCR_DPI = '200';
+      const engine = new TesseractOcrEngine();
+
+      // Act
+      const results = await engine.recognizePdfPages(
+        Buffer.from('%PDF-1.4'),
+        [2, 5],
+      );
+
+      // Assert
+      expect(results.map((result) => result.page)).toEqual([2, 5]);
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'pdftoppm',
+        expect.arrayContaining(['-f', '5', '-l', '5', '-r', '200']),
+        expect.any(Object),
+        expect.any(Function),
+      );
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'tesseract',
+        [expect.stringMatching(/page-5\.png$/), 'stdout', '-l', 'eng', 'tsv'],
+        expect.any(Object),
+        expect.any(Function),
+      );
+    });
+
+    it('should remove the rendered pages when OCR fails', async () => {
+      // Arrange
+      const imagePrefixes: string[] = [];
+      mockExecFile.mockImplementation(
+        (
+          command: string,
+          args: string[],
+          _options: unknown,
+          callback: (error: Error | null) => void,
+        ) => {
+          imagePrefixes.push(args[args.length - 1]);
+          callback(new Error(`spawn ${command} ENOENT`));
+        },
+      );
+      const engine = new TesseractOcrEngine();
+
+      // Act & Assert
+      await expect(
+        engine.recognizePdfPages(Buffer.from('%PDF-1.4'), [1]),
+      ).rejects.toThrow('spawn pdftoppm ENOENT');
+      expect(existsSync(dirname(imagePrefixes[0]))).toBe(false);
+    });
+  });
+});
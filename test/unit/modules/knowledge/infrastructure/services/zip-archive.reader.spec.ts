@@ -0,0 +1,168 @@
+import { ZipArchiveReader } from '../../../../../../src/modules/knowledge/infrastructure/services/zip-archive.reader';
+import { createTestZipBuffer } from '../../../../../fixtures/create-test-docx';
+
+const MB = 1024 * 1024;
+
+/**
+ * Overwrites the sizes the central directory declares for each entry
+ */
+function withDeclaredSizes(
+  archive: Buffer,
+  sizes: { compressed: number; uncompressed: number },
+): Buffer {
+  const patched = Buffer.from(archive);
+  const end = patched.length - 22;
+  let offset = patched.readUInt32LE(end + 16);
+  for (let index = 0; index < patched.readUInt16LE(end + 10); index++) {
+    patched.writeUInt32LE(sizes.compressed, offset + 20);
+    patched.writeUInt32LE(sizes.uncompressed, offset + 24);
+    offset += 46 + patched.readUInt16LE(offset + 28);
+  }
+  return patched;
+}
+
+describe('ZipArchiveReader', () => {
+  const entries = {
+    'word/document.xml': '<w:document>Hola, ¿qué tal?</w:document>',
+    'docProps/core.xml': '<cp:coreProperties/>',
+  };
+
+  it('should read deflated entries as UTF-8 text', async () => {
+    // Arrange
+    const reader = await ZipArchiveReader.open(createTestZipBuffer(entries));
+
+    // Act & Assert
+    await expect(reader.readText('word/document.xml')).resolves.toBe(
+      '<w:document>Hola, ¿qué tal?</w:document>',
+    );
+    await expect(reader.readText('docProps/core.xml')).resolves.toBe(
+      '<cp:coreProperties/>',
+    );
+  });
+
+  it('should read stored (uncompressed) entries', async () => {
+    // Arrange
+    const reader = await ZipArchiveReader.open(
+      createTestZipBuffer(entries, false),
+    );
+
+    // Act & Assert
+    await expect(reader.readText('word/document.xml')).resolves.toBe(
+      entries['word/document.xml'],
+    );
+  });
+
+  it('should report missing entries', async () => {
+    // Arrange
+    const reader = await ZipArchiveReader.open(createTestZipBuffer(entries));
+
+    // Act & Assert
+    expect(reader.has('word/document.xml')).toBe(true);
+    expect(reader.has('word/styles.xml')).toBe(false);
+    await expect(reader.readText('word/styles.xml')).resolves.toBeUndefined();
+  });
+
+  it('should find the directory when the archive has a trailing comment', async () => {
+    // Arrange
+    const archive = createTestZipBuffer(entries);
+    const comment = Buffer.from('generated by a test');
+    archive.writeUInt16LE(comment.length, archive.length - 2);
+
+    // Act
+    const reader = await ZipArchiveReader.open(
+      Buffer.concat([archive, comment]),
+    );
+
+    // Assert
+    expect(reader.has('docProps/core.xml')).toBe(true);
+  });
+
+  it('should reject buffers that are not ZIP archives', async () => {
+    // Act & Assert
+    await expect(
+      ZipArchiveReader.open(Buffer.from('plain text file')),
+    ).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('should reject truncated archives', async () => {
+    // Arrange
+    const archive = createTestZipBuffer(entries);
+    const end = archive.subarray(archive.length - 22);
+
+    // Act & Assert
+    await expect(ZipArchiveReader.open(end)).rejects.toThrow('Corrupt archive');
+  });
+
+  describe('Decompression bombs', () => {
+    it('should reject archives with too many entries', async () => {
+      // Arrange
+      const many = Object.fromEntries(
+        Array.from({ length: 5_001 }, (_, index) => [`part-${index}.xml`, '']),
+      );
+
+      // Act & Assert
+      await expect(
+        ZipArchiveReader.open(createTestZipBuffer(many)),
+      ).rejects.toThrow('Archive has too many entries (max 5000)');
+    });
+
+    it('should reject entries compressed beyond the maximum ratio', async () => {
+      // Arrange
+      const bomb = createTestZipBuffer({
+        'word/document.xml': 'a'.repeat(2 * MB),
+      });
+
+      // Act & Assert
+      await expect(ZipArchiveReader.open(bomb)).rejects.toThrow(
+        'Archive entry word/document.xml is too compressed (max ratio 100:1)',
+      );
+    });
+
+    it('should reject entries declared larger than the maximum size', async () => {
+      // Arrange
+      const archive = withDeclaredSizes(createTestZipBuffer(entries), {
+        compressed: MB,
+        uncompressed: 60 * MB,
+      });
+
+      // Act & Assert
+      await expect(ZipArchiveReader.open(archive)).rejects.toThrow(
+        'Archive entry word/document.xml is too large (max 50MB)',
+      );
+    });
+
+    it('should reject archives declared larger than the maximum in total', async () => {
+      // Arrange
+      const parts = Object.fromEntries(
+        Array.from({ length: 5 }, (_, index) => [`part-${index}.xml`, '']),
+      );
+      const archive = withDeclaredSizes(createTestZipBuffer(parts), {
+        compressed: MB,
+        uncompressed: 45 * MB,
+      });
+
+      // Act & Assert
+      await expect(ZipArchiveReader.open(archive)).rejects.toThrow(
+        'Archive is too large when decompressed (max 200MB)',
+      );
+    });
+
+    it('should fail reading an entry larger than its declared size', async () => {
+      // Arrange
+      const archive = createTestZipBuffer({
+        'word/document.xml': 'x'.repeat(1_000),
+      });
+      const reader = await ZipArchiveReader.open(
+        withDeclaredSizes(archive, {
+          compressed: archive.readUInt32LE(18),
+          uncompressed: 10,
+        }),
+      );
+
+      // Act & Assert
+      await expect(reader.readText('word/document.xml')).rejects.toThrow(
+        'Corrupt archive',
+      );
+    });
+  });
+});
@@ -0,0 +1,199 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AdminKnowledgeController } from '../../../../../src/modules/knowledge/presentation/admin-knowledge.controller';
+import type { VectorReconciliationReport } from '../../../../../src/modules/knowledge/application/dtos/reconcile-vector-store.dto';
+import { EmbeddingIndex } from '../../../../../src/modules/knowledge/domain/entities/embedding-index.entity';
+
+const SECTOR_ID = '660e8400-e29b-41d4-a716-446655440001';
+const PROFILE = { model: 'vertexai/gemini-embedding-001', dimensions: 3072 };
+
+describe('AdminKnowledgeController', () => {
+  let controller: AdminKnowledgeController;
+  const mockReconcileVectorStore = { execute: jest.fn() };
+  const mockGetEmbeddingIndexes = { execute: jest.fn() };
+  const mockStartEmbeddingReindex = { execute: jest.fn() };
+  const mockRollbackEmbeddingIndex = { execute: jest.fn() };
+  const report: VectorReconciliationReport = {
+    dryRun: true,
+    startedAt: new Date(),
+    completedAt: new Date(),
+    missingVectorCount: 1,
+    orphanVectorCount: 0,
+    sectors: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new AdminKnowledgeController(
+      mockReconcileVectorStore as never,
+      mockGetEmbeddingIndexes as never,
+      mockStartEmbeddingReindex as never,
+      mockRollbackEmbeddingIndex as never,
+    );
+  });
+
+  describe('GET /admin/knowledge/vector-reconciliation', () => {
+    it('returns a dry-run report', async () => {
+      mockReconcileVectorStore.execute.mockResolvedValue(report);
+
+      const result = await controller.getVectorReconciliationReport({
+        sectorId: SECTOR_ID,
+      });
+
+      expect(result).toBe(report);
+      expect(mockReconcileVectorStore.execute).toHaveBeenCalledWith({
+        dryRun: true,
+        sectorId: SECTOR_ID,
+      });
+    });
+
+    it('maps an invalid sectorId to 400', async () => {
+      mockReconcileVectorStore.execute.mockRejectedValue(
+        new Error('sectorId must be a valid UUID'),
+      );
+
+      await expect(
+        controller.getVectorReconciliationReport({ sectorId: 'nope' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('POST /admin/knowledge/vector-reconciliation', () => {
+    it('runs a reconciliation that repairs the drift', async () => {
+      mockReconcileVectorStore.execute.mockResolvedValue({
+        ...report,
+        dryRun: false,
+      });
+
+      await controller.reconcileVectors({});
+
+      expect(mockReconcileVectorStore.execute).toHaveBeenCalledWith({
+        dryRun: false,
+        sectorId: undefined,
+      });
+    });
+
+    it('maps a concurrent run to 409', async () => {
+      mockReconcileVectorStore.execute.mockRejectedValue(
+        new Error('A vector store reconciliation is already running'),
+      );
+
+      await expect(controller.reconcileVectors({})).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('rethrows unexpected errors', async () => {
+      mockReconcileVectorStore.execute.mockRejectedValue(
+        new Error('Pinecone down'),
+      );
+
+      await expect(controller.reconcileVectors({})).rejects.toThrow(
+        'Pinecone down',
+      );
+    });
+  });
+
+  describe('GET /admin/knowledge/sectors/:sectorId/embedding-indexes', () => {
+    it('returns the active index and the running build', async () => {
+      const active = EmbeddingIndex.initial(SECTOR_ID, PROFILE);
+      const building = EmbeddingIndex.build(active, 2, PROFILE);
+      building.startBuild(4);
+      building.recordProgress('source-1', 1);
+      mockGetEmbeddingIndexes.execute.mockResolvedValue({
+        sectorId: SECTOR_ID,
+        active,
+        building,
+        indexes: [building],
+      });
+
+      const result = await controller.getSectorEmbeddingIndexes(SECTOR_ID);
+
+      expect(result.active.namespace).toBe(SECTOR_ID);
+      expect(result.building?.namespace).toBe(`${SECTOR_ID}--g2`);
+      expect(result.building?.progress).toBe(25);
+      expect(result.indexes).toHaveLength(1);
+    });
+  });
+
+  describe('POST /admin/knowledge/sectors/:sectorId/embedding-indexes', () => {
+    it('starts a re-index with the requested profile', async () => {
+      mockStartEmbeddingReindex.execute.mockResolvedValue(
+        EmbeddingIndex.build(
+          EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+          2,
+          PROFILE,
+        ),
+      );
+
+      const result = await controller.startSectorReindex(SECTOR_ID, {
+        dimensions: 768,
+      });
+
+      expect(result.generation).toBe(2);
+      expect(mockStartEmbeddingReindex.execute).toHaveBeenCalledWith({
+        sectorId: SECTOR_ID,
+        dimensions: 768,
+      });
+    });
+
+    it('maps an invalid profile to 400', async () => {
+      mockStartEmbeddingReindex.execute.mockRejectedValue(
+        new Error('Invalid dimensions: 7'),
+      );
+
+      await expect(
+        controller.startSectorReindex(SECTOR_ID, { dimensions: 7 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('maps a running re-index to 409', async () => {
+      mockStartEmbeddingReindex.execute.mockRejectedValue(
+        new Error('An embedding re-index is already running for this sector'),
+      );
+
+      await expect(
+        controller.startSectorReindex(SECTOR_ID, {}),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('POST /admin/knowledge/sectors/:sectorId/embedding-indexes/rollback', () => {
+    it('returns the index serving the sector again', async () => {
+      mockRollbackEmbeddingIndex.execute.mockResolvedValue(
+        EmbeddingIndex.initial(SECTOR_ID, PROFILE),
+      );
+
+      const result = await controller.rollbackSectorIndex(SECTOR_ID);
+
+      expect(result.namespace).toBe(SECTOR_ID);
+      expect(mockRollbackEmbeddingIndex.execute).toHaveBeenCalledWith(
+        SECTOR_ID,
+      );
+    });
+
+    it('maps a concurrent index change to 409', async () => {
+      mockRollbackEmbeddingIndex.execute.mockRejectedValue(
+        new Error(
+          `Embedding index conflict: the indexes of sector ${SECTOR_ID} were changed concurrently`,
+        ),
+      );
+
+      await expect(controller.rollbackSectorIndex(SECTOR_ID)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('maps nothing to roll back to 409', async () => {
+      mockRollbackEmbeddingIndex.execute.mockRejectedValue(
+        new Error('No embedding index to roll back to'),
+      );
+
+      await expect(controller.rollbackSectorIndex(SECTOR_ID)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+// Mock pdf-parse before any imports that use it
+jest.mock('pdf-parse', () => jest.fn());
+
+import { InternalKnowledgeController } from '../../../../../src/modules/knowledge/presentation/internal-knowledge.controller';
+
+describe('InternalKnowledgeController', () => {
+  let controller: InternalKnowledgeController;
+  const mockPipeline = { processSource: jest.fn() };
+  const mockRefreshUrlSources = { execute: jest.fn() };
+  const mockReconcileVectorStore = { execute: jest.fn() };
+  const mockBuildEmbeddingIndex = { execute: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new InternalKnowledgeController(
+      mockPipeline as never,
+      mockRefreshUrlSources as never,
+      mockReconcileVectorStore as never,
+      mockBuildEmbeddingIndex as never,
+    );
+  });
+
+  describe('POST /internal/knowledge/sources/:id/process', () => {
+    it('calls IngestionPipelineService.processSource and returns 200', async () => {
+      mockPipeline.processSource.mockResolvedValue(undefined);
+
+      const result = await controller.processSource('source-1');
+
+      expect(mockPipeline.processSource).toHaveBeenCalledWith('source-1');
+      expect(result).toEqual({ status: 'completed' });
+    });
+
+    it('propagates errors from the pipeline', async () => {
+      mockPipeline.processSource.mockRejectedValue(
+        new Error('Knowledge source source-1 not found'),
+      );
+
+      await expect(controller.processSource('source-1')).rejects.toThrow(
+        'not found',
+      );
+    });
+  });
+
+  describe('POST /internal/knowledge/refresh-url-sources', () => {
+    it('runs the URL source refresh and returns its counts', async () => {
+      const counts = { checked: 2, changed: 1, unchanged: 1, failed: 0 };
+      mockRefreshUrlSources.execute.mockResolvedValue(counts);
+
+      const result = await controller.refreshUrlSourcesNow();
+
+      expect(mockRefreshUrlSources.execute).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(counts);
+    });
+  });
+
+  describe('POST /internal/knowledge/reconcile-vectors', () => {
+    it('runs a reconciliation that repairs the drift', async () => {
+      const report = { dryRun: false, sectors: [] };
+      mockReconcileVectorStore.execute.mockResolvedValue(report);
+
+      const result = await controller.reconcileVectors();
+
+      expect(mockReconcileVectorStore.execute).toHaveBeenCalledWith({
+        dryRun: false,
+      });
+      expect(result).toBe(report);
+    });
+  });
+
+  describe('POST /internal/knowledge/embedding-indexes/:id/build', () => {
+    it('reports that the build continues while batches remain', async () => {
+      mockBuildEmbeddingIndex.execute.mockResolvedValue(true);
+
+      const result = await controller.buildIndex('index-2');
+
+      expect(mockBuildEmbeddingIndex.execute).toHaveBeenCalledWith('index-2');
+      expect(result).toEqual({ status: 'continuing' });
+    });
+
+    it('reports completion after the last batch', async () => {
+      mockBuildEmbeddingIndex.execute.mockResolvedValue(false);
+
+      const result = await controller.buildIndex('index-2');
+
+      expect(result).toEqual({ status: 'completed' });
+    });
+  });
+});
@@ -11,12 +11,32 @@ jest.mock('@genkit-ai/google-genai', () => ({
 }));
 
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { KnowledgeController } from '../../../../../src/modules/knowledge/presentation/knowledge.controller';
 import { IngestDocumentUseCase } from '../../../../../src/modules/knowledge/application/use-cases/ingest-document.use-case';
+import { IngestUrlUseCase } from '../../../../../src/modules/knowledge/application/use-cases/ingest-url.use-case';
 import { DeleteSourceUseCase } from '../../../../../src/modules/knowledge/application/use-cases/delete-source.use-case';
-import { SourceType } from '@shared/types';
+import { IngestSourceVersionUseCase } from '../../../../../src/modules/knowledge/application/use-cases/ingest-source-version.use-case';
+import { RestoreSourceVersionUseCase } from '../../../../../src/modules/knowledge/application/use-cases/restore-source-version.use-case';
+import { TagSourcesUseCase } from '../../../../../src/modules/knowledge/application/use-cases/tag-sources.use-case';
+import { ListSourcesUseCase } from '../../../../../src/modules/knowledge/application/use-cases/list-sources.use-case';
+import { SearchKnowledgeUseCase } from '../../../../../src/modules/knowledge/application/use-cases/search-knowledge.use-case';
+import { ListFragmentsUseCase } from '../../../../../src/modules/knowledge/application/use-cases/list-fragments.use-case';
+import { UpdateFragmentUseCase } from '../../../../../src/modules/knowledge/application/use-cases/update-fragment.use-case';
+import { SplitFragmentUseCase } from '../../../../../src/modules/knowledge/application/use-cases/split-fragment.use-case';
+import { MergeFragmentsUseCase } from '../../../../../src/modules/knowledge/application/use-cases/merge-fragments.use-case';
+import { GetKnowledgeQuotaUseCase } from '../../../../../src/modules/knowledge/application/use-cases/get-knowledge-quota.use-case';
+import { Fragment } from '../../../../../src/modules/knowledge/domain/entities/fragment.entity';
+import { KnowledgeSource } from '../../../../../src/modules/knowledge/domain/entities/knowledge-source.entity';
+import { KnowledgeSourceRevision } from '../../../../../src/modules/knowledge/domain/entities/knowledge-source-revision.entity';
+import { ChunkingStrategy, SourceType, SourceStatus } from '@shared/types';
 import type { IngestDocumentResult } from '../../../../../src/modules/knowledge/application/dtos/ingest-document.dto';
 import type { DeleteSourceResult } from '../../../../../src/modules/knowledge/application/dtos/delete-source.dto';
 import { JwtAuthGuard } from '../../../../../src/modules/auth/guards/jwt-auth.guard';
@@ -27,7 +47,17 @@ import { TokenRevocationService } from '../../../../../src/modules/auth/applicat
 describe('KnowledgeController', () => {
   let controller: KnowledgeController;
   let mockIngestUseCase: jest.Mocked<IngestDocumentUseCase>;
+  let mockIngestUrlUseCase: jest.Mocked<IngestUrlUseCase>;
   let mockDeleteUseCase: jest.Mocked<DeleteSourceUseCase>;
+  let mockIngestVersionUseCase: jest.Mocked<IngestSourceVersionUseCase>;
+  let mockRestoreVersionUseCase: jest.Mocked<RestoreSourceVersionUseCase>;
+  let mockTagSourcesUseCase: jest.Mocked<TagSourcesUseCase>;
+  let mockSearchKnowledgeUseCase: jest.Mocked<SearchKnowledgeUseCase>;
+  let mockListFragmentsUseCase: jest.Mocked<ListFragmentsUseCase>;
+  let mockUpdateFragmentUseCase: jest.Mocked<UpdateFragmentUseCase>;
+  let mockSplitFragmentUseCase: jest.Mocked<SplitFragmentUseCase>;
+  let mockMergeFragmentsUseCase: jest.Mocked<MergeFragmentsUseCase>;
+  let mockGetKnowledgeQuotaUseCase: jest.Mocked<GetKnowledgeQuotaUseCase>;
 
   const mockKnowledgeRepository = {
     findAllSources: jest.fn(),
@@ -43,6 +73,7 @@ describe('KnowledgeController', () => {
     findFragmentsBySource: jest.fn(),
     deleteFragmentsBySource: jest.fn(),
     countFragmentsBySource: jest.fn(),
+    findRevisionsBySource: jest.fn(),
     transaction: jest.fn(),
   };
 
@@ -52,11 +83,52 @@ describe('KnowledgeController', () => {
       execute: jest.fn(),
     } as unknown as jest.Mocked<IngestDocumentUseCase>;
 
+    // Mock IngestUrlUseCase
+    mockIngestUrlUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<IngestUrlUseCase>;
+
     // Mock DeleteSourceUseCase
     mockDeleteUseCase = {
       execute: jest.fn(),
     } as unknown as jest.Mocked<DeleteSourceUseCase>;
 
+    mockIngestVersionUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<IngestSourceVersionUseCase>;
+
+    mockRestoreVersionUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<RestoreSourceVersionUseCase>;
+
+    mockTagSourcesUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<TagSourcesUseCase>;
+
+    mockSearchKnowledgeUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<SearchKnowledgeUseCase>;
+
+    mockListFragmentsUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<ListFragmentsUseCase>;
+
+    mockUpdateFragmentUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<UpdateFragmentUseCase>;
+
+    mockSplitFragmentUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<SplitFragmentUseCase>;
+
+    mockMergeFragmentsUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<MergeFragmentsUseCase>;
+
+    mockGetKnowledgeQuotaUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<GetKnowledgeQuotaUseCase>;
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [KnowledgeController],
       providers: [
@@ -64,10 +136,51 @@ describe('KnowledgeController', () => {
           provide: IngestDocumentUseCase,
           useValue: mockIngestUseCase,
         },
+        {
+          provide: IngestUrlUseCase,
+          useValue: mockIngestUrlUseCase,
+        },
         {
           provide: DeleteSourceUseCase,
           useValue: mockDeleteUseCase,
         },
+        {
+          provide: IngestSourceVersionUseCase,
+          useValue: mockIngestVersionUseCase,
+        },
+        {
+          provide: RestoreSourceVersionUseCase,
+          useValue: mockRestoreVersionUseCase,
+        },
+        {
+          provide: TagSourcesUseCase,
+          useValue: mockTagSourcesUseCase,
+        },
+        ListSourcesUseCase,
+        {
+          provide: SearchKnowledgeUseCase,
+          useValue: mockSearchKnowledgeUseCase,
+        },
+        {
+          provide: ListFragmentsUseCase,
+          useValue: mockListFragmentsUseCase,
+        },
+        {
+          provide: UpdateFragmentUseCase,
+          useValue: mockUpdateFragmentUseCase,
+        },
+        {
+          provide: SplitFragmentUseCase,
+          useValue: mockSplitFragmentUseCase,
+        },
+        {
+          provide: MergeFragmentsUseCase,
+          useValue: mockMergeFragmentsUseCase,
+        },
+        {
+          provide: GetKnowledgeQuotaUseCase,
+          useValue: mockGetKnowledgeQuotaUseCase,
+        },
         {
           provide: 'IKnowledgeRepository',
           useValue: mockKnowledgeRepository,
@@ -150,6 +263,8 @@ describe('KnowledgeController', () => {
         sourceType: SourceType.PDF,
         status: 'COMPLETED',
         metadata: { author: 'Test' },
+        tags: ['hr', 'onboarding'],
+        category: 'Policies',
         createdAt: new Date('2025-01-01'),
         updatedAt: new Date('2025-01-02'),
       },
@@ -160,6 +275,7 @@ describe('KnowledgeController', () => {
         sourceType: SourceType.MARKDOWN,
         status: 'PROCESSING',
         metadata: null,
+        tags: ['hr'],
         createdAt: new Date('2025-02-01'),
         updatedAt: new Date('2025-02-02'),
       },
@@ -209,6 +325,8 @@ describe('KnowledgeController', () => {
         sourceType: SourceType.PDF,
         status: 'COMPLETED',
         metadata: { author: 'Test' },
+        tags: ['hr', 'onboarding'],
+        category: 'Policies',
         createdAt: '2025-01-01T00:00:00.000Z',
         updatedAt: '2025-01-02T00:00:00.000Z',
       });
@@ -237,6 +355,80 @@ describe('KnowledgeController', () => {
 
       await expect(controller.listDocuments()).rejects.toThrow('Database error');
     });
+
+    it('should filter by comma-separated tags and category', async () => {
+      mockKnowledgeRepository.findAllSources.mockResolvedValue(mockSources);
+
+      const result = await controller.listDocuments(
+        undefined,
+        'onboarding,finance',
+        'policies',
+      );
+
+      expect(result).toEqual([
+        expect.objectContaining({ title: 'Document 1' }),
+      ]);
+    });
+
+    it('should return facet counts when includeFacets is true', async () => {
+      mockKnowledgeRepository.findAllSources.mockResolvedValue(mockSources);
+
+      const result = await controller.listDocuments(
+        undefined,
+        undefined,
+        undefined,
+        'true',
+      );
+
+      expect(result).toEqual({
+        documents: [
+          expect.objectContaining({ title: 'Document 1' }),
+          expect.objectContaining({ title: 'Document 2' }),
+        ],
+        facets: {
+          tags: [
+            { value: 'hr', count: 2 },
+            { value: 'onboarding', count: 1 },
+          ],
+          categories: [{ value: 'Policies', count: 1 }],
+        },
+      });
+    });
+  });
+
+  describe('getQuota', () => {
+    it('should return the quota of the sector', async () => {
+      // Arrange
+      const sectorId = '550e8400-e29b-41d4-a716-446655440000';
+      const quota = {
+        sectorId,
+        sources: { used: 10, limit: 500, remaining: 490 },
+        fragments: { used: 400, limit: 50000, remaining: 49600 },
+        tokens: { used: 120000, limit: 10000000, remaining: 9880000 },
+        maxFileSizeBytes: { [SourceType.PDF]: 10485760 } as Record<
+          SourceType,
+          number
+        >,
+      };
+      mockGetKnowledgeQuotaUseCase.execute.mockResolvedValue(quota);
+
+      // Act
+      const result = await controller.getQuota(sectorId);
+
+      // Assert
+      expect(result).toEqual(quota);
+      expect(mockGetKnowledgeQuotaUseCase.execute).toHaveBeenCalledWith(
+        sectorId,
+      );
+    });
+
+    it('should throw BadRequestException for a missing or invalid sectorId', async () => {
+      await expect(controller.getQuota()).rejects.toThrow(BadRequestException);
+      await expect(controller.getQuota('invalid-uuid')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockGetKnowledgeQuotaUseCase.execute).not.toHaveBeenCalled();
+    });
   });
 
   describe('getDocumentDetail', () => {
@@ -293,8 +485,109 @@ describe('KnowledgeController', () => {
     });
   });
 
+  describe('getIngestionStatus', () => {
+    const validSourceId = '550e8400-e29b-41d4-a716-446655440000';
+
+    const createSource = (overrides: Record<string, unknown> = {}) => ({
+      id: validSourceId,
+      status: SourceStatus.PROCESSING,
+      processingStep: 'EMBEDDING',
+      processingProgress: 30,
+      isCompleted: () => false,
+      getLowConfidencePages: () => [],
+      ...overrides,
+    });
+
+    it('should return step and progress while processing', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(createSource());
+
+      const result = await controller.getIngestionStatus(validSourceId);
+
+      expect(result).toEqual({
+        sourceId: validSourceId,
+        status: SourceStatus.PROCESSING,
+        currentStep: 'EMBEDDING',
+        progress: 30,
+      });
+      expect(mockKnowledgeRepository.countFragmentsBySource).not.toHaveBeenCalled();
+    });
+
+    it('should include the fragment count once completed', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(
+        createSource({
+          status: SourceStatus.COMPLETED,
+          processingStep: 'INDEXING',
+          processingProgress: 100,
+          isCompleted: () => true,
+        }),
+      );
+      mockKnowledgeRepository.countFragmentsBySource.mockResolvedValue(12);
+
+      const result = await controller.getIngestionStatus(validSourceId);
+
+      expect(result.status).toBe(SourceStatus.COMPLETED);
+      expect(result.progress).toBe(100);
+      expect(result.fragmentCount).toBe(12);
+    });
+
+    it('should include the error message when ingestion failed', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(
+        createSource({
+          status: SourceStatus.FAILED,
+          errorMessage: 'API rate limit exceeded',
+        }),
+      );
+
+      const result = await controller.getIngestionStatus(validSourceId);
+
+      expect(result.status).toBe(SourceStatus.FAILED);
+      expect(result.errorMessage).toBe('API rate limit exceeded');
+    });
+
+    it('should list the scanned pages recognized with low confidence', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(
+        createSource({ getLowConfidencePages: () => [2, 5] }),
+      );
+
+      const result = await controller.getIngestionStatus(validSourceId);
+
+      expect(result.lowConfidencePages).toEqual([2, 5]);
+    });
+
+    it('should return only the status for a PENDING source', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(
+        createSource({
+          status: SourceStatus.PENDING,
+          processingStep: undefined,
+          processingProgress: undefined,
+        }),
+      );
+
+      const result = await controller.getIngestionStatus(validSourceId);
+
+      expect(result).toEqual({
+        sourceId: validSourceId,
+        status: SourceStatus.PENDING,
+      });
+    });
+
+    it('should throw BadRequestException for invalid UUID', async () => {
+      await expect(
+        controller.getIngestionStatus('not-a-uuid'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when source not found', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(null);
+
+      await expect(
+        controller.getIngestionStatus(validSourceId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
   describe('uploadDocument', () => {
-    it('should successfully upload and ingest a PDF document', async () => {
+    it('should accept a PDF document for background ingestion', async () => {
       // Arrange
       const mockFile = createMockFile('PDF content', 'application/pdf');
       const dto = {
@@ -307,9 +600,8 @@ describe('KnowledgeController', () => {
       const expectedResult: IngestDocumentResult = {
         sourceId: 'source-123',
         title: 'Test Document',
-        fragmentCount: 5,
         contentSize: 1234,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       mockIngestUseCase.execute.mockResolvedValue(expectedResult);
@@ -340,9 +632,8 @@ describe('KnowledgeController', () => {
       const expectedResult: IngestDocumentResult = {
         sourceId: 'source-456',
         title: 'Markdown Doc',
-        fragmentCount: 3,
         contentSize: 500,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       mockIngestUseCase.execute.mockResolvedValue(expectedResult);
@@ -352,7 +643,7 @@ describe('KnowledgeController', () => {
 
       // Assert
       expect(result.sourceId).toBe('source-456');
-      expect(result.status).toBe('COMPLETED');
+      expect(result.status).toBe(SourceStatus.PENDING);
     });
 
     it('should throw error if file is missing', async () => {
@@ -517,9 +808,8 @@ describe('KnowledgeController', () => {
       const expectedResult: IngestDocumentResult = {
         sourceId: 'source-789',
         title: 'Test Document',
-        fragmentCount: 1,
         contentSize: 100,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       mockIngestUseCase.execute.mockResolvedValue(expectedResult);
@@ -566,9 +856,8 @@ describe('KnowledgeController', () => {
       const expectedResult: IngestDocumentResult = {
         sourceId: 'source-text',
         title: 'Text Document',
-        fragmentCount: 1,
         contentSize: 100,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       mockIngestUseCase.execute.mockResolvedValue(expectedResult);
@@ -577,7 +866,82 @@ describe('KnowledgeController', () => {
       const result = await controller.uploadDocument(mockFile, dto);
 
       // Assert
-      expect(result.status).toBe('COMPLETED');
+      expect(result.status).toBe(SourceStatus.PENDING);
+    });
+
+    it('should accept Word, HTML and CSV files', async () => {
+      // Arrange
+      mockIngestUseCase.execute.mockResolvedValue({
+        sourceId: 'source-office',
+        title: 'Office Document',
+        contentSize: 100,
+        status: SourceStatus.PENDING,
+      });
+      const uploads: Array<[string, SourceType]> = [
+        [
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          SourceType.DOCX,
+        ],
+        ['text/html', SourceType.HTML],
+        ['text/csv', SourceType.CSV],
+      ];
+
+      for (const [mimetype, sourceType] of uploads) {
+        // Act
+        const result = await controller.uploadDocument(
+          createMockFile('content', mimetype),
+          {
+            title: 'Office Document',
+            sectorId: '550e8400-e29b-41d4-a716-446655440000',
+            sourceType,
+          },
+        );
+
+        // Assert
+        expect(result.status).toBe(SourceStatus.PENDING);
+      }
+      expect(mockIngestUseCase.execute).toHaveBeenCalledTimes(uploads.length);
+    });
+
+    it('should accept CSV files reported as Excel by the browser', async () => {
+      // Arrange
+      const csvFile = {
+        ...createMockFile('a,b\n1,2', 'application/vnd.ms-excel'),
+        originalname: 'expenses.CSV',
+      };
+      mockIngestUseCase.execute.mockResolvedValue({
+        sourceId: 'source-csv',
+        title: 'Expenses',
+        contentSize: 7,
+        status: SourceStatus.PENDING,
+      });
+
+      // Act
+      const result = await controller.uploadDocument(csvFile, {
+        title: 'Expenses',
+        sectorId: '550e8400-e29b-41d4-a716-446655440000',
+        sourceType: SourceType.CSV,
+      });
+
+      // Assert
+      expect(result.sourceId).toBe('source-csv');
+    });
+
+    it('should reject Excel MIME types for files that are not CSV', async () => {
+      // Arrange
+      const spreadsheet = {
+        ...createMockFile('content', 'application/vnd.ms-excel'),
+        originalname: 'expenses.xls',
+      };
+
+      // Act & Assert
+      await expect(
+        controller.uploadDocument(spreadsheet, {
+          title: 'Expenses',
+          sectorId: '550e8400-e29b-41d4-a716-446655440000',
+          sourceType: SourceType.CSV,
+        }),
+      ).rejects.toThrow('Invalid file type');
     });
 
     it('should pass metadata to use case if provided', async () => {
@@ -593,9 +957,8 @@ describe('KnowledgeController', () => {
       const expectedResult: IngestDocumentResult = {
         sourceId: 'source-meta',
         title: 'Test Document',
-        fragmentCount: 1,
         contentSize: 100,
-        status: 'COMPLETED',
+        status: SourceStatus.PENDING,
       };
 
       mockIngestUseCase.execute.mockResolvedValue(expectedResult);
@@ -610,6 +973,200 @@ describe('KnowledgeController', () => {
         }),
       );
     });
+
+    it('should pass the chunking strategy to the use case', async () => {
+      // Arrange
+      const mockFile = createMockFile('# Title', 'text/markdown');
+      mockIngestUseCase.execute.mockResolvedValue({
+        sourceId: 'source-structured',
+        title: 'Handbook',
+        contentSize: 7,
+        status: SourceStatus.PENDING,
+      });
+
+      // Act
+      await controller.uploadDocument(mockFile, {
+        title: 'Handbook',
+        sectorId: '550e8400-e29b-41d4-a716-446655440000',
+        sourceType: SourceType.MARKDOWN,
+        chunkingStrategy: ChunkingStrategy.STRUCTURED,
+      });
+
+      // Assert
+      expect(mockIngestUseCase.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          chunkingStrategy: ChunkingStrategy.STRUCTURED,
+        }),
+      );
+    });
+
+    it('should map duplicate content to ConflictException', async () => {
+      // Arrange
+      const mockFile = createMockFile('PDF content', 'application/pdf');
+      mockIngestUseCase.execute.mockRejectedValue(
+        new Error(
+          'Duplicate of knowledge source source-1 ("Handbook"): the sector already has this content',
+        ),
+      );
+
+      // Act & Assert
+      await expect(
+        controller.uploadDocument(mockFile, {
+          title: 'Handbook',
+          sectorId: '550e8400-e29b-41d4-a716-446655440000',
+          sourceType: SourceType.PDF,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should map a full sector quota to ForbiddenException', async () => {
+      // Arrange
+      const mockFile = createMockFile('PDF content', 'application/pdf');
+      mockIngestUseCase.execute.mockRejectedValue(
+        new Error('Sector quota exceeded: 500/500 sources'),
+      );
+
+      // Act & Assert
+      await expect(
+        controller.uploadDocument(mockFile, {
+          title: 'Handbook',
+          sectorId: '550e8400-e29b-41d4-a716-446655440000',
+          sourceType: SourceType.PDF,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should map a file over its type limit to PayloadTooLargeException', async () => {
+      // Arrange
+      const mockFile = createMockFile('PDF content', 'application/pdf');
+      mockIngestUseCase.execute.mockRejectedValue(
+        new Error('File too large for PDF sources. Maximum size is 5MB'),
+      );
+
+      // Act & Assert
+      await expect(
+        controller.uploadDocument(mockFile, {
+          title: 'Handbook',
+          sectorId: '550e8400-e29b-41d4-a716-446655440000',
+          sourceType: SourceType.PDF,
+        }),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it('should return near duplicates with the accepted document', async () => {
+      // Arrange
+      const mockFile = createMockFile('PDF content', 'application/pdf');
+      const expectedResult: IngestDocumentResult = {
+        sourceId: 'source-123',
+        title: 'Handbook',
+        contentSize: 1234,
+        status: SourceStatus.PENDING,
+        warning:
+          'Similar to 1 existing source(s) in this sector: "Handbook 2023" (92%)',
+        nearDuplicates: [
+          {
+            sourceId: 'source-1',
+            title: 'Handbook 2023',
+            similarity: 0.92,
+            diff: { addedLines: 12, removedLines: 3, unchangedLines: 240 },
+          },
+        ],
+      };
+      mockIngestUseCase.execute.mockResolvedValue(expectedResult);
+
+      // Act
+      const result = await controller.uploadDocument(mockFile, {
+        title: 'Handbook',
+        sectorId: '550e8400-e29b-41d4-a716-446655440000',
+        sourceType: SourceType.PDF,
+      });
+
+      // Assert
+      expect(result).toEqual(expectedResult);
+    });
+  });
+
+  describe('ingestUrl', () => {
+    const dto = {
+      url: 'https://example.com/handbook/vacations',
+      title: 'Vacation Policy',
+      sectorId: '550e8400-e29b-41d4-a716-446655440000',
+    };
+
+    it('should accept a web page for background ingestion', async () => {
+      // Arrange
+      const expectedResult: IngestDocumentResult = {
+        sourceId: 'source-123',
+        title: 'Vacation Policy',
+        contentSize: 2048,
+        status: SourceStatus.PENDING,
+      };
+      mockIngestUrlUseCase.execute.mockResolvedValue(expectedResult);
+
+      // Act
+      const result = await controller.ingestUrl({
+        ...dto,
+        url: `  ${dto.url} `,
+        metadata: { owner: 'HR' },
+      });
+
+      // Assert
+      expect(result).toEqual(expectedResult);
+      expect(mockIngestUrlUseCase.execute).toHaveBeenCalledWith({
+        ...dto,
+        metadata: { owner: 'HR' },
+      });
+    });
+
+    it('should map fetch failures to BadRequestException', async () => {
+      // Arrange
+      mockIngestUrlUseCase.execute.mockRejectedValue(
+        new Error('Failed to fetch URL: HTTP 404'),
+      );
+
+      // Act & Assert
+      await expect(controller.ingestUrl(dto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should map pages without readable content to BadRequestException', async () => {
+      // Arrange
+      mockIngestUrlUseCase.execute.mockRejectedValue(
+        new Error('Failed to parse HTML: No readable content found in page'),
+      );
+
+      // Act & Assert
+      await expect(controller.ingestUrl(dto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should map duplicate content to ConflictException', async () => {
+      // Arrange
+      mockIngestUrlUseCase.execute.mockRejectedValue(
+        new Error(
+          'Duplicate of knowledge source source-1 ("Vacations"): the sector already has this content',
+        ),
+      );
+
+      // Act & Assert
+      await expect(controller.ingestUrl(dto)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should propagate other errors', async () => {
+      // Arrange
+      mockIngestUrlUseCase.execute.mockRejectedValue(
+        new Error('Database connection failed'),
+      );
+
+      // Act & Assert
+      await expect(controller.ingestUrl(dto)).rejects.toThrow(
+        'Database connection failed',
+      );
+    });
   });
 
   describe('deleteDocument', () => {
@@ -691,4 +1248,528 @@ describe('KnowledgeController', () => {
       ).rejects.toThrow('Unexpected internal error');
     });
   });
+
+  describe('uploadDocumentVersion', () => {
+    const validSourceId = '550e8400-e29b-41d4-a716-446655440000';
+    const versionResult = {
+      sourceId: validSourceId,
+      title: 'Policy',
+      version: 2,
+      contentSize: 15,
+      status: SourceStatus.PENDING as const,
+    };
+
+    it('should accept a new version of a document', async () => {
+      // Arrange
+      const file = createMockFile('Updated content');
+      mockIngestVersionUseCase.execute.mockResolvedValue(versionResult);
+
+      // Act
+      const result = await controller.uploadDocumentVersion(
+        validSourceId,
+        file,
+        { metadata: { author: 'HR' } },
+      );
+
+      // Assert
+      expect(result).toEqual(versionResult);
+      expect(mockIngestVersionUseCase.execute).toHaveBeenCalledWith({
+        sourceId: validSourceId,
+        buffer: file.buffer,
+        metadata: { author: 'HR' },
+      });
+    });
+
+    it('should reject a missing file or an invalid sourceId', async () => {
+      await expect(
+        controller.uploadDocumentVersion(validSourceId, undefined, {}),
+      ).rejects.toThrow('File is required');
+      await expect(
+        controller.uploadDocumentVersion(
+          'not-a-uuid',
+          createMockFile('Updated content'),
+          {},
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockIngestVersionUseCase.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(
+        controller.uploadDocumentVersion(
+          validSourceId,
+          createMockFile('Updated content', 'image/png'),
+          {},
+        ),
+      ).rejects.toThrow('Invalid file type');
+    });
+
+    it.each([
+      ['Knowledge source not found: x', NotFoundException],
+      ['Content is identical to the current version', ConflictException],
+      [
+        'Cannot replace content while the source is processing',
+        ConflictException,
+      ],
+      ['URL sources are versioned by re-crawling', BadRequestException],
+      [
+        'Sector quota exceeded: the new version adds about 10 tokens, 1 of 10 remain',
+        ForbiddenException,
+      ],
+      [
+        'File too large for PDF sources. Maximum size is 1MB',
+        PayloadTooLargeException,
+      ],
+    ])('should map "%s" to an HTTP error', async (message, exception) => {
+      // Arrange
+      mockIngestVersionUseCase.execute.mockRejectedValue(new Error(message));
+
+      // Act & Assert
+      await expect(
+        controller.uploadDocumentVersion(
+          validSourceId,
+          createMockFile('Updated content'),
+          {},
+        ),
+      ).rejects.toThrow(exception);
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockIngestVersionUseCase.execute.mockRejectedValue(
+        new Error('Queue unavailable'),
+      );
+
+      await expect(
+        controller.uploadDocumentVersion(
+          validSourceId,
+          createMockFile('Updated content'),
+          {},
+        ),
+      ).rejects.toThrow('Queue unavailable');
+    });
+  });
+
+  describe('listDocumentVersions', () => {
+    const validSourceId = '550e8400-e29b-41d4-a716-446655440000';
+
+    it('should return the current version and the superseded ones', async () => {
+      // Arrange
+      const source = new KnowledgeSource({
+        title: 'Policy',
+        sectorId: '660e8400-e29b-41d4-a716-446655440001',
+        sourceType: SourceType.PDF,
+        content: 'Version one content',
+      });
+      source.id = validSourceId;
+      source.replaceContent('Version two content', 'hash-2');
+      source.markAsProcessing();
+      source.markAsCompleted();
+      const revision = new KnowledgeSourceRevision({
+        sourceId: validSourceId,
+        version: 1,
+        content: 'Version one content',
+      });
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(source);
+      mockKnowledgeRepository.findRevisionsBySource.mockResolvedValue([
+        revision,
+      ]);
+
+      // Act
+      const result = await controller.listDocumentVersions(validSourceId);
+
+      // Assert
+      expect(result.currentVersion).toBe(2);
+      expect(result.indexedVersion).toBe(2);
+      expect(result.versions.map((v) => [v.version, v.isCurrent])).toEqual([
+        [2, true],
+        [1, false],
+      ]);
+    });
+
+    it('should throw NotFoundException if the source does not exist', async () => {
+      mockKnowledgeRepository.findSourceById.mockResolvedValue(undefined);
+
+      await expect(
+        controller.listDocumentVersions(validSourceId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('restoreDocumentVersion', () => {
+    const validSourceId = '550e8400-e29b-41d4-a716-446655440000';
+
+    it('should restore a previous version as a new version', async () => {
+      // Arrange
+      const versionResult = {
+        sourceId: validSourceId,
+        title: 'Policy',
+        version: 4,
+        contentSize: 19,
+        status: SourceStatus.PENDING as const,
+      };
+      mockRestoreVersionUseCase.execute.mockResolvedValue(versionResult);
+
+      // Act
+      const result = await controller.restoreDocumentVersion(validSourceId, 2);
+
+      // Assert
+      expect(result).toEqual(versionResult);
+      expect(mockRestoreVersionUseCase.execute).toHaveBeenCalledWith({
+        sourceId: validSourceId,
+        version: 2,
+      });
+    });
+
+    it.each([
+      ['Version 9 not found for knowledge source x', NotFoundException],
+      ['Version 3 is already the current version', ConflictException],
+      ['Version must be a positive integer', BadRequestException],
+    ])('should map "%s" to an HTTP error', async (message, exception) => {
+      mockRestoreVersionUseCase.execute.mockRejectedValue(new Error(message));
+
+      await expect(
+        controller.restoreDocumentVersion(validSourceId, 3),
+      ).rejects.toThrow(exception);
+    });
+  });
+
+  describe('updateDocumentTags', () => {
+    const validSourceId = '550e8400-e29b-41d4-a716-446655440000';
+    const tagResult = {
+      sources: [
+        { sourceId: validSourceId, tags: ['hr'], category: 'Policies' },
+      ],
+      vectorsUpdated: true,
+    };
+
+    it('should tag the source from the path', async () => {
+      mockTagSourcesUseCase.execute.mockResolvedValue(tagResult);
+
+      const result = await controller.updateDocumentTags(validSourceId, {
+        addTags: ['hr'],
+        category: 'Policies',
+      });
+
+      expect(result).toEqual(tagResult);
+      expect(mockTagSourcesUseCase.execute).toHaveBeenCalledWith({
+        sourceIds: [validSourceId],
+        addTags: ['hr'],
+        category: 'Policies',
+      });
+    });
+
+    it('should throw BadRequestException for an invalid sourceId', async () => {
+      await expect(
+        controller.updateDocumentTags('invalid-uuid', { tags: [] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockTagSourcesUseCase.execute).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['Knowledge source not found: x', NotFoundException],
+      ['No tag or category change requested', BadRequestException],
+      ['A source cannot have more than 20 tags', BadRequestException],
+      ['Category cannot exceed 100 characters', BadRequestException],
+    ])('should map "%s" to an HTTP error', async (message, exception) => {
+      mockTagSourcesUseCase.execute.mockRejectedValue(new Error(message));
+
+      await expect(
+        controller.updateDocumentTags(validSourceId, { tags: ['hr'] }),
+      ).rejects.toThrow(exception);
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockTagSourcesUseCase.execute.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        controller.updateDocumentTags(validSourceId, { tags: ['hr'] }),
+      ).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('bulkTagDocuments', () => {
+    it('should tag every listed source', async () => {
+      const dto = {
+        sourceIds: [
+          '550e8400-e29b-41d4-a716-446655440000',
+          '550e8400-e29b-41d4-a716-446655440099',
+        ],
+        removeTags: ['draft'],
+      };
+      mockTagSourcesUseCase.execute.mockResolvedValue({
+        sources: [],
+        vectorsUpdated: true,
+      });
+
+      await controller.bulkTagDocuments(dto);
+
+      expect(mockTagSourcesUseCase.execute).toHaveBeenCalledWith(dto);
+    });
+  });
+
+  describe('searchKnowledge', () => {
+    const userId = 'user-uuid-123';
+
+    it('should search with the caller as user', async () => {
+      const result = {
+        query: 'remote work',
+        results: [
+          {
+            fragmentId: 'fragment-123',
+            sourceId: 'source-123',
+            sourceTitle: 'Remote Work Policy',
+            sectorId: 'sector-123',
+            position: 2,
+            snippet: 'A <mark>remote</mark> work allowance',
+            score: 0.4,
+          },
+        ],
+        limit: 20,
+        offset: 0,
+        hasMore: false,
+      };
+      mockSearchKnowledgeUseCase.execute.mockResolvedValue(result);
+
+      const response = await controller.searchKnowledge(
+        { q: 'remote work', limit: 20 },
+        userId,
+      );
+
+      expect(response).toEqual(result);
+      expect(mockSearchKnowledgeUseCase.execute).toHaveBeenCalledWith({
+        query: 'remote work',
+        userId,
+        sectorId: undefined,
+        limit: 20,
+        offset: undefined,
+      });
+    });
+
+    it('should throw ForbiddenException for a sector the user cannot access', async () => {
+      mockSearchKnowledgeUseCase.execute.mockRejectedValue(
+        new Error('Access denied to sector sector-123'),
+      );
+
+      await expect(
+        controller.searchKnowledge(
+          { q: 'remote work', sectorId: 'sector-123' },
+          userId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw BadRequestException for invalid input', async () => {
+      mockSearchKnowledgeUseCase.execute.mockRejectedValue(
+        new Error('Query must be between 2 and 200 characters'),
+      );
+
+      await expect(
+        controller.searchKnowledge({ q: ' ' }, userId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockSearchKnowledgeUseCase.execute.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        controller.searchKnowledge({ q: 'remote work' }, userId),
+      ).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('fragments', () => {
+    const sourceId = '550e8400-e29b-41d4-a716-446655440000';
+    const fragmentId = '770e8400-e29b-41d4-a716-446655440001';
+    const updatedAt = new Date('2024-03-01T10:00:00.000Z');
+    const createFragment = (): Fragment =>
+      Fragment.fromPersistence({
+        id: fragmentId,
+        sourceId,
+        sourceVersion: 2,
+        content: 'Vacation days: 25 per year.',
+        position: 3,
+        tokenCount: 7,
+        metadata: { headingPath: ['Benefits'], edited: true },
+        excluded: true,
+        createdAt: updatedAt,
+        updatedAt,
+      });
+    const fragmentDto = {
+      id: fragmentId,
+      sourceId,
+      sourceVersion: 2,
+      position: 3,
+      content: 'Vacation days: 25 per year.',
+      tokenCount: 7,
+      headingPath: ['Benefits'],
+      edited: true,
+      excluded: true,
+      updatedAt: '2024-03-01T10:00:00.000Z',
+    };
+
+    it('should list a page of fragments', async () => {
+      mockListFragmentsUseCase.execute.mockResolvedValue({
+        sourceId,
+        indexedVersion: 2,
+        fragments: [createFragment()],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      });
+
+      const result = await controller.listDocumentFragments(sourceId, {
+        limit: 20,
+      });
+
+      expect(mockListFragmentsUseCase.execute).toHaveBeenCalledWith({
+        sourceId,
+        limit: 20,
+        offset: undefined,
+      });
+      expect(result).toEqual({
+        sourceId,
+        indexedVersion: 2,
+        fragments: [fragmentDto],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      });
+    });
+
+    it('should throw NotFoundException when listing an unknown source', async () => {
+      mockListFragmentsUseCase.execute.mockRejectedValue(
+        new Error(`Knowledge source not found: ${sourceId}`),
+      );
+
+      await expect(
+        controller.listDocumentFragments(sourceId, {}),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should update a fragment', async () => {
+      mockUpdateFragmentUseCase.execute.mockResolvedValue({
+        fragments: [createFragment()],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      });
+
+      const result = await controller.updateDocumentFragment(
+        sourceId,
+        fragmentId,
+        { excluded: true },
+      );
+
+      expect(mockUpdateFragmentUseCase.execute).toHaveBeenCalledWith({
+        sourceId,
+        fragmentId,
+        excluded: true,
+      });
+      expect(result).toEqual({
+        fragments: [fragmentDto],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      });
+    });
+
+    it('should throw BadRequestException for an invalid fragmentId', async () => {
+      await expect(
+        controller.updateDocumentFragment(sourceId, 'not-a-uuid', {
+          excluded: true,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUpdateFragmentUseCase.execute).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException while the source is processing', async () => {
+      mockUpdateFragmentUseCase.execute.mockRejectedValue(
+        new Error(
+          'Fragments can only be edited once the source is indexed (status: PROCESSING)',
+        ),
+      );
+
+      await expect(
+        controller.updateDocumentFragment(sourceId, fragmentId, {
+          content: 'Vacation days: 25 per year.',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should split a fragment', async () => {
+      mockSplitFragmentUseCase.execute.mockResolvedValue({
+        fragments: [createFragment()],
+        deletedFragmentIds: [],
+        vectorsUpdated: true,
+      });
+
+      await controller.splitDocumentFragment(sourceId, fragmentId, {
+        splitAt: 12,
+      });
+
+      expect(mockSplitFragmentUseCase.execute).toHaveBeenCalledWith({
+        sourceId,
+        fragmentId,
+        splitAt: 12,
+      });
+    });
+
+    it('should throw BadRequestException when a split part is too short', async () => {
+      mockSplitFragmentUseCase.execute.mockRejectedValue(
+        new Error('Content must be at least 10 characters long'),
+      );
+
+      await expect(
+        controller.splitDocumentFragment(sourceId, fragmentId, {
+          splitAt: 3,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should merge fragments', async () => {
+      const otherId = '770e8400-e29b-41d4-a716-446655440002';
+      mockMergeFragmentsUseCase.execute.mockResolvedValue({
+        fragments: [createFragment()],
+        deletedFragmentIds: [otherId],
+        vectorsUpdated: false,
+      });
+
+      const result = await controller.mergeDocumentFragments(sourceId, {
+        fragmentIds: [fragmentId, otherId],
+      });
+
+      expect(mockMergeFragmentsUseCase.execute).toHaveBeenCalledWith({
+        sourceId,
+        fragmentIds: [fragmentId, otherId],
+      });
+      expect(result.deletedFragmentIds).toEqual([otherId]);
+      expect(result.vectorsUpdated).toBe(false);
+    });
+
+    it('should throw BadRequestException for non-adjacent fragments', async () => {
+      mockMergeFragmentsUseCase.execute.mockRejectedValue(
+        new Error('Only adjacent fragments can be merged'),
+      );
+
+      await expect(
+        controller.mergeDocumentFragments(sourceId, {
+          fragmentIds: [fragmentId, fragmentId],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockMergeFragmentsUseCase.execute.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        controller.mergeDocumentFragments(sourceId, {
+          fragmentIds: [fragmentId, fragmentId],
+        }),
+      ).rejects.toThrow('Database error');
+    });
+  });
 });
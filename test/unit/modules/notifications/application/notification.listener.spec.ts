@@ -4,12 +4,17 @@ import { NotificationService } from '@modules/notifications/application/notifica
 import { UserRepository } from '@modules/users/infrastructure/persistence/repositories/user.repository';
 import { InvitationCreatedEvent } from '@modules/invitations/domain/events/invitation.events';
 import { UserActivatedEvent } from '@modules/users/domain/events/user.events';
+import { KnowledgeSourceRefreshedEvent } from '@modules/knowledge/domain/events/knowledge.events';
 import { NotificationType } from '@shared/types';
 
 // Test constants
 const ADMIN_USER_ID = '550e8400-e29b-41d4-a716-446655440000';
 const INVITATION_ID = '660e8400-e29b-41d4-a716-446655440001';
 const USER_ID = '770e8400-e29b-41d4-a716-446655440002';
+const MANAGER_USER_ID = '880e8400-e29b-41d4-a716-446655440003';
+const SECTOR_ID = '990e8400-e29b-41d4-a716-446655440004';
+const SOURCE_ID = 'aa0e8400-e29b-41d4-a716-446655440005';
+const REVISION_ID = 'bb0e8400-e29b-41d4-a716-446655440006';
 
 describe('NotificationListener', () => {
   let listener: NotificationListener;
@@ -30,6 +35,9 @@ describe('NotificationListener', () => {
 
     const mockUserRepository = {
       findByRole: jest.fn().mockResolvedValue(mockAdminUsers),
+      findByRoleInSector: jest
+        .fn()
+        .mockResolvedValue([{ id: MANAGER_USER_ID }]),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -73,9 +81,7 @@ describe('NotificationListener', () => {
     });
 
     it('should not throw on error', async () => {
-      userRepository.findByRole.mockRejectedValue(
-        new Error('DB error'),
-      );
+      userRepository.findByRole.mockRejectedValue(new Error('DB error'));
 
       await expect(
         listener.handleInvitationCreated(
@@ -114,5 +120,46 @@ describe('NotificationListener', () => {
       );
     });
   });
-});
 
+  describe('handleKnowledgeSourceRefreshed', () => {
+    const event = new KnowledgeSourceRefreshedEvent(
+      SOURCE_ID,
+      SECTOR_ID,
+      'Vacation Policy',
+      REVISION_ID,
+      4,
+      new Date(),
+    );
+
+    it('should notify the managers of the source sector', async () => {
+      await listener.handleKnowledgeSourceRefreshed(event);
+
+      expect(userRepository.findByRoleInSector).toHaveBeenCalledWith(
+        'manager',
+        SECTOR_ID,
+      );
+      expect(notificationService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: MANAGER_USER_ID,
+          type: NotificationType.DOCUMENT_PROCESSED,
+          title: 'Web Page Updated',
+          metadata: expect.objectContaining({
+            sourceId: SOURCE_ID,
+            revisionId: REVISION_ID,
+            fragmentCount: 4,
+          }),
+        }),
+      );
+    });
+
+    it('should not throw on error', async () => {
+      userRepository.findByRoleInSector.mockRejectedValue(
+        new Error('DB error'),
+      );
+
+      await expect(
+        listener.handleKnowledgeSourceRefreshed(event),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { GlossaryCacheInvalidationListener } from '../../../../../../src/modules/sectors/application/listeners/glossary-cache-invalidation.listener';
+import { GlossaryUpdatedEvent } from '../../../../../../src/modules/sectors/domain/events/glossary.events';
+import type { IGlossaryProvider } from '../../../../../../src/modules/sectors/domain/services/glossary-provider.interface';
+
+describe('GlossaryCacheInvalidationListener', () => {
+  let glossaryProvider: jest.Mocked<IGlossaryProvider>;
+  let listener: GlossaryCacheInvalidationListener;
+
+  beforeEach(() => {
+    glossaryProvider = {
+      getGlossary: jest.fn(),
+      invalidate: jest.fn(),
+    };
+    listener = new GlossaryCacheInvalidationListener(glossaryProvider);
+  });
+
+  it('should invalidate the updated sector', () => {
+    listener.handleGlossaryUpdated(
+      new GlossaryUpdatedEvent('sector-1', 'entry-1', new Date()),
+    );
+
+    expect(glossaryProvider.invalidate).toHaveBeenCalledWith('sector-1');
+  });
+
+  it('should invalidate every sector for global updates', () => {
+    listener.handleGlossaryUpdated(
+      new GlossaryUpdatedEvent(null, 'entry-1', new Date()),
+    );
+
+    expect(glossaryProvider.invalidate).toHaveBeenCalledWith(null);
+  });
+
+  it('should not throw when invalidation fails', () => {
+    glossaryProvider.invalidate.mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    expect(() =>
+      listener.handleGlossaryUpdated(
+        new GlossaryUpdatedEvent('sector-1', 'entry-1', new Date()),
+      ),
+    ).not.toThrow();
+  });
+});
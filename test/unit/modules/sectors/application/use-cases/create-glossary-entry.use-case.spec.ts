@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CreateGlossaryEntryUseCase } from '../../../../../../src/modules/sectors/application/use-cases/create-glossary-entry.use-case';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+import { Sector } from '../../../../../../src/modules/sectors/domain/entities/sector.entity';
+import type { IGlossaryRepository } from '../../../../../../src/modules/sectors/domain/repositories/glossary.repository.interface';
+import type { ISectorRepository } from '../../../../../../src/modules/sectors/domain/repositories/sector.repository.interface';
+import { SectorIcon } from '@shared/types';
+
+describe('CreateGlossaryEntryUseCase', () => {
+  let useCase: CreateGlossaryEntryUseCase;
+  let mockGlossaryRepository: jest.Mocked<IGlossaryRepository>;
+  let mockSectorRepository: jest.Mocked<ISectorRepository>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+
+  const sectorId = '440e8400-e29b-41d4-a716-446655440000';
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+
+  beforeEach(() => {
+    mockGlossaryRepository = {
+      save: jest.fn().mockImplementation(async (entry: GlossaryEntry) => {
+        entry.id = entryId;
+        return entry;
+      }),
+      findById: jest.fn(),
+      findBySector: jest.fn(),
+      findEffective: jest.fn(),
+      existsByTerm: jest.fn().mockResolvedValue(false),
+      delete: jest.fn(),
+    };
+    mockSectorRepository = {
+      findById: jest.fn().mockResolvedValue(
+        new Sector({
+          name: 'Human Resources',
+          description: 'Company policies and employee handbook.',
+          icon: SectorIcon.USERS,
+        }),
+      ),
+    } as unknown as jest.Mocked<ISectorRepository>;
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    useCase = new CreateGlossaryEntryUseCase(
+      mockGlossaryRepository,
+      mockSectorRepository,
+      mockEventEmitter,
+    );
+  });
+
+  it('should create a sector synonym entry and emit glossary.updated', async () => {
+    const result = await useCase.execute({
+      sectorId,
+      type: GlossaryEntryType.SYNONYM,
+      term: 'Vacaciones',
+      synonyms: ['PTO'],
+    });
+
+    expect(result.id).toBe(entryId);
+    expect(result.term).toBe('vacaciones');
+    expect(mockGlossaryRepository.existsByTerm).toHaveBeenCalledWith(
+      sectorId,
+      GlossaryEntryType.SYNONYM,
+      'vacaciones',
+    );
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'glossary.updated',
+      expect.objectContaining({ sectorId, entryId }),
+    );
+  });
+
+  it('should create a global entry without looking up a sector', async () => {
+    const result = await useCase.execute({
+      sectorId: null,
+      type: GlossaryEntryType.CONVERSATIONAL,
+      term: 'gracias',
+      responses: { es: '¡Con gusto!' },
+    });
+
+    expect(result.sectorId).toBeNull();
+    expect(mockSectorRepository.findById).not.toHaveBeenCalled();
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'glossary.updated',
+      expect.objectContaining({ sectorId: null }),
+    );
+  });
+
+  it('should throw NotFoundException when the sector does not exist', async () => {
+    mockSectorRepository.findById.mockResolvedValue(null);
+
+    await expect(
+      useCase.execute({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      }),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockGlossaryRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should throw ConflictException when the term already exists', async () => {
+    mockGlossaryRepository.existsByTerm.mockResolvedValue(true);
+
+    await expect(
+      useCase.execute({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      }),
+    ).rejects.toThrow(ConflictException);
+    expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should throw BadRequestException for invalid entries', async () => {
+    await expect(
+      useCase.execute({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockGlossaryRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DeleteGlossaryEntryUseCase } from '../../../../../../src/modules/sectors/application/use-cases/delete-glossary-entry.use-case';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+import type { IGlossaryRepository } from '../../../../../../src/modules/sectors/domain/repositories/glossary.repository.interface';
+
+describe('DeleteGlossaryEntryUseCase', () => {
+  let useCase: DeleteGlossaryEntryUseCase;
+  let mockGlossaryRepository: jest.Mocked<IGlossaryRepository>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+
+  beforeEach(() => {
+    const entry = new GlossaryEntry({
+      sectorId: null,
+      type: GlossaryEntryType.CONVERSATIONAL,
+      term: 'hola',
+      responses: { es: '¡Hola!' },
+    });
+    entry.id = entryId;
+
+    mockGlossaryRepository = {
+      save: jest.fn(),
+      findById: jest.fn().mockResolvedValue(entry),
+      findBySector: jest.fn(),
+      findEffective: jest.fn(),
+      existsByTerm: jest.fn(),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    useCase = new DeleteGlossaryEntryUseCase(
+      mockGlossaryRepository,
+      mockEventEmitter,
+    );
+  });
+
+  it('should delete a global entry and emit glossary.updated', async () => {
+    const result = await useCase.execute(entryId, null);
+
+    expect(result).toEqual({
+      id: entryId,
+      message: 'Glossary entry deleted successfully',
+    });
+    expect(mockGlossaryRepository.delete).toHaveBeenCalledWith(entryId);
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'glossary.updated',
+      expect.objectContaining({ sectorId: null, entryId }),
+    );
+  });
+
+  it('should throw NotFoundException when the entry does not exist', async () => {
+    mockGlossaryRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(entryId, null)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(mockGlossaryRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('should not delete a global entry through a sector glossary', async () => {
+    await expect(
+      useCase.execute(entryId, '440e8400-e29b-41d4-a716-446655440000'),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockGlossaryRepository.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { UpdateGlossaryEntryUseCase } from '../../../../../../src/modules/sectors/application/use-cases/update-glossary-entry.use-case';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+import type { IGlossaryRepository } from '../../../../../../src/modules/sectors/domain/repositories/glossary.repository.interface';
+
+describe('UpdateGlossaryEntryUseCase', () => {
+  let useCase: UpdateGlossaryEntryUseCase;
+  let mockGlossaryRepository: jest.Mocked<IGlossaryRepository>;
+  let mockEventEmitter: jest.Mocked<EventEmitter2>;
+
+  const sectorId = '440e8400-e29b-41d4-a716-446655440000';
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+
+  function createTestEntry(
+    entrySectorId: string | null = sectorId,
+  ): GlossaryEntry {
+    const entry = new GlossaryEntry({
+      sectorId: entrySectorId,
+      type: GlossaryEntryType.SYNONYM,
+      term: 'vacaciones',
+      synonyms: ['PTO'],
+    });
+    entry.id = entryId;
+    return entry;
+  }
+
+  beforeEach(() => {
+    mockGlossaryRepository = {
+      save: jest.fn().mockImplementation(async (entry: GlossaryEntry) => entry),
+      findById: jest.fn().mockResolvedValue(createTestEntry()),
+      findBySector: jest.fn(),
+      findEffective: jest.fn(),
+      existsByTerm: jest.fn().mockResolvedValue(false),
+      delete: jest.fn(),
+    };
+    mockEventEmitter = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<EventEmitter2>;
+
+    useCase = new UpdateGlossaryEntryUseCase(
+      mockGlossaryRepository,
+      mockEventEmitter,
+    );
+  });
+
+  it('should update synonyms without checking term uniqueness', async () => {
+    const result = await useCase.execute({
+      id: entryId,
+      sectorId,
+      synonyms: ['vacation', 'holidays'],
+    });
+
+    expect(result.synonyms).toEqual(['vacation', 'holidays']);
+    expect(mockGlossaryRepository.existsByTerm).not.toHaveBeenCalled();
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'glossary.updated',
+      expect.objectContaining({ sectorId, entryId }),
+    );
+  });
+
+  it('should check uniqueness of a renamed term', async () => {
+    await useCase.execute({ id: entryId, sectorId, term: 'Holidays' });
+
+    expect(mockGlossaryRepository.existsByTerm).toHaveBeenCalledWith(
+      sectorId,
+      GlossaryEntryType.SYNONYM,
+      'holidays',
+      entryId,
+    );
+  });
+
+  it('should throw ConflictException when the new term already exists', async () => {
+    mockGlossaryRepository.existsByTerm.mockResolvedValue(true);
+
+    await expect(
+      useCase.execute({ id: entryId, sectorId, term: 'holidays' }),
+    ).rejects.toThrow(ConflictException);
+    expect(mockGlossaryRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundException when the entry belongs to another glossary', async () => {
+    mockGlossaryRepository.findById.mockResolvedValue(createTestEntry(null));
+
+    await expect(
+      useCase.execute({ id: entryId, sectorId, synonyms: ['vacation'] }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should throw BadRequestException for invalid updates', async () => {
+    await expect(
+      useCase.execute({ id: entryId, sectorId, synonyms: [] }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+  });
+});
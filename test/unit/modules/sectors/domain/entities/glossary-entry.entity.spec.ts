@@ -0,0 +1,149 @@
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+
+const SECTOR_ID = '440e8400-e29b-41d4-a716-446655440000';
+
+describe('GlossaryEntry', () => {
+  describe('constructor', () => {
+    it('should normalise the term and synonyms', () => {
+      const entry = new GlossaryEntry({
+        sectorId: SECTOR_ID,
+        type: GlossaryEntryType.SYNONYM,
+        term: '  Vacaciones ',
+        synonyms: [' PTO ', 'PTO', '', 'días libres'],
+      });
+
+      expect(entry.term).toBe('vacaciones');
+      expect(entry.synonyms).toEqual(['PTO', 'días libres']);
+      expect(entry.isGlobal()).toBe(false);
+    });
+
+    it('should normalise response language codes', () => {
+      const entry = new GlossaryEntry({
+        sectorId: null,
+        type: GlossaryEntryType.CONVERSATIONAL,
+        term: 'Gracias',
+        responses: { ES: ' ¡Con gusto! ' },
+      });
+
+      expect(entry.responses).toEqual({ es: '¡Con gusto!' });
+      expect(entry.isGlobal()).toBe(true);
+    });
+
+    it('should reject an empty term', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.SYNONYM,
+            term: '   ',
+            synonyms: ['x'],
+          }),
+      ).toThrow('Glossary term cannot be empty');
+    });
+
+    it('should reject a term that is too long', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.SYNONYM,
+            term: 'a'.repeat(GlossaryEntry.TERM_MAX_LENGTH + 1),
+            synonyms: ['x'],
+          }),
+      ).toThrow('cannot exceed');
+    });
+
+    it('should require synonyms for synonym entries', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.SYNONYM,
+            term: 'nómina',
+          }),
+      ).toThrow('A synonym entry needs at least one synonym');
+    });
+
+    it('should require responses for conversational entries', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.CONVERSATIONAL,
+            term: 'hola',
+          }),
+      ).toThrow('A conversational entry needs at least one response');
+    });
+
+    it('should reject invalid language codes', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.CONVERSATIONAL,
+            term: 'hola',
+            responses: { spanish: '¡Hola!' },
+          }),
+      ).toThrow('Invalid response language code: spanish');
+    });
+
+    it('should reject too many synonyms', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: GlossaryEntryType.SYNONYM,
+            term: 'nómina',
+            synonyms: Array.from(
+              { length: GlossaryEntry.MAX_SYNONYMS + 1 },
+              (_, i) => `term ${i}`,
+            ),
+          }),
+      ).toThrow('more than');
+    });
+
+    it('should reject an unknown type', () => {
+      expect(
+        () =>
+          new GlossaryEntry({
+            sectorId: null,
+            type: 'acronym' as GlossaryEntryType,
+            term: 'pto',
+            synonyms: ['paid time off'],
+          }),
+      ).toThrow('Invalid glossary entry type');
+    });
+  });
+
+  describe('update', () => {
+    it('should update only the provided fields', () => {
+      const entry = new GlossaryEntry({
+        sectorId: SECTOR_ID,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      });
+
+      entry.update({ synonyms: ['vacation', 'holidays'] });
+
+      expect(entry.term).toBe('vacaciones');
+      expect(entry.synonyms).toEqual(['vacation', 'holidays']);
+    });
+
+    it('should not allow removing every synonym', () => {
+      const entry = new GlossaryEntry({
+        sectorId: SECTOR_ID,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      });
+
+      expect(() => entry.update({ synonyms: [] })).toThrow(
+        'A synonym entry needs at least one synonym',
+      );
+    });
+  });
+});
@@ -217,5 +217,35 @@ describe('Sector Entity', () => {
       jest.useRealTimers();
     });
   });
-});
 
+  describe('hybrid search settings', () => {
+    it('should default to vector-only retrieval with equal fusion weights', () => {
+      const sector = new Sector(validData);
+
+      expect(sector.hybridSearchEnabled).toBe(false);
+      expect(sector.hybridVectorWeight).toBe(1);
+      expect(sector.hybridLexicalWeight).toBe(1);
+    });
+
+    it('should update the toggle and weights independently', () => {
+      const sector = new Sector(validData);
+
+      sector.update({ hybridSearchEnabled: true, hybridLexicalWeight: 0.4 });
+
+      expect(sector.hybridSearchEnabled).toBe(true);
+      expect(sector.hybridVectorWeight).toBe(1);
+      expect(sector.hybridLexicalWeight).toBe(0.4);
+    });
+
+    it('should throw when a fusion weight is out of range', () => {
+      const sector = new Sector(validData);
+
+      expect(() => sector.update({ hybridVectorWeight: 1.5 })).toThrow(
+        'Hybrid search weight must be between 0 and 1',
+      );
+      expect(
+        () => new Sector({ ...validData, hybridLexicalWeight: -0.1 }),
+      ).toThrow('Hybrid search weight must be between 0 and 1');
+    });
+  });
+});
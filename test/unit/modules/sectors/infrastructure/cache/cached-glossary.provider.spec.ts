@@ -0,0 +1,113 @@
+import { CachedGlossaryProvider } from '../../../../../../src/modules/sectors/infrastructure/cache/cached-glossary.provider';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+import type { IGlossaryRepository } from '../../../../../../src/modules/sectors/domain/repositories/glossary.repository.interface';
+
+describe('CachedGlossaryProvider', () => {
+  let provider: CachedGlossaryProvider;
+  let mockRepository: jest.Mocked<IGlossaryRepository>;
+
+  const sectorId = '440e8400-e29b-41d4-a716-446655440000';
+
+  const globalSynonym = new GlossaryEntry({
+    sectorId: null,
+    type: GlossaryEntryType.SYNONYM,
+    term: 'vacaciones',
+    synonyms: ['PTO'],
+  });
+  const sectorSynonym = new GlossaryEntry({
+    sectorId,
+    type: GlossaryEntryType.SYNONYM,
+    term: 'vacaciones',
+    synonyms: ['días de asuntos propios'],
+  });
+  const globalPhrase = new GlossaryEntry({
+    sectorId: null,
+    type: GlossaryEntryType.CONVERSATIONAL,
+    term: 'gracias',
+    responses: { es: '¡Con gusto!', en: "You're welcome!" },
+  });
+
+  beforeEach(() => {
+    delete process.env.RAG_GLOSSARY_CACHE_TTL_SECONDS;
+    mockRepository = {
+      findEffective: jest
+        .fn()
+        // Sector entries come first to prove ordering does not matter
+        .mockResolvedValue([sectorSynonym, globalSynonym, globalPhrase]),
+    } as unknown as jest.Mocked<IGlossaryRepository>;
+    provider = new CachedGlossaryProvider(mockRepository);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let sector entries override global entries', async () => {
+    const glossary = await provider.getGlossary(sectorId);
+
+    expect(glossary.synonyms.get('vacaciones')).toEqual([
+      'días de asuntos propios',
+    ]);
+    expect(glossary.conversationalResponses.get('gracias')).toEqual({
+      es: '¡Con gusto!',
+      en: "You're welcome!",
+    });
+  });
+
+  it('should load each sector glossary once', async () => {
+    await Promise.all([
+      provider.getGlossary(sectorId),
+      provider.getGlossary(sectorId),
+    ]);
+    await provider.getGlossary(sectorId);
+
+    expect(mockRepository.findEffective).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload after the TTL expires', async () => {
+    jest.useFakeTimers();
+    process.env.RAG_GLOSSARY_CACHE_TTL_SECONDS = '60';
+    provider = new CachedGlossaryProvider(mockRepository);
+
+    await provider.getGlossary(sectorId);
+    jest.advanceTimersByTime(61_000);
+    await provider.getGlossary(sectorId);
+
+    expect(mockRepository.findEffective).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload a sector after it is invalidated', async () => {
+    await provider.getGlossary(sectorId);
+    await provider.getGlossary('other-sector');
+
+    provider.invalidate(sectorId);
+    await provider.getGlossary(sectorId);
+    await provider.getGlossary('other-sector');
+
+    expect(mockRepository.findEffective).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reload every sector when the global defaults change', async () => {
+    await provider.getGlossary(sectorId);
+    await provider.getGlossary('other-sector');
+
+    provider.invalidate(null);
+    await provider.getGlossary(sectorId);
+    await provider.getGlossary('other-sector');
+
+    expect(mockRepository.findEffective).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not cache failed loads', async () => {
+    mockRepository.findEffective.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(provider.getGlossary(sectorId)).rejects.toThrow('db down');
+    const glossary = await provider.getGlossary(sectorId);
+
+    expect(glossary.synonyms.size).toBe(1);
+    expect(mockRepository.findEffective).toHaveBeenCalledTimes(2);
+  });
+});
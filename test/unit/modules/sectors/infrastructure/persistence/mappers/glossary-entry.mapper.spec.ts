@@ -0,0 +1,90 @@
+import { GlossaryEntryMapper } from '../../../../../../../src/modules/sectors/infrastructure/persistence/mappers/glossary-entry.mapper';
+import { GlossaryEntryModel } from '../../../../../../../src/modules/sectors/infrastructure/persistence/models/glossary-entry.model';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+
+describe('GlossaryEntryMapper', () => {
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+  const sectorId = '550e8400-e29b-41d4-a716-446655440000';
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  function createModel(overrides?: Partial<GlossaryEntryModel>): GlossaryEntryModel {
+    const model = new GlossaryEntryModel();
+    model.id = entryId;
+    model.sectorId = sectorId;
+    model.type = GlossaryEntryType.SYNONYM;
+    model.term = 'vacaciones';
+    model.synonyms = ['PTO', 'días libres'];
+    model.responses = {};
+    model.createdAt = now;
+    model.updatedAt = now;
+    Object.assign(model, overrides);
+    return model;
+  }
+
+  describe('toDomain', () => {
+    it('should map GlossaryEntryModel to GlossaryEntry domain entity', () => {
+      const domain = GlossaryEntryMapper.toDomain(createModel());
+
+      expect(domain).toBeInstanceOf(GlossaryEntry);
+      expect(domain.id).toBe(entryId);
+      expect(domain.sectorId).toBe(sectorId);
+      expect(domain.type).toBe(GlossaryEntryType.SYNONYM);
+      expect(domain.term).toBe('vacaciones');
+      expect(domain.synonyms).toEqual(['PTO', 'días libres']);
+      expect(domain.createdAt).toBe(now);
+      expect(domain.updatedAt).toBe(now);
+    });
+
+    it('should map global conversational entries', () => {
+      const domain = GlossaryEntryMapper.toDomain(
+        createModel({
+          sectorId: null,
+          type: GlossaryEntryType.CONVERSATIONAL,
+          term: 'hola',
+          synonyms: [],
+          responses: { es: '¡Hola!' },
+        }),
+      );
+
+      expect(domain.isGlobal()).toBe(true);
+      expect(domain.responses).toEqual({ es: '¡Hola!' });
+    });
+  });
+
+  describe('toModel', () => {
+    it('should map GlossaryEntry domain entity to GlossaryEntryModel', () => {
+      const entry = new GlossaryEntry({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'nómina',
+        synonyms: ['salario'],
+      });
+      entry.id = entryId;
+
+      const model = GlossaryEntryMapper.toModel(entry);
+
+      expect(model).toBeInstanceOf(GlossaryEntryModel);
+      expect(model.id).toBe(entryId);
+      expect(model.sectorId).toBe(sectorId);
+      expect(model.term).toBe('nómina');
+      expect(model.synonyms).toEqual(['salario']);
+    });
+
+    it('should not set id for new entries', () => {
+      const entry = new GlossaryEntry({
+        sectorId: null,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'nómina',
+        synonyms: ['salario'],
+      });
+
+      const model = GlossaryEntryMapper.toModel(entry);
+
+      expect(model.id).toBeUndefined();
+      expect(model.sectorId).toBeNull();
+    });
+  });
+});
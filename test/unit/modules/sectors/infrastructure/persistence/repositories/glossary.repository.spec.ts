@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { GlossaryRepository } from '../../../../../../../src/modules/sectors/infrastructure/persistence/repositories/glossary.repository';
+import { GlossaryEntryModel } from '../../../../../../../src/modules/sectors/infrastructure/persistence/models/glossary-entry.model';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+
+describe('GlossaryRepository', () => {
+  let repository: GlossaryRepository;
+
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+  const sectorId = '550e8400-e29b-41d4-a716-446655440000';
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  function createModel(overrides?: Partial<GlossaryEntryModel>): GlossaryEntryModel {
+    const model = new GlossaryEntryModel();
+    model.id = entryId;
+    model.sectorId = sectorId;
+    model.type = GlossaryEntryType.SYNONYM;
+    model.term = 'vacaciones';
+    model.synonyms = ['PTO'];
+    model.responses = {};
+    model.createdAt = now;
+    model.updatedAt = now;
+    Object.assign(model, overrides);
+    return model;
+  }
+
+  const mockQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getCount: jest.fn(),
+  };
+
+  const mockTypeOrmRepo = {
+    save: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GlossaryRepository,
+        { provide: getRepositoryToken(GlossaryEntryModel), useValue: mockTypeOrmRepo },
+      ],
+    }).compile();
+
+    repository = module.get<GlossaryRepository>(GlossaryRepository);
+    jest.clearAllMocks();
+    mockTypeOrmRepo.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+  });
+
+  describe('save', () => {
+    it('should save and return the domain entity', async () => {
+      mockTypeOrmRepo.save.mockImplementation((m: GlossaryEntryModel) =>
+        Promise.resolve({ ...m, id: entryId }),
+      );
+      const entry = new GlossaryEntry({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      });
+
+      const result = await repository.save(entry);
+
+      expect(result.id).toBe(entryId);
+      expect(result.term).toBe('vacaciones');
+    });
+  });
+
+  describe('findById', () => {
+    it('should return null when not found', async () => {
+      mockTypeOrmRepo.findOne.mockResolvedValue(null);
+
+      expect(await repository.findById(entryId)).toBeNull();
+    });
+  });
+
+  describe('findBySector', () => {
+    it('should query global entries with IS NULL', async () => {
+      mockTypeOrmRepo.find.mockResolvedValue([createModel({ sectorId: null })]);
+
+      const result = await repository.findBySector(null);
+
+      expect(result).toHaveLength(1);
+      expect(mockTypeOrmRepo.find).toHaveBeenCalledWith({
+        where: { sectorId: IsNull() },
+        order: { type: 'ASC', term: 'ASC' },
+      });
+    });
+
+    it('should filter by sector and type', async () => {
+      mockTypeOrmRepo.find.mockResolvedValue([]);
+
+      await repository.findBySector(sectorId, GlossaryEntryType.SYNONYM);
+
+      expect(mockTypeOrmRepo.find).toHaveBeenCalledWith({
+        where: { sectorId, type: GlossaryEntryType.SYNONYM },
+        order: { type: 'ASC', term: 'ASC' },
+      });
+    });
+  });
+
+  describe('findEffective', () => {
+    it('should load global and sector entries in one query', async () => {
+      mockTypeOrmRepo.find.mockResolvedValue([
+        createModel({ sectorId: null }),
+        createModel(),
+      ]);
+
+      const result = await repository.findEffective(sectorId);
+
+      expect(result).toHaveLength(2);
+      expect(mockTypeOrmRepo.find).toHaveBeenCalledWith({
+        where: [{ sectorId: IsNull() }, { sectorId }],
+        order: { term: 'ASC' },
+      });
+    });
+  });
+
+  describe('existsByTerm', () => {
+    it('should scope global terms with IS NULL', async () => {
+      mockQueryBuilder.getCount.mockResolvedValue(1);
+
+      const result = await repository.existsByTerm(
+        null,
+        GlossaryEntryType.SYNONYM,
+        'vacaciones',
+      );
+
+      expect(result).toBe(true);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('entry.sector_id IS NULL');
+    });
+
+    it('should exclude the given ID', async () => {
+      mockQueryBuilder.getCount.mockResolvedValue(0);
+
+      const result = await repository.existsByTerm(
+        sectorId,
+        GlossaryEntryType.SYNONYM,
+        'vacaciones',
+        entryId,
+      );
+
+      expect(result).toBe(false);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('entry.sector_id = :sectorId', { sectorId });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('entry.id != :excludeId', { excludeId: entryId });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete by ID', async () => {
+      mockTypeOrmRepo.delete.mockResolvedValue({ affected: 1 });
+
+      await repository.delete(entryId);
+
+      expect(mockTypeOrmRepo.delete).toHaveBeenCalledWith(entryId);
+    });
+  });
+});
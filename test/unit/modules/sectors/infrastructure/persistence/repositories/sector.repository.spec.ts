@@ -81,6 +81,28 @@ describe('SectorRepository', () => {
       expect(mockTypeOrmRepo.findOne).toHaveBeenCalledWith({ where: { id: sectorId } });
     });
 
+    it('should persist hybrid search settings on update', async () => {
+      const existingModel = createModel();
+      mockTypeOrmRepo.findOne.mockResolvedValue(existingModel);
+      mockTypeOrmRepo.save.mockImplementation((m: SectorModel) => Promise.resolve(m));
+
+      const sector = new Sector({
+        name: 'Human Resources',
+        description: 'Company policies',
+        icon: SectorIcon.USERS,
+        hybridSearchEnabled: true,
+        hybridVectorWeight: 0.7,
+        hybridLexicalWeight: 0.3,
+      });
+      sector.id = sectorId;
+
+      const result = await repository.save(sector);
+
+      expect(result.hybridSearchEnabled).toBe(true);
+      expect(result.hybridVectorWeight).toBe(0.7);
+      expect(result.hybridLexicalWeight).toBe(0.3);
+    });
+
     it('should create new sector when id exists but not found in DB', async () => {
       const model = createModel();
       mockTypeOrmRepo.findOne.mockResolvedValue(null);
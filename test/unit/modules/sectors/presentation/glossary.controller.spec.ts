@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GlossaryController } from '../../../../../src/modules/sectors/presentation/glossary.controller';
+import { CreateGlossaryEntryUseCase } from '../../../../../src/modules/sectors/application/use-cases/create-glossary-entry.use-case';
+import { UpdateGlossaryEntryUseCase } from '../../../../../src/modules/sectors/application/use-cases/update-glossary-entry.use-case';
+import { DeleteGlossaryEntryUseCase } from '../../../../../src/modules/sectors/application/use-cases/delete-glossary-entry.use-case';
+import {
+  GlossaryEntry,
+  GlossaryEntryType,
+} from '../../../../../src/modules/sectors/domain/entities/glossary-entry.entity';
+import { JwtAuthGuard } from '../../../../../src/modules/auth/guards/jwt-auth.guard';
+import { RBACGuard } from '../../../../../src/modules/auth/guards/rbac.guard';
+import { PermissionService } from '../../../../../src/modules/auth/application/services/permission.service';
+import { TokenRevocationService } from '../../../../../src/modules/auth/application/services/token-revocation.service';
+
+describe('GlossaryController', () => {
+  let controller: GlossaryController;
+
+  const sectorId = '440e8400-e29b-41d4-a716-446655440000';
+  const entryId = '770e8400-e29b-41d4-a716-446655440000';
+
+  function createTestEntry(entrySectorId: string | null = sectorId): GlossaryEntry {
+    const entry = new GlossaryEntry({
+      sectorId: entrySectorId,
+      type: GlossaryEntryType.SYNONYM,
+      term: 'vacaciones',
+      synonyms: ['PTO'],
+    });
+    entry.id = entryId;
+    return entry;
+  }
+
+  const mockGlossaryRepository = {
+    save: jest.fn(),
+    findById: jest.fn(),
+    findBySector: jest.fn(),
+    findEffective: jest.fn(),
+    existsByTerm: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockCreateUseCase = { execute: jest.fn() };
+  const mockUpdateUseCase = { execute: jest.fn() };
+  const mockDeleteUseCase = { execute: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GlossaryController],
+      providers: [
+        { provide: CreateGlossaryEntryUseCase, useValue: mockCreateUseCase },
+        { provide: UpdateGlossaryEntryUseCase, useValue: mockUpdateUseCase },
+        { provide: DeleteGlossaryEntryUseCase, useValue: mockDeleteUseCase },
+        { provide: 'IGlossaryRepository', useValue: mockGlossaryRepository },
+        { provide: Reflector, useValue: { getAllAndOverride: jest.fn() } },
+        { provide: JwtAuthGuard, useValue: { canActivate: jest.fn().mockReturnValue(true) } },
+        { provide: RBACGuard, useValue: { canActivate: jest.fn().mockReturnValue(true) } },
+        { provide: PermissionService, useValue: { hasPermissions: jest.fn() } },
+        { provide: TokenRevocationService, useValue: { isTokenRevoked: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<GlossaryController>(GlossaryController);
+
+    jest.clearAllMocks();
+  });
+
+  describe('listEntries', () => {
+    it('should list the entries of a sector', async () => {
+      mockGlossaryRepository.findBySector.mockResolvedValue([createTestEntry()]);
+
+      const result = await controller.listEntries(sectorId, {
+        type: GlossaryEntryType.SYNONYM,
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].term).toBe('vacaciones');
+      expect(result[0].synonyms).toEqual(['PTO']);
+      expect(mockGlossaryRepository.findBySector).toHaveBeenCalledWith(
+        sectorId,
+        GlossaryEntryType.SYNONYM,
+      );
+    });
+
+    it('should map "global" to the global defaults', async () => {
+      mockGlossaryRepository.findBySector.mockResolvedValue([createTestEntry(null)]);
+
+      const result = await controller.listEntries('global', {});
+
+      expect(result[0].sectorId).toBeNull();
+      expect(mockGlossaryRepository.findBySector).toHaveBeenCalledWith(null, undefined);
+    });
+
+    it('should reject an invalid sector id', async () => {
+      await expect(controller.listEntries('not-a-uuid', {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('createEntry', () => {
+    it('should create an entry in the sector glossary', async () => {
+      mockCreateUseCase.execute.mockResolvedValue(createTestEntry());
+
+      const result = await controller.createEntry(sectorId, {
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+      });
+
+      expect(result.id).toBe(entryId);
+      expect(mockCreateUseCase.execute).toHaveBeenCalledWith({
+        sectorId,
+        type: GlossaryEntryType.SYNONYM,
+        term: 'vacaciones',
+        synonyms: ['PTO'],
+        responses: undefined,
+      });
+    });
+
+    it('should propagate use case errors', async () => {
+      mockCreateUseCase.execute.mockRejectedValue(new Error('boom'));
+
+      await expect(
+        controller.createEntry('global', {
+          type: GlossaryEntryType.SYNONYM,
+          term: 'vacaciones',
+          synonyms: ['PTO'],
+        }),
+      ).rejects.toThrow('boom');
+    });
+  });
+
+  describe('updateEntry', () => {
+    it('should update an entry', async () => {
+      mockUpdateUseCase.execute.mockResolvedValue(createTestEntry());
+
+      await controller.updateEntry(sectorId, entryId, { synonyms: ['PTO'] });
+
+      expect(mockUpdateUseCase.execute).toHaveBeenCalledWith({
+        id: entryId,
+        sectorId,
+        term: undefined,
+        synonyms: ['PTO'],
+        responses: undefined,
+      });
+    });
+
+    it('should reject an invalid entry id', async () => {
+      await expect(
+        controller.updateEntry(sectorId, 'bad-id', { term: 'x' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUpdateUseCase.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteEntry', () => {
+    it('should delete a global entry', async () => {
+      mockDeleteUseCase.execute.mockResolvedValue({
+        id: entryId,
+        message: 'Glossary entry deleted successfully',
+      });
+
+      const result = await controller.deleteEntry('global', entryId);
+
+      expect(result.id).toBe(entryId);
+      expect(mockDeleteUseCase.execute).toHaveBeenCalledWith(entryId, null);
+    });
+  });
+});
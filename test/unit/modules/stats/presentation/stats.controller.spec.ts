@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { Reflector } from '@nestjs/core';
 import { StatsController } from '../../../../../src/modules/stats/presentation/stats.controller';
 import { UserRepository } from '../../../../../src/modules/users/infrastructure/persistence/repositories/user.repository';
+import { AnswerEvaluation } from '../../../../../src/modules/interaction/domain/entities/answer-evaluation.entity';
 import { SectorStatus } from '@shared/types';
 import { JwtAuthGuard } from '../../../../../src/modules/auth/guards/jwt-auth.guard';
 import { RBACGuard } from '../../../../../src/modules/auth/guards/rbac.guard';
@@ -69,6 +70,13 @@ describe('StatsController', () => {
     transaction: jest.fn(),
   };
 
+  const mockEvaluationRepository = {
+    save: jest.fn(),
+    getScoreDistribution: jest.fn(),
+    getFailRates: jest.fn(),
+    findWorstScoring: jest.fn(),
+  };
+
   // ── Setup ────────────────────────────────────────────────────────────────
 
   beforeEach(async () => {
@@ -82,6 +90,10 @@ describe('StatsController', () => {
         },
         { provide: 'ISectorRepository', useValue: mockSectorRepository },
         { provide: 'IKnowledgeRepository', useValue: mockKnowledgeRepository },
+        {
+          provide: 'IAnswerEvaluationRepository',
+          useValue: mockEvaluationRepository,
+        },
         // Auth guards (global but need mocked providers)
         JwtAuthGuard,
         RBACGuard,
@@ -181,4 +193,125 @@ describe('StatsController', () => {
       expect(result.activeSectors).toBe(3);
     });
   });
+
+  describe('evaluation dashboard', () => {
+    const sectorId = '550e8400-e29b-41d4-a716-446655440000';
+    const from = new Date('2025-03-01T00:00:00Z');
+    const to = new Date('2025-04-01T00:00:00Z');
+
+    it('should return the score distribution for the filters', async () => {
+      const metric = {
+        buckets: [],
+        pass: 0,
+        fail: 0,
+        unknown: 0,
+        average: null,
+      };
+      const distribution = {
+        evaluations: 0,
+        faithfulness: metric,
+        relevancy: metric,
+      };
+      mockEvaluationRepository.getScoreDistribution.mockResolvedValue(
+        distribution,
+      );
+
+      const result = await controller.getEvaluationDistribution({
+        sectorId,
+        from,
+        to,
+      });
+
+      expect(result).toBe(distribution);
+      expect(
+        mockEvaluationRepository.getScoreDistribution,
+      ).toHaveBeenCalledWith({ sectorId, from, to });
+    });
+
+    it('should reject a period that ends before it starts', async () => {
+      await expect(
+        controller.getEvaluationDistribution({ from: to, to: from }),
+      ).rejects.toThrow('from must be before to');
+      expect(
+        mockEvaluationRepository.getScoreDistribution,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return daily fail rates by default', async () => {
+      const points = [
+        {
+          periodStart: from,
+          evaluations: 4,
+          failures: 1,
+          faithfulnessFailures: 1,
+          relevancyFailures: 0,
+          failRate: 0.25,
+        },
+      ];
+      mockEvaluationRepository.getFailRates.mockResolvedValue(points);
+
+      const result = await controller.getEvaluationFailRates({ sectorId });
+
+      expect(result).toEqual({ interval: 'day', points });
+      expect(mockEvaluationRepository.getFailRates).toHaveBeenCalledWith(
+        { sectorId },
+        'day',
+      );
+    });
+
+    it('should return weekly fail rates when asked', async () => {
+      mockEvaluationRepository.getFailRates.mockResolvedValue([]);
+
+      const result = await controller.getEvaluationFailRates({
+        interval: 'week',
+      });
+
+      expect(result).toEqual({ interval: 'week', points: [] });
+      expect(mockEvaluationRepository.getFailRates).toHaveBeenCalledWith(
+        {},
+        'week',
+      );
+    });
+
+    it('should return the worst-scoring answers of a sector', async () => {
+      const evaluation = new AnswerEvaluation({
+        messageId: 'msg-1',
+        conversationId: 'conv-1',
+        sectorId,
+        query: 'How many vacation days do I have?',
+        model: 'vertexai/gemini-2.5-flash',
+        fragmentIds: ['frag-1'],
+        faithfulness: { score: 0.3, status: 'FAIL', reasoning: 'Unsupported' },
+        relevancy: { score: 0.9, status: 'PASS', reasoning: 'On topic' },
+      });
+      mockEvaluationRepository.findWorstScoring.mockResolvedValue([evaluation]);
+
+      const result = await controller.getWorstScoringAnswers({ sectorId });
+
+      expect(mockEvaluationRepository.findWorstScoring).toHaveBeenCalledWith(
+        { sectorId },
+        20,
+      );
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: evaluation.id,
+          messageId: 'msg-1',
+          query: 'How many vacation days do I have?',
+          fragmentIds: ['frag-1'],
+          lowestScore: 0.3,
+          faithfulness: expect.objectContaining({ status: 'FAIL' }),
+        }),
+      ]);
+    });
+
+    it('should propagate errors from the evaluation repository', async () => {
+      mockEvaluationRepository.findWorstScoring.mockRejectedValue(
+        new Error('DB connection failed'),
+      );
+
+      await expect(
+        controller.getWorstScoringAnswers({ sectorId, limit: 5 }),
+      ).rejects.toThrow('DB connection failed');
+    });
+  });
 });
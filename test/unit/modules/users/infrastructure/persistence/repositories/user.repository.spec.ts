@@ -305,5 +305,30 @@ describe('UserRepository', () => {
       expect(mockTypeOrmRepo.save).toHaveBeenCalledWith(mockUserModel);
     });
   });
-});
 
+  describe('findSectorIds', () => {
+    it('should return the IDs of the sectors assigned to the user', async () => {
+      mockTypeOrmRepo.findOne.mockResolvedValue({
+        ...mockUserModel,
+        sectors: [{ id: 'sector-1' }, { id: 'sector-2' }],
+      });
+
+      const result = await repository.findSectorIds('user-uuid-123');
+
+      expect(result).toEqual(['sector-1', 'sector-2']);
+      expect(mockTypeOrmRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 'user-uuid-123' },
+        relations: { sectors: true },
+        select: { id: true, sectors: { id: true } },
+      });
+    });
+
+    it('should return no sectors for an unknown user', async () => {
+      mockTypeOrmRepo.findOne.mockResolvedValue(null);
+
+      const result = await repository.findSectorIds('nonexistent');
+
+      expect(result).toEqual([]);
+    });
+  });
+});
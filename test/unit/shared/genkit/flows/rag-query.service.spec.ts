@@ -0,0 +1,1040 @@
+jest.mock('@shared/genkit/genkit.config', () => ({
+  getGenkitInstance: jest.fn(),
+  GENKIT_CONFIG: {
+    LLM_MODEL: 'googleai/gemini-2.5-flash',
+    EMBEDDING_MODEL: 'googleai/gemini-embedding-001',
+    RAG_GENERATION_CONFIG: { temperature: 0.3 },
+  },
+}));
+
+jest.mock('@shared/genkit/evaluators', () => ({
+  createRagEvaluatorService: jest.fn(() => ({
+    evaluate: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+import { getGenkitInstance } from '../../../../../src/shared/genkit/genkit.config';
+import { createRagEvaluatorService } from '../../../../../src/shared/genkit/evaluators';
+import {
+  createRagQueryService,
+  RagResponseType,
+  type FragmentResult,
+} from '../../../../../src/shared/genkit/flows/rag-query.flow';
+import { createLexicalOverlapReranker } from '../../../../../src/shared/genkit/retrieval';
+
+const SECTOR_ID = 'sector-1';
+
+const FRAGMENTS: FragmentResult[] = [
+  {
+    id: 'frag-1',
+    content: 'Vacation requests must be submitted 15 days in advance.',
+    similarity: 0.91,
+    sourceId: 'source-1',
+  },
+  {
+    id: 'frag-2',
+    content: 'Requests are approved by the direct manager.',
+    similarity: 0.82,
+    sourceId: 'source-1',
+  },
+];
+
+const STRUCTURED = {
+  summary: 'Submit the request 15 days in advance.',
+  sections: [{ title: 'Steps', content: 'Use the HR portal.', type: 'steps' }],
+};
+
+describe('createRagQueryService', () => {
+  const mockEmbed = jest.fn();
+  const mockGenerate = jest.fn();
+  const mockVectorSearch = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.RAG_EVALUATION_ENABLED = 'false';
+    (getGenkitInstance as jest.Mock).mockReturnValue({
+      embed: mockEmbed,
+      generate: mockGenerate,
+    });
+    mockEmbed.mockResolvedValue([{ embedding: [0.1, 0.2, 0.3] }]);
+    mockVectorSearch.mockResolvedValue(FRAGMENTS);
+    mockGenerate.mockResolvedValue({
+      output: STRUCTURED,
+      text: JSON.stringify(STRUCTURED),
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.RAG_EVALUATION_ENABLED;
+  });
+
+  describe('executeQuery', () => {
+    it('returns a structured answer with the retrieved sources', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      const result = await executeQuery({
+        query: 'How do I request vacation days from my manager?',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(result.response).toBe(STRUCTURED.summary);
+      expect(result.sources).toEqual(FRAGMENTS);
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.not.objectContaining({ onChunk: expect.anything() }),
+      );
+    });
+  });
+
+  describe('follow-up rewriting', () => {
+    const FOLLOW_UP = 'and how many days in advance for that request?';
+    const REWRITTEN = 'How many days in advance must vacation be requested?';
+    const HISTORY = [
+      { role: 'user' as const, content: 'How do I request vacation?' },
+      { role: 'assistant' as const, content: 'Through the HR portal.' },
+    ];
+    const mockRewrite = jest.fn<Promise<string>, [string, unknown[]]>();
+    const queryRewriter = { rewrite: mockRewrite };
+
+    it('embeds and reports the standalone query when history is given', async () => {
+      mockRewrite.mockResolvedValue(REWRITTEN);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        queryRewriter,
+      });
+
+      const result = await executeQuery({
+        query: FOLLOW_UP,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        conversationHistory: HISTORY,
+      });
+
+      expect(mockRewrite).toHaveBeenCalledWith(FOLLOW_UP, HISTORY);
+      expect(mockEmbed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringContaining(REWRITTEN),
+        }),
+      );
+      expect(result.metadata?.rewrittenQuery).toBe(REWRITTEN);
+      // The generation prompt still answers the literal user question
+      const { prompt } = mockGenerate.mock.calls[0][0] as { prompt: string };
+      expect(prompt).toContain(FOLLOW_UP);
+    });
+
+    it('uses the rewritten query for lexical search in hybrid mode', async () => {
+      mockRewrite.mockResolvedValue(REWRITTEN);
+      const mockLexicalSearch = jest.fn().mockResolvedValue([]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        lexicalSearch: mockLexicalSearch,
+        queryRewriter,
+      });
+
+      await executeQuery({
+        query: FOLLOW_UP,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        conversationHistory: HISTORY,
+        hybridSearch: {
+          enabled: true,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+      });
+
+      expect(mockLexicalSearch).toHaveBeenCalledWith(
+        REWRITTEN,
+        SECTOR_ID,
+        expect.any(Number),
+        undefined,
+      );
+    });
+
+    it('skips rewriting without history', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        queryRewriter,
+      });
+
+      const result = await executeQuery({
+        query: FOLLOW_UP,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockRewrite).not.toHaveBeenCalled();
+      expect(result.metadata?.rewrittenQuery).toBeUndefined();
+    });
+
+    it('skips rewriting for conversational messages', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        queryRewriter,
+      });
+
+      const result = await executeQuery({
+        query: 'gracias',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        conversationHistory: HISTORY,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.CONVERSATIONAL);
+      expect(mockRewrite).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the literal message when rewriting fails', async () => {
+      mockRewrite.mockRejectedValue(new Error('quota exceeded'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        queryRewriter,
+      });
+
+      const result = await executeQuery({
+        query: FOLLOW_UP,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        conversationHistory: HISTORY,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(result.metadata?.rewrittenQuery).toBeUndefined();
+      expect(mockEmbed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringContaining(FOLLOW_UP),
+        }),
+      );
+    });
+  });
+
+  describe('citations', () => {
+    it('drops citation indices that do not match a prompt fragment', async () => {
+      mockGenerate.mockResolvedValue({
+        output: {
+          ...STRUCTURED,
+          sections: [
+            {
+              title: 'Steps',
+              content: 'Use the HR portal.',
+              type: 'steps',
+              citations: [2, 0, 3, 2, 1],
+            },
+            { title: 'Note', content: 'No citations.', type: 'info' },
+          ],
+        },
+        text: '',
+      });
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      const result = await executeQuery({
+        query: 'How do I request vacation days from my manager?',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.structured?.sections[0].citations).toEqual([2, 1]);
+      expect(result.structured?.sections[1].citations).toBeUndefined();
+    });
+  });
+
+  describe('hybrid search', () => {
+    const QUERY = 'What does policy POL-12 say?';
+    const mockLexicalSearch = jest.fn();
+
+    const LEXICAL_ONLY: FragmentResult = {
+      id: 'frag-3',
+      content: 'POL-12 covers remote work equipment.',
+      similarity: 0.4,
+      sourceId: 'source-2',
+    };
+
+    it('uses vector search only when hybrid search is disabled', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        lexicalSearch: mockLexicalSearch,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        hybridSearch: {
+          enabled: false,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+      });
+
+      expect(mockLexicalSearch).not.toHaveBeenCalled();
+      expect(result.sources).toEqual(FRAGMENTS);
+    });
+
+    it('fuses lexical and vector rankings before the maxResults cut', async () => {
+      mockLexicalSearch.mockResolvedValue([LEXICAL_ONLY, FRAGMENTS[1]]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        lexicalSearch: mockLexicalSearch,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 2,
+        minSimilarity: 0.5,
+        hybridSearch: {
+          enabled: true,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+      });
+
+      expect(mockLexicalSearch).toHaveBeenCalledWith(
+        QUERY,
+        SECTOR_ID,
+        6,
+        undefined,
+      );
+      // frag-2 is ranked by both strategies, so it overtakes frag-1
+      expect(result.sources.map((s) => s.id)).toEqual(['frag-2', 'frag-1']);
+      expect(result.sources[0].metadata?.retrieval).toEqual({
+        fusedScore: expect.any(Number),
+        vectorRank: 2,
+        lexicalRank: 2,
+      });
+    });
+
+    it('answers from lexical matches when vector search finds nothing', async () => {
+      mockVectorSearch.mockResolvedValue([]);
+      mockLexicalSearch.mockResolvedValue([LEXICAL_ONLY]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        lexicalSearch: mockLexicalSearch,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        hybridSearch: {
+          enabled: true,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(result.sources.map((s) => s.id)).toEqual(['frag-3']);
+      expect(result.sources[0].metadata?.retrieval).toEqual(
+        expect.objectContaining({ vectorRank: null, lexicalRank: 1 }),
+      );
+    });
+
+    it('falls back to vector results when lexical search fails', async () => {
+      mockLexicalSearch.mockRejectedValue(new Error('syntax error in tsquery'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        lexicalSearch: mockLexicalSearch,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        hybridSearch: {
+          enabled: true,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+      });
+
+      expect(result.sources.map((s) => s.id)).toEqual(['frag-1', 'frag-2']);
+    });
+  });
+
+  describe('reranking', () => {
+    const QUERY = 'Who approves vacation requests?';
+    const mockRerank = jest.fn();
+    const reranker = { name: 'test', rerank: mockRerank };
+
+    it('reranks the oversampled candidate pool before the prompt is built', async () => {
+      mockRerank.mockImplementation((_query, candidates: FragmentResult[]) =>
+        Promise.resolve([{ item: candidates[1], score: 0.9, originalRank: 2 }]),
+      );
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        reranker,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 1,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockRerank).toHaveBeenCalledWith(QUERY, FRAGMENTS, 1);
+      expect(result.sources).toEqual([
+        {
+          ...FRAGMENTS[1],
+          metadata: {
+            rerank: { score: 0.9, originalRank: 2, reranker: 'test' },
+          },
+        },
+      ]);
+      expect(result.metadata).toEqual(
+        expect.objectContaining({ fragmentsRetrieved: 2, fragmentsUsed: 1 }),
+      );
+      const { prompt } = mockGenerate.mock.calls[0][0] as { prompt: string };
+      expect(prompt).toContain(`[1] ${FRAGMENTS[1].content}`);
+      expect(prompt).not.toContain(FRAGMENTS[0].content);
+    });
+
+    it('keeps the retrieval order when the reranker fails', async () => {
+      mockRerank.mockRejectedValue(new Error('model unavailable'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        reranker,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 1,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(result.sources).toEqual([FRAGMENTS[0]]);
+    });
+
+    it('does not call the reranker when nothing was retrieved', async () => {
+      mockVectorSearch.mockResolvedValue([]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        reranker,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.NO_CONTEXT);
+      expect(mockRerank).not.toHaveBeenCalled();
+    });
+
+    it('reorders fragments with the lexical overlap reranker', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        reranker: createLexicalOverlapReranker(),
+      });
+
+      const result = await executeQuery({
+        query: 'Are requests approved by the direct manager?',
+        sectorId: SECTOR_ID,
+        maxResults: 2,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.sources.map((s) => s.id)).toEqual(['frag-2', 'frag-1']);
+      expect(result.sources[0].metadata?.rerank).toEqual({
+        score: expect.any(Number),
+        originalRank: 2,
+        reranker: 'lexical',
+      });
+    });
+  });
+
+  describe('glossary', () => {
+    const glossaryProvider = {
+      getGlossary: jest.fn(),
+    };
+
+    beforeEach(() => {
+      glossaryProvider.getGlossary.mockResolvedValue({
+        synonyms: new Map([['vacaciones', ['PTO', 'días libres']]]),
+        conversationalResponses: new Map([
+          ['buen finde', { es: '¡Igualmente!', en: 'You too!' }],
+        ]),
+      });
+    });
+
+    it('expands short queries with the sector synonyms', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        glossaryProvider,
+      });
+
+      await executeQuery({
+        query: '¿vacaciones?',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(glossaryProvider.getGlossary).toHaveBeenCalledWith(SECTOR_ID);
+      expect(mockEmbed).toHaveBeenCalledWith(
+        expect.objectContaining({ content: '¿vacaciones? PTO días libres' }),
+      );
+    });
+
+    it('answers glossary phrases with the configured reply', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        glossaryProvider,
+      });
+
+      const result = await executeQuery({
+        query: 'Buen finde!',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        language: 'en',
+      });
+
+      expect(result.responseType).toBe(RagResponseType.CONVERSATIONAL);
+      expect(result.response).toBe('You too!');
+      expect(mockEmbed).not.toHaveBeenCalled();
+    });
+
+    it('falls back to an empty glossary when loading fails', async () => {
+      glossaryProvider.getGlossary.mockRejectedValue(new Error('db down'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        glossaryProvider,
+      });
+
+      const result = await executeQuery({
+        query: '¿vacaciones?',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(mockEmbed).toHaveBeenCalledWith(
+        expect.objectContaining({ content: '¿vacaciones?' }),
+      );
+    });
+  });
+
+  describe('answer cache', () => {
+    const QUERY = 'How do I request vacation days from my manager?';
+    const mockLookup = jest.fn();
+    const mockStore = jest.fn();
+    const answerCache = { lookup: mockLookup, store: mockStore };
+
+    beforeEach(() => {
+      mockLookup.mockResolvedValue({ answer: null, epoch: 3 });
+      mockStore.mockResolvedValue(undefined);
+    });
+
+    it('returns a cached answer without searching or generating', async () => {
+      const onRetrieval = jest.fn();
+      mockLookup.mockResolvedValue({
+        answer: {
+          query: QUERY,
+          response: 'Cached answer',
+          structured: STRUCTURED,
+          sources: FRAGMENTS,
+        },
+        epoch: 3,
+      });
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+      });
+
+      const result = await executeQuery(
+        {
+          query: QUERY,
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onRetrieval },
+      );
+
+      expect(mockLookup).toHaveBeenCalledWith({
+        sectorId: SECTOR_ID,
+        embedding: [0.1, 0.2, 0.3],
+        language: undefined,
+      });
+      expect(result.responseType).toBe(RagResponseType.CACHED);
+      expect(result.response).toBe('Cached answer');
+      expect(result.sources).toEqual(FRAGMENTS);
+      expect(result.metadata.fragmentsRetrieved).toBe(0);
+      expect(onRetrieval).toHaveBeenCalledWith(FRAGMENTS);
+      expect(mockVectorSearch).not.toHaveBeenCalled();
+      expect(mockGenerate).not.toHaveBeenCalled();
+      expect(mockStore).not.toHaveBeenCalled();
+    });
+
+    it('stores the generated answer on a miss', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(mockStore).toHaveBeenCalledWith(
+        {
+          sectorId: SECTOR_ID,
+          embedding: [0.1, 0.2, 0.3],
+          language: undefined,
+        },
+        expect.objectContaining({
+          query: QUERY,
+          response: result.response,
+          sources: FRAGMENTS,
+        }),
+        3,
+      );
+    });
+
+    it('skips the cache when the query depends on unresolved history', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        conversationContext: 'User: What about sick leave?',
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(mockLookup).not.toHaveBeenCalled();
+      expect(mockStore).not.toHaveBeenCalled();
+    });
+
+    it('skips the cache and scopes retrieval when a filter is given', async () => {
+      const mockLexicalSearch = jest.fn().mockResolvedValue([]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+        lexicalSearch: mockLexicalSearch,
+      });
+      const retrievalFilter = { sourceIds: ['source-1'], tags: ['hr'] };
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        hybridSearch: {
+          enabled: true,
+          vectorWeight: 1,
+          lexicalWeight: 1,
+          rrfK: 60,
+        },
+        retrievalFilter,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(mockVectorSearch).toHaveBeenCalledWith(
+        [0.1, 0.2, 0.3],
+        SECTOR_ID,
+        15,
+        0.5,
+        retrievalFilter,
+      );
+      expect(mockLexicalSearch).toHaveBeenCalledWith(
+        QUERY,
+        SECTOR_ID,
+        15,
+        retrievalFilter,
+      );
+      expect(mockLookup).not.toHaveBeenCalled();
+      expect(mockStore).not.toHaveBeenCalled();
+    });
+
+    it('treats cache failures as misses', async () => {
+      mockLookup.mockRejectedValue(new Error('cache down'));
+      mockStore.mockRejectedValue(new Error('cache down'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+      });
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(mockVectorSearch).toHaveBeenCalled();
+    });
+
+    it('does not store the answer when the lookup failed', async () => {
+      mockLookup.mockRejectedValue(new Error('cache down'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, {
+        answerCache,
+      });
+
+      await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockStore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multilingual retrieval', () => {
+    const QUERY = 'How many vacation days do I have per year?';
+    const TRANSLATED = '¿Cuántos días de vacaciones tengo al año?';
+    const SPANISH_FRAGMENT: FragmentResult = {
+      id: 'frag-es',
+      content: 'Los empleados tienen 23 días laborables de vacaciones al año.',
+      similarity: 0.88,
+      sourceId: 'source-3',
+    };
+    const mockTranslate = jest.fn<Promise<string>, [string, string]>();
+    const mockGetCorpusLanguages = jest.fn<Promise<string[]>, [string]>();
+    const deps = {
+      queryTranslator: { translate: mockTranslate },
+      corpusLanguageResolver: { getCorpusLanguages: mockGetCorpusLanguages },
+    };
+
+    beforeEach(() => {
+      mockTranslate.mockResolvedValue(TRANSLATED);
+      mockGetCorpusLanguages.mockResolvedValue(['es', 'en']);
+    });
+
+    it('searches the translated query and merges the rankings per language', async () => {
+      mockVectorSearch
+        .mockResolvedValueOnce(FRAGMENTS)
+        .mockResolvedValueOnce([SPANISH_FRAGMENT, FRAGMENTS[1]]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, deps);
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 3,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockGetCorpusLanguages).toHaveBeenCalledWith(SECTOR_ID);
+      expect(mockTranslate).toHaveBeenCalledTimes(1);
+      expect(mockTranslate).toHaveBeenCalledWith(QUERY, 'es');
+      expect(mockEmbed).toHaveBeenCalledWith(
+        expect.objectContaining({ content: TRANSLATED }),
+      );
+      expect(mockVectorSearch).toHaveBeenCalledTimes(2);
+      // frag-2 is ranked in both languages, so it overtakes frag-1
+      expect(result.sources.map((s) => s.id)).toEqual([
+        'frag-2',
+        'frag-1',
+        'frag-es',
+      ]);
+      expect(result.sources[0].metadata?.multilingual).toEqual({
+        fusedScore: expect.any(Number),
+        ranks: { en: 2, es: 2 },
+      });
+      expect(result.metadata?.translatedQueries).toEqual([
+        { language: 'es', query: TRANSLATED },
+      ]);
+      // The answer is still generated for the question as the user asked it
+      const { prompt } = mockGenerate.mock.calls[0][0] as { prompt: string };
+      expect(prompt).toContain(QUERY);
+      expect(prompt).not.toContain(TRANSLATED);
+    });
+
+    it('does not translate when the corpus is in the language of the query', async () => {
+      mockGetCorpusLanguages.mockResolvedValue(['en']);
+      const { executeQuery } = createRagQueryService(mockVectorSearch, deps);
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockTranslate).not.toHaveBeenCalled();
+      expect(mockEmbed).toHaveBeenCalledTimes(1);
+      expect(result.sources).toEqual(FRAGMENTS);
+      expect(result.metadata?.translatedQueries).toBeUndefined();
+    });
+
+    it('uses the UI language when the query language is not detected', async () => {
+      const { executeQuery } = createRagQueryService(mockVectorSearch, deps);
+
+      await executeQuery({
+        query: 'POL-12 remote equipment?',
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+        language: 'es-ES',
+      });
+
+      expect(mockTranslate).toHaveBeenCalledTimes(1);
+      expect(mockTranslate).toHaveBeenCalledWith(
+        'POL-12 remote equipment?',
+        'en',
+      );
+    });
+
+    it('searches the original query only when translation fails', async () => {
+      mockTranslate.mockRejectedValue(new Error('quota exceeded'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, deps);
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockVectorSearch).toHaveBeenCalledTimes(1);
+      expect(result.responseType).toBe(RagResponseType.ANSWER);
+      expect(result.sources).toEqual(FRAGMENTS);
+      expect(result.metadata?.translatedQueries).toBeUndefined();
+    });
+
+    it('skips translation when the corpus languages cannot be resolved', async () => {
+      mockGetCorpusLanguages.mockRejectedValue(new Error('db down'));
+      const { executeQuery } = createRagQueryService(mockVectorSearch, deps);
+
+      const result = await executeQuery({
+        query: QUERY,
+        sectorId: SECTOR_ID,
+        maxResults: 5,
+        minSimilarity: 0.5,
+      });
+
+      expect(mockTranslate).not.toHaveBeenCalled();
+      expect(result.sources).toEqual(FRAGMENTS);
+    });
+  });
+
+  describe('stream handlers', () => {
+    it('emits retrieved fragments before generation starts', async () => {
+      const order: string[] = [];
+      const onRetrieval = jest.fn(() => order.push('retrieval'));
+      mockGenerate.mockImplementation(() => {
+        order.push('generate');
+        return Promise.resolve({ output: STRUCTURED, text: '' });
+      });
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onRetrieval },
+      );
+
+      expect(onRetrieval).toHaveBeenCalledWith(FRAGMENTS);
+      expect(order).toEqual(['retrieval', 'generate']);
+    });
+
+    it('streams the summary text of the structured output', async () => {
+      const onToken = jest.fn();
+      mockGenerate.mockImplementation(
+        (opts: { onChunk?: (chunk: { text: string }) => void }) => {
+          opts.onChunk?.({ text: '{"summ' });
+          opts.onChunk?.({ text: 'ary": "Submit \\"Form' });
+          opts.onChunk?.({ text: ' A\\" \\u00' });
+          opts.onChunk?.({ text: 'e1nd wait", "sections": [' });
+          opts.onChunk?.({ text: '{"title": "Steps"}]}' });
+          return Promise.resolve({ output: STRUCTURED, text: '' });
+        },
+      );
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onToken },
+      );
+
+      expect(onToken.mock.calls).toEqual([
+        ['Submit "Form'],
+        [' A" '],
+        ['ánd wait'],
+      ]);
+    });
+
+    it('resets the stream before streaming the plain-text fallback', async () => {
+      const events: string[] = [];
+      mockGenerate
+        .mockImplementationOnce(
+          (opts: { onChunk?: (chunk: { text: string }) => void }) => {
+            opts.onChunk?.({ text: '{"summary": "Sub' });
+            return Promise.reject(new Error('Invalid structured output'));
+          },
+        )
+        .mockImplementationOnce(
+          (opts: { onChunk?: (chunk: { text: string }) => void }) => {
+            opts.onChunk?.({ text: 'Submit the request.' });
+            return Promise.resolve({ text: 'Submit the request.' });
+          },
+        );
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      const result = await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        {
+          onToken: (delta) => events.push(`token:${delta}`),
+          onReset: () => events.push('reset'),
+        },
+      );
+
+      expect(result.response).toBe('Submit the request.');
+      expect(events).toEqual([
+        'token:Sub',
+        'reset',
+        'token:Submit the request.',
+      ]);
+    });
+
+    it('does not stream the fallback without a reset handler', async () => {
+      const onToken = jest.fn();
+      mockGenerate
+        .mockImplementationOnce(
+          (opts: { onChunk?: (chunk: { text: string }) => void }) => {
+            opts.onChunk?.({ text: '{"summary": "Sub' });
+            return Promise.reject(new Error('Invalid structured output'));
+          },
+        )
+        .mockResolvedValueOnce({ text: 'Submit the request.' });
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onToken },
+      );
+
+      expect(onToken.mock.calls).toEqual([['Sub']]);
+      expect(mockGenerate).toHaveBeenLastCalledWith(
+        expect.not.objectContaining({ onChunk: expect.anything() }),
+      );
+    });
+
+    it('emits an empty retrieval when no context is found', async () => {
+      const onRetrieval = jest.fn();
+      mockVectorSearch.mockResolvedValue([]);
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      const result = await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onRetrieval },
+      );
+
+      expect(result.responseType).toBe(RagResponseType.NO_CONTEXT);
+      expect(onRetrieval).toHaveBeenCalledWith([]);
+      expect(mockGenerate).not.toHaveBeenCalled();
+    });
+
+    it('does not call handlers for conversational queries', async () => {
+      const onRetrieval = jest.fn();
+      const onToken = jest.fn();
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      const result = await executeQuery(
+        {
+          query: 'hola',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onRetrieval, onToken },
+      );
+
+      expect(result.responseType).toBe(RagResponseType.CONVERSATIONAL);
+      expect(onRetrieval).not.toHaveBeenCalled();
+      expect(onToken).not.toHaveBeenCalled();
+    });
+
+    it('hands the background evaluation of an answer to onEvaluation', async () => {
+      process.env.RAG_EVALUATION_ENABLED = 'true';
+      const evaluation = {
+        faithfulness: { score: 0.9, status: 'PASS', reasoning: 'Grounded' },
+        relevancy: { score: 0.4, status: 'FAIL', reasoning: 'Off topic' },
+      };
+      const mockEvaluate = jest.fn().mockResolvedValue(evaluation);
+      (createRagEvaluatorService as jest.Mock).mockReturnValueOnce({
+        evaluate: mockEvaluate,
+      });
+      const onEvaluation = jest.fn();
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onEvaluation },
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockEvaluate).toHaveBeenCalledWith({
+        query: 'How do I request vacation days from my manager?',
+        response: STRUCTURED.summary,
+        context: FRAGMENTS.map((fragment) => fragment.content),
+      });
+      expect(onEvaluation).toHaveBeenCalledWith({
+        evaluation,
+        model: 'googleai/gemini-2.5-flash',
+        fragmentIds: ['frag-1', 'frag-2'],
+      });
+    });
+
+    it('does not evaluate answers when evaluations are disabled', async () => {
+      const onEvaluation = jest.fn();
+      const { executeQuery } = createRagQueryService(mockVectorSearch);
+
+      await executeQuery(
+        {
+          query: 'How do I request vacation days from my manager?',
+          sectorId: SECTOR_ID,
+          maxResults: 5,
+          minSimilarity: 0.5,
+        },
+        { onEvaluation },
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(onEvaluation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { createLexicalOverlapReranker } from '@shared/genkit/retrieval';
+
+const doc = (id: string, content: string) => ({ id, content });
+
+describe('createLexicalOverlapReranker', () => {
+  const reranker = createLexicalOverlapReranker();
+
+  it('should expose its name for fragment metadata', () => {
+    expect(reranker.name).toBe('lexical');
+  });
+
+  it('should score candidates by the fraction of query terms they contain', async () => {
+    const results = await reranker.rerank(
+      'remote work equipment policy',
+      [
+        doc('a', 'The cafeteria opens at 8am.'),
+        doc('b', 'Remote work requires manager approval.'),
+        doc('c', 'The remote work policy covers equipment costs.'),
+      ],
+      3,
+    );
+
+    expect(results.map((r) => r.item.id)).toEqual(['c', 'b', 'a']);
+    expect(results[0].score).toBe(1);
+    expect(results[1].score).toBe(0.5);
+    expect(results[2].score).toBe(0);
+  });
+
+  it('should record the 1-based position before reranking', async () => {
+    const results = await reranker.rerank(
+      'payroll',
+      [doc('a', 'Holidays calendar.'), doc('b', 'Payroll is paid monthly.')],
+      2,
+    );
+
+    expect(results[0]).toEqual(
+      expect.objectContaining({ originalRank: 2, score: 1 }),
+    );
+    expect(results[1].originalRank).toBe(1);
+  });
+
+  it('should ignore case and diacritics', async () => {
+    const [result] = await reranker.rerank(
+      'Vacación',
+      [doc('a', 'Solicitud de VACACION anual')],
+      1,
+    );
+
+    expect(result.score).toBe(1);
+  });
+
+  it('should keep retrieval order for ties', async () => {
+    const results = await reranker.rerank(
+      'badge',
+      [doc('a', 'badge office'), doc('b', 'badge reader'), doc('c', 'badge')],
+      3,
+    );
+
+    expect(results.map((r) => r.item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should return at most topN candidates', async () => {
+    const results = await reranker.rerank(
+      'badge',
+      [doc('a', 'badge'), doc('b', 'badge'), doc('c', 'badge')],
+      2,
+    );
+
+    expect(results).toHaveLength(2);
+  });
+
+  it('should score everything 0 when the query has no usable terms', async () => {
+    const results = await reranker.rerank(
+      '¿?',
+      [doc('a', 'first'), doc('b', 'second')],
+      2,
+    );
+
+    expect(results.map((r) => [r.item.id, r.score])).toEqual([
+      ['a', 0],
+      ['b', 0],
+    ]);
+  });
+});
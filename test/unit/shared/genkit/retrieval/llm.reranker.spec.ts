@@ -0,0 +1,111 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Genkit } from 'genkit';
+import {
+  createLlmReranker,
+  LLM_RERANKER_CONFIG,
+  type IReranker,
+} from '@shared/genkit/retrieval';
+
+type MockGenerateFn = jest.Mock<
+  Promise<{ output: unknown }>,
+  [params: Record<string, unknown>]
+>;
+
+const CANDIDATES = [
+  { id: 'a', content: 'The cafeteria opens at 8am.' },
+  { id: 'b', content: 'Vacation requests need 15 days notice.' },
+  { id: 'c', content: 'Vacation days are approved by your manager.' },
+];
+
+describe('createLlmReranker', () => {
+  let mockGenerate: MockGenerateFn;
+  let reranker: IReranker;
+
+  beforeEach(() => {
+    mockGenerate = jest.fn<
+      Promise<{ output: unknown }>,
+      [params: Record<string, unknown>]
+    >();
+    reranker = createLlmReranker({
+      generate: mockGenerate as unknown as Genkit['generate'],
+    } as Genkit);
+  });
+
+  it('should order candidates by the scores returned by the model', async () => {
+    mockGenerate.mockResolvedValue({
+      output: {
+        scores: [
+          { index: 1, score: 0 },
+          { index: 2, score: 0.7 },
+          { index: 3, score: 0.95 },
+        ],
+      },
+    });
+
+    const results = await reranker.rerank(
+      'How do I request vacation?',
+      CANDIDATES,
+      2,
+    );
+
+    expect(results).toEqual([
+      { item: CANDIDATES[2], score: 0.95, originalRank: 3 },
+      { item: CANDIDATES[1], score: 0.7, originalRank: 2 },
+    ]);
+    expect(reranker.name).toBe('llm');
+  });
+
+  it('should send every candidate to a single deterministic generate call', async () => {
+    mockGenerate.mockResolvedValue({ output: { scores: [] } });
+
+    await reranker.rerank('How do I request vacation?', CANDIDATES, 3);
+
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+    const params = mockGenerate.mock.calls[0][0];
+    expect(params.prompt).toEqual(expect.stringContaining('[3] Vacation days'));
+    expect(params.output).toEqual({ schema: expect.anything() });
+    expect(params.config).toEqual(
+      expect.objectContaining({ temperature: LLM_RERANKER_CONFIG.TEMPERATURE }),
+    );
+  });
+
+  it('should truncate long candidates in the prompt', async () => {
+    mockGenerate.mockResolvedValue({ output: { scores: [] } });
+    const longContent = 'x'.repeat(LLM_RERANKER_CONFIG.MAX_CANDIDATE_CHARS * 2);
+
+    await reranker.rerank('query', [{ id: 'a', content: longContent }], 1);
+
+    const prompt = mockGenerate.mock.calls[0][0].prompt as string;
+    expect(prompt).not.toContain(longContent);
+    expect(prompt).toContain(
+      'x'.repeat(LLM_RERANKER_CONFIG.MAX_CANDIDATE_CHARS),
+    );
+  });
+
+  it('should score candidates the model skipped as 0', async () => {
+    mockGenerate.mockResolvedValue({
+      output: { scores: [{ index: 2, score: 0.6 }] },
+    });
+
+    const results = await reranker.rerank('vacation', CANDIDATES, 3);
+
+    expect(results.map((r) => [r.item.id, r.score])).toEqual([
+      ['b', 0.6],
+      ['a', 0],
+      ['c', 0],
+    ]);
+  });
+
+  it('should not call the model when there are no candidates', async () => {
+    const results = await reranker.rerank('vacation', [], 3);
+
+    expect(results).toEqual([]);
+    expect(mockGenerate).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the model output does not match the schema', async () => {
+    mockGenerate.mockResolvedValue({ output: null });
+
+    await expect(reranker.rerank('vacation', CANDIDATES, 3)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Genkit } from 'genkit';
+import {
+  createLlmQueryRewriter,
+  QUERY_REWRITER_CONFIG,
+  type ConversationTurn,
+  type IQueryRewriter,
+} from '@shared/genkit/retrieval';
+
+type MockGenerateFn = jest.Mock<
+  Promise<{ text: string }>,
+  [params: Record<string, unknown>]
+>;
+
+const HISTORY: ConversationTurn[] = [
+  { role: 'user', content: 'What is the vacation policy?' },
+  { role: 'assistant', content: 'You get 23 working days per year.' },
+];
+
+describe('createLlmQueryRewriter', () => {
+  let mockGenerate: MockGenerateFn;
+  let rewriter: IQueryRewriter;
+
+  beforeEach(() => {
+    mockGenerate = jest.fn<
+      Promise<{ text: string }>,
+      [params: Record<string, unknown>]
+    >();
+    rewriter = createLlmQueryRewriter({
+      generate: mockGenerate as unknown as Genkit['generate'],
+    } as Genkit);
+  });
+
+  it('should return the standalone query produced by the model', async () => {
+    mockGenerate.mockResolvedValue({
+      text: '  How many vacation days can be carried over?\n',
+    });
+
+    const result = await rewriter.rewrite(
+      'and how many days for that?',
+      HISTORY,
+    );
+
+    expect(result).toBe('How many vacation days can be carried over?');
+  });
+
+  it('should include the history and the latest message in one deterministic call', async () => {
+    mockGenerate.mockResolvedValue({ text: 'rewritten' });
+
+    await rewriter.rewrite('and for that?', HISTORY);
+
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+    const params = mockGenerate.mock.calls[0][0];
+    expect(params.prompt).toEqual(
+      expect.stringContaining('User: What is the vacation policy?'),
+    );
+    expect(params.prompt).toEqual(
+      expect.stringContaining('Assistant: You get 23 working days per year.'),
+    );
+    expect(params.prompt).toEqual(expect.stringContaining('and for that?'));
+    expect(params.config).toEqual(
+      expect.objectContaining({
+        temperature: QUERY_REWRITER_CONFIG.TEMPERATURE,
+      }),
+    );
+  });
+
+  it('should strip quotes wrapped around the rewrite', async () => {
+    mockGenerate.mockResolvedValue({ text: '"¿Cuántos días de vacaciones?"' });
+
+    const result = await rewriter.rewrite('¿y cuántos?', HISTORY);
+
+    expect(result).toBe('¿Cuántos días de vacaciones?');
+  });
+
+  it('should truncate long history turns', async () => {
+    mockGenerate.mockResolvedValue({ text: 'rewritten' });
+    const longTurn = 'x'.repeat(QUERY_REWRITER_CONFIG.MAX_TURN_CHARS * 2);
+
+    await rewriter.rewrite('and that?', [
+      { role: 'assistant', content: longTurn },
+    ]);
+
+    const prompt = mockGenerate.mock.calls[0][0].prompt as string;
+    expect(prompt).not.toContain(longTurn);
+  });
+
+  it('should keep the original query when the model returns nothing', async () => {
+    mockGenerate.mockResolvedValue({ text: '  ' });
+
+    const result = await rewriter.rewrite('and for that?', HISTORY);
+
+    expect(result).toBe('and for that?');
+  });
+
+  it('should not call the model without history', async () => {
+    const result = await rewriter.rewrite('What is the vacation policy?', []);
+
+    expect(result).toBe('What is the vacation policy?');
+    expect(mockGenerate).not.toHaveBeenCalled();
+  });
+});
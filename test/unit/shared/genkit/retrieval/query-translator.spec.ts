@@ -0,0 +1,75 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Genkit } from 'genkit';
+import {
+  createLlmQueryTranslator,
+  QUERY_TRANSLATOR_CONFIG,
+  type IQueryTranslator,
+} from '@shared/genkit/retrieval';
+
+type MockGenerateFn = jest.Mock<
+  Promise<{ text: string }>,
+  [params: Record<string, unknown>]
+>;
+
+describe('createLlmQueryTranslator', () => {
+  let mockGenerate: MockGenerateFn;
+  let translator: IQueryTranslator;
+
+  beforeEach(() => {
+    mockGenerate = jest.fn<
+      Promise<{ text: string }>,
+      [params: Record<string, unknown>]
+    >();
+    translator = createLlmQueryTranslator({
+      generate: mockGenerate as unknown as Genkit['generate'],
+    } as Genkit);
+  });
+
+  it('should return the translation produced by the model, without quotes', async () => {
+    mockGenerate.mockResolvedValue({
+      text: '"¿Cuántos días de vacaciones tengo?"\n',
+    });
+
+    const result = await translator.translate(
+      'How many vacation days do I have?',
+      'es',
+    );
+
+    expect(result).toBe('¿Cuántos días de vacaciones tengo?');
+  });
+
+  it('should name the target language in one deterministic call', async () => {
+    mockGenerate.mockResolvedValue({ text: 'translated' });
+
+    await translator.translate('¿Cuántos días de vacaciones tengo?', 'en');
+
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+    const params = mockGenerate.mock.calls[0][0];
+    expect(params.prompt).toEqual(expect.stringContaining('into English'));
+    expect(params.prompt).toEqual(
+      expect.stringContaining('¿Cuántos días de vacaciones tengo?'),
+    );
+    expect(params.config).toEqual(
+      expect.objectContaining({
+        temperature: QUERY_TRANSLATOR_CONFIG.TEMPERATURE,
+      }),
+    );
+  });
+
+  it('should fall back to the language code for unnamed languages', async () => {
+    mockGenerate.mockResolvedValue({ text: 'translated' });
+
+    await translator.translate('vacation days', 'nl');
+
+    const prompt = mockGenerate.mock.calls[0][0].prompt as string;
+    expect(prompt).toContain('into nl');
+  });
+
+  it('should keep the original query when the model returns nothing', async () => {
+    mockGenerate.mockResolvedValue({ text: '  ' });
+
+    const result = await translator.translate('vacation days', 'es');
+
+    expect(result).toBe('vacation days');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_RRF_K,
+  fuseWithReciprocalRank,
+} from '@shared/genkit/retrieval';
+
+const doc = (id: string) => ({ id, content: `content ${id}` });
+
+describe('fuseWithReciprocalRank', () => {
+  it('should score items as weight / (k + rank) with 1-based ranks', () => {
+    const [result] = fuseWithReciprocalRank(
+      [{ name: 'vector', items: [doc('a')], weight: 1 }],
+      10,
+    );
+
+    expect(result.score).toBeCloseTo(1 / 11);
+    expect(result.ranks).toEqual({ vector: 1 });
+  });
+
+  it('should default k to the standard RRF constant', () => {
+    const [result] = fuseWithReciprocalRank([
+      { name: 'vector', items: [doc('a')], weight: 1 },
+    ]);
+
+    expect(DEFAULT_RRF_K).toBe(60);
+    expect(result.score).toBeCloseTo(1 / 61);
+  });
+
+  it('should merge items found by several lists and sum their contributions', () => {
+    const results = fuseWithReciprocalRank(
+      [
+        { name: 'vector', items: [doc('a'), doc('b')], weight: 1 },
+        { name: 'lexical', items: [doc('b'), doc('c')], weight: 1 },
+      ],
+      1,
+    );
+
+    expect(results.map((r) => r.item.id)).toEqual(['b', 'a', 'c']);
+    expect(results[0].score).toBeCloseTo(1 / 3 + 1 / 2);
+    expect(results[0].ranks).toEqual({ vector: 2, lexical: 1 });
+  });
+
+  it('should apply list weights', () => {
+    const results = fuseWithReciprocalRank(
+      [
+        { name: 'vector', items: [doc('a')], weight: 0.2 },
+        { name: 'lexical', items: [doc('b')], weight: 1 },
+      ],
+      DEFAULT_RRF_K,
+    );
+
+    expect(results.map((r) => r.item.id)).toEqual(['b', 'a']);
+  });
+
+  it('should ignore a list with zero weight when ranking', () => {
+    const results = fuseWithReciprocalRank([
+      { name: 'vector', items: [doc('a'), doc('b')], weight: 1 },
+      { name: 'lexical', items: [doc('b')], weight: 0 },
+    ]);
+
+    expect(results.map((r) => r.item.id)).toEqual(['a', 'b']);
+  });
+
+  it('should keep the item from the first list that returned it', () => {
+    const vectorHit = { id: 'a', content: 'from vector' };
+    const lexicalHit = { id: 'a', content: 'from lexical' };
+
+    const [result] = fuseWithReciprocalRank([
+      { name: 'vector', items: [vectorHit], weight: 1 },
+      { name: 'lexical', items: [lexicalHit], weight: 1 },
+    ]);
+
+    expect(result.item).toBe(vectorHit);
+  });
+
+  it('should return an empty list when there is nothing to fuse', () => {
+    expect(
+      fuseWithReciprocalRank([{ name: 'vector', items: [], weight: 1 }]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { readNumberEnv } from '@shared/utils';
+
+const NAME = 'TEST_NUMBER_ENV';
+
+describe('readNumberEnv', () => {
+  afterEach(() => {
+    delete process.env[NAME];
+  });
+
+  it('should parse a numeric value', () => {
+    process.env[NAME] = '0.75';
+
+    expect(readNumberEnv(NAME, 1)).toBe(0.75);
+  });
+
+  it('should fall back when unset or blank', () => {
+    expect(readNumberEnv(NAME, 5)).toBe(5);
+
+    process.env[NAME] = '  ';
+    expect(readNumberEnv(NAME, 5)).toBe(5);
+  });
+
+  it('should fall back and report a value that is not a number', () => {
+    const onInvalid = jest.fn();
+    process.env[NAME] = 'many';
+
+    expect(readNumberEnv(NAME, 5, { onInvalid })).toBe(5);
+    expect(onInvalid).toHaveBeenCalledWith('many');
+  });
+
+  it('should fall back and report a value that fails validation', () => {
+    const onInvalid = jest.fn();
+    process.env[NAME] = '2.5';
+
+    expect(
+      readNumberEnv(NAME, 5, {
+        isValid: (value) => Number.isInteger(value),
+        onInvalid,
+      }),
+    ).toBe(5);
+    expect(onInvalid).toHaveBeenCalledWith('2.5');
+  });
+});
@@ -0,0 +1,18 @@
+import { sha256Hex } from '@shared/utils';
+
+describe('sha256Hex', () => {
+  it('should return the hex SHA-256 digest', () => {
+    expect(sha256Hex('hello')).toBe(
+      '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+    );
+  });
+
+  it('should hash multi-byte characters as UTF-8', () => {
+    expect(sha256Hex('café')).not.toBe(sha256Hex('cafe'));
+    expect(sha256Hex('café')).toHaveLength(64);
+  });
+
+  it('should be deterministic', () => {
+    expect(sha256Hex('same content')).toBe(sha256Hex('same content'));
+  });
+});
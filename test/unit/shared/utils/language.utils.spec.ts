@@ -0,0 +1,35 @@
+import { detectLanguage } from '@shared/utils';
+
+describe('detectLanguage', () => {
+  it('should detect Spanish questions and documents', () => {
+    expect(detectLanguage('¿Cuántos días de vacaciones tengo?')).toBe('es');
+    expect(
+      detectLanguage(
+        'Los empleados disponen de 23 días laborables de vacaciones al año.',
+      ),
+    ).toBe('es');
+  });
+
+  it('should detect English questions and documents', () => {
+    expect(detectLanguage('How many vacation days do I have?')).toBe('en');
+    expect(
+      detectLanguage(
+        'Employees are entitled to 23 working days of vacation per year.',
+      ),
+    ).toBe('en');
+  });
+
+  it('should detect Portuguese and French', () => {
+    expect(detectLanguage('Quantos dias de férias eu tenho por ano?')).toBe(
+      'pt',
+    );
+    expect(detectLanguage('Combien de jours de congés ai-je par an ?')).toBe(
+      'fr',
+    );
+  });
+
+  it('should leave texts without a distinctive word undetected', () => {
+    expect(detectLanguage('Onboarding 2024')).toBeUndefined();
+    expect(detectLanguage('')).toBeUndefined();
+  });
+});
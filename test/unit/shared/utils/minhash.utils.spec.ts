@@ -0,0 +1,72 @@
+import { minHashSignature, minHashSimilarity } from '@shared/utils';
+
+const HANDBOOK = Array.from(
+  { length: 200 },
+  (_, i) => `Rule ${i}: employees must follow procedure number ${i} at work.`,
+).join('\n');
+
+describe('minHashSignature', () => {
+  it('should return 128 unsigned 32-bit integers', () => {
+    const signature = minHashSignature(HANDBOOK);
+
+    expect(signature).toHaveLength(128);
+    for (const value of signature) {
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(0xffffffff);
+    }
+  });
+
+  it('should be deterministic', () => {
+    expect(minHashSignature(HANDBOOK)).toEqual(minHashSignature(HANDBOOK));
+  });
+
+  it('should ignore case, punctuation and whitespace', () => {
+    expect(minHashSignature('Hello,   World! How are you?')).toEqual(
+      minHashSignature('hello world how are you'),
+    );
+  });
+
+  it('should sign texts shorter than a shingle', () => {
+    expect(minHashSignature('Hello')).toHaveLength(128);
+  });
+
+  it('should return an empty signature for text without words', () => {
+    expect(minHashSignature('  ... ')).toEqual([]);
+  });
+});
+
+describe('minHashSimilarity', () => {
+  it('should return 1 for identical texts', () => {
+    const signature = minHashSignature(HANDBOOK);
+
+    expect(minHashSimilarity(signature, signature)).toBe(1);
+  });
+
+  it('should be high for a lightly edited text', () => {
+    const edited = HANDBOOK.replace(
+      'Rule 10: employees must follow procedure number 10 at work.',
+      'Rule 10: contractors should read the guide.',
+    );
+
+    expect(
+      minHashSimilarity(minHashSignature(HANDBOOK), minHashSignature(edited)),
+    ).toBeGreaterThan(0.9);
+  });
+
+  it('should be low for unrelated texts', () => {
+    const other = Array.from(
+      { length: 200 },
+      (_, i) => `Invoice ${i} totals ${i * 3} euros, paid by card.`,
+    ).join('\n');
+
+    expect(
+      minHashSimilarity(minHashSignature(HANDBOOK), minHashSignature(other)),
+    ).toBeLessThan(0.1);
+  });
+
+  it('should return 0 for empty or mismatched signatures', () => {
+    expect(minHashSimilarity([], [])).toBe(0);
+    expect(minHashSimilarity([1, 2], [1])).toBe(0);
+  });
+});
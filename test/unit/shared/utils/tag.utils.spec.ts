@@ -0,0 +1,20 @@
+import { normalizeTag, normalizeTags } from '@shared/utils';
+
+describe('normalizeTag', () => {
+  it('should trim, collapse whitespace and lowercase', () => {
+    expect(normalizeTag('  Human \t Resources ')).toBe('human resources');
+  });
+
+  it('should return an empty string for blank tags', () => {
+    expect(normalizeTag('   ')).toBe('');
+  });
+});
+
+describe('normalizeTags', () => {
+  it('should drop blanks and duplicates, keeping first-seen order', () => {
+    expect(normalizeTags(['HR', 'policies', ' hr ', '', 'Policies'])).toEqual([
+      'hr',
+      'policies',
+    ]);
+  });
+});
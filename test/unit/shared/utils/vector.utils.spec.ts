@@ -0,0 +1,25 @@
+import { cosineSimilarity } from '@shared/utils';
+
+describe('cosineSimilarity', () => {
+  it('should return 1 for vectors pointing in the same direction', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+  });
+
+  it('should return 0 for orthogonal vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('should return -1 for opposite vectors', () => {
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+  });
+
+  it('should return 0 when a vector has zero magnitude', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it('should throw on dimension mismatch', () => {
+    expect(() => cosineSimilarity([1, 2], [1, 2, 3])).toThrow(
+      'Vector dimension mismatch: 2 vs 3',
+    );
+  });
+});